@@ -568,6 +568,52 @@ ipcMain.handle('git:diff-file', async (_event, workspacePath: string, filePath:
   }
 });
 
+/**
+ * Get the content of a file at a ref (null if it does not exist there)
+ */
+ipcMain.handle('git:show', async (_event, workspacePath: string, ref: string, filePath: string) => {
+  try {
+    const simpleGit = await getSimpleGit();
+    const git = simpleGit(workspacePath);
+    // "./" resolves the path relative to the workspace folder rather than the repo root
+    return await git.show([`${ref}:./${filePath}`]);
+  } catch {
+    return null;
+  }
+});
+
+/**
+ * Files below the workspace folder at a ref, relative to the folder
+ */
+ipcMain.handle('git:list-files', async (_event, workspacePath: string, ref: string) => {
+  try {
+    const simpleGit = await getSimpleGit();
+    const git = simpleGit(workspacePath);
+    const output = await git.raw(['ls-tree', '-r', '--name-only', ref, '--', '.']);
+    return output.split('\n').filter(Boolean);
+  } catch {
+    return null;
+  }
+});
+
+/**
+ * Git dir and hooks dir of the repository containing the workspace folder, which may be
+ * a subfolder of the repo or a worktree
+ */
+ipcMain.handle('git:hook-dirs', async (_event, workspacePath: string) => {
+  try {
+    const simpleGit = await getSimpleGit();
+    const git = simpleGit(workspacePath);
+    const gitDir = (await git.raw(['rev-parse', '--absolute-git-dir'])).trim();
+    const hooksDir = (
+      await git.raw(['rev-parse', '--path-format=absolute', '--git-path', 'hooks'])
+    ).trim();
+    return { gitDir, hooksDir };
+  } catch {
+    return null;
+  }
+});
+
 /**
  * Discard changes (checkout/clean)
  */
@@ -136,6 +136,29 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return await ipcRenderer.invoke('git:diff-file', workspacePath, filePath);
   },
 
+  /**
+   * Get the content of a file at a ref
+   */
+  gitShow: async (workspacePath: string, ref: string, filePath: string): Promise<string | null> => {
+    return await ipcRenderer.invoke('git:show', workspacePath, ref, filePath);
+  },
+
+  /**
+   * List the files below the workspace folder at a ref
+   */
+  gitListFiles: async (workspacePath: string, ref: string): Promise<string[] | null> => {
+    return await ipcRenderer.invoke('git:list-files', workspacePath, ref);
+  },
+
+  /**
+   * Git dir and hooks dir of the repository containing the workspace folder
+   */
+  gitHookDirs: async (
+    workspacePath: string
+  ): Promise<{ gitDir: string; hooksDir: string } | null> => {
+    return await ipcRenderer.invoke('git:hook-dirs', workspacePath);
+  },
+
   /**
    * Discard changes
    */
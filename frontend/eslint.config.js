@@ -13,6 +13,7 @@ export default [
       'node_modules/**',
       'dist/**',
       'dist-electron/**',
+      'dist-cli/**',
       'build/**',
       'coverage/**',
       '*.min.js',
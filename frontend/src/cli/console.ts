@@ -0,0 +1,17 @@
+/**
+ * Keep stdout for the report: the loader and SDK log progress to the console, some of it
+ * while their modules load, so this is imported first by odm.ts. Console output goes to
+ * stderr with --verbose and is dropped otherwise.
+ */
+
+const verbose = process.argv.includes('--verbose');
+
+const toStderr = (...args: unknown[]) => {
+  if (verbose) process.stderr.write(args.map(String).join(' ') + '\n');
+};
+
+console.log = toStderr;
+console.info = toStderr;
+console.debug = toStderr;
+console.warn = toStderr;
+console.error = toStderr;
@@ -0,0 +1,333 @@
+/**
+ * odm CLI git hooks
+ *
+ * `odm hook pre-commit` parses the staged workspace files, validates them against the staged
+ * workspace and blocks the commit on errors in those files. `odm hook post-merge|post-checkout` reports orphaned
+ * references, which `odm repair` removes from the workspace file. Every hook run is
+ * recorded in .git/odm-hooks/<hook>.json for the Git Hooks settings panel.
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, posix } from 'node:path';
+import * as yaml from 'js-yaml';
+import { isMap, isScalar, isSeq, parseDocument, type Node as YamlNode } from 'yaml';
+import { odcsService } from '@/services/sdk/odcsService';
+import { odpsService } from '@/services/sdk/odpsService';
+import { cadsService } from '@/services/sdk/cadsService';
+import { dbmvService } from '@/services/sdk/dbmvService';
+import { decisionService } from '@/services/sdk/decisionService';
+import { knowledgeService } from '@/services/sdk/knowledgeService';
+import { validationService } from '@/services/sdk/validationService';
+import { useValidationStore } from '@/stores/validationStore';
+import {
+  HOOK_RESULTS_DIR,
+  type HookFinding,
+  type HookName,
+  type HookRunResult,
+} from '@/services/storage/gitHooks';
+import { NAMING_POLICY_FILE, parseNamingPolicy } from '@/utils/namingPolicy';
+import { GLOSSARY_FILE_EXTENSION, parseGlossaryTerm } from '@/utils/glossary';
+import { findOrphanedReferences, type OrphanedReference } from '@/utils/orphanedReferences';
+import type { WorkspaceV2 } from '@/types/workspace';
+import { countBySeverity, formatValidationReport } from './reporters';
+import {
+  loadWorkspaceFiles,
+  readWorkspaceFolder,
+  readWorkspaceIndex,
+  runGit,
+  type WorkspaceLoadResult,
+} from './workspaceSource';
+
+// Parser of each kind of workspace file; a parser returning null could not read the file
+const PARSERS: Array<{
+  matches: (path: string) => boolean;
+  parse: (content: string, path: string) => Promise<unknown>;
+}> = [
+  { matches: (p) => p.endsWith('.odcs.yaml'), parse: (c) => odcsService.parseYAML(c) },
+  { matches: (p) => p.endsWith('.odps.yaml'), parse: (c) => odpsService.parseYAML(c) },
+  { matches: (p) => p.endsWith('.cads.yaml'), parse: (c) => cadsService.parseYAML(c) },
+  { matches: (p) => p.endsWith('.dbmv.yaml'), parse: (c) => dbmvService.parseYAML(c) },
+  {
+    matches: (p) => p.endsWith('.adr.yaml'),
+    parse: (c, p) => decisionService.parseDecisionYaml(c, p),
+  },
+  {
+    matches: (p) => p.endsWith('.kb.yaml'),
+    parse: (c, p) => knowledgeService.parseKnowledgeYaml(c, p),
+  },
+  {
+    matches: (p) => p.endsWith(GLOSSARY_FILE_EXTENSION),
+    parse: async (c) => parseGlossaryTerm(c),
+  },
+  { matches: (p) => p.endsWith('.workspace.yaml'), parse: async (c) => parseWorkspaceFile(c) },
+  { matches: (p) => basename(p) === NAMING_POLICY_FILE, parse: async (c) => parseNamingPolicy(c) },
+];
+
+function parseWorkspaceFile(content: string): WorkspaceV2 {
+  const parsed = yaml.load(content) as Partial<WorkspaceV2> | null;
+  if (!parsed || typeof parsed !== 'object') throw new Error('Workspace file is empty');
+  const missing = (['id', 'name'] as const).filter((field) => !parsed[field]);
+  if (missing.length > 0) throw new Error(`Workspace file has no ${missing.join(' or ')}`);
+  return parsed as WorkspaceV2;
+}
+
+export const isWorkspaceResourceFile = (path: string) => PARSERS.some((p) => p.matches(path));
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error
+    ? error.message
+    : typeof error === 'string'
+      ? error
+      : JSON.stringify(error);
+
+/**
+ * Parse one workspace file with the parser of its kind. Parse errors and the validation
+ * issues the parser records become findings of the file.
+ */
+async function parseResourceFile(path: string, content: string): Promise<HookFinding[]> {
+  const parser = PARSERS.find((p) => p.matches(path));
+  if (!parser) return [];
+  const finding = (message: string): HookFinding => ({
+    resourceType: 'workspace',
+    resourceId: path,
+    resourceName: basename(path),
+    filePath: path,
+    severity: 'error',
+    message,
+  });
+
+  useValidationStore.getState().clearAllIssues();
+  const findings: HookFinding[] = [];
+  try {
+    const parsed = await parser.parse(content, path);
+    if (parsed === null) findings.push(finding('File could not be parsed'));
+  } catch (error) {
+    findings.push(finding(errorMessage(error)));
+  }
+  const recorded = useValidationStore
+    .getState()
+    .issues.map(({ id: _id, createdAt: _createdAt, isActive: _isActive, ...issue }) => ({
+      ...issue,
+      filePath: path,
+    }));
+  return [...findings, ...recorded];
+}
+
+/**
+ * Orphaned references of a loaded workspace. Skipped while files fail to parse, since
+ * their resources would look missing.
+ */
+function orphansOf({ workspace }: WorkspaceLoadResult): OrphanedReference[] {
+  if ((workspace.failedOdcsFiles ?? []).length > 0) return [];
+  return findOrphanedReferences({
+    tables: workspace.tables ?? [],
+    relationships: workspace.relationships ?? [],
+    domains: workspace.domains ?? [],
+    systems: workspace.systems ?? [],
+    computeAssets: workspace.assets,
+    metricViews: workspace.metricViews,
+    bpmnProcesses: workspace.bpmnProcesses,
+  });
+}
+
+const orphanFinding = (orphan: OrphanedReference, filePath?: string): HookFinding => ({
+  resourceType: orphan.resourceType,
+  resourceId: orphan.resourceId,
+  resourceName: orphan.resourceName,
+  filePath,
+  severity: 'error',
+  field: orphan.field,
+  message: orphan.message,
+});
+
+const uniqueFindings = (findings: HookFinding[]) => {
+  const seen = new Set<string>();
+  return findings.filter((f) => {
+    const key = `${f.filePath ?? f.resourceId}|${f.field ?? ''}|${f.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Folder of the repository's workspace: the folder of its tracked .workspace.yaml, else
+ * the repository root (loose ODCS contracts)
+ */
+function workspaceFolder(repoRoot: string): string {
+  const workspaceFile = runGit(repoRoot, 'ls-files', '--', '*.workspace.yaml').split('\n')[0];
+  return workspaceFile ? join(repoRoot, dirname(workspaceFile)) : repoRoot;
+}
+
+async function runPreCommit(repoRoot: string, folder: string) {
+  const prefix = posix.relative(repoRoot.split('\\').join('/'), folder.split('\\').join('/'));
+  const staged = runGit(repoRoot, 'diff', '--cached', '--name-only', '--diff-filter=ACMRD')
+    .split('\n')
+    .filter((path) => path && isWorkspaceResourceFile(path))
+    .filter((path) => !prefix || path.startsWith(`${prefix}/`))
+    .map((path) => (prefix ? path.slice(prefix.length + 1) : path));
+  if (staged.length === 0) return { checkedFiles: [], findings: [], orphans: [] };
+
+  const files = readWorkspaceIndex(folder);
+  const findings: HookFinding[] = [];
+  for (const path of staged) {
+    const file = files.find((f) => f.path === path);
+    if (file) findings.push(...(await parseResourceFile(file.path, file.content)));
+  }
+
+  const loaded = await loadWorkspaceFiles(files, basename(folder));
+  const { workspace, loadIssues, filePaths } = loaded;
+  const result = await validationService.validateAll(
+    workspace.tables ?? [],
+    workspace.relationships ?? [],
+    workspace.domains ?? [],
+    workspace.knowledgeArticles ?? [],
+    workspace.decisionRecords ?? [],
+    workspace.naming_policy,
+    workspace.systems ?? [],
+    workspace.metricViews ?? []
+  );
+  // The whole workspace is loaded for cross-file references, but only problems in the
+  // staged files belong to this commit
+  const isStaged = (filePath?: string) => !!filePath && staged.includes(filePath);
+  const orphans = orphansOf(loaded).filter((o) => isStaged(filePaths.get(o.resourceId)));
+  findings.push(
+    ...loadIssues.filter((issue) => isStaged(issue.filePath)),
+    ...result.issues
+      .map((issue) => ({ ...issue, filePath: filePaths.get(issue.resourceId) }))
+      .filter((issue) => isStaged(issue.filePath)),
+    ...orphans.map((o) => orphanFinding(o, filePaths.get(o.resourceId)))
+  );
+  return { checkedFiles: staged, findings: uniqueFindings(findings), orphans };
+}
+
+async function runPostUpdate(folder: string) {
+  const files = readWorkspaceFolder(folder);
+  if (!files.some((f) => isWorkspaceResourceFile(f.path))) {
+    return { checkedFiles: [], findings: [], orphans: [] };
+  }
+  const loaded = await loadWorkspaceFiles(files, basename(folder));
+  const orphans = orphansOf(loaded);
+  return {
+    checkedFiles: files.filter((f) => isWorkspaceResourceFile(f.path)).map((f) => f.path),
+    findings: uniqueFindings([
+      ...loaded.loadIssues,
+      ...orphans.map((o) => orphanFinding(o, loaded.filePaths.get(o.resourceId))),
+    ]),
+    orphans,
+  };
+}
+
+/**
+ * Run a hook in the repository containing cwd, print its findings to stderr and record
+ * the run. Only the pre-commit hook can fail; post hooks report and offer `odm repair`.
+ */
+export async function runHook(hook: HookName, cwd: string): Promise<HookRunResult> {
+  const repoRoot = runGit(cwd, 'rev-parse', '--show-toplevel').trim();
+  const gitDir = runGit(cwd, 'rev-parse', '--absolute-git-dir').trim();
+  const folder = workspaceFolder(repoRoot);
+
+  const { checkedFiles, findings, orphans } =
+    hook === 'pre-commit' ? await runPreCommit(repoRoot, folder) : await runPostUpdate(folder);
+  const errors = countBySeverity(findings).error;
+  const result: HookRunResult = {
+    hook,
+    ranAt: new Date().toISOString(),
+    success: hook !== 'pre-commit' || errors === 0,
+    checkedFiles,
+    findings,
+    orphans,
+  };
+
+  const resultsDir = join(gitDir, HOOK_RESULTS_DIR);
+  mkdirSync(resultsDir, { recursive: true });
+  writeFileSync(join(resultsDir, `${hook}.json`), JSON.stringify(result, null, 2) + '\n');
+
+  if (findings.length > 0) {
+    process.stderr.write(
+      formatValidationReport(
+        { workspaceName: basename(folder), resources: [], issues: findings },
+        'text'
+      )
+    );
+  }
+  if (!result.success) {
+    process.stderr.write(
+      `\n✖ Commit blocked by ${errors} workspace error(s). Fix them, or commit with --no-verify to skip the check.\n`
+    );
+  } else if (orphans.length > 0) {
+    process.stderr.write(
+      `\n⚠️  ${orphans.length} orphaned reference(s) found. Run \`odm repair\` to remove them, ` +
+        'or use Repair in the Git Hooks settings of the app.\n'
+    );
+  } else if (checkedFiles.length > 0) {
+    process.stderr.write(`✅ ${hook}: ${checkedFiles.length} workspace file(s) checked\n`);
+  }
+  return result;
+}
+
+// Removes the items of a YAML list that match, leaving the rest of the document as written
+const removeItems = (list: unknown, matches: (item: YamlNode) => boolean) => {
+  if (isSeq(list)) list.items = list.items.filter((item) => !matches(item as YamlNode));
+};
+
+const idOf = (item: YamlNode) => (isMap(item) ? String(item.get('id')) : undefined);
+
+/**
+ * Remove orphaned references from the content of a .workspace.yaml: relationships and
+ * transformation links with a missing end, and missing IDs of system reference lists.
+ * Only those entries are edited; comments, key order and quoting stay as they are.
+ */
+export function repairWorkspaceYaml(content: string, orphans: OrphanedReference[]): string {
+  const document = parseDocument(content);
+  const removedRelationships = new Set(
+    orphans.filter((o) => o.resourceType === 'relationship').map((o) => o.resourceId)
+  );
+  const removedLinks = new Set(orphans.filter((o) => o.linkId).map((o) => o.linkId!));
+  const missingIds = (systemId: string | undefined, field: string) =>
+    new Set(
+      orphans
+        .filter(
+          (o) => o.resourceType === 'system' && o.resourceId === systemId && o.field === field
+        )
+        .map((o) => o.missingId)
+    );
+
+  removeItems(document.get('relationships'), (r) => removedRelationships.has(idOf(r) ?? ''));
+  const domains = document.get('domains');
+  for (const domain of isSeq(domains) ? domains.items : []) {
+    if (!isMap(domain)) continue;
+    const systems = domain.get('systems');
+    for (const system of isSeq(systems) ? systems.items : []) {
+      if (!isMap(system)) continue;
+      for (const field of ['table_ids', 'asset_ids', 'metric_view_ids'] as const) {
+        const missing = missingIds(idOf(system as YamlNode), field);
+        if (missing.size === 0) continue;
+        removeItems(system.get(field), (id) => isScalar(id) && missing.has(String(id.value)));
+      }
+    }
+    removeItems(domain.get('transformation_links'), (l) => removedLinks.has(idOf(l) ?? ''));
+  }
+  return document.toString({ lineWidth: 0 });
+}
+
+/**
+ * Remove the orphaned references of the workspace in a folder. Returns the number removed.
+ */
+export async function repairWorkspaceFolder(folder: string): Promise<number> {
+  const files = readWorkspaceFolder(folder);
+  const workspaceFile = files.find((f) => f.path.endsWith('.workspace.yaml'));
+  if (!workspaceFile) throw new Error('No .workspace.yaml found');
+  const loaded = await loadWorkspaceFiles(files, basename(folder));
+  if ((loaded.workspace.failedOdcsFiles ?? []).length > 0) {
+    throw new Error('Some ODCS files fail to parse; fix them before repairing references');
+  }
+  const orphans = orphansOf(loaded);
+  if (orphans.length > 0) {
+    writeFileSync(
+      join(folder, workspaceFile.path),
+      repairWorkspaceYaml(workspaceFile.content, orphans)
+    );
+  }
+  return orphans.length;
+}
@@ -0,0 +1,362 @@
+/**
+ * odm – headless validator and exporter for workspaces
+ *
+ *   odm validate [folder] [--format text|json|junit|sarif] [--output file] [--fail-on error|warning]
+ *   odm export [folder] --format sql|odcs|avro|json-schema|protobuf [--dialect postgresql] [--output file]
+ *   odm diff <refA> [refB] [--dir folder] [--format text|json] [--exit-code]
+ *   odm migrate <refA> [refB] [--dir folder] [--dialect postgresql] [--rollback] [--output file]
+ *   odm hook pre-commit|post-checkout|post-merge   (run by the installed git hooks)
+ *   odm repair [folder]
+ *
+ * Exit codes: 0 success, 1 validation failed (or changes found with --exit-code, or a
+ * commit blocked by the pre-commit hook),
+ * 2 invalid usage or a workspace that could not be loaded.
+ *
+ * Built with `npm run build:cli` (vite.cli.config.ts) into dist-cli/odm.js.
+ */
+
+// Before anything else, so that logs from loading the services stay off stdout
+import './console';
+import { writeFileSync } from 'node:fs';
+import { basename, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { validationService } from '@/services/sdk/validationService';
+import { odcsService, type ODCSWorkspace } from '@/services/sdk/odcsService';
+import { importExportService } from '@/services/sdk/importExportService';
+import { diffWorkspaces, type DiffableWorkspace } from '@/utils/workspaceDiff';
+import { SQL_DIALECTS, type SQLDialect } from '@/utils/sqlDialects';
+import { formatMigrationScript, generateMigration } from '@/utils/ddlMigration';
+import {
+  countBySeverity,
+  formatDiffReport,
+  formatValidationReport,
+  type CheckedResource,
+  type DiffReportFormat,
+  type ValidationReportFormat,
+} from './reporters';
+import { repairWorkspaceFolder, runHook } from './hooks';
+import {
+  initNodeSdk,
+  loadWorkspaceFiles,
+  readWorkspaceAtRef,
+  readWorkspaceFolder,
+  type LoadedWorkspace,
+} from './workspaceSource';
+
+declare const __APP_VERSION__: string;
+const VERSION = typeof __APP_VERSION__ !== 'undefined' ? __APP_VERSION__ : '0.0.0';
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage:
+  odm validate [folder] [--format text|json|junit|sarif] [--output file] [--fail-on error|warning]
+  odm export [folder] --format sql|odcs|avro|json-schema|protobuf [--dialect name] [--output file]
+  odm diff <refA> [refB] [--dir folder] [--format text|json] [--exit-code]
+  odm migrate <refA> [refB] [--dir folder] [--dialect name] [--rollback] [--output file]
+  odm hook pre-commit|post-checkout|post-merge
+  odm repair [folder]
+
+Options:
+  --verbose   Print loader and SDK logs to stderr
+  --version   Print the version
+  --help      Print this help
+
+Without refB, diff compares refA with the working tree.
+migrate writes the SQL that alters the tables from refA to refB (or the working tree);
+--rollback writes the script that reverts it.
+repair removes references to tables, assets and processes that no longer exist.
+`;
+
+const VALIDATION_FORMATS: ValidationReportFormat[] = ['text', 'json', 'junit', 'sarif'];
+const EXPORT_FORMATS = ['sql', 'odcs', 'avro', 'json-schema', 'protobuf'] as const;
+const DIFF_FORMATS: DiffReportFormat[] = ['text', 'json'];
+const HOOKS = ['pre-commit', 'post-checkout', 'post-merge'] as const;
+
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const OPTIONS = {
+  format: { type: 'string' },
+  output: { type: 'string', short: 'o' },
+  dialect: { type: 'string' },
+  dir: { type: 'string' },
+  'fail-on': { type: 'string' },
+  'exit-code': { type: 'boolean' },
+  rollback: { type: 'boolean' },
+  verbose: { type: 'boolean' },
+  version: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+interface Options {
+  format?: string;
+  output?: string;
+  dialect?: string;
+  dir?: string;
+  'fail-on'?: string;
+  'exit-code'?: boolean;
+  rollback?: boolean;
+  verbose?: boolean;
+}
+
+function oneOf<T extends string>(
+  value: string | undefined,
+  allowed: readonly T[],
+  fallback: T,
+  option: string
+): T {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${option} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+const write = (content: string, output: string | undefined) => {
+  if (output) {
+    writeFileSync(output, content);
+  } else {
+    process.stdout.write(content);
+  }
+};
+
+async function loadFolder(folder: string) {
+  const path = resolve(folder);
+  return loadWorkspaceFiles(readWorkspaceFolder(path), basename(path));
+}
+
+async function validate(positionals: string[], options: Options): Promise<number> {
+  const format = oneOf(options.format, VALIDATION_FORMATS, 'text', 'format');
+  const failOn = oneOf(options['fail-on'], ['error', 'warning'] as const, 'error', 'fail-on');
+  const { workspace, loadIssues, filePaths } = await loadFolder(positionals[0] ?? '.');
+
+  const tables = workspace.tables ?? [];
+  const relationships = workspace.relationships ?? [];
+  const domains = workspace.domains ?? [];
+  const systems = workspace.systems ?? [];
+  const result = await validationService.validateAll(
+    tables,
+    relationships,
+    domains,
+    workspace.knowledgeArticles ?? [],
+    workspace.decisionRecords ?? [],
+    workspace.naming_policy,
+    systems,
+    workspace.metricViews ?? []
+  );
+
+  const resource = (
+    resourceType: CheckedResource['resourceType'],
+    resourceId: string,
+    resourceName: string
+  ): CheckedResource => ({
+    resourceType,
+    resourceId,
+    resourceName,
+    filePath: filePaths.get(resourceId),
+  });
+  const resources: CheckedResource[] = [
+    ...domains.map((d) => resource('domain', d.id, d.name)),
+    ...systems.map((s) => resource('system', s.id, s.name)),
+    ...tables.map((t) => resource('table', t.id, t.name)),
+    ...relationships.map((r) => resource('relationship', r.id, r.label || r.id)),
+  ];
+  const issues = [
+    ...loadIssues,
+    ...result.issues.map((issue) => ({ ...issue, filePath: filePaths.get(issue.resourceId) })),
+  ];
+
+  write(
+    formatValidationReport({ workspaceName: workspace.name, resources, issues }, format, VERSION),
+    options.output
+  );
+
+  const counts = countBySeverity(issues);
+  const failed = counts.error > 0 || (failOn === 'warning' && counts.warning > 0);
+  return failed ? EXIT_FAILED : EXIT_OK;
+}
+
+// The same workspace shape the Import/Export dialog exports
+const toODCSWorkspace = (workspace: LoadedWorkspace): ODCSWorkspace => ({
+  workspace_id: workspace.id,
+  tables: workspace.tables ?? [],
+  relationships: workspace.relationships ?? [],
+  domains: workspace.domains ?? [],
+  products: workspace.products ?? [],
+  compute_assets: workspace.assets ?? [],
+  bpmn_processes: workspace.bpmnProcesses ?? [],
+  dmn_decisions: workspace.dmnDecisions ?? [],
+});
+
+async function exportWorkspace(positionals: string[], options: Options): Promise<number> {
+  if (!options.format) throw new UsageError('export needs --format');
+  const format = oneOf<ExportFormat>(options.format, EXPORT_FORMATS, 'sql', 'format');
+  const dialect = oneOf<SQLDialect>(
+    options.dialect,
+    SQL_DIALECTS.map((d) => d.value),
+    'postgresql',
+    'dialect'
+  );
+  const { workspace, loadIssues } = await loadFolder(positionals[0] ?? '.');
+  const failedFiles = loadIssues.filter((i) => i.severity === 'error');
+  if (failedFiles.length > 0) {
+    // Exporting would silently drop the tables of these files
+    failedFiles.forEach((i) =>
+      process.stderr.write(`error ${i.filePath ?? i.resourceName}: ${i.message}\n`)
+    );
+    return EXIT_USAGE;
+  }
+
+  const odcsWorkspace = toODCSWorkspace(workspace);
+  let content: string;
+  switch (format) {
+    case 'odcs':
+      content = await odcsService.toYAML(odcsWorkspace);
+      break;
+    case 'avro':
+      content = await importExportService.exportToAVRO(odcsWorkspace);
+      break;
+    case 'json-schema':
+      content = await importExportService.exportToJSONSchema(odcsWorkspace);
+      break;
+    case 'protobuf':
+      content = await importExportService.exportToProtobuf(odcsWorkspace);
+      break;
+    default:
+      content = await importExportService.exportToSQL(odcsWorkspace, dialect);
+  }
+  write(content.endsWith('\n') ? content : content + '\n', options.output);
+  return EXIT_OK;
+}
+
+const diffable = (workspace: LoadedWorkspace): DiffableWorkspace => ({
+  ...workspace,
+  tables: workspace.tables ?? [],
+  relationships: workspace.relationships ?? [],
+});
+
+async function diff(positionals: string[], options: Options): Promise<number> {
+  const [from, to] = positionals;
+  if (!from) throw new UsageError('diff needs a git ref to compare');
+  const format = oneOf(options.format, DIFF_FORMATS, 'text', 'format');
+  const folder = resolve(options.dir ?? '.');
+  const name = basename(folder);
+
+  const before = await loadWorkspaceFiles(readWorkspaceAtRef(folder, from), name);
+  const after = await loadWorkspaceFiles(
+    to ? readWorkspaceAtRef(folder, to) : readWorkspaceFolder(folder),
+    name
+  );
+  const changes = diffWorkspaces(diffable(before.workspace), diffable(after.workspace));
+
+  write(formatDiffReport(changes, format, { from, to: to ?? 'working tree' }), options.output);
+  return options['exit-code'] && changes.length > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+async function migrate(positionals: string[], options: Options): Promise<number> {
+  const [from, to] = positionals;
+  if (!from) throw new UsageError('migrate needs a git ref to migrate from');
+  const dialect = oneOf<SQLDialect>(
+    options.dialect,
+    SQL_DIALECTS.map((d) => d.value),
+    'postgresql',
+    'dialect'
+  );
+  const folder = resolve(options.dir ?? '.');
+  const name = basename(folder);
+
+  const before = await loadWorkspaceFiles(readWorkspaceAtRef(folder, from), name);
+  const after = await loadWorkspaceFiles(
+    to ? readWorkspaceAtRef(folder, to) : readWorkspaceFolder(folder),
+    name
+  );
+  const migration = generateMigration(
+    before.workspace.tables ?? [],
+    after.workspace.tables ?? [],
+    dialect
+  );
+  const target = to ?? 'working tree';
+
+  write(
+    options.rollback
+      ? formatMigrationScript(migration.rollback, `Rollback from ${target} to ${from} (${dialect})`)
+      : formatMigrationScript(migration.steps, `Migration from ${from} to ${target} (${dialect})`),
+    options.output
+  );
+  return EXIT_OK;
+}
+
+async function hook(positionals: string[]): Promise<number> {
+  const name = HOOKS.find((h) => h === positionals[0]);
+  if (!name) throw new UsageError(`hook must be one of ${HOOKS.join(', ')}`);
+  const result = await runHook(name, process.cwd());
+  return result.success ? EXIT_OK : EXIT_FAILED;
+}
+
+async function repair(positionals: string[]): Promise<number> {
+  const removed = await repairWorkspaceFolder(resolve(positionals[0] ?? '.'));
+  process.stdout.write(
+    removed > 0
+      ? `Removed ${removed} orphaned reference(s) from the workspace file\n`
+      : 'No orphaned references found\n'
+  );
+  return EXIT_OK;
+}
+
+const COMMANDS: Record<string, (positionals: string[], options: Options) => Promise<number>> = {
+  validate,
+  export: exportWorkspace,
+  diff,
+  migrate,
+  hook,
+  repair,
+};
+
+export async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  const { values: options, positionals } = parsed;
+  const [command, ...args] = positionals;
+
+  if (options.version) {
+    process.stdout.write(`${VERSION}\n`);
+    return EXIT_OK;
+  }
+  if (options.help || !command) {
+    process.stdout.write(USAGE);
+    return options.help ? EXIT_OK : EXIT_USAGE;
+  }
+  const run = COMMANDS[command];
+  if (!run) {
+    process.stderr.write(`Unknown command "${command}"\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    initNodeSdk();
+    return await run(args, options);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(
+      error instanceof UsageError ? `${message}\n\n${USAGE}` : `odm ${command} failed: ${message}\n`
+    );
+    return EXIT_USAGE;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
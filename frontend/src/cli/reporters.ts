@@ -0,0 +1,258 @@
+/**
+ * odm CLI reporters
+ *
+ * Formats validation results as text, JSON, JUnit XML or SARIF, and workspace diffs as
+ * text or JSON. All reporters are pure so they can be tested without a workspace on disk.
+ */
+
+import type { ValidationIssueInput } from '@/services/sdk/validationService';
+import type { ResourceType, ValidationSeverity } from '@/stores/validationStore';
+import { describeChange, formatChangeValue, type WorkspaceChange } from '@/utils/workspaceDiff';
+
+export type ValidationReportFormat = 'text' | 'json' | 'junit' | 'sarif';
+
+export type DiffReportFormat = 'text' | 'json';
+
+export interface ReportIssue extends ValidationIssueInput {
+  filePath?: string; // Workspace-relative file the resource was loaded from
+}
+
+export interface CheckedResource {
+  resourceType: ResourceType;
+  resourceId: string;
+  resourceName: string;
+  filePath?: string;
+}
+
+export interface ValidationReport {
+  workspaceName: string;
+  resources: CheckedResource[]; // Everything that was validated, with or without issues
+  issues: ReportIssue[];
+}
+
+export const countBySeverity = (issues: ReportIssue[]): Record<ValidationSeverity, number> => ({
+  error: issues.filter((i) => i.severity === 'error').length,
+  warning: issues.filter((i) => i.severity === 'warning').length,
+  info: issues.filter((i) => i.severity === 'info').length,
+});
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const issueTitle = (issue: ReportIssue) =>
+  `${issue.resourceName}${issue.field ? ` [${issue.field}]` : ''}: ${issue.message}`;
+
+// Rule ID used to group issues in SARIF, e.g. "table/column.name"
+const ruleId = (issue: ReportIssue) => `${issue.resourceType}/${issue.field ?? 'general'}`;
+
+const resourceKey = (r: { resourceType: string; resourceId: string }) =>
+  `${r.resourceType}:${r.resourceId}`;
+
+function formatText(report: ValidationReport): string {
+  const counts = countBySeverity(report.issues);
+  const lines = report.issues.map((issue) => {
+    const location = issue.filePath ? `${issue.filePath}: ` : '';
+    const details = issue.details ? `\n    ${issue.details}` : '';
+    return `${issue.severity.padEnd(7)} ${location}${issueTitle(issue)}${details}`;
+  });
+  lines.push(
+    '',
+    `${report.workspaceName}: ${plural(counts.error, 'error')}, ${plural(counts.warning, 'warning')}, ` +
+      `${plural(report.resources.length, 'resource')} checked`
+  );
+  return lines.join('\n') + '\n';
+}
+
+function formatJson(report: ValidationReport): string {
+  const counts = countBySeverity(report.issues);
+  return (
+    JSON.stringify(
+      {
+        workspace: report.workspaceName,
+        summary: {
+          resources: report.resources.length,
+          errors: counts.error,
+          warnings: counts.warning,
+          infos: counts.info,
+        },
+        issues: report.issues,
+      },
+      null,
+      2
+    ) + '\n'
+  );
+}
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * One test case per resource; errors are failures, warnings and infos go to system-out
+ */
+function formatJUnit(report: ValidationReport): string {
+  const issuesByResource = new Map<string, ReportIssue[]>();
+  for (const issue of report.issues) {
+    const key = resourceKey(issue);
+    issuesByResource.set(key, [...(issuesByResource.get(key) ?? []), issue]);
+  }
+  // Issues of resources that were not in the checked list still need a test case
+  const resources = [...report.resources];
+  for (const issue of report.issues) {
+    if (!resources.some((r) => resourceKey(r) === resourceKey(issue))) resources.push(issue);
+  }
+
+  const failures = resources.filter((r) =>
+    issuesByResource.get(resourceKey(r))?.some((i) => i.severity === 'error')
+  ).length;
+  const suite = escapeXml(report.workspaceName);
+  const cases = resources.map((resource) => {
+    const issues = issuesByResource.get(resourceKey(resource)) ?? [];
+    const attributes =
+      `name="${escapeXml(resource.resourceName)}" classname="${suite}.${resource.resourceType}"` +
+      (resource.filePath ? ` file="${escapeXml(resource.filePath)}"` : '');
+    if (issues.length === 0) return `    <testcase ${attributes}/>`;
+    const errors = issues.filter((i) => i.severity === 'error');
+    const others = issues.filter((i) => i.severity !== 'error');
+    const body = [
+      ...errors.map(
+        (i) =>
+          `      <failure message="${escapeXml(issueTitle(i))}" type="${escapeXml(ruleId(i))}">` +
+          `${escapeXml(i.details ?? i.message)}</failure>`
+      ),
+      ...(others.length > 0
+        ? [
+            `      <system-out>${escapeXml(
+              others.map((i) => `${i.severity}: ${issueTitle(i)}`).join('\n')
+            )}</system-out>`,
+          ]
+        : []),
+    ];
+    return [`    <testcase ${attributes}>`, ...body, '    </testcase>'].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="odm validate" tests="${resources.length}" failures="${failures}">`,
+    `  <testsuite name="${suite}" tests="${resources.length}" failures="${failures}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+const SARIF_LEVELS: Record<ValidationSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+function formatSarif(report: ValidationReport, toolVersion: string): string {
+  const ruleIds = [...new Set(report.issues.map(ruleId))].sort();
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'odm',
+            version: toolVersion,
+            informationUri: 'https://github.com/OffeneDatenmodellierung/data-modelling-frontend',
+            rules: ruleIds.map((id) => ({ id, shortDescription: { text: `Checks of ${id}` } })),
+          },
+        },
+        results: report.issues.map((issue) => ({
+          ruleId: ruleId(issue),
+          ruleIndex: ruleIds.indexOf(ruleId(issue)),
+          level: SARIF_LEVELS[issue.severity],
+          message: {
+            text: issue.details ? `${issueTitle(issue)} (${issue.details})` : issueTitle(issue),
+          },
+          locations: [
+            {
+              ...(issue.filePath
+                ? { physicalLocation: { artifactLocation: { uri: issue.filePath } } }
+                : {}),
+              logicalLocations: [
+                {
+                  name: issue.resourceName,
+                  fullyQualifiedName: `${issue.resourceType}/${issue.resourceName}`,
+                  kind: issue.resourceType,
+                },
+              ],
+            },
+          ],
+          ...(issue.suggestion ? { properties: { suggestion: issue.suggestion } } : {}),
+        })),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+/**
+ * Render a validation report in the requested format
+ */
+export function formatValidationReport(
+  report: ValidationReport,
+  format: ValidationReportFormat,
+  toolVersion = '0.0.0'
+): string {
+  switch (format) {
+    case 'json':
+      return formatJson(report);
+    case 'junit':
+      return formatJUnit(report);
+    case 'sarif':
+      return formatSarif(report, toolVersion);
+    default:
+      return formatText(report);
+  }
+}
+
+const CHANGE_MARKERS: Record<WorkspaceChange['kind'], string> = {
+  added: '+',
+  removed: '-',
+  modified: '~',
+};
+
+/**
+ * Render workspace changes between two refs in the requested format
+ */
+export function formatDiffReport(
+  changes: WorkspaceChange[],
+  format: DiffReportFormat,
+  refs: { from: string; to: string }
+): string {
+  if (format === 'json') {
+    return JSON.stringify({ from: refs.from, to: refs.to, changes }, null, 2) + '\n';
+  }
+  if (changes.length === 0) return `No model changes between ${refs.from} and ${refs.to}\n`;
+
+  const lines = changes.flatMap((change) => {
+    const name =
+      change.resourceType === 'column' ? `${change.tableName}.${change.name}` : change.name;
+    const indent = change.resourceType === 'column' ? '    ' : '';
+    const notes = describeChange(change);
+    return [
+      `${indent}${CHANGE_MARKERS[change.kind]} ${change.resourceType} ${name}` +
+        (notes.length > 0 ? ` (${notes.join(', ')})` : ''),
+      ...(change.fields ?? []).map(
+        (f) =>
+          `${indent}    ${f.field}: ${formatChangeValue(f.before)} → ${formatChangeValue(f.after)}`
+      ),
+    ];
+  });
+  const count = (kind: WorkspaceChange['kind']) => changes.filter((c) => c.kind === kind).length;
+  lines.push(
+    '',
+    `${refs.from}..${refs.to}: ${count('added')} added, ${count('removed')} removed, ` +
+      `${count('modified')} modified`
+  );
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,216 @@
+/**
+ * odm CLI workspace source
+ *
+ * Reads workspace files from a folder or from a git ref and loads them with the same
+ * WorkspaceV2Loader the app uses. Node only.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { readdirSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { basename, dirname, join, relative, sep } from 'node:path';
+import * as yaml from 'js-yaml';
+import { WorkspaceV2Loader } from '@/services/storage/workspaceV2Loader';
+import { sdkLoader } from '@/services/sdk/sdkLoader';
+import { odcsService } from '@/services/sdk/odcsService';
+import { useValidationStore } from '@/stores/validationStore';
+import type { Workspace } from '@/types/workspace';
+import type { Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+import type { System } from '@/types/system';
+import type { DataProduct } from '@/types/odps';
+import type { ComputeAsset } from '@/types/cads';
+import type { MetricView } from '@/types/metricView';
+import type { BPMNProcess } from '@/types/bpmn';
+import type { DMNDecision } from '@/types/dmn';
+import type { KnowledgeArticle } from '@/types/knowledge';
+import type { Decision } from '@/types/decision';
+import type { ReportIssue } from './reporters';
+
+export interface WorkspaceFile {
+  path: string; // Relative to the workspace folder, with forward slashes
+  content: string;
+}
+
+export type LoadedWorkspace = Workspace & {
+  tables?: Table[];
+  relationships?: Relationship[];
+  systems?: System[];
+  products?: DataProduct[];
+  assets?: ComputeAsset[];
+  metricViews?: MetricView[];
+  bpmnProcesses?: BPMNProcess[];
+  dmnDecisions?: DMNDecision[];
+  knowledgeArticles?: KnowledgeArticle[];
+  decisionRecords?: Decision[];
+  failedOdcsFiles?: string[];
+};
+
+export interface WorkspaceLoadResult {
+  workspace: LoadedWorkspace;
+  loadIssues: ReportIssue[]; // Issues recorded by the loader, e.g. unparseable files
+  filePaths: Map<string, string>; // Resource ID → file it was loaded from
+}
+
+const SDK_PACKAGE = '@offenedatenmodellierung/data-modelling-sdk';
+
+// Files the loader reads; everything else in the folder is ignored
+const WORKSPACE_FILE = /\.(ya?ml|json|bpmn|dmn|xml|md)$/;
+const SKIPPED_DIRS = new Set(['node_modules', '.git']);
+
+/**
+ * Point the SDK loader at the .wasm file of the installed SDK package, since Node cannot
+ * fetch it the way the browser does
+ */
+export function initNodeSdk(): void {
+  const require = createRequire(import.meta.url);
+  const packageDir = dirname(require.resolve(SDK_PACKAGE));
+  const wasmFile = readdirSync(packageDir).find((f) => f.endsWith('_bg.wasm'));
+  if (!wasmFile) {
+    throw new Error(`No .wasm file found in ${packageDir}`);
+  }
+  sdkLoader.setWasmSource(readFileSync(join(packageDir, wasmFile)));
+}
+
+/**
+ * All workspace files below a folder
+ */
+export function readWorkspaceFolder(folder: string): WorkspaceFile[] {
+  const files: WorkspaceFile[] = [];
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) walk(fullPath);
+      } else if (WORKSPACE_FILE.test(entry.name)) {
+        files.push({
+          path: relative(folder, fullPath).split(sep).join('/'),
+          content: readFileSync(fullPath, 'utf8'),
+        });
+      }
+    }
+  };
+  walk(folder);
+  return files;
+}
+
+/**
+ * Output of a git command run in the folder
+ */
+export const runGit = (folder: string, ...args: string[]) =>
+  execFileSync('git', args, { cwd: folder, encoding: 'utf8', maxBuffer: 256 * 1024 * 1024 });
+
+/**
+ * All workspace files below a folder as they are at a git ref
+ */
+export function readWorkspaceAtRef(folder: string, ref: string): WorkspaceFile[] {
+  // Paths are listed relative to the folder; "./" makes git show resolve them the same way
+  return runGit(folder, 'ls-tree', '-r', '--name-only', ref, '--', '.')
+    .split('\n')
+    .filter((path) => path && WORKSPACE_FILE.test(path))
+    .map((path) => ({ path, content: runGit(folder, 'show', `${ref}:./${path}`) }));
+}
+
+/**
+ * All workspace files below a folder as they are staged in the git index
+ */
+export function readWorkspaceIndex(folder: string): WorkspaceFile[] {
+  return runGit(folder, 'ls-files', '--', '.')
+    .split('\n')
+    .filter((path) => path && WORKSPACE_FILE.test(path))
+    .map((path) => ({ path, content: runGit(folder, 'show', `:./${path}`) }));
+}
+
+// The ID declared at the top of a YAML resource file, if any
+const declaredId = (file: WorkspaceFile): string | undefined => {
+  if (!/\.ya?ml$/.test(file.path)) return undefined;
+  try {
+    const parsed = yaml.load(file.content) as { id?: unknown } | null;
+    return typeof parsed?.id === 'string' ? parsed.id : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * A workspace of loose ODCS contracts, for folders without a .workspace.yaml
+ */
+async function loadOdcsFiles(files: WorkspaceFile[], name: string): Promise<LoadedWorkspace> {
+  const now = new Date().toISOString();
+  const workspace: LoadedWorkspace = {
+    id: name,
+    name,
+    owner_id: 'odm',
+    created_at: now,
+    last_modified_at: now,
+    domains: [],
+    tables: [],
+    failedOdcsFiles: [],
+  };
+  for (const file of files.filter((f) => f.path.endsWith('.odcs.yaml'))) {
+    try {
+      const parsed = await odcsService.parseYAML(file.content);
+      workspace.tables!.push(...parsed.tables);
+    } catch (error) {
+      console.error(`[odm] Failed to load table from ${file.path}:`, error);
+      workspace.failedOdcsFiles!.push(file.path);
+    }
+  }
+  return workspace;
+}
+
+/**
+ * Load workspace files with WorkspaceV2Loader, or as loose ODCS contracts when there is
+ * no .workspace.yaml. Issues the loader records in the validation store (such as files
+ * that fail to parse) are returned with the workspace.
+ */
+export async function loadWorkspaceFiles(
+  files: WorkspaceFile[],
+  name = 'workspace'
+): Promise<WorkspaceLoadResult> {
+  const byName = new Map(files.map((f) => [basename(f.path), f.path]));
+  const validationStore = useValidationStore.getState();
+  validationStore.clearAllIssues();
+
+  const workspace = files.some((f) => f.path.endsWith('.workspace.yaml'))
+    ? ((await WorkspaceV2Loader.loadFromStringFiles(
+        files.map((f) => ({ name: basename(f.path), content: f.content }))
+      )) as LoadedWorkspace)
+    : await loadOdcsFiles(files, name);
+
+  const workspaceFile = files.find((f) => f.path.endsWith('.workspace.yaml'))?.path;
+  const filePaths = new Map<string, string>();
+  for (const file of files) {
+    const id = declaredId(file);
+    if (id && !file.path.endsWith('.workspace.yaml')) filePaths.set(id, file.path);
+  }
+  if (workspaceFile) {
+    filePaths.set(workspace.id, workspaceFile);
+    // Domains, systems and relationships are declared in the workspace file
+    workspace.domains?.forEach((d) => filePaths.set(d.id, filePaths.get(d.id) ?? workspaceFile));
+    workspace.systems?.forEach((s) => filePaths.set(s.id, filePaths.get(s.id) ?? workspaceFile));
+    workspace.relationships?.forEach((r) => filePaths.set(r.id, workspaceFile));
+  }
+
+  const loadIssues: ReportIssue[] = useValidationStore
+    .getState()
+    .issues.map(({ id: _id, createdAt: _createdAt, isActive: _isActive, ...issue }) => ({
+      ...issue,
+      // Issues of unparseable files use the file name as resource ID
+      filePath: byName.get(basename(issue.filePath ?? issue.resourceId)) ?? issue.filePath,
+    }));
+  for (const failed of workspace.failedOdcsFiles ?? []) {
+    const path = byName.get(basename(failed)) ?? failed;
+    if (loadIssues.some((i) => i.filePath === path)) continue;
+    loadIssues.push({
+      resourceType: 'table',
+      resourceId: path,
+      resourceName: basename(path),
+      filePath: path,
+      severity: 'error',
+      message: 'ODCS file could not be parsed',
+    });
+  }
+
+  return { workspace, loadIssues, filePaths };
+}
@@ -0,0 +1,91 @@
+/**
+ * Annotation Menu Component
+ * Adds subject-area frames and sticky notes at the center of the visible canvas.
+ * Must live inside ReactFlow.
+ */
+
+import React, { useState, useCallback } from 'react';
+import { useReactFlow } from 'reactflow';
+import { useCanvasAnnotations } from '@/hooks/useCanvasAnnotations';
+import { DEFAULT_FRAME_SIZE, DEFAULT_NOTE_SIZE } from '@/utils/canvasAnnotations';
+
+interface AnnotationMenuProps {
+  domainId: string;
+}
+
+export const AnnotationMenu: React.FC<AnnotationMenuProps> = ({ domainId }) => {
+  const { screenToFlowPosition } = useReactFlow();
+  const { addFrame, addNote } = useCanvasAnnotations(domainId);
+  const [showMenu, setShowMenu] = useState(false);
+
+  // Top-left corner that centers an element of the given size in the visible canvas
+  const centeredPosition = useCallback(
+    (size: { width: number; height: number }) => {
+      const container = document.querySelector('.react-flow') as HTMLElement | null;
+      const rect = container?.getBoundingClientRect();
+      const center = screenToFlowPosition({
+        x: rect ? rect.left + rect.width / 2 : window.innerWidth / 2,
+        y: rect ? rect.top + rect.height / 2 : window.innerHeight / 2,
+      });
+      return { x: center.x - size.width / 2, y: center.y - size.height / 2 };
+    },
+    [screenToFlowPosition]
+  );
+
+  return (
+    <>
+      {/* Annotation button - sits left of the layout button */}
+      <div className="absolute top-4 right-28 z-10">
+        <div className="relative">
+          <button
+            onClick={() => setShowMenu(!showMenu)}
+            className="p-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+            title="Add subject area or note"
+          >
+            <svg
+              className="w-5 h-5 text-gray-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z"
+              />
+            </svg>
+          </button>
+
+          {/* Dropdown menu */}
+          {showMenu && (
+            <div className="absolute right-0 mt-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+              <button
+                onClick={() => {
+                  setShowMenu(false);
+                  addFrame(centeredPosition(DEFAULT_FRAME_SIZE));
+                }}
+                className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Add Subject Area
+              </button>
+              <button
+                onClick={() => {
+                  setShowMenu(false);
+                  addNote(centeredPosition(DEFAULT_NOTE_SIZE));
+                }}
+                className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 border-t border-gray-100"
+              >
+                Add Sticky Note
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Close menu when clicking outside */}
+      {/* eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions -- Menu backdrop */}
+      {showMenu && <div className="fixed inset-0 z-0" onClick={() => setShowMenu(false)} />}
+    </>
+  );
+};
@@ -0,0 +1,187 @@
+/**
+ * Auto Layout Menu Component
+ * Arranges canvas nodes with one of the layout strategies from utils/autoLayout.
+ * Positions are written to the domain's view_positions for the current view as a single undo step.
+ */
+
+import React, { useState, useCallback } from 'react';
+import { useReactFlow, type Node } from 'reactflow';
+import { useModelStore } from '@/stores/modelStore';
+import { useUIStore } from '@/stores/uiStore';
+import {
+  computeLayout,
+  LAYOUT_STRATEGY_LABELS,
+  type LayoutNode,
+  type LayoutStrategy,
+} from '@/utils/autoLayout';
+import { ANNOTATION_NODE_TYPES } from '@/utils/canvasAnnotations';
+
+interface AutoLayoutMenuProps {
+  domainId: string;
+}
+
+// Fallback sizes for nodes that ReactFlow has not measured yet
+const DEFAULT_NODE_WIDTH = 250;
+const DEFAULT_NODE_HEIGHT = 150;
+
+const STRATEGIES: LayoutStrategy[] = ['hierarchical', 'grid', 'force', 'cluster', 'star'];
+
+export const AutoLayoutMenu: React.FC<AutoLayoutMenuProps> = ({ domainId }) => {
+  const { getNodes, getEdges, setNodes, fitView } = useReactFlow();
+  const { addToast } = useUIStore();
+  const [showMenu, setShowMenu] = useState(false);
+  const [selectionOnly, setSelectionOnly] = useState(false);
+
+  // Cluster key for a node: the owning system for tables/assets, the system type for system nodes
+  const getGroup = useCallback((node: Node): string | undefined => {
+    const { systems, tables } = useModelStore.getState();
+    if (node.type === 'system') {
+      return systems.find((s) => s.id === node.id)?.system_type;
+    }
+    if (node.type === 'table') {
+      const table = tables.find((t) => t.id === node.id);
+      const systemId = table?.metadata?.system_id as string | undefined;
+      return systemId || systems.find((s) => s.table_ids?.includes(node.id))?.id;
+    }
+    if (node.type === 'compute-asset') {
+      return systems.find((s) => s.asset_ids?.includes(node.id))?.id;
+    }
+    if (node.type === 'metric-view') {
+      return systems.find((s) => s.metric_view_ids?.includes(node.id))?.id;
+    }
+    return undefined;
+  }, []);
+
+  const applyLayout = useCallback(
+    (strategy: LayoutStrategy) => {
+      setShowMenu(false);
+
+      // Frames, sticky notes and nodes hidden in collapsed frames keep their place
+      const allNodes = getNodes().filter(
+        (n) => !n.hidden && !ANNOTATION_NODE_TYPES.includes(n.type ?? '')
+      );
+      const targetNodes = selectionOnly ? allNodes.filter((n) => n.selected) : allNodes;
+      if (targetNodes.length < 2) {
+        addToast({
+          type: 'warning',
+          message: selectionOnly
+            ? 'Select at least two nodes to lay out'
+            : 'Not enough nodes on canvas to lay out',
+        });
+        return;
+      }
+
+      const { tables } = useModelStore.getState();
+      const layoutNodes: LayoutNode[] = targetNodes.map((n) => ({
+        id: n.id,
+        position: n.position,
+        width: n.width ?? DEFAULT_NODE_WIDTH,
+        height: n.height ?? DEFAULT_NODE_HEIGHT,
+        group: getGroup(n),
+        role: n.type === 'table' ? tables.find((t) => t.id === n.id)?.dimensionalRole : undefined,
+        label: (n.data?.table?.name || n.data?.systemName || n.data?.asset?.name || n.id) as string,
+      }));
+      const positions = computeLayout(
+        layoutNodes,
+        getEdges().map((e) => ({ source: e.source, target: e.target })),
+        { strategy }
+      );
+
+      const { domains, currentView, updateDomain, transaction } = useModelStore.getState();
+      const domain = domains.find((d) => d.id === domainId);
+      if (!domain) {
+        console.warn(`[AutoLayoutMenu] Domain ${domainId} not found`);
+        return;
+      }
+
+      const existingViewPositions = domain.view_positions || {};
+      transaction(
+        `Auto layout (${LAYOUT_STRATEGY_LABELS[strategy].toLowerCase()})${selectionOnly ? ' - selection' : ''}`,
+        () => {
+          updateDomain(domainId, {
+            view_positions: {
+              ...existingViewPositions,
+              [currentView]: {
+                ...(existingViewPositions[currentView] || {}),
+                ...positions,
+              },
+            },
+          });
+        }
+      );
+
+      // The canvas keeps its own node positions between data changes, so update them directly
+      setNodes((nodes) =>
+        nodes.map((n) => (positions[n.id] ? { ...n, position: positions[n.id]! } : n))
+      );
+      if (!selectionOnly) {
+        window.requestAnimationFrame(() => fitView({ padding: 0.1, duration: 300 }));
+      }
+
+      addToast({
+        type: 'success',
+        message: `Arranged ${Object.keys(positions).length} nodes`,
+      });
+    },
+    [getNodes, getEdges, setNodes, fitView, selectionOnly, getGroup, domainId, addToast]
+  );
+
+  return (
+    <>
+      {/* Layout button - sits left of the export button */}
+      <div className="absolute top-4 right-16 z-10">
+        <div className="relative">
+          <button
+            onClick={() => setShowMenu(!showMenu)}
+            className="p-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+            title="Auto layout"
+          >
+            <svg
+              className="w-5 h-5 text-gray-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z"
+              />
+            </svg>
+          </button>
+
+          {/* Dropdown menu */}
+          {showMenu && (
+            <div className="absolute right-0 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+              {STRATEGIES.map((strategy, index) => (
+                <button
+                  key={strategy}
+                  onClick={() => applyLayout(strategy)}
+                  className={`w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 ${
+                    index > 0 ? 'border-t border-gray-100' : ''
+                  }`}
+                >
+                  {LAYOUT_STRATEGY_LABELS[strategy]}
+                </button>
+              ))}
+              <label className="flex items-center gap-2 px-4 py-2 text-sm text-gray-600 border-t border-gray-200 bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectionOnly}
+                  onChange={(e) => setSelectionOnly(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Layout selection only
+              </label>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Close menu when clicking outside */}
+      {/* eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions -- Menu backdrop */}
+      {showMenu && <div className="fixed inset-0 z-0" onClick={() => setShowMenu(false)} />}
+    </>
+  );
+};
@@ -1,6 +1,6 @@
 /**
  * Canvas Export Component
- * Provides PNG export functionality for ReactFlow canvas with area selection
+ * Provides PNG, vector SVG and tiled PDF export for ReactFlow canvas with area selection
  * Supports high-quality export for detailed viewing
  */
 
@@ -8,12 +8,22 @@ import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { useReactFlow, getNodesBounds } from 'reactflow';
 import { toPng } from 'html-to-image';
 import { useUIStore } from '@/stores/uiStore';
+import { useCanvasRenderStore } from '@/stores/canvasRenderStore';
+import { useModelStore } from '@/stores/modelStore';
+import { useERNotation } from '@/hooks/useERNotation';
+import { captureCanvasScene, sceneToSvg, type Rect } from '@/utils/canvasVectorExport';
+import { buildTiledPdf, type PdfExportOptions } from '@/utils/pdfExport';
+import { PdfExportDialog } from './PdfExportDialog';
 
 interface CanvasExportProps {
   /** Optional filename prefix for the exported image */
   filenamePrefix?: string;
+  /** Optional title used in SVG/PDF title blocks */
+  title?: string;
 }
 
+type ExportFormat = 'png' | 'svg' | 'pdf';
+
 interface SelectionBox {
   startX: number;
   startY: number;
@@ -27,14 +37,23 @@ interface SelectionBox {
  * - Full canvas export (exports all visible nodes)
  * - Area selection export (user draws a rectangle to select area)
  * - High-quality PNG output (4x scale for zooming)
+ * - Vector SVG output (text, edges and cardinality markers stay vectors)
+ * - Tiled multi-page PDF output with title block and legend
  */
-export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'canvas' }) => {
+export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'canvas', title }) => {
   const { getNodes, getViewport } = useReactFlow();
   const { addToast } = useUIStore();
+  // Culled and zoomed-out nodes are rendered in full while a capture runs
+  const renderFully = useCanvasRenderStore((state) => state.renderFully);
+  const currentView = useModelStore((state) => state.currentView);
+  const notation = useERNotation(currentView);
   const [isSelecting, setIsSelecting] = useState(false);
+  const [selectionFormat, setSelectionFormat] = useState<ExportFormat>('png');
   const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
   const [showMenu, setShowMenu] = useState(false);
+  const [pdfArea, setPdfArea] = useState<{ area: Rect; suffix: string } | null>(null);
   const selectionOverlayRef = useRef<HTMLDivElement>(null);
+  const exportTitle = title || filenamePrefix;
 
   // Filter function to exclude UI elements from export
   const filterNode = (node: HTMLElement) => {
@@ -44,7 +63,8 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
         !className.includes('react-flow__controls') &&
         !className.includes('react-flow__minimap') &&
         !className.includes('react-flow__attribution') &&
-        !className.includes('react-flow__panel')
+        !className.includes('react-flow__panel') &&
+        !className.includes('edge-route-handle')
       );
     }
     return true;
@@ -97,18 +117,20 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
       try {
         // Create the PNG directly from the viewport (not a clone)
         // This preserves all CSS styles since we're capturing the live element
-        const dataUrl = await toPng(viewport, {
-          backgroundColor: '#ffffff',
-          width: imageWidth,
-          height: imageHeight,
-          pixelRatio: scale,
-          filter: filterNode,
-          style: {
-            // Ensure the viewport fills the capture area
-            width: `${imageWidth}px`,
-            height: `${imageHeight}px`,
-          },
-        });
+        const dataUrl = await renderFully(() =>
+          toPng(viewport, {
+            backgroundColor: '#ffffff',
+            width: imageWidth,
+            height: imageHeight,
+            pixelRatio: scale,
+            filter: filterNode,
+            style: {
+              // Ensure the viewport fills the capture area
+              width: `${imageWidth}px`,
+              height: `${imageHeight}px`,
+            },
+          })
+        );
 
         // Download the image
         const link = document.createElement('a');
@@ -131,18 +153,138 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
         message: `Failed to export canvas: ${error instanceof Error ? error.message : 'Unknown error'}`,
       });
     }
-  }, [getNodes, filenamePrefix, addToast]);
+  }, [getNodes, filenamePrefix, addToast, renderFully]);
+
+  // Bounds of all nodes plus padding, in canvas coordinates
+  const getFullCanvasArea = useCallback((): Rect | null => {
+    const nodes = getNodes();
+    if (nodes.length === 0) {
+      addToast({
+        type: 'warning',
+        message: 'No nodes on canvas to export',
+      });
+      return null;
+    }
+    const bounds = getNodesBounds(nodes);
+    const padding = 50;
+    return {
+      x: bounds.x - padding,
+      y: bounds.y - padding,
+      width: bounds.width + padding * 2,
+      height: bounds.height + padding * 2,
+    };
+  }, [getNodes, addToast]);
+
+  // Capture the rendered canvas as vector primitives
+  const captureScene = useCallback(
+    (area: Rect) => {
+      const root = document.querySelector('.react-flow') as HTMLElement | null;
+      if (!root) {
+        throw new Error('Canvas not found');
+      }
+      return renderFully(() => captureCanvasScene(root, getViewport(), area));
+    },
+    [getViewport, renderFully]
+  );
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Export an area as a standalone SVG document
+  const exportSvg = useCallback(
+    async (area: Rect, suffix: string) => {
+      try {
+        const svg = sceneToSvg(await captureScene(area), area, {
+          titleBlock: { title: exportTitle, date: new Date().toISOString().slice(0, 10) },
+          includeLegend: true,
+          notation,
+        });
+        downloadBlob(
+          new Blob([svg], { type: 'image/svg+xml' }),
+          `${filenamePrefix}${suffix}-${new Date().toISOString().slice(0, 10)}.svg`
+        );
+        addToast({
+          type: 'success',
+          message: 'Canvas exported as SVG',
+        });
+      } catch (error) {
+        console.error('Failed to export SVG:', error);
+        addToast({
+          type: 'error',
+          message: `Failed to export SVG: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    },
+    [captureScene, exportTitle, filenamePrefix, notation, addToast]
+  );
+
+  // Export an area as a tiled multi-page PDF (options come from PdfExportDialog)
+  const exportPdf = useCallback(
+    async (options: PdfExportOptions) => {
+      if (!pdfArea) return;
+      const { area, suffix } = pdfArea;
+      setPdfArea(null);
+      try {
+        const pdf = buildTiledPdf(await captureScene(area), area, { notation, ...options });
+        downloadBlob(
+          new Blob([pdf], { type: 'application/pdf' }),
+          `${filenamePrefix}${suffix}-${new Date().toISOString().slice(0, 10)}.pdf`
+        );
+        addToast({
+          type: 'success',
+          message: 'Canvas exported as PDF',
+        });
+      } catch (error) {
+        console.error('Failed to export PDF:', error);
+        addToast({
+          type: 'error',
+          message: `Failed to export PDF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    },
+    [pdfArea, captureScene, filenamePrefix, notation, addToast]
+  );
+
+  const exportFullCanvasAs = useCallback(
+    (format: ExportFormat) => {
+      if (format === 'png') {
+        exportFullCanvas();
+        return;
+      }
+      setShowMenu(false);
+      const area = getFullCanvasArea();
+      if (!area) return;
+      if (format === 'svg') {
+        exportSvg(area, '');
+      } else {
+        setPdfArea({ area, suffix: '' });
+      }
+    },
+    [exportFullCanvas, getFullCanvasArea, exportSvg]
+  );
 
   // Start area selection mode
-  const startAreaSelection = useCallback(() => {
-    setShowMenu(false);
-    setIsSelecting(true);
-    setSelectionBox(null);
-    addToast({
-      type: 'info',
-      message: 'Click and drag to select an area to export',
-    });
-  }, [addToast]);
+  const startAreaSelection = useCallback(
+    (format: ExportFormat) => {
+      setShowMenu(false);
+      setSelectionFormat(format);
+      setIsSelecting(true);
+      setSelectionBox(null);
+      addToast({
+        type: 'info',
+        message: 'Click and drag to select an area to export',
+      });
+    },
+    [addToast]
+  );
 
   // Handle mouse down for area selection
   const handleMouseDown = useCallback(
@@ -199,6 +341,24 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
       return;
     }
 
+    // Vector formats work on canvas coordinates directly
+    if (selectionFormat !== 'png') {
+      const currentViewport = getViewport();
+      const area: Rect = {
+        x: (screenX - currentViewport.x) / currentViewport.zoom,
+        y: (screenY - currentViewport.y) / currentViewport.zoom,
+        width: width / currentViewport.zoom,
+        height: height / currentViewport.zoom,
+      };
+      setSelectionBox(null);
+      if (selectionFormat === 'svg') {
+        exportSvg(area, '-selection');
+      } else {
+        setPdfArea({ area, suffix: '-selection' });
+      }
+      return;
+    }
+
     try {
       // Get the ReactFlow viewport element
       const viewport = document.querySelector('.react-flow__viewport') as HTMLElement;
@@ -233,18 +393,20 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
       try {
         // Create the PNG directly from the viewport (not a clone)
         // This preserves all CSS styles since we're capturing the live element
-        const dataUrl = await toPng(viewport, {
-          backgroundColor: '#ffffff',
-          width: canvasWidth,
-          height: canvasHeight,
-          pixelRatio: scale,
-          filter: filterNode,
-          style: {
-            // Ensure the viewport fills the capture area
-            width: `${canvasWidth}px`,
-            height: `${canvasHeight}px`,
-          },
-        });
+        const dataUrl = await renderFully(() =>
+          toPng(viewport, {
+            backgroundColor: '#ffffff',
+            width: canvasWidth,
+            height: canvasHeight,
+            pixelRatio: scale,
+            filter: filterNode,
+            style: {
+              // Ensure the viewport fills the capture area
+              width: `${canvasWidth}px`,
+              height: `${canvasHeight}px`,
+            },
+          })
+        );
 
         // Download the image
         const link = document.createElement('a');
@@ -269,7 +431,16 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
     }
 
     setSelectionBox(null);
-  }, [isSelecting, selectionBox, filenamePrefix, addToast, getViewport]);
+  }, [
+    isSelecting,
+    selectionBox,
+    selectionFormat,
+    filenamePrefix,
+    addToast,
+    getViewport,
+    exportSvg,
+    renderFully,
+  ]);
 
   // Cancel selection on Escape
   useEffect(() => {
@@ -306,7 +477,7 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
           <button
             onClick={() => setShowMenu(!showMenu)}
             className="p-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
-            title="Export canvas as PNG"
+            title="Export canvas (PNG, SVG, PDF)"
           >
             <svg
               className="w-5 h-5 text-gray-600"
@@ -325,11 +496,8 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
 
           {/* Dropdown menu */}
           {showMenu && (
-            <div className="absolute right-0 mt-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
-              <button
-                onClick={exportFullCanvas}
-                className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
-              >
+            <div className="absolute right-0 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+              <div className="px-4 pt-2 pb-1 text-xs font-semibold text-gray-500 uppercase flex items-center gap-2">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path
                     strokeLinecap="round"
@@ -339,11 +507,19 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
                   />
                 </svg>
                 Export Full Canvas
-              </button>
-              <button
-                onClick={startAreaSelection}
-                className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2 border-t border-gray-100"
-              >
+              </div>
+              <div className="flex gap-1 px-4 pb-2">
+                {(['png', 'svg', 'pdf'] as ExportFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => exportFullCanvasAs(format)}
+                    className="flex-1 px-2 py-1 text-sm text-gray-700 border border-gray-200 rounded hover:bg-gray-50"
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              <div className="px-4 pt-2 pb-1 text-xs font-semibold text-gray-500 uppercase flex items-center gap-2 border-t border-gray-100">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path
                     strokeLinecap="round"
@@ -353,7 +529,18 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
                   />
                 </svg>
                 Select Area to Export
-              </button>
+              </div>
+              <div className="flex gap-1 px-4 pb-2">
+                {(['png', 'svg', 'pdf'] as ExportFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => startAreaSelection(format)}
+                    className="flex-1 px-2 py-1 text-sm text-gray-700 border border-gray-200 rounded hover:bg-gray-50"
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
             </div>
           )}
         </div>
@@ -394,6 +581,16 @@ export const CanvasExport: React.FC<CanvasExportProps> = ({ filenamePrefix = 'ca
       {/* Close menu when clicking outside */}
       {/* eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions -- Menu backdrop */}
       {showMenu && <div className="fixed inset-0 z-0" onClick={() => setShowMenu(false)} />}
+
+      {pdfArea && (
+        <PdfExportDialog
+          isOpen
+          area={pdfArea.area}
+          defaultTitle={exportTitle}
+          onClose={() => setPdfArea(null)}
+          onExport={exportPdf}
+        />
+      )}
     </>
   );
 };
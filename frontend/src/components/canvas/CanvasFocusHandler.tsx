@@ -0,0 +1,57 @@
+/**
+ * Canvas Focus Handler Component
+ * Consumes search jump-to requests: pans/zooms to the requested node, selects it
+ * and opens the matching editor. Renders nothing; must live inside ReactFlow.
+ */
+
+import React, { useEffect } from 'react';
+import { useReactFlow, useNodes } from 'reactflow';
+import { useSearchStore } from '@/stores/searchStore';
+import { useModelStore } from '@/stores/modelStore';
+
+interface CanvasFocusHandlerProps {
+  onOpenBPMN: (processId: string) => void;
+  onOpenDMN: (decisionId: string) => void;
+}
+
+export const CanvasFocusHandler: React.FC<CanvasFocusHandlerProps> = ({
+  onOpenBPMN,
+  onOpenDMN,
+}) => {
+  const { fitView, setNodes } = useReactFlow();
+  const nodes = useNodes();
+  const focusRequest = useSearchStore((state) => state.focusRequest);
+  const clearFocusRequest = useSearchStore((state) => state.clearFocusRequest);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+
+    const { nodeId, openEditor, editorResourceId } = focusRequest;
+    const target = nodes.find((n) => n.id === nodeId);
+
+    // Wait for the view to render its nodes (the effect re-runs when nodes change).
+    // BPMN/DMN without a linked asset node still open their editor.
+    if (!target && openEditor !== 'bpmn' && openEditor !== 'dmn') return;
+
+    clearFocusRequest();
+
+    if (target) {
+      setNodes((current) => current.map((n) => ({ ...n, selected: n.id === nodeId })));
+      // Wait a frame so freshly measured node sizes are used for the viewport
+      window.requestAnimationFrame(() =>
+        fitView({ nodes: [{ id: nodeId }], padding: 0.5, maxZoom: 1.25, duration: 400 })
+      );
+    }
+
+    if (openEditor === 'table') {
+      useModelStore.getState().setSelectedTable(nodeId);
+      useModelStore.getState().openTableEditor(nodeId);
+    } else if (openEditor === 'bpmn') {
+      onOpenBPMN(editorResourceId ?? nodeId);
+    } else if (openEditor === 'dmn') {
+      onOpenDMN(editorResourceId ?? nodeId);
+    }
+  }, [focusRequest, nodes, fitView, setNodes, clearFocusRequest, onOpenBPMN, onOpenDMN]);
+
+  return null;
+};
@@ -4,11 +4,22 @@
  */
 
 import React, { memo, useMemo } from 'react';
-import { Handle, Position, NodeProps } from 'reactflow';
+import { Handle, Position, NodeProps, useStore, type ReactFlowState } from 'reactflow';
+import { useShallow } from 'zustand/shallow';
 import { useModelStore } from '@/stores/modelStore';
-import type { Table, QualityTier } from '@/types/table';
+import { useCanvasRenderStore } from '@/stores/canvasRenderStore';
+import type { Table, QualityTier, DimensionalRole } from '@/types/table';
 import { getTableAriaLabel } from '@/utils/accessibility';
 import { getSourceTopic, getCatalogSchema, getResourceType } from '@/utils/customProperties';
+import { getEffectiveModelType, getLevelOfDetail } from '@/utils/canvasLod';
+import { getDependentTableIds } from '@/utils/erNotation';
+import { CHANGE_COLORS, CHANGE_ROW_STYLES, type TableDiffMark } from '@/utils/canvasDiff';
+import { useERNotation } from '@/hooks/useERNotation';
+import { describeGrain, DIMENSIONAL_ROLE_LABELS } from '@/utils/dimensionalModel';
+import { useGlossaryStore } from '@/stores/glossaryStore';
+import { getLinkedTermIds } from '@/utils/glossary';
+import { GlossaryTermBadge } from '@/components/glossary/GlossaryTermBadge';
+import type { GlossaryTerm } from '@/types/glossary';
 
 export interface TableNodeData {
   table: Table;
@@ -17,29 +28,80 @@ export interface TableNodeData {
   isOwnedByDomain?: boolean; // True if owned by current domain
   isShared?: boolean; // True if this is a shared resource from another domain
   expandColumns?: boolean; // True to show all columns without max-height limit
+  diff?: TableDiffMark; // Set while the canvas is compared with another version
+  isGhost?: boolean; // True for a table that exists only in the compared version
 }
 
+const ROLE_BADGE_STYLES: Record<DimensionalRole, string> = {
+  fact: 'bg-indigo-600 bg-opacity-90',
+  dimension: 'bg-teal-600 bg-opacity-90',
+  bridge: 'bg-orange-500 bg-opacity-90',
+};
+
+// Only changes when the zoom crosses a level-of-detail threshold, so panning and zooming
+// within a level does not re-render every node
+const levelOfDetailSelector = (state: ReactFlowState) => getLevelOfDetail(state.transform[2]);
+
+// Column rows have room for one term; the rest are summarised as "+n"
+const GlossaryBadges: React.FC<{ terms: GlossaryTerm[]; max: number }> = ({ terms, max }) =>
+  terms.length === 0 ? null : (
+    <span
+      className="flex items-center gap-0.5 flex-shrink-0"
+      title={`Glossary: ${terms.map((t) => t.name).join(', ')}`}
+    >
+      {terms.slice(0, max).map((term) => (
+        <GlossaryTermBadge key={term.id} term={term} size="xs" />
+      ))}
+      {terms.length > max && (
+        <span className="text-[10px] text-gray-500">+{terms.length - max}</span>
+      )}
+    </span>
+  );
+
 export const CanvasNode: React.FC<NodeProps<TableNodeData>> = memo(({ data, selected }) => {
   const {
     table,
-    modelType = 'conceptual',
+    modelType: viewModelType = 'conceptual',
     isOwnedByDomain,
     isShared = false,
     expandColumns = false,
+    diff,
+    isGhost = false,
   } = data;
-  const { selectedDomainId, bpmnProcesses, relationships } = useModelStore();
+  const { selectedDomainId, bpmnProcesses, relationships, tables, currentView } = useModelStore(
+    useShallow((state) => ({
+      selectedDomainId: state.selectedDomainId,
+      bpmnProcesses: state.bpmnProcesses,
+      relationships: state.relationships,
+      tables: state.tables,
+      currentView: state.currentView,
+    }))
+  );
+  const notation = useERNotation(currentView);
+  const glossaryTerms = useGlossaryStore((state) => state.terms);
+  const linkedTerms = (definitions: Table['authoritativeDefinitions']) =>
+    getLinkedTermIds(definitions)
+      .map((id) => glossaryTerms.find((t) => t.id === id))
+      .filter((t): t is GlossaryTerm => !!t);
+  const zoomLevelOfDetail = useStore(levelOfDetailSelector);
+  const fullRender = useCanvasRenderStore((state) => state.fullRender);
+  // Zoomed out, physical nodes fall back to keys only and every node to its title bar
+  const modelType = getEffectiveModelType(viewModelType, fullRender ? 'full' : zoomLevelOfDetail);
   const isPrimaryDomain = table.primary_domain_id === selectedDomainId;
   const isReadOnly = !isPrimaryDomain || (isOwnedByDomain !== undefined && !isOwnedByDomain);
 
   // Check if table has BPMN link via transformation_links
-  const hasBPMNLink =
-    bpmnProcesses?.some(
-      (p) =>
-        p.domain_id === selectedDomainId &&
-        p.transformation_links?.some(
-          (link) => link.source_table_id === table.id || link.target_table_id === table.id
-        )
-    ) ?? false;
+  const hasBPMNLink = useMemo(
+    () =>
+      bpmnProcesses?.some(
+        (p) =>
+          p.domain_id === selectedDomainId &&
+          p.transformation_links?.some(
+            (link) => link.source_table_id === table.id || link.target_table_id === table.id
+          )
+      ) ?? false,
+    [bpmnProcesses, selectedDomainId, table.id]
+  );
 
   // For shared resources (from other domains), use pastel shades and dashed border
   const isCrossDomain =
@@ -226,17 +288,47 @@ export const CanvasNode: React.FC<NodeProps<TableNodeData>> = memo(({ data, sele
     }
   }, [qualityTier, isCrossDomain]);
 
+  // IDEF1X draws dependent entities (child of an identifying relationship) with rounded
+  // corners and independent ones square; UML draws square class boxes
+  const isDependent = useMemo(
+    () =>
+      notation === 'idef1x' &&
+      getDependentTableIds(relationships ?? [], tables ?? []).has(table.id),
+    [notation, relationships, tables, table.id]
+  );
+  const corners =
+    notation === 'uml' || (notation === 'idef1x' && !isDependent)
+      ? { box: 'rounded-none', header: 'rounded-none' }
+      : notation === 'idef1x'
+        ? { box: 'rounded-2xl', header: 'rounded-t-2xl' }
+        : { box: 'rounded-lg', header: 'rounded-t-lg' };
+
+  // Star schemas: facts get a heavy border and their grain, dimensions and bridges a
+  // colored one, so the star stands out from surrounding tables
+  const dimensionalRole = table.dimensionalRole;
+  const roleBorder =
+    dimensionalRole === 'fact'
+      ? 'border-4 border-indigo-500'
+      : dimensionalRole === 'dimension'
+        ? 'border-teal-500'
+        : dimensionalRole === 'bridge'
+          ? 'border-orange-400'
+          : null;
+  const grain = dimensionalRole === 'fact' ? describeGrain(table) : undefined;
+
   const rootColumnCount = table.columns.filter((col) => !col.parent_column_id).length;
   const ariaLabel = getTableAriaLabel(table.name, rootColumnCount);
 
   return (
     <div
       className={`
-        bg-white rounded-lg shadow-md min-w-[200px]
-        ${isCrossDomain ? 'border-2 border-dashed' : 'border-2 border-solid'}
-        ${selected ? 'border-blue-600 ring-2 ring-blue-200' : isCrossDomain ? 'border-gray-400' : 'border-gray-300'}
+        bg-white ${corners.box} shadow-md min-w-[200px]
+        ${isCrossDomain || isGhost ? 'border-2 border-dashed' : 'border-2 border-solid'}
+        ${selected ? 'border-blue-600 ring-2 ring-blue-200' : (roleBorder ?? (isCrossDomain ? 'border-gray-400' : 'border-gray-300'))}
         ${isReadOnly ? 'opacity-75' : ''}
+        ${isGhost ? 'opacity-60' : ''}
       `}
+      style={diff && !selected ? { borderColor: CHANGE_COLORS[diff.kind] } : undefined}
       role="group"
       aria-label={ariaLabel}
     >
@@ -418,10 +510,25 @@ export const CanvasNode: React.FC<NodeProps<TableNodeData>> = memo(({ data, sele
 
       {/* Table header with quality tier color */}
       <div
-        className={`px-3 py-2 ${titleBarColor} text-white font-semibold rounded-t-lg flex items-center justify-between`}
+        className={`px-3 py-2 ${titleBarColor} text-white font-semibold ${corners.header} flex items-center justify-between`}
       >
         <div className="flex flex-col min-w-0">
+          {notation === 'uml' && (
+            <span className="text-xs font-normal text-white text-opacity-80">
+              {resourceType === 'view' || resourceType === 'materialized_view'
+                ? '«view»'
+                : '«table»'}
+            </span>
+          )}
           <span className="truncate">{table.name}</span>
+          {grain && (
+            <span
+              className="text-xs font-normal italic text-white text-opacity-80 truncate"
+              title={`Grain: ${grain}`}
+            >
+              {grain}
+            </span>
+          )}
           {sourceTopic && (
             <span
               className="text-xs font-normal text-white text-opacity-70 truncate"
@@ -438,6 +545,12 @@ export const CanvasNode: React.FC<NodeProps<TableNodeData>> = memo(({ data, sele
               {catalogSchema}
             </span>
           )}
+          {/* Business terms matter in every view, but not when zoomed out to titles */}
+          {(fullRender || zoomLevelOfDetail !== 'title') && (
+            <span className="mt-0.5">
+              <GlossaryBadges terms={linkedTerms(table.authoritativeDefinitions)} max={3} />
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2 flex-shrink-0">
           {qualityTier !== 'operational' && (
@@ -448,6 +561,15 @@ export const CanvasNode: React.FC<NodeProps<TableNodeData>> = memo(({ data, sele
               {qualityTier}
             </span>
           )}
+          {dimensionalRole && (
+            <span
+              className={`text-xs px-2 py-0.5 rounded uppercase ${ROLE_BADGE_STYLES[dimensionalRole]}`}
+              title={`${DIMENSIONAL_ROLE_LABELS[dimensionalRole]}${table.conformedDimension ? ' (conformed)' : ''}`}
+            >
+              {dimensionalRole === 'dimension' ? 'Dim' : dimensionalRole}
+              {table.conformedDimension && ' ★'}
+            </span>
+          )}
           {hasBPMNLink && (
             <span
               className="text-xs bg-purple-600 bg-opacity-80 px-2 py-0.5 rounded flex items-center gap-1"
@@ -493,7 +615,9 @@ export const CanvasNode: React.FC<NodeProps<TableNodeData>> = memo(({ data, sele
         <div
           className={`p-2 ${expandColumns ? '' : 'max-h-[300px] overflow-y-auto'} table-columns-scrollable`}
         >
-          {visibleColumns.length === 0 && compoundKeys.length === 0 ? (
+          {visibleColumns.length === 0 &&
+          compoundKeys.length === 0 &&
+          !diff?.removedColumns.length ? (
             <div className="text-sm text-gray-400 italic py-2">
               {modelType === 'logical' ? 'No keys' : 'No columns'}
             </div>
@@ -538,7 +662,9 @@ export const CanvasNode: React.FC<NodeProps<TableNodeData>> = memo(({ data, sele
                 .map((column) => (
                   <div
                     key={column.id}
-                    className="flex items-center gap-2 text-sm py-1 px-2 hover:bg-gray-50 rounded"
+                    className={`flex items-center gap-2 text-sm py-1 px-2 hover:bg-gray-50 ${
+                      notation === 'chen' ? 'rounded-full border border-gray-300' : 'rounded'
+                    } ${diff?.columns[column.id] ? CHANGE_ROW_STYLES[diff.columns[column.id]!] : ''}`}
                   >
                     <span className="flex-1 truncate">
                       {/* Show CK for compound key members, PK only for standalone primary keys */}
@@ -574,12 +700,28 @@ export const CanvasNode: React.FC<NodeProps<TableNodeData>> = memo(({ data, sele
                             IX
                           </span>
                         )}
-                      <span className={column.nullable ? 'text-gray-600' : 'font-medium'}>
+                      {column.scdType !== undefined && dimensionalRole === 'dimension' && (
+                        <span
+                          className="text-teal-600 font-bold mr-1"
+                          title={`Slowly changing dimension type ${column.scdType}`}
+                        >
+                          SCD{column.scdType}
+                        </span>
+                      )}
+                      {/* Chen underlines key attributes */}
+                      <span
+                        className={`${column.nullable ? 'text-gray-600' : 'font-medium'} ${
+                          notation === 'chen' && column.is_primary_key ? 'underline' : ''
+                        }`}
+                      >
                         {column.name}
                       </span>
                     </span>
+                    <GlossaryBadges terms={linkedTerms(column.authoritativeDefinitions)} max={1} />
                     {showDataTypes && (
-                      <span className="text-xs text-gray-500">{column.data_type}</span>
+                      <span className="text-xs text-gray-500">
+                        {notation === 'uml' ? `: ${column.data_type}` : column.data_type}
+                      </span>
                     )}
                     {showConstraints && !column.nullable && (
                       <span className="text-xs text-red-600" aria-label="Not nullable">
@@ -588,10 +730,24 @@ export const CanvasNode: React.FC<NodeProps<TableNodeData>> = memo(({ data, sele
                     )}
                   </div>
                 ))}
+              {/* Columns that exist only in the compared version */}
+              {diff?.removedColumns.map((name) => (
+                <div
+                  key={`removed-${name}`}
+                  className={`text-sm py-1 px-2 rounded text-red-700 ${CHANGE_ROW_STYLES.removed}`}
+                  title="Removed since the compared version"
+                >
+                  {name}
+                </div>
+              ))}
             </div>
           )}
         </div>
       )}
+      {/* UML class boxes end with an (empty) operations compartment */}
+      {notation === 'uml' && showColumns && (
+        <div className="h-3 border-t-2 border-gray-200" aria-hidden="true" />
+      )}
     </div>
   );
 });
@@ -1,16 +1,47 @@
 /**
- * Custom Edge Component with Crowfoot Notation Support
- * Renders relationship edges with proper cardinality markers (arrows and crowfeet)
+ * Custom Edge Component with ER Notation Support
+ * Renders relationship edges with the cardinality markers of the view's ER notation
+ * (crow's foot by default; IDEF1X, UML, Chen and Barker via utils/erNotation).
+ * Edges are routed orthogonally around tables; when selected, bend points and the label
+ * can be dragged and are saved in the relationship's visual_metadata.
  */
 
-import React from 'react';
+import React, { useCallback, useMemo } from 'react';
 import { BaseEdge, EdgeProps, useEdges, useNodes } from 'reactflow';
-import type { Relationship } from '@/types/relationship';
-import { RelationshipCardinality } from '@/types/relationship';
+import type { Relationship, SDKCardinality, VisualMetadata } from '@/types/relationship';
+import { getSDKCardinalityLabel, RelationshipCardinality } from '@/types/relationship';
+import type { Table } from '@/types/table';
+import { useModelStore } from '@/stores/modelStore';
+import { useERNotation } from '@/hooks/useERNotation';
+import { isViewerMode } from '@/services/viewerMode';
+import { useEditableEdgeRoute } from '@/hooks/useEditableEdgeRoute';
+import {
+  getRouteBounds,
+  nodesToObstacles,
+  polylineMidpoint,
+  polylineToPath,
+  rectsIntersect,
+  routeEdge,
+  toPortSide,
+} from '@/utils/edgeRouting';
+import {
+  getChildEnd,
+  getRelationshipEnds,
+  isIdentifyingRelationship,
+  isManyCardinality,
+  isOptionalCardinality,
+  splitPolyline,
+} from '@/utils/erNotation';
+import { CHANGE_COLORS } from '@/utils/canvasDiff';
+import type { WorkspaceChangeKind } from '@/utils/workspaceDiff';
+import { EdgeRouteHandles } from './EdgeRouteHandles';
+
+const NO_TABLES: Table[] = [];
 
 interface CardinalityEdgeData {
   relationship: Relationship;
   isCrossDomain?: boolean; // True if this relationship crosses domain boundaries (shared resources)
+  diffKind?: WorkspaceChangeKind; // Set while the canvas is compared with another version
 }
 
 export const CardinalityEdge: React.FC<EdgeProps<CardinalityEdgeData>> = ({
@@ -25,14 +56,41 @@ export const CardinalityEdge: React.FC<EdgeProps<CardinalityEdgeData>> = ({
   markerEnd,
   markerStart,
   data,
+  selected,
 }) => {
   // Get all edges and nodes to detect crossings
   const allEdges = useEdges();
   const allNodes = useNodes();
+  const updateRelationship = useModelStore((state) => state.updateRelationship);
+  const currentView = useModelStore((state) => state.currentView);
+  const notation = useERNotation(currentView);
+  // Only IDEF1X needs the tables, to tell identifying from non-identifying relationships
+  const tables = useModelStore((state) => (notation === 'idef1x' ? state.tables : NO_TABLES));
+
+  const relationship = data?.relationship;
+  const isEditable = !!relationship && !isViewerMode();
+
+  // Nodes the route has to go around
+  const obstacles = useMemo(() => nodesToObstacles(allNodes), [allNodes]);
+  const nodesById = useMemo(() => new Map(allNodes.map((n) => [n.id, n])), [allNodes]);
+
+  // Bend points and label position, saved on the relationship
+  const commitVisualMetadata = useCallback(
+    (visual: VisualMetadata | undefined) => {
+      if (relationship) {
+        updateRelationship(relationship.id, { visual_metadata: visual });
+      }
+    },
+    [relationship, updateRelationship]
+  );
+  const routeEditor = useEditableEdgeRoute(
+    relationship?.visual_metadata,
+    isEditable ? commitVisualMetadata : undefined
+  );
 
   // Helper function to get node connection point coordinates
   const getNodeConnectionPoint = (nodeId: string, position: string): { x: number; y: number } => {
-    const node = allNodes.find((n) => n.id === nodeId);
+    const node = nodesById.get(nodeId);
     if (!node) {
       return { x: 0, y: 0 };
     }
@@ -59,8 +117,6 @@ export const CardinalityEdge: React.FC<EdgeProps<CardinalityEdgeData>> = ({
     }
   };
 
-  // Cardinality symbols are rendered at offsets up to ~20px, so extend perpendicular for 30px to clear them
-  const perpendicularOffset = 30;
   const hopOverHeight = 10; // Height of hop-over arc
 
   // Helper function to check if two line segments intersect
@@ -89,270 +145,41 @@ export const CardinalityEdge: React.FC<EdgeProps<CardinalityEdgeData>> = ({
     return { intersects: false };
   };
 
-  // Extract line segments from a path string (M and L commands)
-  const extractPathSegments = (
-    path: string
-  ): Array<{ x1: number; y1: number; x2: number; y2: number }> => {
-    const segments: Array<{ x1: number; y1: number; x2: number; y2: number }> = [];
-    const commands = path.match(/[ML][\s]*[\d.-]+[\s,]+[\d.-]+/g) || [];
-
-    let lastX: number = 0;
-    let lastY: number = 0;
-
-    for (const cmd of commands) {
-      const coords = cmd
-        .substring(1)
-        .trim()
-        .split(/[\s,]+/)
-        .map(Number)
-        .filter((n) => !isNaN(n));
-      if (coords.length >= 2) {
-        const x: number = coords[0] ?? 0;
-        const y: number = coords[1] ?? 0;
-
-        if (cmd.startsWith('M')) {
-          lastX = x;
-          lastY = y;
-        } else if (cmd.startsWith('L')) {
-          segments.push({ x1: lastX, y1: lastY, x2: x, y2: y });
-          lastX = x;
-          lastY = y;
-        }
-      }
-    }
-
-    return segments;
-  };
-
-  // Build path for another edge (same logic as current edge)
-  const buildOtherEdgePath = (
-    otherSourceX: number,
-    otherSourceY: number,
-    otherTargetX: number,
-    otherTargetY: number,
-    otherSourcePosition: string,
-    otherTargetPosition: string
-  ): string => {
-    // Calculate perpendicular direction from source
-    let perpDirX = 0;
-    let perpDirY = 0;
-
-    switch (otherSourcePosition) {
-      case 'left':
-        perpDirX = -1;
-        perpDirY = 0;
-        break;
-      case 'right':
-        perpDirX = 1;
-        perpDirY = 0;
-        break;
-      case 'top':
-        perpDirX = 0;
-        perpDirY = -1;
-        break;
-      case 'bottom':
-        perpDirX = 0;
-        perpDirY = 1;
-        break;
-      default: {
-        const dx = otherTargetX - otherSourceX;
-        const dy = otherTargetY - otherSourceY;
-        const len = Math.sqrt(dx * dx + dy * dy);
-        if (len > 0) {
-          perpDirX = -dy / len;
-          perpDirY = dx / len;
-        }
-        break;
-      }
-    }
-
-    const perpX1 = otherSourceX + perpDirX * perpendicularOffset;
-    const perpY1 = otherSourceY + perpDirY * perpendicularOffset;
-
-    // Calculate perpendicular direction from target
-    let targetPerpDirX = 0;
-    let targetPerpDirY = 0;
-
-    switch (otherTargetPosition) {
-      case 'left':
-        targetPerpDirX = -1;
-        targetPerpDirY = 0;
-        break;
-      case 'right':
-        targetPerpDirX = 1;
-        targetPerpDirY = 0;
-        break;
-      case 'top':
-        targetPerpDirX = 0;
-        targetPerpDirY = -1;
-        break;
-      case 'bottom':
-        targetPerpDirX = 0;
-        targetPerpDirY = 1;
-        break;
-      default: {
-        const dx = otherTargetX - otherSourceX;
-        const dy = otherTargetY - otherSourceY;
-        const len = Math.sqrt(dx * dx + dy * dy);
-        if (len > 0) {
-          targetPerpDirX = dy / len;
-          targetPerpDirY = -dx / len;
-        }
-        break;
-      }
-    }
-
-    const perpX2 = otherTargetX + targetPerpDirX * perpendicularOffset;
-    const perpY2 = otherTargetY + targetPerpDirY * perpendicularOffset;
-
-    let path = `M ${otherSourceX} ${otherSourceY} L ${perpX1} ${perpY1}`;
-
-    const isSourceSide = otherSourcePosition === 'left' || otherSourcePosition === 'right';
-    const isTargetSide = otherTargetPosition === 'left' || otherTargetPosition === 'right';
-
-    if (isSourceSide && isTargetSide) {
-      path += ` L ${perpX2} ${perpY1}`;
-      if (Math.abs(perpY1 - perpY2) > 1) {
-        path += ` L ${perpX2} ${perpY2}`;
-      }
-    } else if (!isSourceSide && !isTargetSide) {
-      path += ` L ${perpX1} ${perpY2}`;
-      if (Math.abs(perpX1 - perpX2) > 1) {
-        path += ` L ${perpX2} ${perpY2}`;
-      }
-    } else {
-      if (isSourceSide) {
-        path += ` L ${perpX2} ${perpY1} L ${perpX2} ${perpY2}`;
-      } else {
-        path += ` L ${perpX1} ${perpY2} L ${perpX2} ${perpY2}`;
-      }
-    }
-
-    path += ` L ${perpX2} ${perpY2} L ${otherTargetX} ${otherTargetY}`;
-    return path;
-  };
-
-  // Build custom path that goes perpendicular from table, then routes to target
-  const buildPerpendicularPath = (): [string, number, number] => {
-    // Calculate perpendicular direction from source
-    let perpDirX = 0;
-    let perpDirY = 0;
-
-    switch (sourcePosition) {
-      case 'left':
-        perpDirX = -1; // Go left (perpendicular outward)
-        perpDirY = 0;
-        break;
-      case 'right':
-        perpDirX = 1; // Go right (perpendicular outward)
-        perpDirY = 0;
-        break;
-      case 'top':
-        perpDirX = 0;
-        perpDirY = -1; // Go up (perpendicular outward)
-        break;
-      case 'bottom':
-        perpDirX = 0;
-        perpDirY = 1; // Go down (perpendicular outward)
-        break;
-      default: {
-        // Fallback: calculate perpendicular based on edge direction
-        const dx = targetX - sourceX;
-        const dy = targetY - sourceY;
-        const len = Math.sqrt(dx * dx + dy * dy);
-        if (len > 0) {
-          // Perpendicular is rotated 90 degrees
-          perpDirX = -dy / len;
-          perpDirY = dx / len;
-        }
-        break;
-      }
-    }
-
-    // First point: extend perpendicular from source
-    const perpX1 = sourceX + perpDirX * perpendicularOffset;
-    const perpY1 = sourceY + perpDirY * perpendicularOffset;
-
-    // Calculate perpendicular direction from target (inward)
-    let targetPerpDirX = 0;
-    let targetPerpDirY = 0;
-
-    switch (targetPosition) {
-      case 'left':
-        targetPerpDirX = -1; // Coming from left (perpendicular inward)
-        targetPerpDirY = 0;
-        break;
-      case 'right':
-        targetPerpDirX = 1; // Coming from right (perpendicular inward)
-        targetPerpDirY = 0;
-        break;
-      case 'top':
-        targetPerpDirX = 0;
-        targetPerpDirY = -1; // Coming from top (perpendicular inward)
-        break;
-      case 'bottom':
-        targetPerpDirX = 0;
-        targetPerpDirY = 1; // Coming from bottom (perpendicular inward)
-        break;
-      default: {
-        // Fallback: calculate perpendicular based on edge direction
-        const dx = targetX - sourceX;
-        const dy = targetY - sourceY;
-        const len = Math.sqrt(dx * dx + dy * dy);
-        if (len > 0) {
-          // Perpendicular is rotated 90 degrees (opposite direction for target)
-          targetPerpDirX = dy / len;
-          targetPerpDirY = -dx / len;
-        }
-        break;
-      }
-    }
-
-    // Last point before target: extend perpendicular from target
-    const perpX2 = targetX + targetPerpDirX * perpendicularOffset;
-    const perpY2 = targetY + targetPerpDirY * perpendicularOffset;
-
-    // Build path: source -> perpendicular from source -> route horizontally/vertically -> perpendicular to target -> target
-    let path = `M ${sourceX} ${sourceY} L ${perpX1} ${perpY1}`;
-
-    // Route horizontally/vertically between perpendicular points
-    // For side-to-side (left/right): route horizontally, then vertically if needed
-    // For top/bottom: route vertically, then horizontally if needed
-    // For mixed: route in L-shape
-
-    const isSourceSide = sourcePosition === 'left' || sourcePosition === 'right';
-    const isTargetSide = targetPosition === 'left' || targetPosition === 'right';
-
-    if (isSourceSide && isTargetSide) {
-      // Both on sides (left/right): route horizontally first, then vertically to align Y
-      path += ` L ${perpX2} ${perpY1}`;
-      // Then route vertically to target's perpendicular Y
-      if (Math.abs(perpY1 - perpY2) > 1) {
-        path += ` L ${perpX2} ${perpY2}`;
-      }
-    } else if (!isSourceSide && !isTargetSide) {
-      // Both on top/bottom: route vertically first, then horizontally to align X
-      path += ` L ${perpX1} ${perpY2}`;
-      // Then route horizontally to target's perpendicular X
-      if (Math.abs(perpX1 - perpX2) > 1) {
-        path += ` L ${perpX2} ${perpY2}`;
-      }
-    } else {
-      // Mixed (side to top/bottom or vice versa): route in L-shape
-      if (isSourceSide) {
-        // Source on side: route horizontally first, then vertically
-        path += ` L ${perpX2} ${perpY1} L ${perpX2} ${perpY2}`;
-      } else {
-        // Source on top/bottom: route vertically first, then horizontally
-        path += ` L ${perpX1} ${perpY2} L ${perpX2} ${perpY2}`;
-      }
-    }
-
-    // Final segment: perpendicular to target, then to target
-    path += ` L ${perpX2} ${perpY2} L ${targetX} ${targetY}`;
+  // Segments of an orthogonal polyline
+  const toSegments = (
+    polyline: Array<{ x: number; y: number }>
+  ): Array<{ x1: number; y1: number; x2: number; y2: number }> =>
+    polyline.slice(1).map((p, i) => ({
+      x1: polyline[i]!.x,
+      y1: polyline[i]!.y,
+      x2: p.x,
+      y2: p.y,
+    }));
+
+  // Orthogonal route that leaves/enters the tables perpendicular to their sides, either
+  // around other nodes or through the user's bend points
+  const sourcePoint = { x: sourceX, y: sourceY };
+  const targetPoint = { x: targetX, y: targetY };
+  const points = routeEdge({
+    source: sourcePoint,
+    sourceSide: toPortSide(sourcePosition, sourcePoint, targetPoint),
+    target: targetPoint,
+    targetSide: toPortSide(targetPosition, targetPoint, sourcePoint),
+    obstacles,
+    waypoints: routeEditor.visual.waypoints,
+  });
+
+  // Build the edge path, with hop-over arcs where it crosses other relationship edges
+  const buildPathWithHopOvers = (): string => {
+    let path = polylineToPath(points);
 
     // Detect intersections with other edges and add hop-over arcs
-    const mySegments = extractPathSegments(path);
+    const mySegments = toSegments(points);
+    const myBounds = getRouteBounds({
+      source: sourcePoint,
+      target: targetPoint,
+      waypoints: routeEditor.visual.waypoints,
+    });
     const intersections: Array<{ x: number; y: number; segmentIndex: number; t: number }> = [];
 
     // Check each segment against other edges
@@ -369,23 +196,20 @@ export const CardinalityEdge: React.FC<EdgeProps<CardinalityEdgeData>> = ({
         const otherTargetPos = (otherEdge as any).targetPosition ?? 'top';
         const otherSourcePoint = getNodeConnectionPoint(otherEdge.source, otherSourcePos);
         const otherTargetPoint = getNodeConnectionPoint(otherEdge.target, otherTargetPos);
+        const otherRoute = {
+          source: otherSourcePoint,
+          sourceSide: toPortSide(otherSourcePos, otherSourcePoint, otherTargetPoint),
+          target: otherTargetPoint,
+          targetSide: toPortSide(otherTargetPos, otherTargetPoint, otherSourcePoint),
+          waypoints: (otherEdge.data as CardinalityEdgeData | undefined)?.relationship
+            ?.visual_metadata?.waypoints,
+        };
 
-        const otherSourceX = otherSourcePoint.x;
-        const otherSourceY = otherSourcePoint.y;
-        const otherTargetX = otherTargetPoint.x;
-        const otherTargetY = otherTargetPoint.y;
-
-        // Build path for other edge
-        const otherPath = buildOtherEdgePath(
-          otherSourceX,
-          otherSourceY,
-          otherTargetX,
-          otherTargetY,
-          otherSourcePos,
-          otherTargetPos
-        );
+        // Edges too far away to cross are skipped without routing them
+        if (!rectsIntersect(myBounds, getRouteBounds(otherRoute))) continue;
 
-        const otherSegments = extractPathSegments(otherPath);
+        // Route the other edge the same way (cached, so each route is computed once)
+        const otherSegments = toSegments(routeEdge({ ...otherRoute, obstacles }));
 
         // Check intersection with each segment of the other edge
         for (const otherSeg of otherSegments) {
@@ -453,7 +277,7 @@ export const CardinalityEdge: React.FC<EdgeProps<CardinalityEdgeData>> = ({
       const firstSegment = mySegments[0];
       if (!firstSegment) {
         // Return original path if no segments
-        return [path, (perpX1 + perpX2) / 2, (perpY1 + perpY2) / 2];
+        return path;
       }
 
       let newPath = `M ${firstSegment.x1} ${firstSegment.y1}`;
@@ -519,17 +343,15 @@ export const CardinalityEdge: React.FC<EdgeProps<CardinalityEdgeData>> = ({
       path = newPath;
     }
 
-    // Label position at midpoint of the horizontal/vertical segment
-    const labelX = (perpX1 + perpX2) / 2;
-    const labelY = (perpY1 + perpY2) / 2;
-
-    return [path, labelX, labelY];
+    return path;
   };
 
-  // Build path with perpendicular routing
-  const [edgePath, labelX, labelY] = buildPerpendicularPath();
+  const edgePath = buildPathWithHopOvers();
 
-  const relationship = data?.relationship;
+  // Label sits at the saved position or halfway along the route
+  const labelPoint = routeEditor.visual.label_position ?? polylineMidpoint(points);
+  const labelX = labelPoint.x;
+  const labelY = labelPoint.y;
 
   // Normalize cardinality from backend format ("OneToMany") to frontend enum format ("One-to-Many")
   const normalizeCardinality = (cardinalityValue: string | undefined): string | undefined => {
@@ -1051,45 +873,233 @@ export const CardinalityEdge: React.FC<EdgeProps<CardinalityEdgeData>> = ({
   // Check if this is a cross-domain relationship
   const isCrossDomain = data?.isCrossDomain ?? false;
 
-  // Get custom color from relationship or use default
-  const lineColor = relationship?.color || (isCrossDomain ? '#9ca3af' : '#000000');
+  // Compare mode colors changed relationships; otherwise use the custom color or the default
+  const diffKind = data?.diffKind;
+  const lineColor = diffKind
+    ? CHANGE_COLORS[diffKind]
+    : relationship?.color || (isCrossDomain ? '#9ca3af' : '#000000');
 
   // Apply dashed line styling for cross-domain relationships and custom color
   const edgeStyle = {
     ...style,
     stroke: lineColor,
-    ...(isCrossDomain && {
+    ...((isCrossDomain || diffKind === 'removed') && {
       strokeDasharray: '5, 5',
     }),
   };
 
+  // Cardinality of both ends for the other notations
+  const ends = relationship ? getRelationshipEnds(relationship) : null;
+
+  // Text next to an end of the line, offset along the edge and to its side
+  const renderEndLabel = (x: number, y: number, angle: number, text: string) => {
+    if (!text) return null;
+    const angleRad = (angle * Math.PI) / 180;
+    const labelX = x + Math.cos(angleRad) * 22 - Math.sin(angleRad) * 10;
+    const labelY = y + Math.sin(angleRad) * 22 + Math.cos(angleRad) * 10;
+    return (
+      <text
+        x={labelX}
+        y={labelY}
+        fill={lineColor}
+        textAnchor="middle"
+        dominantBaseline="middle"
+        className="pointer-events-none"
+        style={{ fontSize: 11, fontWeight: 600 }}
+      >
+        {text}
+      </text>
+    );
+  };
+
+  // IDEF1X: solid line for identifying, dashed for non-identifying relationships; a dot
+  // at each "many" or child end with its letter, a diamond at an optional parent end
+  const renderIdef1xEnds = () => {
+    if (!relationship || !ends) return null;
+    const tablesById = new Map(tables.map((t) => [t.id, t]));
+    const childEnd = getChildEnd(relationship, tablesById);
+    const endSymbols = (
+      x: number,
+      y: number,
+      angle: number,
+      cardinality: SDKCardinality,
+      isChild: boolean
+    ) => {
+      const angleRad = (angle * Math.PI) / 180;
+      const cx = x + Math.cos(angleRad) * 6;
+      const cy = y + Math.sin(angleRad) * 6;
+      if (isChild || isManyCardinality(cardinality)) {
+        return (
+          <g>
+            <circle cx={cx} cy={cy} r={4.5} fill={lineColor} stroke={lineColor} />
+            {renderEndLabel(x, y, angle, getSDKCardinalityLabel(cardinality, 'idef1x'))}
+          </g>
+        );
+      }
+      if (isOptionalCardinality(cardinality)) {
+        const dx = Math.cos(angleRad);
+        const dy = Math.sin(angleRad);
+        const tip = { x: x + dx * 2, y: y + dy * 2 };
+        const far = { x: x + dx * 16, y: y + dy * 16 };
+        const mid = { x: x + dx * 9, y: y + dy * 9 };
+        return (
+          <polygon
+            points={`${tip.x},${tip.y} ${mid.x - dy * 5},${mid.y + dx * 5} ${far.x},${far.y} ${
+              mid.x + dy * 5
+            },${mid.y - dx * 5}`}
+            fill="white"
+            stroke={lineColor}
+            strokeWidth={2}
+          />
+        );
+      }
+      return null;
+    };
+    return (
+      <>
+        {endSymbols(sourceX, sourceY, sourceAngle, ends.source, childEnd === 'source')}
+        {endSymbols(targetX, targetY, targetAngle, ends.target, childEnd === 'target')}
+      </>
+    );
+  };
+
+  // Chen: relationship diamond on the line, (min,max) participation at each entity. The
+  // participation of an entity is the cardinality of the opposite end.
+  const renderChenDiamond = () => {
+    const text = relationship?.label ?? '';
+    const halfWidth = Math.max(26, text.length * 3.5 + 14);
+    const halfHeight = 16;
+    return (
+      <polygon
+        points={`${labelX - halfWidth},${labelY} ${labelX},${labelY - halfHeight} ${
+          labelX + halfWidth
+        },${labelY} ${labelX},${labelY + halfHeight}`}
+        fill="white"
+        stroke={lineColor}
+        strokeWidth={2}
+        className="pointer-events-none"
+      />
+    );
+  };
+
+  // Barker: each half of the line is dashed when its end is optional
+  const barkerHalves = notation === 'barker' ? splitPolyline(points) : null;
+
+  const isIdentifying =
+    notation === 'idef1x' && !!relationship
+      ? isIdentifyingRelationship(relationship, new Map(tables.map((t) => [t.id, t])))
+      : false;
+  const notationStyle =
+    notation === 'barker'
+      ? { ...edgeStyle, stroke: 'none' }
+      : notation === 'idef1x' && !isIdentifying
+        ? { ...edgeStyle, strokeDasharray: '6, 4' }
+        : edgeStyle;
+
   return (
     <>
       <BaseEdge
         id={id}
         path={edgePath}
-        style={edgeStyle}
-        // Hide default markers when showing custom Crow's Foot symbols
-        markerEnd={showEndCrowfoot || showEndLine ? undefined : markerEnd}
-        markerStart={showStartCrowfoot || showStartLine ? undefined : markerStart}
+        style={notationStyle}
+        // Hide default markers when the notation draws its own end symbols
+        markerEnd={
+          notation !== 'crows-foot' || showEndCrowfoot || showEndLine ? undefined : markerEnd
+        }
+        markerStart={
+          notation !== 'crows-foot' || showStartCrowfoot || showStartLine ? undefined : markerStart
+        }
       />
-      {/* Render Crow's Foot Notation symbols */}
-      {/* Source side: optionality symbol (circle) appears first, then multiplicity */}
-      {showStartOptional &&
-        renderOptionalCircle(sourceX, sourceY, sourceAngle, showStartCrowfoot, sourcePosition)}
-      {showStartCrowfoot &&
-        renderCrowfoot(sourceX, sourceY, sourceAngle, true, sourcePosition, !sourceOptional)}
-      {showStartLine &&
-        renderOneLine(sourceX, sourceY, sourceAngle, showStartOptional, sourcePosition)}
-      {/* Target side: optionality symbol (circle) appears first, then multiplicity */}
-      {showEndOptional &&
-        renderOptionalCircle(targetX, targetY, targetAngle, showEndCrowfoot, targetPosition)}
-      {showEndCrowfoot &&
-        renderCrowfoot(targetX, targetY, targetAngle, false, targetPosition, !targetOptional)}
-      {showEndLine && renderOneLine(targetX, targetY, targetAngle, showEndOptional, targetPosition)}
-
-      {/* Relationship label */}
-      {relationship?.label && (
+      {notation === 'crows-foot' && (
+        <>
+          {/* Render Crow's Foot Notation symbols */}
+          {/* Source side: optionality symbol (circle) appears first, then multiplicity */}
+          {showStartOptional &&
+            renderOptionalCircle(sourceX, sourceY, sourceAngle, showStartCrowfoot, sourcePosition)}
+          {showStartCrowfoot &&
+            renderCrowfoot(sourceX, sourceY, sourceAngle, true, sourcePosition, !sourceOptional)}
+          {showStartLine &&
+            renderOneLine(sourceX, sourceY, sourceAngle, showStartOptional, sourcePosition)}
+          {/* Target side: optionality symbol (circle) appears first, then multiplicity */}
+          {showEndOptional &&
+            renderOptionalCircle(targetX, targetY, targetAngle, showEndCrowfoot, targetPosition)}
+          {showEndCrowfoot &&
+            renderCrowfoot(targetX, targetY, targetAngle, false, targetPosition, !targetOptional)}
+          {showEndLine &&
+            renderOneLine(targetX, targetY, targetAngle, showEndOptional, targetPosition)}
+        </>
+      )}
+      {barkerHalves && ends && (
+        <>
+          {barkerHalves.map((half, i) => {
+            const optional = isOptionalCardinality(i === 0 ? ends.source : ends.target);
+            return (
+              <path
+                key={i}
+                d={polylineToPath(half)}
+                fill="none"
+                stroke={lineColor}
+                strokeWidth={2}
+                strokeDasharray={optional ? '6, 4' : undefined}
+                className="pointer-events-none"
+              />
+            );
+          })}
+          {isManyCardinality(ends.source) &&
+            renderCrowfoot(sourceX, sourceY, sourceAngle, true, sourcePosition)}
+          {isManyCardinality(ends.target) &&
+            renderCrowfoot(targetX, targetY, targetAngle, false, targetPosition)}
+        </>
+      )}
+      {notation === 'idef1x' && renderIdef1xEnds()}
+      {notation === 'uml' && ends && (
+        <>
+          {renderEndLabel(
+            sourceX,
+            sourceY,
+            sourceAngle,
+            getSDKCardinalityLabel(ends.source, 'uml')
+          )}
+          {renderEndLabel(
+            targetX,
+            targetY,
+            targetAngle,
+            getSDKCardinalityLabel(ends.target, 'uml')
+          )}
+        </>
+      )}
+      {notation === 'chen' && ends && (
+        <>
+          {renderChenDiamond()}
+          {renderEndLabel(
+            sourceX,
+            sourceY,
+            sourceAngle,
+            getSDKCardinalityLabel(ends.target, 'chen')
+          )}
+          {renderEndLabel(
+            targetX,
+            targetY,
+            targetAngle,
+            getSDKCardinalityLabel(ends.source, 'chen')
+          )}
+        </>
+      )}
+
+      {/* Relationship label (drawn inside the diamond in Chen notation) */}
+      {relationship?.label && notation === 'chen' && (
+        <text
+          x={labelX}
+          y={labelY}
+          className="text-xs fill-gray-700 pointer-events-none"
+          textAnchor="middle"
+          dominantBaseline="middle"
+          style={{ fontWeight: 500 }}
+        >
+          {relationship.label}
+        </text>
+      )}
+      {relationship?.label && notation !== 'chen' && (
         <g>
           {/* Label background */}
           <rect
@@ -1116,6 +1126,16 @@ export const CardinalityEdge: React.FC<EdgeProps<CardinalityEdgeData>> = ({
           </text>
         </g>
       )}
+
+      {/* Bend point and label handles for the selected edge */}
+      {selected && isEditable && (
+        <EdgeRouteHandles
+          points={points}
+          editor={routeEditor}
+          labelPosition={relationship?.label ? labelPoint : undefined}
+          color={lineColor === '#000000' ? undefined : lineColor}
+        />
+      )}
     </>
   );
 };
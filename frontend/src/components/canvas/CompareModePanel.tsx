@@ -0,0 +1,209 @@
+/**
+ * Compare Mode Panel Component
+ * Starts comparing the canvas with the workspace at a branch, tag or commit and, while a
+ * comparison is active, shows the legend and the list of changes. Clicking a change frames
+ * its node on the canvas, and "Migration SQL" opens the ALTER script from the ref's tables to
+ * the current ones. Must live inside ReactFlow.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useReactFlow } from 'reactflow';
+import { useShallow } from 'zustand/shallow';
+import { useModelStore } from '@/stores/modelStore';
+import { useCompareStore } from '@/stores/compareStore';
+import { useFocusStore } from '@/stores/focusStore';
+import { useGitStore } from '@/stores/gitStore';
+import { useGitHubRepoStore } from '@/stores/githubRepoStore';
+import { gitService } from '@/services/git/gitService';
+import { ChangeTreeView } from '@/components/git/SemanticDiffView';
+import { MigrationScriptDialog } from './MigrationScriptDialog';
+import { CHANGE_COLORS } from '@/utils/canvasDiff';
+import type { WorkspaceChange, WorkspaceChangeKind } from '@/utils/workspaceDiff';
+import type { CanvasComparison } from '@/hooks/useCanvasDiff';
+
+interface CompareModePanelProps {
+  comparison: CanvasComparison | null;
+}
+
+const LEGEND: Array<{ kind: WorkspaceChangeKind; label: string }> = [
+  { kind: 'added', label: 'Added' },
+  { kind: 'removed', label: 'Removed' },
+  { kind: 'modified', label: 'Modified' },
+];
+
+export const CompareModePanel: React.FC<CompareModePanelProps> = ({ comparison }) => {
+  const { fitView, getNode } = useReactFlow();
+  const currentView = useModelStore((state) => state.currentView);
+  const compare = useCompareStore();
+  const isFocusActive = useFocusStore((state) => state.focusTableId !== null);
+  const { branches, tags } = useGitStore(
+    useShallow((state) => ({ branches: state.branches, tags: state.tags }))
+  );
+  const repoWorkspace = useGitHubRepoStore((state) => state.workspace);
+  const [showMenu, setShowMenu] = useState(false);
+  const [ref, setRef] = useState('');
+  const [showMigration, setShowMigration] = useState(false);
+
+  // Branch and tag suggestions; in GitHub repo mode any ref can still be typed in
+  useEffect(() => {
+    if (!showMenu || repoWorkspace) return;
+    gitService.loadBranches();
+    gitService.loadTags();
+  }, [showMenu, repoWorkspace]);
+
+  const suggestions = repoWorkspace
+    ? Array.from(new Set([repoWorkspace.defaultBranch, repoWorkspace.branch]))
+    : [...branches.map((b) => b.name), ...tags.map((t) => t.name)];
+
+  const start = () => {
+    const trimmed = ref.trim();
+    if (!trimmed) return;
+    setShowMenu(false);
+    compare.startCompare(trimmed);
+  };
+
+  const showChange = useCallback(
+    (change: WorkspaceChange) => {
+      const nodeId = change.resourceType === 'column' ? change.tableId : change.id;
+      if (nodeId && getNode(nodeId)) {
+        fitView({ nodes: [{ id: nodeId }], duration: 300, padding: 0.5, maxZoom: 1.5 });
+      }
+    },
+    [fitView, getNode]
+  );
+
+  if (!compare.ref) {
+    return (
+      <>
+        <div
+          className={`absolute top-4 z-10 ${currentView === 'systems' ? 'right-40' : 'right-64'}`}
+        >
+          <div className="relative">
+            <button
+              onClick={() => setShowMenu(!showMenu)}
+              className="p-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+              title="Compare with a branch, tag or commit"
+            >
+              <svg
+                className="w-5 h-5 text-gray-600"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                />
+              </svg>
+            </button>
+
+            {showMenu && (
+              <div className="absolute right-0 mt-1 w-64 p-3 bg-white border border-gray-200 rounded-lg shadow-lg space-y-2">
+                <label htmlFor="compare-ref" className="block text-xs font-medium text-gray-700">
+                  Compare with
+                </label>
+                <input
+                  id="compare-ref"
+                  type="text"
+                  list="compare-ref-suggestions"
+                  value={ref}
+                  onChange={(e) => setRef(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && start()}
+                  placeholder="Branch, tag or commit"
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                />
+                <datalist id="compare-ref-suggestions">
+                  {suggestions.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+                <button
+                  onClick={start}
+                  disabled={!ref.trim()}
+                  className="w-full px-3 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Compare
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Close menu when clicking outside */}
+        {/* eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions -- Menu backdrop */}
+        {showMenu && <div className="fixed inset-0 z-0" onClick={() => setShowMenu(false)} />}
+      </>
+    );
+  }
+
+  return (
+    <div
+      className={`absolute top-4 z-10 w-80 max-h-[calc(100%-2rem)] flex flex-col bg-white border border-amber-200 rounded-lg shadow-lg text-sm ${
+        isFocusActive ? 'left-80' : 'left-4'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-2 bg-amber-50 rounded-t-lg">
+        <div className="min-w-0">
+          <div className="text-xs text-amber-700">Compared with</div>
+          <div className="font-semibold text-gray-900 font-mono truncate">{compare.ref}</div>
+        </div>
+        <div className="flex flex-shrink-0 gap-1">
+          <button
+            onClick={() => setShowMigration(true)}
+            disabled={!comparison}
+            className="px-2 py-1 text-xs text-amber-700 border border-amber-300 rounded hover:bg-amber-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="ALTER script from the tables at this ref to the current ones"
+          >
+            Migration SQL
+          </button>
+          <button
+            onClick={compare.clearCompare}
+            className="px-2 py-1 text-xs text-amber-700 border border-amber-300 rounded hover:bg-amber-100"
+          >
+            Exit compare
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-3 px-3 py-1.5 border-b border-gray-100">
+        {LEGEND.map(({ kind, label }) => (
+          <span key={kind} className="flex items-center gap-1 text-xs text-gray-600">
+            <span
+              className="w-3 h-3 rounded-sm border-2"
+              style={{
+                borderColor: CHANGE_COLORS[kind],
+                borderStyle: kind === 'removed' ? 'dashed' : 'solid',
+              }}
+            />
+            {label}
+          </span>
+        ))}
+      </div>
+
+      {compare.isLoading ? (
+        <div className="p-4 text-center text-sm text-gray-500">Loading {compare.ref}...</div>
+      ) : compare.error ? (
+        <div className="p-4 text-sm text-red-600">{compare.error}</div>
+      ) : comparison && comparison.changes.length > 0 ? (
+        <ChangeTreeView
+          changes={comparison.changes}
+          onSelect={showChange}
+          className="flex-1 min-h-0"
+        />
+      ) : (
+        <div className="p-4 text-center text-sm text-gray-500">No model changes</div>
+      )}
+
+      {comparison && (
+        <MigrationScriptDialog
+          fromRef={compare.ref}
+          baselineTables={comparison.baseline.tables}
+          isOpen={showMigration}
+          onClose={() => setShowMigration(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -38,12 +38,35 @@ import { SystemExportDialog } from '@/components/system/SystemExportDialog';
 import { ComputeAssetEditor } from '@/components/asset/ComputeAssetEditor';
 import { MetricViewEditor } from '@/components/asset/MetricViewEditor';
 import { RelationshipEditor } from '@/components/relationship/RelationshipEditor';
+import { ImpactAnalysisDialog } from '@/components/impact/ImpactAnalysisDialog';
 import { EditorModal } from '@/components/editors/EditorModal';
 import { CanvasExport } from './CanvasExport';
+import { AutoLayoutMenu } from './AutoLayoutMenu';
+import { CanvasFocusHandler } from './CanvasFocusHandler';
+import { AnnotationMenu } from './AnnotationMenu';
+import { SubjectAreaNode, type SubjectAreaNodeData } from './SubjectAreaNode';
+import { StickyNoteNode } from './StickyNoteNode';
+import { useCanvasAnnotations } from '@/hooks/useCanvasAnnotations';
+import { ANNOTATION_NODE_TYPES, getFrameMembers, isInsideFrame } from '@/utils/canvasAnnotations';
+import { FocusModePanel } from './FocusModePanel';
+import { CompareModePanel } from './CompareModePanel';
+import { NotationMenu } from './NotationMenu';
+import { InferRelationshipsDialog } from '@/components/relationship/InferRelationshipsDialog';
+import { GenerateDataVaultDialog } from '@/components/table/GenerateDataVaultDialog';
+import { BusMatrixDialog } from '@/components/views/BusMatrixDialog';
+import { useNeighborhoodFocus } from '@/hooks/useNeighborhoodFocus';
+import { useFocusStore } from '@/stores/focusStore';
+import { useCanvasDiff } from '@/hooks/useCanvasDiff';
+import { useCompareStore } from '@/stores/compareStore';
+import { CHANGE_COLORS } from '@/utils/canvasDiff';
+import { useCanvasRenderStore } from '@/stores/canvasRenderStore';
 import { useUIStore } from '@/stores/uiStore';
+import { useHistoryStore } from '@/stores/historyStore';
 import { bpmnService } from '@/services/sdk/bpmnService';
 import { dmnService } from '@/services/sdk/dmnService';
 import { isViewerMode } from '@/services/viewerMode';
+import type { TransformationLink } from '@/types/bpmn';
+import type { VisualMetadata } from '@/types/relationship';
 
 export interface DomainCanvasProps {
   workspaceId: string;
@@ -56,6 +79,8 @@ const nodeTypes: NodeTypes = {
   system: SystemNode,
   'compute-asset': ComputeAssetNode,
   'metric-view': MetricViewNode,
+  'subject-area': SubjectAreaNode,
+  'sticky-note': StickyNoteNode,
 };
 
 const edgeTypes: EdgeTypes = {
@@ -82,14 +107,16 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     openTableEditor,
     currentView,
     getFilteredTables,
-    updateSystem,
     removeSystem,
     removeComputeAsset,
     removeMetricView,
     removeTable,
     updateBPMNProcess,
     updateDMNDecision,
+    updateDomain,
+    transaction,
   } = useModelStore();
+  const historyRevision = useHistoryStore((state) => state.revision);
   const { addToast } = useUIStore();
 
   // Use canvas hook for interaction handlers
@@ -99,6 +126,8 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     onEdgeClick,
     onConnect,
   } = useCanvas(workspaceId, domainId);
+  const { updateFrame, updateNote, removeFrame, removeNote, moveFrame } =
+    useCanvasAnnotations(domainId);
 
   // State for table metadata modal
   const [selectedTableForMetadata, setSelectedTableForMetadata] = React.useState<
@@ -124,6 +153,10 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
   // State for relationship editor
   const [editingRelationshipId, setEditingRelationshipId] = React.useState<string | null>(null);
   const [showRelationshipEditor, setShowRelationshipEditor] = React.useState(false);
+  const [showInferRelationshipsDialog, setShowInferRelationshipsDialog] = React.useState(false);
+  // Table IDs selected on the canvas when the Data Vault dialog was opened
+  const [dataVaultTableIds, setDataVaultTableIds] = React.useState<string[] | null>(null);
+  const [showBusMatrixDialog, setShowBusMatrixDialog] = React.useState(false);
 
   // State for BPMN/DMN editors
   const [showBPMNEditor, setShowBPMNEditor] = React.useState(false);
@@ -134,6 +167,13 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
   // State for system export dialog
   const [exportingSystemId, setExportingSystemId] = React.useState<string | null>(null);
 
+  // Table awaiting deletion in the impact analysis dialog
+  const [deletingTableId, setDeletingTableId] = React.useState<string | null>(null);
+  const tableDeletion = React.useMemo(
+    () => (deletingTableId ? { kind: 'remove-table' as const, tableId: deletingTableId } : null),
+    [deletingTableId]
+  );
+
   // Listen for edit-relationship event (double-click on edge)
   React.useEffect(() => {
     const handleEditRelationship = (event: CustomEvent<{ relationshipId: string }>) => {
@@ -166,24 +206,17 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     [setSelectedTable, openTableEditor]
   );
 
-  // Handle table delete
-  const handleTableDelete = React.useCallback(
-    (tableId: string) => {
-      const table = tables.find((t) => t.id === tableId);
-      if (!table) return;
+  // Handle table delete: the impact analysis dialog confirms and resolves dependents
+  const handleTableDelete = React.useCallback((tableId: string) => {
+    setDeletingTableId(tableId);
+  }, []);
 
-      if (confirm(`Are you sure you want to delete the table "${table.name}"?`)) {
-        removeTable(tableId);
-        // Remove from system if it's in one
-        const system = systems.find((s) => s.table_ids?.includes(tableId));
-        if (system) {
-          const updatedTableIds = system.table_ids?.filter((id) => id !== tableId) || [];
-          updateSystem(system.id, { table_ids: updatedTableIds });
-        }
-      }
-    },
-    [tables, systems, removeTable, updateSystem]
-  );
+  // Called by the dialog inside its transaction, after it resolved the dependents (including
+  // system membership), so that one undo restores the table and its dependents
+  const handleConfirmTableDelete = React.useCallback(() => {
+    if (deletingTableId) removeTable(deletingTableId);
+    setDeletingTableId(null);
+  }, [deletingTableId, removeTable]);
 
   // Handle table export
   const handleTableExport = React.useCallback(
@@ -400,6 +433,17 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     [computeAssets, bpmnProcesses]
   );
 
+  // Open BPMN/DMN editors directly (used by search jump-to)
+  const handleOpenBPMN = React.useCallback((processId: string) => {
+    setEditingBPMNProcessId(processId);
+    setShowBPMNEditor(true);
+  }, []);
+
+  const handleOpenDMN = React.useCallback((decisionId: string) => {
+    setEditingDMNDecisionId(decisionId);
+    setShowDMNEditor(true);
+  }, []);
+
   // Handle DMN click on compute asset
   const handleAssetDMNClick = React.useCallback(
     (assetId: string) => {
@@ -445,6 +489,9 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
             useModelStore.getState().setCurrentView('process');
           }
         }
+      } else if (node.type === 'subject-area' || node.type === 'sticky-note') {
+        // Annotations are edited in place
+        return;
       } else if (node.type === 'compute-asset') {
         // Don't do anything on click for compute assets - edit/delete/export handled by buttons
         // Just prevent it from routing to table editor
@@ -502,23 +549,12 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     const allTables = tables;
     let filtered = getFilteredTables();
 
+    // Counts only: listing every table here stalls the canvas on large workspaces
     console.log(`[DomainCanvas] Filtering tables for domain ${domainId}:`, {
       totalTables: allTables.length,
       filteredCount: filtered.length,
       currentView,
       selectedSystemId,
-      tables: allTables.map((t) => ({
-        id: t.id,
-        name: t.name,
-        primary_domain_id: t.primary_domain_id,
-        visible_domains: t.visible_domains,
-      })),
-      filtered: filtered.map((t) => ({
-        id: t.id,
-        name: t.name,
-        primary_domain_id: t.primary_domain_id,
-        visible_domains: t.visible_domains,
-      })),
     });
 
     // If a system is selected, filter tables by system
@@ -669,7 +705,7 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
   }, [relationships, domainId]);
 
   // Convert systems and tables to ReactFlow nodes
-  const initialNodes: Node[] = useMemo(() => {
+  const modelNodes: Node[] = useMemo(() => {
     const nodes: Node[] = [];
 
     // Get domain to access view_positions
@@ -841,9 +877,10 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
       tableMap.set(table.id, table);
     });
     const allVisibleTables = Array.from(tableMap.values());
+    const sharedTableIds = new Set(sharedResources.tables.map((t) => t.id));
     const tableNodes = allVisibleTables.map((table, index) => {
       const isOwnedByDomain = table.primary_domain_id === domainId;
-      const isShared = sharedResources.tables.some((t) => t.id === table.id);
+      const isShared = sharedTableIds.has(table.id);
 
       // Use view-specific position if available, then fallback to table.position_x/y, then default
       const defaultX = 100 + (index % 4) * 300;
@@ -971,12 +1008,91 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     tableHasBPMN,
   ]);
 
-  // Get transformation links from BPMN processes
+  // Subject-area frames and sticky notes for the current view
+  const viewAnnotations = useMemo(
+    () => domains.find((d) => d.id === domainId)?.view_annotations?.[currentView],
+    [domains, domainId, currentView]
+  );
+
+  // Model nodes plus annotation nodes; nodes inside collapsed frames are hidden
+  const initialNodes: Node[] = useMemo(() => {
+    const frames = viewAnnotations?.frames ?? [];
+    const notes = viewAnnotations?.notes ?? [];
+    if (frames.length === 0 && notes.length === 0) return modelNodes;
+
+    const readOnly = isViewerMode();
+    const collapsedFrames = frames.filter((f) => f.collapsed);
+
+    const frameNodes: Node[] = frames.map((frame) => ({
+      id: frame.id,
+      type: 'subject-area',
+      position: { x: frame.x, y: frame.y },
+      style: frame.collapsed ? undefined : { width: frame.width, height: frame.height },
+      zIndex: -1, // Behind the nodes it groups
+      draggable: !readOnly,
+      data: {
+        frame,
+        memberCount: getFrameMembers(frame, modelNodes).length,
+        readOnly,
+        onUpdate: updateFrame,
+        onDelete: removeFrame,
+      },
+    }));
+    const noteNodes: Node[] = notes.map((note) => ({
+      id: note.id,
+      type: 'sticky-note',
+      position: { x: note.x, y: note.y },
+      style: { width: note.width, height: note.height },
+      draggable: !readOnly,
+      data: { note, readOnly, onUpdate: updateNote, onDelete: removeNote },
+    }));
+
+    return [
+      ...frameNodes,
+      ...modelNodes.map((node) =>
+        collapsedFrames.some((frame) => isInsideFrame(frame, node.position))
+          ? { ...node, hidden: true }
+          : node
+      ),
+      ...noteNodes,
+    ];
+  }, [modelNodes, viewAnnotations, updateFrame, removeFrame, updateNote, removeNote]);
+
+  // Get transformation links from BPMN processes and the domain. Links saved on the domain
+  // carry the edge routes, so their visual_metadata wins.
   const transformationLinks = useMemo(() => {
-    return bpmnProcesses
+    const domainLinks = domains.find((d) => d.id === domainId)?.transformation_links ?? [];
+    const processLinks = bpmnProcesses
       .filter((p) => p.domain_id === domainId && p.transformation_links)
       .flatMap((p) => p.transformation_links || []);
-  }, [bpmnProcesses, domainId]);
+    const processLinkIds = new Set(processLinks.map((link) => link.id));
+    return [
+      ...processLinks.map((link) => {
+        const saved = domainLinks.find((l) => l.id === link.id);
+        return saved?.visual_metadata ? { ...link, visual_metadata: saved.visual_metadata } : link;
+      }),
+      ...domainLinks.filter((link) => !processLinkIds.has(link.id)),
+    ];
+  }, [bpmnProcesses, domains, domainId]);
+
+  // Save a transformation edge's bend points and label position on the domain
+  const handleTransformationRouteChange = React.useCallback(
+    (link: TransformationLink, visual: VisualMetadata | undefined) => {
+      const domain = useModelStore.getState().domains.find((d) => d.id === domainId);
+      if (!domain) return;
+      const existing = domain.transformation_links ?? [];
+      const { visual_metadata: _previous, ...rest } =
+        existing.find((l) => l.id === link.id) ?? link;
+      const updated = { ...rest, ...(visual && { visual_metadata: visual }) };
+      const transformationLinksUpdate = existing.some((l) => l.id === link.id)
+        ? existing.map((l) => (l.id === link.id ? updated : l))
+        : [...existing, updated];
+      transaction('Edit transformation route', () =>
+        updateDomain(domainId, { transformation_links: transformationLinksUpdate })
+      );
+    },
+    [domainId, transaction, updateDomain]
+  );
 
   // Create a hash of relationship data to detect property changes (color, type, cardinality, etc.)
   const relationshipDataHash = useMemo(() => {
@@ -992,12 +1108,18 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
   const initialEdges: Edge[] = useMemo(() => {
     console.log('[DomainCanvas] Computing initialEdges from relationships:', {
       relationshipCount: domainRelationships.length,
-      relationshipIds: domainRelationships.map((r) => r.id),
-      duplicateRelIds: domainRelationships
-        .map((r) => r.id)
-        .filter((id, index, arr) => arr.indexOf(id) !== index),
     });
 
+    // ID lookups; scanning the arrays per relationship is quadratic on large workspaces
+    const visibleTableIds = new Set(visibleTables.map((t) => t.id));
+    const domainSystemIds = new Set(domainSystems.map((s) => s.id));
+    const domainAssetIds = new Set(domainComputeAssets.map((a) => a.id));
+    const sharedResourceIds = new Set([
+      ...sharedResources.tables.map((t) => t.id),
+      ...sharedResources.systems.map((s) => s.id),
+      ...sharedResources.assets.map((a) => a.id),
+    ]);
+
     const relationshipEdges = domainRelationships
       .filter((rel) => {
         // Get source and target IDs (support both new format and legacy format)
@@ -1009,21 +1131,21 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
         // Check if source is visible
         let sourceVisible = false;
         if (sourceType === 'table') {
-          sourceVisible = visibleTables.some((t) => t.id === sourceId);
+          sourceVisible = visibleTableIds.has(sourceId);
         } else if (sourceType === 'system') {
-          sourceVisible = domainSystems.some((s) => s.id === sourceId);
+          sourceVisible = domainSystemIds.has(sourceId);
         } else if (sourceType === 'compute-asset') {
-          sourceVisible = domainComputeAssets.some((a) => a.id === sourceId);
+          sourceVisible = domainAssetIds.has(sourceId);
         }
 
         // Check if target is visible
         let targetVisible = false;
         if (targetType === 'table') {
-          targetVisible = visibleTables.some((t) => t.id === targetId);
+          targetVisible = visibleTableIds.has(targetId);
         } else if (targetType === 'system') {
-          targetVisible = domainSystems.some((s) => s.id === targetId);
+          targetVisible = domainSystemIds.has(targetId);
         } else if (targetType === 'compute-asset') {
-          targetVisible = domainComputeAssets.some((a) => a.id === targetId);
+          targetVisible = domainAssetIds.has(targetId);
         }
 
         return sourceVisible && targetVisible;
@@ -1038,15 +1160,7 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
           relationship.target_type || (relationship.target_table_id ? 'table' : 'table');
 
         // Check if this is a cross-domain relationship (either source or target is a shared resource)
-        const isSourceShared =
-          sharedResources.tables.some((t) => t.id === sourceId) ||
-          sharedResources.systems.some((s) => s.id === sourceId) ||
-          sharedResources.assets.some((a) => a.id === sourceId);
-        const isTargetShared =
-          sharedResources.tables.some((t) => t.id === targetId) ||
-          sharedResources.systems.some((s) => s.id === targetId) ||
-          sharedResources.assets.some((a) => a.id === targetId);
-        const isCrossDomain = isSourceShared || isTargetShared;
+        const isCrossDomain = sharedResourceIds.has(sourceId) || sharedResourceIds.has(targetId);
 
         // Use Crow's Foot notation (cardinality edge) only for table-to-table relationships
         // in Operational and Analytical views
@@ -1080,16 +1194,22 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
       currentView === 'process'
         ? transformationLinks
             .filter((link) => {
-              const sourceVisible = visibleTables.some((t) => t.id === link.source_table_id);
-              const targetVisible = visibleTables.some((t) => t.id === link.target_table_id);
-              return sourceVisible && targetVisible;
+              return (
+                visibleTableIds.has(link.source_table_id) &&
+                visibleTableIds.has(link.target_table_id)
+              );
             })
             .map((link) => ({
               id: `transformation-${link.id}`,
               type: 'transformation',
               source: link.source_table_id,
               target: link.target_table_id,
-              data: { transformationLink: link },
+              data: {
+                transformationLink: link,
+                onVisualMetadataChange: isViewerMode()
+                  ? undefined
+                  : handleTransformationRouteChange,
+              },
               selected: false,
             }))
         : [];
@@ -1105,6 +1225,7 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     transformationLinks,
     currentView,
     sharedResources,
+    handleTransformationRouteChange,
   ]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
@@ -1118,6 +1239,8 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     metricViewIds: string[];
     currentView: ViewMode;
     tableDataHash?: string;
+    annotationsHash?: string;
+    historyRevision: number;
   }
 
   const prevDataRef = React.useRef<PrevDataRef>({
@@ -1126,6 +1249,7 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     systemIds: [],
     metricViewIds: [],
     currentView: 'systems',
+    historyRevision: 0,
   });
 
   // Update nodes when items are added/removed OR when table data changes (e.g., columns)
@@ -1150,6 +1274,7 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     const prevMetricViewIds = prevDataRef.current.metricViewIds;
     const prevView = prevDataRef.current.currentView;
     const prevTableDataHash = prevDataRef.current.tableDataHash || '';
+    const currentAnnotationsHash = JSON.stringify(viewAnnotations ?? null);
 
     // Check if data actually changed (items added/removed) or view changed
     const tablesChanged =
@@ -1166,6 +1291,9 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
       currentMetricViewIds.some((id, idx) => id !== prevMetricViewIds[idx]);
     const viewChanged = currentView !== prevView;
     const tableDataChanged = currentTableDataHash !== prevTableDataHash;
+    const historyChanged = historyRevision !== prevDataRef.current.historyRevision;
+    const annotationsChanged =
+      currentAnnotationsHash !== (prevDataRef.current.annotationsHash ?? 'null');
 
     if (
       tablesChanged ||
@@ -1173,12 +1301,15 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
       systemsChanged ||
       metricViewsChanged ||
       viewChanged ||
-      tableDataChanged
+      tableDataChanged ||
+      historyChanged ||
+      annotationsChanged
     ) {
       setNodes((currentNodes) => {
         // When VIEW changes, use initialNodes positions directly (from viewPositions[currentView])
         // This ensures each view loads its own saved positions, not the previous view's positions
-        if (viewChanged) {
+        // Undo/redo also restores stored positions (e.g., reverting a node move)
+        if (viewChanged || historyChanged) {
           return initialNodes;
         }
 
@@ -1187,6 +1318,10 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
         const positionMap = new Map(currentNodes.map((n) => [n.id, n.position]));
         return initialNodes.map((node) => {
           const existingPosition = positionMap.get(node.id);
+          // Annotation positions always come from the store (saved on drag/resize end)
+          if (node.type === 'subject-area' || node.type === 'sticky-note') {
+            return node;
+          }
           // Use existing position if available (preserves user drags), otherwise use initial position
           return {
             ...node,
@@ -1202,6 +1337,8 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
         metricViewIds: currentMetricViewIds,
         currentView,
         tableDataHash: currentTableDataHash,
+        annotationsHash: currentAnnotationsHash,
+        historyRevision,
       };
     }
     // Note: We don't update positions from store when data hasn't changed
@@ -1215,8 +1352,74 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     currentView,
     initialNodes,
     setNodes,
+    historyRevision,
+    viewAnnotations,
   ]);
 
+  // Dragging a subject-area frame carries the nodes inside it
+  const frameDragRef = React.useRef<{
+    frameId: string;
+    start: { x: number; y: number };
+    members: Map<string, { x: number; y: number }>;
+  } | null>(null);
+
+  const onNodeDragStart = React.useCallback(
+    (_event: React.MouseEvent, node: Node) => {
+      if (node.type !== 'subject-area') return;
+      const { frame } = node.data as SubjectAreaNodeData;
+      const memberIds = new Set(
+        getFrameMembers({ ...frame, x: node.position.x, y: node.position.y }, nodes)
+      );
+      frameDragRef.current = {
+        frameId: node.id,
+        start: { ...node.position },
+        members: new Map(
+          nodes.filter((n) => memberIds.has(n.id)).map((n) => [n.id, { ...n.position }])
+        ),
+      };
+    },
+    [nodes]
+  );
+
+  const onNodeDrag = React.useCallback(
+    (_event: React.MouseEvent, node: Node) => {
+      const drag = frameDragRef.current;
+      if (!drag || drag.frameId !== node.id || drag.members.size === 0) return;
+      const dx = node.position.x - drag.start.x;
+      const dy = node.position.y - drag.start.y;
+      setNodes((current) =>
+        current.map((n) => {
+          const start = drag.members.get(n.id);
+          return start ? { ...n, position: { x: start.x + dx, y: start.y + dy } } : n;
+        })
+      );
+    },
+    [setNodes]
+  );
+
+  const handleNodeDragStop = React.useCallback(
+    (event: React.MouseEvent, node: Node) => {
+      if (node.type === 'subject-area') {
+        const drag = frameDragRef.current;
+        frameDragRef.current = null;
+        const dx = node.position.x - (drag?.start.x ?? node.position.x);
+        const dy = node.position.y - (drag?.start.y ?? node.position.y);
+        const memberPositions: Record<string, { x: number; y: number }> = {};
+        drag?.members.forEach((start, id) => {
+          memberPositions[id] = { x: start.x + dx, y: start.y + dy };
+        });
+        moveFrame(node.id, node.position, memberPositions);
+        return;
+      }
+      if (node.type === 'sticky-note') {
+        updateNote(node.id, { x: Math.round(node.position.x), y: Math.round(node.position.y) });
+        return;
+      }
+      onNodeDragStop(event, node);
+    },
+    [moveFrame, updateNote, onNodeDragStop]
+  );
+
   useEffect(() => {
     console.log('[DomainCanvas] Updating edges:', {
       edgeCount: initialEdges.length,
@@ -1228,6 +1431,129 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
     setEdges(initialEdges);
   }, [initialEdges, setEdges]);
 
+  // Neighborhood focus: dim or hide everything outside the focused table's neighborhood
+  const neighborhood = useNeighborhoodFocus();
+  const focusDisplayMode = useFocusStore((state) => state.displayMode);
+  const clearFocus = useFocusStore((state) => state.clearFocus);
+  // Off-screen nodes and edges are only rendered while an export captures the canvas
+  const fullRender = useCanvasRenderStore((state) => state.fullRender);
+
+  useEffect(() => {
+    clearFocus();
+  }, [domainId, currentView, clearFocus]);
+
+  // Compare mode: color what changed since the compared version and draw removed tables
+  // and relationships as ghosts
+  const comparison = useCanvasDiff();
+  const clearCompare = useCompareStore((state) => state.clearCompare);
+
+  useEffect(() => clearCompare, [workspaceId, clearCompare]);
+
+  const compareNodes = useMemo(() => {
+    if (!comparison) return nodes;
+    const { diff } = comparison;
+    const marked = nodes.map((node) => {
+      if (node.type === 'table') {
+        const mark = diff.tables.get(node.id);
+        return mark ? { ...node, data: { ...node.data, diff: mark } } : node;
+      }
+      const kind = diff.resources.get(node.id);
+      return kind
+        ? {
+            ...node,
+            style: { ...node.style, outline: `2px solid ${CHANGE_COLORS[kind]}`, outlineOffset: 2 },
+          }
+        : node;
+    });
+    if (currentView === 'systems') return marked;
+
+    const onCanvas = new Set(nodes.map((n) => n.id));
+    const viewPositions =
+      comparison.baseline.domains?.find((d) => d.id === domainId)?.view_positions?.[currentView] ??
+      {};
+    const ghosts: Node[] = diff.removedTables
+      .filter((table) => table.primary_domain_id === domainId && !onCanvas.has(table.id))
+      .map((table, index) => {
+        const viewPos = viewPositions[table.id];
+        return {
+          id: table.id,
+          type: 'table',
+          position: {
+            x: viewPos?.x ?? table.position_x ?? 100 + (index % 4) * 300,
+            y: viewPos?.y ?? table.position_y ?? 100 + Math.floor(index / 4) * 200,
+          },
+          draggable: false,
+          selectable: false,
+          connectable: false,
+          className: 'pointer-events-none',
+          data: {
+            table,
+            nodeType: 'table',
+            isOwnedByDomain: true,
+            modelType: currentView === 'process' ? 'logical' : 'physical',
+            expandColumns: currentView === 'analytical' || currentView === 'operational',
+            diff: diff.tables.get(table.id),
+            isGhost: true,
+          },
+        };
+      });
+    return [...marked, ...ghosts];
+  }, [nodes, comparison, currentView, domainId]);
+
+  const compareEdges = useMemo(() => {
+    if (!comparison) return edges;
+    const { diff } = comparison;
+    const marked = edges.map((edge) => {
+      const kind = diff.resources.get(edge.id);
+      return kind
+        ? {
+            ...edge,
+            data: { ...edge.data, diffKind: kind },
+            style: { ...edge.style, stroke: CHANGE_COLORS[kind] },
+          }
+        : edge;
+    });
+    const onCanvas = new Set(compareNodes.map((n) => n.id));
+    const ghosts: Edge[] = diff.removedRelationships
+      .filter(
+        (rel) =>
+          onCanvas.has(rel.source_id || rel.source_table_id || '') &&
+          onCanvas.has(rel.target_id || rel.target_table_id || '')
+      )
+      .map((rel) => ({
+        id: `removed-${rel.id}`,
+        source: rel.source_id || rel.source_table_id || '',
+        target: rel.target_id || rel.target_table_id || '',
+        selectable: false,
+        focusable: false,
+        className: 'pointer-events-none',
+        style: { stroke: CHANGE_COLORS.removed, strokeWidth: 2, strokeDasharray: '5, 5' },
+      }));
+    return [...marked, ...ghosts];
+  }, [edges, compareNodes, comparison]);
+
+  const displayNodes = useMemo(() => {
+    if (!neighborhood) return compareNodes;
+    return compareNodes.map((node) => {
+      if (ANNOTATION_NODE_TYPES.includes(node.type ?? '') || neighborhood.distances.has(node.id)) {
+        return node;
+      }
+      return focusDisplayMode === 'hide'
+        ? { ...node, hidden: true }
+        : { ...node, style: { ...node.style, opacity: 0.15 } };
+    });
+  }, [compareNodes, neighborhood, focusDisplayMode]);
+
+  const displayEdges = useMemo(() => {
+    if (!neighborhood) return compareEdges;
+    return compareEdges.map((edge) => {
+      if (neighborhood.linkIds.has(edge.id)) return edge;
+      return focusDisplayMode === 'hide'
+        ? { ...edge, hidden: true }
+        : { ...edge, style: { ...edge.style, opacity: 0.15 } };
+    });
+  }, [compareEdges, neighborhood, focusDisplayMode]);
+
   // For Products view, show product-specific visualization (not ReactFlow)
   if (currentView === 'products') {
     return (
@@ -1241,14 +1567,16 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
   return (
     <div className="w-full h-full relative" data-testid="domain-canvas">
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayNodes}
+        edges={displayEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onNodeClick={onNodeClick}
         onEdgeClick={onEdgeClick}
         onConnect={isViewerMode() ? undefined : onConnect}
-        onNodeDragStop={isViewerMode() ? undefined : onNodeDragStop}
+        onNodeDragStart={isViewerMode() ? undefined : onNodeDragStart}
+        onNodeDrag={isViewerMode() ? undefined : onNodeDrag}
+        onNodeDragStop={isViewerMode() ? undefined : handleNodeDragStop}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
         nodesDraggable={!isViewerMode()}
@@ -1260,11 +1588,21 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
         edgesFocusable={true}
         minZoom={0.1}
         maxZoom={4}
+        onlyRenderVisibleElements={!fullRender}
       >
         <Background />
         <Controls />
         <MiniMap />
-        <CanvasExport filenamePrefix={`${currentView}-view`} />
+        <CanvasExport
+          filenamePrefix={`${currentView}-view`}
+          title={`${domains.find((d) => d.id === domainId)?.name ?? 'Domain'} – ${currentView} view`}
+        />
+        {!isViewerMode() && <AutoLayoutMenu domainId={domainId} />}
+        {!isViewerMode() && <AnnotationMenu domainId={domainId} />}
+        {currentView !== 'systems' && <FocusModePanel neighborhood={neighborhood} />}
+        {currentView !== 'systems' && <NotationMenu />}
+        <CompareModePanel comparison={comparison} />
+        <CanvasFocusHandler onOpenBPMN={handleOpenBPMN} onOpenDMN={handleOpenDMN} />
       </ReactFlow>
 
       {/* Create/Import System button - only in Systems view */}
@@ -1301,6 +1639,82 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
           currentView === 'analytical') && (
           <>
             <TableViewActions workspaceId={workspaceId} domainId={domainId} />
+            {/* Infer relationships - left of the create/import table button */}
+            {currentView !== 'process' && (
+              <div className="absolute top-16 right-16 z-10">
+                <button
+                  onClick={() => setShowInferRelationshipsDialog(true)}
+                  className="p-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+                  title="Infer relationships from column names and types"
+                >
+                  <svg
+                    className="w-5 h-5 text-gray-600"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
+                    />
+                  </svg>
+                </button>
+              </div>
+            )}
+            {/* Generate Data Vault from the selected tables - left of infer relationships */}
+            {currentView !== 'process' && (
+              <div className="absolute top-16 right-28 z-10">
+                <button
+                  onClick={() =>
+                    setDataVaultTableIds(
+                      nodes.filter((n) => n.selected && n.type === 'table').map((n) => n.id)
+                    )
+                  }
+                  className="p-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+                  title="Generate Data Vault (hubs, links, satellites) from the selected tables"
+                >
+                  <svg
+                    className="w-5 h-5 text-gray-600"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4"
+                    />
+                  </svg>
+                </button>
+              </div>
+            )}
+            {/* Bus matrix of the domain's facts - left of generate Data Vault */}
+            {currentView === 'analytical' && (
+              <div className="absolute top-16 right-40 z-10">
+                <button
+                  onClick={() => setShowBusMatrixDialog(true)}
+                  className="p-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+                  title="Bus matrix (facts × conformed dimensions)"
+                >
+                  <svg
+                    className="w-5 h-5 text-gray-600"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 10h18M3 14h18M10 3v18M14 3v18M5 21h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v14a2 2 0 002 2z"
+                    />
+                  </svg>
+                </button>
+              </div>
+            )}
             {currentView === 'process' && <NodeViewActions domainId={domainId} />}
             {currentView === 'analytical' && <MetricViewActions domainId={domainId} />}
           </>
@@ -1316,6 +1730,14 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
         }}
       />
 
+      {/* Impact analysis before deleting a table */}
+      <ImpactAnalysisDialog
+        isOpen={deletingTableId !== null}
+        change={tableDeletion}
+        onCancel={() => setDeletingTableId(null)}
+        onProceed={handleConfirmTableDelete}
+      />
+
       {/* System Edit Dialog */}
       {!isViewerMode() && editingSystemId && (
         <CreateSystemDialog
@@ -1359,6 +1781,34 @@ export const DomainCanvas: React.FC<DomainCanvasProps> = ({ workspaceId, domainI
         />
       )}
 
+      {/* Infer Relationships Dialog */}
+      {showInferRelationshipsDialog && (
+        <InferRelationshipsDialog
+          domainId={domainId}
+          isOpen={showInferRelationshipsDialog}
+          onClose={() => setShowInferRelationshipsDialog(false)}
+        />
+      )}
+
+      {/* Generate Data Vault Dialog */}
+      {dataVaultTableIds && (
+        <GenerateDataVaultDialog
+          domainId={domainId}
+          initialTableIds={dataVaultTableIds}
+          isOpen={!!dataVaultTableIds}
+          onClose={() => setDataVaultTableIds(null)}
+        />
+      )}
+
+      {/* Bus Matrix Dialog */}
+      {showBusMatrixDialog && (
+        <BusMatrixDialog
+          domainId={domainId}
+          isOpen={showBusMatrixDialog}
+          onClose={() => setShowBusMatrixDialog(false)}
+        />
+      )}
+
       {/* Relationship Editor */}
       {!isViewerMode() && showRelationshipEditor && editingRelationshipId && (
         <RelationshipEditor
@@ -0,0 +1,98 @@
+/**
+ * Edge Route Handles Component
+ * Drag handles for a selected edge: square handles move bend points (double-click removes
+ * one), round handles on segment midpoints insert a new bend, and a grip moves the label.
+ * Rendered through EdgeLabelRenderer so the handles receive pointer events; the
+ * `edge-route-handle` class keeps them out of canvas exports.
+ */
+
+import React from 'react';
+import { EdgeLabelRenderer } from 'reactflow';
+import type { UseEditableEdgeRouteReturn } from '@/hooks/useEditableEdgeRoute';
+import { getBendPoints, type Point } from '@/utils/edgeRouting';
+
+export interface EdgeRouteHandlesProps {
+  points: Point[];
+  editor: UseEditableEdgeRouteReturn;
+  /** Label position; omit when the edge has no label */
+  labelPosition?: Point;
+  color?: string;
+}
+
+const handleStyle = (point: Point): React.CSSProperties => ({
+  position: 'absolute',
+  transform: `translate(-50%, -50%) translate(${point.x}px, ${point.y}px)`,
+  pointerEvents: 'all',
+});
+
+export const EdgeRouteHandles: React.FC<EdgeRouteHandlesProps> = ({
+  points,
+  editor,
+  labelPosition,
+  color = '#2563eb',
+}) => {
+  const bends = getBendPoints(points);
+  const hasCustomRoute = !!(editor.visual.waypoints?.length || editor.visual.label_position);
+
+  // Midpoints of the segments between bends. The first and last segments are the node
+  // stubs and are skipped unless the route has no interior segments at all.
+  const segmentMidpoints = points
+    .slice(0, -1)
+    .map((point, k) => {
+      const next = points[k + 1]!;
+      return { x: (point.x + next.x) / 2, y: (point.y + next.y) / 2, afterBend: k - 1 };
+    })
+    .filter((_, k, all) => all.length <= 2 || (k > 0 && k < all.length - 1));
+
+  return (
+    <EdgeLabelRenderer>
+      {bends.map((bend, index) => (
+        <div
+          key={`bend-${index}`}
+          className="edge-route-handle nodrag nopan w-2.5 h-2.5 bg-white border-2 cursor-move"
+          style={{ ...handleStyle(bend), borderColor: color }}
+          onPointerDown={(e) => editor.startBendDrag(e, bends, index)}
+          onDoubleClick={() => editor.removeBend(bends, index)}
+          role="button"
+          tabIndex={-1}
+          title="Drag to move bend point, double-click to remove"
+        />
+      ))}
+      {!editor.isDragging &&
+        segmentMidpoints.map((midpoint) => (
+          <div
+            key={`insert-${midpoint.afterBend}`}
+            className="edge-route-handle nodrag nopan w-2 h-2 rounded-full bg-white border cursor-copy opacity-70 hover:opacity-100"
+            style={{ ...handleStyle(midpoint), borderColor: color }}
+            onPointerDown={(e) => editor.startBendInsert(e, bends, midpoint.afterBend)}
+            role="button"
+            tabIndex={-1}
+            title="Drag to add a bend point"
+          />
+        ))}
+      {labelPosition && (
+        <div
+          className="edge-route-handle nodrag nopan w-3 h-3 rounded-sm border-2 bg-white/80 cursor-grab"
+          style={{
+            ...handleStyle({ x: labelPosition.x, y: labelPosition.y - 18 }),
+            borderColor: color,
+          }}
+          onPointerDown={editor.startLabelDrag}
+          role="button"
+          tabIndex={-1}
+          title="Drag to move label"
+        />
+      )}
+      {hasCustomRoute && !editor.isDragging && (
+        <button
+          className="edge-route-handle nodrag nopan px-1.5 py-0.5 text-[10px] text-gray-700 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50"
+          style={handleStyle({ x: points[0]!.x, y: points[0]!.y - 20 })}
+          onClick={editor.resetRoute}
+          title="Discard bend points and label position"
+        >
+          Reset route
+        </button>
+      )}
+    </EdgeLabelRenderer>
+  );
+};
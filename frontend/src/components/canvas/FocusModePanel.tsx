@@ -0,0 +1,262 @@
+/**
+ * Focus Mode Panel Component
+ * Starts neighborhood focus for a table and, while focus is active, shows the depth,
+ * direction, link kind and dim/hide controls plus the neighbors that are not on this
+ * canvas (other domains, metric views and data products). Must live inside ReactFlow.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useNodes, useReactFlow } from 'reactflow';
+import { useShallow } from 'zustand/shallow';
+import { useModelStore } from '@/stores/modelStore';
+import { useFocusStore, MAX_FOCUS_DEPTH } from '@/stores/focusStore';
+import {
+  NEIGHBORHOOD_LINK_KINDS,
+  type Neighborhood,
+  type NeighborhoodDirection,
+} from '@/utils/neighborhood';
+
+interface FocusModePanelProps {
+  neighborhood: Neighborhood | null;
+}
+
+const DIRECTIONS: Array<{ value: NeighborhoodDirection; label: string }> = [
+  { value: 'upstream', label: 'Upstream' },
+  { value: 'downstream', label: 'Downstream' },
+  { value: 'both', label: 'Both' },
+];
+
+export const FocusModePanel: React.FC<FocusModePanelProps> = ({ neighborhood }) => {
+  const nodes = useNodes();
+  const { fitView } = useReactFlow();
+  const { tables, metricViews, products, domains, selectedTableId } = useModelStore(
+    useShallow((state) => ({
+      tables: state.tables,
+      metricViews: state.metricViews,
+      products: state.products,
+      domains: state.domains,
+      selectedTableId: state.selectedTableId,
+    }))
+  );
+  const focus = useFocusStore();
+  const [showMenu, setShowMenu] = useState(false);
+  const [pickedTableId, setPickedTableId] = useState('');
+
+  // Tables that can be focused: the ones drawn on this canvas
+  const canvasTables = useMemo(() => {
+    const tableNodeIds = new Set(nodes.filter((n) => n.type === 'table').map((n) => n.id));
+    return tables
+      .filter((t) => tableNodeIds.has(t.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [nodes, tables]);
+
+  // Neighbors without a node on this canvas
+  const outsideNeighbors = useMemo(() => {
+    if (!neighborhood) return [];
+    const onCanvas = new Set(nodes.map((n) => n.id));
+    const domainName = (domainId?: string) => domains.find((d) => d.id === domainId)?.name;
+    const result: Array<{ id: string; name: string; kind: string; hops: number }> = [];
+    neighborhood.distances.forEach((hops, id) => {
+      if (onCanvas.has(id)) return;
+      const table = tables.find((t) => t.id === id);
+      if (table) {
+        const domain = domainName(table.primary_domain_id);
+        result.push({ id, name: table.name, kind: domain ? `Table · ${domain}` : 'Table', hops });
+        return;
+      }
+      const view = metricViews.find((v) => v.id === id);
+      if (view) {
+        result.push({ id, name: view.name, kind: 'Metric view', hops });
+        return;
+      }
+      const product = products.find((p) => p.id === id);
+      if (product) {
+        result.push({ id, name: product.name, kind: 'Data product', hops });
+      }
+    });
+    return result.sort((a, b) => a.hops - b.hops || a.name.localeCompare(b.name));
+  }, [neighborhood, nodes, tables, metricViews, products, domains]);
+
+  const focusTable = tables.find((t) => t.id === focus.focusTableId);
+
+  const start = (tableId: string) => {
+    setShowMenu(false);
+    focus.startFocus(tableId);
+    // Frame the neighborhood once the canvas has applied the focus
+    setTimeout(() => fitView({ duration: 300, padding: 0.2 }), 50);
+  };
+
+  if (!focus.focusTableId) {
+    const defaultTableId =
+      pickedTableId ||
+      (canvasTables.some((t) => t.id === selectedTableId) ? selectedTableId : '') ||
+      '';
+    return (
+      <>
+        <div className="absolute top-4 right-40 z-10">
+          <div className="relative">
+            <button
+              onClick={() => setShowMenu(!showMenu)}
+              className="p-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+              title="Focus on a table's neighborhood"
+            >
+              <svg
+                className="w-5 h-5 text-gray-600"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <circle cx="12" cy="12" r="3" strokeWidth={2} />
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 2v4m0 12v4M2 12h4m12 0h4"
+                />
+              </svg>
+            </button>
+
+            {showMenu && (
+              <div className="absolute right-0 mt-1 w-64 p-3 bg-white border border-gray-200 rounded-lg shadow-lg space-y-2">
+                <label className="block text-xs font-medium text-gray-700">
+                  Focus table
+                  <select
+                    value={defaultTableId ?? ''}
+                    onChange={(e) => setPickedTableId(e.target.value)}
+                    className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                  >
+                    <option value="">Select a table…</option>
+                    {canvasTables.map((table) => (
+                      <option key={table.id} value={table.id}>
+                        {table.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={() => defaultTableId && start(defaultTableId)}
+                  disabled={!defaultTableId}
+                  className="w-full px-3 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Focus
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Close menu when clicking outside */}
+        {/* eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions -- Menu backdrop */}
+        {showMenu && <div className="fixed inset-0 z-0" onClick={() => setShowMenu(false)} />}
+      </>
+    );
+  }
+
+  const neighborCount = neighborhood ? neighborhood.distances.size - 1 : 0;
+
+  return (
+    <div className="absolute top-4 left-4 z-10 w-72 bg-white border border-blue-200 rounded-lg shadow-lg text-sm">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 bg-blue-50 rounded-t-lg">
+        <div className="min-w-0">
+          <div className="text-xs text-blue-700">Focus</div>
+          <div className="font-semibold text-gray-900 truncate">
+            {focusTable?.name ?? 'Unknown table'}
+          </div>
+        </div>
+        <button
+          onClick={() => {
+            focus.clearFocus();
+            setTimeout(() => fitView({ duration: 300 }), 50);
+          }}
+          className="px-2 py-1 text-xs text-blue-700 border border-blue-300 rounded hover:bg-blue-100"
+        >
+          Exit focus
+        </button>
+      </div>
+
+      <div className="px-3 py-2 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-600">Depth</span>
+          <div className="flex gap-1">
+            {Array.from({ length: MAX_FOCUS_DEPTH }, (_, i) => i + 1).map((depth) => (
+              <button
+                key={depth}
+                onClick={() => focus.setDepth(depth)}
+                className={`w-7 py-0.5 text-xs rounded border ${
+                  focus.depth === depth
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {depth}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex rounded border border-gray-300 overflow-hidden">
+          {DIRECTIONS.map((direction) => (
+            <button
+              key={direction.value}
+              onClick={() => focus.setDirection(direction.value)}
+              className={`flex-1 py-1 text-xs ${
+                focus.direction === direction.value
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {direction.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {NEIGHBORHOOD_LINK_KINDS.map(({ kind, label }) => (
+            <button
+              key={kind}
+              onClick={() => focus.toggleKind(kind)}
+              className={`px-2 py-0.5 text-xs rounded-full border ${
+                focus.kinds.includes(kind)
+                  ? 'bg-blue-100 text-blue-800 border-blue-300'
+                  : 'text-gray-500 border-gray-300 line-through'
+              }`}
+              aria-pressed={focus.kinds.includes(kind)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-600">
+            {neighborCount} related item{neighborCount === 1 ? '' : 's'}
+          </span>
+          <label className="flex items-center gap-1 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={focus.displayMode === 'hide'}
+              onChange={(e) => focus.setDisplayMode(e.target.checked ? 'hide' : 'dim')}
+            />
+            Hide others
+          </label>
+        </div>
+
+        {outsideNeighbors.length > 0 && (
+          <div className="pt-2 border-t border-gray-100">
+            <div className="text-xs font-medium text-gray-700 mb-1">Not on this canvas</div>
+            <ul className="max-h-40 overflow-y-auto space-y-0.5">
+              {outsideNeighbors.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate text-gray-900">{item.name}</span>
+                  <span className="flex-shrink-0 text-gray-500">
+                    {item.kind} · {item.hops} hop{item.hops === 1 ? '' : 's'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+/**
+ * Migration Script Dialog
+ * SQL that migrates a deployed database from the tables at the compared ref to the current
+ * model, and the script that rolls it back (see utils/ddlMigration). Steps that lose data
+ * or can fail on existing rows are listed as warnings above the script.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Dialog } from '@/components/common/Dialog';
+import { useModelStore } from '@/stores/modelStore';
+import { formatMigrationScript, generateMigration } from '@/utils/ddlMigration';
+import { SQL_DIALECTS, type SQLDialect } from '@/utils/sqlDialects';
+import type { Table } from '@/types/table';
+
+export interface MigrationScriptDialogProps {
+  fromRef: string;
+  baselineTables: Table[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ScriptDirection = 'migration' | 'rollback';
+
+export const MigrationScriptDialog: React.FC<MigrationScriptDialogProps> = ({
+  fromRef,
+  baselineTables,
+  isOpen,
+  onClose,
+}) => {
+  const tables = useModelStore((state) => state.tables);
+  const [dialect, setDialect] = useState<SQLDialect>('postgresql');
+  const [direction, setDirection] = useState<ScriptDirection>('migration');
+  const [copied, setCopied] = useState(false);
+
+  const migration = useMemo(
+    () => generateMigration(baselineTables, tables, dialect),
+    [baselineTables, tables, dialect]
+  );
+  const steps = direction === 'migration' ? migration.steps : migration.rollback;
+  const script = formatMigrationScript(
+    steps,
+    direction === 'migration'
+      ? `Migration from ${fromRef} to the current model (${dialect})`
+      : `Rollback from the current model to ${fromRef} (${dialect})`
+  );
+  const warnings = steps.filter((s) => s.warning);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(script);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([script], { type: 'application/sql' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${direction}-${fromRef.replace(/[^\w.-]+/g, '_')}-${dialect}.sql`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title="Migration SQL" size="xl">
+      <div className="space-y-4">
+        <div className="flex items-end justify-between gap-4">
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {(['migration', 'rollback'] as const).map((d) => (
+              <button
+                key={d}
+                onClick={() => setDirection(d)}
+                className={`px-3 py-1.5 text-sm ${
+                  direction === d
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+                aria-pressed={direction === d}
+              >
+                {d === 'migration' ? 'Migration' : 'Rollback'}
+              </button>
+            ))}
+          </div>
+          <label htmlFor="migration-dialect" className="block text-sm text-gray-700">
+            Dialect
+            <select
+              id="migration-dialect"
+              value={dialect}
+              onChange={(e) => setDialect(e.target.value as SQLDialect)}
+              className="block mt-1 px-2 py-1 text-sm border border-gray-300 rounded-md"
+            >
+              {SQL_DIALECTS.map((d) => (
+                <option key={d.value} value={d.value}>
+                  {d.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-md">
+            <div className="mb-1 text-sm font-medium text-amber-800">
+              {warnings.length} step{warnings.length !== 1 ? 's' : ''} to review
+            </div>
+            <ul className="space-y-0.5 text-xs text-amber-800 list-disc list-inside">
+              {warnings.map((step, i) => (
+                <li key={i}>{step.warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <pre className="p-3 max-h-[50vh] overflow-auto font-mono text-xs whitespace-pre bg-gray-50 border border-gray-200 rounded-md">
+          {script}
+        </pre>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            {steps.length} step{steps.length !== 1 ? 's' : ''} from the tables at {fromRef}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCopy}
+              disabled={steps.length === 0}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={steps.length === 0}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Download .sql
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
@@ -0,0 +1,119 @@
+/**
+ * Notation Menu Component
+ * Chooses the ER notation (crow's foot, IDEF1X, UML, Chen, Barker) the canvas is drawn in,
+ * for the current view or as the workspace default. Stored in the workspace's `notation`
+ * settings; the model itself is not changed.
+ */
+
+import React, { useState } from 'react';
+import { useModelStore } from '@/stores/modelStore';
+import { useWorkspaceStore } from '@/stores/workspaceStore';
+import { isViewerMode } from '@/services/viewerMode';
+import { applyERNotation, DEFAULT_ER_NOTATION, ER_NOTATIONS } from '@/utils/erNotation';
+import { useERNotation } from '@/hooks/useERNotation';
+import type { ERNotation } from '@/types/relationship';
+
+export const NotationMenu: React.FC = () => {
+  const currentView = useModelStore((state) => state.currentView);
+  const notation = useERNotation(currentView);
+  const settings = useWorkspaceStore(
+    (state) => state.workspaces.find((w) => w.id === state.currentWorkspaceId)?.notation
+  );
+  const [showMenu, setShowMenu] = useState(false);
+  const [scope, setScope] = useState<'view' | 'workspace'>('view');
+
+  const hasViewOverride = !!settings?.views?.[currentView];
+
+  const choose = (value: ERNotation) => {
+    const { currentWorkspaceId, updateWorkspace, setPendingChanges } = useWorkspaceStore.getState();
+    if (!currentWorkspaceId) return;
+    updateWorkspace(currentWorkspaceId, {
+      notation: applyERNotation(
+        settings,
+        value,
+        scope === 'workspace' ? 'workspace' : { viewMode: currentView }
+      ),
+    });
+    if (!isViewerMode()) {
+      setPendingChanges(true);
+    }
+    setShowMenu(false);
+  };
+
+  return (
+    <>
+      {/* Notation button - sits left of the focus button */}
+      <div className="absolute top-4 right-52 z-10">
+        <div className="relative">
+          <button
+            onClick={() => setShowMenu(!showMenu)}
+            className="p-2 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-50 transition-colors"
+            title={`Notation: ${ER_NOTATIONS.find((n) => n.value === notation)?.label}`}
+          >
+            <svg
+              className="w-5 h-5 text-gray-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M3 12h12m0 0l6-5m-6 5l6 5m-6-5h6"
+              />
+            </svg>
+          </button>
+
+          {showMenu && (
+            <div className="absolute right-0 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+              <div className="flex m-2 rounded border border-gray-300 overflow-hidden">
+                {(['view', 'workspace'] as const).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setScope(value)}
+                    className={`flex-1 py-1 text-xs ${
+                      scope === value ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {value === 'view' ? 'This view' : 'Whole workspace'}
+                  </button>
+                ))}
+              </div>
+              {ER_NOTATIONS.map((option) => {
+                const active =
+                  scope === 'view'
+                    ? option.value === notation
+                    : option.value === (settings?.default ?? DEFAULT_ER_NOTATION);
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => choose(option.value)}
+                    className={`w-full px-4 py-2 text-left border-t border-gray-100 hover:bg-gray-50 ${
+                      active ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-gray-900">
+                      {option.label}
+                      {active && <span className="ml-2 text-xs text-blue-600">Current</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">{option.description}</div>
+                  </button>
+                );
+              })}
+              {scope === 'workspace' && hasViewOverride && (
+                <div className="px-4 py-2 text-xs text-amber-700 bg-amber-50 border-t border-amber-100">
+                  Choosing a workspace notation clears the notation chosen for individual views.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Close menu when clicking outside */}
+      {/* eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions -- Menu backdrop */}
+      {showMenu && <div className="fixed inset-0 z-0" onClick={() => setShowMenu(false)} />}
+    </>
+  );
+};
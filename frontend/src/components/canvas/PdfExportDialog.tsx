@@ -0,0 +1,203 @@
+/**
+ * PDF Export Dialog Component
+ * Page setup for tiled multi-page PDF export of the canvas (page size, orientation,
+ * overlap, scale and title block/legend)
+ */
+
+import React, { useState } from 'react';
+import { Dialog } from '@/components/common/Dialog';
+import type { Rect } from '@/utils/canvasVectorExport';
+import {
+  computePageTiles,
+  PAGE_SIZES,
+  type PageOrientation,
+  type PageSizeName,
+  type PdfExportOptions,
+} from '@/utils/pdfExport';
+
+export interface PdfExportDialogProps {
+  isOpen: boolean;
+  /** Area to export in canvas coordinates */
+  area: Rect | null;
+  defaultTitle: string;
+  onClose: () => void;
+  onExport: (options: PdfExportOptions) => void;
+}
+
+type ScaleMode = 'scale' | 'fit';
+
+export const PdfExportDialog: React.FC<PdfExportDialogProps> = ({
+  isOpen,
+  area,
+  defaultTitle,
+  onClose,
+  onExport,
+}) => {
+  const [pageSize, setPageSize] = useState<PageSizeName>('A4');
+  const [orientation, setOrientation] = useState<PageOrientation>('landscape');
+  const [overlapMm, setOverlapMm] = useState(10);
+  const [scaleMode, setScaleMode] = useState<ScaleMode>('fit');
+  const [scale, setScale] = useState(100);
+  const [pagesWide, setPagesWide] = useState(1);
+  const [title, setTitle] = useState(defaultTitle);
+  const [includeTitleBlock, setIncludeTitleBlock] = useState(true);
+  const [includeLegend, setIncludeLegend] = useState(true);
+
+  const options: PdfExportOptions = {
+    pageSize,
+    orientation,
+    overlapMm,
+    scale: scaleMode === 'scale' ? scale : undefined,
+    pagesWide: scaleMode === 'fit' ? pagesWide : undefined,
+    title: title.trim() || defaultTitle,
+    includeTitleBlock,
+    includeLegend: includeTitleBlock && includeLegend,
+  };
+
+  const layout = area ? computePageTiles(area, options) : null;
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded';
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title="Export as PDF" size="sm">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-sm text-gray-700">
+            Page size
+            <select
+              value={pageSize}
+              onChange={(e) => setPageSize(e.target.value as PageSizeName)}
+              className={inputClass}
+            >
+              {(Object.keys(PAGE_SIZES) as PageSizeName[]).map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            Orientation
+            <select
+              value={orientation}
+              onChange={(e) => setOrientation(e.target.value as PageOrientation)}
+              className={inputClass}
+            >
+              <option value="portrait">Portrait</option>
+              <option value="landscape">Landscape</option>
+            </select>
+          </label>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm text-gray-700">Scale</legend>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={scaleMode === 'fit'}
+              onChange={() => setScaleMode('fit')}
+            />
+            Fit to
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={pagesWide}
+              onChange={(e) => setPagesWide(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              disabled={scaleMode !== 'fit'}
+              className="w-16 px-2 py-1 text-sm border border-gray-300 rounded"
+              aria-label="Pages wide"
+            />
+            page(s) wide
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={scaleMode === 'scale'}
+              onChange={() => setScaleMode('scale')}
+            />
+            Print at
+            <input
+              type="number"
+              min={10}
+              max={400}
+              step={10}
+              value={scale}
+              onChange={(e) => setScale(Math.max(10, parseInt(e.target.value, 10) || 100))}
+              disabled={scaleMode !== 'scale'}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
+              aria-label="Scale percent"
+            />
+            %
+          </label>
+        </fieldset>
+
+        <label className="block text-sm text-gray-700">
+          Page overlap (mm)
+          <input
+            type="number"
+            min={0}
+            max={50}
+            value={overlapMm}
+            onChange={(e) => setOverlapMm(Math.max(0, parseFloat(e.target.value) || 0))}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="block text-sm text-gray-700">
+          Title
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeTitleBlock}
+              onChange={(e) => setIncludeTitleBlock(e.target.checked)}
+            />
+            Title block on every page
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeLegend}
+              disabled={!includeTitleBlock}
+              onChange={(e) => setIncludeLegend(e.target.checked)}
+            />
+            Include notation legend
+          </label>
+        </div>
+
+        {layout && (
+          <p className="text-sm text-gray-600 bg-gray-50 rounded px-3 py-2">
+            {layout.cols} × {layout.rows} = {layout.tiles.length} page
+            {layout.tiles.length === 1 ? '' : 's'} at{' '}
+            {Math.round((layout.pointsPerUnit / 0.75) * 100)}% scale
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(options)}
+            disabled={!area}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Export PDF
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
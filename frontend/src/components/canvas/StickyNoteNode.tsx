@@ -0,0 +1,119 @@
+/**
+ * Sticky Note Node Component
+ * Resizable free-text note on the canvas. Double-click to edit.
+ */
+
+import React, { useState } from 'react';
+import { NodeResizer } from 'reactflow';
+import type { StickyNote } from '@/types/domain';
+import { NOTE_COLORS } from '@/utils/canvasAnnotations';
+
+export interface StickyNoteNodeData {
+  note: StickyNote;
+  readOnly?: boolean;
+  onUpdate?: (noteId: string, updates: Partial<StickyNote>) => void;
+  onDelete?: (noteId: string) => void;
+}
+
+export interface StickyNoteNodeProps {
+  data: StickyNoteNodeData;
+  selected?: boolean;
+}
+
+export const StickyNoteNode: React.FC<StickyNoteNodeProps> = ({ data, selected }) => {
+  const { note, readOnly, onUpdate, onDelete } = data;
+  // New, empty notes open in edit mode
+  const [isEditing, setIsEditing] = useState(!readOnly && !note.text);
+  const [text, setText] = useState(note.text);
+
+  const saveText = () => {
+    setIsEditing(false);
+    if (text !== note.text) {
+      onUpdate?.(note.id, { text });
+    }
+  };
+
+  return (
+    <>
+      {!readOnly && (
+        <NodeResizer
+          isVisible={selected}
+          minWidth={120}
+          minHeight={80}
+          color="#a16207"
+          onResizeEnd={(_event, params) =>
+            onUpdate?.(note.id, {
+              x: Math.round(params.x),
+              y: Math.round(params.y),
+              width: Math.round(params.width),
+              height: Math.round(params.height),
+            })
+          }
+        />
+      )}
+      {/* eslint-disable-next-line jsx-a11y/no-noninteractive-element-interactions -- Double-click to edit, like other canvas nodes */}
+      <div
+        className={`w-full h-full flex flex-col rounded shadow-md group ${selected ? 'ring-2 ring-blue-200' : ''}`}
+        style={{ backgroundColor: note.color }}
+        role="note"
+        onDoubleClick={() => {
+          if (!readOnly) {
+            setText(note.text);
+            setIsEditing(true);
+          }
+        }}
+      >
+        {!readOnly && (
+          <div className="flex items-center gap-1 px-2 pt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {NOTE_COLORS.map((color) => (
+              <button
+                key={color}
+                onClick={() => onUpdate?.(note.id, { color })}
+                className={`nodrag w-3 h-3 rounded-full border border-black/20 ${color === note.color ? 'ring-1 ring-gray-500' : ''}`}
+                style={{ backgroundColor: color }}
+                title={color}
+                aria-label={`Note color ${color}`}
+              />
+            ))}
+            <button
+              onClick={() => onDelete?.(note.id)}
+              className="nodrag ml-auto p-0.5 text-gray-600 rounded hover:bg-black/10"
+              title="Delete note"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        )}
+        {isEditing ? (
+          <textarea
+            // eslint-disable-next-line jsx-a11y/no-autofocus -- Editing starts on explicit user action
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={saveText}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                setText(note.text);
+                setIsEditing(false);
+              }
+            }}
+            placeholder="Write a note..."
+            className="nodrag nowheel flex-1 m-2 p-1 text-sm text-gray-900 bg-white/60 border border-black/10 rounded resize-none"
+            aria-label="Note text"
+          />
+        ) : (
+          <div className="flex-1 px-3 py-2 text-sm text-gray-900 whitespace-pre-wrap break-words overflow-hidden">
+            {note.text || <span className="text-gray-500 italic">Empty note</span>}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
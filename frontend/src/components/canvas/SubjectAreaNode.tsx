@@ -0,0 +1,209 @@
+/**
+ * Subject Area Node Component
+ * Resizable, colored frame that groups canvas nodes. Collapses into a summary card that
+ * hides the nodes inside it.
+ */
+
+import React, { useState } from 'react';
+import { NodeResizer } from 'reactflow';
+import type { SubjectAreaFrame } from '@/types/domain';
+import { FRAME_COLORS } from '@/utils/canvasAnnotations';
+
+export interface SubjectAreaNodeData {
+  frame: SubjectAreaFrame;
+  memberCount: number;
+  readOnly?: boolean;
+  onUpdate?: (frameId: string, updates: Partial<SubjectAreaFrame>) => void;
+  onDelete?: (frameId: string) => void;
+}
+
+export interface SubjectAreaNodeProps {
+  data: SubjectAreaNodeData;
+  selected?: boolean;
+}
+
+export const COLLAPSED_FRAME_WIDTH = 240;
+
+export const SubjectAreaNode: React.FC<SubjectAreaNodeProps> = ({ data, selected }) => {
+  const { frame, memberCount, readOnly, onUpdate, onDelete } = data;
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(frame.title);
+  const [description, setDescription] = useState(frame.description ?? '');
+
+  const startEditing = () => {
+    setTitle(frame.title);
+    setDescription(frame.description ?? '');
+    setIsEditing(true);
+  };
+
+  const saveEdits = () => {
+    setIsEditing(false);
+    const trimmedTitle = title.trim() || frame.title;
+    const trimmedDescription = description.trim() || undefined;
+    if (trimmedTitle !== frame.title || trimmedDescription !== frame.description) {
+      onUpdate?.(frame.id, { title: trimmedTitle, description: trimmedDescription });
+    }
+  };
+
+  const toggleCollapsed = () => onUpdate?.(frame.id, { collapsed: !frame.collapsed });
+
+  const collapseButton = !readOnly && (
+    <button
+      onClick={toggleCollapsed}
+      className="nodrag p-0.5 rounded hover:bg-black/10"
+      title={frame.collapsed ? 'Expand subject area' : 'Collapse subject area'}
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d={
+            frame.collapsed
+              ? 'M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4'
+              : 'M9 4v5H4M15 4v5h5M9 20v-5H4M15 20v-5h5'
+          }
+        />
+      </svg>
+    </button>
+  );
+
+  // Collapsed: single summary card
+  if (frame.collapsed) {
+    return (
+      <div
+        className={`bg-white rounded-lg shadow-md border-2 ${selected ? 'ring-2 ring-blue-200' : ''}`}
+        style={{ borderColor: frame.color, width: COLLAPSED_FRAME_WIDTH }}
+        role="group"
+        aria-label={`Subject area: ${frame.title}`}
+      >
+        <div
+          className="flex items-center justify-between gap-2 px-3 py-2 text-white rounded-t-md"
+          style={{ backgroundColor: frame.color }}
+        >
+          <span className="font-semibold text-sm truncate">{frame.title}</span>
+          {collapseButton}
+        </div>
+        <div className="px-3 py-2 text-xs text-gray-600 space-y-1">
+          {frame.description && <p className="line-clamp-3">{frame.description}</p>}
+          <p className="font-medium text-gray-700">
+            {memberCount} item{memberCount === 1 ? '' : 's'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {!readOnly && (
+        <NodeResizer
+          isVisible={selected}
+          minWidth={200}
+          minHeight={120}
+          color={frame.color}
+          onResizeEnd={(_event, params) =>
+            onUpdate?.(frame.id, {
+              x: Math.round(params.x),
+              y: Math.round(params.y),
+              width: Math.round(params.width),
+              height: Math.round(params.height),
+            })
+          }
+        />
+      )}
+      <div
+        className="w-full h-full rounded-lg border-2 border-dashed"
+        style={{ borderColor: frame.color, backgroundColor: `${frame.color}14` }}
+        role="group"
+        aria-label={`Subject area: ${frame.title}`}
+      >
+        <div
+          className="flex items-start justify-between gap-2 px-3 py-2 rounded-t-md"
+          style={{ backgroundColor: `${frame.color}26`, color: frame.color }}
+        >
+          {isEditing ? (
+            <div className="nodrag flex-1 space-y-1">
+              <input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveEdits();
+                  if (e.key === 'Escape') setIsEditing(false);
+                }}
+                className="w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded"
+                aria-label="Subject area title"
+              />
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                placeholder="Description"
+                className="w-full px-2 py-1 text-xs text-gray-900 border border-gray-300 rounded"
+                aria-label="Subject area description"
+              />
+              <div className="flex items-center gap-1">
+                {FRAME_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => onUpdate?.(frame.id, { color })}
+                    className={`w-4 h-4 rounded-full ${color === frame.color ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                    style={{ backgroundColor: color }}
+                    title={color}
+                    aria-label={`Color ${color}`}
+                  />
+                ))}
+                <button
+                  onClick={saveEdits}
+                  className="ml-auto px-2 py-0.5 text-xs text-white bg-blue-600 rounded hover:bg-blue-700"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="min-w-0">
+              <div className="font-semibold text-sm truncate">{frame.title}</div>
+              {frame.description && (
+                <div className="text-xs text-gray-600 line-clamp-2">{frame.description}</div>
+              )}
+            </div>
+          )}
+          {!readOnly && !isEditing && (
+            <div className="flex items-center gap-0.5 flex-shrink-0">
+              <button
+                onClick={startEditing}
+                className="nodrag p-0.5 rounded hover:bg-black/10"
+                title="Edit subject area"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                  />
+                </svg>
+              </button>
+              {collapseButton}
+              <button
+                onClick={() => onDelete?.(frame.id)}
+                className="nodrag p-0.5 rounded hover:bg-black/10"
+                title="Delete subject area (nodes inside are kept)"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -1,15 +1,27 @@
 /**
  * Transformation Edge Component
  * Custom edge for transformation links between tables
- * Styled differently from regular relationships with metadata tooltips
+ * Styled differently from regular relationships with metadata tooltips.
+ * Routed orthogonally around tables; bend points and the tooltip position are editable.
  */
 
-import React, { useMemo } from 'react';
-import { BaseEdge, EdgeProps, getBezierPath } from 'reactflow';
+import React, { useCallback, useMemo } from 'react';
+import { BaseEdge, EdgeProps, useNodes } from 'reactflow';
 import type { TransformationLink } from '@/types/bpmn';
+import type { VisualMetadata } from '@/types/relationship';
+import { useEditableEdgeRoute } from '@/hooks/useEditableEdgeRoute';
+import {
+  nodesToObstacles,
+  polylineMidpoint,
+  polylineToPath,
+  routeEdge,
+  toPortSide,
+} from '@/utils/edgeRouting';
+import { EdgeRouteHandles } from './EdgeRouteHandles';
 
 export interface TransformationEdgeData {
   transformationLink: TransformationLink;
+  onVisualMetadataChange?: (link: TransformationLink, visual: VisualMetadata | undefined) => void;
 }
 
 export const TransformationEdge: React.FC<EdgeProps<TransformationEdgeData>> = ({
@@ -23,18 +35,40 @@ export const TransformationEdge: React.FC<EdgeProps<TransformationEdgeData>> = (
   data,
   selected,
 }) => {
-  const [edgePath, labelX, labelY] = getBezierPath({
-    sourceX,
-    sourceY,
-    sourcePosition,
-    targetX,
-    targetY,
-    targetPosition,
+  const allNodes = useNodes();
+  const obstacles = useMemo(() => nodesToObstacles(allNodes), [allNodes]);
+
+  const link = data?.transformationLink;
+  const onVisualMetadataChange = data?.onVisualMetadataChange;
+  const commitVisualMetadata = useCallback(
+    (visual: VisualMetadata | undefined) => {
+      if (link) onVisualMetadataChange?.(link, visual);
+    },
+    [link, onVisualMetadataChange]
+  );
+  const routeEditor = useEditableEdgeRoute(
+    link?.visual_metadata,
+    onVisualMetadataChange ? commitVisualMetadata : undefined
+  );
+
+  const sourcePoint = { x: sourceX, y: sourceY };
+  const targetPoint = { x: targetX, y: targetY };
+  const points = routeEdge({
+    source: sourcePoint,
+    sourceSide: toPortSide(sourcePosition, sourcePoint, targetPoint),
+    target: targetPoint,
+    targetSide: toPortSide(targetPosition, targetPoint, sourcePoint),
+    obstacles,
+    waypoints: routeEditor.visual.waypoints,
   });
+  const edgePath = polylineToPath(points);
+  const labelPoint = routeEditor.visual.label_position ?? polylineMidpoint(points);
+  const labelX = labelPoint.x;
+  const labelY = labelPoint.y;
 
-  const metadata = data?.transformationLink?.metadata || {};
+  const metadata = link?.metadata || {};
   const hasMetadata = Object.keys(metadata).length > 0;
-  const bpmnElementId = data?.transformationLink?.bpmn_element_id;
+  const bpmnElementId = link?.bpmn_element_id;
 
   // Style transformation edges differently - dashed line, purple color
   const edgeStyle = useMemo(
@@ -61,21 +95,27 @@ export const TransformationEdge: React.FC<EdgeProps<TransformationEdgeData>> = (
           >
             <div className="bg-purple-100 border border-purple-300 rounded px-2 py-1 text-xs shadow-lg">
               <div className="font-semibold text-purple-800">Transformation</div>
-              {bpmnElementId && (
-                <div className="text-purple-600">BPMN: {bpmnElementId}</div>
-              )}
-              {Object.entries(metadata).slice(0, 2).map(([key, value]) => (
-                <div key={key} className="text-purple-700">
-                  {key}: {String(value)}
-                </div>
-              ))}
+              {bpmnElementId && <div className="text-purple-600">BPMN: {bpmnElementId}</div>}
+              {Object.entries(metadata)
+                .slice(0, 2)
+                .map(([key, value]) => (
+                  <div key={key} className="text-purple-700">
+                    {key}: {String(value)}
+                  </div>
+                ))}
             </div>
           </foreignObject>
         </g>
       )}
+      {/* Bend point and tooltip handles for the selected edge */}
+      {selected && onVisualMetadataChange && (
+        <EdgeRouteHandles
+          points={points}
+          editor={routeEditor}
+          labelPosition={hasMetadata ? { x: labelX, y: labelY - 12 } : undefined}
+          color="#9333ea"
+        />
+      )}
     </>
   );
 };
-
-
-
@@ -0,0 +1,253 @@
+/**
+ * Sensitivity Dashboard Component
+ * Column classifications across the workspace, per domain, system and data product, and
+ * the columns classified lower than their lineage or relationship sources
+ * (see utils/classificationPolicy)
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+import { useModelStore } from '@/stores/modelStore';
+import { useUIStore } from '@/stores/uiStore';
+import { isViewerMode } from '@/services/viewerMode';
+import {
+  CLASSIFICATION_LEVELS,
+  UNCLASSIFIED,
+  buildSensitivityDashboard,
+  checkClassificationPolicy,
+  describeClassificationFinding,
+  getClassificationLabel,
+  type ClassificationFinding,
+  type SensitivityRow,
+} from '@/utils/classificationPolicy';
+
+export interface SensitivityDashboardProps {
+  className?: string;
+}
+
+type DashboardSection = 'domains' | 'systems' | 'products' | 'findings';
+
+const LEVEL_STYLES: Record<number, string> = {
+  0: 'bg-green-100 text-green-800',
+  1: 'bg-blue-100 text-blue-800',
+  2: 'bg-yellow-100 text-yellow-800',
+  3: 'bg-orange-100 text-orange-800',
+  4: 'bg-red-100 text-red-800',
+};
+
+const SEVERITY_STYLES: Record<ClassificationFinding['severity'], string> = {
+  error: 'text-red-600',
+  warning: 'text-yellow-600',
+  info: 'text-blue-600',
+};
+
+const levelStyle = (classification: string | undefined) => {
+  const level = CLASSIFICATION_LEVELS.find((l) => l.value === classification);
+  return level ? LEVEL_STYLES[level.rank] : 'bg-gray-100 text-gray-700';
+};
+
+export const SensitivityDashboard: React.FC<SensitivityDashboardProps> = ({ className = '' }) => {
+  const model = useModelStore(
+    useShallow((state) => ({
+      tables: state.tables,
+      relationships: state.relationships,
+      domains: state.domains,
+      systems: state.systems,
+      metricViews: state.metricViews,
+      products: state.products,
+    }))
+  );
+  const { addToast } = useUIStore();
+  const readOnly = isViewerMode();
+  const [section, setSection] = useState<DashboardSection>('domains');
+
+  const dashboard = useMemo(() => buildSensitivityDashboard(model), [model]);
+  const findings = useMemo(() => checkClassificationPolicy(model), [model]);
+
+  // Classifications in use, in rank order, then custom values and unclassified
+  const columnsShown = useMemo(() => {
+    const used = Object.keys(dashboard.totals.counts);
+    const known = CLASSIFICATION_LEVELS.map((l) => l.value).filter((v) => used.includes(v));
+    const custom = used.filter((v) => v !== UNCLASSIFIED && !known.includes(v)).sort();
+    return [...known, ...custom, ...(used.includes(UNCLASSIFIED) ? [UNCLASSIFIED] : [])];
+  }, [dashboard]);
+
+  const applyFinding = (finding: ClassificationFinding) => {
+    useModelStore
+      .getState()
+      .updateColumn(
+        finding.tableId,
+        finding.columnId,
+        finding.kind === 'under-classified'
+          ? { classification: finding.requiredClassification }
+          : { criticalDataElement: true }
+      );
+  };
+
+  const handleApply = (finding: ClassificationFinding) => {
+    applyFinding(finding);
+    addToast({
+      type: 'success',
+      message: `Updated ${finding.tableName}.${finding.columnName}`,
+    });
+  };
+
+  const handleApplyAll = () => {
+    // Applying one finding can raise others downstream, so repeat until none are left
+    let applied = 0;
+    useModelStore.getState().transaction('Apply classification policy', () => {
+      for (let pass = 0; pass < 10; pass++) {
+        const pending = checkClassificationPolicy(useModelStore.getState());
+        if (pending.length === 0) break;
+        pending.forEach(applyFinding);
+        applied += pending.length;
+      }
+    });
+    addToast({ type: 'success', message: `Applied ${applied} classification change(s)` });
+  };
+
+  const sections: Array<{ value: DashboardSection; label: string; count: number }> = [
+    { value: 'domains', label: 'Domains', count: dashboard.byDomain.length },
+    { value: 'systems', label: 'Systems', count: dashboard.bySystem.length },
+    { value: 'products', label: 'Data Products', count: dashboard.byProduct.length },
+    { value: 'findings', label: 'Findings', count: findings.length },
+  ];
+
+  const renderRows = (rows: SensitivityRow[], empty: string) =>
+    rows.length === 0 ? (
+      <p className="text-sm text-gray-500 italic">{empty}</p>
+    ) : (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+            <th className="py-1 pr-4 font-medium">Name</th>
+            <th className="py-1 pr-4 font-medium">Highest</th>
+            {columnsShown.map((c) => (
+              <th key={c} className="py-1 pr-4 font-medium text-right">
+                {getClassificationLabel(c)}
+              </th>
+            ))}
+            <th className="py-1 pr-4 font-medium text-right">CDE</th>
+            <th className="py-1 font-medium text-right">Columns</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.id} className="border-b border-gray-100">
+              <td className="py-1 pr-4 text-gray-700">{row.name}</td>
+              <td className="py-1 pr-4">
+                {row.highest && (
+                  <span className={`px-1.5 py-0.5 rounded text-xs ${levelStyle(row.highest)}`}>
+                    {getClassificationLabel(row.highest)}
+                  </span>
+                )}
+              </td>
+              {columnsShown.map((c) => (
+                <td key={c} className="py-1 pr-4 text-right text-gray-700">
+                  {row.counts[c] || <span className="text-gray-300">0</span>}
+                </td>
+              ))}
+              <td className="py-1 pr-4 text-right text-gray-700">{row.critical}</td>
+              <td className="py-1 text-right text-gray-500">{row.total}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+
+  return (
+    <div className={`flex flex-col h-full bg-white ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Sensitivity</h2>
+        <p className="text-xs text-gray-500">
+          {dashboard.totals.total - (dashboard.totals.counts[UNCLASSIFIED] ?? 0)} of{' '}
+          {dashboard.totals.total} column(s) classified · {dashboard.totals.critical} critical data
+          element(s) · {findings.length} finding(s)
+        </p>
+        <div className="flex flex-wrap gap-2 mt-3">
+          {columnsShown.map((c) => (
+            <div key={c} className={`px-3 py-2 rounded-md ${levelStyle(c)}`}>
+              <div className="text-lg font-semibold">{dashboard.totals.counts[c]}</div>
+              <div className="text-xs">{getClassificationLabel(c)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex border-b border-gray-200">
+        {sections.map((s) => (
+          <button
+            key={s.value}
+            onClick={() => setSection(s.value)}
+            className={`px-4 py-2 text-sm font-medium ${
+              section === s.value
+                ? 'text-blue-600 border-b-2 border-blue-600'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {s.label} ({s.count})
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-auto px-6 py-4">
+        {section === 'domains' && renderRows(dashboard.byDomain, 'No domains in the workspace')}
+        {section === 'systems' && renderRows(dashboard.bySystem, 'No systems in the workspace')}
+        {section === 'products' &&
+          renderRows(dashboard.byProduct, 'No data products in the workspace')}
+
+        {section === 'findings' &&
+          (findings.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">
+              Every column is classified at least as high as its sources
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {!readOnly && (
+                <button
+                  onClick={handleApplyAll}
+                  className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                >
+                  Apply all suggestions
+                </button>
+              )}
+              <ul className="border border-gray-200 rounded divide-y divide-gray-100">
+                {findings.map((finding) => (
+                  <li
+                    key={`${finding.kind}:${finding.columnId}`}
+                    className="flex items-start justify-between gap-3 px-3 py-2 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className={`text-xs font-medium uppercase ${SEVERITY_STYLES[finding.severity]}`}
+                        >
+                          {finding.severity}
+                        </span>
+                        <span className="font-mono text-xs text-gray-900">
+                          {finding.tableName}.{finding.columnName}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-600">
+                        {describeClassificationFinding(finding)}
+                      </p>
+                    </div>
+                    {!readOnly && (
+                      <button
+                        onClick={() => handleApply(finding)}
+                        className="flex-shrink-0 px-2 py-1 text-xs text-blue-600 border border-blue-200 rounded hover:bg-blue-50"
+                      >
+                        {finding.kind === 'under-classified'
+                          ? `Classify as ${getClassificationLabel(finding.requiredClassification)}`
+                          : 'Mark critical'}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+};
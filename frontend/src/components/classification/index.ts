@@ -0,0 +1,8 @@
+/**
+ * Classification Components
+ * Sensitivity dashboard and classification policy findings
+ */
+
+export { SensitivityDashboard } from './SensitivityDashboard';
+
+export type { SensitivityDashboardProps } from './SensitivityDashboard';
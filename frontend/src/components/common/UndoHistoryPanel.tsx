@@ -0,0 +1,175 @@
+/**
+ * Undo History Panel Component
+ *
+ * Undo/redo buttons for model mutations with an expandable list of named steps.
+ * Clicking a step jumps the model back (or forward) to the state right after it.
+ * Keyboard shortcuts are registered separately by useUndoRedo.
+ */
+
+import React, { useState, useCallback } from 'react';
+import { useShallow } from 'zustand/shallow';
+import { useHistoryStore, type HistoryEntry } from '@/stores/historyStore';
+import { useModelStore } from '@/stores/modelStore';
+
+interface UndoHistoryPanelProps {
+  className?: string;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const modKey = isMac ? '⌘' : 'Ctrl+';
+
+export const UndoHistoryPanel: React.FC<UndoHistoryPanelProps> = ({ className = '' }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const undo = useModelStore((state) => state.undo);
+  const redo = useModelStore((state) => state.redo);
+  const { past, future, transaction } = useHistoryStore(
+    useShallow((state) => ({
+      past: state.past,
+      future: state.future,
+      transaction: state.transaction,
+    }))
+  );
+  const canUndo = past.length > 0 && !transaction;
+  const canRedo = future.length > 0 && !transaction;
+
+  // Undo until the given past entry is the last applied step
+  const handleJumpToPast = useCallback(
+    (index: number) => {
+      const steps = past.length - 1 - index;
+      for (let i = 0; i < steps; i++) {
+        undo();
+      }
+    },
+    [past.length, undo]
+  );
+
+  // Redo up to and including the given future entry
+  const handleJumpToFuture = useCallback(
+    (index: number) => {
+      for (let i = 0; i <= index; i++) {
+        redo();
+      }
+    },
+    [redo]
+  );
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const renderEntry = (
+    entry: HistoryEntry,
+    state: 'applied' | 'current' | 'undone',
+    onClick: () => void
+  ) => (
+    <li key={entry.id}>
+      <button
+        onClick={onClick}
+        className={`w-full flex items-center justify-between gap-2 px-4 py-1.5 text-left text-sm hover:bg-gray-50 ${
+          state === 'current'
+            ? 'bg-blue-50 text-blue-800 font-medium'
+            : state === 'undone'
+              ? 'text-gray-400 italic'
+              : 'text-gray-700'
+        }`}
+        title={state === 'undone' ? 'Redo to this step' : 'Undo back to this step'}
+      >
+        <span className="truncate">{entry.label}</span>
+        <span className="flex-shrink-0 text-xs text-gray-400">{formatTime(entry.timestamp)}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className={`relative flex items-center ${className}`}>
+      <button
+        onClick={undo}
+        disabled={!canUndo}
+        className="px-2 py-1.5 text-gray-700 bg-gray-100 rounded-l-md hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+        title={canUndo ? `Undo ${past[past.length - 1]?.label} (${modKey}Z)` : 'Nothing to undo'}
+        aria-label="Undo"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M3 10h10a5 5 0 010 10H9M3 10l4-4M3 10l4 4"
+          />
+        </svg>
+      </button>
+      <button
+        onClick={redo}
+        disabled={!canRedo}
+        className="px-2 py-1.5 text-gray-700 bg-gray-100 border-l border-gray-200 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+        title={
+          canRedo
+            ? `Redo ${future[0]?.label} (${isMac ? '⇧⌘Z' : 'Ctrl+Shift+Z'})`
+            : 'Nothing to redo'
+        }
+        aria-label="Redo"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M21 10H11a5 5 0 000 10h4M21 10l-4-4M21 10l-4 4"
+          />
+        </svg>
+      </button>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="px-1.5 py-1.5 text-gray-700 bg-gray-100 border-l border-gray-200 rounded-r-md hover:bg-gray-200"
+        title="Show edit history"
+        aria-label="Edit history"
+        aria-expanded={isExpanded}
+      >
+        <svg
+          className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div className="absolute right-0 top-full mt-2 w-80 max-h-96 overflow-auto bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="sticky top-0 bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900">Edit History</h3>
+            <button
+              onClick={() => setIsExpanded(false)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Close"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          {past.length === 0 && future.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No changes yet</p>
+          ) : (
+            <ul className="py-1">
+              {past.map((entry, index) =>
+                renderEntry(entry, index === past.length - 1 ? 'current' : 'applied', () =>
+                  handleJumpToPast(index)
+                )
+              )}
+              {future.map((entry, index) =>
+                renderEntry(entry, 'undone', () => handleJumpToFuture(index))
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -14,6 +14,10 @@ import {
   type ValidationState,
 } from '@/stores/validationStore';
 import { useModelStore } from '@/stores/modelStore';
+import { useWorkspaceStore } from '@/stores/workspaceStore';
+import { useDecisionStore } from '@/stores/decisionStore';
+import { ImpactAnalysisDialog } from '@/components/impact/ImpactAnalysisDialog';
+import { analyzeImpact, type ImpactChange } from '@/utils/impactAnalysis';
 import { runWorkspaceValidation } from '@/utils/workspaceValidation';
 
 interface ValidationWarningsProps {
@@ -27,6 +31,7 @@ const resourceTypeLabels: Record<ResourceType, string> = {
   product: 'Product',
   compute_asset: 'Compute Asset',
   knowledge_article: 'Knowledge Article',
+  glossary_term: 'Glossary Term',
   decision_record: 'Decision Record',
   bpmn_process: 'BPMN Process',
   dmn_decision: 'DMN Decision',
@@ -37,6 +42,11 @@ const resourceTypeLabels: Record<ResourceType, string> = {
 export const ValidationWarnings: React.FC<ValidationWarningsProps> = ({ className = '' }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
+  // Suggested column rename waiting for the impact analysis
+  const [pendingRename, setPendingRename] = useState<{
+    issue: ValidationIssue;
+    change: ImpactChange;
+  } | null>(null);
 
   // Use useShallow for shallow comparison to prevent unnecessary re-renders
   const { issues, clearAllIssues, removeIssue, lastValidatedAt, isValidatingStore } =
@@ -52,6 +62,8 @@ export const ValidationWarnings: React.FC<ValidationWarningsProps> = ({ classNam
 
   // Get removeRelationship from model store for fixing dangling relationships
   const removeRelationship = useModelStore((state) => state.removeRelationship);
+  const updateTable = useModelStore((state) => state.updateTable);
+  const updateColumn = useModelStore((state) => state.updateColumn);
 
   // Compute derived values with useMemo to avoid recalculating on every render
   const activeIssues = useMemo(() => issues.filter((i: ValidationIssue) => i.isActive), [issues]);
@@ -124,6 +136,53 @@ export const ValidationWarnings: React.FC<ValidationWarningsProps> = ({ classNam
     [removeRelationship]
   );
 
+  // Rename to the suggested name of a naming issue; the model changes before the first await,
+  // so inside the impact analysis transaction they share its undo step
+  const applySuggestion = useCallback(
+    async (issue: ValidationIssue) => {
+      if (!issue.suggestion) return;
+      if (issue.columnId) {
+        updateColumn(issue.resourceId, issue.columnId, { name: issue.suggestion });
+      } else {
+        updateTable(issue.resourceId, { name: issue.suggestion });
+      }
+      useWorkspaceStore.getState().setPendingChanges(true);
+      removeIssue(issue.id);
+      setIsValidating(true);
+      try {
+        await runWorkspaceValidation();
+      } finally {
+        setIsValidating(false);
+      }
+    },
+    [updateTable, updateColumn, removeIssue]
+  );
+
+  // Column renames that other artifacts depend on are reviewed first, as in the table editor
+  const handleApplySuggestion = useCallback(
+    (issue: ValidationIssue) => {
+      if (!issue.suggestion) return;
+      if (issue.columnId) {
+        const change: ImpactChange = {
+          kind: 'rename-column',
+          tableId: issue.resourceId,
+          columnId: issue.columnId,
+          newName: issue.suggestion,
+        };
+        const input = {
+          ...useModelStore.getState(),
+          decisions: useDecisionStore.getState().decisions,
+        };
+        if (analyzeImpact(change, input).items.length > 0) {
+          setPendingRename({ issue, change });
+          return;
+        }
+      }
+      void applySuggestion(issue);
+    },
+    [applySuggestion]
+  );
+
   // Format relative time
   const formatRelativeTime = useCallback((isoString: string | null): string => {
     if (!isoString) return '';
@@ -300,6 +359,16 @@ export const ValidationWarnings: React.FC<ValidationWarningsProps> = ({ classNam
                                 Remove Relationship
                               </button>
                             )}
+                          {/* Rename to the name suggested by the naming policy */}
+                          {issue.resourceType === 'table' && issue.suggestion && (
+                            <button
+                              onClick={() => handleApplySuggestion(issue)}
+                              className="mt-1.5 text-xs px-2 py-0.5 bg-blue-100 text-blue-700 hover:bg-blue-200 rounded"
+                              title="Rename to the suggested name"
+                            >
+                              Rename to <span className="font-mono">{issue.suggestion}</span>
+                            </button>
+                          )}
                         </div>
                         <button
                           onClick={() => handleRemoveIssue(issue.id)}
@@ -337,6 +406,17 @@ export const ValidationWarnings: React.FC<ValidationWarningsProps> = ({ classNam
           </div>
         </div>
       )}
+
+      <ImpactAnalysisDialog
+        isOpen={pendingRename !== null}
+        change={pendingRename?.change ?? null}
+        onCancel={() => setPendingRename(null)}
+        onProceed={() => {
+          const issue = pendingRename?.issue;
+          setPendingRename(null);
+          if (issue) void applySuggestion(issue);
+        }}
+      />
     </div>
   );
 };
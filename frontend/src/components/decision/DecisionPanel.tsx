@@ -3,7 +3,7 @@
  * Main panel for viewing and managing MADR decisions within a domain
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { DecisionList } from './DecisionList';
 import { DecisionEditor } from './DecisionEditor';
 import { DecisionViewer } from './DecisionViewer';
@@ -28,6 +28,15 @@ export const DecisionPanel: React.FC<DecisionPanelProps> = ({
   const { selectedDecision, setSelectedDecision } = useDecisionStore();
   const [mode, setMode] = useState<PanelMode>('list');
 
+  // Show items selected from outside the list (e.g., global search). Only reacts to a new
+  // selection, so that going back to the list keeps the list.
+  const selectedDecisionId = selectedDecision?.id;
+  useEffect(() => {
+    if (selectedDecisionId) {
+      setMode((current) => (current === 'list' ? 'view' : current));
+    }
+  }, [selectedDecisionId]);
+
   const handleSelectDecision = (decision: Decision) => {
     setSelectedDecision(decision);
     setMode('view');
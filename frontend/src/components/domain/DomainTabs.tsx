@@ -10,6 +10,7 @@ import { useWorkspaceStore } from '@/stores/workspaceStore';
 import { useDecisionStore } from '@/stores/decisionStore';
 import { useKnowledgeStore } from '@/stores/knowledgeStore';
 import { useSketchStore } from '@/stores/sketchStore';
+import { useGlossaryStore } from '@/stores/glossaryStore';
 import { workspaceService } from '@/services/api/workspaceService';
 import { useSDKModeStore } from '@/services/sdk/sdkMode';
 import { HelpText } from '@/components/common/HelpText';
@@ -47,6 +48,7 @@ export const DomainTabs: React.FC<DomainTabsProps> = ({ workspaceId }) => {
   const { decisions } = useDecisionStore();
   const { articles } = useKnowledgeStore();
   const { sketches } = useSketchStore();
+  const glossaryTerms = useGlossaryStore((state) => state.terms);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [showBPMNEditor, setShowBPMNEditor] = useState(false);
   const [editingProcessId, setEditingProcessId] = useState<string | null>(null);
@@ -373,7 +375,8 @@ export const DomainTabs: React.FC<DomainTabsProps> = ({ workspaceId }) => {
           dmnDecisions,
           articles,
           decisions,
-          sketches
+          sketches,
+          glossaryTerms
         );
 
         addToast({
@@ -408,7 +411,8 @@ export const DomainTabs: React.FC<DomainTabsProps> = ({ workspaceId }) => {
           dmnDecisions,
           articles,
           decisions,
-          sketches
+          sketches,
+          glossaryTerms
         );
 
         addToast({
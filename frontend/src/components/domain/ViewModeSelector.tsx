@@ -124,6 +124,51 @@ const VIEW_MODES: ViewModeOption[] = [
       </svg>
     ),
   },
+  {
+    value: 'glossary',
+    label: 'Glossary',
+    description: 'Business terms and definitions',
+    icon: (
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+        />
+      </svg>
+    ),
+  },
+  {
+    value: 'lineage',
+    label: 'Lineage',
+    description: 'Column-level lineage',
+    icon: (
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M4 6h4m-4 12h4m0-12a2 2 0 104 0 2 2 0 00-4 0zm0 12a2 2 0 104 0 2 2 0 00-4 0zm4-12c4 0 4 6 8 6m-8 6c4 0 4-6 8-6m0 0a2 2 0 104 0 2 2 0 00-4 0z"
+        />
+      </svg>
+    ),
+  },
+  {
+    value: 'sensitivity',
+    label: 'Sensitivity',
+    description: 'Data classifications',
+    icon: (
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+        />
+      </svg>
+    ),
+  },
   {
     value: 'sketch',
     label: 'Sketches',
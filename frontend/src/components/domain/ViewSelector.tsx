@@ -53,6 +53,21 @@ const VIEW_MODES: Array<{ value: ViewMode; label: string; description: string }>
     label: 'Knowledge',
     description: 'Knowledge base articles and documentation',
   },
+  {
+    value: 'glossary',
+    label: 'Glossary',
+    description: 'Business glossary terms, definitions and their usage in the model',
+  },
+  {
+    value: 'lineage',
+    label: 'Lineage',
+    description: 'Column-level lineage across domains, data levels, metric views and products',
+  },
+  {
+    value: 'sensitivity',
+    label: 'Sensitivity',
+    description: 'Column classifications per domain, system and data product, and policy findings',
+  },
   {
     value: 'sketch',
     label: 'Sketches',
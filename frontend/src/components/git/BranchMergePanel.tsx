@@ -104,6 +104,8 @@ export const BranchMergePanel: React.FC<BranchMergePanelProps> = ({ className =
 
       // Get all changed files that might have conflicts
       const changedFiles = comparison.files || [];
+      // Common ancestor, for the three-way model merge of YAML files
+      const mergeBase = comparison.merge_base_commit?.sha;
 
       // For each changed file, fetch both versions
       const conflictFiles: ConflictFile[] = [];
@@ -118,13 +120,15 @@ export const BranchMergePanel: React.FC<BranchMergePanelProps> = ({ className =
             workspace.repo,
             file.filename,
             baseBranch,
-            headBranch
+            headBranch,
+            mergeBase
           );
 
           conflictFiles.push({
             path: file.filename,
             oursContent: contents.oursContent,
             theirsContent: contents.theirsContent,
+            baseContent: contents.baseContent,
           });
         } catch (err) {
           // File might not exist in one branch (added/deleted)
@@ -405,6 +409,7 @@ export const BranchMergePanel: React.FC<BranchMergePanelProps> = ({ className =
           {/* Conflict resolver */}
           <div className="flex-1 overflow-hidden">
             <MergeConflictResolver
+              key={currentFile.path}
               file={currentFile}
               oursBranch={conflictState.baseBranch}
               theirsBranch={conflictState.headBranch}
@@ -0,0 +1,163 @@
+/**
+ * Contract Compatibility Panel
+ * Classifies the changes to ODCS contracts between two versions as breaking, additive or
+ * cosmetic and suggests the semantic version bump (see utils/contractCompatibility).
+ * Shown with the pending changes in the Git panel and in the files of a pull request.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  analyzeContractFiles,
+  combinedBump,
+  CONTRACT_CHANGE_IMPACTS,
+  type ContractChangeImpact,
+  type ContractCompatibilityReport,
+  type ContractFileVersions,
+  type SemverBump,
+} from '@/utils/contractCompatibility';
+
+export interface ContractCompatibilityPanelProps {
+  /** Loads both versions of the changed files; non-contract files are ignored */
+  loadFiles: () => Promise<ContractFileVersions[]>;
+  className?: string;
+}
+
+const IMPACT_STYLES: Record<ContractChangeImpact, string> = {
+  breaking: 'bg-red-100 text-red-800',
+  additive: 'bg-green-100 text-green-800',
+  cosmetic: 'bg-gray-100 text-gray-700',
+};
+
+const BUMP_STYLES: Record<SemverBump, string> = {
+  major: 'bg-red-100 text-red-800',
+  minor: 'bg-green-100 text-green-800',
+  patch: 'bg-gray-100 text-gray-700',
+  none: 'bg-gray-100 text-gray-500',
+};
+
+export const ContractCompatibilityPanel: React.FC<ContractCompatibilityPanelProps> = ({
+  loadFiles,
+  className = '',
+}) => {
+  const [reports, setReports] = useState<ContractCompatibilityReport[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    loadFiles()
+      .then(analyzeContractFiles)
+      .then((result) => {
+        if (!cancelled) setReports(result);
+      })
+      .catch((error) => {
+        console.error('[ContractCompatibilityPanel] Failed to compare contracts:', error);
+        if (!cancelled) setReports([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadFiles]);
+
+  if (!isLoading && reports.length === 0) return null;
+
+  const bump = combinedBump(reports);
+  const counts = CONTRACT_CHANGE_IMPACTS.map((impact) => ({
+    impact,
+    count: reports.reduce((n, r) => n + r.changes.filter((c) => c.impact === impact).length, 0),
+  })).filter((c) => c.count > 0);
+  const unbumped = reports.filter((r) => !r.versionBumped).length;
+
+  return (
+    <div className={`border-t border-gray-200 ${className}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-gray-50"
+        aria-expanded={expanded}
+      >
+        <svg
+          className={`w-3 h-3 text-gray-400 transition-transform ${expanded ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="text-xs font-medium text-gray-700">Contract compatibility</span>
+        {isLoading ? (
+          <span className="text-xs text-gray-400">Comparing...</span>
+        ) : (
+          <>
+            <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${BUMP_STYLES[bump]}`}>
+              {bump === 'none' ? 'No bump' : `${bump} bump`}
+            </span>
+            {counts.map(({ impact, count }) => (
+              <span key={impact} className="text-xs text-gray-500">
+                {count} {impact}
+              </span>
+            ))}
+            {unbumped > 0 && (
+              <span
+                className="ml-auto text-xs text-yellow-700"
+                title="Contract version lower than the suggested version"
+              >
+                {unbumped} version(s) to update
+              </span>
+            )}
+          </>
+        )}
+      </button>
+
+      {expanded && !isLoading && (
+        <div className="max-h-64 overflow-y-auto px-3 pb-3 space-y-3">
+          {reports.map((report) => (
+            <div key={`${report.path}:${report.tableId}`} className="text-xs">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-900">{report.tableName}</span>
+                {report.bump !== 'none' && (
+                  <span className={`px-1 rounded ${BUMP_STYLES[report.bump]}`}>{report.bump}</span>
+                )}
+                <span className="text-gray-400 truncate" title={report.path}>
+                  {report.path}
+                </span>
+              </div>
+              {report.error ? (
+                <p className="text-red-600">{report.error}</p>
+              ) : (
+                <>
+                  {report.suggestedVersion && report.previousVersion && (
+                    <p className={report.versionBumped ? 'text-gray-500' : 'text-yellow-700'}>
+                      Version {report.previousVersion} → {report.version ?? 'unset'}
+                      {!report.versionBumped && `, suggested ${report.suggestedVersion}`}
+                    </p>
+                  )}
+                  <ul className="mt-1 space-y-0.5">
+                    {report.changes.map((change, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <span
+                          className={`px-1 rounded flex-shrink-0 ${IMPACT_STYLES[change.impact]}`}
+                        >
+                          {change.impact}
+                        </span>
+                        <span className="text-gray-700">
+                          {change.columnName && (
+                            <span className="font-mono">{change.columnName}: </span>
+                          )}
+                          {change.message}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
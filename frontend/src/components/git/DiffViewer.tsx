@@ -1,14 +1,19 @@
 /**
  * Diff Viewer Component
- * Displays git diff output with syntax highlighting
+ * Displays git diff output with syntax highlighting, or the model changes when the
+ * host can load both versions of the files
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
+import { SemanticDiffView } from './SemanticDiffView';
+import type { WorkspaceSnapshots } from '@/utils/workspaceSnapshot';
 
 export interface DiffViewerProps {
   diff: string;
   isLoading?: boolean;
   fileName?: string;
+  /** Loads both versions of the changed files for the model view */
+  loadSnapshots?: () => Promise<WorkspaceSnapshots>;
 }
 
 interface DiffLine {
@@ -17,7 +22,14 @@ interface DiffLine {
   lineNumber?: number;
 }
 
-export const DiffViewer: React.FC<DiffViewerProps> = ({ diff, isLoading = false, fileName }) => {
+export const DiffViewer: React.FC<DiffViewerProps> = ({
+  diff,
+  isLoading = false,
+  fileName,
+  loadSnapshots,
+}) => {
+  const [showModel, setShowModel] = useState(false);
+
   const parsedLines = useMemo((): DiffLine[] => {
     if (!diff) return [];
 
@@ -91,32 +103,58 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ diff, isLoading = false,
   return (
     <div className="h-full flex flex-col overflow-hidden">
       {/* Header */}
-      {fileName && (
-        <div className="px-3 py-1.5 bg-gray-100 border-b border-gray-200 text-xs font-medium text-gray-600 truncate">
-          {fileName}
+      {(fileName || loadSnapshots) && (
+        <div className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 border-b border-gray-200 text-xs font-medium text-gray-600">
+          <span className="truncate">{fileName}</span>
+          {loadSnapshots && (
+            <div className="ml-auto flex rounded border border-gray-300 overflow-hidden flex-shrink-0">
+              {[
+                { label: 'Lines', model: false },
+                { label: 'Model', model: true },
+              ].map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => setShowModel(option.model)}
+                  className={`px-2 py-0.5 ${
+                    showModel === option.model
+                      ? 'bg-white text-gray-900'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
-      {/* Diff content */}
-      <div className="flex-1 overflow-auto">
-        <pre className="text-xs font-mono leading-relaxed">
-          {parsedLines.map((line, index) => (
-            <div key={index} className={`px-3 py-0.5 ${getLineStyle(line.type)}`}>
-              {line.content || ' '}
-            </div>
-          ))}
-        </pre>
-      </div>
+      {showModel && loadSnapshots ? (
+        <SemanticDiffView loadSnapshots={loadSnapshots} className="flex-1" />
+      ) : (
+        <>
+          {/* Diff content */}
+          <div className="flex-1 overflow-auto">
+            <pre className="text-xs font-mono leading-relaxed">
+              {parsedLines.map((line, index) => (
+                <div key={index} className={`px-3 py-0.5 ${getLineStyle(line.type)}`}>
+                  {line.content || ' '}
+                </div>
+              ))}
+            </pre>
+          </div>
 
-      {/* Stats footer */}
-      <div className="px-3 py-1.5 bg-gray-50 border-t border-gray-200 text-xs text-gray-500 flex gap-3">
-        <span className="text-green-600">
-          +{parsedLines.filter((l) => l.type === 'addition').length}
-        </span>
-        <span className="text-red-600">
-          -{parsedLines.filter((l) => l.type === 'deletion').length}
-        </span>
-      </div>
+          {/* Stats footer */}
+          <div className="px-3 py-1.5 bg-gray-50 border-t border-gray-200 text-xs text-gray-500 flex gap-3">
+            <span className="text-green-600">
+              +{parsedLines.filter((l) => l.type === 'addition').length}
+            </span>
+            <span className="text-red-600">
+              -{parsedLines.filter((l) => l.type === 'deletion').length}
+            </span>
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -21,6 +21,7 @@ import { TagPanel } from './TagPanel';
 import { PullRequestsPanel } from './PullRequestsPanel';
 import { CacheManagementPanel } from './CacheManagementPanel';
 import { BranchMergePanel } from './BranchMergePanel';
+import { ContractCompatibilityPanel } from './ContractCompatibilityPanel';
 import { ValidationConfirmDialog } from '@/components/common/ValidationConfirmDialog';
 import { useGitHubStore, selectIsAuthenticated } from '@/stores/githubStore';
 import {
@@ -33,6 +34,8 @@ import { offlineQueueService } from '@/services/github/offlineQueueService';
 import { githubApi } from '@/services/github/githubApi';
 import type { PendingChange } from '@/types/github-repo';
 import type { GitHubBranch } from '@/types/github';
+import { isContractFile, type ContractFileVersions } from '@/utils/contractCompatibility';
+import type { WorkspaceSnapshots } from '@/utils/workspaceSnapshot';
 import * as Diff from 'diff';
 
 // Constants for panel resizing
@@ -223,6 +226,74 @@ export const GitPanel: React.FC<GitPanelProps> = ({ className = '' }) => {
     }
   }, [selectedFile, activeTab, status.files.length]);
 
+  // Contract versions for the compatibility check: working copy vs HEAD
+  const loadLocalContractFiles = useCallback(
+    (): Promise<ContractFileVersions[]> =>
+      Promise.all(
+        status.files
+          .filter((f) => isContractFile(f.path))
+          .map(async (f) => ({
+            path: f.path,
+            before:
+              f.status === 'added' || f.status === 'untracked'
+                ? undefined
+                : await gitService.getFileAtRef(f.oldPath ?? f.path, 'HEAD'),
+            after: f.status === 'deleted' ? undefined : await gitService.getFileAtRef(f.path),
+          }))
+      ),
+    [status.files]
+  );
+
+  // GitHub repo mode: pending changes vs the cached remote version
+  const loadPendingContractFiles = useCallback(async (): Promise<ContractFileVersions[]> => {
+    const workspaceId = githubRepoWorkspace?.id;
+    if (!workspaceId) return [];
+    return Promise.all(
+      pendingChanges
+        .filter((c) => isContractFile(c.path))
+        .map(async (c) => ({
+          path: c.path,
+          before:
+            c.action === 'create'
+              ? undefined
+              : (await offlineQueueService.getCachedFile(workspaceId, c.path))?.content,
+          after: c.action === 'delete' ? undefined : c.content,
+        }))
+    );
+  }, [pendingChanges, githubRepoWorkspace]);
+
+  // Model changes of the selected file, or of all changes: working copy vs HEAD
+  const loadLocalSnapshots = useCallback(
+    (): Promise<WorkspaceSnapshots> =>
+      gitService.getWorkspaceSnapshots(
+        selectedFile ? status.files.filter((f) => f.path === selectedFile) : status.files
+      ),
+    [selectedFile, status.files]
+  );
+
+  // GitHub repo mode: the selected pending change vs the cached remote version
+  const loadPendingSnapshots = useCallback(async (): Promise<WorkspaceSnapshots> => {
+    const workspaceId = githubRepoWorkspace?.id;
+    const change = selectedPendingChange;
+    if (!workspaceId || !change) return { before: [], after: [] };
+
+    const cachedFiles = await offlineQueueService.getCachedFiles(workspaceId);
+    const original = cachedFiles.find((f) => f.path === change.path);
+    const context = cachedFiles
+      .filter((f) => f.path.endsWith('.workspace.yaml') && f.path !== change.path)
+      .map((f) => ({ path: f.path, content: f.content }));
+    return {
+      before:
+        change.action === 'create' || !original
+          ? context
+          : [...context, { path: change.path, content: original.content }],
+      after:
+        change.action === 'delete'
+          ? context
+          : [...context, { path: change.path, content: change.content || '' }],
+    };
+  }, [selectedPendingChange, githubRepoWorkspace]);
+
   // Perform the actual commit
   const performCommit = useCallback(async () => {
     if (!commitMessage.trim()) return;
@@ -1044,10 +1115,15 @@ export const GitPanel: React.FC<GitPanelProps> = ({ className = '' }) => {
                     diff={pendingChangeDiff || ''}
                     isLoading={isLoadingPendingDiff}
                     fileName={selectedPendingChange.path}
+                    loadSnapshots={loadPendingSnapshots}
                   />
                 </div>
               )}
 
+              {pendingChanges.length > 0 && (
+                <ContractCompatibilityPanel loadFiles={loadPendingContractFiles} />
+              )}
+
               {/* Commit section for GitHub repo mode - only when there are staged changes */}
               {hasStagedChanges && (
                 <div className="border-t border-gray-200 p-3">
@@ -1122,10 +1198,15 @@ export const GitPanel: React.FC<GitPanelProps> = ({ className = '' }) => {
                     diff={diffContent}
                     isLoading={isLoadingDiff}
                     fileName={selectedFile || undefined}
+                    loadSnapshots={loadLocalSnapshots}
                   />
                 </div>
               )}
 
+              {status.files.length > 0 && (
+                <ContractCompatibilityPanel loadFiles={loadLocalContractFiles} />
+              )}
+
               {/* Commit section */}
               {status.files.length > 0 && (
                 <div className="border-t border-gray-200 p-3">
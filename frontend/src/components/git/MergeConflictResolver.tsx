@@ -4,16 +4,20 @@
  * - Top-left: "Ours" (PR branch version) with highlighted differences
  * - Top-right: "Theirs" (base branch version) with highlighted differences
  * - Bottom: "Result" (editable merged version with line numbers)
+ * Workspace YAML files with a known common ancestor open in the model merge instead
+ * (SemanticMergeView), which only asks about real conflicts.
  */
 
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import * as Diff from 'diff';
+import { isMergeableYaml, mergeWorkspaceYaml } from '@/utils/workspaceMerge';
+import { SemanticMergeView } from './SemanticMergeView';
 
 export interface ConflictFile {
   path: string;
   oursContent: string;
   theirsContent: string;
-  baseContent?: string;
+  baseContent?: string; // Common ancestor ('' if the file did not exist there)
   oursExists?: boolean;
   theirsExists?: boolean;
 }
@@ -47,6 +51,16 @@ export const MergeConflictResolver: React.FC<MergeConflictResolverProps> = ({
   const [resolvedContent, setResolvedContent] = useState('');
   const [showLineNumbers, setShowLineNumbers] = useState(true);
   const [selectedHunk, setSelectedHunk] = useState<number | null>(null);
+  const [showLines, setShowLines] = useState(false);
+
+  // Model merge of YAML files; null when it does not apply or a side does not parse
+  const semanticMerge = useMemo(
+    () =>
+      file.baseContent !== undefined && isMergeableYaml(file.path)
+        ? mergeWorkspaceYaml(file.baseContent, file.oursContent, file.theirsContent)
+        : null,
+    [file.path, file.baseContent, file.oursContent, file.theirsContent]
+  );
 
   // Parse differences into hunks
   const diffHunks = useMemo(() => {
@@ -318,6 +332,24 @@ export const MergeConflictResolver: React.FC<MergeConflictResolverProps> = ({
     );
   }
 
+  if (semanticMerge && !showLines) {
+    return (
+      <SemanticMergeView
+        path={file.path}
+        baseContent={file.baseContent ?? ''}
+        oursContent={file.oursContent}
+        theirsContent={file.theirsContent}
+        oursBranch={oursBranch}
+        theirsBranch={theirsBranch}
+        initialMerge={semanticMerge}
+        onResolve={onResolve}
+        onCancel={onCancel}
+        onShowLines={() => setShowLines(true)}
+        className={className}
+      />
+    );
+  }
+
   return (
     <div className={`flex flex-col h-full bg-white ${className}`}>
       {/* Header */}
@@ -347,6 +379,14 @@ export const MergeConflictResolver: React.FC<MergeConflictResolverProps> = ({
             />
             Lines
           </label>
+          {semanticMerge && (
+            <button
+              onClick={() => setShowLines(false)}
+              className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+            >
+              Model view
+            </button>
+          )}
           <button
             onClick={acceptAllOurs}
             className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
@@ -0,0 +1,212 @@
+/**
+ * Semantic Diff View
+ * Shows what changed in the model between two versions of the workspace files, grouped by
+ * resource type with column changes under their table and before/after values for each
+ * changed field (see utils/workspaceDiff). Used next to the line diffs of the Git panel,
+ * branch comparisons and pull requests.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  buildChangeTree,
+  describeChange,
+  formatChangeValue,
+  type ChangeTreeGroup,
+  type WorkspaceChange,
+  type WorkspaceChangeKind,
+} from '@/utils/workspaceDiff';
+import { diffWorkspaceSnapshots, type WorkspaceSnapshots } from '@/utils/workspaceSnapshot';
+
+export interface SemanticDiffViewProps {
+  /** Loads the changed files of both versions */
+  loadSnapshots: () => Promise<WorkspaceSnapshots>;
+  className?: string;
+}
+
+const KIND_STYLES: Record<WorkspaceChangeKind, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  modified: 'bg-yellow-100 text-yellow-800',
+};
+
+const ChangeRow: React.FC<{
+  change: WorkspaceChange;
+  onSelect?: (change: WorkspaceChange) => void;
+}> = ({ change, onSelect }) => (
+  <div className="text-xs">
+    <div className="flex items-center gap-2">
+      <span className={`px-1 rounded flex-shrink-0 ${KIND_STYLES[change.kind]}`}>
+        {change.kind}
+      </span>
+      {onSelect ? (
+        <button
+          onClick={() => onSelect(change)}
+          className="font-medium text-gray-900 truncate hover:text-blue-600 hover:underline"
+        >
+          {change.name}
+        </button>
+      ) : (
+        <span className="font-medium text-gray-900 truncate">{change.name}</span>
+      )}
+      {describeChange(change).map((note) => (
+        <span key={note} className="px-1 rounded bg-blue-50 text-blue-700 flex-shrink-0">
+          {note}
+        </span>
+      ))}
+    </div>
+    {change.fields && change.fields.length > 0 && (
+      <table className="mt-1 ml-4 text-xs">
+        <tbody>
+          {change.fields.map((f) => (
+            <tr key={f.field} className="align-top">
+              <td className="pr-3 text-gray-500 font-mono">{f.field}</td>
+              <td className="pr-2 text-red-700 line-through break-all">
+                {formatChangeValue(f.before)}
+              </td>
+              <td className="text-green-700 break-all">{formatChangeValue(f.after)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export interface ChangeTreeViewProps {
+  changes: WorkspaceChange[];
+  /** Called when the name of a change is clicked, e.g. to show it on the canvas */
+  onSelect?: (change: WorkspaceChange) => void;
+  className?: string;
+}
+
+/**
+ * Grouped tree of already computed changes
+ */
+export const ChangeTreeView: React.FC<ChangeTreeViewProps> = ({
+  changes,
+  onSelect,
+  className = '',
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggleGroup = (group: ChangeTreeGroup) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(group.resourceType)) next.delete(group.resourceType);
+      else next.add(group.resourceType);
+      return next;
+    });
+  };
+
+  const tree = buildChangeTree(changes);
+  const count = (kind: WorkspaceChangeKind) => changes.filter((c) => c.kind === kind).length;
+
+  return (
+    <div className={`overflow-auto ${className}`}>
+      <div className="px-3 py-1.5 bg-gray-50 border-b border-gray-200 text-xs text-gray-500 flex gap-3">
+        <span className="text-green-600">{count('added')} added</span>
+        <span className="text-red-600">{count('removed')} removed</span>
+        <span className="text-yellow-700">{count('modified')} modified</span>
+      </div>
+      {tree.map((group) => {
+        const isCollapsed = collapsed.has(group.resourceType);
+        return (
+          <div key={group.resourceType} className="border-b border-gray-100">
+            <button
+              onClick={() => toggleGroup(group)}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-gray-50"
+              aria-expanded={!isCollapsed}
+            >
+              <svg
+                className={`w-3 h-3 text-gray-400 transition-transform ${isCollapsed ? '' : 'rotate-90'}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 5l7 7-7 7"
+                />
+              </svg>
+              <span className="text-xs font-medium text-gray-700">{group.label}</span>
+              <span className="text-xs text-gray-400">{group.nodes.length}</span>
+            </button>
+            {!isCollapsed && (
+              <ul className="px-3 pb-2 space-y-1.5">
+                {group.nodes.map((node) => (
+                  <li key={node.id}>
+                    {node.change ? (
+                      <ChangeRow change={node.change} onSelect={onSelect} />
+                    ) : (
+                      <span className="text-xs font-medium text-gray-700">{node.name}</span>
+                    )}
+                    {node.children.length > 0 && (
+                      <ul className="mt-1 ml-4 pl-2 border-l border-gray-200 space-y-1">
+                        {node.children.map((child) => (
+                          <li key={child.id}>
+                            <ChangeRow change={child} onSelect={onSelect} />
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export const SemanticDiffView: React.FC<SemanticDiffViewProps> = ({
+  loadSnapshots,
+  className = '',
+}) => {
+  const [changes, setChanges] = useState<WorkspaceChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadSnapshots()
+      .then(diffWorkspaceSnapshots)
+      .then((result) => {
+        if (!cancelled) setChanges(result);
+      })
+      .catch((err) => {
+        console.error('[SemanticDiffView] Failed to compare the model:', err);
+        if (!cancelled) {
+          setChanges([]);
+          setError(err instanceof Error ? err.message : 'Failed to compare the model');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadSnapshots]);
+
+  if (isLoading) {
+    return (
+      <div className={`p-4 text-center text-sm text-gray-500 ${className}`}>Comparing model...</div>
+    );
+  }
+  if (error) {
+    return <div className={`p-4 text-sm text-red-600 ${className}`}>{error}</div>;
+  }
+  if (changes.length === 0) {
+    return (
+      <div className={`p-4 text-center text-sm text-gray-500 ${className}`}>No model changes</div>
+    );
+  }
+
+  return <ChangeTreeView changes={changes} className={className} />;
+};
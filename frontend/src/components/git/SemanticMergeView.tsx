@@ -0,0 +1,233 @@
+/**
+ * Semantic Merge View
+ * Model-aware alternative to the line-based merge conflict resolver for workspace YAML:
+ * changes that do not overlap are merged automatically (see utils/workspaceMerge) and only
+ * values both sides changed differently are listed, each with base, ours and theirs to pick
+ * from. The merged file is written back as YAML.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  formatMergeValue,
+  mergeWorkspaceYaml,
+  type MergeSide,
+  type SemanticMergeResult,
+} from '@/utils/workspaceMerge';
+
+export interface SemanticMergeViewProps {
+  path: string;
+  baseContent: string;
+  oursContent: string;
+  theirsContent: string;
+  oursBranch: string;
+  theirsBranch: string;
+  /** Merge without any resolutions, already computed by the caller */
+  initialMerge: SemanticMergeResult;
+  onResolve: (resolvedContent: string) => void;
+  onCancel: () => void;
+  onShowLines: () => void;
+  className?: string;
+}
+
+const SIDE_STYLES: Record<MergeSide, { idle: string; picked: string }> = {
+  ours: {
+    idle: 'border-blue-200 hover:bg-blue-50',
+    picked: 'border-blue-500 bg-blue-50 ring-2 ring-blue-200',
+  },
+  theirs: {
+    idle: 'border-green-200 hover:bg-green-50',
+    picked: 'border-green-500 bg-green-50 ring-2 ring-green-200',
+  },
+};
+
+const ValueBlock: React.FC<{ value: unknown }> = ({ value }) => (
+  <pre
+    className={`whitespace-pre-wrap break-all font-mono text-xs ${
+      value === undefined ? 'italic text-gray-400' : 'text-gray-800'
+    }`}
+  >
+    {formatMergeValue(value)}
+  </pre>
+);
+
+export const SemanticMergeView: React.FC<SemanticMergeViewProps> = ({
+  path,
+  baseContent,
+  oursContent,
+  theirsContent,
+  oursBranch,
+  theirsBranch,
+  initialMerge,
+  onResolve,
+  onCancel,
+  onShowLines,
+  className = '',
+}) => {
+  const [resolutions, setResolutions] = useState<Record<string, MergeSide>>({});
+  const [showResult, setShowResult] = useState(false);
+
+  // Merging again with the picked sides; conflicts stay the same, only the result changes
+  const merge = useMemo(
+    () =>
+      Object.keys(resolutions).length === 0
+        ? initialMerge
+        : (mergeWorkspaceYaml(baseContent, oursContent, theirsContent, resolutions) ??
+          initialMerge),
+    [initialMerge, baseContent, oursContent, theirsContent, resolutions]
+  );
+
+  const unresolvedCount = merge.conflicts.filter((c) => !resolutions[c.id]).length;
+
+  const pick = (conflictId: string, side: MergeSide) =>
+    setResolutions((prev) => ({ ...prev, [conflictId]: side }));
+
+  const pickAll = (side: MergeSide) =>
+    setResolutions(Object.fromEntries(merge.conflicts.map((c) => [c.id, side])));
+
+  return (
+    <div className={`flex flex-col h-full bg-white ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b flex-shrink-0">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Merge Model Changes</h3>
+          <p className="text-xs text-gray-500 font-mono">{path}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-green-700 bg-green-50 px-2 py-1 rounded">
+            {merge.autoMerged.length} merged automatically
+          </span>
+          <span className="text-xs text-orange-600 bg-orange-50 px-2 py-1 rounded">
+            {merge.conflicts.length} conflict{merge.conflicts.length !== 1 ? 's' : ''}
+          </span>
+          {merge.conflicts.length > 0 && (
+            <>
+              <button
+                onClick={() => pickAll('ours')}
+                className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+              >
+                Use All Ours
+              </button>
+              <button
+                onClick={() => pickAll('theirs')}
+                className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200"
+              >
+                Use All Theirs
+              </button>
+            </>
+          )}
+          <button
+            onClick={onShowLines}
+            className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+          >
+            Line view
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-3 min-h-0">
+        {merge.conflicts.length === 0 ? (
+          <div className="p-3 text-sm text-green-800 bg-green-50 border border-green-200 rounded-lg">
+            All changes of both branches were merged automatically.
+          </div>
+        ) : (
+          merge.conflicts.map((conflict) => (
+            <div key={conflict.id} className="border border-gray-200 rounded-lg">
+              <div className="px-3 py-1.5 bg-gray-50 border-b text-xs font-mono text-gray-800 rounded-t-lg">
+                {conflict.label}
+              </div>
+              <div className="grid grid-cols-3 gap-2 p-2">
+                <div className="p-2 border border-gray-200 rounded">
+                  <div className="mb-1 text-xs font-medium text-gray-500">Base</div>
+                  <ValueBlock value={conflict.base} />
+                </div>
+                {(['ours', 'theirs'] as const).map((side) => {
+                  const isPicked = resolutions[conflict.id] === side;
+                  return (
+                    <button
+                      key={side}
+                      onClick={() => pick(conflict.id, side)}
+                      className={`p-2 text-left border rounded ${
+                        isPicked ? SIDE_STYLES[side].picked : SIDE_STYLES[side].idle
+                      }`}
+                      aria-pressed={isPicked}
+                    >
+                      <div
+                        className={`mb-1 text-xs font-medium ${
+                          side === 'ours' ? 'text-blue-800' : 'text-green-800'
+                        }`}
+                      >
+                        {side === 'ours' ? `Ours (${oursBranch})` : `Theirs (${theirsBranch})`}
+                      </div>
+                      <ValueBlock value={conflict[side]} />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))
+        )}
+
+        {merge.autoMerged.length > 0 && (
+          <details className="border border-gray-200 rounded-lg">
+            <summary className="px-3 py-1.5 text-xs font-medium text-gray-700 cursor-pointer">
+              Merged automatically
+            </summary>
+            <ul className="px-3 pb-2 space-y-0.5">
+              {merge.autoMerged.map((change, i) => (
+                <li key={i} className="flex items-center gap-2 text-xs">
+                  <span className="font-mono text-gray-800 truncate">{change.label}</span>
+                  <span className="flex-shrink-0 text-gray-500">
+                    {change.side === 'ours'
+                      ? `from ${oursBranch}`
+                      : change.side === 'theirs'
+                        ? `from ${theirsBranch}`
+                        : 'from both'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <div className="border border-purple-200 rounded-lg">
+          <button
+            onClick={() => setShowResult(!showResult)}
+            className="w-full px-3 py-1.5 text-left text-xs font-medium text-purple-800 bg-purple-50 rounded-lg"
+            aria-expanded={showResult}
+          >
+            {showResult ? 'Hide' : 'Show'} merged file
+          </button>
+          {showResult && (
+            <pre className="p-3 max-h-80 overflow-auto font-mono text-xs whitespace-pre">
+              {merge.content || '(file removed)'}
+            </pre>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-t flex-shrink-0">
+        <p className="text-xs text-gray-500">
+          {unresolvedCount > 0
+            ? `Pick ours or theirs for ${unresolvedCount} remaining conflict${unresolvedCount !== 1 ? 's' : ''}`
+            : 'The merged file is written back as YAML'}
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onResolve(merge.content)}
+            disabled={unresolvedCount > 0}
+            className="px-4 py-1.5 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Mark as Resolved
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
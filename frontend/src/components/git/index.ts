@@ -19,3 +19,7 @@ export { PullRequestsPanel } from './PullRequestsPanel';
 export { CacheManagementPanel } from './CacheManagementPanel';
 // Branch Merge (GitHub repo mode)
 export { BranchMergePanel } from './BranchMergePanel';
+// Contract compatibility of pending changes and pull requests
+export { ContractCompatibilityPanel } from './ContractCompatibilityPanel';
+// Model changes between two versions of the workspace files
+export { SemanticDiffView } from './SemanticDiffView';
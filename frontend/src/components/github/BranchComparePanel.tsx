@@ -12,7 +12,10 @@ import {
   selectComparisonError,
 } from '@/stores/githubStore';
 import { githubApi } from '@/services/github/githubApi';
+import { githubContentsService } from '@/services/github/githubContentsService';
+import { SemanticDiffView } from '@/components/git/SemanticDiffView';
 import type { BranchComparison } from '@/types/github';
+import type { WorkspaceSnapshots } from '@/utils/workspaceSnapshot';
 
 export interface BranchComparePanelProps {
   baseBranch: string;
@@ -39,7 +42,7 @@ export const BranchComparePanel: React.FC<BranchComparePanelProps> = ({
   const setLoadingComparison = useGitHubStore((state) => state.setLoadingComparison);
   const setComparisonError = useGitHubStore((state) => state.setComparisonError);
 
-  const [activeTab, setActiveTab] = useState<'commits' | 'files'>('commits');
+  const [activeTab, setActiveTab] = useState<'commits' | 'files' | 'model'>('commits');
   const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
 
   // Load comparison data
@@ -75,6 +78,7 @@ export const BranchComparePanel: React.FC<BranchComparePanelProps> = ({
           additions: f.additions,
           deletions: f.deletions,
         })),
+        mergeBaseCommit: data.merge_base_commit?.sha,
       };
 
       setBranchComparison(branchComparison);
@@ -97,6 +101,27 @@ export const BranchComparePanel: React.FC<BranchComparePanelProps> = ({
     }
   }, [isConnected, loadComparison]);
 
+  // Changed files at the merge base and at the head branch, for the model tab
+  const loadSnapshots = useCallback(async (): Promise<WorkspaceSnapshots> => {
+    if (!connection || !comparison) return { before: [], after: [] };
+    const paths = comparison.files.map((f) => f.filename);
+    const [before, after] = await Promise.all([
+      githubContentsService.getWorkspaceSnapshot(
+        connection.owner,
+        connection.repo,
+        comparison.mergeBaseCommit ?? baseBranch,
+        paths
+      ),
+      githubContentsService.getWorkspaceSnapshot(
+        connection.owner,
+        connection.repo,
+        headBranch,
+        paths
+      ),
+    ]);
+    return { before, after };
+  }, [connection, comparison, baseBranch, headBranch]);
+
   // Toggle file expansion
   const toggleFile = (filename: string) => {
     setExpandedFiles((prev) => {
@@ -288,6 +313,16 @@ export const BranchComparePanel: React.FC<BranchComparePanelProps> = ({
                     {comparison.files.length}
                   </span>
                 </button>
+                <button
+                  onClick={() => setActiveTab('model')}
+                  className={`py-2 text-sm font-medium border-b-2 transition-colors ${
+                    activeTab === 'model'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  Model
+                </button>
               </div>
             </div>
 
@@ -295,6 +330,8 @@ export const BranchComparePanel: React.FC<BranchComparePanelProps> = ({
             <div className="flex-1 overflow-y-auto">
               {activeTab === 'commits' ? (
                 <CommitsTab commits={comparison.commits} formatRelativeTime={formatRelativeTime} />
+              ) : activeTab === 'model' ? (
+                <SemanticDiffView loadSnapshots={loadSnapshots} />
               ) : (
                 <FilesTab
                   files={comparison.files}
@@ -158,10 +158,21 @@ export const GitHubPRConflictPanel: React.FC<GitHubPRConflictPanelProps> = ({
     try {
       // First, check if we have known conflicting files from the conflict info
       let filesToResolve: string[] = [];
+      // Common ancestor of both branches, for the three-way model merge of YAML files
+      let mergeBaseSha: string | undefined;
 
       if (conflictInfo?.conflictingFiles && conflictInfo.conflictingFiles.length > 0) {
         // Use the known conflicting files
         filesToResolve = conflictInfo.conflictingFiles;
+        mergeBaseSha = await githubApi
+          .compareBranches(
+            connection.owner,
+            connection.repo,
+            pullRequest.base.ref,
+            pullRequest.head.ref
+          )
+          .then((c) => c.merge_base_commit?.sha)
+          .catch(() => undefined);
       } else {
         // Fallback: Get files that were modified in BOTH branches
         // by comparing head to base AND looking for files with status 'modified'
@@ -171,6 +182,7 @@ export const GitHubPRConflictPanel: React.FC<GitHubPRConflictPanelProps> = ({
           pullRequest.base.ref,
           pullRequest.head.ref
         );
+        mergeBaseSha = comparison.merge_base_commit?.sha;
 
         // Only consider files that are modified (not added/removed) as potential conflicts
         // Files that are added only exist in one branch, removed files only exist in the other
@@ -238,12 +250,34 @@ export const GitHubPRConflictPanel: React.FC<GitHubPRConflictPanelProps> = ({
             headExists = false;
           }
 
+          // Get content from the common ancestor ('' if the file did not exist there).
+          // Left undefined on other errors so the resolver falls back to the line view.
+          let ancestorContent: string | undefined;
+          if (mergeBaseSha) {
+            try {
+              const ancestorResult = await githubApi.getFileContentAsString(
+                connection.owner,
+                connection.repo,
+                filename,
+                mergeBaseSha
+              );
+              ancestorContent = ancestorResult.content;
+            } catch (err) {
+              if (githubApi.isNotFoundError(err)) {
+                ancestorContent = '';
+              } else {
+                console.warn(`Could not load common ancestor of ${filename}:`, err);
+              }
+            }
+          }
+
           // Add to conflict files if they differ
           if (baseContent !== headContent) {
             conflictFiles.push({
               path: filename,
               oursContent: headContent, // PR branch is "ours"
               theirsContent: baseContent, // Base branch is "theirs"
+              baseContent: ancestorContent, // Common ancestor
               // Store metadata about existence for UI
               oursExists: headExists,
               theirsExists: baseExists,
@@ -467,6 +501,7 @@ export const GitHubPRConflictPanel: React.FC<GitHubPRConflictPanelProps> = ({
           {/* Conflict resolver */}
           <div className="flex-1 overflow-hidden">
             <MergeConflictResolver
+              key={currentFile.path}
               file={currentFile}
               oursBranch={pullRequest.head.ref}
               theirsBranch={pullRequest.base.ref}
@@ -20,6 +20,7 @@ import {
 import { useGitHubRepoStore } from '@/stores/githubRepoStore';
 import { useShallow } from 'zustand/react/shallow';
 import { githubApi } from '@/services/github/githubApi';
+import { githubContentsService } from '@/services/github/githubContentsService';
 import type {
   GitHubPullRequest,
   GitHubPullRequestReview,
@@ -30,6 +31,9 @@ import type {
 import { GitHubPRConflictPanel } from './GitHubPRConflictPanel';
 import { PRFileDiffViewer } from './PRFileDiffViewer';
 import { PRReviewSubmitDialog } from './PRReviewSubmitDialog';
+import { ContractCompatibilityPanel } from '../git/ContractCompatibilityPanel';
+import { isContractFile, type ContractFileVersions } from '@/utils/contractCompatibility';
+import type { WorkspaceSnapshots } from '@/utils/workspaceSnapshot';
 
 export interface GitHubPRDetailPanelProps {
   className?: string;
@@ -167,6 +171,43 @@ export const GitHubPRDetailPanel: React.FC<GitHubPRDetailPanelProps> = ({
     setPRDetailsError,
   ]);
 
+  // Contract versions for the compatibility check: base vs head of the PR
+  const loadContractFiles = useCallback(async (): Promise<ContractFileVersions[]> => {
+    if (!connection || !selectedPR) return [];
+    const read = (path: string, ref: string) =>
+      githubApi
+        .getFileContentAsString(connection.owner, connection.repo, path, ref)
+        .then((file) => file.content)
+        .catch(() => undefined);
+    return Promise.all(
+      files
+        .filter((f) => isContractFile(f.filename))
+        .map(async (f) => ({
+          path: f.filename,
+          before:
+            f.status === 'added'
+              ? undefined
+              : await read(f.previous_filename ?? f.filename, selectedPR.base.sha),
+          after: f.status === 'removed' ? undefined : await read(f.filename, selectedPR.head.sha),
+        }))
+    );
+  }, [connection, selectedPR, files]);
+
+  // One changed file at the base and the head of the PR, for the model view of its diff
+  const loadFileSnapshots = useCallback(
+    async (file: GitHubPRFile): Promise<WorkspaceSnapshots> => {
+      if (!connection || !selectedPR) return { before: [], after: [] };
+      const snapshot = (path: string, ref: string) =>
+        githubContentsService.getWorkspaceSnapshot(connection.owner, connection.repo, ref, [path]);
+      const [before, after] = await Promise.all([
+        snapshot(file.previous_filename ?? file.filename, selectedPR.base.sha),
+        snapshot(file.filename, selectedPR.head.sha),
+      ]);
+      return { before, after };
+    },
+    [connection, selectedPR]
+  );
+
   // Track which PR we've loaded to prevent duplicate loads
   const loadedPRRef = useRef<number | null>(null);
 
@@ -474,6 +515,8 @@ export const GitHubPRDetailPanel: React.FC<GitHubPRDetailPanelProps> = ({
             {activeTab === 'files' && (
               <FilesTab
                 files={files}
+                loadContractFiles={loadContractFiles}
+                loadFileSnapshots={loadFileSnapshots}
                 pendingComments={pendingComments}
                 onAddComment={handleAddInlineComment}
                 onRemoveComment={removePendingComment}
@@ -736,10 +779,19 @@ const CommentCard: React.FC<{ comment: GitHubIssueComment }> = ({ comment }) =>
 
 const FilesTab: React.FC<{
   files: GitHubPRFile[];
+  loadContractFiles: () => Promise<ContractFileVersions[]>;
+  loadFileSnapshots: (file: GitHubPRFile) => Promise<WorkspaceSnapshots>;
   pendingComments: PendingReviewComment[];
   onAddComment: (path: string, line: number, side: 'LEFT' | 'RIGHT', body: string) => void;
   onRemoveComment: (id: string) => void;
-}> = ({ files, pendingComments, onAddComment, onRemoveComment }) => {
+}> = ({
+  files,
+  loadContractFiles,
+  loadFileSnapshots,
+  pendingComments,
+  onAddComment,
+  onRemoveComment,
+}) => {
   const totalAdditions = files.reduce((sum, f) => sum + f.additions, 0);
   const totalDeletions = files.reduce((sum, f) => sum + f.deletions, 0);
 
@@ -752,12 +804,20 @@ const FilesTab: React.FC<{
         <span className="text-red-600">-{totalDeletions}</span>
       </div>
 
+      {files.some((f) => isContractFile(f.filename)) && (
+        <ContractCompatibilityPanel
+          loadFiles={loadContractFiles}
+          className="mb-4 border border-gray-200 rounded-lg"
+        />
+      )}
+
       {/* File list */}
       <div className="space-y-2">
         {files.map((file) => (
           <FileCard
             key={file.sha}
             file={file}
+            loadSnapshots={loadFileSnapshots}
             pendingComments={pendingComments.filter((c) => c.path === file.filename)}
             onAddComment={onAddComment}
             onRemoveComment={onRemoveComment}
@@ -770,11 +830,13 @@ const FilesTab: React.FC<{
 
 const FileCard: React.FC<{
   file: GitHubPRFile;
+  loadSnapshots: (file: GitHubPRFile) => Promise<WorkspaceSnapshots>;
   pendingComments: PendingReviewComment[];
   onAddComment: (path: string, line: number, side: 'LEFT' | 'RIGHT', body: string) => void;
   onRemoveComment: (id: string) => void;
-}> = ({ file, pendingComments, onAddComment, onRemoveComment }) => {
+}> = ({ file, loadSnapshots, pendingComments, onAddComment, onRemoveComment }) => {
   const [expanded, setExpanded] = useState(false);
+  const loadFileSnapshots = useCallback(() => loadSnapshots(file), [loadSnapshots, file]);
 
   const getStatusColor = () => {
     switch (file.status) {
@@ -830,6 +892,7 @@ const FileCard: React.FC<{
             onRemovePendingComment={onRemoveComment}
             defaultExpanded={true}
             hideHeader={true}
+            loadSnapshots={/\.ya?ml$/.test(file.filename) ? loadFileSnapshots : undefined}
           />
         </div>
       )}
@@ -13,6 +13,8 @@ import type {
   PendingReviewComment,
 } from '@/types/github';
 import { PRInlineComment } from './PRInlineComment';
+import { SemanticDiffView } from '@/components/git/SemanticDiffView';
+import type { WorkspaceSnapshots } from '@/utils/workspaceSnapshot';
 
 export interface PRFileDiffViewerProps {
   file: GitHubPRFile;
@@ -27,9 +29,11 @@ export interface PRFileDiffViewerProps {
   defaultExpanded?: boolean;
   /** Hide the file header (useful when already wrapped by another component showing the header) */
   hideHeader?: boolean;
+  /** Loads both versions of the file for the model view */
+  loadSnapshots?: () => Promise<WorkspaceSnapshots>;
 }
 
-type ViewMode = 'unified' | 'split';
+type ViewMode = 'unified' | 'split' | 'model';
 
 export const PRFileDiffViewer: React.FC<PRFileDiffViewerProps> = ({
   file,
@@ -43,6 +47,7 @@ export const PRFileDiffViewer: React.FC<PRFileDiffViewerProps> = ({
   className = '',
   defaultExpanded = false,
   hideHeader = false,
+  loadSnapshots,
 }) => {
   const [expanded, setExpanded] = useState(defaultExpanded || hideHeader);
   const [viewMode, setViewMode] = useState<ViewMode>('unified');
@@ -185,11 +190,25 @@ export const PRFileDiffViewer: React.FC<PRFileDiffViewerProps> = ({
               >
                 Split
               </button>
+              {loadSnapshots && (
+                <button
+                  onClick={() => setViewMode('model')}
+                  className={`px-2 py-0.5 text-xs ${
+                    viewMode === 'model'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  Model
+                </button>
+              )}
             </div>
           </div>
 
           {/* Diff lines */}
-          {!parsedDiff.isBinary ? (
+          {viewMode === 'model' && loadSnapshots ? (
+            <SemanticDiffView loadSnapshots={loadSnapshots} />
+          ) : !parsedDiff.isBinary ? (
             <div className="overflow-x-auto">
               {viewMode === 'unified' ? (
                 <UnifiedDiffView
@@ -0,0 +1,276 @@
+/**
+ * Glossary Panel Component
+ * Main panel for the workspace business glossary: term hierarchy, term editor, usage
+ * report and CSV/SKOS import and export
+ */
+
+import React, { useMemo, useState } from 'react';
+import { GlossaryTermBadge } from './GlossaryTermBadge';
+import { GlossaryTermEditor } from './GlossaryTermEditor';
+import { GlossaryUsageReport } from './GlossaryUsageReport';
+import { CollapsibleSidebar } from '@/components/common/CollapsibleSidebar';
+import { useGlossaryStore } from '@/stores/glossaryStore';
+import { useModelStore } from '@/stores/modelStore';
+import { useWorkspaceStore } from '@/stores/workspaceStore';
+import { useUIStore } from '@/stores/uiStore';
+import { isViewerMode } from '@/services/viewerMode';
+import { browserFileService } from '@/services/platform/browser';
+import { buildGlossaryTree, buildGlossaryUsageReport } from '@/utils/glossary';
+import {
+  exportGlossaryToCsv,
+  exportGlossaryToSkos,
+  parseGlossaryCsv,
+  parseGlossarySkos,
+} from '@/utils/glossaryExchange';
+import { FileMigration } from '@/utils/fileMigration';
+import {
+  GlossaryTermStatus,
+  getGlossaryTermStatusLabel,
+  type GlossaryTerm,
+} from '@/types/glossary';
+
+export interface GlossaryPanelProps {
+  workspaceId: string;
+  className?: string;
+}
+
+type PanelMode = 'terms' | 'usage';
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ workspaceId, className = '' }) => {
+  const { terms, selectedTerm, setSelectedTerm, createTerm, importTerms } = useGlossaryStore();
+  const tables = useModelStore((state) => state.tables);
+  const workspaceName = useWorkspaceStore(
+    (state) => state.workspaces.find((w) => w.id === workspaceId)?.name ?? 'workspace'
+  );
+  const { addToast } = useUIStore();
+  const readOnly = isViewerMode();
+
+  const [mode, setMode] = useState<PanelMode>('terms');
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<GlossaryTermStatus | ''>('');
+  const [newTermName, setNewTermName] = useState('');
+
+  const report = useMemo(() => buildGlossaryUsageReport(terms, tables), [terms, tables]);
+
+  // While filtering, matching terms are shown with their broader terms for context
+  const visibleTree = useMemo(() => {
+    const tree = buildGlossaryTree(terms);
+    const query = search.trim().toLowerCase();
+    if (!query && !statusFilter) return tree;
+    const matches = new Set(
+      terms
+        .filter((t) => !statusFilter || t.status === statusFilter)
+        .filter(
+          (t) =>
+            !query ||
+            t.name.toLowerCase().includes(query) ||
+            t.definition.toLowerCase().includes(query) ||
+            t.synonyms.some((s) => s.toLowerCase().includes(query))
+        )
+        .map((t) => t.id)
+    );
+    const shown = new Set<string>();
+    for (const id of matches) {
+      let term = terms.find((t) => t.id === id);
+      while (term && !shown.has(term.id)) {
+        shown.add(term.id);
+        const parentId: string | undefined = term.parent_id;
+        term = parentId ? terms.find((t) => t.id === parentId) : undefined;
+      }
+    }
+    return tree.filter(({ term }) => shown.has(term.id));
+  }, [terms, search, statusFilter]);
+
+  const handleCreate = () => {
+    const name = newTermName.trim();
+    if (!name) return;
+    if (terms.some((t) => t.name.toLowerCase() === name.toLowerCase())) {
+      addToast({ type: 'error', message: `The glossary already has a term "${name}"` });
+      return;
+    }
+    createTerm({ name, workspace_id: workspaceId });
+    setNewTermName('');
+    setMode('terms');
+  };
+
+  const handleSelect = (term: GlossaryTerm) => {
+    setSelectedTerm(term);
+    setMode('terms');
+  };
+
+  const handleImport = async () => {
+    const file = await browserFileService.pickFile('.csv,.rdf,.xml,.skos');
+    if (!file) return;
+    try {
+      const content = await browserFileService.readFile(file);
+      const incoming = file.name.toLowerCase().endsWith('.csv')
+        ? parseGlossaryCsv(content)
+        : parseGlossarySkos(content);
+      if (incoming.length === 0) {
+        addToast({ type: 'warning', message: `No glossary terms found in ${file.name}` });
+        return;
+      }
+      const { created, updated } = importTerms(incoming, workspaceId);
+      addToast({
+        type: 'success',
+        message: `Imported ${file.name}: ${created} new, ${updated} updated term(s)`,
+      });
+    } catch (error) {
+      addToast({
+        type: 'error',
+        message: `Failed to import glossary: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  };
+
+  const fileBaseName = `${FileMigration.sanitizeFileName(workspaceName)}_glossary`;
+
+  const handleExportCsv = () => {
+    browserFileService.downloadFile(exportGlossaryToCsv(terms), `${fileBaseName}.csv`, 'text/csv');
+  };
+
+  const handleExportSkos = () => {
+    const skos = exportGlossaryToSkos(terms, {
+      baseUri: `urn:odm:glossary:${workspaceId}`,
+      title: `${workspaceName} Business Glossary`,
+    });
+    browserFileService.downloadFile(skos, `${fileBaseName}.rdf`, 'application/rdf+xml');
+  };
+
+  return (
+    <div className={`flex h-full bg-white ${className}`}>
+      <CollapsibleSidebar collapsedTitle="Glossary">
+        <div className="flex border-b border-gray-200">
+          {(['terms', 'usage'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`flex-1 px-4 py-2 text-sm font-medium ${
+                mode === m
+                  ? 'text-blue-600 border-b-2 border-blue-600'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {m === 'terms' ? 'Terms' : 'Usage'}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-3 space-y-2 border-b border-gray-200">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search terms and synonyms..."
+            className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex gap-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as GlossaryTermStatus | '')}
+              className="flex-1 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+              aria-label="Filter by status"
+            >
+              <option value="">All statuses</option>
+              {Object.values(GlossaryTermStatus).map((s) => (
+                <option key={s} value={s}>
+                  {getGlossaryTermStatusLabel(s)}
+                </option>
+              ))}
+            </select>
+            {!readOnly && (
+              <button
+                onClick={handleImport}
+                className="px-2 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                title="Import terms from CSV or SKOS (RDF/XML)"
+              >
+                Import
+              </button>
+            )}
+            <button
+              onClick={handleExportCsv}
+              disabled={terms.length === 0}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              title="Export the glossary as CSV"
+            >
+              CSV
+            </button>
+            <button
+              onClick={handleExportSkos}
+              disabled={terms.length === 0}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              title="Export the glossary as SKOS (RDF/XML)"
+            >
+              SKOS
+            </button>
+          </div>
+          {!readOnly && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newTermName}
+                onChange={(e) => setNewTermName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="New term name"
+                className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!newTermName.trim()}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-1">
+          {visibleTree.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">
+              {terms.length === 0 ? 'The glossary has no terms yet' : 'No matching terms'}
+            </p>
+          ) : (
+            visibleTree.map(({ term, depth }) => (
+              <button
+                key={term.id}
+                onClick={() => handleSelect(term)}
+                className={`w-full flex items-center justify-between gap-2 pr-3 py-1.5 text-left text-sm hover:bg-gray-50 ${
+                  selectedTerm?.id === term.id ? 'bg-blue-50' : ''
+                }`}
+                style={{ paddingLeft: `${12 + depth * 16}px` }}
+              >
+                <GlossaryTermBadge term={term} />
+                <span className="text-xs text-gray-400" title="Tables and columns using the term">
+                  {report.usages.get(term.id)?.length ?? 0}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </CollapsibleSidebar>
+
+      <div className="flex-1 overflow-hidden">
+        {mode === 'usage' ? (
+          <GlossaryUsageReport report={report} terms={terms} onSelectTerm={handleSelect} />
+        ) : selectedTerm ? (
+          <GlossaryTermEditor
+            term={selectedTerm}
+            usages={report.usages.get(selectedTerm.id) ?? []}
+            readOnly={readOnly}
+            onDeleted={() => setSelectedTerm(null)}
+          />
+        ) : (
+          <div className="flex flex-col items-center justify-center h-full text-gray-500">
+            <p className="text-lg font-medium">No term selected</p>
+            <p className="text-sm mt-1">
+              {readOnly
+                ? 'Select a term from the glossary to view it'
+                : 'Select a term from the glossary or add a new one'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
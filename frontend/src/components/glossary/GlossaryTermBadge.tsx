@@ -0,0 +1,53 @@
+/**
+ * Glossary Term Badge Component
+ * Displays a linked business glossary term, colored by its status
+ */
+
+import React from 'react';
+import {
+  getGlossaryTermStatusColor,
+  getGlossaryTermStatusLabel,
+  type GlossaryTerm,
+} from '@/types/glossary';
+
+export interface GlossaryTermBadgeProps {
+  term: GlossaryTerm;
+  size?: 'xs' | 'sm';
+  onRemove?: () => void;
+}
+
+const colorClasses: Record<string, string> = {
+  yellow: 'bg-yellow-50 text-yellow-800 border-yellow-300',
+  green: 'bg-emerald-50 text-emerald-800 border-emerald-300',
+  red: 'bg-red-50 text-red-700 border-red-300 line-through',
+};
+
+export const GlossaryTermBadge: React.FC<GlossaryTermBadgeProps> = ({
+  term,
+  size = 'sm',
+  onRemove,
+}) => {
+  const sizeClasses = size === 'xs' ? 'text-[10px] px-1 py-0' : 'text-xs px-2 py-0.5';
+  const title = [term.name, `Status: ${getGlossaryTermStatusLabel(term.status)}`, term.definition]
+    .filter(Boolean)
+    .join('\n');
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded border font-medium max-w-[12rem] ${sizeClasses} ${colorClasses[getGlossaryTermStatusColor(term.status)]}`}
+      title={title}
+    >
+      <span className="truncate">{term.name}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-gray-500 hover:text-red-600"
+          aria-label={`Unlink ${term.name}`}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+};
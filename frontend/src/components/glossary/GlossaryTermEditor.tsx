@@ -0,0 +1,353 @@
+/**
+ * Glossary Term Editor Component
+ * Edits a business glossary term: definition, synonyms, stewards, status and its place in
+ * the hierarchy
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useGlossaryStore } from '@/stores/glossaryStore';
+import { useUIStore } from '@/stores/uiStore';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { buildGlossaryTree, getDescendantTermIds, type GlossaryUsage } from '@/utils/glossary';
+import {
+  GlossaryTermStatus,
+  getGlossaryTermStatusLabel,
+  type GlossaryTerm,
+} from '@/types/glossary';
+
+export interface GlossaryTermEditorProps {
+  term: GlossaryTerm;
+  usages: GlossaryUsage[];
+  readOnly?: boolean;
+  onDeleted?: () => void;
+}
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+export const GlossaryTermEditor: React.FC<GlossaryTermEditorProps> = ({
+  term,
+  usages,
+  readOnly = false,
+  onDeleted,
+}) => {
+  const { terms, updateTerm, removeTerm } = useGlossaryStore();
+  const { addToast } = useUIStore();
+
+  const [name, setName] = useState(term.name);
+  const [definition, setDefinition] = useState(term.definition);
+  const [synonyms, setSynonyms] = useState(term.synonyms.join(', '));
+  const [stewards, setStewards] = useState(term.stewards.join(', '));
+  const [status, setStatus] = useState(term.status);
+  const [parentId, setParentId] = useState(term.parent_id ?? '');
+  const [relatedIds, setRelatedIds] = useState<string[]>(term.related_term_ids ?? []);
+  const [notes, setNotes] = useState(term.notes ?? '');
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  // Reset the form when another term is selected or the term changes elsewhere
+  useEffect(() => {
+    setName(term.name);
+    setDefinition(term.definition);
+    setSynonyms(term.synonyms.join(', '));
+    setStewards(term.stewards.join(', '));
+    setStatus(term.status);
+    setParentId(term.parent_id ?? '');
+    setRelatedIds(term.related_term_ids ?? []);
+    setNotes(term.notes ?? '');
+  }, [term]);
+
+  // A term cannot be narrower than itself or one of its own narrower terms
+  const parentOptions = useMemo(() => {
+    const excluded = getDescendantTermIds(terms, term.id);
+    return buildGlossaryTree(terms).filter(({ term: t }) => !excluded.has(t.id));
+  }, [terms, term.id]);
+
+  const relatedOptions = useMemo(
+    () =>
+      terms
+        .filter((t) => t.id !== term.id && !relatedIds.includes(t.id))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [terms, term.id, relatedIds]
+  );
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      addToast({ type: 'error', message: 'A glossary term needs a name' });
+      return;
+    }
+    if (terms.some((t) => t.id !== term.id && t.name.toLowerCase() === trimmedName.toLowerCase())) {
+      addToast({ type: 'error', message: `The glossary already has a term "${trimmedName}"` });
+      return;
+    }
+    updateTerm(term.id, {
+      name: trimmedName,
+      definition,
+      synonyms: splitList(synonyms),
+      stewards: splitList(stewards),
+      status,
+      parent_id: parentId || undefined,
+      related_term_ids: relatedIds.length > 0 ? relatedIds : undefined,
+      notes: notes.trim() || undefined,
+    });
+    addToast({ type: 'success', message: `Saved glossary term "${trimmedName}"` });
+  };
+
+  const handleDelete = () => {
+    removeTerm(term.id);
+    onDeleted?.();
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50';
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{term.name}</h2>
+          <p className="text-xs text-gray-500">
+            Version {term.version} · updated {new Date(term.updated_at).toLocaleString()}
+          </p>
+        </div>
+        {!readOnly && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowDeleteConfirm(true)}
+              className="px-3 py-1.5 text-sm text-red-600 border border-red-300 rounded-md hover:bg-red-50"
+            >
+              Delete
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              Save
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="glossary-term-name"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Name
+            </label>
+            <input
+              id="glossary-term-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={readOnly}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="glossary-term-status"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Status
+            </label>
+            <select
+              id="glossary-term-status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as GlossaryTermStatus)}
+              disabled={readOnly}
+              className={inputClass}
+            >
+              {Object.values(GlossaryTermStatus).map((s) => (
+                <option key={s} value={s}>
+                  {getGlossaryTermStatusLabel(s)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="glossary-term-definition"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Definition
+          </label>
+          <textarea
+            id="glossary-term-definition"
+            value={definition}
+            onChange={(e) => setDefinition(e.target.value)}
+            disabled={readOnly}
+            rows={4}
+            placeholder="What does this term mean to the business?"
+            className={inputClass}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="glossary-term-synonyms"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Synonyms
+            </label>
+            <input
+              id="glossary-term-synonyms"
+              type="text"
+              value={synonyms}
+              onChange={(e) => setSynonyms(e.target.value)}
+              disabled={readOnly}
+              placeholder="Comma separated"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="glossary-term-stewards"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Stewards
+            </label>
+            <input
+              id="glossary-term-stewards"
+              type="text"
+              value={stewards}
+              onChange={(e) => setStewards(e.target.value)}
+              disabled={readOnly}
+              placeholder="Names or emails, comma separated"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="glossary-term-parent"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Broader term
+          </label>
+          <select
+            id="glossary-term-parent"
+            value={parentId}
+            onChange={(e) => setParentId(e.target.value)}
+            disabled={readOnly}
+            className={inputClass}
+          >
+            <option value="">None (top-level term)</option>
+            {parentOptions.map(({ term: t, depth }) => (
+              <option key={t.id} value={t.id}>
+                {'  '.repeat(depth)}
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label
+            htmlFor="glossary-term-related"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Related terms
+          </label>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {relatedIds.length === 0 && (
+              <span className="text-xs text-gray-500 italic">No related terms</span>
+            )}
+            {relatedIds.map((id) => (
+              <span
+                key={id}
+                className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded border border-gray-300 bg-gray-50"
+              >
+                {terms.find((t) => t.id === id)?.name ?? 'Missing term'}
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => setRelatedIds(relatedIds.filter((r) => r !== id))}
+                    className="text-gray-500 hover:text-red-600"
+                    aria-label="Remove related term"
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+          {!readOnly && relatedOptions.length > 0 && (
+            <select
+              id="glossary-term-related"
+              value=""
+              onChange={(e) => e.target.value && setRelatedIds([...relatedIds, e.target.value])}
+              className={inputClass}
+            >
+              <option value="">Add a related term...</option>
+              {relatedOptions.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div>
+          <label
+            htmlFor="glossary-term-notes"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Notes
+          </label>
+          <textarea
+            id="glossary-term-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            disabled={readOnly}
+            rows={2}
+            placeholder="Scope notes, examples or caveats"
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-1">Used by ({usages.length})</h3>
+          {usages.length === 0 ? (
+            <p className="text-xs text-gray-500 italic">
+              No table or column links to this term yet. Link terms from the column details.
+            </p>
+          ) : (
+            <ul className="text-sm text-gray-700 space-y-0.5">
+              {usages.map((usage) => (
+                <li key={`${usage.tableId}:${usage.columnId ?? ''}`} className="font-mono text-xs">
+                  {usage.columnName ? `${usage.tableName}.${usage.columnName}` : usage.tableName}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={showDeleteConfirm}
+        onClose={() => setShowDeleteConfirm(false)}
+        title="Delete Glossary Term"
+        message={`Delete "${term.name}"? Narrower terms move up one level${
+          usages.length > 0
+            ? ` and ${usages.length} link(s) from tables and columns will point to a missing term`
+            : ''
+        }.`}
+        actions={[
+          { label: 'Cancel', onClick: () => {}, variant: 'secondary' },
+          { label: 'Delete', onClick: handleDelete, variant: 'danger' },
+        ]}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+/**
+ * Glossary Term Links Component
+ * Shows the glossary terms linked by a table's or column's authoritative definitions and
+ * lets the user link and unlink terms
+ */
+
+import React, { useMemo } from 'react';
+import { useGlossaryStore } from '@/stores/glossaryStore';
+import { GlossaryTermBadge } from './GlossaryTermBadge';
+import {
+  buildGlossaryTree,
+  getLinkedTermIds,
+  linkGlossaryTerm,
+  unlinkGlossaryTerm,
+} from '@/utils/glossary';
+import { GlossaryTermStatus } from '@/types/glossary';
+import type { AuthoritativeDefinition } from '@/types/table';
+
+export interface GlossaryTermLinksProps {
+  definitions: AuthoritativeDefinition[];
+  onChange: (definitions: AuthoritativeDefinition[]) => void;
+  readOnly?: boolean;
+}
+
+export const GlossaryTermLinks: React.FC<GlossaryTermLinksProps> = ({
+  definitions,
+  onChange,
+  readOnly = false,
+}) => {
+  const terms = useGlossaryStore((state) => state.terms);
+  const linkedIds = useMemo(() => getLinkedTermIds(definitions), [definitions]);
+
+  // Deprecated terms can stay linked but are not offered for new links
+  const options = useMemo(
+    () =>
+      buildGlossaryTree(terms).filter(
+        ({ term }) => term.status !== GlossaryTermStatus.Deprecated && !linkedIds.includes(term.id)
+      ),
+    [terms, linkedIds]
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {linkedIds.length === 0 && (
+          <span className="text-xs text-gray-500 italic">No glossary terms linked</span>
+        )}
+        {linkedIds.map((id) => {
+          const term = terms.find((t) => t.id === id);
+          const remove = readOnly ? undefined : () => onChange(unlinkGlossaryTerm(definitions, id));
+          return term ? (
+            <GlossaryTermBadge key={id} term={term} onRemove={remove} />
+          ) : (
+            <span
+              key={id}
+              className="inline-flex items-center gap-1 rounded border border-dashed border-red-300 text-red-600 text-xs px-2 py-0.5"
+              title="This term no longer exists in the glossary"
+            >
+              Missing term
+              {remove && (
+                <button
+                  type="button"
+                  onClick={remove}
+                  className="hover:text-red-800"
+                  aria-label="Unlink missing term"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          );
+        })}
+      </div>
+      {!readOnly && (
+        <select
+          value=""
+          onChange={(e) =>
+            e.target.value && onChange(linkGlossaryTerm(definitions, e.target.value))
+          }
+          disabled={options.length === 0}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+        >
+          <option value="">
+            {terms.length === 0 ? 'The glossary has no terms yet' : 'Link a glossary term...'}
+          </option>
+          {options.map(({ term, depth }) => (
+            <option key={term.id} value={term.id}>
+              {'  '.repeat(depth)}
+              {term.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
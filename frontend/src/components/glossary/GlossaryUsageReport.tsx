@@ -0,0 +1,122 @@
+/**
+ * Glossary Usage Report Component
+ * Lists terms without usage, columns without terms and links to missing terms
+ */
+
+import React, { useState } from 'react';
+import { GlossaryTermBadge } from './GlossaryTermBadge';
+import type { GlossaryUsageReport as UsageReport } from '@/utils/glossary';
+import type { GlossaryTerm } from '@/types/glossary';
+
+export interface GlossaryUsageReportProps {
+  report: UsageReport;
+  terms: GlossaryTerm[];
+  onSelectTerm?: (term: GlossaryTerm) => void;
+}
+
+type ReportSection = 'unused' | 'unlinked' | 'broken';
+
+export const GlossaryUsageReport: React.FC<GlossaryUsageReportProps> = ({
+  report,
+  terms,
+  onSelectTerm,
+}) => {
+  const [section, setSection] = useState<ReportSection>('unused');
+  const linkedColumns = [...report.usages.values()].flat().filter((u) => u.columnId).length;
+  const totalColumns = linkedColumns + report.unlinkedColumns.length;
+
+  const sections: Array<{ value: ReportSection; label: string; count: number }> = [
+    { value: 'unused', label: 'Terms without usage', count: report.unusedTerms.length },
+    { value: 'unlinked', label: 'Columns without terms', count: report.unlinkedColumns.length },
+    { value: 'broken', label: 'Missing terms', count: report.brokenLinks.length },
+  ];
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Glossary Usage</h2>
+        <p className="text-xs text-gray-500">
+          {terms.length - report.unusedTerms.length} of {terms.length} term(s) in use ·{' '}
+          {totalColumns - report.unlinkedColumns.length} of {totalColumns} column(s) linked to a
+          term
+        </p>
+      </div>
+
+      <div className="flex border-b border-gray-200">
+        {sections.map((s) => (
+          <button
+            key={s.value}
+            onClick={() => setSection(s.value)}
+            className={`px-4 py-2 text-sm font-medium ${
+              section === s.value
+                ? 'text-blue-600 border-b-2 border-blue-600'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {s.label} ({s.count})
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4">
+        {section === 'unused' &&
+          (report.unusedTerms.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Every term is linked from the model</p>
+          ) : (
+            <ul className="space-y-2">
+              {report.unusedTerms.map((term) => (
+                <li key={term.id} className="flex items-start gap-3">
+                  <button onClick={() => onSelectTerm?.(term)} className="flex-shrink-0">
+                    <GlossaryTermBadge term={term} />
+                  </button>
+                  <span className="text-xs text-gray-500 line-clamp-2">
+                    {term.definition || 'No definition'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ))}
+
+        {section === 'unlinked' &&
+          (report.unlinkedColumns.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">Every column is linked to a term</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-1 pr-4 font-medium">Table</th>
+                  <th className="py-1 pr-4 font-medium">Column</th>
+                  <th className="py-1 font-medium">Type</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.unlinkedColumns.map(({ table, column }) => (
+                  <tr key={column.id} className="border-b border-gray-100">
+                    <td className="py-1 pr-4 text-gray-700">{table.name}</td>
+                    <td className="py-1 pr-4 font-mono text-xs">{column.name}</td>
+                    <td className="py-1 text-xs text-gray-500">{column.data_type}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ))}
+
+        {section === 'broken' &&
+          (report.brokenLinks.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No links to missing terms</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {report.brokenLinks.map((link) => (
+                <li key={`${link.tableId}:${link.columnId ?? ''}:${link.termId}`}>
+                  <span className="font-mono text-xs">
+                    {link.columnName ? `${link.tableName}.${link.columnName}` : link.tableName}
+                  </span>{' '}
+                  <span className="text-xs text-red-600">links to missing term {link.termId}</span>
+                </li>
+              ))}
+            </ul>
+          ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,16 @@
+/**
+ * Glossary Components
+ * Business glossary UI components
+ */
+
+export { GlossaryPanel } from './GlossaryPanel';
+export { GlossaryTermEditor } from './GlossaryTermEditor';
+export { GlossaryUsageReport } from './GlossaryUsageReport';
+export { GlossaryTermBadge } from './GlossaryTermBadge';
+export { GlossaryTermLinks } from './GlossaryTermLinks';
+
+export type { GlossaryPanelProps } from './GlossaryPanel';
+export type { GlossaryTermEditorProps } from './GlossaryTermEditor';
+export type { GlossaryUsageReportProps } from './GlossaryUsageReport';
+export type { GlossaryTermBadgeProps } from './GlossaryTermBadge';
+export type { GlossaryTermLinksProps } from './GlossaryTermLinks';
@@ -0,0 +1,310 @@
+/**
+ * Impact Analysis Dialog
+ * Shown before deleting a table or renaming a column: lists the dependent artifacts in
+ * every domain by severity (see utils/impactAnalysis) and lets the user cascade,
+ * re-point the dependents or cancel. The report exports as Markdown for change tickets.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+import { Dialog } from '@/components/common/Dialog';
+import { useModelStore } from '@/stores/modelStore';
+import { useDecisionStore } from '@/stores/decisionStore';
+import { browserFileService } from '@/services/platform/browser';
+import { FileMigration } from '@/utils/fileMigration';
+import {
+  analyzeImpact,
+  groupImpactBySeverity,
+  impactReportToMarkdown,
+  resolveImpact,
+  type ImpactChange,
+  type ImpactChanges,
+  type ImpactInput,
+  type ImpactResolution,
+  type ImpactSeverity,
+} from '@/utils/impactAnalysis';
+
+export interface ImpactAnalysisDialogProps {
+  isOpen: boolean;
+  change: ImpactChange | null;
+  onCancel: () => void;
+  /**
+   * Runs before the model changes, e.g. deleting the table on the server. Must not change
+   * the stores itself, or the resolution has nothing to apply to. Returning false leaves
+   * the model untouched and the dialog open.
+   */
+  onBeforeProceed?: () => Promise<boolean>;
+  /** Performs the change itself once dependents are resolved (same undo step) */
+  onProceed: (resolution: ImpactResolution) => void;
+}
+
+const SEVERITY_STYLES: Record<ImpactSeverity, string> = {
+  breaking: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-blue-100 text-blue-800',
+};
+
+// Writes a resolution to the stores through their actions, so it is undoable
+const applyImpactChanges = (before: ImpactInput, after: ImpactChanges) => {
+  const model = useModelStore.getState();
+  const sync = <T extends { id: string }>(
+    previous: T[],
+    next: T[] | undefined,
+    update: (id: string, item: T) => void,
+    remove?: (id: string) => void
+  ) => {
+    if (!next) return;
+    const nextById = new Map(next.map((item) => [item.id, item]));
+    for (const item of previous) {
+      const updated = nextById.get(item.id);
+      if (!updated) {
+        remove?.(item.id);
+      } else if (updated !== item) {
+        update(item.id, updated);
+      }
+    }
+  };
+
+  // Deleting the table itself is left to onProceed
+  sync(before.tables, after.tables, model.updateTable);
+  sync(
+    before.relationships,
+    after.relationships,
+    model.updateRelationship,
+    model.removeRelationship
+  );
+  sync(before.metricViews, after.metricViews, model.updateMetricView, model.removeMetricView);
+  sync(before.products, after.products, model.updateProduct, model.removeProduct);
+  sync(before.domains, after.domains, model.updateDomain);
+  sync(before.systems, after.systems, model.updateSystem);
+  sync(before.decisions, after.decisions, (id, decision) =>
+    useDecisionStore.getState().updateDecision(id, { linked_assets: decision.linked_assets })
+  );
+};
+
+export const ImpactAnalysisDialog: React.FC<ImpactAnalysisDialogProps> = ({
+  isOpen,
+  change,
+  onCancel,
+  onBeforeProceed,
+  onProceed,
+}) => {
+  const model = useModelStore(
+    useShallow((state) => ({
+      tables: state.tables,
+      relationships: state.relationships,
+      domains: state.domains,
+      systems: state.systems,
+      metricViews: state.metricViews,
+      products: state.products,
+    }))
+  );
+  const decisions = useDecisionStore((state) => state.decisions);
+  const input = useMemo<ImpactInput>(() => ({ ...model, decisions }), [model, decisions]);
+
+  const [action, setAction] = useState<ImpactResolution['action']>('cascade');
+  const [targetId, setTargetId] = useState('');
+  const [isProceeding, setIsProceeding] = useState(false);
+
+  const report = useMemo(() => (change ? analyzeImpact(change, input) : null), [change, input]);
+  const groups = useMemo(() => groupImpactBySeverity(report?.items ?? []), [report]);
+
+  const table = change ? model.tables.find((t) => t.id === change.tableId) : undefined;
+  const isRemoval = change?.kind === 'remove-table';
+
+  // Re-point targets: other tables for a deletion, other columns of the table for a rename
+  const targets = useMemo(() => {
+    if (!change || !table) return [];
+    if (change.kind === 'remove-table') {
+      return model.tables
+        .filter((t) => t.id !== table.id)
+        .sort(
+          (a, b) =>
+            Number(b.primary_domain_id === table.primary_domain_id) -
+              Number(a.primary_domain_id === table.primary_domain_id) ||
+            a.name.localeCompare(b.name)
+        )
+        .map((t) => ({
+          id: t.id,
+          label: `${t.name} (${model.domains.find((d) => d.id === t.primary_domain_id)?.name ?? 'unknown domain'})`,
+        }));
+    }
+    return table.columns
+      .filter((c) => c.id !== change.columnId)
+      .map((c) => ({ id: c.id, label: c.name }));
+  }, [change, table, model.tables, model.domains]);
+
+  if (!change || !report) return null;
+
+  const resolution: ImpactResolution =
+    action === 'repoint' ? { action: 'repoint', targetId } : { action: 'cascade' };
+  const targetLabel = targets.find((t) => t.id === targetId)?.label;
+  const resolutionText =
+    action === 'cascade'
+      ? isRemoval
+        ? 'Cascade: remove the dependents and their references to the table'
+        : `Cascade: rename the references to "${change.kind === 'rename-column' ? change.newName : ''}"`
+      : `Re-point the dependents to "${targetLabel ?? '?'}"`;
+
+  const handleProceed = async () => {
+    if (onBeforeProceed) {
+      setIsProceeding(true);
+      const proceed = await onBeforeProceed().finally(() => setIsProceeding(false));
+      if (!proceed) return;
+    }
+    // Read the stores again, they may have changed while waiting
+    const current: ImpactInput = {
+      ...useModelStore.getState(),
+      decisions: useDecisionStore.getState().decisions,
+    };
+    // onProceed runs synchronously inside the transaction so that one undo restores all
+    useModelStore.getState().transaction(report.subject, () => {
+      applyImpactChanges(current, resolveImpact(change, resolution, current));
+      onProceed(resolution);
+    });
+    setAction('cascade');
+    setTargetId('');
+  };
+
+  const handleCancel = () => {
+    setAction('cascade');
+    setTargetId('');
+    onCancel();
+  };
+
+  const handleExport = () => {
+    const markdown = impactReportToMarkdown(report, {
+      domains: model.domains,
+      resolution: report.items.length > 0 ? resolutionText : undefined,
+    });
+    browserFileService.downloadFile(
+      markdown,
+      `${FileMigration.sanitizeFileName(table?.name ?? 'table')}_impact.md`,
+      'text/markdown'
+    );
+  };
+
+  const domainName = (id?: string) => model.domains.find((d) => d.id === id)?.name ?? '—';
+
+  return (
+    <Dialog isOpen={isOpen} onClose={handleCancel} title="Impact Analysis" size="lg">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          <strong>{report.subject}</strong>
+          {report.items.length === 0
+            ? ' — nothing else in the workspace depends on it.'
+            : ` affects ${report.items.length} artifact(s) across all domains.`}
+        </p>
+
+        {groups.length > 0 && (
+          <div className="max-h-80 overflow-y-auto space-y-3">
+            {groups.map((group) => (
+              <div key={group.severity}>
+                <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 mb-1">
+                  <span
+                    className={`px-1.5 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[group.severity]}`}
+                  >
+                    {group.label}
+                  </span>
+                  {group.items.length}
+                </h3>
+                <ul className="border border-gray-200 rounded divide-y divide-gray-100">
+                  {group.items.map((item) => (
+                    <li key={item.id} className="px-3 py-1.5 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-900 truncate">
+                          {item.artifactName}
+                        </span>
+                        <span className="text-xs text-gray-500 flex-shrink-0">
+                          {item.artifactKind.replace('-', ' ')} · {domainName(item.domainId)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-600">{item.detail}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {report.items.length > 0 && (
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-gray-700 mb-1">Resolve dependents</legend>
+            <label htmlFor="impact-cascade" className="flex items-start gap-2 text-sm">
+              <input
+                id="impact-cascade"
+                type="radio"
+                name="impact-action"
+                className="mt-1"
+                checked={action === 'cascade'}
+                onChange={() => setAction('cascade')}
+              />
+              <span>
+                {isRemoval
+                  ? 'Cascade — delete dependent metric views and remove the table from products, links, shared resources and decisions'
+                  : 'Cascade — rename the column in metric view expressions and transform sources'}
+              </span>
+            </label>
+            <label htmlFor="impact-repoint" className="flex items-start gap-2 text-sm">
+              <input
+                id="impact-repoint"
+                type="radio"
+                name="impact-action"
+                className="mt-1"
+                checked={action === 'repoint'}
+                onChange={() => setAction('repoint')}
+                disabled={targets.length === 0}
+              />
+              <span>
+                Re-point — {isRemoval ? 'use another table' : 'use another column'} in the
+                dependents instead
+              </span>
+            </label>
+            {action === 'repoint' && (
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                aria-label={isRemoval ? 'Replacement table' : 'Replacement column'}
+                className="ml-6 w-[calc(100%-1.5rem)] px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Select {isRemoval ? 'a table' : 'a column'}...</option>
+                {targets.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </fieldset>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Export Markdown
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => void handleProceed()}
+              disabled={isProceeding || (action === 'repoint' && !targetId)}
+              className={`px-4 py-2 text-sm text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${
+                isRemoval ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isRemoval ? 'Delete table' : 'Rename column'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
@@ -3,7 +3,7 @@
  * Main panel for viewing and managing knowledge articles within a domain
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { KnowledgeList } from './KnowledgeList';
 import { ArticleEditor } from './ArticleEditor';
 import { ArticleViewer } from './ArticleViewer';
@@ -29,6 +29,15 @@ export const KnowledgePanel: React.FC<KnowledgePanelProps> = ({
   const { selectedArticle, setSelectedArticle } = useKnowledgeStore();
   const [mode, setMode] = useState<PanelMode>('list');
 
+  // Show items selected from outside the list (e.g., global search). Only reacts to a new
+  // selection, so that going back to the list keeps the list.
+  const selectedArticleId = selectedArticle?.id;
+  useEffect(() => {
+    if (selectedArticleId) {
+      setMode((current) => (current === 'list' ? 'view' : current));
+    }
+  }, [selectedArticleId]);
+
   const handleSelectArticle = (article: KnowledgeArticle) => {
     setSelectedArticle(article);
     setMode('view');
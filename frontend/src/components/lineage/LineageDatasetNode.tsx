@@ -0,0 +1,128 @@
+/**
+ * Lineage Dataset Node Component
+ * ReactFlow node for a table, metric view or data product in the lineage view, with
+ * a handle pair per column so edges connect column to column
+ */
+
+import React from 'react';
+import { Handle, Position } from 'reactflow';
+import type { LineageDataset, LineageNode, LineageStage } from '@/utils/columnLineage';
+
+export interface LineageDatasetNodeData {
+  dataset: LineageDataset;
+  fields: LineageNode[];
+  domainName?: string;
+  selectedNodeId?: string | null;
+  pathTargetId?: string | null;
+  highlightedNodeIds?: Set<string> | null; // Null when nothing is traced
+  onSelectField: (nodeId: string, extend: boolean) => void;
+}
+
+export interface LineageDatasetNodeProps {
+  data: LineageDatasetNodeData;
+}
+
+export const LINEAGE_HEADER_HEIGHT = 44;
+export const LINEAGE_ROW_HEIGHT = 24;
+
+const STAGE_STYLES: Record<LineageStage, { label: string; className: string }> = {
+  operational: { label: 'Operational', className: 'bg-gray-500' },
+  bronze: { label: 'Bronze', className: 'bg-amber-700' },
+  silver: { label: 'Silver', className: 'bg-slate-400' },
+  gold: { label: 'Gold', className: 'bg-yellow-500' },
+  'metric-view': { label: 'Metric View', className: 'bg-purple-500' },
+  'data-product': { label: 'Data Product', className: 'bg-teal-600' },
+};
+
+const handleStyle: React.CSSProperties = {
+  width: 6,
+  height: 6,
+  minWidth: 6,
+  minHeight: 6,
+  border: 'none',
+  background: '#94a3b8',
+};
+
+export const LineageDatasetNode: React.FC<LineageDatasetNodeProps> = ({ data }) => {
+  const {
+    dataset,
+    fields,
+    domainName,
+    selectedNodeId,
+    pathTargetId,
+    highlightedNodeIds,
+    onSelectField,
+  } = data;
+  const stage = dataset.stage ? STAGE_STYLES[dataset.stage] : undefined;
+  const dimmed = highlightedNodeIds && !fields.some((f) => highlightedNodeIds.has(f.id));
+
+  return (
+    <div
+      className={`bg-white border border-gray-300 rounded-md shadow-sm w-[240px] transition-opacity ${
+        dimmed ? 'opacity-30' : ''
+      }`}
+      role="group"
+      aria-label={`${dataset.kind}: ${dataset.name}`}
+    >
+      <div
+        className="px-2 py-1 border-b border-gray-200 bg-gray-50 rounded-t-md"
+        style={{ height: LINEAGE_HEADER_HEIGHT }}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-semibold text-gray-900 truncate" title={dataset.name}>
+            {dataset.name}
+          </span>
+          {stage && (
+            <span
+              className={`px-1.5 py-0.5 text-[10px] font-medium text-white rounded ${stage.className}`}
+            >
+              {stage.label}
+            </span>
+          )}
+        </div>
+        <div className="text-[10px] text-gray-500 truncate">
+          {domainName ?? 'Unknown domain'}
+          {dataset.qualifiedName !== dataset.name && ` · ${dataset.qualifiedName}`}
+        </div>
+      </div>
+
+      {fields.map((field) => {
+        const highlighted = !highlightedNodeIds || highlightedNodeIds.has(field.id);
+        const isSelected = field.id === selectedNodeId || field.id === pathTargetId;
+        return (
+          <div
+            key={field.id}
+            className={`relative flex items-center justify-between gap-2 px-2 text-xs cursor-pointer hover:bg-blue-50 ${
+              isSelected ? 'bg-blue-100 font-semibold' : ''
+            } ${highlighted ? '' : 'opacity-30'}`}
+            style={{ height: LINEAGE_ROW_HEIGHT }}
+            role="button"
+            tabIndex={0}
+            onClick={(e) => onSelectField(field.id, e.shiftKey)}
+            onKeyDown={(e) => e.key === 'Enter' && onSelectField(field.id, e.shiftKey)}
+            title={field.transformLogic ?? field.name}
+          >
+            <Handle
+              type="target"
+              position={Position.Left}
+              id={`in-${field.id}`}
+              style={handleStyle}
+              isConnectable={false}
+            />
+            <span className="font-mono truncate">{field.name}</span>
+            {field.dataType && (
+              <span className="text-[10px] text-gray-400 truncate">{field.dataType}</span>
+            )}
+            <Handle
+              type="source"
+              position={Position.Right}
+              id={`out-${field.id}`}
+              style={handleStyle}
+              isConnectable={false}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
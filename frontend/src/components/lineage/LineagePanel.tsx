@@ -0,0 +1,442 @@
+/**
+ * Lineage Panel Component
+ * Column-level lineage across the workspace, laid out by stage (operational → bronze →
+ * silver → gold → metric views → data products). Click a column to trace it upstream
+ * and/or downstream, shift-click a second column to highlight the paths between the
+ * two. The graph exports as JSON or as OpenLineage dataset facets.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import ReactFlow, { Background, Controls, MiniMap, type Edge, type Node } from 'reactflow';
+import 'reactflow/dist/style.css';
+import { useShallow } from 'zustand/shallow';
+import {
+  LineageDatasetNode,
+  LINEAGE_HEADER_HEIGHT,
+  LINEAGE_ROW_HEIGHT,
+  type LineageDatasetNodeData,
+} from './LineageDatasetNode';
+import { useModelStore } from '@/stores/modelStore';
+import { useWorkspaceStore } from '@/stores/workspaceStore';
+import { browserFileService } from '@/services/platform/browser';
+import { FileMigration } from '@/utils/fileMigration';
+import {
+  LINEAGE_EDGE_KINDS,
+  buildColumnLineage,
+  exportLineageToJson,
+  exportLineageToOpenLineage,
+  findLineagePath,
+  getLineageDatasetColumns,
+  traceColumnLineage,
+  type LineageDirection,
+  type LineageEdge,
+  type LineageEdgeKind,
+  type LineageNode,
+} from '@/utils/columnLineage';
+
+export interface LineagePanelProps {
+  workspaceId: string;
+  domainId: string;
+  className?: string;
+}
+
+const nodeTypes = { dataset: LineageDatasetNode };
+
+const DIRECTIONS: Array<{ value: LineageDirection; label: string }> = [
+  { value: 'upstream', label: 'Upstream' },
+  { value: 'downstream', label: 'Downstream' },
+  { value: 'both', label: 'Both' },
+];
+
+const EDGE_COLORS: Record<LineageEdgeKind, string> = {
+  transform: '#2563eb',
+  derivation: '#64748b',
+  'transformation-link': '#d97706',
+  metric: '#9333ea',
+  product: '#0d9488',
+};
+
+const COLUMN_WIDTH = 320;
+const DATASET_GAP = 24;
+
+export const LineagePanel: React.FC<LineagePanelProps> = ({
+  workspaceId,
+  domainId,
+  className = '',
+}) => {
+  const { tables, domains, metricViews, products } = useModelStore(
+    useShallow((state) => ({
+      tables: state.tables,
+      domains: state.domains,
+      metricViews: state.metricViews,
+      products: state.products,
+    }))
+  );
+  const workspaceName = useWorkspaceStore(
+    (state) => state.workspaces.find((w) => w.id === workspaceId)?.name ?? 'workspace'
+  );
+
+  const [scope, setScope] = useState<string>(domainId);
+  const [connectedOnly, setConnectedOnly] = useState(true);
+  const [direction, setDirection] = useState<LineageDirection>('both');
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [pathTargetId, setPathTargetId] = useState<string | null>(null);
+
+  const graph = useMemo(
+    () => buildColumnLineage({ tables, domains, metricViews, products }),
+    [tables, domains, metricViews, products]
+  );
+
+  // Datasets in scope, plus the datasets they exchange lineage with in other domains
+  const visibleDatasetIds = useMemo(() => {
+    const datasetOf = (nodeId: string) => graph.nodes.get(nodeId)?.datasetId;
+    const connected = new Set<string>();
+    for (const edge of graph.edges) {
+      connected.add(datasetOf(edge.from) ?? '');
+      connected.add(datasetOf(edge.to) ?? '');
+    }
+    const inScope = new Set(
+      graph.datasets
+        .filter((d) => scope === 'all' || d.domainId === scope)
+        .filter((d) => !connectedOnly || connected.has(d.id))
+        .map((d) => d.id)
+    );
+    if (scope !== 'all') {
+      for (const edge of graph.edges) {
+        const from = datasetOf(edge.from);
+        const to = datasetOf(edge.to);
+        if (from && to && inScope.has(from)) inScope.add(to);
+        if (from && to && inScope.has(to)) inScope.add(from);
+      }
+    }
+    return inScope;
+  }, [graph, scope, connectedOnly]);
+
+  const highlight = useMemo(() => {
+    if (selectedNodeId && pathTargetId) return findLineagePath(graph, selectedNodeId, pathTargetId);
+    if (selectedNodeId) {
+      const trace = traceColumnLineage(graph, selectedNodeId, direction);
+      return { nodeIds: new Set(trace.distances.keys()), edgeIds: trace.edgeIds };
+    }
+    return null;
+  }, [graph, selectedNodeId, pathTargetId, direction]);
+
+  const handleSelectField = useCallback(
+    (nodeId: string, extend: boolean) => {
+      if (extend && selectedNodeId && nodeId !== selectedNodeId) {
+        setPathTargetId(nodeId);
+        return;
+      }
+      setPathTargetId(null);
+      setSelectedNodeId((current) => (current === nodeId ? null : nodeId));
+    },
+    [selectedNodeId]
+  );
+
+  const flowNodes = useMemo((): Node<LineageDatasetNodeData>[] => {
+    const layoutColumns = getLineageDatasetColumns(graph);
+    const domainName = (id?: string) => domains.find((d) => d.id === id)?.name;
+    const offsets = new Map<number, number>();
+    return graph.datasets
+      .filter((d) => visibleDatasetIds.has(d.id))
+      .sort(
+        (a, b) =>
+          (domainName(a.domainId) ?? '').localeCompare(domainName(b.domainId) ?? '') ||
+          a.name.localeCompare(b.name)
+      )
+      .map((dataset) => {
+        const column = layoutColumns.get(dataset.id) ?? 0;
+        const y = offsets.get(column) ?? 0;
+        offsets.set(
+          column,
+          y + LINEAGE_HEADER_HEIGHT + dataset.nodeIds.length * LINEAGE_ROW_HEIGHT + DATASET_GAP
+        );
+        return {
+          id: dataset.id,
+          type: 'dataset',
+          position: { x: column * COLUMN_WIDTH, y },
+          data: {
+            dataset,
+            fields: dataset.nodeIds
+              .map((id) => graph.nodes.get(id))
+              .filter((n): n is LineageNode => !!n),
+            domainName: domainName(dataset.domainId),
+            selectedNodeId,
+            pathTargetId,
+            highlightedNodeIds: highlight?.nodeIds ?? null,
+            onSelectField: handleSelectField,
+          },
+        };
+      });
+  }, [
+    graph,
+    domains,
+    visibleDatasetIds,
+    selectedNodeId,
+    pathTargetId,
+    highlight,
+    handleSelectField,
+  ]);
+
+  const flowEdges = useMemo((): Edge[] => {
+    const datasetOf = (nodeId: string) => graph.nodes.get(nodeId)?.datasetId;
+    return graph.edges.flatMap((edge) => {
+      const source = datasetOf(edge.from);
+      const target = datasetOf(edge.to);
+      if (!source || !target || !visibleDatasetIds.has(source) || !visibleDatasetIds.has(target)) {
+        return [];
+      }
+      const highlighted = !highlight || highlight.edgeIds.has(edge.id);
+      return [
+        {
+          id: edge.id,
+          source,
+          target,
+          sourceHandle: `out-${edge.from}`,
+          targetHandle: `in-${edge.to}`,
+          animated: !!highlight && highlighted,
+          style: {
+            stroke: EDGE_COLORS[edge.kind],
+            strokeWidth: highlight && highlighted ? 2 : 1,
+            opacity: highlighted ? 1 : 0.1,
+          },
+        },
+      ];
+    });
+  }, [graph, visibleDatasetIds, highlight]);
+
+  const selectedNode = selectedNodeId ? graph.nodes.get(selectedNodeId) : undefined;
+  const fieldLabel = (nodeId: string) => {
+    const node = graph.nodes.get(nodeId);
+    const dataset = graph.datasets.find((d) => d.id === node?.datasetId);
+    if (!node || !dataset) return nodeId;
+    return dataset.kind === 'data-product' ? dataset.name : `${dataset.name}.${node.name}`;
+  };
+
+  const fileBaseName = `${FileMigration.sanitizeFileName(workspaceName)}_lineage`;
+
+  const handleExportJson = () => {
+    browserFileService.downloadFile(
+      exportLineageToJson(graph),
+      `${fileBaseName}.json`,
+      'application/json'
+    );
+  };
+
+  const handleExportOpenLineage = () => {
+    const datasets = exportLineageToOpenLineage(graph, `urn:odm:workspace:${workspaceId}`);
+    browserFileService.downloadFile(
+      JSON.stringify(datasets, null, 2),
+      `${fileBaseName}.openlineage.json`,
+      'application/json'
+    );
+  };
+
+  const renderEdgeList = (title: string, edges: LineageEdge[], end: 'from' | 'to') => (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">
+        {title} ({edges.length})
+      </h4>
+      {edges.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">None</p>
+      ) : (
+        <ul className="space-y-1">
+          {edges.map((edge) => (
+            <li key={edge.id}>
+              <button
+                onClick={() => handleSelectField(edge[end], false)}
+                className="text-left w-full text-xs hover:bg-gray-50 rounded px-1"
+              >
+                <span className="font-mono text-blue-700">{fieldLabel(edge[end])}</span>{' '}
+                <span className="text-gray-400">
+                  {LINEAGE_EDGE_KINDS.find((k) => k.kind === edge.kind)?.label}
+                </span>
+                {edge.logic && (
+                  <code className="block text-[10px] text-gray-600 truncate">{edge.logic}</code>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={`flex flex-col h-full bg-white ${className}`}>
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-gray-200">
+        <label htmlFor="lineage-scope" className="text-sm text-gray-600">
+          Domain
+        </label>
+        <select
+          id="lineage-scope"
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="all">All domains</option>
+          {domains.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex rounded-md border border-gray-300 overflow-hidden">
+          {DIRECTIONS.map((d) => (
+            <button
+              key={d.value}
+              onClick={() => setDirection(d.value)}
+              className={`px-2 py-1 text-sm ${
+                direction === d.value ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'
+              }`}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+
+        <label htmlFor="lineage-connected-only" className="flex items-center gap-1 text-sm">
+          <input
+            id="lineage-connected-only"
+            type="checkbox"
+            checked={connectedOnly}
+            onChange={(e) => setConnectedOnly(e.target.checked)}
+          />
+          Only datasets with lineage
+        </label>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <span className="text-xs text-gray-500">
+            {graph.edges.length} column link(s)
+            {graph.unresolved.length > 0 && ` · ${graph.unresolved.length} unresolved source(s)`}
+          </span>
+          <button
+            onClick={handleExportJson}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Export the lineage graph as JSON"
+          >
+            JSON
+          </button>
+          <button
+            onClick={handleExportOpenLineage}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Export datasets with OpenLineage schema and column lineage facets"
+          >
+            OpenLineage
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 overflow-hidden">
+        <div className="flex-1 relative">
+          {flowNodes.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-gray-500">
+              <p className="text-lg font-medium">No lineage to show</p>
+              <p className="text-sm mt-1">
+                Add transform sources to columns, transformation links, metric views or data
+                products to build lineage
+              </p>
+            </div>
+          ) : (
+            <ReactFlow
+              key={`${scope}:${connectedOnly}`}
+              nodes={flowNodes}
+              edges={flowEdges}
+              nodeTypes={nodeTypes}
+              nodesDraggable={false}
+              nodesConnectable={false}
+              onPaneClick={() => {
+                setSelectedNodeId(null);
+                setPathTargetId(null);
+              }}
+              fitView
+              minZoom={0.1}
+              maxZoom={2}
+              attributionPosition="bottom-left"
+            >
+              <Background />
+              <Controls showInteractive={false} />
+              <MiniMap pannable zoomable />
+            </ReactFlow>
+          )}
+        </div>
+
+        <div className="w-80 border-l border-gray-200 overflow-y-auto p-4 space-y-4">
+          {selectedNode ? (
+            <>
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 font-mono break-all">
+                  {fieldLabel(selectedNode.id)}
+                </h3>
+                {selectedNode.dataType && (
+                  <p className="text-xs text-gray-500">{selectedNode.dataType}</p>
+                )}
+              </div>
+              {pathTargetId && (
+                <div className="p-2 bg-blue-50 rounded text-xs">
+                  Paths to <span className="font-mono">{fieldLabel(pathTargetId)}</span>:{' '}
+                  {highlight && highlight.edgeIds.size > 0
+                    ? `${highlight.nodeIds.size} column(s), ${highlight.edgeIds.size} link(s)`
+                    : 'not downstream of the selected column'}
+                </div>
+              )}
+              {selectedNode.transformLogic && (
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">
+                    Transform Logic
+                  </h4>
+                  <pre className="text-xs bg-gray-50 p-2 rounded whitespace-pre-wrap break-all">
+                    {selectedNode.transformLogic}
+                  </pre>
+                </div>
+              )}
+              {selectedNode.transformDescription && (
+                <p className="text-sm text-gray-700">{selectedNode.transformDescription}</p>
+              )}
+              {renderEdgeList('Upstream', graph.upstream.get(selectedNode.id) ?? [], 'from')}
+              {renderEdgeList('Downstream', graph.downstream.get(selectedNode.id) ?? [], 'to')}
+              {highlight && !pathTargetId && (
+                <p className="text-xs text-gray-500">
+                  {highlight.nodeIds.size - 1} column(s) in the{' '}
+                  {direction === 'both' ? 'lineage' : direction} of this column. Shift-click another
+                  column to highlight the paths to it.
+                </p>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500">
+                Select a column to trace its lineage. Shift-click a second column to highlight the
+                paths between them.
+              </p>
+              <ul className="space-y-1">
+                {LINEAGE_EDGE_KINDS.map(({ kind, label }) => (
+                  <li key={kind} className="flex items-center gap-2 text-xs text-gray-600">
+                    <span className="w-4 h-0.5" style={{ background: EDGE_COLORS[kind] }} />
+                    {label}
+                  </li>
+                ))}
+              </ul>
+              {graph.unresolved.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">
+                    Unresolved Sources
+                  </h4>
+                  <ul className="space-y-1">
+                    {graph.unresolved.map((u) => (
+                      <li key={`${u.nodeId}:${u.reference}`} className="text-xs">
+                        <span className="font-mono">{fieldLabel(u.nodeId)}</span>{' '}
+                        <span className="text-red-600">← {u.reference}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,10 @@
+/**
+ * Lineage Components
+ * Column-level lineage view
+ */
+
+export { LineagePanel } from './LineagePanel';
+export { LineageDatasetNode } from './LineageDatasetNode';
+
+export type { LineagePanelProps } from './LineagePanel';
+export type { LineageDatasetNodeData, LineageDatasetNodeProps } from './LineageDatasetNode';
@@ -0,0 +1,235 @@
+/**
+ * Infer Relationships Dialog
+ * Proposes foreign-key relationships between the domain's tables (see
+ * utils/relationshipInference) for review. Accepted proposals become relationships with
+ * source/target keys and foreign key details, and mark the referencing column as a
+ * foreign key, as a single undo step.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Dialog } from '@/components/common/Dialog';
+import { useModelStore } from '@/stores/modelStore';
+import { useUIStore } from '@/stores/uiStore';
+import {
+  DEFAULT_MIN_CONFIDENCE,
+  inferRelationships,
+  proposalToRelationship,
+  type RelationshipProposal,
+} from '@/utils/relationshipInference';
+
+export interface InferRelationshipsDialogProps {
+  domainId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Proposals at or above this confidence are selected when the dialog opens
+const AUTO_SELECT_CONFIDENCE = 0.8;
+
+const confidenceClass = (confidence: number) =>
+  confidence >= AUTO_SELECT_CONFIDENCE
+    ? 'bg-green-100 text-green-800'
+    : confidence >= 0.65
+      ? 'bg-yellow-100 text-yellow-800'
+      : 'bg-gray-100 text-gray-700';
+
+export const InferRelationshipsDialog: React.FC<InferRelationshipsDialogProps> = ({
+  domainId,
+  isOpen,
+  onClose,
+}) => {
+  const tables = useModelStore((state) => state.tables);
+  const relationships = useModelStore((state) => state.relationships);
+  const currentView = useModelStore((state) => state.currentView);
+  const { addToast } = useUIStore();
+  const [minConfidence, setMinConfidence] = useState(DEFAULT_MIN_CONFIDENCE);
+  // null until the user changes the selection: confident proposals are preselected
+  const [selection, setSelection] = useState<Set<string> | null>(null);
+
+  const domainTables = useMemo(
+    () => tables.filter((t) => t.primary_domain_id === domainId),
+    [tables, domainId]
+  );
+  const tablesById = useMemo(() => new Map(tables.map((t) => [t.id, t])), [tables]);
+
+  const proposals = useMemo(
+    () => (isOpen ? inferRelationships(domainTables, relationships, { minConfidence }) : []),
+    [isOpen, domainTables, relationships, minConfidence]
+  );
+
+  const selectedIds = useMemo(
+    () =>
+      selection ??
+      new Set(proposals.filter((p) => p.confidence >= AUTO_SELECT_CONFIDENCE).map((p) => p.id)),
+    [selection, proposals]
+  );
+
+  const describe = (proposal: RelationshipProposal) => {
+    const parent = tablesById.get(proposal.parentTableId);
+    const child = tablesById.get(proposal.childTableId);
+    return {
+      parent: `${parent?.name}.${parent?.columns.find((c) => c.id === proposal.parentColumnId)?.name}`,
+      child: `${child?.name}.${child?.columns.find((c) => c.id === proposal.childColumnId)?.name}`,
+    };
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelection(next);
+  };
+
+  const handleAccept = () => {
+    const accepted = proposals.filter((p) => selectedIds.has(p.id));
+    if (accepted.length === 0) return;
+
+    const { transaction, addRelationship, updateTable } = useModelStore.getState();
+    const modelType =
+      currentView === 'operational' || currentView === 'analytical' ? 'logical' : 'conceptual';
+    transaction(
+      `Add ${accepted.length} inferred relationship${accepted.length !== 1 ? 's' : ''}`,
+      () => {
+        for (const proposal of accepted) {
+          const current = useModelStore.getState().tables;
+          addRelationship(
+            proposalToRelationship(proposal, current, {
+              workspaceId: tablesById.get(proposal.childTableId)?.workspace_id ?? '',
+              domainId,
+              modelType,
+            })
+          );
+          const child = current.find((t) => t.id === proposal.childTableId);
+          if (child) {
+            updateTable(child.id, {
+              columns: child.columns.map((c) =>
+                c.id === proposal.childColumnId
+                  ? { ...c, is_foreign_key: true, foreign_key_reference: proposal.parentColumnId }
+                  : c
+              ),
+            });
+          }
+        }
+      }
+    );
+
+    addToast({
+      type: 'success',
+      message: `Added ${accepted.length} relationship${accepted.length !== 1 ? 's' : ''}`,
+    });
+    setSelection(null);
+    onClose();
+  };
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title="Infer Relationships" size="xl">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            Foreign keys proposed from column names, data types and key columns of the{' '}
+            {domainTables.length} table{domainTables.length !== 1 ? 's' : ''} in this domain.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-700 flex-shrink-0">
+            Minimum confidence
+            <select
+              value={minConfidence}
+              onChange={(e) => {
+                setMinConfidence(Number(e.target.value));
+                setSelection(null);
+              }}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value={0.35}>35%</option>
+              <option value={0.5}>50%</option>
+              <option value={0.65}>65%</option>
+              <option value={0.8}>80%</option>
+            </select>
+          </label>
+        </div>
+
+        {proposals.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">
+            No relationships to propose. Tables that are already related are skipped.
+          </div>
+        ) : (
+          <div className="max-h-[420px] overflow-y-auto border border-gray-200 rounded">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+                <tr>
+                  <th className="px-3 py-2 w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all proposals"
+                      checked={selectedIds.size === proposals.length}
+                      onChange={(e) =>
+                        setSelection(
+                          e.target.checked ? new Set(proposals.map((p) => p.id)) : new Set()
+                        )
+                      }
+                    />
+                  </th>
+                  <th className="px-3 py-2">Foreign key</th>
+                  <th className="px-3 py-2">References</th>
+                  <th className="px-3 py-2">Type</th>
+                  <th className="px-3 py-2">Confidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposals.map((proposal) => {
+                  const { parent, child } = describe(proposal);
+                  return (
+                    <tr key={proposal.id} className="border-t border-gray-100 align-top">
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          aria-label={`Accept ${child} → ${parent}`}
+                          checked={selectedIds.has(proposal.id)}
+                          onChange={() => toggle(proposal.id)}
+                        />
+                      </td>
+                      <td className="px-3 py-2 font-mono text-gray-900">{child}</td>
+                      <td className="px-3 py-2 font-mono text-gray-900">{parent}</td>
+                      <td className="px-3 py-2 text-gray-600">{proposal.type}</td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${confidenceClass(proposal.confidence)}`}
+                          title={proposal.reasons.join('\n')}
+                        >
+                          {Math.round(proposal.confidence * 100)}%
+                        </span>
+                        <ul className="mt-1 text-xs text-gray-500 list-disc list-inside">
+                          {proposal.reasons.map((reason) => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleAccept}
+            disabled={selectedIds.size === 0}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Accept {selectedIds.size > 0 ? selectedIds.size : ''} selected
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
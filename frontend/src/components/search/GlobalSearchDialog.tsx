@@ -0,0 +1,297 @@
+/**
+ * Global Search Dialog Component
+ *
+ * Workspace-wide search across every domain (Cmd/Ctrl+K). Results are ranked by
+ * utils/workspaceSearch and can be narrowed by resource kind and domain facets.
+ * Selecting a result jumps to it via searchStore.openResult.
+ */
+
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { useShallow } from 'zustand/shallow';
+import { useSearchStore } from '@/stores/searchStore';
+import { useModelStore } from '@/stores/modelStore';
+import { useDecisionStore } from '@/stores/decisionStore';
+import { useKnowledgeStore } from '@/stores/knowledgeStore';
+import { useSketchStore } from '@/stores/sketchStore';
+import {
+  buildSearchIndex,
+  searchWorkspace,
+  SEARCH_KIND_LABELS,
+  type SearchResultKind,
+} from '@/utils/workspaceSearch';
+
+const kindBadgeColors: Record<SearchResultKind, string> = {
+  table: 'bg-blue-100 text-blue-700',
+  column: 'bg-sky-100 text-sky-700',
+  system: 'bg-indigo-100 text-indigo-700',
+  product: 'bg-green-100 text-green-700',
+  'compute-asset': 'bg-orange-100 text-orange-700',
+  'metric-view': 'bg-amber-100 text-amber-700',
+  bpmn: 'bg-purple-100 text-purple-700',
+  dmn: 'bg-fuchsia-100 text-fuchsia-700',
+  decision: 'bg-rose-100 text-rose-700',
+  knowledge: 'bg-teal-100 text-teal-700',
+  sketch: 'bg-gray-100 text-gray-700',
+};
+
+export const GlobalSearchDialog: React.FC = () => {
+  const {
+    isOpen,
+    query,
+    kindFilter,
+    domainFilter,
+    closeSearch,
+    setQuery,
+    toggleKindFilter,
+    setDomainFilter,
+    openResult,
+  } = useSearchStore();
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const model = useModelStore(
+    useShallow((state) => ({
+      domains: state.domains,
+      tables: state.tables,
+      systems: state.systems,
+      products: state.products,
+      computeAssets: state.computeAssets,
+      metricViews: state.metricViews,
+      bpmnProcesses: state.bpmnProcesses,
+      dmnDecisions: state.dmnDecisions,
+    }))
+  );
+  const decisions = useDecisionStore((state) => state.decisions);
+  const articles = useKnowledgeStore((state) => state.articles);
+  const sketches = useSketchStore((state) => state.sketches);
+
+  // Only rebuild the index while the dialog is open
+  const index = useMemo(
+    () =>
+      isOpen
+        ? buildSearchIndex({
+            tables: model.tables,
+            systems: model.systems,
+            products: model.products,
+            computeAssets: model.computeAssets,
+            metricViews: model.metricViews,
+            bpmnProcesses: model.bpmnProcesses,
+            dmnDecisions: model.dmnDecisions,
+            decisions,
+            articles,
+            sketches,
+          })
+        : [],
+    [isOpen, model, decisions, articles, sketches]
+  );
+
+  const { results, facets, total } = useMemo(
+    () => searchWorkspace(index, query, { kinds: kindFilter, domainId: domainFilter }),
+    [index, query, kindFilter, domainFilter]
+  );
+
+  const domainNames = useMemo(
+    () => new Map(model.domains.map((d) => [d.id, d.name])),
+    [model.domains]
+  );
+
+  // Focus the input when opened
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [isOpen]);
+
+  // Reset the highlighted row when the result set changes
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query, kindFilter, domainFilter]);
+
+  // Keep the highlighted row visible
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView?.({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        closeSearch();
+      } else if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex((i) => Math.max(i - 1, 0));
+      } else if (e.key === 'Enter' && results[activeIndex]) {
+        e.preventDefault();
+        openResult(results[activeIndex]!.document);
+      }
+    },
+    [results, activeIndex, closeSearch, openResult]
+  );
+
+  if (!isOpen) return null;
+
+  const kindFacets = (Object.keys(SEARCH_KIND_LABELS) as SearchResultKind[]).filter(
+    (kind) => facets.kinds[kind] || kindFilter.includes(kind)
+  );
+  const domainFacets = Object.entries(facets.domains).sort(([, a], [, b]) => b - a);
+
+  return (
+    // eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions -- Dialog backdrop
+    <div
+      className="fixed inset-0 bg-black bg-opacity-30 flex items-start justify-center pt-24 z-50"
+      onClick={closeSearch}
+    >
+      {/* eslint-disable-next-line jsx-a11y/no-noninteractive-element-interactions -- Stop backdrop close, keyboard navigation */}
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl flex flex-col max-h-[70vh]"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-label="Search workspace"
+      >
+        {/* Search input */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200">
+          <svg
+            className="w-5 h-5 text-gray-400"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+            />
+          </svg>
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search tables, columns, systems, decisions..."
+            className="flex-1 text-sm outline-none"
+            aria-label="Search query"
+          />
+          <kbd className="px-1.5 py-0.5 text-xs text-gray-500 bg-gray-100 rounded">Esc</kbd>
+        </div>
+
+        {/* Facets */}
+        {query.trim() && (kindFacets.length > 0 || domainFacets.length > 1) && (
+          <div className="flex flex-wrap items-center gap-1.5 px-4 py-2 border-b border-gray-100 bg-gray-50">
+            {kindFacets.map((kind) => (
+              <button
+                key={kind}
+                onClick={() => toggleKindFilter(kind)}
+                className={`px-2 py-0.5 text-xs rounded-full border ${
+                  kindFilter.includes(kind)
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+                }`}
+              >
+                {SEARCH_KIND_LABELS[kind]} ({facets.kinds[kind] || 0})
+              </button>
+            ))}
+            {domainFacets.length > 1 && (
+              <select
+                value={domainFilter ?? ''}
+                onChange={(e) => setDomainFilter(e.target.value || null)}
+                className="ml-auto text-xs border border-gray-300 rounded px-1.5 py-0.5 bg-white"
+                aria-label="Filter by domain"
+              >
+                <option value="">All domains</option>
+                {domainFacets.map(([domainId, count]) => (
+                  <option key={domainId} value={domainId}>
+                    {domainNames.get(domainId) || domainId} ({count})
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto">
+          {!query.trim() ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">
+              Search across all domains in this workspace
+            </p>
+          ) : results.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">
+              No results for &quot;{query}&quot;
+            </p>
+          ) : (
+            <ul ref={listRef} className="py-1" role="listbox">
+              {results.map((result, i) => {
+                const { document } = result;
+                const domainName = document.domainId
+                  ? domainNames.get(document.domainId)
+                  : undefined;
+                return (
+                  <li
+                    key={`${document.kind}-${document.id}`}
+                    role="option"
+                    aria-selected={i === activeIndex}
+                  >
+                    <button
+                      onClick={() => openResult(document)}
+                      onMouseMove={() => setActiveIndex(i)}
+                      className={`w-full flex items-center gap-3 px-4 py-2 text-left ${
+                        i === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <span
+                        className={`flex-shrink-0 w-28 text-center px-1.5 py-0.5 text-xs rounded ${kindBadgeColors[document.kind]}`}
+                      >
+                        {SEARCH_KIND_LABELS[document.kind]}
+                      </span>
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm font-medium text-gray-900 truncate">
+                          {document.title}
+                        </span>
+                        {document.subtitle && (
+                          <span className="block text-xs text-gray-500 truncate">
+                            {document.subtitle}
+                          </span>
+                        )}
+                      </span>
+                      <span className="flex-shrink-0 text-right">
+                        {domainName && (
+                          <span className="block text-xs text-gray-600">{domainName}</span>
+                        )}
+                        {result.matchedField &&
+                          !['name', 'title'].includes(result.matchedField) && (
+                            <span className="block text-xs text-gray-400">
+                              in {result.matchedField}
+                            </span>
+                          )}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Footer */}
+        {query.trim() && (
+          <div className="px-4 py-2 border-t border-gray-100 text-xs text-gray-500 flex justify-between">
+            <span>
+              {total > results.length
+                ? `Showing ${results.length} of ${total} results`
+                : `${total} result${total === 1 ? '' : 's'}`}
+            </span>
+            <span>↑↓ to navigate · Enter to open</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,20 @@
 /**
  * Git Hooks Settings Component
- * Manages git hooks for automatic database sync
+ * Manages the git hooks that validate workspace files and detect orphaned references,
+ * and shows the findings of their last run
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { gitHooksService, type GitHooksStatus, type HookStatus } from '@/services/storage/gitHooks';
+import {
+  gitHooksService,
+  type GitHooksStatus,
+  type HookName,
+  type HookRunResult,
+  type HookStatus,
+} from '@/services/storage/gitHooks';
 import { useUIStore } from '@/stores/uiStore';
+import { useModelStore } from '@/stores/modelStore';
+import { findOrphanedReferences, repairOrphanedReferences } from '@/utils/orphanedReferences';
 
 interface GitHooksSettingsProps {
   workspacePath: string;
@@ -15,6 +24,7 @@ export const GitHooksSettings: React.FC<GitHooksSettingsProps> = ({ workspacePat
   const [status, setStatus] = useState<GitHooksStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [installing, setInstalling] = useState<string | null>(null);
+  const [expandedHook, setExpandedHook] = useState<HookName | null>(null);
   const { addToast } = useUIStore();
 
   const loadStatus = useCallback(async () => {
@@ -39,7 +49,7 @@ export const GitHooksSettings: React.FC<GitHooksSettingsProps> = ({ workspacePat
     loadStatus();
   }, [loadStatus]);
 
-  const handleInstallHook = async (hookName: 'pre-commit' | 'post-checkout' | 'post-merge') => {
+  const handleInstallHook = async (hookName: HookName) => {
     setInstalling(hookName);
     try {
       const result = await gitHooksService.installHook(workspacePath, hookName);
@@ -65,7 +75,7 @@ export const GitHooksSettings: React.FC<GitHooksSettingsProps> = ({ workspacePat
     }
   };
 
-  const handleUninstallHook = async (hookName: 'pre-commit' | 'post-checkout' | 'post-merge') => {
+  const handleUninstallHook = async (hookName: HookName) => {
     setInstalling(hookName);
     try {
       const result = await gitHooksService.uninstallHook(workspacePath, hookName);
@@ -143,22 +153,110 @@ export const GitHooksSettings: React.FC<GitHooksSettingsProps> = ({ workspacePat
     }
   };
 
+  /**
+   * Remove the orphaned references reported by the last hook run from the open model.
+   * References are re-checked first, so ones that were fixed since are left alone.
+   */
+  const handleRepair = (result: HookRunResult) => {
+    const state = useModelStore.getState();
+    const reported = new Set(result.orphans.map((o) => `${o.resourceId}:${o.missingId}`));
+    const orphans = findOrphanedReferences(state).filter((o) =>
+      reported.has(`${o.resourceId}:${o.missingId}`)
+    );
+    if (orphans.length === 0) {
+      addToast({
+        type: 'info',
+        message: 'The open workspace has none of the reported orphaned references',
+      });
+      return;
+    }
+
+    const repair = repairOrphanedReferences(state, orphans);
+    state.transaction('Repair orphaned references', () => {
+      repair.removedRelationshipIds.forEach((id) => state.removeRelationship(id));
+      repair.systems
+        .filter((s) => repair.updatedSystemIds.includes(s.id))
+        .forEach((s) =>
+          state.updateSystem(s.id, {
+            table_ids: s.table_ids,
+            asset_ids: s.asset_ids,
+            metric_view_ids: s.metric_view_ids,
+          })
+        );
+      repair.domains
+        .filter((d) => repair.updatedDomainIds.includes(d.id))
+        .forEach((d) => state.updateDomain(d.id, { transformation_links: d.transformation_links }));
+    });
+    addToast({
+      type: 'success',
+      message: `Removed ${orphans.length} orphaned reference(s). Save the workspace to keep the repair.`,
+    });
+  };
+
   const getHookDescription = (name: string): string => {
     switch (name) {
       case 'pre-commit':
-        return 'Exports database changes to YAML files before committing';
+        return 'Validates staged workspace files and blocks commits with errors';
       case 'post-checkout':
-        return 'Syncs YAML changes to database after branch checkout';
+        return 'Checks for orphaned references after switching branches';
       case 'post-merge':
-        return 'Syncs YAML changes to database after merging';
+        return 'Checks for orphaned references after merging';
       default:
         return '';
     }
   };
 
+  const renderLastResult = (result: HookRunResult) => {
+    const errors = result.findings.filter((f) => f.severity === 'error').length;
+    const warnings = result.findings.filter((f) => f.severity === 'warning').length;
+    const hasDetails = result.findings.length > 0 || result.orphans.length > 0;
+    const expanded = expandedHook === result.hook;
+
+    return (
+      <div className="mt-2 text-xs">
+        <div className="flex items-center gap-2 text-gray-600">
+          <span>Last run {new Date(result.ranAt).toLocaleString()}</span>
+          <span className={result.success ? 'text-green-700' : 'text-red-700 font-medium'}>
+            {result.success ? 'Passed' : 'Commit blocked'}
+          </span>
+          {errors > 0 && <span className="text-red-700">{errors} error(s)</span>}
+          {warnings > 0 && <span className="text-yellow-700">{warnings} warning(s)</span>}
+          {result.orphans.length > 0 && (
+            <span className="text-orange-700">{result.orphans.length} orphaned reference(s)</span>
+          )}
+          {hasDetails && (
+            <button
+              onClick={() => setExpandedHook(expanded ? null : result.hook)}
+              className="text-blue-600 hover:underline"
+            >
+              {expanded ? 'Hide findings' : 'Show findings'}
+            </button>
+          )}
+        </div>
+        {expanded && (
+          <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+            {result.findings.map((finding, i) => (
+              <li
+                key={`finding-${i}`}
+                className={finding.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}
+              >
+                {finding.filePath && <code className="mr-1">{finding.filePath}:</code>}
+                <span className="font-medium">{finding.resourceName}</span> – {finding.message}
+              </li>
+            ))}
+            {result.orphans.map((orphan, i) => (
+              <li key={`orphan-${i}`} className="text-orange-700">
+                <span className="font-medium">{orphan.resourceName}</span> – {orphan.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
   const renderHookRow = (hook: HookStatus) => {
     const isInstalling = installing === hook.name;
-    const typedHookName = hook.name as 'pre-commit' | 'post-checkout' | 'post-merge';
 
     return (
       <div key={hook.name} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
@@ -182,11 +280,21 @@ export const GitHooksSettings: React.FC<GitHooksSettingsProps> = ({ workspacePat
             )}
           </div>
           <p className="text-sm text-gray-500 mt-1">{getHookDescription(hook.name)}</p>
+          {hook.lastResult && renderLastResult(hook.lastResult)}
         </div>
         <div className="flex gap-2">
+          {hook.lastResult && hook.lastResult.orphans.length > 0 && (
+            <button
+              onClick={() => handleRepair(hook.lastResult!)}
+              className="px-3 py-1.5 text-sm bg-orange-100 text-orange-700 rounded hover:bg-orange-200"
+              title="Remove the orphaned references from the open workspace"
+            >
+              Repair
+            </button>
+          )}
           {hook.installed ? (
             <button
-              onClick={() => handleUninstallHook(typedHookName)}
+              onClick={() => handleUninstallHook(hook.name)}
               disabled={isInstalling}
               className="px-3 py-1.5 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200 disabled:opacity-50"
             >
@@ -194,7 +302,7 @@ export const GitHooksSettings: React.FC<GitHooksSettingsProps> = ({ workspacePat
             </button>
           ) : (
             <button
-              onClick={() => handleInstallHook(typedHookName)}
+              onClick={() => handleInstallHook(hook.name)}
               disabled={isInstalling || !hook.enabled}
               className="px-3 py-1.5 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50"
             >
@@ -262,7 +370,7 @@ export const GitHooksSettings: React.FC<GitHooksSettingsProps> = ({ workspacePat
         <div>
           <h3 className="text-lg font-semibold text-gray-900">Git Hooks</h3>
           <p className="text-sm text-gray-500">
-            Automatically sync database with YAML files during git operations
+            Validate workspace files and catch orphaned references during git operations
           </p>
         </div>
         <div className="flex gap-2">
@@ -289,18 +397,23 @@ export const GitHooksSettings: React.FC<GitHooksSettingsProps> = ({ workspacePat
         <h4 className="font-medium text-blue-800 mb-1">How Git Hooks Work</h4>
         <ul className="text-sm text-blue-700 space-y-1">
           <li>
-            <strong>pre-commit:</strong> Before you commit, exports database to YAML so your changes
-            are versioned
+            <strong>pre-commit:</strong> Parses the staged ODCS, ODPS, CADS, metric view, decision,
+            knowledge and workspace files, runs schema and integrity validation and blocks the
+            commit when errors are found
           </li>
           <li>
-            <strong>post-checkout:</strong> After switching branches, syncs YAML to database so you
-            see the correct data
+            <strong>post-checkout:</strong> After switching branches, reports relationships, systems
+            and transformation links that reference resources which no longer exist
           </li>
           <li>
-            <strong>post-merge:</strong> After merging, syncs YAML to database to incorporate merged
-            changes
+            <strong>post-merge:</strong> After merging, reports orphaned references so they can be
+            repaired here or with <code>odm repair</code>
           </li>
         </ul>
+        <p className="text-sm text-blue-700 mt-2">
+          The hooks run the <code>odm</code> CLI (<code>npm run build:cli</code>). Set{' '}
+          <code>ODM_CLI</code> to its path when it is not on your PATH.
+        </p>
       </div>
 
       {status.hooksPath && (
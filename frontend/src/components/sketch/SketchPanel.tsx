@@ -3,7 +3,7 @@
  * Main panel for viewing and managing sketches within a domain
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { SketchList } from './SketchList';
 import { SketchViewer } from './SketchViewer';
 import { ExcalidrawEditor } from '@/components/editors/ExcalidrawEditor';
@@ -30,6 +30,15 @@ export const SketchPanel: React.FC<SketchPanelProps> = ({
   const { currentWorkspaceId } = useWorkspaceStore();
   const [mode, setMode] = useState<PanelMode>('list');
 
+  // Show items selected from outside the list (e.g., global search). Only reacts to a new
+  // selection, so that going back to the list keeps the list.
+  const selectedSketchId = selectedSketch?.id;
+  useEffect(() => {
+    if (selectedSketchId) {
+      setMode((current) => (current === 'list' ? 'view' : current));
+    }
+  }, [selectedSketchId]);
+
   const handleSelectSketch = useCallback(
     (sketch: Sketch) => {
       setSelectedSketch(sketch);
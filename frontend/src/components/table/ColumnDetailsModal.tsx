@@ -7,7 +7,11 @@
 import React, { useState, useEffect } from 'react';
 import { DraggableModal } from '@/components/common/DraggableModal';
 import { useUIStore } from '@/stores/uiStore';
-import type { Column, AuthoritativeDefinition, CustomProperty } from '@/types/table';
+import type { Column, AuthoritativeDefinition, CustomProperty, SCDType } from '@/types/table';
+import { SCD_TYPE_OPTIONS } from '@/utils/dimensionalModel';
+import { GlossaryTermBadge, GlossaryTermLinks } from '@/components/glossary';
+import { useGlossaryStore } from '@/stores/glossaryStore';
+import { getLinkedTermIds, isGlossaryLink } from '@/utils/glossary';
 
 export interface ColumnDetailsModalProps {
   column: Column;
@@ -344,6 +348,7 @@ export const ColumnDetailsModal: React.FC<ColumnDetailsModalProps> = ({
   readOnly = false,
 }) => {
   const { addToast } = useUIStore();
+  const glossaryTerms = useGlossaryStore((state) => state.terms);
 
   // Basic Properties
   const [description, setDescription] = useState<string>('');
@@ -369,6 +374,7 @@ export const ColumnDetailsModal: React.FC<ColumnDetailsModalProps> = ({
   const [partitionKeyPosition, setPartitionKeyPosition] = useState<number | undefined>();
   const [clustered, setClustered] = useState<boolean>(false);
   const [encryptedName, setEncryptedName] = useState<string>('');
+  const [scdType, setSCDType] = useState<SCDType | undefined>();
 
   // Transformations
   const [transformSourceObjects, setTransformSourceObjects] = useState<string[]>([]);
@@ -432,6 +438,7 @@ export const ColumnDetailsModal: React.FC<ColumnDetailsModalProps> = ({
     setPartitionKeyPosition(column.partitionKeyPosition);
     setClustered(column.clustered || false);
     setEncryptedName(column.encryptedName || '');
+    setSCDType(column.scdType);
 
     // Transformations
     setTransformSourceObjects(column.transformSourceObjects || []);
@@ -758,6 +765,7 @@ export const ColumnDetailsModal: React.FC<ColumnDetailsModalProps> = ({
         partitionKeyPosition: partitionKeyPosition,
         clustered: clustered || undefined,
         encryptedName: encryptedName || undefined,
+        scdType,
 
         // Transformations
         transformSourceObjects:
@@ -788,6 +796,10 @@ export const ColumnDetailsModal: React.FC<ColumnDetailsModalProps> = ({
     }
   };
 
+  const linkedTerms = getLinkedTermIds(authoritativeDefinitions)
+    .map((id) => glossaryTerms.find((t) => t.id === id))
+    .filter((t): t is NonNullable<typeof t> => !!t);
+
   const tabs = [
     { id: 'basic' as const, label: 'Basic', icon: '📝' },
     { id: 'governance' as const, label: 'Governance', icon: '🔒' },
@@ -806,6 +818,16 @@ export const ColumnDetailsModal: React.FC<ColumnDetailsModalProps> = ({
       zIndex={100}
     >
       <div className="flex flex-col h-[600px]">
+        {/* Linked glossary terms */}
+        {linkedTerms.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mb-2">
+            <span className="text-xs text-gray-500 mr-1">Glossary:</span>
+            {linkedTerms.map((term) => (
+              <GlossaryTermBadge key={term.id} term={term} />
+            ))}
+          </div>
+        )}
+
         {/* Tab Navigation */}
         <div className="flex border-b border-gray-200 mb-4">
           {tabs.map((tab) => (
@@ -966,64 +988,78 @@ export const ColumnDetailsModal: React.FC<ColumnDetailsModalProps> = ({
                 />
               </div>
 
+              <SectionHeader
+                title="Glossary Terms"
+                description="Business glossary terms that define this column"
+              />
+
+              <GlossaryTermLinks
+                definitions={authoritativeDefinitions}
+                onChange={setAuthoritativeDefinitions}
+                readOnly={readOnly}
+              />
+
               <SectionHeader
                 title="Authoritative Definitions"
                 description="Link to official sources that define this data element"
               />
 
               <div className="space-y-3">
-                {authoritativeDefinitions.map((def, index) => (
-                  <div key={index} className="flex gap-2 items-start p-3 bg-gray-50 rounded-lg">
-                    <div className="flex-1 grid grid-cols-2 gap-2">
-                      <div>
-                        <label
-                          htmlFor={`auth-def-type-${index}`}
-                          className="block text-xs text-gray-600 mb-1"
-                        >
-                          Type
-                        </label>
-                        <select
-                          id={`auth-def-type-${index}`}
-                          value={def.type}
-                          onChange={(e) =>
-                            handleUpdateAuthDefinition(index, { type: e.target.value })
-                          }
-                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
-                        >
-                          {AUTH_DEFINITION_TYPES.map((opt) => (
-                            <option key={opt.value} value={opt.value}>
-                              {opt.label}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
-                      <div>
-                        <label
-                          htmlFor={`auth-def-url-${index}`}
-                          className="block text-xs text-gray-600 mb-1"
-                        >
-                          URL
-                        </label>
-                        <input
-                          id={`auth-def-url-${index}`}
-                          type="url"
-                          value={def.url}
-                          onChange={(e) =>
-                            handleUpdateAuthDefinition(index, { url: e.target.value })
-                          }
-                          placeholder="https://..."
-                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
-                        />
+                {/* Glossary links are edited above; indexes still refer to the full list */}
+                {authoritativeDefinitions.map((def, index) =>
+                  isGlossaryLink(def) ? null : (
+                    <div key={index} className="flex gap-2 items-start p-3 bg-gray-50 rounded-lg">
+                      <div className="flex-1 grid grid-cols-2 gap-2">
+                        <div>
+                          <label
+                            htmlFor={`auth-def-type-${index}`}
+                            className="block text-xs text-gray-600 mb-1"
+                          >
+                            Type
+                          </label>
+                          <select
+                            id={`auth-def-type-${index}`}
+                            value={def.type}
+                            onChange={(e) =>
+                              handleUpdateAuthDefinition(index, { type: e.target.value })
+                            }
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                          >
+                            {AUTH_DEFINITION_TYPES.map((opt) => (
+                              <option key={opt.value} value={opt.value}>
+                                {opt.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label
+                            htmlFor={`auth-def-url-${index}`}
+                            className="block text-xs text-gray-600 mb-1"
+                          >
+                            URL
+                          </label>
+                          <input
+                            id={`auth-def-url-${index}`}
+                            type="url"
+                            value={def.url}
+                            onChange={(e) =>
+                              handleUpdateAuthDefinition(index, { url: e.target.value })
+                            }
+                            placeholder="https://..."
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                          />
+                        </div>
                       </div>
+                      <button
+                        onClick={() => handleRemoveAuthDefinition(index)}
+                        className="text-red-600 hover:text-red-800 text-sm mt-5"
+                      >
+                        ✕
+                      </button>
                     </div>
-                    <button
-                      onClick={() => handleRemoveAuthDefinition(index)}
-                      className="text-red-600 hover:text-red-800 text-sm mt-5"
-                    >
-                      ✕
-                    </button>
-                  </div>
-                ))}
+                  )
+                )}
                 <button
                   onClick={handleAddAuthDefinition}
                   className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
@@ -1153,6 +1189,34 @@ export const ColumnDetailsModal: React.FC<ColumnDetailsModalProps> = ({
                 </div>
               </div>
 
+              <SectionHeader
+                title="Dimensional Modeling"
+                description="How changes to this attribute are tracked when the table is a dimension"
+              />
+
+              <div>
+                <LabelWithTooltip
+                  label="Slowly Changing Dimension Type"
+                  tooltip="Type 1 overwrites the value, type 2 keeps history as new rows, type 3 keeps the previous value in an extra column."
+                />
+                <select
+                  value={scdType ?? ''}
+                  onChange={(e) =>
+                    setSCDType(
+                      e.target.value === '' ? undefined : (Number(e.target.value) as SCDType)
+                    )
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Not set</option>
+                  {SCD_TYPE_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <SectionHeader
                 title="Storage & Performance"
                 description="Configure how this column is stored and optimized"
@@ -11,6 +11,7 @@ import { isValidTableName, generateUUID } from '@/utils/validation';
 import { odcsService } from '@/services/sdk/odcsService';
 import { importExportService } from '@/services/sdk/importExportService';
 import { openapiService } from '@/services/sdk/openapiService';
+import { inferRelationships } from '@/utils/relationshipInference';
 import type { CreateTableRequest } from '@/types/api';
 import type { Table } from '@/types/table';
 
@@ -318,6 +319,21 @@ export const CreateTableDialog: React.FC<CreateTableDialogProps> = ({
         message: `Successfully imported ${importedTables.length} table(s)${selectedSystemId ? ' into selected system' : ''}`,
       });
 
+      // Most formats carry no foreign keys; point at the inference assistant when it has proposals
+      if (!workspace.relationships?.length) {
+        const { tables: allTables, relationships: allRelationships } = useModelStore.getState();
+        const proposals = inferRelationships(
+          allTables.filter((t) => t.primary_domain_id === currentDomainId),
+          allRelationships
+        ).filter((p) => importedTables.some((t) => t.id === p.childTableId));
+        if (proposals.length > 0) {
+          addToast({
+            type: 'info',
+            message: `${proposals.length} possible relationship(s) found. Use "Infer relationships" on the canvas to review them.`,
+          });
+        }
+      }
+
       // Call onCreated callback with first table if provided
       if (onCreated && importedTables.length > 0 && importedTables[0]) {
         onCreated(importedTables[0].id);
@@ -0,0 +1,236 @@
+/**
+ * Derive Model Dialog
+ * Derives logical tables from conceptual entities, or physical tables for a system's SQL
+ * dialect from logical tables (see utils/modelDerivation). The derived tables and their
+ * relationships are added as a single undo step.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Dialog } from '@/components/common/Dialog';
+import { useModelStore } from '@/stores/modelStore';
+import { useUIStore } from '@/stores/uiStore';
+import {
+  deriveTables,
+  NAMING_STYLES,
+  nextModelType,
+  type NamingStyle,
+} from '@/utils/modelDerivation';
+import { dialectForSystemType, SQL_DIALECTS, type SQLDialect } from '@/utils/sqlDialects';
+
+export interface DeriveModelDialogProps {
+  tableId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const DeriveModelDialog: React.FC<DeriveModelDialogProps> = ({
+  tableId,
+  isOpen,
+  onClose,
+}) => {
+  const tables = useModelStore((state) => state.tables);
+  const relationships = useModelStore((state) => state.relationships);
+  const systems = useModelStore((state) => state.systems);
+  const { addToast } = useUIStore();
+
+  const table = tables.find((t) => t.id === tableId);
+  const target = nextModelType(table?.model_type);
+
+  // Tables at the same level in the same domain can be derived together, so relationships
+  // between them (including many-to-many) are carried over
+  const candidates = useMemo(
+    () =>
+      tables.filter(
+        (t) =>
+          t.primary_domain_id === table?.primary_domain_id &&
+          (t.model_type ?? 'conceptual') === (table?.model_type ?? 'conceptual')
+      ),
+    [tables, table?.primary_domain_id, table?.model_type]
+  );
+  const sqlSystems = useMemo(
+    () =>
+      systems.filter(
+        (s) => s.domain_id === table?.primary_domain_id && dialectForSystemType(s.system_type)
+      ),
+    [systems, table?.primary_domain_id]
+  );
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set([tableId]));
+  const [naming, setNaming] = useState<NamingStyle>(target === 'physical' ? 'snake_case' : 'as-is');
+  const [surrogateKeys, setSurrogateKeys] = useState(true);
+  const [systemId, setSystemId] = useState(sqlSystems[0]?.id ?? '');
+  const [dialect, setDialect] = useState<SQLDialect>(
+    dialectForSystemType(sqlSystems[0]?.system_type) ?? 'postgresql'
+  );
+
+  const sources = candidates.filter((t) => selectedIds.has(t.id));
+  const manyToManyCount = relationships.filter(
+    (r) =>
+      r.type === 'many-to-many' &&
+      selectedIds.has(r.source_id || r.source_table_id || '') &&
+      selectedIds.has(r.target_id || r.target_table_id || '')
+  ).length;
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleSystemChange = (id: string) => {
+    setSystemId(id);
+    const systemDialect = dialectForSystemType(systems.find((s) => s.id === id)?.system_type);
+    if (systemDialect) setDialect(systemDialect);
+  };
+
+  const handleDerive = () => {
+    if (!target || sources.length === 0) return;
+    const result = deriveTables(sources, relationships, {
+      target,
+      naming,
+      surrogateKeys,
+      ...(target === 'physical' && { dialect, systemId: systemId || undefined }),
+    });
+
+    const { transaction, addTable, addRelationship, updateSystem } = useModelStore.getState();
+    transaction(`Derive ${target} model`, () => {
+      result.tables.forEach((t) => addTable(t));
+      result.relationships.forEach((r) => addRelationship(r));
+      const system = systemId && useModelStore.getState().systems.find((s) => s.id === systemId);
+      if (target === 'physical' && system) {
+        updateSystem(system.id, {
+          table_ids: [...(system.table_ids ?? []), ...result.tables.map((t) => t.id)],
+        });
+      }
+    });
+
+    addToast({
+      type: 'success',
+      message: `Derived ${result.tables.length} ${target} table${result.tables.length !== 1 ? 's' : ''}`,
+    });
+    onClose();
+  };
+
+  if (!table) return null;
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={onClose}
+      title={target ? `Derive ${target} model` : 'Derive model'}
+      size="lg"
+    >
+      {!target ? (
+        <p className="text-sm text-gray-600">
+          Physical tables are the last modelling level and cannot be derived further.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-1">
+              {table.model_type ?? 'conceptual'} tables to derive
+            </div>
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded p-2 space-y-1">
+              {candidates.map((t) => (
+                <label key={t.id} className="flex items-center gap-2 text-sm text-gray-800">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(t.id)}
+                    onChange={() => toggle(t.id)}
+                  />
+                  {t.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="text-sm text-gray-700">
+              Naming
+              <select
+                value={naming}
+                onChange={(e) => setNaming(e.target.value as NamingStyle)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {NAMING_STYLES.map((style) => (
+                  <option key={style.value} value={style.value}>
+                    {style.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {target === 'physical' && (
+              <>
+                <label className="text-sm text-gray-700">
+                  System
+                  <select
+                    value={systemId}
+                    onChange={(e) => handleSystemChange(e.target.value)}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="">No system</option>
+                    {sqlSystems.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name} ({s.system_type})
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  SQL dialect
+                  <select
+                    value={dialect}
+                    onChange={(e) => setDialect(e.target.value as SQLDialect)}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    {SQL_DIALECTS.map((d) => (
+                      <option key={d.value} value={d.value}>
+                        {d.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={surrogateKeys}
+              onChange={(e) => setSurrogateKeys(e.target.checked)}
+            />
+            Add a surrogate key to tables without a primary key
+          </label>
+
+          <div className="text-xs text-gray-500">
+            {sources.length} table{sources.length !== 1 ? 's' : ''} selected
+            {manyToManyCount > 0 &&
+              `, ${manyToManyCount} many-to-many relationship${manyToManyCount !== 1 ? 's' : ''} resolved into associative tables`}
+            . Derived tables keep a link to their source for later re-propagation.
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleDerive}
+              disabled={sources.length === 0}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Derive
+            </button>
+          </div>
+        </div>
+      )}
+    </Dialog>
+  );
+};
@@ -0,0 +1,262 @@
+/**
+ * Generate Data Vault Dialog
+ * Generates Hubs, Links and Satellites for the selected logical tables (see utils/dataVault)
+ * and previews what will be created or updated. Generated tables, their relationships and
+ * transformation links are added as a single undo step.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Dialog } from '@/components/common/Dialog';
+import { useModelStore } from '@/stores/modelStore';
+import { useUIStore } from '@/stores/uiStore';
+import {
+  generateDataVault,
+  getDataVaultTrace,
+  HASH_ALGORITHMS,
+  SATELLITE_SPLITS,
+  type DataVaultKind,
+  type HashAlgorithm,
+  type SatelliteSplit,
+} from '@/utils/dataVault';
+
+export interface GenerateDataVaultDialogProps {
+  domainId: string;
+  initialTableIds: string[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<DataVaultKind, string> = {
+  hub: 'Hub',
+  link: 'Link',
+  satellite: 'Satellite',
+};
+
+const KIND_STYLES: Record<DataVaultKind, string> = {
+  hub: 'bg-blue-100 text-blue-800',
+  link: 'bg-green-100 text-green-800',
+  satellite: 'bg-yellow-100 text-yellow-800',
+};
+
+export const GenerateDataVaultDialog: React.FC<GenerateDataVaultDialogProps> = ({
+  domainId,
+  initialTableIds,
+  isOpen,
+  onClose,
+}) => {
+  const tables = useModelStore((state) => state.tables);
+  const relationships = useModelStore((state) => state.relationships);
+  const systems = useModelStore((state) => state.systems);
+  const domains = useModelStore((state) => state.domains);
+  const { addToast } = useUIStore();
+
+  // Logical tables of the domain; generated Data Vault tables are not sources themselves
+  const candidates = useMemo(
+    () =>
+      tables.filter(
+        (t) =>
+          t.primary_domain_id === domainId && t.model_type !== 'conceptual' && !getDataVaultTrace(t)
+      ),
+    [tables, domainId]
+  );
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set(initialTableIds.filter((id) => candidates.some((t) => t.id === id)))
+  );
+  const [satelliteSplit, setSatelliteSplit] = useState<SatelliteSplit>('none');
+  const [hashAlgorithm, setHashAlgorithm] = useState<HashAlgorithm>('MD5');
+
+  const transformationLinks = domains.find((d) => d.id === domainId)?.transformation_links;
+  const result = useMemo(
+    () =>
+      generateDataVault(
+        candidates.filter((t) => selectedIds.has(t.id)),
+        { tables, relationships, systems, transformationLinks: transformationLinks ?? [] },
+        { satelliteSplit, hashAlgorithm }
+      ),
+    [
+      candidates,
+      selectedIds,
+      tables,
+      relationships,
+      systems,
+      transformationLinks,
+      satelliteSplit,
+      hashAlgorithm,
+    ]
+  );
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleGenerate = () => {
+    const { transaction, addTable, updateTable, addRelationship, updateDomain } =
+      useModelStore.getState();
+    transaction('Generate Data Vault', () => {
+      result.created.forEach((t) => addTable(t));
+      result.updated.forEach((t) =>
+        updateTable(t.id, {
+          columns: t.columns,
+          compoundKeys: t.compoundKeys,
+          tags: t.tags,
+          data_level: t.data_level,
+          metadata: t.metadata,
+        })
+      );
+      result.relationships.forEach((r) => addRelationship(r));
+      if (result.transformationLinks.length > 0) {
+        const domain = useModelStore.getState().domains.find((d) => d.id === domainId);
+        updateDomain(domainId, {
+          transformation_links: [
+            ...(domain?.transformation_links ?? []),
+            ...result.transformationLinks,
+          ],
+        });
+      }
+    });
+
+    addToast({
+      type: 'success',
+      message: `Data Vault generated: ${result.created.length} created, ${result.updated.length} updated`,
+    });
+    onClose();
+  };
+
+  const changes = [
+    ...result.created.map((table) => ({ table, action: 'create' })),
+    ...result.updated.map((table) => ({ table, action: 'update' })),
+  ];
+  const nothingToDo =
+    changes.length === 0 &&
+    result.relationships.length === 0 &&
+    result.transformationLinks.length === 0;
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title="Generate Data Vault" size="lg">
+      <div className="space-y-4">
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-1">Source tables</div>
+          {candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">This domain has no logical tables.</p>
+          ) : (
+            <div className="max-h-40 overflow-y-auto border border-gray-200 rounded p-2 space-y-1">
+              {candidates.map((t) => (
+                <label key={t.id} className="flex items-center gap-2 text-sm text-gray-800">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(t.id)}
+                    onChange={() => toggle(t.id)}
+                  />
+                  {t.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="text-sm text-gray-700">
+            Satellites
+            <select
+              value={satelliteSplit}
+              onChange={(e) => setSatelliteSplit(e.target.value as SatelliteSplit)}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {SATELLITE_SPLITS.map((split) => (
+                <option key={split.value} value={split.value}>
+                  {split.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Hash function
+            <select
+              value={hashAlgorithm}
+              onChange={(e) => setHashAlgorithm(e.target.value as HashAlgorithm)}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {HASH_ALGORITHMS.map((algorithm) => (
+                <option key={algorithm} value={algorithm}>
+                  {algorithm}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {selectedIds.size > 0 && (
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-1">Preview</div>
+            {nothingToDo ? (
+              <p className="text-sm text-gray-500">
+                The Data Vault for these tables is up to date.
+              </p>
+            ) : (
+              <ul className="max-h-60 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-100">
+                {changes.map(({ table, action }) => {
+                  const kind = getDataVaultTrace(table)!.kind;
+                  return (
+                    <li key={table.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                      <span
+                        className={`px-1.5 py-0.5 rounded text-xs font-medium ${KIND_STYLES[kind]}`}
+                      >
+                        {KIND_LABELS[kind]}
+                      </span>
+                      <span className="font-mono text-gray-900">{table.name}</span>
+                      <span className="text-xs text-gray-500">{table.columns.length} columns</span>
+                      <span className="ml-auto text-xs text-gray-500">{action}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              {result.relationships.length} relationship
+              {result.relationships.length !== 1 ? 's' : ''} and {result.transformationLinks.length}{' '}
+              transformation link
+              {result.transformationLinks.length !== 1 ? 's' : ''} to add. Generated tables are
+              tagged <code>dm_level:Silver</code>.
+            </p>
+          </div>
+        )}
+
+        {(result.warnings.length > 0 || result.stale.length > 0) && (
+          <div className="p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800 space-y-1">
+            {result.warnings.map((warning) => (
+              <div key={warning}>{warning}</div>
+            ))}
+            {result.stale.map((t) => (
+              <div key={t.id}>
+                &quot;{t.name}&quot; is no longer generated from these tables and can be removed.
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={selectedIds.size === 0 || nothingToDo}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Generate
+          </button>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
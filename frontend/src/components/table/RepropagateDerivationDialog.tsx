@@ -0,0 +1,159 @@
+/**
+ * Re-propagate Derivation Dialog
+ * Lists the changes re-deriving a derived table from its source would make (see
+ * utils/modelDerivation diffDerivation) and applies the selected ones.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Dialog } from '@/components/common/Dialog';
+import { useModelStore } from '@/stores/modelStore';
+import { useUIStore } from '@/stores/uiStore';
+import {
+  applyDerivationChanges,
+  diffDerivation,
+  getDerivationTrace,
+  type DerivationChangeKind,
+} from '@/utils/modelDerivation';
+
+export interface RepropagateDerivationDialogProps {
+  tableId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<DerivationChangeKind, string> = {
+  'table-renamed': 'bg-blue-100 text-blue-800',
+  'column-added': 'bg-green-100 text-green-800',
+  'column-removed': 'bg-red-100 text-red-800',
+  'column-changed': 'bg-yellow-100 text-yellow-800',
+};
+
+export const RepropagateDerivationDialog: React.FC<RepropagateDerivationDialogProps> = ({
+  tableId,
+  isOpen,
+  onClose,
+}) => {
+  const tables = useModelStore((state) => state.tables);
+  const { addToast } = useUIStore();
+
+  const derived = tables.find((t) => t.id === tableId);
+  const trace = derived ? getDerivationTrace(derived) : undefined;
+  const source = trace?.source_table_id
+    ? tables.find((t) => t.id === trace.source_table_id)
+    : undefined;
+
+  const changes = useMemo(
+    () => (derived && source ? diffDerivation(derived, source) : []),
+    [derived, source]
+  );
+  // null until the user changes the selection: every change is selected
+  const [selection, setSelection] = useState<Set<string> | null>(null);
+  const selectedIds = selection ?? new Set(changes.map((c) => c.id));
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelection(next);
+  };
+
+  const handleApply = () => {
+    if (!derived || !source) return;
+    const selected = changes.filter((c) => selectedIds.has(c.id));
+    const updated = applyDerivationChanges(derived, source, selected);
+    useModelStore.getState().updateTable(derived.id, {
+      name: updated.name,
+      physicalName: updated.physicalName,
+      columns: updated.columns,
+      compoundKeys: updated.compoundKeys,
+      metadata: updated.metadata,
+    });
+    addToast({
+      type: 'success',
+      message: `Applied ${selected.length} change${selected.length !== 1 ? 's' : ''} from "${source.name}"`,
+    });
+    onClose();
+  };
+
+  let notice: string | null = null;
+  if (!trace) {
+    notice = 'This table was not derived from another table.';
+  } else if (trace.source_relationship_id) {
+    notice =
+      'This associative table was derived from a many-to-many relationship and has no source table to re-propagate from.';
+  } else if (!source) {
+    notice = 'The source table of this table no longer exists.';
+  } else if (changes.length === 0) {
+    notice = `"${derived?.name}" is up to date with "${source.name}".`;
+  }
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title="Re-propagate from source" size="lg">
+      <div className="space-y-4">
+        {source && (
+          <p className="text-sm text-gray-600">
+            Changes from {trace?.source_model_type} table <strong>{source.name}</strong> to{' '}
+            {trace?.options.target} table <strong>{derived?.name}</strong>. Keys added by the
+            derivation and columns added by hand are kept.
+          </p>
+        )}
+        {notice ? (
+          <div className="py-6 text-center text-sm text-gray-500">{notice}</div>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-100">
+            {changes.map((change) => (
+              <li key={change.id} className="flex items-start gap-3 px-3 py-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  aria-label={change.description}
+                  checked={selectedIds.has(change.id)}
+                  onChange={() => toggle(change.id)}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`px-1.5 py-0.5 rounded text-xs font-medium ${KIND_STYLES[change.kind]}`}
+                    >
+                      {change.kind.replace('-', ' ')}
+                    </span>
+                    <span className="text-gray-900">{change.description}</span>
+                  </div>
+                  {(change.before || change.after) && (
+                    <div className="mt-1 font-mono text-xs">
+                      {change.before && (
+                        <span className="text-red-700 line-through mr-2">{change.before}</span>
+                      )}
+                      {change.after && <span className="text-green-700">{change.after}</span>}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {notice ? 'Close' : 'Cancel'}
+          </button>
+          {!notice && (
+            <button
+              onClick={handleApply}
+              disabled={selectedIds.size === 0}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply {selectedIds.size} change{selectedIds.size !== 1 ? 's' : ''}
+            </button>
+          )}
+        </div>
+      </div>
+    </Dialog>
+  );
+};
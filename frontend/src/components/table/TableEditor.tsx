@@ -3,21 +3,28 @@
  * Allows editing table properties and columns
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useModelStore } from '@/stores/modelStore';
 import { useUIStore } from '@/stores/uiStore';
 import { useSDKModeStore } from '@/services/sdk/sdkMode';
+import { tableService } from '@/services/api/tableService';
 import { useWorkspaceStore } from '@/stores/workspaceStore';
+import { useDecisionStore } from '@/stores/decisionStore';
 import { ColumnEditor } from './ColumnEditor';
 import { ColumnDetailsModal } from './ColumnDetailsModal';
 import { TableMetadataModal } from './TableMetadataModal';
 import { CompoundKeyEditor } from './CompoundKeyEditor';
+import { DeriveModelDialog } from './DeriveModelDialog';
+import { RepropagateDerivationDialog } from './RepropagateDerivationDialog';
+import { ImpactAnalysisDialog } from '@/components/impact/ImpactAnalysisDialog';
 import { isValidTableName } from '@/utils/validation';
 import { isViewerMode } from '@/services/viewerMode';
 import { odcsService } from '@/services/sdk/odcsService';
 import { browserFileService } from '@/services/platform/browser';
 import { importExportService } from '@/services/sdk/importExportService';
 import { sdkLoader } from '@/services/sdk/sdkLoader';
+import { getDerivationTrace, nextModelType } from '@/utils/modelDerivation';
+import { analyzeImpact, type ImpactChange } from '@/utils/impactAnalysis';
 import type { Column, Table, CompoundKey, TableIndex } from '@/types/table';
 import type { DataLevel } from '@/stores/modelStore';
 
@@ -34,7 +41,6 @@ export const TableEditor: React.FC<TableEditorProps> = ({ tableId, workspaceId,
     updateTable,
     updateTableRemote,
     updateColumnRemote,
-    deleteTableRemote,
     selectedDomainId,
     removeTable,
   } = useModelStore();
@@ -77,6 +83,11 @@ export const TableEditor: React.FC<TableEditorProps> = ({ tableId, workspaceId,
   const [showSqlDialectSelector, setShowSqlDialectSelector] = useState(false);
   const [showIndexes, setShowIndexes] = useState(false);
   const [expandedColumns, setExpandedColumns] = useState<Set<string>>(new Set());
+  const [showDeriveDialog, setShowDeriveDialog] = useState(false);
+  const [showRepropagateDialog, setShowRepropagateDialog] = useState(false);
+  const [impactChange, setImpactChange] = useState<ImpactChange | null>(null);
+  // Column renames already reviewed in the impact analysis dialog ("columnId:newName")
+  const reviewedRenames = useRef(new Set<string>());
 
   // Check if table is editable (must be primary domain)
   // Compare domain IDs directly - they should match exactly as strings
@@ -312,9 +323,35 @@ export const TableEditor: React.FC<TableEditorProps> = ({ tableId, workspaceId,
     }
   };
 
+  // First unreviewed column rename that other artifacts depend on
+  const findImpactedRename = (): Extract<ImpactChange, { kind: 'rename-column' }> | null => {
+    if (!table) return null;
+    const model = useModelStore.getState();
+    const input = { ...model, decisions: useDecisionStore.getState().decisions };
+    for (const column of columns) {
+      const saved = table.columns.find((c) => c.id === column.id);
+      if (!saved || !column.name || saved.name === column.name) continue;
+      if (reviewedRenames.current.has(`${column.id}:${column.name}`)) continue;
+      const change = {
+        kind: 'rename-column' as const,
+        tableId,
+        columnId: column.id,
+        newName: column.name,
+      };
+      if (analyzeImpact(change, input).items.length > 0) return change;
+    }
+    return null;
+  };
+
   const handleSaveTable = async () => {
     if (!table || !selectedDomainId) return;
 
+    const rename = findImpactedRename();
+    if (rename) {
+      setImpactChange(rename);
+      return;
+    }
+
     setIsSaving(true);
     try {
       // Validate name
@@ -433,34 +470,39 @@ export const TableEditor: React.FC<TableEditorProps> = ({ tableId, workspaceId,
     }
   };
 
-  const handleDeleteTable = async () => {
+  const handleDeleteTable = () => {
     if (!table || !selectedDomainId) return;
+    setImpactChange({ kind: 'remove-table', tableId });
+  };
 
-    if (
-      !window.confirm(
-        `Are you sure you want to delete table "${table.name}"? This action cannot be undone.`
-      )
-    ) {
-      return;
-    }
-
+  // Runs before the impact analysis changes the model, which is left alone on failure.
+  // Deletes on the server only: the model changes in the dialog's transaction, so that the
+  // chosen resolution applies and one undo restores the table.
+  const deleteTableOnServer = async () => {
+    if (mode !== 'online' || !selectedDomainId) return true;
     try {
-      if (mode === 'online') {
-        await deleteTableRemote(selectedDomainId, tableId);
-      }
-      removeTable(tableId);
-      addToast({
-        type: 'success',
-        message: `Table "${table.name}" deleted successfully`,
-      });
-      if (onClose) {
-        onClose();
-      }
+      await tableService.deleteTable(selectedDomainId, tableId);
+      return true;
     } catch (error) {
       addToast({
         type: 'error',
         message: error instanceof Error ? error.message : 'Failed to delete table',
       });
+      return false;
+    }
+  };
+
+  // Runs inside the impact analysis transaction, after dependents are resolved
+  const deleteTable = () => {
+    if (!table) return;
+
+    removeTable(tableId);
+    addToast({
+      type: 'success',
+      message: `Table "${table.name}" deleted successfully`,
+    });
+    if (onClose) {
+      onClose();
     }
   };
 
@@ -1236,6 +1278,24 @@ export const TableEditor: React.FC<TableEditorProps> = ({ tableId, workspaceId,
                 </>
               )}
             </div>
+            {isEditable && table && getDerivationTrace(table)?.source_table_id && (
+              <button
+                onClick={() => setShowRepropagateDialog(true)}
+                className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="Apply changes made to the table this one was derived from"
+              >
+                Re-propagate
+              </button>
+            )}
+            {isEditable && table && nextModelType(table.model_type) && (
+              <button
+                onClick={() => setShowDeriveDialog(true)}
+                className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title={`Derive ${nextModelType(table.model_type)} tables from this table`}
+              >
+                Derive {nextModelType(table.model_type)}
+              </button>
+            )}
             <button
               onClick={handleSaveTable}
               disabled={isSaving || !hasUnsavedChanges}
@@ -1534,6 +1594,38 @@ export const TableEditor: React.FC<TableEditorProps> = ({ tableId, workspaceId,
             onSave={handleColumnDetailsSave}
           />
         )}
+
+        {/* Model derivation dialogs */}
+        {showDeriveDialog && (
+          <DeriveModelDialog
+            tableId={tableId}
+            isOpen={showDeriveDialog}
+            onClose={() => setShowDeriveDialog(false)}
+          />
+        )}
+        {showRepropagateDialog && (
+          <RepropagateDerivationDialog
+            tableId={tableId}
+            isOpen={showRepropagateDialog}
+            onClose={() => setShowRepropagateDialog(false)}
+          />
+        )}
+        <ImpactAnalysisDialog
+          isOpen={impactChange !== null}
+          change={impactChange}
+          onCancel={() => setImpactChange(null)}
+          onBeforeProceed={impactChange?.kind === 'remove-table' ? deleteTableOnServer : undefined}
+          onProceed={() => {
+            const change = impactChange;
+            setImpactChange(null);
+            if (change?.kind === 'remove-table') {
+              deleteTable();
+            } else if (change) {
+              reviewedRenames.current.add(`${change.columnId}:${change.newName}`);
+              void handleSaveTable();
+            }
+          }}
+        />
       </div>
     </>
   );
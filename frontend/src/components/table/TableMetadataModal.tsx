@@ -9,7 +9,17 @@ import { DraggableModal } from '@/components/common/DraggableModal';
 import { useModelStore } from '@/stores/modelStore';
 import { useUIStore } from '@/stores/uiStore';
 import { useSDKModeStore } from '@/services/sdk/sdkMode';
-import type { Table, Owner, SLA, Role, SupportChannel, Pricing, TeamMember } from '@/types/table';
+import type {
+  Table,
+  Owner,
+  SLA,
+  Role,
+  SupportChannel,
+  Pricing,
+  TeamMember,
+  DimensionalRole,
+  AuthoritativeDefinition,
+} from '@/types/table';
 import {
   getSourceTopic,
   SOURCE_TOPIC_KEY,
@@ -21,6 +31,8 @@ import {
   getResourceType,
 } from '@/utils/customProperties';
 import type { ResourceType } from '@/utils/customProperties';
+import { DIMENSIONAL_ROLE_LABELS } from '@/utils/dimensionalModel';
+import { GlossaryTermLinks } from '@/components/glossary';
 
 export interface TableMetadataModalProps {
   table: Table | null;
@@ -55,6 +67,13 @@ export const TableMetadataModal: React.FC<TableMetadataModalProps> = ({
   const [catalog, setCatalog] = useState<string>('');
   const [schema, setSchema] = useState<string>('');
   const [resourceType, setResourceType] = useState<ResourceType | undefined>(undefined);
+  const [dimensionalRole, setDimensionalRole] = useState<DimensionalRole | ''>('');
+  const [grainColumns, setGrainColumns] = useState<string[]>([]);
+  const [grainDescription, setGrainDescription] = useState('');
+  const [conformedDimension, setConformedDimension] = useState(false);
+  const [authoritativeDefinitions, setAuthoritativeDefinitions] = useState<
+    AuthoritativeDefinition[]
+  >([]);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -118,6 +137,11 @@ export const TableMetadataModal: React.FC<TableMetadataModalProps> = ({
       setCatalog(getCatalog(table.customProperties) || '');
       setSchema(getSchema(table.customProperties) || '');
       setResourceType(getResourceType(table.customProperties));
+      setDimensionalRole(table.dimensionalRole || '');
+      setGrainColumns(table.grainColumns || []);
+      setGrainDescription(table.dataGranularityDescription || '');
+      setConformedDimension(table.conformedDimension || false);
+      setAuthoritativeDefinitions(table.authoritativeDefinitions || []);
       setHasUnsavedChanges(false);
     }
   }, [table]);
@@ -197,6 +221,14 @@ export const TableMetadataModal: React.FC<TableMetadataModalProps> = ({
           return Object.keys(merged).length > 0 ? merged : undefined;
         })(),
         quality_rules: Object.keys(qualityRules).length > 0 ? qualityRules : undefined,
+        // Dimensional modeling: grain columns only apply to facts, conformed to dimensions
+        dimensionalRole: dimensionalRole || undefined,
+        grainColumns:
+          dimensionalRole === 'fact' && grainColumns.length > 0 ? grainColumns : undefined,
+        dataGranularityDescription: grainDescription.trim() || undefined,
+        conformedDimension: (dimensionalRole === 'dimension' && conformedDimension) || undefined,
+        authoritativeDefinitions:
+          authoritativeDefinitions.length > 0 ? authoritativeDefinitions : undefined,
         last_modified_at: new Date().toISOString(),
       };
 
@@ -511,6 +543,135 @@ export const TableMetadataModal: React.FC<TableMetadataModalProps> = ({
           )}
         </div>
 
+        {/* Glossary Terms */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Glossary Terms</h3>
+          <GlossaryTermLinks
+            definitions={authoritativeDefinitions}
+            onChange={(definitions) => {
+              setAuthoritativeDefinitions(definitions);
+              setHasUnsavedChanges(true);
+            }}
+            readOnly={!isEditable}
+          />
+        </div>
+
+        {/* Dimensional Model */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Dimensional Model</h3>
+          {isEditable ? (
+            <div className="space-y-3">
+              <div>
+                <label
+                  htmlFor="table-dimensional-role"
+                  className="block text-sm font-medium text-gray-600 mb-1"
+                >
+                  Role
+                </label>
+                <select
+                  id="table-dimensional-role"
+                  value={dimensionalRole}
+                  onChange={(e) => {
+                    setDimensionalRole(e.target.value as DimensionalRole | '');
+                    setHasUnsavedChanges(true);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                >
+                  <option value="">Not part of a star schema</option>
+                  {Object.entries(DIMENSIONAL_ROLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {dimensionalRole === 'fact' && (
+                <div>
+                  <span className="block text-sm font-medium text-gray-600 mb-1">
+                    Grain columns
+                  </span>
+                  <div className="max-h-32 overflow-y-auto border border-gray-200 rounded p-2 grid grid-cols-2 gap-1">
+                    {table.columns
+                      .filter((c) => !c.parent_column_id)
+                      .map((c) => (
+                        <label key={c.id} className="flex items-center gap-2 text-sm text-gray-800">
+                          <input
+                            type="checkbox"
+                            checked={grainColumns.includes(c.name)}
+                            onChange={(e) => {
+                              setGrainColumns(
+                                e.target.checked
+                                  ? [...grainColumns, c.name]
+                                  : grainColumns.filter((name) => name !== c.name)
+                              );
+                              setHasUnsavedChanges(true);
+                            }}
+                          />
+                          <span className="truncate">{c.name}</span>
+                        </label>
+                      ))}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    The columns that together identify one row of the fact
+                  </p>
+                </div>
+              )}
+              <div>
+                <label
+                  htmlFor="table-grain-description"
+                  className="block text-sm font-medium text-gray-600 mb-1"
+                >
+                  Grain
+                </label>
+                <input
+                  id="table-grain-description"
+                  type="text"
+                  value={grainDescription}
+                  onChange={(e) => {
+                    setGrainDescription(e.target.value);
+                    setHasUnsavedChanges(true);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                  placeholder={
+                    grainColumns.length > 0
+                      ? `One row per ${grainColumns.join(' per ')}`
+                      : 'e.g., One row per order line'
+                  }
+                />
+              </div>
+              {dimensionalRole === 'dimension' && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={conformedDimension}
+                    onChange={(e) => {
+                      setConformedDimension(e.target.checked);
+                      setHasUnsavedChanges(true);
+                    }}
+                  />
+                  Conformed dimension (shared by facts across domains, shown in the bus matrix)
+                </label>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-1 text-sm">
+              <div>
+                <span className="font-medium text-gray-600">Role:</span>{' '}
+                <span className="text-gray-900">
+                  {dimensionalRole ? DIMENSIONAL_ROLE_LABELS[dimensionalRole] : 'Not set'}
+                  {conformedDimension && ' (conformed)'}
+                </span>
+              </div>
+              {grainDescription && (
+                <div>
+                  <span className="font-medium text-gray-600">Grain:</span>{' '}
+                  <span className="text-gray-900">{grainDescription}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Owner Information */}
         <div>
           <h3 className="text-sm font-semibold text-gray-700 mb-2">Owner</h3>
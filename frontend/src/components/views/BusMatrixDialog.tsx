@@ -0,0 +1,134 @@
+/**
+ * Bus Matrix Dialog
+ * Enterprise bus matrix for a domain: its fact tables (rows) against the conformed
+ * dimensions of the workspace (columns), generated from relationships
+ * (see utils/dimensionalModel buildBusMatrix).
+ */
+
+import React, { useMemo } from 'react';
+import { Dialog } from '@/components/common/Dialog';
+import { useModelStore } from '@/stores/modelStore';
+import {
+  buildBusMatrix,
+  busMatrixToCsv,
+  describeGrain,
+  scdTypesOf,
+} from '@/utils/dimensionalModel';
+
+export interface BusMatrixDialogProps {
+  domainId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const BusMatrixDialog: React.FC<BusMatrixDialogProps> = ({ domainId, isOpen, onClose }) => {
+  const tables = useModelStore((state) => state.tables);
+  const relationships = useModelStore((state) => state.relationships);
+  const domains = useModelStore((state) => state.domains);
+  const domainName = domains.find((d) => d.id === domainId)?.name ?? 'domain';
+
+  const matrix = useMemo(
+    () => buildBusMatrix(tables, relationships, domainId),
+    [tables, relationships, domainId]
+  );
+
+  const handleExportCsv = () => {
+    const blob = new Blob([busMatrixToCsv(matrix)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${domainName}-bus-matrix.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const isEmpty = matrix.facts.length === 0 || matrix.dimensions.length === 0;
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title={`Bus Matrix – ${domainName}`} size="xl">
+      <div className="space-y-4">
+        {isEmpty ? (
+          <div className="py-6 text-center text-sm text-gray-500">
+            {matrix.facts.length === 0
+              ? 'This domain has no fact tables. Set the dimensional role in the table metadata.'
+              : 'The workspace has no conformed dimensions yet.'}
+          </div>
+        ) : (
+          <div className="overflow-auto max-h-[60vh] border border-gray-200 rounded">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">Fact</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">Grain</th>
+                  {matrix.dimensions.map((dimension) => {
+                    const scdTypes = scdTypesOf(dimension);
+                    return (
+                      <th
+                        key={dimension.id}
+                        className="px-2 py-2 text-center font-semibold text-teal-700 whitespace-nowrap"
+                        title={
+                          scdTypes.length > 0
+                            ? `SCD type ${scdTypes.join(', ')}`
+                            : 'No SCD types set'
+                        }
+                      >
+                        {dimension.name}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {matrix.facts.map((fact) => (
+                  <tr key={fact.id}>
+                    <td className="px-3 py-2 font-medium text-indigo-700 whitespace-nowrap">
+                      {fact.name}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600 italic">
+                      {describeGrain(fact) ?? <span className="text-red-600">No grain</span>}
+                    </td>
+                    {matrix.dimensions.map((dimension) => {
+                      const cell = matrix.cells[fact.id]?.[dimension.id];
+                      return (
+                        <td
+                          key={dimension.id}
+                          className={`px-2 py-2 text-center ${cell ? 'bg-teal-50 text-teal-800' : ''}`}
+                          title={cell === 'bridge' ? 'Through a bridge table' : undefined}
+                        >
+                          {cell === 'direct' ? '●' : cell === 'bridge' ? '◐' : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            ● related directly · ◐ related through a bridge table
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExportCsv}
+              disabled={isEmpty}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
@@ -3,8 +3,9 @@
  * ODPS product visualization
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useModelStore } from '@/stores/modelStore';
+import { useSearchStore } from '@/stores/searchStore';
 import { ProductCard } from './ProductCard';
 import { ProductDetailModal } from './ProductDetailModal';
 import { DataProductEditor } from '@/components/product/DataProductEditor';
@@ -24,6 +25,18 @@ export const DataProductView: React.FC<DataProductViewProps> = ({ domainId }) =>
 
   const domainProducts = products.filter((p) => p.domain_id === domainId);
 
+  // Open the product requested by global search
+  const focusRequest = useSearchStore((state) => state.focusRequest);
+  useEffect(() => {
+    if (!focusRequest) return;
+    const product = products.find((p) => p.id === focusRequest.nodeId);
+    if (product) {
+      useSearchStore.getState().clearFocusRequest();
+      setSelectedProduct(product);
+      setShowDetailModal(true);
+    }
+  }, [focusRequest, products]);
+
   const handleCardClick = (product: DataProduct) => {
     setSelectedProduct(product);
     setShowDetailModal(true);
@@ -1,14 +1,28 @@
 /**
  * System Flow Edge Component
- * Represents data flow between systems in Systems View
+ * Represents data flow between systems in Systems View.
+ * Routed orthogonally around systems; bend points and the label are editable when the
+ * owner passes `onVisualMetadataChange`.
  */
 
-import React from 'react';
-import { BaseEdge, EdgeProps } from 'reactflow';
+import React, { useMemo } from 'react';
+import { BaseEdge, EdgeProps, useNodes } from 'reactflow';
+import type { VisualMetadata } from '@/types/relationship';
+import { useEditableEdgeRoute } from '@/hooks/useEditableEdgeRoute';
+import {
+  nodesToObstacles,
+  polylineMidpoint,
+  polylineToPath,
+  routeEdge,
+  toPortSide,
+} from '@/utils/edgeRouting';
+import { EdgeRouteHandles } from '@/components/canvas/EdgeRouteHandles';
 
 export interface SystemFlowEdgeData {
   flowType: 'data' | 'transformation';
   label?: string;
+  visualMetadata?: VisualMetadata;
+  onVisualMetadataChange?: (visual: VisualMetadata | undefined) => void;
 }
 
 export const SystemFlowEdge: React.FC<EdgeProps<SystemFlowEdgeData>> = ({
@@ -17,13 +31,29 @@ export const SystemFlowEdge: React.FC<EdgeProps<SystemFlowEdgeData>> = ({
   sourceY,
   targetX,
   targetY,
+  sourcePosition,
+  targetPosition,
   style = {},
   data,
+  selected,
 }) => {
-  const { flowType, label } = data || {};
+  const { flowType, label, visualMetadata, onVisualMetadataChange } = data || {};
+  const allNodes = useNodes();
+  const obstacles = useMemo(() => nodesToObstacles(allNodes), [allNodes]);
+  const routeEditor = useEditableEdgeRoute(visualMetadata, onVisualMetadataChange);
 
-  // Create smooth edge path
-  const edgePath = `M ${sourceX} ${sourceY} L ${targetX} ${targetY}`;
+  const sourcePoint = { x: sourceX, y: sourceY };
+  const targetPoint = { x: targetX, y: targetY };
+  const points = routeEdge({
+    source: sourcePoint,
+    sourceSide: toPortSide(sourcePosition, sourcePoint, targetPoint),
+    target: targetPoint,
+    targetSide: toPortSide(targetPosition, targetPoint, sourcePoint),
+    obstacles,
+    waypoints: routeEditor.visual.waypoints,
+  });
+  const edgePath = polylineToPath(points);
+  const labelPoint = routeEditor.visual.label_position ?? polylineMidpoint(points);
 
   const edgeStyle = {
     ...style,
@@ -34,15 +64,11 @@ export const SystemFlowEdge: React.FC<EdgeProps<SystemFlowEdgeData>> = ({
 
   return (
     <>
-      <BaseEdge
-        id={id}
-        path={edgePath}
-        style={edgeStyle}
-      />
+      <BaseEdge id={id} path={edgePath} style={edgeStyle} />
       {label && (
         <text
-          x={(sourceX + targetX) / 2}
-          y={(sourceY + targetY) / 2}
+          x={labelPoint.x}
+          y={labelPoint.y}
           className="text-xs fill-gray-600 pointer-events-none"
           textAnchor="middle"
           dominantBaseline="middle"
@@ -50,7 +76,14 @@ export const SystemFlowEdge: React.FC<EdgeProps<SystemFlowEdgeData>> = ({
           {label}
         </text>
       )}
+      {selected && onVisualMetadataChange && (
+        <EdgeRouteHandles
+          points={points}
+          editor={routeEditor}
+          labelPosition={label ? labelPoint : undefined}
+          color={edgeStyle.stroke}
+        />
+      )}
     </>
   );
 };
-
@@ -132,6 +132,8 @@ export const WorkspaceList: React.FC<WorkspaceListProps> = ({
       const { useDecisionStore } = await import('@/stores/decisionStore');
       useDecisionStore.getState().setDecisions(workspaceData.decisionRecords);
     }
+    const { useGlossaryStore } = await import('@/stores/glossaryStore');
+    useGlossaryStore.getState().setTerms(workspaceData.glossaryTerms ?? []);
 
     console.log('[WorkspaceList] Loaded data from workspace object:', {
       domains: workspaceData.domains?.length || 0,
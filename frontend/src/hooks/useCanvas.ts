@@ -35,6 +35,7 @@ export function useCanvas(_workspaceId: string, domainId: string): UseCanvasRetu
     updateComputeAsset,
     updateSystem,
     updateDomain,
+    transaction,
   } = useModelStore();
   const { addToast } = useUIStore();
   const { mode } = useSDKModeStore();
@@ -78,9 +79,36 @@ export function useCanvas(_workspaceId: string, domainId: string): UseCanvasRetu
         },
       };
 
-      // Update domain with new view_positions
-      updateDomain(domainId, {
-        view_positions: newViewPositions,
+      // Position changes are recorded as a single undo step
+      const nodeName =
+        tables.find((t) => t.id === node.id)?.name ||
+        systems.find((s) => s.id === node.id)?.name ||
+        computeAssets.find((a) => a.id === node.id)?.name;
+      transaction(nodeName ? `Move "${nodeName}"` : 'Move node', () => {
+        // Update domain with new view_positions
+        updateDomain(domainId, {
+          view_positions: newViewPositions,
+        });
+
+        // Update local positions (for backward compatibility)
+        if (isTable) {
+          updateTable(node.id, {
+            position_x: node.position.x,
+            position_y: node.position.y,
+          });
+        } else if (isComputeAsset) {
+          updateComputeAsset(node.id, {
+            position_x: node.position.x,
+            position_y: node.position.y,
+          });
+          // Note: Compute assets don't have remote update yet, positions saved on workspace save
+        } else if (isSystem) {
+          updateSystem(node.id, {
+            position_x: node.position.x,
+            position_y: node.position.y,
+          });
+          // Note: Systems don't have remote update yet, positions saved on workspace save
+        }
       });
 
       console.log(`[useCanvas] Saved position for ${node.id} in ${currentView} view:`, {
@@ -89,12 +117,6 @@ export function useCanvas(_workspaceId: string, domainId: string): UseCanvasRetu
       });
 
       if (isTable) {
-        // Update local state immediately (for backward compatibility)
-        updateTable(node.id, {
-          position_x: node.position.x,
-          position_y: node.position.y,
-        });
-
         // Update remote state only if online
         if (mode === 'online') {
           try {
@@ -114,20 +136,6 @@ export function useCanvas(_workspaceId: string, domainId: string): UseCanvasRetu
             }
           }
         }
-      } else if (isComputeAsset) {
-        // Update compute asset position (for backward compatibility)
-        updateComputeAsset(node.id, {
-          position_x: node.position.x,
-          position_y: node.position.y,
-        });
-        // Note: Compute assets don't have remote update yet, positions saved on workspace save
-      } else if (isSystem) {
-        // Update system position (for backward compatibility)
-        updateSystem(node.id, {
-          position_x: node.position.x,
-          position_y: node.position.y,
-        });
-        // Note: Systems don't have remote update yet, positions saved on workspace save
       }
 
       // In offline mode, local state update is sufficient
@@ -145,6 +153,7 @@ export function useCanvas(_workspaceId: string, domainId: string): UseCanvasRetu
       updateComputeAsset,
       updateSystem,
       updateDomain,
+      transaction,
       mode,
     ]
   );
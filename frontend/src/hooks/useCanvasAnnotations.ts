@@ -0,0 +1,138 @@
+/**
+ * useCanvasAnnotations Hook
+ * Create, edit and move subject-area frames and sticky notes for the current canvas view.
+ * Changes are stored on the domain (`view_annotations`) and recorded as undo steps.
+ */
+
+import { useCallback } from 'react';
+import { useModelStore } from '@/stores/modelStore';
+import type { Domain, StickyNote, SubjectAreaFrame } from '@/types/domain';
+import { createFrame, createStickyNote, updateViewAnnotations } from '@/utils/canvasAnnotations';
+
+export interface UseCanvasAnnotationsReturn {
+  addFrame: (position: { x: number; y: number }) => SubjectAreaFrame | null;
+  addNote: (position: { x: number; y: number }) => StickyNote | null;
+  updateFrame: (frameId: string, updates: Partial<SubjectAreaFrame>) => void;
+  updateNote: (noteId: string, updates: Partial<StickyNote>) => void;
+  removeFrame: (frameId: string) => void;
+  removeNote: (noteId: string) => void;
+  moveFrame: (
+    frameId: string,
+    position: { x: number; y: number },
+    memberPositions: Record<string, { x: number; y: number }>
+  ) => void;
+}
+
+export function useCanvasAnnotations(domainId: string): UseCanvasAnnotationsReturn {
+  const mutate = useCallback(
+    (
+      label: string,
+      update: Parameters<typeof updateViewAnnotations>[2],
+      extra?: (domainUpdates: Partial<Domain>) => void
+    ) => {
+      const { domains, currentView, updateDomain, transaction } = useModelStore.getState();
+      const domain = domains.find((d) => d.id === domainId);
+      if (!domain) return false;
+
+      const domainUpdates: Partial<Domain> = {
+        view_annotations: updateViewAnnotations(domain.view_annotations, currentView, update),
+      };
+      extra?.(domainUpdates);
+      transaction(label, () => updateDomain(domainId, domainUpdates));
+      return true;
+    },
+    [domainId]
+  );
+
+  const addFrame = useCallback(
+    (position: { x: number; y: number }) => {
+      const { domains, currentView } = useModelStore.getState();
+      const existing =
+        domains.find((d) => d.id === domainId)?.view_annotations?.[currentView]?.frames ?? [];
+      const frame = createFrame(position, existing.length);
+      return mutate('Add subject area', (c) => ({ ...c, frames: [...c.frames, frame] }))
+        ? frame
+        : null;
+    },
+    [domainId, mutate]
+  );
+
+  const addNote = useCallback(
+    (position: { x: number; y: number }) => {
+      const note = createStickyNote(position);
+      return mutate('Add sticky note', (c) => ({ ...c, notes: [...c.notes, note] })) ? note : null;
+    },
+    [mutate]
+  );
+
+  const updateFrame = useCallback(
+    (frameId: string, updates: Partial<SubjectAreaFrame>) => {
+      mutate('Edit subject area', (c) => ({
+        ...c,
+        frames: c.frames.map((f) => (f.id === frameId ? { ...f, ...updates } : f)),
+      }));
+    },
+    [mutate]
+  );
+
+  const updateNote = useCallback(
+    (noteId: string, updates: Partial<StickyNote>) => {
+      mutate('Edit sticky note', (c) => ({
+        ...c,
+        notes: c.notes.map((n) => (n.id === noteId ? { ...n, ...updates } : n)),
+      }));
+    },
+    [mutate]
+  );
+
+  const removeFrame = useCallback(
+    (frameId: string) => {
+      mutate('Delete subject area', (c) => ({
+        ...c,
+        frames: c.frames.filter((f) => f.id !== frameId),
+      }));
+    },
+    [mutate]
+  );
+
+  const removeNote = useCallback(
+    (noteId: string) => {
+      mutate('Delete sticky note', (c) => ({
+        ...c,
+        notes: c.notes.filter((n) => n.id !== noteId),
+      }));
+    },
+    [mutate]
+  );
+
+  // Frame and the nodes inside it move as one undo step
+  const moveFrame = useCallback(
+    (
+      frameId: string,
+      position: { x: number; y: number },
+      memberPositions: Record<string, { x: number; y: number }>
+    ) => {
+      mutate(
+        'Move subject area',
+        (c) => ({
+          ...c,
+          frames: c.frames.map((f) =>
+            f.id === frameId ? { ...f, x: Math.round(position.x), y: Math.round(position.y) } : f
+          ),
+        }),
+        (domainUpdates) => {
+          if (Object.keys(memberPositions).length === 0) return;
+          const { domains, currentView } = useModelStore.getState();
+          const viewPositions = domains.find((d) => d.id === domainId)?.view_positions ?? {};
+          domainUpdates.view_positions = {
+            ...viewPositions,
+            [currentView]: { ...viewPositions[currentView], ...memberPositions },
+          };
+        }
+      );
+    },
+    [domainId, mutate]
+  );
+
+  return { addFrame, addNote, updateFrame, updateNote, removeFrame, removeNote, moveFrame };
+}
@@ -0,0 +1,42 @@
+/**
+ * useCanvasDiff Hook
+ * Compares the current model with the baseline loaded in the compare store and returns the
+ * changes plus the marks DomainCanvas draws for them.
+ */
+
+import { useMemo } from 'react';
+import { useShallow } from 'zustand/shallow';
+import { useModelStore } from '@/stores/modelStore';
+import { useCompareStore } from '@/stores/compareStore';
+import {
+  diffWorkspaces,
+  type DiffableWorkspace,
+  type WorkspaceChange,
+} from '@/utils/workspaceDiff';
+import { buildCanvasDiff, type CanvasDiff } from '@/utils/canvasDiff';
+
+export interface CanvasComparison {
+  baseline: DiffableWorkspace;
+  changes: WorkspaceChange[];
+  diff: CanvasDiff;
+}
+
+export function useCanvasDiff(): CanvasComparison | null {
+  const model = useModelStore(
+    useShallow((state) => ({
+      tables: state.tables,
+      relationships: state.relationships,
+      domains: state.domains,
+      systems: state.systems,
+      products: state.products,
+      metricViews: state.metricViews,
+    }))
+  );
+  const baseline = useCompareStore((state) => state.baseline);
+
+  return useMemo(() => {
+    if (!baseline) return null;
+    const changes = diffWorkspaces(baseline, model);
+    return { baseline, changes, diff: buildCanvasDiff(changes, baseline) };
+  }, [baseline, model]);
+}
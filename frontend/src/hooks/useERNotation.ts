@@ -0,0 +1,15 @@
+/**
+ * useERNotation Hook
+ * ER notation the canvas draws a view in, from the current workspace's notation settings
+ */
+
+import { useWorkspaceStore } from '@/stores/workspaceStore';
+import { resolveERNotation } from '@/utils/erNotation';
+import type { ERNotation } from '@/types/relationship';
+
+export function useERNotation(viewMode: string): ERNotation {
+  const settings = useWorkspaceStore(
+    (state) => state.workspaces.find((w) => w.id === state.currentWorkspaceId)?.notation
+  );
+  return resolveERNotation(settings, viewMode);
+}
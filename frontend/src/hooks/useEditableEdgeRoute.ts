@@ -0,0 +1,110 @@
+/**
+ * useEditableEdgeRoute Hook
+ * Drag state for an edge's bend points and label position. While a handle is dragged the
+ * edge renders from a local draft; the result is committed once, on pointer up, so each
+ * drag is a single undo step.
+ */
+
+import { useCallback, useState } from 'react';
+import { useReactFlow } from 'reactflow';
+import type { VisualMetadata } from '@/types/relationship';
+import { normalizeVisualMetadata, type Point } from '@/utils/edgeRouting';
+
+export interface UseEditableEdgeRouteReturn {
+  /** Saved visual metadata, or the draft while dragging */
+  visual: VisualMetadata;
+  isDragging: boolean;
+  /** Move bend `index` of `bends`; the bends become the edge's waypoints */
+  startBendDrag: (event: React.PointerEvent, bends: Point[], index: number) => void;
+  /** Insert a new bend after `index` of `bends` and drag it */
+  startBendInsert: (event: React.PointerEvent, bends: Point[], index: number) => void;
+  removeBend: (bends: Point[], index: number) => void;
+  startLabelDrag: (event: React.PointerEvent) => void;
+  resetRoute: () => void;
+}
+
+export function useEditableEdgeRoute(
+  saved: VisualMetadata | undefined,
+  onCommit?: (visual: VisualMetadata | undefined) => void
+): UseEditableEdgeRouteReturn {
+  const { screenToFlowPosition } = useReactFlow();
+  const [draft, setDraft] = useState<VisualMetadata | null>(null);
+  const visual = draft ?? saved ?? {};
+
+  const beginDrag = useCallback(
+    (event: React.PointerEvent, update: (point: Point) => VisualMetadata) => {
+      if (!onCommit) return;
+      event.stopPropagation();
+      event.preventDefault();
+
+      let latest: VisualMetadata | null = null;
+      const handleMove = (e: PointerEvent) => {
+        const position = screenToFlowPosition({ x: e.clientX, y: e.clientY });
+        latest = update({ x: Math.round(position.x), y: Math.round(position.y) });
+        setDraft(latest);
+      };
+      const handleUp = () => {
+        window.removeEventListener('pointermove', handleMove);
+        window.removeEventListener('pointerup', handleUp);
+        setDraft(null);
+        if (latest) {
+          onCommit(normalizeVisualMetadata(latest));
+        }
+      };
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerup', handleUp);
+    },
+    [onCommit, screenToFlowPosition]
+  );
+
+  const startBendDrag = useCallback(
+    (event: React.PointerEvent, bends: Point[], index: number) => {
+      const base = saved ?? {};
+      beginDrag(event, (point) => ({
+        ...base,
+        waypoints: bends.map((bend, i) => (i === index ? point : bend)),
+      }));
+    },
+    [beginDrag, saved]
+  );
+
+  const startBendInsert = useCallback(
+    (event: React.PointerEvent, bends: Point[], index: number) => {
+      const base = saved ?? {};
+      beginDrag(event, (point) => ({
+        ...base,
+        waypoints: [...bends.slice(0, index + 1), point, ...bends.slice(index + 1)],
+      }));
+    },
+    [beginDrag, saved]
+  );
+
+  const removeBend = useCallback(
+    (bends: Point[], index: number) => {
+      onCommit?.(
+        normalizeVisualMetadata({ ...saved, waypoints: bends.filter((_, i) => i !== index) })
+      );
+    },
+    [onCommit, saved]
+  );
+
+  const startLabelDrag = useCallback(
+    (event: React.PointerEvent) => {
+      const base = saved ?? {};
+      beginDrag(event, (point) => ({ ...base, label_position: point }));
+    },
+    [beginDrag, saved]
+  );
+
+  const resetRoute = useCallback(() => onCommit?.(undefined), [onCommit]);
+
+  return {
+    visual,
+    isDragging: draft !== null,
+    startBendDrag,
+    startBendInsert,
+    removeBend,
+    startLabelDrag,
+    resetRoute,
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Global Search Hook
+ * Binds Cmd/Ctrl+K to the workspace-wide search dialog
+ */
+
+import { useEffect } from 'react';
+import { useSearchStore } from '@/stores/searchStore';
+
+/**
+ * Hook to register the global search keyboard shortcut
+ */
+export function useGlobalSearch() {
+  const { isOpen, openSearch, closeSearch, toggleSearch } = useSearchStore();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Cmd+K / Ctrl+K - Toggle search (also from inputs, like other command palettes)
+      if ((e.metaKey || e.ctrlKey) && !e.shiftKey && !e.altKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        toggleSearch();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [toggleSearch]);
+
+  return { isOpen, openSearch, closeSearch, toggleSearch };
+}
@@ -0,0 +1,59 @@
+/**
+ * useNeighborhoodFocus Hook
+ * Computes the neighborhood of the focused table across the whole workspace, using the
+ * depth, direction and link kinds chosen in the focus store.
+ */
+
+import { useMemo } from 'react';
+import { useShallow } from 'zustand/shallow';
+import { useModelStore } from '@/stores/modelStore';
+import { useFocusStore } from '@/stores/focusStore';
+import { buildNeighborhoodGraph, getNeighborhood, type Neighborhood } from '@/utils/neighborhood';
+
+export function useNeighborhoodFocus(): Neighborhood | null {
+  const { tables, relationships, bpmnProcesses, domains, metricViews, products } = useModelStore(
+    useShallow((state) => ({
+      tables: state.tables,
+      relationships: state.relationships,
+      bpmnProcesses: state.bpmnProcesses,
+      domains: state.domains,
+      metricViews: state.metricViews,
+      products: state.products,
+    }))
+  );
+  const { focusTableId, depth, direction, kinds } = useFocusStore(
+    useShallow((state) => ({
+      focusTableId: state.focusTableId,
+      depth: state.depth,
+      direction: state.direction,
+      kinds: state.kinds,
+    }))
+  );
+
+  const graph = useMemo(() => {
+    if (!focusTableId) return null;
+    // Links from BPMN processes and from the domains; the same link may appear in both
+    const transformationLinks = new Map<
+      string,
+      { id: string; source_table_id: string; target_table_id: string }
+    >();
+    for (const process of bpmnProcesses) {
+      process.transformation_links?.forEach((link) => transformationLinks.set(link.id, link));
+    }
+    for (const domain of domains) {
+      domain.transformation_links?.forEach((link) => transformationLinks.set(link.id, link));
+    }
+    return buildNeighborhoodGraph({
+      tables,
+      relationships,
+      transformationLinks: [...transformationLinks.values()],
+      metricViews,
+      products,
+    });
+  }, [focusTableId, tables, relationships, bpmnProcesses, domains, metricViews, products]);
+
+  return useMemo(() => {
+    if (!graph || !focusTableId) return null;
+    return getNeighborhood(graph, focusTableId, { depth, direction, kinds });
+  }, [graph, focusTableId, depth, direction, kinds]);
+}
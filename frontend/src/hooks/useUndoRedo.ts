@@ -0,0 +1,54 @@
+/**
+ * Undo/Redo Hook
+ * Binds Cmd/Ctrl+Z and Shift+Cmd/Ctrl+Z (or Ctrl+Y) to the model history
+ */
+
+import { useEffect } from 'react';
+import { useModelStore } from '@/stores/modelStore';
+import { useHistoryStore } from '@/stores/historyStore';
+import { isViewerMode } from '@/services/viewerMode';
+
+/**
+ * Hook to register undo/redo keyboard shortcuts for model mutations
+ */
+export function useUndoRedo() {
+  const undo = useModelStore((state) => state.undo);
+  const redo = useModelStore((state) => state.redo);
+  const canUndo = useHistoryStore((state) => state.past.length > 0 && !state.transaction);
+  const canRedo = useHistoryStore((state) => state.future.length > 0 && !state.transaction);
+
+  useEffect(() => {
+    // Viewer mode is read-only, nothing to undo
+    if (isViewerMode()) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+
+      // Leave native text undo alone while the user is typing
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+
+      // Cmd+Shift+Z / Ctrl+Shift+Z / Ctrl+Y - Redo
+      if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey && !e.metaKey)) {
+        e.preventDefault();
+        redo();
+        return;
+      }
+
+      // Cmd+Z / Ctrl+Z - Undo
+      if (key === 'z') {
+        e.preventDefault();
+        undo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return { undo, redo, canUndo, canRedo };
+}
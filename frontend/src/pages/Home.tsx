@@ -41,6 +41,7 @@ const Home: React.FC = () => {
     workspaces,
     setCurrentWorkspace,
     addWorkspace,
+    updateWorkspace,
     fetchWorkspaces,
     isLoading: workspacesLoading,
     createWorkspace,
@@ -207,13 +208,19 @@ const Home: React.FC = () => {
       const workspace = await loadExampleWorkspace(example);
 
       // Pre-import all stores BEFORE populating data to avoid race conditions
-      const [{ useModelStore }, { useKnowledgeStore }, { useDecisionStore }, { useSketchStore }] =
-        await Promise.all([
-          import('@/stores/modelStore'),
-          import('@/stores/knowledgeStore'),
-          import('@/stores/decisionStore'),
-          import('@/stores/sketchStore'),
-        ]);
+      const [
+        { useModelStore },
+        { useKnowledgeStore },
+        { useDecisionStore },
+        { useSketchStore },
+        { useGlossaryStore },
+      ] = await Promise.all([
+        import('@/stores/modelStore'),
+        import('@/stores/knowledgeStore'),
+        import('@/stores/decisionStore'),
+        import('@/stores/sketchStore'),
+        import('@/stores/glossaryStore'),
+      ]);
 
       const modelStore = useModelStore.getState();
       const knowledgeStore = useKnowledgeStore.getState();
@@ -256,6 +263,7 @@ const Home: React.FC = () => {
       if ((workspace as any).sketches) {
         sketchStore.setSketches((workspace as any).sketches);
       }
+      useGlossaryStore.getState().setTerms((workspace as any).glossaryTerms ?? []);
 
       // Select first domain if available
       if ((workspace as any).domains && (workspace as any).domains.length > 0) {
@@ -266,6 +274,12 @@ const Home: React.FC = () => {
       const existingWorkspace = workspaces.find((w) => w.id === workspace.id);
       if (!existingWorkspace) {
         addWorkspace(workspace);
+      } else {
+        // Settings stored in the workspace file win over the remembered workspace
+        updateWorkspace(workspace.id, {
+          notation: workspace.notation,
+          naming_policy: workspace.naming_policy,
+        });
       }
 
       setCurrentWorkspace(workspace.id);
@@ -465,6 +479,10 @@ const Home: React.FC = () => {
         useSketchStore.getState().setSketches((workspace as any).sketches);
       }
 
+      // Set glossary terms (also when empty, so terms of the previous workspace are cleared)
+      const { useGlossaryStore } = await import('@/stores/glossaryStore');
+      useGlossaryStore.getState().setTerms((workspace as any).glossaryTerms ?? []);
+
       // Track ODCS files that failed to parse (to protect them from deletion on save)
       const failedOdcsFiles = (workspace as any).failedOdcsFiles as string[] | undefined;
       if (failedOdcsFiles && failedOdcsFiles.length > 0) {
@@ -492,6 +510,12 @@ const Home: React.FC = () => {
       const existingWorkspace = workspaces.find((w) => w.id === workspace.id);
       if (!existingWorkspace) {
         addWorkspace(workspace);
+      } else {
+        // Settings stored in the workspace file win over the remembered workspace
+        updateWorkspace(workspace.id, {
+          notation: workspace.notation,
+          naming_policy: workspace.naming_policy,
+        });
       }
 
       // Set as current workspace
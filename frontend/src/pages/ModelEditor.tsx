@@ -38,6 +38,9 @@ import { SharedResourcePicker } from '@/components/domain/SharedResourcePicker';
 import { DecisionPanel } from '@/components/decision/DecisionPanel';
 import { KnowledgePanel } from '@/components/knowledge/KnowledgePanel';
 import { SketchPanel } from '@/components/sketch/SketchPanel';
+import { GlossaryPanel } from '@/components/glossary/GlossaryPanel';
+import { LineagePanel } from '@/components/lineage/LineagePanel';
+import { SensitivityDashboard } from '@/components/classification/SensitivityDashboard';
 import { GitPanel, GitStatusIndicator } from '@/components/git';
 import { gitService } from '@/services/git/gitService';
 import { GitHubUserMenu, GitHubAuthDialog, GitHubRepoSelector } from '@/components/github';
@@ -49,11 +52,17 @@ import type { SharedResourceReference } from '@/types/domain';
 import { HelpButton, HelpPanel } from '@/components/help';
 import { ValidationWarnings } from '@/components/common/ValidationWarnings';
 import { useHelpPanel } from '@/hooks/useHelpPanel';
+import { useGlobalSearch } from '@/hooks/useGlobalSearch';
+import { GlobalSearchDialog } from '@/components/search/GlobalSearchDialog';
+import { useUndoRedo } from '@/hooks/useUndoRedo';
+import { UndoHistoryPanel } from '@/components/common/UndoHistoryPanel';
+import { useHistoryStore } from '@/stores/historyStore';
 import { isViewerMode, getViewerConfig } from '@/services/viewerMode';
 import { ViewerBranchSwitcher } from '@/components/viewer/ViewerBranchSwitcher';
 import { useKnowledgeStore } from '@/stores/knowledgeStore';
 import { useDecisionStore } from '@/stores/decisionStore';
 import { useSketchStore } from '@/stores/sketchStore';
+import { useGlossaryStore } from '@/stores/glossaryStore';
 
 /**
  * Parse a GitHub workspace URL segment into its parts.
@@ -167,6 +176,10 @@ const ModelEditor: React.FC = () => {
 
   // Initialize help panel keyboard shortcuts (F1, Cmd+?)
   useHelpPanel();
+  const { openSearch } = useGlobalSearch();
+
+  // Initialize undo/redo keyboard shortcuts (Cmd/Ctrl+Z, Shift+Cmd/Ctrl+Z)
+  useUndoRedo();
 
   // Handle shared resource selection
   const handleSharedResourcesSelected = (sharedResources: SharedResourceReference[]) => {
@@ -345,11 +358,13 @@ const ModelEditor: React.FC = () => {
       modelStore.setSelectedDomain(null);
       modelStore.setSelectedTable(null);
       modelStore.setSelectedSystem(null);
+      useHistoryStore.getState().clear();
 
       // Reset persisted content stores synchronously (already imported at top of file)
       useKnowledgeStore.getState().reset();
       useDecisionStore.getState().reset();
       useSketchStore.getState().reset();
+      useGlossaryStore.getState().reset();
     }
     previousWorkspaceIdRef.current = workspaceId;
   }, [workspaceId]);
@@ -603,6 +618,7 @@ const ModelEditor: React.FC = () => {
               loadedWorkspace.decisionRecords.length
             );
           }
+          useGlossaryStore.getState().setTerms(loadedWorkspace.glossaryTerms ?? []);
 
           // Set domains - ensure we always have at least one domain
           let domainToSelect: string | null = null;
@@ -674,6 +690,10 @@ const ModelEditor: React.FC = () => {
           if (!existingWorkspace) {
             useWorkspaceStore.getState().addWorkspace(githubWorkspaceObj);
           }
+          // The naming policy in the repository wins over the remembered workspace
+          useWorkspaceStore.getState().updateWorkspace(workspaceId, {
+            naming_policy: loadedWorkspace.naming_policy,
+          });
           useWorkspaceStore.getState().setCurrentWorkspace(workspaceId);
           console.log('[ModelEditor] Set current workspace for GitHub repo mode:', workspaceId);
 
@@ -941,9 +961,12 @@ const ModelEditor: React.FC = () => {
       modelStore.setSystems([]);
       modelStore.setProducts([]);
       modelStore.setComputeAssets([]);
+      // Undo steps refer to the previous branch's model
+      useHistoryStore.getState().clear();
       useKnowledgeStore.getState().reset();
       useDecisionStore.getState().reset();
       useSketchStore.getState().reset();
+      useGlossaryStore.getState().reset();
 
       try {
         // Import the V2 loader for loading workspace from GitHub files
@@ -998,6 +1021,7 @@ const ModelEditor: React.FC = () => {
         if (loadedWorkspace.domains && loadedWorkspace.domains.length > 0) {
           setDomains(loadedWorkspace.domains);
         }
+        useGlossaryStore.getState().setTerms(loadedWorkspace.glossaryTerms ?? []);
 
         // Increment canvas refresh key to force re-render
         setCanvasRefreshKey((prev) => prev + 1);
@@ -1124,12 +1148,35 @@ const ModelEditor: React.FC = () => {
 
           {/* Right side controls */}
           <div className="flex items-center gap-2">
+            {/* Global search (Cmd/Ctrl+K) */}
+            <button
+              onClick={openSearch}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-500 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 whitespace-nowrap"
+              title="Search the workspace (Ctrl/Cmd+K)"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                />
+              </svg>
+              Search
+              <kbd className="px-1 text-xs text-gray-400 bg-white border border-gray-200 rounded">
+                {/Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl+K'}
+              </kbd>
+            </button>
+
             {/* Git Status Indicator (works in both Electron and GitHub repo mode) */}
             {!isViewerMode() && <GitStatusIndicator />}
 
             {/* GitHub User Menu (Browser mode only) */}
             {!isViewerMode() && !isElectron() && <GitHubUserMenu />}
 
+            {/* Undo/Redo with edit history */}
+            {!isViewerMode() && mode !== 'online' && <UndoHistoryPanel />}
+
             {/* Validation Warnings */}
             {!isViewerMode() && <ValidationWarnings />}
 
@@ -1248,6 +1295,15 @@ const ModelEditor: React.FC = () => {
               domainId={selectedDomainId}
             />
           )}
+          {selectedDomainId && workspaceId && currentView === 'glossary' && (
+            <GlossaryPanel workspaceId={workspaceId} />
+          )}
+          {selectedDomainId && workspaceId && currentView === 'lineage' && (
+            <LineagePanel workspaceId={workspaceId} domainId={selectedDomainId} />
+          )}
+          {selectedDomainId && workspaceId && currentView === 'sensitivity' && (
+            <SensitivityDashboard />
+          )}
           {selectedDomainId && workspaceId && currentView === 'sketch' && (
             <SketchPanel
               workspacePath={
@@ -1260,6 +1316,9 @@ const ModelEditor: React.FC = () => {
             workspaceId &&
             currentView !== 'decisions' &&
             currentView !== 'knowledge' &&
+            currentView !== 'glossary' &&
+            currentView !== 'lineage' &&
+            currentView !== 'sensitivity' &&
             currentView !== 'sketch' && (
               <DomainCanvas
                 key={canvasRefreshKey}
@@ -1475,6 +1534,9 @@ const ModelEditor: React.FC = () => {
 
       {/* Help Panel */}
       <HelpPanel />
+
+      {/* Global Search */}
+      <GlobalSearchDialog />
     </div>
   );
 };
@@ -15,6 +15,9 @@ const API_BASE_URL = (envApiBaseUrl && envApiBaseUrl.trim() !== '' && (envApiBas
   ? envApiBaseUrl
   : (typeof window !== 'undefined' ? '' : 'http://localhost:8081');
 
+// localStorage is missing when the services run under Node (the odm CLI)
+const storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined;
+
 class ApiClient {
   private client: AxiosInstance;
   private accessToken: string | null = null;
@@ -22,8 +25,8 @@ class ApiClient {
 
   constructor() {
     // Initialize tokens from localStorage if available
-    this.accessToken = localStorage.getItem('access_token');
-    this.refreshToken = localStorage.getItem('refresh_token');
+    this.accessToken = storage?.getItem('access_token') ?? null;
+    this.refreshToken = storage?.getItem('refresh_token') ?? null;
     
     this.client = axios.create({
       baseURL: API_BASE_URL,
@@ -52,7 +55,7 @@ class ApiClient {
           console.log('[ApiClient] Added Authorization header for:', config.url, 'Token length:', token.length);
         } else {
           console.warn('[ApiClient] No access token available for request to:', config.url);
-          console.warn('[ApiClient] Instance token:', this.accessToken ? 'exists' : 'null', 'LocalStorage token:', localStorage.getItem('access_token') ? 'exists' : 'null');
+          console.warn('[ApiClient] Instance token:', this.accessToken ? 'exists' : 'null', 'LocalStorage token:', storage?.getItem('access_token') ? 'exists' : 'null');
         }
         return config;
       },
@@ -95,9 +98,9 @@ class ApiClient {
   setAccessToken(token: string | null): void {
     this.accessToken = token;
     if (token) {
-      localStorage.setItem('access_token', token);
+      storage?.setItem('access_token', token);
     } else {
-      localStorage.removeItem('access_token');
+      storage?.removeItem('access_token');
     }
   }
 
@@ -107,9 +110,9 @@ class ApiClient {
   setRefreshToken(token: string | null): void {
     this.refreshToken = token;
     if (token) {
-      localStorage.setItem('refresh_token', token);
+      storage?.setItem('refresh_token', token);
     } else {
-      localStorage.removeItem('refresh_token');
+      storage?.removeItem('refresh_token');
     }
   }
 
@@ -117,14 +120,14 @@ class ApiClient {
    * Get access token
    */
   getAccessToken(): string | null {
-    return this.accessToken || localStorage.getItem('access_token');
+    return this.accessToken || storage?.getItem('access_token') || null;
   }
 
   /**
    * Get refresh token
    */
   getRefreshToken(): string | null {
-    return this.refreshToken || localStorage.getItem('refresh_token');
+    return this.refreshToken || storage?.getItem('refresh_token') || null;
   }
 
   /**
@@ -133,8 +136,8 @@ class ApiClient {
   clearTokens(): void {
     this.accessToken = null;
     this.refreshToken = null;
-    localStorage.removeItem('access_token');
-    localStorage.removeItem('refresh_token');
+    storage?.removeItem('access_token');
+    storage?.removeItem('refresh_token');
   }
 
   /**
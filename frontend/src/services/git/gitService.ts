@@ -17,6 +17,11 @@ import {
   GitBlameResult,
 } from '@/stores/gitStore';
 import { getPlatform } from '@/services/platform/platform';
+import {
+  WORKSPACE_FILE,
+  type SnapshotFile,
+  type WorkspaceSnapshots,
+} from '@/utils/workspaceSnapshot';
 import type {
   GitLogOptions,
   GitDiffOptions,
@@ -261,6 +266,83 @@ class GitService {
     }
   }
 
+  /**
+   * Get the content of a file at a ref, or of the working copy without a ref
+   * (undefined if the file does not exist there)
+   */
+  async getFileAtRef(filePath: string, ref?: string): Promise<string | undefined> {
+    const store = useGitStore.getState();
+    const workspacePath = store.workspacePath;
+
+    if (!workspacePath || !this.isAvailable()) {
+      return undefined;
+    }
+
+    try {
+      if (!ref) {
+        return await window.electronAPI!.readFile(`${workspacePath}/${filePath}`);
+      }
+      return (await window.electronAPI!.gitShow(workspacePath, ref, filePath)) ?? undefined;
+    } catch (error) {
+      console.error('[GitService] getFileAtRef failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * The changed files at a ref and in the working copy, each with the workspace file, for
+   * comparing the model of the uncommitted changes (see utils/workspaceSnapshot)
+   */
+  async getWorkspaceSnapshots(files: GitFileChange[], ref = 'HEAD'): Promise<WorkspaceSnapshots> {
+    const workspacePath = useGitStore.getState().workspacePath;
+    if (!workspacePath || !this.isAvailable()) {
+      return { before: [], after: [] };
+    }
+
+    const entries = await window.electronAPI!.readDirectory(workspacePath).catch(() => []);
+    const workspaceFile = entries.find((e) => e.name.endsWith('.workspace.yaml'))?.name;
+    const read = async (path: string, fileRef?: string) => {
+      const content = await this.getFileAtRef(path, fileRef);
+      return content === undefined ? [] : [{ path, content }];
+    };
+    const workspaceFiles = async (fileRef?: string) =>
+      workspaceFile && !files.some((f) => f.path === workspaceFile)
+        ? read(workspaceFile, fileRef)
+        : [];
+
+    const [before, after] = await Promise.all([
+      Promise.all([
+        workspaceFiles(ref),
+        ...files
+          .filter((f) => f.status !== 'added' && f.status !== 'untracked')
+          .map((f) => read(f.oldPath ?? f.path, ref)),
+      ]),
+      Promise.all([
+        workspaceFiles(),
+        ...files.filter((f) => f.status !== 'deleted').map((f) => read(f.path)),
+      ]),
+    ]);
+    return { before: before.flat(), after: after.flat() };
+  }
+
+  /**
+   * All workspace files as they are at a ref (empty if the ref cannot be read)
+   */
+  async getWorkspaceFilesAtRef(ref: string): Promise<SnapshotFile[]> {
+    const workspacePath = useGitStore.getState().workspacePath;
+    if (!workspacePath || !this.isAvailable()) {
+      return [];
+    }
+
+    const paths = (await window.electronAPI!.gitListFiles(workspacePath, ref)) ?? [];
+    const files = await Promise.all(
+      paths
+        .filter((path) => WORKSPACE_FILE.test(path))
+        .map(async (path) => ({ path, content: await this.getFileAtRef(path, ref) }))
+    );
+    return files.filter((f): f is SnapshotFile => f.content !== undefined);
+  }
+
   /**
    * Discard changes
    */
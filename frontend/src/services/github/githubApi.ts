@@ -5,6 +5,7 @@
 
 import { githubAuth } from './githubAuth';
 import { isViewerMode, viewerAutoRecover } from '@/services/viewerMode';
+import { AppError } from '@/utils/errors';
 import type {
   GitHubApiError,
   GitHubApiResponse,
@@ -117,6 +118,13 @@ async function parseError(response: Response): Promise<GitHubApiError> {
   }
 }
 
+/**
+ * Check if a request failed because the resource does not exist (HTTP 404)
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return error instanceof AppError && error.statusCode === 404;
+}
+
 /**
  * Generic API request function
  */
@@ -164,7 +172,7 @@ async function apiRequest<T>(
     }
 
     const error = await parseError(response);
-    throw new Error(error.message);
+    throw new AppError(error.message, undefined, response.status);
   }
 
   // Handle 204 No Content
@@ -402,23 +410,33 @@ export async function getFileContentAsString(
 }
 
 /**
- * Get file contents from two branches for conflict resolution
+ * Get file contents from two branches for conflict resolution, plus the common ancestor
+ * when its ref is given ('' if the file did not exist there, undefined if it could not be read)
  */
 export async function getConflictFileContents(
   owner: string,
   repo: string,
   path: string,
   oursBranch: string,
-  theirsBranch: string
+  theirsBranch: string,
+  baseRef?: string
 ): Promise<{
   oursContent: string;
   oursSha: string;
   theirsContent: string;
   theirsSha: string;
+  baseContent?: string;
 }> {
-  const [oursResult, theirsResult] = await Promise.all([
+  const [oursResult, theirsResult, baseResult] = await Promise.all([
     getFileContentAsString(owner, repo, path, oursBranch),
     getFileContentAsString(owner, repo, path, theirsBranch),
+    baseRef
+      ? getFileContentAsString(owner, repo, path, baseRef).catch((err) => {
+          if (isNotFoundError(err)) return { content: '' };
+          console.warn(`[githubApi] Could not read ${path} at ${baseRef}:`, err);
+          return undefined;
+        })
+      : undefined,
   ]);
 
   return {
@@ -426,6 +444,7 @@ export async function getConflictFileContents(
     oursSha: oursResult.sha,
     theirsContent: theirsResult.content,
     theirsSha: theirsResult.sha,
+    baseContent: baseResult?.content,
   };
 }
 
@@ -866,6 +885,7 @@ export async function compareBranches(
     deletions: number;
     changes: number;
   }>;
+  merge_base_commit?: { sha: string };
 }> {
   const response = await apiRequest<{
     status: 'ahead' | 'behind' | 'identical' | 'diverged';
@@ -881,6 +901,7 @@ export async function compareBranches(
       deletions: number;
       changes: number;
     }>;
+    merge_base_commit?: { sha: string };
   }>('GET', `/repos/${owner}/${repo}/compare/${base}...${head}`);
   return response.data;
 }
@@ -1343,4 +1364,6 @@ export const githubApi = {
   // Rate Limit
   getRateLimit,
   isRateLimited,
+  // Errors
+  isNotFoundError,
 };
@@ -251,6 +251,58 @@ export async function getWorkspaceFiles(
     });
 }
 
+/**
+ * The given files as they are at a ref, together with the .workspace.yaml of the
+ * workspace each belongs to, for loading a partial model of that version. Files that do
+ * not exist at the ref are left out.
+ */
+export async function getWorkspaceSnapshot(
+  owner: string,
+  repo: string,
+  ref: string,
+  paths: string[]
+): Promise<FileContent[]> {
+  const blobs = (await getTree(owner, repo, ref, true))
+    .filter((entry) => entry.type === 'blob')
+    .map((entry) => entry.path);
+  const workspaceFiles = blobs.filter((path) => path.endsWith('.workspace.yaml'));
+
+  // The workspace of a file is the nearest folder above it with a workspace file
+  const folder = (path: string) => path.split('/').slice(0, -1).join('/');
+  const workspaceOf = (path: string) =>
+    workspaceFiles
+      .filter((w) => !folder(w) || path.startsWith(`${folder(w)}/`))
+      .sort((a, b) => folder(b).length - folder(a).length)[0];
+
+  const existing = new Set(blobs);
+  const wanted = new Set<string>();
+  for (const path of paths) {
+    if (existing.has(path)) wanted.add(path);
+    const workspaceFile = workspaceOf(path);
+    if (workspaceFile) wanted.add(workspaceFile);
+  }
+
+  return Promise.all([...wanted].map((path) => getFile(owner, repo, path, ref)));
+}
+
+/**
+ * All files of a workspace folder as they are at a ref, with paths relative to the folder
+ */
+export async function getWorkspaceFilesAtRef(
+  owner: string,
+  repo: string,
+  workspacePath: string,
+  ref: string,
+  pattern?: RegExp
+): Promise<FileContent[]> {
+  const prefix = workspacePath ? `${workspacePath}/` : '';
+  const paths = (await getFilesFromTree(owner, repo, ref, pattern)).filter((path) =>
+    path.startsWith(prefix)
+  );
+  const files = await Promise.all(paths.map((path) => getFile(owner, repo, path, ref)));
+  return files.map((file) => ({ ...file, path: file.path.substring(prefix.length) }));
+}
+
 // ============================================================================
 // Write Operations
 // ============================================================================
@@ -589,6 +641,8 @@ export const githubContentsService = {
   // Workspace detection
   detectWorkspaces,
   getWorkspaceFiles,
+  getWorkspaceSnapshot,
+  getWorkspaceFilesAtRef,
 
   // Write operations
   createFile,
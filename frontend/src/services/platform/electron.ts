@@ -331,6 +331,9 @@ declare global {
       gitLog: (workspacePath: string, options?: GitLogOptions) => Promise<GitLogEntry[]>;
       gitDiff: (workspacePath: string, options?: GitDiffOptions) => Promise<string>;
       gitDiffFile: (workspacePath: string, filePath: string) => Promise<string>;
+      gitShow: (workspacePath: string, ref: string, filePath: string) => Promise<string | null>;
+      gitListFiles: (workspacePath: string, ref: string) => Promise<string[] | null>;
+      gitHookDirs: (workspacePath: string) => Promise<{ gitDir: string; hooksDir: string } | null>;
       gitDiscard: (
         workspacePath: string,
         options?: GitDiscardOptions
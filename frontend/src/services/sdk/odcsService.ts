@@ -7,7 +7,13 @@
 import { sdkLoader } from './sdkLoader';
 import * as yaml from 'js-yaml';
 import { isValidUUID, generateUUID } from '@/utils/validation';
-import type { Table, Column } from '@/types/table'; // Import Column type
+import type { Table, Column, SCDType } from '@/types/table'; // Import Column type
+import {
+  getDimensionalProperties,
+  getSCDType,
+  SCD_TYPE_KEY,
+  setDimensionalProperties,
+} from '@/utils/customProperties';
 import type { Relationship } from '@/types/relationship';
 import type { DataFlowDiagram } from '@/types/dataflow';
 
@@ -365,6 +371,7 @@ class ODCSService {
       authoritativeDefinitions?: any[];
       tags?: any[];
       customProperties?: any[];
+      scdType?: SCDType;
     } => {
       const columnId = col.id && isValidUUID(col.id) ? col.id : generateUUID();
 
@@ -479,6 +486,7 @@ class ODCSService {
         authoritativeDefinitions: col.authoritativeDefinitions || col.authoritative_definitions,
         tags: col.tags,
         customProperties: col.customProperties || col.custom_properties,
+        scdType: getSCDType(col.customProperties || col.custom_properties),
       };
     };
 
@@ -637,6 +645,8 @@ class ODCSService {
       authoritativeDefinitions: table.authoritativeDefinitions || table.authoritative_definitions,
       // Preserve customProperties at table level (for ODCS round-trip)
       customProperties: table.customProperties || table.custom_properties,
+      // Dimensional modeling metadata is stored in customProperties
+      ...getDimensionalProperties(table.customProperties || table.custom_properties),
     } as Table;
   }
 
@@ -1118,8 +1128,12 @@ class ODCSService {
         ...(table.tags && table.tags.length > 0 && { tags: table.tags }),
         // Filter customProperties to exclude fields already serialized as top-level schema properties
         // This prevents duplicate keys in the YAML output
+        // Dimensional modeling metadata is written from the table's typed fields
         ...(() => {
-          if (!table.customProperties || !Array.isArray(table.customProperties)) return {};
+          const customProperties = setDimensionalProperties(
+            Array.isArray(table.customProperties) ? table.customProperties : [],
+            table
+          );
           const excludedTableProps = new Set([
             'name',
             'physicalName',
@@ -1131,9 +1145,7 @@ class ODCSService {
             'tags',
             'id',
           ]);
-          const filtered = table.customProperties.filter(
-            (p: any) => !excludedTableProps.has(p.property)
-          );
+          const filtered = customProperties.filter((p: any) => !excludedTableProps.has(p.property));
           return filtered.length > 0 ? { customProperties: filtered } : {};
         })(),
       };
@@ -1196,6 +1208,7 @@ class ODCSService {
             const excludedProperties = new Set([
               'order',
               'is_foreign_key',
+              SCD_TYPE_KEY,
               'name',
               'physicalName',
               'logicalType',
@@ -1234,6 +1247,10 @@ class ODCSService {
             if (col.is_foreign_key === true) {
               customProps.push({ property: 'is_foreign_key', value: true });
             }
+            // Add the slowly changing dimension type if set
+            if (col.scdType !== undefined) {
+              customProps.push({ property: SCD_TYPE_KEY, value: col.scdType });
+            }
             return customProps.length > 0 ? { customProperties: customProps } : {};
           })(),
           // Convert constraints/quality_rules to ODCS quality array format
@@ -251,6 +251,16 @@ class SDKLoader {
   private loadingPromise: Promise<SDKModule> | null = null;
   private initialized = false;
   private loadError: SDKLoadError | null = null;
+  private wasmSource: BufferSource | null = null;
+
+  /**
+   * Use the given WASM binary instead of fetching the bundled .wasm file.
+   * Needed outside the browser (e.g. the odm CLI), where the file cannot be fetched.
+   * Must be called before load().
+   */
+  setWasmSource(source: BufferSource): void {
+    this.wasmSource = source;
+  }
 
   /**
    * Load the SDK WASM module
@@ -296,8 +306,8 @@ class SDKLoader {
     console.log('[SDKLoader] Starting SDK initialization...');
 
     try {
-      // Initialize the WASM module - this loads the bundled .wasm file
-      await init();
+      // Initialize the WASM module - this loads the bundled .wasm file unless a binary was given
+      await init(this.wasmSource ? { module_or_path: this.wasmSource } : undefined);
       this.initialized = true;
       console.log('[SDKLoader] WASM module initialized successfully');
 
@@ -9,9 +9,18 @@ import type { Relationship } from '@/types/relationship';
 import type { Domain } from '@/types/domain';
 import type { KnowledgeArticle } from '@/types/knowledge';
 import type { Decision } from '@/types/decision';
+import type { System } from '@/types/system';
+import type { NamingPolicy } from '@/types/namingPolicy';
+import type { MetricView } from '@/types/metricView';
 import type { ResourceType, ValidationSeverity } from '@/stores/validationStore';
 import { isValidTableName, isValidColumnName } from '@/utils/validation';
 import { getCatalog, getSchema } from '@/utils/customProperties';
+import { checkNamingPolicy } from '@/utils/namingPolicy';
+import {
+  checkClassificationPolicy,
+  describeClassificationFinding,
+  getClassificationLabel,
+} from '@/utils/classificationPolicy';
 
 export interface ValidationError {
   field: string;
@@ -44,6 +53,8 @@ export interface ValidationIssueInput {
   field?: string;
   message: string;
   details?: string;
+  suggestion?: string;
+  columnId?: string;
 }
 
 /**
@@ -272,13 +283,18 @@ class ValidationService {
   /**
    * Validate all workspace resources comprehensively
    * Returns issues in format compatible with validationStore.addIssues()
+   * Names are also checked against the naming policy, if the workspace has one, and column
+   * classifications against those of their lineage and relationship sources
    */
   async validateAll(
     tables: Table[],
     relationships: Relationship[],
     domains: Domain[],
     knowledgeArticles: KnowledgeArticle[] = [],
-    decisionRecords: Decision[] = []
+    decisionRecords: Decision[] = [],
+    namingPolicy?: NamingPolicy,
+    systems: System[] = [],
+    metricViews: MetricView[] = []
   ): Promise<ValidateAllResult> {
     const issues: ValidationIssueInput[] = [];
 
@@ -581,6 +597,46 @@ class ValidationService {
       }
     }
 
+    // Check table and column names against the workspace naming policy
+    if (namingPolicy) {
+      for (const violation of checkNamingPolicy(namingPolicy, tables, domains, systems)) {
+        const subject = violation.target === 'table' ? 'Table' : 'Column';
+        issues.push({
+          resourceType: 'table',
+          resourceId: violation.tableId,
+          resourceName: violation.tableName,
+          severity: violation.severity,
+          field: violation.target === 'table' ? 'name' : 'column.name',
+          message: `${subject} name "${violation.name}" ${violation.problems.join(', ')}`,
+          details: `Naming rule${violation.ruleIds.length !== 1 ? 's' : ''}: ${violation.ruleIds.join(', ')}`,
+          suggestion: violation.suggestion,
+          columnId: violation.columnId,
+        });
+      }
+    }
+
+    // Check column classifications against what flows into them
+    for (const finding of checkClassificationPolicy({
+      tables,
+      relationships,
+      domains,
+      metricViews,
+    })) {
+      const underClassified = finding.kind === 'under-classified';
+      issues.push({
+        resourceType: 'table',
+        resourceId: finding.tableId,
+        resourceName: finding.tableName,
+        severity: finding.severity,
+        field: underClassified ? 'column.classification' : 'column.criticalDataElement',
+        message: describeClassificationFinding(finding),
+        suggestion: underClassified
+          ? `Classify as ${getClassificationLabel(finding.requiredClassification)}`
+          : 'Mark as critical data element',
+        columnId: finding.columnId,
+      });
+    }
+
     // Calculate summary
     const errorCount = issues.filter((i) => i.severity === 'error').length;
     const warningCount = issues.filter((i) => i.severity === 'warning').length;
@@ -976,6 +976,7 @@ class ElectronFileService {
     allKnowledgeArticles: import('@/types/knowledge').KnowledgeArticle[] = [],
     allDecisionRecords: import('@/types/decision').Decision[] = [],
     allSketches: import('@/types/sketch').Sketch[] = [],
+    allGlossaryTerms: import('@/types/glossary').GlossaryTerm[] = [],
     protectedFiles: string[] = []
   ): Promise<void> {
     if (getPlatform() !== 'electron') {
@@ -998,7 +999,8 @@ class ElectronFileService {
       allDmnDecisions,
       allKnowledgeArticles,
       allDecisionRecords,
-      allSketches
+      allSketches,
+      allGlossaryTerms
     );
 
     // Build set of expected file names
@@ -1015,6 +1017,7 @@ class ElectronFileService {
       '.kb.yaml',
       '.adr.yaml',
       '.sketch.json',
+      '.glossary.yaml',
       '.workspace.yaml',
     ];
 
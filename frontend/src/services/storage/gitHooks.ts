@@ -12,16 +12,41 @@
  */
 
 import { isElectronPlatform } from '../platform/electron';
+import type { ValidationIssueInput } from '../sdk/validationService';
+import type { OrphanedReference } from '@/utils/orphanedReferences';
+
+export type HookName = 'pre-commit' | 'post-checkout' | 'post-merge';
+
+/**
+ * A validation finding of a hook run, with the file it was found in
+ */
+export interface HookFinding extends ValidationIssueInput {
+  filePath?: string;
+}
+
+/**
+ * Result of the last run of a hook, written by `odm hook <name>` to
+ * .git/odm-hooks/<name>.json
+ */
+export interface HookRunResult {
+  hook: HookName;
+  ranAt: string; // ISO timestamp
+  success: boolean; // False when the pre-commit hook blocked the commit
+  checkedFiles: string[];
+  findings: HookFinding[];
+  orphans: OrphanedReference[];
+}
 
 /**
  * Status of an individual git hook
  */
 export interface HookStatus {
-  name: 'pre-commit' | 'post-checkout' | 'post-merge';
+  name: HookName;
   installed: boolean;
   enabled: boolean;
   hasConflict: boolean;
   lastRun?: string;
+  lastResult?: HookRunResult;
 }
 
 /**
@@ -51,56 +76,66 @@ export interface BulkHookOperationResult {
 }
 
 /**
- * Git hook script content for each hook type
+ * Directory inside .git where the hooks record their last run
  */
-const HOOK_SCRIPTS = {
-  'pre-commit': `#!/bin/sh
-# Open Data Modelling - Pre-commit hook
-# Validates workspace files before commit
+export const HOOK_RESULTS_DIR = 'odm-hooks';
 
-echo "🔄 Validating workspace files..."
+/**
+ * Shell lines running `odm hook <name>` with the odm CLI from $ODM_CLI (e.g.
+ * "node /path/to/dist-cli/odm.js") or the PATH. Only exit code 1 (commit blocked) fails
+ * the hook: when the CLI is missing, does not start or fails itself, the hook warns and
+ * lets git continue.
+ */
+const runOdm = (hookName: HookName) => `if [ -n "$ODM_CLI" ]; then
+  ODM="$ODM_CLI"
+elif command -v odm >/dev/null 2>&1; then
+  ODM=odm
+fi
 
-# Check if we're in the frontend directory or root
-if [ -d "frontend" ]; then
-  cd frontend || exit 1
+if [ -z "$ODM" ] || ! $ODM --version >/dev/null 2>&1; then
+  echo "⚠️  odm CLI not found or not working - skipping ${hookName} checks (install odm or set ODM_CLI)"
+  exit 0
 fi
 
-echo "✅ Pre-commit validation complete"
+$ODM hook ${hookName}
+STATUS=$?
+if [ "$STATUS" -eq 1 ]; then
+  exit 1
+elif [ "$STATUS" -ne 0 ]; then
+  echo "⚠️  odm hook ${hookName} failed - skipping its checks"
+fi
+exit 0`;
+
+/**
+ * Git hook script content for each hook type
+ */
+const HOOK_SCRIPTS: Record<HookName, string> = {
+  'pre-commit': `#!/bin/sh
+# Open Data Modelling - Pre-commit hook
+# Parses and validates staged workspace files; blocks the commit on errors
+
+${runOdm('pre-commit')}
 `,
 
   'post-checkout': `#!/bin/sh
 # Open Data Modelling - Post-checkout hook
-# Runs after branch checkout
+# Reports orphaned references after a branch checkout
 
-PREV_HEAD=$1
-NEW_HEAD=$2
 BRANCH_CHECKOUT=$3
 
 # Only run on branch checkout, not file checkout
-if [ "$BRANCH_CHECKOUT" = "1" ]; then
-  echo "🔄 Processing post-checkout..."
-
-  # Check if we're in the frontend directory or root
-  if [ -d "frontend" ]; then
-    cd frontend || exit 1
-  fi
-
-  echo "✅ Post-checkout complete"
+if [ "$BRANCH_CHECKOUT" != "1" ]; then
+  exit 0
 fi
+
+${runOdm('post-checkout')}
 `,
 
   'post-merge': `#!/bin/sh
 # Open Data Modelling - Post-merge hook
-# Runs after merge operations
-
-echo "🔄 Processing post-merge..."
-
-# Check if we're in the frontend directory or root
-if [ -d "frontend" ]; then
-  cd frontend || exit 1
-fi
+# Reports orphaned references after a merge
 
-echo "✅ Post-merge complete"
+${runOdm('post-merge')}
 `,
 };
 
@@ -132,11 +167,9 @@ class GitHooksService {
     }
 
     try {
-      // Check if .git directory exists
-      const gitPath = `${workspacePath}/.git`;
-      const gitExists = await this.pathExists(gitPath);
+      const dirs = await window.electronAPI!.gitHookDirs(workspacePath);
 
-      if (!gitExists) {
+      if (!dirs) {
         return {
           gitAvailable: false,
           hooksPath: null,
@@ -144,7 +177,7 @@ class GitHooksService {
         };
       }
 
-      const hooksPath = `${gitPath}/hooks`;
+      const hooksPath = dirs.hooksDir;
 
       // Get status of each hook
       const hooks: HookStatus[] = await Promise.all(
@@ -152,12 +185,15 @@ class GitHooksService {
           const hookPath = `${hooksPath}/${name}`;
           const installed = await this.isOurHookInstalled(hookPath);
           const hasConflict = !installed && (await this.pathExists(hookPath));
+          const lastResult = await this.readLastRun(dirs.gitDir, name);
 
           return {
             name,
             installed,
             enabled: this.enabledHooks.has(name),
             hasConflict,
+            lastRun: lastResult?.ranAt,
+            lastResult,
           };
         })
       );
@@ -180,16 +216,13 @@ class GitHooksService {
   /**
    * Install a specific git hook
    */
-  async installHook(
-    workspacePath: string,
-    hookName: 'pre-commit' | 'post-checkout' | 'post-merge'
-  ): Promise<HookOperationResult> {
+  async installHook(workspacePath: string, hookName: HookName): Promise<HookOperationResult> {
     if (!this.isAvailable()) {
       return { success: false, error: 'Git hooks not available in this environment' };
     }
 
     try {
-      const hooksPath = `${workspacePath}/.git/hooks`;
+      const hooksPath = await this.hooksDir(workspacePath);
 
       // Ensure hooks directory exists
       await window.electronAPI!.ensureDirectory(hooksPath);
@@ -224,16 +257,13 @@ class GitHooksService {
   /**
    * Uninstall a specific git hook
    */
-  async uninstallHook(
-    workspacePath: string,
-    hookName: 'pre-commit' | 'post-checkout' | 'post-merge'
-  ): Promise<HookOperationResult> {
+  async uninstallHook(workspacePath: string, hookName: HookName): Promise<HookOperationResult> {
     if (!this.isAvailable()) {
       return { success: false, error: 'Git hooks not available in this environment' };
     }
 
     try {
-      const hookPath = `${workspacePath}/.git/hooks/${hookName}`;
+      const hookPath = `${await this.hooksDir(workspacePath)}/${hookName}`;
 
       // Check if it's our hook
       if (await this.isOurHookInstalled(hookPath)) {
@@ -322,6 +352,41 @@ class GitHooksService {
     return this.enabledHooks.has(hookName);
   }
 
+  /**
+   * Result of the last run of a hook, if it has run since it was installed
+   */
+  async getLastRun(workspacePath: string, hookName: HookName): Promise<HookRunResult | undefined> {
+    const dirs = await window.electronAPI!.gitHookDirs(workspacePath);
+    return dirs ? this.readLastRun(dirs.gitDir, hookName) : undefined;
+  }
+
+  /**
+   * Hooks directory of the repository containing the workspace, which may be a subfolder
+   * of the repo or a worktree
+   */
+  private async hooksDir(workspacePath: string): Promise<string> {
+    const dirs = await window.electronAPI!.gitHookDirs(workspacePath);
+    if (!dirs) throw new Error('Workspace is not in a git repository');
+    return dirs.hooksDir;
+  }
+
+  /**
+   * Result recorded by the hook in the git dir (see `odm hook`)
+   */
+  private async readLastRun(
+    gitDir: string,
+    hookName: HookName
+  ): Promise<HookRunResult | undefined> {
+    try {
+      const content = await window.electronAPI!.readFile(
+        `${gitDir}/${HOOK_RESULTS_DIR}/${hookName}.json`
+      );
+      return JSON.parse(content) as HookRunResult;
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Check if a path exists
    */
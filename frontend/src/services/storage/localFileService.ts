@@ -1125,6 +1125,7 @@ class LocalFileService {
     allKnowledgeArticles: import('@/types/knowledge').KnowledgeArticle[] = [],
     allDecisionRecords: import('@/types/decision').Decision[] = [],
     allSketches: import('@/types/sketch').Sketch[] = [],
+    allGlossaryTerms: import('@/types/glossary').GlossaryTerm[] = [],
     protectedFiles: string[] = []
   ): Promise<void> {
     console.log('[LocalFileService] Saving workspace in V2 format:', workspace.name);
@@ -1143,7 +1144,8 @@ class LocalFileService {
       allDmnDecisions,
       allKnowledgeArticles,
       allDecisionRecords,
-      allSketches
+      allSketches,
+      allGlossaryTerms
     );
 
     const workspaceName = FileMigration.sanitizeFileName(workspace.name);
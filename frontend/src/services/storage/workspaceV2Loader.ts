@@ -15,6 +15,8 @@ import { decisionService } from '@/services/sdk/decisionService';
 import { sketchService } from '@/services/sdk/sketchService';
 import * as yaml from 'js-yaml';
 import { FileMigration } from '@/utils/fileMigration';
+import { NAMING_POLICY_FILE, parseNamingPolicy } from '@/utils/namingPolicy';
+import { GLOSSARY_FILE_EXTENSION, parseGlossaryTerm } from '@/utils/glossary';
 import {
   useValidationStore,
   parseValidationError,
@@ -41,6 +43,8 @@ import type { DMNDecision } from '@/types/dmn';
 import type { KnowledgeArticle } from '@/types/knowledge';
 import type { Decision } from '@/types/decision';
 import type { Sketch } from '@/types/sketch';
+import type { NamingPolicy } from '@/types/namingPolicy';
+import type { GlossaryTerm } from '@/types/glossary';
 
 /**
  * Result of loading a domain with all its resources
@@ -101,6 +105,18 @@ export class WorkspaceV2Loader {
       }
     }
 
+    // 1.6. Load the naming policy, if the workspace has one
+    const namingPolicyFile = fileArray.find(
+      (f) => f.name === NAMING_POLICY_FILE || f.name.endsWith(`/${NAMING_POLICY_FILE}`)
+    );
+    const namingPolicy = namingPolicyFile
+      ? this.loadNamingPolicy(
+          await browserFileService.readFile(namingPolicyFile),
+          workspaceId,
+          workspaceName
+        )
+      : undefined;
+
     // 2. Categorize remaining files by pattern (handles both flat and subdirectory structures)
     // For subdirectory structure, webkitRelativePath contains the path
     const fileNames = fileArray.map((f) => (f as any).webkitRelativePath || f.name);
@@ -210,6 +226,19 @@ export class WorkspaceV2Loader {
       allSketches.push(...sketches);
     }
 
+    // 4.7 Load glossary terms (workspace level, one file per term)
+    const glossaryFiles = fileArray.filter((f) =>
+      ((f as any).webkitRelativePath || f.name).endsWith(GLOSSARY_FILE_EXTENSION)
+    );
+    const glossaryTerms = this.loadGlossaryTerms(
+      await Promise.all(
+        glossaryFiles.map(async (f) => ({
+          name: f.name,
+          content: await browserFileService.readFile(f),
+        }))
+      )
+    );
+
     // 5. Load relationships from workspace.yaml (SDK schema stores them at workspace level)
     const allRelationships: Relationship[] = this.loadRelationships(
       workspaceV2.relationships || [],
@@ -277,6 +306,7 @@ export class WorkspaceV2Loader {
       knowledgeArticles?: KnowledgeArticle[];
       decisionRecords?: Decision[];
       sketches?: Sketch[];
+      glossaryTerms?: GlossaryTerm[];
       failedOdcsFiles?: string[];
     } = {
       id: workspaceId,
@@ -286,6 +316,8 @@ export class WorkspaceV2Loader {
       created_at: workspaceV2.created_at || new Date().toISOString(),
       last_modified_at: workspaceV2.last_modified_at || new Date().toISOString(),
       domains,
+      notation: workspaceV2.notation,
+      naming_policy: namingPolicy,
     };
 
     // Attach all loaded resources to workspace
@@ -339,6 +371,12 @@ export class WorkspaceV2Loader {
       workspace.sketches = allSketches;
       console.log(`[WorkspaceV2Loader] Added ${allSketches.length} sketch(es) to workspace`);
     }
+    if (glossaryTerms.length > 0) {
+      workspace.glossaryTerms = glossaryTerms;
+      console.log(
+        `[WorkspaceV2Loader] Added ${glossaryTerms.length} glossary term(s) to workspace`
+      );
+    }
 
     // Track failed ODCS files so the saver can protect them from deletion
     if (allFailedOdcsFiles.length > 0) {
@@ -363,6 +401,7 @@ export class WorkspaceV2Loader {
       knowledgeArticles: allKnowledgeArticles.length,
       decisionRecords: allDecisionRecords.length,
       sketches: allSketches.length,
+      glossaryTerms: glossaryTerms.length,
     });
 
     return workspace;
@@ -388,6 +427,11 @@ export class WorkspaceV2Loader {
     const workspaceId = workspaceV2.id;
     console.log('[WorkspaceV2Loader] Loaded workspace from strings:', workspaceName);
 
+    const namingPolicyFile = files.find((f) => f.name === NAMING_POLICY_FILE);
+    const namingPolicy = namingPolicyFile
+      ? this.loadNamingPolicy(namingPolicyFile.content, workspaceId, workspaceName)
+      : undefined;
+
     // 2. Categorize files by pattern
     const fileNames = files.map((f) => f.name);
     const categorized = FileMigration.categorizeFiles(fileNames);
@@ -480,6 +524,10 @@ export class WorkspaceV2Loader {
       allSketches.push(...sketches);
     }
 
+    const glossaryTerms = this.loadGlossaryTerms(
+      files.filter((f) => f.name.endsWith(GLOSSARY_FILE_EXTENSION))
+    );
+
     // 5. Load relationships
     const allRelationships: Relationship[] = this.loadRelationships(
       workspaceV2.relationships || [],
@@ -527,6 +575,7 @@ export class WorkspaceV2Loader {
       knowledgeArticles?: KnowledgeArticle[];
       decisionRecords?: Decision[];
       sketches?: Sketch[];
+      glossaryTerms?: GlossaryTerm[];
       failedOdcsFiles?: string[];
     } = {
       id: workspaceId,
@@ -536,6 +585,8 @@ export class WorkspaceV2Loader {
       created_at: workspaceV2.created_at || new Date().toISOString(),
       last_modified_at: workspaceV2.last_modified_at || new Date().toISOString(),
       domains,
+      notation: workspaceV2.notation,
+      naming_policy: namingPolicy,
     };
 
     // Attach all loaded resources
@@ -550,6 +601,7 @@ export class WorkspaceV2Loader {
     if (allKnowledgeArticles.length > 0) workspace.knowledgeArticles = allKnowledgeArticles;
     if (allDecisionRecords.length > 0) workspace.decisionRecords = allDecisionRecords;
     if (allSketches.length > 0) workspace.sketches = allSketches;
+    if (glossaryTerms.length > 0) workspace.glossaryTerms = glossaryTerms;
 
     // Track failed ODCS files so the saver can protect them from deletion
     if (allFailedOdcsFiles.length > 0) {
@@ -666,8 +718,12 @@ export class WorkspaceV2Loader {
       decisions: decisions.map((d) => d.id),
       // Load view-specific positions for canvas nodes (tables, systems, assets)
       view_positions: domainSpec.view_positions,
+      // Subject-area frames and sticky notes per canvas view
+      view_annotations: domainSpec.view_annotations,
       // SDK 2.3.0+: Load shared resources if present
       shared_resources: domainSpec.shared_resources,
+      // Transformation links (with their edge routes) stored on the domain
+      transformation_links: domainSpec.transformation_links,
     };
 
     return {
@@ -781,8 +837,12 @@ export class WorkspaceV2Loader {
       decisions: decisions.map((d) => d.id),
       // Load view-specific positions for canvas nodes (tables, systems, assets)
       view_positions: domainSpec.view_positions,
+      // Subject-area frames and sticky notes per canvas view
+      view_annotations: domainSpec.view_annotations,
       // SDK 2.3.0+: Load shared resources if present
       shared_resources: domainSpec.shared_resources,
+      // Transformation links (with their edge routes) stored on the domain
+      transformation_links: domainSpec.transformation_links,
     };
 
     return {
@@ -911,6 +971,53 @@ export class WorkspaceV2Loader {
     return { tables, failedFiles };
   }
 
+  /**
+   * Parse the workspace naming policy. An invalid policy is recorded as a validation issue
+   * and ignored.
+   */
+  private static loadNamingPolicy(
+    content: string,
+    workspaceId: string,
+    workspaceName: string
+  ): NamingPolicy | undefined {
+    try {
+      const policy = parseNamingPolicy(content);
+      console.log(`[WorkspaceV2Loader] Loaded naming policy with ${policy.rules.length} rule(s)`);
+      return policy;
+    } catch (error) {
+      console.warn('[WorkspaceV2Loader] Failed to load naming policy:', error);
+      this.recordValidationIssue(
+        error,
+        'workspace',
+        workspaceId,
+        workspaceName,
+        NAMING_POLICY_FILE
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Parse glossary term files. Invalid files are recorded as validation issues and skipped.
+   */
+  private static loadGlossaryTerms(
+    files: Array<{ name: string; content: string }>
+  ): GlossaryTerm[] {
+    const terms: GlossaryTerm[] = [];
+    for (const file of files) {
+      try {
+        terms.push(parseGlossaryTerm(file.content));
+      } catch (error) {
+        console.error(`[WorkspaceV2Loader] Failed to load glossary term from ${file.name}:`, error);
+        this.recordValidationIssue(error, 'glossary_term', file.name, file.name, file.name);
+      }
+    }
+    if (terms.length > 0) {
+      console.log(`[WorkspaceV2Loader] Loaded ${terms.length} glossary term(s)`);
+    }
+    return terms;
+  }
+
   /**
    * Helper to record validation issues to the validation store
    */
@@ -14,6 +14,8 @@ import { decisionService } from '@/services/sdk/decisionService';
 import { sketchService } from '@/services/sdk/sketchService';
 import { sdkLoader } from '@/services/sdk/sdkLoader';
 import * as yaml from 'js-yaml';
+import { NAMING_POLICY_FILE } from '@/utils/namingPolicy';
+import { GLOSSARY_FILE_EXTENSION, glossaryFileName, glossaryTermToYaml } from '@/utils/glossary';
 import { FileMigration } from '@/utils/fileMigration';
 import type { Workspace, WorkspaceV2 } from '@/types/workspace';
 import type { Domain } from '@/types/domain';
@@ -28,6 +30,27 @@ import type { DMNDecision } from '@/types/dmn';
 import type { KnowledgeArticle } from '@/types/knowledge';
 import type { Decision } from '@/types/decision';
 import type { Sketch } from '@/types/sketch';
+import type { GlossaryTerm } from '@/types/glossary';
+
+// Whether every key of a value, at any depth, is still present in its exported copy
+const keepsKeys = (value: unknown, exported: unknown): boolean => {
+  if (value === undefined || value === null) return true;
+  if (Array.isArray(value)) {
+    return (
+      Array.isArray(exported) &&
+      exported.length === value.length &&
+      value.every((item, i) => keepsKeys(item, exported[i]))
+    );
+  }
+  if (typeof value === 'object') {
+    if (typeof exported !== 'object' || exported === null) return false;
+    const copy = exported as Record<string, unknown>;
+    return Object.entries(value).every(
+      ([key, item]) => item === undefined || (key in copy && keepsKeys(item, copy[key]))
+    );
+  }
+  return exported !== undefined;
+};
 
 export interface SavedFile {
   name: string;
@@ -52,7 +75,8 @@ export class WorkspaceV2Saver {
     allDmnDecisions: DMNDecision[],
     allKnowledgeArticles: KnowledgeArticle[] = [],
     allDecisionRecords: Decision[] = [],
-    allSketches: Sketch[] = []
+    allSketches: Sketch[] = [],
+    allGlossaryTerms: GlossaryTerm[] = []
   ): Promise<SavedFile[]> {
     // Log input data for debugging
     console.log('[WorkspaceV2Saver] generateFiles called with:', {
@@ -88,6 +112,11 @@ export class WorkspaceV2Saver {
     try {
       const sdk = sdkLoader.getModule();
       workspaceYamlContent = sdk.export_workspace_to_yaml(JSON.stringify(workspaceV2));
+      // Canvas annotations and notation are not part of the SDK schema; keep them if the
+      // SDK drops them
+      if (this.sdkDroppedExtensions(workspaceV2, workspaceYamlContent)) {
+        workspaceYamlContent = yaml.dump(workspaceV2, { lineWidth: -1, noRefs: true });
+      }
     } catch {
       // Fallback to js-yaml if SDK not available
       workspaceYamlContent = yaml.dump(workspaceV2, { lineWidth: -1, noRefs: true });
@@ -107,6 +136,15 @@ export class WorkspaceV2Saver {
       directory: '', // Root directory
     });
 
+    // 2.5. Naming policy - only written when the workspace has one
+    if (workspace.naming_policy) {
+      files.push({
+        name: NAMING_POLICY_FILE,
+        content: yaml.dump(workspace.naming_policy, { lineWidth: -1, noRefs: true }),
+        directory: '', // Root directory
+      });
+    }
+
     console.log(
       `[WorkspaceV2Saver] Generated workspace.yaml and README.md for "${workspace.name}"`
     );
@@ -575,6 +613,15 @@ export class WorkspaceV2Saver {
       }
     }
 
+    // 7. Generate glossary term files (.glossary.yaml) in glossary/ directory
+    for (const term of allGlossaryTerms) {
+      files.push({
+        name: glossaryFileName(workspace.name, term),
+        content: glossaryTermToYaml(term),
+        directory: 'glossary',
+      });
+    }
+
     console.log(`[WorkspaceV2Saver] Generated ${files.length} files total`);
 
     return files;
@@ -601,6 +648,7 @@ export class WorkspaceV2Saver {
       last_modified_at: now,
       // Optional fields
       description: workspace.description,
+      ...(workspace.notation && { notation: workspace.notation }),
       domains: domains.map((domain) => {
         const domainSystems = allSystems.filter((s) => (s as any).domain_id === domain.id);
 
@@ -640,15 +688,20 @@ export class WorkspaceV2Saver {
             Object.keys(domain.view_positions).length > 0 && {
               view_positions: domain.view_positions,
             }),
+          // Subject-area frames and sticky notes per canvas view
+          ...(domain.view_annotations &&
+            Object.keys(domain.view_annotations).length > 0 && {
+              view_annotations: domain.view_annotations,
+            }),
           // SDK 2.3.0+ domain resource management fields
           ...(domain.shared_resources &&
             domain.shared_resources.length > 0 && {
               shared_resources: domain.shared_resources,
             }),
           // Transformation links for ETL view (stored on domain, not BPMN)
-          ...((domain as any).transformation_links &&
-            (domain as any).transformation_links.length > 0 && {
-              transformation_links: (domain as any).transformation_links,
+          ...(domain.transformation_links &&
+            domain.transformation_links.length > 0 && {
+              transformation_links: domain.transformation_links,
             }),
           // Table visibility settings
           ...((domain as any).table_visibility &&
@@ -695,6 +748,30 @@ export class WorkspaceV2Saver {
     };
   }
 
+  /**
+   * Whether the workspace YAML exported by the SDK lacks the notation, or the canvas
+   * annotations or transformation links (with their edge routes) of a domain. Checks the
+   * parsed keys, since the names also occur in other keys (view_annotations) and in
+   * descriptions.
+   */
+  private static sdkDroppedExtensions(workspaceV2: WorkspaceV2, content: string): boolean {
+    const exported = yaml.load(content) as Partial<WorkspaceV2> | null;
+    const exportedDomains = new Map((exported?.domains ?? []).map((d) => [d.id, d]));
+    return (
+      (!!workspaceV2.notation && !exported?.notation) ||
+      !!workspaceV2.domains?.some((d) => {
+        const exportedDomain = exportedDomains.get(d.id);
+        const exportedLinks = new Map(
+          (exportedDomain?.transformation_links ?? []).map((l) => [l.id, l])
+        );
+        return (
+          (d.view_annotations && !exportedDomain?.view_annotations) ||
+          d.transformation_links?.some((l) => !keepsKeys(l, exportedLinks.get(l.id)))
+        );
+      })
+    );
+  }
+
   /**
    * Map SDK relationship type enum to V2 snake_case format
    */
@@ -748,6 +825,7 @@ This workspace was created with the Data Modelling tool.
 ├── dmn/                         # Decision models (DMN)
 ├── kb/                          # Knowledge base articles
 ├── adr/                         # Architecture decision records
+├── glossary/                    # Business glossary terms
 └── sketches/                    # Excalidraw diagrams
 \`\`\`
 
@@ -813,6 +891,7 @@ will be synchronized with the workspace settings.
       'dmn',
       'kb',
       'adr',
+      'glossary',
       'sketches',
     ];
 
@@ -827,6 +906,7 @@ will be synchronized with the workspace settings.
       '.kb.yaml',
       '.adr.yaml',
       '.sketch.json',
+      GLOSSARY_FILE_EXTENSION,
       '.workspace.yaml',
     ];
 
@@ -0,0 +1,35 @@
+/**
+ * Canvas Render Store
+ * Controls the canvas rendering shortcuts used for large workspaces using Zustand
+ *
+ * The canvas normally culls nodes and edges outside the viewport and lowers node detail
+ * when zoomed out. Exports capture the rendered DOM, so they switch to full rendering
+ * for the duration of the capture.
+ */
+
+import { create } from 'zustand';
+
+interface CanvasRenderState {
+  fullRender: boolean;
+
+  // Actions
+  renderFully: <T>(capture: () => T | Promise<T>) => Promise<T>;
+}
+
+// Wait for React to commit and the browser to lay out the fully rendered canvas
+const nextFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+export const useCanvasRenderStore = create<CanvasRenderState>((set) => ({
+  fullRender: false,
+
+  renderFully: async (capture) => {
+    set({ fullRender: true });
+    try {
+      await nextFrame();
+      await nextFrame();
+      return await capture();
+    } finally {
+      set({ fullRender: false });
+    }
+  },
+}));
@@ -0,0 +1,82 @@
+/**
+ * Compare Store
+ * Manages the canvas "compare with" mode using Zustand
+ *
+ * While a baseline is loaded, DomainCanvas overlays the changes from the workspace at the
+ * chosen branch, tag or commit to the current model (see useCanvasDiff).
+ */
+
+import { create } from 'zustand';
+import { gitService } from '@/services/git/gitService';
+import { githubContentsService } from '@/services/github/githubContentsService';
+import { useGitHubRepoStore } from '@/stores/githubRepoStore';
+import {
+  WORKSPACE_FILE,
+  loadWorkspaceSnapshot,
+  type SnapshotFile,
+} from '@/utils/workspaceSnapshot';
+import type { DiffableWorkspace } from '@/utils/workspaceDiff';
+
+interface CompareState {
+  ref: string | null;
+  baseline: DiffableWorkspace | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  startCompare: (ref: string) => Promise<void>;
+  clearCompare: () => void;
+}
+
+// Workspace files at the ref, from GitHub in repo mode and from the local repository otherwise
+async function readWorkspaceAtRef(ref: string): Promise<SnapshotFile[]> {
+  const repoWorkspace = useGitHubRepoStore.getState().workspace;
+  if (repoWorkspace) {
+    return githubContentsService.getWorkspaceFilesAtRef(
+      repoWorkspace.owner,
+      repoWorkspace.repo,
+      repoWorkspace.workspacePath,
+      ref,
+      WORKSPACE_FILE
+    );
+  }
+  return gitService.getWorkspaceFilesAtRef(ref);
+}
+
+export const useCompareStore = create<CompareState>((set, get) => ({
+  ref: null,
+  baseline: null,
+  isLoading: false,
+  error: null,
+
+  startCompare: async (ref) => {
+    set({ ref, baseline: null, isLoading: true, error: null });
+    try {
+      const files = await readWorkspaceAtRef(ref);
+      if (files.length === 0) {
+        throw new Error(`No workspace files found at "${ref}"`);
+      }
+      const snapshot = await loadWorkspaceSnapshot(files);
+      if (get().ref !== ref) return;
+      // Only the resources drawn on the canvas, so that the rest does not show up as removed
+      set({
+        baseline: {
+          tables: snapshot.tables,
+          relationships: snapshot.relationships,
+          domains: snapshot.domains,
+          systems: snapshot.systems,
+          products: snapshot.products,
+          metricViews: snapshot.metricViews,
+        },
+        isLoading: false,
+      });
+    } catch (error) {
+      if (get().ref !== ref) return;
+      set({
+        isLoading: false,
+        error: error instanceof Error ? error.message : `Failed to load "${ref}"`,
+      });
+    }
+  },
+  clearCompare: () => set({ ref: null, baseline: null, isLoading: false, error: null }),
+}));
@@ -0,0 +1,54 @@
+/**
+ * Focus Store
+ * Manages the canvas neighborhood focus mode using Zustand
+ *
+ * While a focus table is set, DomainCanvas dims (or hides) every node and edge outside the
+ * table's neighborhood.
+ */
+
+import { create } from 'zustand';
+import {
+  NEIGHBORHOOD_LINK_KINDS,
+  type NeighborhoodDirection,
+  type NeighborhoodLinkKind,
+} from '@/utils/neighborhood';
+
+export type FocusDisplayMode = 'dim' | 'hide';
+
+interface FocusState {
+  focusTableId: string | null;
+  depth: number; // 1-3 hops
+  direction: NeighborhoodDirection;
+  kinds: NeighborhoodLinkKind[];
+  displayMode: FocusDisplayMode;
+
+  // Actions
+  startFocus: (tableId: string) => void;
+  clearFocus: () => void;
+  setDepth: (depth: number) => void;
+  setDirection: (direction: NeighborhoodDirection) => void;
+  toggleKind: (kind: NeighborhoodLinkKind) => void;
+  setDisplayMode: (mode: FocusDisplayMode) => void;
+}
+
+export const MAX_FOCUS_DEPTH = 3;
+
+export const useFocusStore = create<FocusState>((set) => ({
+  focusTableId: null,
+  depth: 1,
+  direction: 'both',
+  kinds: NEIGHBORHOOD_LINK_KINDS.map((k) => k.kind),
+  displayMode: 'dim',
+
+  startFocus: (tableId) => set({ focusTableId: tableId }),
+  clearFocus: () => set({ focusTableId: null }),
+  setDepth: (depth) => set({ depth: Math.min(MAX_FOCUS_DEPTH, Math.max(1, Math.round(depth))) }),
+  setDirection: (direction) => set({ direction }),
+  toggleKind: (kind) =>
+    set((state) => ({
+      kinds: state.kinds.includes(kind)
+        ? state.kinds.filter((k) => k !== kind)
+        : [...state.kinds, kind],
+    })),
+  setDisplayMode: (displayMode) => set({ displayMode }),
+}));
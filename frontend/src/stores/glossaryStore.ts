@@ -0,0 +1,163 @@
+/**
+ * Glossary Store
+ * Manages the business glossary terms of the workspace using Zustand
+ *
+ * Terms are loaded from and saved to .glossary.yaml files with the workspace; links from
+ * tables and columns live in their authoritative definitions (see utils/glossary).
+ */
+
+import { create } from 'zustand';
+import { markPendingChanges } from '@/stores/pendingChanges';
+import { mergeGlossaryTerms } from '@/utils/glossary';
+import { createNewGlossaryTerm } from '@/types/glossary';
+import type { GlossaryTerm, GlossaryTermInput } from '@/types/glossary';
+
+interface GlossaryState {
+  // State
+  terms: GlossaryTerm[];
+  selectedTerm: GlossaryTerm | null;
+
+  // Setters
+  setTerms: (terms: GlossaryTerm[]) => void;
+  setSelectedTerm: (term: GlossaryTerm | null) => void;
+
+  // Data operations
+  createTerm: (data: {
+    name: string;
+    definition?: string;
+    parent_id?: string;
+    workspace_id?: string;
+  }) => GlossaryTerm;
+  updateTerm: (termId: string, updates: Partial<GlossaryTerm>) => GlossaryTerm | null;
+  removeTerm: (termId: string) => void;
+  importTerms: (
+    incoming: GlossaryTermInput[],
+    workspaceId?: string
+  ) => { created: number; updated: number };
+
+  // Selectors
+  getTermById: (id: string) => GlossaryTerm | undefined;
+  getChildTerms: (parentId: string) => GlossaryTerm[];
+
+  // Reset
+  reset: () => void;
+}
+
+const initialState = {
+  terms: [],
+  selectedTerm: null,
+};
+
+const syncTerm = (term: GlossaryTerm) =>
+  import('@/utils/githubRepoSync')
+    .then(({ syncGlossaryTermToGitHub }) => {
+      syncGlossaryTermToGitHub(term).catch(console.error);
+    })
+    .catch(() => {
+      // Not in GitHub mode or module not available
+    });
+
+const deleteTerm = (term: GlossaryTerm) =>
+  import('@/utils/githubRepoSync')
+    .then(({ deleteGlossaryTermFromGitHub }) => {
+      deleteGlossaryTermFromGitHub(term).catch(console.error);
+    })
+    .catch(() => {
+      // Not in GitHub mode or module not available
+    });
+
+export const useGlossaryStore = create<GlossaryState>()((set, get) => ({
+  ...initialState,
+
+  setTerms: (terms) => {
+    const selectedTerm = get().selectedTerm;
+    set({
+      terms,
+      selectedTerm: selectedTerm ? (terms.find((t) => t.id === selectedTerm.id) ?? null) : null,
+    });
+  },
+
+  setSelectedTerm: (term) => set({ selectedTerm: term }),
+
+  createTerm: (data) => {
+    const term: GlossaryTerm = {
+      ...createNewGlossaryTerm(data.name, data.workspace_id),
+      id: crypto.randomUUID(),
+      definition: data.definition ?? '',
+      parent_id: data.parent_id,
+    };
+    set({ terms: [...get().terms, term], selectedTerm: term });
+    markPendingChanges();
+    syncTerm(term);
+    return term;
+  },
+
+  updateTerm: (termId, updates) => {
+    const current = get().getTermById(termId);
+    if (!current) return null;
+
+    const updated: GlossaryTerm = {
+      ...current,
+      ...updates,
+      id: current.id,
+      version: current.version + 1,
+      updated_at: new Date().toISOString(),
+    };
+    const selectedTerm = get().selectedTerm;
+    set({
+      terms: get().terms.map((t) => (t.id === termId ? updated : t)),
+      selectedTerm: selectedTerm?.id === termId ? updated : selectedTerm,
+    });
+    markPendingChanges();
+    // The file name follows the term name
+    if (updated.name !== current.name) deleteTerm(current);
+    syncTerm(updated);
+    return updated;
+  },
+
+  removeTerm: (termId) => {
+    const term = get().getTermById(termId);
+    if (!term) return;
+
+    // Narrower terms move up to the removed term's parent; related links are dropped
+    for (const other of get().terms) {
+      const isChild = other.parent_id === termId;
+      const isRelated = other.related_term_ids?.includes(termId);
+      if (isChild || isRelated) {
+        get().updateTerm(other.id, {
+          ...(isChild && { parent_id: term.parent_id }),
+          ...(isRelated && {
+            related_term_ids: other.related_term_ids?.filter((id) => id !== termId),
+          }),
+        });
+      }
+    }
+
+    const selectedTerm = get().selectedTerm;
+    set({
+      terms: get().terms.filter((t) => t.id !== termId),
+      selectedTerm: selectedTerm?.id === termId ? null : selectedTerm,
+    });
+    markPendingChanges();
+    deleteTerm(term);
+  },
+
+  importTerms: (incoming, workspaceId) => {
+    const before = new Map(get().terms.map((t) => [t.id, t]));
+    const { terms, created, updated } = mergeGlossaryTerms(get().terms, incoming, workspaceId);
+    get().setTerms(terms);
+    markPendingChanges();
+    for (const term of terms.filter((t) => before.get(t.id) !== t)) {
+      const previous = before.get(term.id);
+      if (previous && previous.name !== term.name) deleteTerm(previous);
+      syncTerm(term);
+    }
+    return { created, updated };
+  },
+
+  getTermById: (id) => get().terms.find((t) => t.id === id),
+
+  getChildTerms: (parentId) => get().terms.filter((t) => t.parent_id === parentId),
+
+  reset: () => set(initialState),
+}));
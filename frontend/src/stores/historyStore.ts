@@ -0,0 +1,203 @@
+/**
+ * History Store
+ * Undo/redo stack for model mutations using Zustand
+ *
+ * The store only keeps snapshots of the model slices - it has no knowledge of
+ * modelStore itself. modelStore records a snapshot before each mutation and
+ * applies the snapshots handed back by takeUndo/takeRedo.
+ *
+ * History is only kept in offline mode. In online mode modelStore records
+ * nothing and undo/redo are no-ops, because the remote actions have already
+ * been written to the API and a local snapshot cannot take them back.
+ */
+
+import { create } from 'zustand';
+import type { Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+import type { Domain } from '@/types/domain';
+import type { DataProduct } from '@/types/odps';
+import type { ComputeAsset } from '@/types/cads';
+import type { BPMNProcess } from '@/types/bpmn';
+import type { DMNDecision } from '@/types/dmn';
+import type { MetricView } from '@/types/metricView';
+import type { System } from '@/types/system';
+
+/**
+ * The undoable part of the model state.
+ * Mutations are immutable, so snapshots share structure and are cheap to keep.
+ */
+export interface ModelSnapshot {
+  tables: Table[];
+  relationships: Relationship[];
+  domains: Domain[];
+  systems: System[];
+  products: DataProduct[];
+  computeAssets: ComputeAsset[];
+  metricViews: MetricView[];
+  bpmnProcesses: BPMNProcess[];
+  dmnDecisions: DMNDecision[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string; // Human readable step name (e.g., 'Delete table "orders"')
+  timestamp: number;
+  snapshot: ModelSnapshot; // Model state before the step (past) or after it (future)
+  coalesceKey?: string; // See RecordOptions
+}
+
+export interface RecordOptions {
+  // Key of the edited item (e.g., 'column:<id>'): merge into the previous entry when it has
+  // the same key and was recorded recently. Used for edits that fire on every keystroke
+  // (e.g., renaming a column), which change the item's name in the label as they go.
+  coalesce?: string;
+}
+
+interface ActiveTransaction {
+  label: string;
+  snapshot: ModelSnapshot;
+  depth: number;
+  hasChanges: boolean;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  transaction: ActiveTransaction | null;
+  // Incremented on every undo/redo so views can resync derived state (e.g., canvas positions)
+  revision: number;
+
+  // Actions
+  record: (label: string, snapshot: ModelSnapshot, options?: RecordOptions) => void;
+  beginTransaction: (label: string, snapshot: ModelSnapshot) => void;
+  endTransaction: () => void;
+  takeUndo: (current: ModelSnapshot) => HistoryEntry | null;
+  takeRedo: (current: ModelSnapshot) => HistoryEntry | null;
+  clear: () => void;
+
+  // Selectors
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+export const COALESCE_WINDOW_MS = 1000;
+
+const createEntry = (
+  label: string,
+  snapshot: ModelSnapshot,
+  coalesceKey?: string
+): HistoryEntry => ({
+  id: Math.random().toString(36).substring(2, 10),
+  label,
+  timestamp: Date.now(),
+  snapshot,
+  ...(coalesceKey && { coalesceKey }),
+});
+
+const pushEntry = (past: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] => {
+  const next = [...past, entry];
+  return next.length > MAX_HISTORY_ENTRIES ? next.slice(next.length - MAX_HISTORY_ENTRIES) : next;
+};
+
+const initialState = {
+  past: [] as HistoryEntry[],
+  future: [] as HistoryEntry[],
+  transaction: null as ActiveTransaction | null,
+  revision: 0,
+};
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  ...initialState,
+
+  record: (label, snapshot, options) => {
+    const { transaction, past } = get();
+
+    // Inside a transaction the snapshot taken at beginTransaction covers every step
+    if (transaction) {
+      if (!transaction.hasChanges) {
+        set({ transaction: { ...transaction, hasChanges: true } });
+      }
+      return;
+    }
+
+    const last = past[past.length - 1];
+    if (
+      options?.coalesce &&
+      last &&
+      last.coalesceKey === options.coalesce &&
+      Date.now() - last.timestamp < COALESCE_WINDOW_MS
+    ) {
+      // Keep the older snapshot and label so one undo reverts the whole burst
+      set({
+        past: [...past.slice(0, -1), { ...last, timestamp: Date.now() }],
+        future: [],
+      });
+      return;
+    }
+
+    set({ past: pushEntry(past, createEntry(label, snapshot, options?.coalesce)), future: [] });
+  },
+
+  beginTransaction: (label, snapshot) => {
+    const { transaction } = get();
+    if (transaction) {
+      // Nested transactions are folded into the outermost one
+      set({ transaction: { ...transaction, depth: transaction.depth + 1 } });
+      return;
+    }
+    set({ transaction: { label, snapshot, depth: 1, hasChanges: false } });
+  },
+
+  endTransaction: () => {
+    const { transaction, past } = get();
+    if (!transaction) return;
+
+    if (transaction.depth > 1) {
+      set({ transaction: { ...transaction, depth: transaction.depth - 1 } });
+      return;
+    }
+
+    if (!transaction.hasChanges) {
+      set({ transaction: null });
+      return;
+    }
+
+    set({
+      transaction: null,
+      past: pushEntry(past, createEntry(transaction.label, transaction.snapshot)),
+      future: [],
+    });
+  },
+
+  takeUndo: (current) => {
+    const { past, future, transaction, revision } = get();
+    if (transaction || past.length === 0) return null;
+
+    const entry = past[past.length - 1]!;
+    set({
+      past: past.slice(0, -1),
+      future: [{ ...entry, snapshot: current }, ...future],
+      revision: revision + 1,
+    });
+    return entry;
+  },
+
+  takeRedo: (current) => {
+    const { past, future, transaction, revision } = get();
+    if (transaction || future.length === 0) return null;
+
+    const entry = future[0]!;
+    set({
+      past: pushEntry(past, { ...entry, snapshot: current }),
+      future: future.slice(1),
+      revision: revision + 1,
+    });
+    return entry;
+  },
+
+  clear: () => set({ past: [], future: [], transaction: null }),
+
+  canUndo: () => get().past.length > 0 && !get().transaction,
+  canRedo: () => get().future.length > 0 && !get().transaction,
+}));
@@ -6,9 +6,11 @@
 import { create } from 'zustand';
 import { tableService } from '@/services/api/tableService';
 import { relationshipService } from '@/services/api/relationshipService';
-import { sdkModeDetector } from '@/services/sdk/sdkMode';
+import { sdkModeDetector, useSDKModeStore } from '@/services/sdk/sdkMode';
 import { useWorkspaceStore } from '@/stores/workspaceStore';
 import { useDomainStore } from '@/stores/domainStore';
+import { useHistoryStore, type ModelSnapshot, type RecordOptions } from '@/stores/historyStore';
+import { getEffectiveDataLevel } from '@/utils/dataLevel';
 import type { Table, Column } from '@/types/table';
 import type { Relationship } from '@/types/relationship';
 import type { Domain } from '@/types/domain';
@@ -28,12 +30,17 @@ export type ViewMode =
   | 'products'
   | 'decisions'
   | 'knowledge'
+  | 'glossary'
+  | 'lineage'
+  | 'sensitivity'
   | 'sketch';
 // Valid selectable data levels for tables
 export type DataLevel = 'operational' | 'bronze' | 'silver' | 'gold';
 // Display-only level when dm_level tag is not set
 export type DataLevelDisplay = DataLevel | 'unknown';
 
+export { getEffectiveDataLevel };
+
 interface ModelState {
   tables: Table[];
   relationships: Relationship[];
@@ -114,6 +121,11 @@ interface ModelState {
   setLoading: (isLoading: boolean) => void;
   setError: (error: string | null) => void;
 
+  // Undo/redo (see historyStore) - offline mode only
+  transaction: <T>(label: string, fn: () => T) => T; // Groups all mutations in fn into one undo step
+  undo: () => void;
+  redo: () => void;
+
   // Multi-editor actions
   openTableEditor: (tableId: string) => void; // Opens editor or focuses if already open
   closeTableEditor: (tableId: string) => void; // Closes specific editor
@@ -146,29 +158,36 @@ interface ModelState {
   getFilteredTables: () => Table[]; // Filter by currentView and selectedDataLevel
 }
 
-// Helper function to extract data_level from dm_level tag
-const getDataLevelFromTags = (tags?: string[]): DataLevel | undefined => {
-  if (!tags || !Array.isArray(tags)) return undefined;
+// Lookup structures for view filtering, built once per `tables` array
+interface TableFilterIndex {
+  byDomain: Map<string, Table[]>; // Tables owned by or visible in each domain, in store order
+  levels: Map<string, DataLevel | undefined>; // Effective data level per table ID
+}
 
-  for (const tag of tags) {
-    if (typeof tag === 'string' && tag.toLowerCase().startsWith('dm_level:')) {
-      const levelValue = tag.substring('dm_level:'.length).toLowerCase();
-      if (['operational', 'bronze', 'silver', 'gold'].includes(levelValue)) {
-        return levelValue as DataLevel;
-      }
+const tableFilterIndexes = new WeakMap<Table[], TableFilterIndex>();
+
+const getTableFilterIndex = (tables: Table[]): TableFilterIndex => {
+  const cached = tableFilterIndexes.get(tables);
+  if (cached) return cached;
+
+  const byDomain = new Map<string, Table[]>();
+  const levels = new Map<string, DataLevel | undefined>();
+  const addToDomain = (domainId: string, table: Table) => {
+    const list = byDomain.get(domainId);
+    if (!list) byDomain.set(domainId, [table]);
+    else if (list[list.length - 1] !== table) list.push(table);
+  };
+  for (const table of tables) {
+    addToDomain(table.primary_domain_id, table);
+    for (const domainId of table.visible_domains ?? []) {
+      addToDomain(domainId, table);
     }
+    levels.set(table.id, getEffectiveDataLevel(table));
   }
-  return undefined;
-};
 
-// Helper function to get effective data level (from field or tags)
-const getEffectiveDataLevel = (table: Table): DataLevel | undefined => {
-  // First check the data_level field
-  if (table.data_level) {
-    return table.data_level;
-  }
-  // Fall back to extracting from dm_level tag
-  return getDataLevelFromTags(table.tags);
+  const index = { byDomain, levels };
+  tableFilterIndexes.set(tables, index);
+  return index;
 };
 
 // Helper function to filter tables based on view mode and data level
@@ -176,55 +195,29 @@ const filterTablesByView = (
   tables: Table[],
   currentView: ViewMode,
   selectedDataLevel: DataLevel | null,
-  selectedDomainId: string | null
+  selectedDomainId: string | null,
+  products: DataProduct[]
 ): Table[] => {
-  let filtered = tables;
+  const index = getTableFilterIndex(tables);
 
   // Filter by selected domain visibility
-  if (selectedDomainId) {
-    filtered = filtered.filter(
-      (t) =>
-        t.primary_domain_id === selectedDomainId || t.visible_domains.includes(selectedDomainId)
-    );
-  }
+  let filtered = selectedDomainId ? (index.byDomain.get(selectedDomainId) ?? []) : tables;
 
   // Filter by data level (for operational/analytical view)
   if (currentView === 'operational' || currentView === 'analytical') {
-    // Debug: log table data levels
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[ModelStore] Filtering for ${currentView} view:`, {
-        totalTables: filtered.length,
-        selectedDataLevel,
-        tableLevels: filtered.slice(0, 5).map((t) => ({
-          name: t.name,
-          data_level: t.data_level,
-          tags: t.tags,
-          effectiveLevel: getEffectiveDataLevel(t),
-        })),
-      });
-    }
-
+    let levelMatches: (level: DataLevel | undefined) => boolean;
     if (selectedDataLevel) {
       // Filter by specific data level - check both field and tags
-      filtered = filtered.filter((t) => getEffectiveDataLevel(t) === selectedDataLevel);
+      levelMatches = (level) => level === selectedDataLevel;
     } else if (currentView === 'operational') {
       // Operational view: show ONLY tables with explicit 'operational' level
       // Tables without a level should NOT appear (they need to be assigned a level)
-      filtered = filtered.filter((t) => {
-        const level = getEffectiveDataLevel(t);
-        return level === 'operational';
-      });
+      levelMatches = (level) => level === 'operational';
     } else {
       // Analytical view: show bronze/silver/gold if no level selected
-      filtered = filtered.filter((t) => {
-        const level = getEffectiveDataLevel(t);
-        return level === 'bronze' || level === 'silver' || level === 'gold';
-      });
-    }
-
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[ModelStore] After ${currentView} filter: ${filtered.length} tables`);
+      levelMatches = (level) => level === 'bronze' || level === 'silver' || level === 'gold';
     }
+    filtered = filtered.filter((t) => levelMatches(index.levels.get(t.id)));
   }
 
   // Filter by view mode
@@ -233,14 +226,49 @@ const filterTablesByView = (
   // Operational/Analytical: filtered by data level above
   // Products view: show tables linked to products
   if (currentView === 'products') {
-    const state = useModelStore.getState();
-    const productTableIds = new Set(state.products.flatMap((p) => p.linked_tables));
+    const productTableIds = new Set(products.flatMap((p) => p.linked_tables));
     filtered = filtered.filter((t) => productTableIds.has(t.id));
   }
 
   return filtered;
 };
 
+// Last getFilteredTables result; the canvas asks again on every render, so unchanged
+// inputs return the same array
+let lastFilteredTables: {
+  inputs: [Table[], ViewMode, DataLevel | null, string | null, DataProduct[]];
+  result: Table[];
+} | null = null;
+
+// Capture the undoable slices of the model state
+const takeSnapshot = (state: ModelState): ModelSnapshot => ({
+  tables: state.tables,
+  relationships: state.relationships,
+  domains: state.domains,
+  systems: state.systems,
+  products: state.products,
+  computeAssets: state.computeAssets,
+  metricViews: state.metricViews,
+  bpmnProcesses: state.bpmnProcesses,
+  dmnDecisions: state.dmnDecisions,
+});
+
+// Undo history is offline-only: in online mode the remote actions write to the
+// API directly and restoring a local snapshot would not undo them on the server
+const historyEnabled = () => useSDKModeStore.getState().mode !== 'online';
+
+// Record the current state as an undo step before a mutation is applied
+const recordHistory = (label: string, options?: RecordOptions) => {
+  if (!historyEnabled()) return;
+  useHistoryStore.getState().record(label, takeSnapshot(useModelStore.getState()), options);
+};
+
+// Resolve an entity name for history labels
+const nameOf = (items: Array<{ id: string; name?: string }>, id: string): string => {
+  const name = items.find((item) => item.id === id)?.name;
+  return name ? ` "${name}"` : '';
+};
+
 export const useModelStore = create<ModelState>((set, get) => ({
   tables: [],
   relationships: [],
@@ -278,18 +306,23 @@ export const useModelStore = create<ModelState>((set, get) => ({
   setBPMNProcesses: (processes) => set({ bpmnProcesses: processes }),
   setDMNDecisions: (decisions) => set({ dmnDecisions: decisions }),
   addDomain: (domain) => {
+    recordHistory(`Add domain "${domain.name}"`);
     set((state) => ({
       domains: [...state.domains, domain],
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   updateDomain: (domainId, updates) => {
+    recordHistory(`Update domain${nameOf(get().domains, domainId)}`, {
+      coalesce: `domain:${domainId}`,
+    });
     set((state) => ({
       domains: state.domains.map((d) => (d.id === domainId ? { ...d, ...updates } : d)),
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   removeDomain: (domainId) => {
+    recordHistory(`Delete domain${nameOf(get().domains, domainId)}`);
     set((state) => ({
       domains: state.domains.filter((d) => d.id !== domainId),
       selectedDomainId: state.selectedDomainId === domainId ? null : state.selectedDomainId,
@@ -297,12 +330,16 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   addSystem: (system) => {
+    recordHistory(`Add system "${system.name}"`);
     set((state) => ({
       systems: [...state.systems, system],
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   updateSystem: (systemId, updates) => {
+    recordHistory(`Update system${nameOf(get().systems, systemId)}`, {
+      coalesce: `system:${systemId}`,
+    });
     set((state) => {
       const applyUpdate = (s: System) => (s.id === systemId ? { ...s, ...updates } : s);
       return {
@@ -314,6 +351,7 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   removeSystem: (systemId) => {
+    recordHistory(`Delete system${nameOf(get().systems, systemId)}`);
     set((state) => ({
       systems: state.systems.filter((s) => s.id !== systemId),
       selectedSystemId: state.selectedSystemId === systemId ? null : state.selectedSystemId,
@@ -321,6 +359,7 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   addTable: (table) => {
+    recordHistory(`Add table "${table.name}"`);
     set((state) => ({
       tables: [...state.tables, table],
     }));
@@ -328,6 +367,7 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   updateTable: (tableId: string, updates: Partial<Table>) => {
+    recordHistory(`Update table${nameOf(get().tables, tableId)}`, { coalesce: `table:${tableId}` });
     set((state) => {
       const applyTableUpdate = (t: Table): Table => {
         if (t.id === tableId) {
@@ -360,7 +400,11 @@ export const useModelStore = create<ModelState>((set, get) => ({
     });
     useWorkspaceStore.getState().setPendingChanges(true);
   },
-  updateColumn: (tableId: string, columnId: string, updates: Partial<Column>) =>
+  updateColumn: (tableId: string, columnId: string, updates: Partial<Column>) => {
+    const table = get().tables.find((t) => t.id === tableId);
+    recordHistory(`Update column${nameOf(table?.columns || [], columnId)}`, {
+      coalesce: `column:${columnId}`,
+    });
     set((state) => ({
       tables: state.tables.map((t) =>
         t.id === tableId
@@ -370,8 +414,11 @@ export const useModelStore = create<ModelState>((set, get) => ({
             }
           : t
       ),
-    })),
+    }));
+  },
   removeTable: (tableId: string) => {
+    recordHistory(`Delete table${nameOf(get().tables, tableId)}`);
+
     // Count orphaned relationships before removal for logging
     const orphanedCount = get().relationships.filter(
       (r) =>
@@ -404,6 +451,7 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   addRelationship: (relationship) => {
+    recordHistory('Add relationship');
     set((state) => ({
       relationships: [...state.relationships, relationship],
     }));
@@ -411,6 +459,8 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   updateRelationship: (relationshipId, updates) => {
+    recordHistory('Update relationship', { coalesce: `relationship:${relationshipId}` });
+
     console.log('[ModelStore] updateRelationship (local):', {
       relationshipId,
       updates,
@@ -442,6 +492,7 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   removeRelationship: (relationshipId) => {
+    recordHistory('Delete relationship');
     set((state) => ({
       relationships: state.relationships.filter((r) => r.id !== relationshipId),
       selectedRelationshipId:
@@ -451,30 +502,39 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   addProduct: (product) => {
+    recordHistory(`Add data product "${product.name}"`);
     set((state) => ({
       products: [...state.products, product],
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   updateProduct: (productId, updates) => {
+    recordHistory(`Update data product${nameOf(get().products, productId)}`, {
+      coalesce: `product:${productId}`,
+    });
     set((state) => ({
       products: state.products.map((p) => (p.id === productId ? { ...p, ...updates } : p)),
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   removeProduct: (productId) => {
+    recordHistory(`Delete data product${nameOf(get().products, productId)}`);
     set((state) => ({
       products: state.products.filter((p) => p.id !== productId),
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   addComputeAsset: (asset) => {
+    recordHistory(`Add compute asset "${asset.name}"`);
     set((state) => ({
       computeAssets: [...state.computeAssets, asset],
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   updateComputeAsset: (assetId, updates) => {
+    recordHistory(`Update compute asset${nameOf(get().computeAssets, assetId)}`, {
+      coalesce: `compute-asset:${assetId}`,
+    });
     set((state) => {
       const applyUpdate = (a: ComputeAsset) => (a.id === assetId ? { ...a, ...updates } : a);
       return {
@@ -488,36 +548,46 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   removeComputeAsset: (assetId) => {
+    recordHistory(`Delete compute asset${nameOf(get().computeAssets, assetId)}`);
     set((state) => ({
       computeAssets: state.computeAssets.filter((a) => a.id !== assetId),
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   addMetricView: (view) => {
+    recordHistory(`Add metric view "${view.name}"`);
     set((state) => ({
       metricViews: [...state.metricViews, view],
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   updateMetricView: (viewId, updates) => {
+    recordHistory(`Update metric view${nameOf(get().metricViews, viewId)}`, {
+      coalesce: `metric-view:${viewId}`,
+    });
     set((state) => ({
       metricViews: state.metricViews.map((v) => (v.id === viewId ? { ...v, ...updates } : v)),
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   removeMetricView: (viewId) => {
+    recordHistory(`Delete metric view${nameOf(get().metricViews, viewId)}`);
     set((state) => ({
       metricViews: state.metricViews.filter((v) => v.id !== viewId),
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   addBPMNProcess: (process) => {
+    recordHistory(`Add BPMN process "${process.name}"`);
     set((state) => ({
       bpmnProcesses: [...state.bpmnProcesses, process],
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   updateBPMNProcess: (processId, updates) => {
+    recordHistory(`Update BPMN process${nameOf(get().bpmnProcesses, processId)}`, {
+      coalesce: `bpmn-process:${processId}`,
+    });
     set((state) => ({
       bpmnProcesses: state.bpmnProcesses.map((p) =>
         p.id === processId ? { ...p, ...updates } : p
@@ -526,24 +596,30 @@ export const useModelStore = create<ModelState>((set, get) => ({
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   removeBPMNProcess: (processId) => {
+    recordHistory(`Delete BPMN process${nameOf(get().bpmnProcesses, processId)}`);
     set((state) => ({
       bpmnProcesses: state.bpmnProcesses.filter((p) => p.id !== processId),
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   addDMNDecision: (decision) => {
+    recordHistory(`Add DMN decision "${decision.name}"`);
     set((state) => ({
       dmnDecisions: [...state.dmnDecisions, decision],
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   updateDMNDecision: (decisionId, updates) => {
+    recordHistory(`Update DMN decision${nameOf(get().dmnDecisions, decisionId)}`, {
+      coalesce: `dmn-decision:${decisionId}`,
+    });
     set((state) => ({
       dmnDecisions: state.dmnDecisions.map((d) => (d.id === decisionId ? { ...d, ...updates } : d)),
     }));
     useWorkspaceStore.getState().setPendingChanges(true);
   },
   removeDMNDecision: (decisionId) => {
+    recordHistory(`Delete DMN decision${nameOf(get().dmnDecisions, decisionId)}`);
     set((state) => ({
       dmnDecisions: state.dmnDecisions.filter((d) => d.id !== decisionId),
     }));
@@ -558,6 +634,34 @@ export const useModelStore = create<ModelState>((set, get) => ({
   setLoading: (isLoading) => set({ isLoading }),
   setError: (error) => set({ error }),
 
+  // Undo/redo
+  transaction: (label, fn) => {
+    if (!historyEnabled()) return fn();
+    const history = useHistoryStore.getState();
+    history.beginTransaction(label, takeSnapshot(get()));
+    try {
+      return fn();
+    } finally {
+      useHistoryStore.getState().endTransaction();
+    }
+  },
+
+  undo: () => {
+    if (!historyEnabled()) return;
+    const entry = useHistoryStore.getState().takeUndo(takeSnapshot(get()));
+    if (!entry) return;
+    set({ ...entry.snapshot });
+    useWorkspaceStore.getState().setPendingChanges(true);
+  },
+
+  redo: () => {
+    if (!historyEnabled()) return;
+    const entry = useHistoryStore.getState().takeRedo(takeSnapshot(get()));
+    if (!entry) return;
+    set({ ...entry.snapshot });
+    useWorkspaceStore.getState().setPendingChanges(true);
+  },
+
   // Multi-editor actions
   openTableEditor: (tableId) => {
     const { openTableEditorIds } = get();
@@ -913,11 +1017,18 @@ export const useModelStore = create<ModelState>((set, get) => ({
   // Filtering helpers
   getFilteredTables: () => {
     const state = get();
-    return filterTablesByView(
+    const inputs: [Table[], ViewMode, DataLevel | null, string | null, DataProduct[]] = [
       state.tables,
       state.currentView,
       state.selectedDataLevel,
-      state.selectedDomainId
-    );
+      state.selectedDomainId,
+      state.products,
+    ];
+    if (lastFilteredTables?.inputs.every((value, i) => value === inputs[i])) {
+      return lastFilteredTables.result;
+    }
+    const result = filterTablesByView(...inputs);
+    lastFilteredTables = { inputs, result };
+    return result;
   },
 }));
@@ -0,0 +1,142 @@
+/**
+ * Search Store
+ * Manages the global search dialog and jump-to navigation using Zustand
+ *
+ * Opening a result switches domain and view in modelStore, then leaves a focus request
+ * that the target view (DomainCanvas, DataProductView) consumes once it has rendered.
+ */
+
+import { create } from 'zustand';
+import { useModelStore, getEffectiveDataLevel, type ViewMode } from '@/stores/modelStore';
+import { useDecisionStore } from '@/stores/decisionStore';
+import { useKnowledgeStore } from '@/stores/knowledgeStore';
+import { useSketchStore } from '@/stores/sketchStore';
+import type { SearchDocument, SearchResultKind } from '@/utils/workspaceSearch';
+
+export interface FocusRequest {
+  nodeId: string; // Canvas node (or product) to reveal
+  openEditor?: 'table' | 'bpmn' | 'dmn';
+  editorResourceId?: string; // BPMN/DMN ID when it differs from nodeId
+}
+
+interface SearchState {
+  isOpen: boolean;
+  query: string;
+  kindFilter: SearchResultKind[];
+  domainFilter: string | null;
+  focusRequest: FocusRequest | null;
+
+  // Actions
+  openSearch: () => void;
+  closeSearch: () => void;
+  toggleSearch: () => void;
+  setQuery: (query: string) => void;
+  toggleKindFilter: (kind: SearchResultKind) => void;
+  setDomainFilter: (domainId: string | null) => void;
+  openResult: (document: SearchDocument) => void;
+  clearFocusRequest: () => void;
+}
+
+/**
+ * Pick the canvas view that shows a table, following the data level filters in modelStore
+ */
+const getTableView = (tableId: string): ViewMode => {
+  const table = useModelStore.getState().tables.find((t) => t.id === tableId);
+  const level = table ? getEffectiveDataLevel(table) : undefined;
+  if (level === 'operational') return 'operational';
+  if (level === 'bronze' || level === 'silver' || level === 'gold') return 'analytical';
+  // The process view shows every table regardless of level
+  return 'process';
+};
+
+export const useSearchStore = create<SearchState>((set) => ({
+  isOpen: false,
+  query: '',
+  kindFilter: [],
+  domainFilter: null,
+  focusRequest: null,
+
+  openSearch: () => set({ isOpen: true }),
+  closeSearch: () => set({ isOpen: false }),
+  toggleSearch: () => set((state) => ({ isOpen: !state.isOpen })),
+  setQuery: (query) => set({ query }),
+  toggleKindFilter: (kind) =>
+    set((state) => ({
+      kindFilter: state.kindFilter.includes(kind)
+        ? state.kindFilter.filter((k) => k !== kind)
+        : [...state.kindFilter, kind],
+    })),
+  setDomainFilter: (domainId) => set({ domainFilter: domainId }),
+
+  openResult: (document) => {
+    const model = useModelStore.getState();
+    const navigate = (view: ViewMode, focusRequest: FocusRequest | null = null) => {
+      if (document.domainId && document.domainId !== model.selectedDomainId) {
+        model.setSelectedDomain(document.domainId);
+      }
+      // Drill-down filters could hide the target node
+      model.setSelectedSystem(null);
+      model.setSelectedDataLevel(null);
+      model.setCurrentView(view);
+      set({ isOpen: false, focusRequest });
+    };
+
+    switch (document.kind) {
+      case 'table':
+        navigate(getTableView(document.id), { nodeId: document.id });
+        break;
+      case 'column':
+        navigate(getTableView(document.parentId!), {
+          nodeId: document.parentId!,
+          openEditor: 'table',
+        });
+        break;
+      case 'system':
+        navigate('systems', { nodeId: document.id });
+        break;
+      case 'compute-asset':
+        navigate('process', { nodeId: document.id });
+        break;
+      case 'metric-view':
+        navigate('analytical', { nodeId: document.id });
+        break;
+      case 'product':
+        navigate('products', { nodeId: document.id });
+        break;
+      case 'bpmn':
+      case 'dmn': {
+        // Processes and decisions are opened from the compute asset that links them
+        const linkField = document.kind === 'bpmn' ? 'bpmn_link' : 'dmn_link';
+        const asset = model.computeAssets.find((a) => a[linkField] === document.id);
+        navigate('process', {
+          nodeId: asset?.id ?? document.id,
+          openEditor: document.kind,
+          editorResourceId: document.id,
+        });
+        break;
+      }
+      case 'decision':
+        useDecisionStore
+          .getState()
+          .setSelectedDecision(useDecisionStore.getState().getDecisionById(document.id) ?? null);
+        navigate('decisions');
+        break;
+      case 'knowledge':
+        useKnowledgeStore
+          .getState()
+          .setSelectedArticle(useKnowledgeStore.getState().getArticleById(document.id) ?? null);
+        navigate('knowledge');
+        break;
+      case 'sketch':
+        useSketchStore
+          .getState()
+          .setSelectedSketch(
+            useSketchStore.getState().sketches.find((s) => s.id === document.id) ?? null
+          );
+        navigate('sketch');
+        break;
+    }
+  },
+
+  clearFocusRequest: () => set({ focusRequest: null }),
+}));
@@ -21,6 +21,7 @@ export type ResourceType =
   | 'product'
   | 'compute_asset'
   | 'knowledge_article'
+  | 'glossary_term'
   | 'decision_record'
   | 'bpmn_process'
   | 'dmn_decision'
@@ -37,6 +38,10 @@ export interface ValidationIssue {
   field?: string;
   message: string;
   details?: string;
+  /** Suggested compliant value for the field, applied by the "fix" action */
+  suggestion?: string;
+  /** Column the issue is about, for table issues on a column field */
+  columnId?: string;
   createdAt: string;
   /** If true, this issue was detected during the most recent validation */
   isActive: boolean;
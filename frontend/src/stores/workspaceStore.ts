@@ -550,6 +550,8 @@ export const useWorkspaceStore = create<WorkspaceState>()(
                     const { decisions } = decisionStoreModule.useDecisionStore.getState();
                     const sketchStoreModule = await import('@/stores/sketchStore');
                     const { sketches } = sketchStoreModule.useSketchStore.getState();
+                    const glossaryStoreModule = await import('@/stores/glossaryStore');
+                    const { terms } = glossaryStoreModule.useGlossaryStore.getState();
 
                     // Save workspace in V2 format (flat files)
                     // Pass failedOdcsFiles as protected files to prevent deletion of ODCS files that failed to parse
@@ -568,6 +570,7 @@ export const useWorkspaceStore = create<WorkspaceState>()(
                       articles,
                       decisions,
                       sketches,
+                      terms,
                       failedOdcsFiles
                     );
 
@@ -651,6 +654,8 @@ export const useWorkspaceStore = create<WorkspaceState>()(
                         const { articles } = knowledgeStoreModule.useKnowledgeStore.getState();
                         const { decisions } = decisionStoreModule.useDecisionStore.getState();
                         const { sketches } = sketchStoreModule.useSketchStore.getState();
+                        const glossaryStoreModule = await import('@/stores/glossaryStore');
+                        const { terms } = glossaryStoreModule.useGlossaryStore.getState();
 
                         // Generate V2 files
                         const files = await WorkspaceV2Saver.generateFiles(
@@ -666,7 +671,8 @@ export const useWorkspaceStore = create<WorkspaceState>()(
                           dmnDecisions,
                           articles,
                           decisions,
-                          sketches
+                          sketches,
+                          terms
                         );
 
                         // Save using File System Access API
@@ -814,6 +820,8 @@ export const useWorkspaceStore = create<WorkspaceState>()(
               const { decisions } = decisionStoreModule.useDecisionStore.getState();
               const sketchStoreModule = await import('@/stores/sketchStore');
               const { sketches } = sketchStoreModule.useSketchStore.getState();
+              const glossaryStoreModule = await import('@/stores/glossaryStore');
+              const { terms } = glossaryStoreModule.useGlossaryStore.getState();
 
               // Save workspace in V2 format (prompts for directory or falls back to ZIP)
               await localFileService.saveWorkspaceV2(
@@ -830,6 +838,7 @@ export const useWorkspaceStore = create<WorkspaceState>()(
                 articles,
                 decisions,
                 sketches,
+                terms,
                 manualSaveFailedFiles
               );
 
@@ -1070,6 +1079,10 @@ export const useWorkspaceStore = create<WorkspaceState>()(
               modelStore.setSelectedDomain((workspace as any).domains[0].id);
             }
 
+            // Undo steps refer to the model before the reload (e.g. before a git checkout)
+            const { useHistoryStore } = await import('@/stores/historyStore');
+            useHistoryStore.getState().clear();
+
             // Update workspace in store with fresh data
             set((state) => ({
               workspaces: state.workspaces.map((w) =>
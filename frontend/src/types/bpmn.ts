@@ -2,6 +2,8 @@
  * Type definitions for BPMN Process entity
  */
 
+import type { VisualMetadata } from './relationship';
+
 export interface BPMNProcess {
   id: string; // UUID
   domain_id: string; // UUID
@@ -19,6 +21,7 @@ export interface TransformationLink {
   target_table_id: string; // UUID
   metadata?: Record<string, unknown>; // Transformation metadata
   bpmn_element_id?: string; // Reference to BPMN element (task, gateway, etc.)
+  visual_metadata?: VisualMetadata; // Edge bend points and label position
 }
 
 export interface BPMNElement {
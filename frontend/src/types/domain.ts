@@ -3,6 +3,7 @@
  */
 
 import type { Owner } from './table';
+import type { TransformationLinkV2 } from './workspace';
 
 export interface ViewPositions {
   [viewMode: string]: {
@@ -13,6 +14,42 @@ export interface ViewPositions {
   };
 }
 
+/**
+ * Subject-area frame drawn behind canvas nodes. Nodes whose header lies inside the
+ * frame move with it; a collapsed frame is shown as a single summary node.
+ */
+export interface SubjectAreaFrame {
+  id: string; // UUID
+  title: string;
+  description?: string;
+  color: string; // Hex color, e.g. "#3b82f6"
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  collapsed?: boolean;
+}
+
+/**
+ * Free-text sticky note on the canvas
+ */
+export interface StickyNote {
+  id: string; // UUID
+  text: string;
+  color: string; // Hex color
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ViewAnnotations {
+  [viewMode: string]: {
+    frames?: SubjectAreaFrame[];
+    notes?: StickyNote[];
+  };
+}
+
 export interface SharedResourceReference {
   source_domain_id: string; // UUID of the domain that owns the resource
   resource_type: 'table' | 'system' | 'asset'; // Type of resource being shared
@@ -54,6 +91,10 @@ export interface Domain {
 
   // Canvas positions per view mode
   view_positions?: ViewPositions; // Positions for tables, systems, and assets per view (systems, process, operational, analytical, products)
+  view_annotations?: ViewAnnotations; // Subject-area frames and sticky notes per view
+
+  // Transformation links for the process view (including their edge routes)
+  transformation_links?: TransformationLinkV2[];
 
   // Folder path tracking (for offline mode)
   folder_path?: string; // Path to domain folder (e.g., "/path/to/workspace/domain-name")
@@ -0,0 +1,96 @@
+/**
+ * Type definitions for the business glossary
+ *
+ * Terms are stored one per file (glossary/{workspace}_{term}.glossary.yaml) next to the KB
+ * and ADR files, so every change is versioned with the workspace. Tables and columns link
+ * to terms through an authoritative definition of type "business-glossary".
+ */
+
+/**
+ * Glossary term lifecycle status
+ */
+export enum GlossaryTermStatus {
+  Candidate = 'candidate',
+  Approved = 'approved',
+  Deprecated = 'deprecated',
+}
+
+/**
+ * Business glossary term
+ */
+export interface GlossaryTerm {
+  id: string; // UUID - unique identifier, must be preserved
+  name: string; // Preferred label
+  definition: string; // Business definition (markdown)
+  synonyms: string[]; // Alternative labels
+  stewards: string[]; // Names/emails of the people responsible for the term
+  status: GlossaryTermStatus;
+  parent_id?: string; // Broader term in the hierarchy
+  related_term_ids?: string[]; // UUIDs of related terms
+  version: number; // Incremented on every change
+  workspace_id?: string; // UUID - workspace this term belongs to
+  tags?: string[];
+  notes?: string;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+/**
+ * A term read from an import file, before it is merged into the glossary.
+ * Parent and related terms are given by ID or name.
+ */
+export interface GlossaryTermInput {
+  id?: string;
+  name: string;
+  definition?: string;
+  synonyms?: string[];
+  stewards?: string[];
+  status?: GlossaryTermStatus;
+  parent?: string;
+  related?: string[];
+}
+
+/**
+ * Get display label for term status
+ */
+export function getGlossaryTermStatusLabel(status: GlossaryTermStatus): string {
+  const labels: Record<GlossaryTermStatus, string> = {
+    [GlossaryTermStatus.Candidate]: 'Candidate',
+    [GlossaryTermStatus.Approved]: 'Approved',
+    [GlossaryTermStatus.Deprecated]: 'Deprecated',
+  };
+  return labels[status];
+}
+
+/**
+ * Get color for term status (for UI badges)
+ */
+export function getGlossaryTermStatusColor(status: GlossaryTermStatus): string {
+  const colors: Record<GlossaryTermStatus, string> = {
+    [GlossaryTermStatus.Candidate]: 'yellow',
+    [GlossaryTermStatus.Approved]: 'green',
+    [GlossaryTermStatus.Deprecated]: 'red',
+  };
+  return colors[status];
+}
+
+/**
+ * Create a new candidate term with default values
+ */
+export function createNewGlossaryTerm(
+  name: string,
+  workspaceId?: string
+): Omit<GlossaryTerm, 'id'> {
+  const now = new Date().toISOString();
+  return {
+    name,
+    definition: '',
+    synonyms: [],
+    stewards: [],
+    status: GlossaryTermStatus.Candidate,
+    version: 1,
+    workspace_id: workspaceId,
+    created_at: now,
+    updated_at: now,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Type definitions for the workspace naming policy
+ * Stored as naming-policy.yaml at the workspace root
+ */
+
+import type { DimensionalRole } from './table';
+import type { SystemType } from './system';
+import type { ResourceType } from '@/utils/customProperties';
+import type { DataLevel } from '@/stores/modelStore';
+import type { SQLDialect } from '@/utils/sqlDialects';
+import type { NamingStyle } from '@/utils/modelDerivation';
+
+export type NamingRuleTarget = 'table' | 'column';
+
+export type NamingRuleSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Tables a rule applies to. Every listed condition must match; an empty scope matches
+ * all tables. Column rules apply to the columns of the matching tables.
+ */
+export interface NamingRuleScope {
+  resource_types?: ResourceType[]; // table, view, materialized_view
+  data_levels?: DataLevel[];
+  system_types?: SystemType[]; // Type of the system the table belongs to
+  domains?: string[]; // Domain names or IDs
+  dimensional_roles?: DimensionalRole[];
+}
+
+export interface NamingRule {
+  id: string;
+  description?: string;
+  applies_to: NamingRuleTarget;
+  severity?: NamingRuleSeverity; // Defaults to warning
+  scope?: NamingRuleScope;
+  casing?: Exclude<NamingStyle, 'as-is'>;
+  prefix?: string | string[]; // Name must start with one of these
+  suffix?: string | string[]; // Name must end with one of these
+  pattern?: string; // Regular expression the whole name must match
+  min_length?: number;
+  // A length, a length per dialect, or 'dialect' for the identifier limit of the table's dialect
+  max_length?: number | 'dialect' | Partial<Record<SQLDialect, number>>;
+  reserved_words?: boolean; // Reject reserved words of the table's SQL dialect
+  banned_words?: Record<string, string>; // Banned word → replacement, e.g. cust: customer
+  dialect?: SQLDialect; // Overrides the dialect of the table's system
+}
+
+export interface NamingPolicy {
+  version?: number;
+  rules: NamingRule[];
+}
@@ -16,6 +16,9 @@ export type NewCardinality = 'oneToOne' | 'oneToMany' | 'zeroOrOne' | 'zeroOrMan
 // Combined cardinality type - supports both legacy and new formats
 export type Cardinality = LegacyCardinality | NewCardinality;
 
+// ER diagram notation used to draw relationships and entities on the canvas
+export type ERNotation = 'crows-foot' | 'idef1x' | 'uml' | 'chen' | 'barker';
+
 // Key type for relationship endpoints
 export type RelationshipKeyType = 'PK' | 'FK' | 'IX' | 'compound';
 
@@ -406,16 +409,36 @@ export function sdkCardinalitiesToType(
 }
 
 /**
- * Get display label for SDK cardinality
+ * Get display label for SDK cardinality in an ER notation
+ * - Crow's foot, Barker and UML use multiplicities (`0..1`, `1..*`)
+ * - IDEF1X uses the child-end letters (`Z`, `P`); zero, one or more has no label
+ * - Chen uses (min,max) pairs
  */
-export function getSDKCardinalityLabel(cardinality: SDKCardinality): string {
-  const labels: Record<SDKCardinality, string> = {
+export function getSDKCardinalityLabel(
+  cardinality: SDKCardinality,
+  notation: ERNotation = 'crows-foot'
+): string {
+  const multiplicities: Record<SDKCardinality, string> = {
     [SDKCardinality.ZeroOrOne]: '0..1',
     [SDKCardinality.ExactlyOne]: '1',
     [SDKCardinality.ZeroOrMany]: '0..*',
     [SDKCardinality.OneOrMany]: '1..*',
   };
-  return labels[cardinality];
+  const labels: Partial<Record<ERNotation, Record<SDKCardinality, string>>> = {
+    idef1x: {
+      [SDKCardinality.ZeroOrOne]: 'Z',
+      [SDKCardinality.ExactlyOne]: '1',
+      [SDKCardinality.ZeroOrMany]: '',
+      [SDKCardinality.OneOrMany]: 'P',
+    },
+    chen: {
+      [SDKCardinality.ZeroOrOne]: '(0,1)',
+      [SDKCardinality.ExactlyOne]: '(1,1)',
+      [SDKCardinality.ZeroOrMany]: '(0,N)',
+      [SDKCardinality.OneOrMany]: '(1,N)',
+    },
+  };
+  return (labels[notation] ?? multiplicities)[cardinality];
 }
 
 /**
@@ -122,8 +122,24 @@ export interface Table {
   authoritativeDefinitions?: AuthoritativeDefinition[]; // Links to authoritative definitions
   schemaRelationships?: SchemaRelationship[]; // Schema-level relationships to other tables
   customProperties?: CustomProperty[]; // Custom metadata properties
+
+  // Dimensional modeling (stored as customProperties in ODCS)
+  dimensionalRole?: DimensionalRole; // Role of the table in a star schema
+  grainColumns?: string[]; // Names of the columns that identify one row of a fact (described by dataGranularityDescription)
+  conformedDimension?: boolean; // Dimension shared by facts across the enterprise bus
 }
 
+/**
+ * Role of a table in a dimensional (star) model
+ */
+export type DimensionalRole = 'fact' | 'dimension' | 'bridge';
+
+/**
+ * Slowly changing dimension type of a dimension attribute (Kimball):
+ * 0 retain original, 1 overwrite, 2 add row, 3 add column, 4 history table, 6 hybrid
+ */
+export type SCDType = 0 | 1 | 2 | 3 | 4 | 6;
+
 export interface TableIndex {
   id: string; // UUID
   name: string; // Index name
@@ -202,6 +218,9 @@ export interface Column {
   tags?: Array<{ key?: string; value: string }>; // Column-level tags
   customProperties?: CustomProperty[]; // Custom metadata properties (ODCS v3.1.0 array format)
   relationships?: PropertyRelationship[]; // Column-level relationships (ODCS v3.1.0)
+
+  // Dimensional modeling (stored as a customProperty in ODCS)
+  scdType?: SCDType; // How changes to this dimension attribute are tracked
 }
 
 /**
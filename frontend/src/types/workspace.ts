@@ -3,7 +3,7 @@
  * Updated for SDK 2.3.0+
  */
 
-import type { Domain, ViewPositions, SharedResourceReference } from './domain';
+import type { Domain, ViewPositions, ViewAnnotations, SharedResourceReference } from './domain';
 import type { System, SystemType } from './system';
 import type { Owner } from './table';
 import type {
@@ -13,7 +13,9 @@ import type {
   ContactDetails,
   SLAProperty,
   FlowDirection,
+  ERNotation,
 } from './relationship';
+import type { NamingPolicy } from './namingPolicy';
 
 export interface Workspace {
   id: string; // UUID
@@ -23,6 +25,17 @@ export interface Workspace {
   created_at: string; // ISO timestamp
   last_modified_at: string; // ISO timestamp
   domains?: Domain[];
+  notation?: NotationSettings; // ER diagram notation for the canvas
+  naming_policy?: NamingPolicy; // From naming-policy.yaml
+}
+
+/**
+ * ER diagram notation for the workspace, optionally overridden per view mode.
+ * Only changes how relationships and tables are drawn, never the model itself.
+ */
+export interface NotationSettings {
+  default?: ERNotation;
+  views?: { [viewMode: string]: ERNotation };
 }
 
 /**
@@ -57,6 +70,7 @@ export interface WorkspaceV2 {
   domains?: DomainV2[]; // Domain references with nested systems
   assets?: AssetReference[]; // Asset references belonging to workspace
   relationships?: RelationshipV2[]; // Connections between assets
+  notation?: NotationSettings; // ER diagram notation for the canvas
 }
 
 /**
@@ -116,6 +130,7 @@ export interface DomainV2 {
   owner?: Owner; // Domain owner (SDK 2.3.0+)
   systems?: SystemV2[]; // Nested system references
   view_positions?: ViewPositions; // Canvas positions for nodes per view mode
+  view_annotations?: ViewAnnotations; // Subject-area frames and sticky notes per view mode
 
   // SDK 2.3.0+ fields for resource management
   shared_resources?: SharedResourceReference[]; // Cross-domain resource sharing
@@ -138,6 +153,7 @@ export interface TransformationLinkV2 {
   bpmn_element_id?: string; // Reference to specific BPMN element
   url?: string; // Optional URL reference
   description?: string; // Optional description
+  visual_metadata?: VisualMetadata; // Edge bend points and label position
 }
 
 /**
@@ -0,0 +1,481 @@
+/**
+ * Automatic diagram layout for the domain canvas
+ *
+ * Pure functions that compute node positions - callers decide how to persist them
+ * (DomainCanvas stores them in the domain's per-view `view_positions`).
+ */
+
+export type LayoutStrategy = 'hierarchical' | 'grid' | 'force' | 'cluster' | 'star';
+
+export interface LayoutNode {
+  id: string;
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+  group?: string; // Cluster key (e.g., system ID) for the 'cluster' strategy
+  role?: 'fact' | 'dimension' | 'bridge'; // Dimensional role for the 'star' strategy
+  label?: string; // Used for stable ordering
+}
+
+export interface LayoutEdge {
+  source: string; // Referenced (parent) node for FK relationships
+  target: string;
+}
+
+export interface LayoutOptions {
+  strategy: LayoutStrategy;
+  spacingX?: number; // Horizontal gap between nodes
+  spacingY?: number; // Vertical gap between nodes / ranks
+  origin?: { x: number; y: number }; // Top-left corner of the laid-out block
+}
+
+export type LayoutPositions = Record<string, { x: number; y: number }>;
+
+export const LAYOUT_STRATEGY_LABELS: Record<LayoutStrategy, string> = {
+  hierarchical: 'Hierarchical (FK direction)',
+  grid: 'Orthogonal grid',
+  force: 'Force-directed',
+  cluster: 'Cluster by system',
+  star: 'Star schema (facts centered)',
+};
+
+const DEFAULT_SPACING_X = 80;
+const DEFAULT_SPACING_Y = 120;
+const FORCE_ITERATIONS = 300;
+
+const byLabel = (a: LayoutNode, b: LayoutNode) => (a.label || a.id).localeCompare(b.label || b.id);
+
+/**
+ * Keep only edges whose endpoints are both part of the layout (and drop self-loops)
+ */
+const filterEdges = (nodes: LayoutNode[], edges: LayoutEdge[]): LayoutEdge[] => {
+  const ids = new Set(nodes.map((n) => n.id));
+  return edges.filter((e) => e.source !== e.target && ids.has(e.source) && ids.has(e.target));
+};
+
+/**
+ * Grid layout - rows and columns aligned to the largest node
+ */
+const layoutGrid = (nodes: LayoutNode[], spacingX: number, spacingY: number): LayoutPositions => {
+  const positions: LayoutPositions = {};
+  if (nodes.length === 0) return positions;
+
+  const sorted = [...nodes].sort(byLabel);
+  const columns = Math.ceil(Math.sqrt(sorted.length));
+  const cellWidth = Math.max(...sorted.map((n) => n.width)) + spacingX;
+  const cellHeight = Math.max(...sorted.map((n) => n.height)) + spacingY;
+
+  sorted.forEach((node, index) => {
+    positions[node.id] = {
+      x: (index % columns) * cellWidth,
+      y: Math.floor(index / columns) * cellHeight,
+    };
+  });
+  return positions;
+};
+
+/**
+ * Assign each node a rank (longest path from a root), ignoring edges that close cycles
+ */
+const computeRanks = (nodes: LayoutNode[], edges: LayoutEdge[]): Map<string, number> => {
+  const outgoing = new Map<string, string[]>();
+  nodes.forEach((n) => outgoing.set(n.id, []));
+  edges.forEach((e) => outgoing.get(e.source)!.push(e.target));
+
+  // Depth-first search to find back edges (cycles) so ranking terminates
+  const acyclic = new Map<string, string[]>();
+  nodes.forEach((n) => acyclic.set(n.id, []));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const next of outgoing.get(id) || []) {
+      const nextState = state.get(next);
+      if (nextState === 'visiting') continue; // Back edge - skip
+      acyclic.get(id)!.push(next);
+      if (!nextState) visit(next);
+    }
+    state.set(id, 'done');
+  };
+  [...nodes].sort(byLabel).forEach((n) => {
+    if (!state.has(n.id)) visit(n.id);
+  });
+
+  // Longest-path ranking over the acyclic graph (Kahn's algorithm)
+  const indegree = new Map<string, number>();
+  nodes.forEach((n) => indegree.set(n.id, 0));
+  acyclic.forEach((targets) => targets.forEach((t) => indegree.set(t, indegree.get(t)! + 1)));
+
+  const ranks = new Map<string, number>();
+  const queue = nodes.filter((n) => indegree.get(n.id) === 0).map((n) => n.id);
+  queue.forEach((id) => ranks.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const next of acyclic.get(id) || []) {
+      ranks.set(next, Math.max(ranks.get(next) ?? 0, ranks.get(id)! + 1));
+      indegree.set(next, indegree.get(next)! - 1);
+      if (indegree.get(next) === 0) queue.push(next);
+    }
+  }
+  return ranks;
+};
+
+/**
+ * Hierarchical layout - referenced (parent) tables on top, FK holders below.
+ * Within each rank nodes are ordered by the barycenter of their neighbours to reduce crossings.
+ */
+const layoutHierarchical = (
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  spacingX: number,
+  spacingY: number
+): LayoutPositions => {
+  const ranks = computeRanks(nodes, edges);
+  const rankCount = Math.max(0, ...Array.from(ranks.values())) + 1;
+  const layers: LayoutNode[][] = Array.from({ length: rankCount }, () => []);
+  [...nodes].sort(byLabel).forEach((n) => layers[ranks.get(n.id) ?? 0]!.push(n));
+
+  const neighbours = new Map<string, string[]>();
+  nodes.forEach((n) => neighbours.set(n.id, []));
+  edges.forEach((e) => {
+    neighbours.get(e.source)!.push(e.target);
+    neighbours.get(e.target)!.push(e.source);
+  });
+
+  // Alternate downward and upward barycenter sweeps
+  const order = new Map<string, number>();
+  const refreshOrder = () => layers.forEach((layer) => layer.forEach((n, i) => order.set(n.id, i)));
+  refreshOrder();
+  for (let sweep = 0; sweep < 4; sweep++) {
+    const indices =
+      sweep % 2 === 0
+        ? Array.from({ length: rankCount }, (_, i) => i).slice(1)
+        : Array.from({ length: rankCount }, (_, i) => rankCount - 1 - i).slice(1);
+    for (const layerIndex of indices) {
+      const layer = layers[layerIndex]!;
+      const adjacentRank = sweep % 2 === 0 ? layerIndex - 1 : layerIndex + 1;
+      const barycenter = (node: LayoutNode) => {
+        const adjacent = (neighbours.get(node.id) || []).filter(
+          (id) => ranks.get(id) === adjacentRank
+        );
+        if (adjacent.length === 0) return order.get(node.id)!;
+        return adjacent.reduce((sum, id) => sum + order.get(id)!, 0) / adjacent.length;
+      };
+      const weights = new Map(layer.map((n) => [n.id, barycenter(n)]));
+      layer.sort((a, b) => weights.get(a.id)! - weights.get(b.id)!);
+      refreshOrder();
+    }
+  }
+
+  // Center each rank horizontally against the widest rank
+  const layerWidths = layers.map(
+    (layer) => layer.reduce((sum, n) => sum + n.width, 0) + spacingX * (layer.length - 1)
+  );
+  const maxWidth = Math.max(0, ...layerWidths);
+
+  const positions: LayoutPositions = {};
+  let y = 0;
+  layers.forEach((layer, layerIndex) => {
+    let x = (maxWidth - layerWidths[layerIndex]!) / 2;
+    layer.forEach((node) => {
+      positions[node.id] = { x, y };
+      x += node.width + spacingX;
+    });
+    y += Math.max(0, ...layer.map((n) => n.height)) + spacingY;
+  });
+  return positions;
+};
+
+/**
+ * Force-directed layout (Fruchterman-Reingold). Deterministic: starts from the current
+ * positions, so running it twice refines rather than reshuffles the diagram.
+ */
+const layoutForce = (
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  spacingX: number
+): LayoutPositions => {
+  if (nodes.length === 0) return {};
+
+  const avgSize = nodes.reduce((sum, n) => sum + Math.max(n.width, n.height), 0) / nodes.length;
+  const k = avgSize + spacingX; // Ideal edge length
+  const pos = nodes.map((n, i) => {
+    // Nodes stacked at the same spot (e.g., fresh imports) are spread on a circle first
+    const angle = (2 * Math.PI * i) / nodes.length;
+    const jitter = k * Math.sqrt(nodes.length) * 0.5;
+    return {
+      x: n.position.x + n.width / 2 + Math.cos(angle) * jitter * 0.01,
+      y: n.position.y + n.height / 2 + Math.sin(angle) * jitter * 0.01,
+    };
+  });
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+
+  let temperature = k * Math.sqrt(nodes.length);
+  const cooling = temperature / (FORCE_ITERATIONS + 1);
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const disp = nodes.map(() => ({ x: 0, y: 0 }));
+
+    // Repulsion between all pairs
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        let dx = pos[i]!.x - pos[j]!.x;
+        let dy = pos[i]!.y - pos[j]!.y;
+        let dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < 0.01) {
+          dx = 0.01 * (i - j);
+          dy = 0.01;
+          dist = Math.sqrt(dx * dx + dy * dy);
+        }
+        const force = (k * k) / dist;
+        disp[i]!.x += (dx / dist) * force;
+        disp[i]!.y += (dy / dist) * force;
+        disp[j]!.x -= (dx / dist) * force;
+        disp[j]!.y -= (dy / dist) * force;
+      }
+    }
+
+    // Attraction along edges
+    for (const edge of edges) {
+      const s = index.get(edge.source)!;
+      const t = index.get(edge.target)!;
+      const dx = pos[s]!.x - pos[t]!.x;
+      const dy = pos[s]!.y - pos[t]!.y;
+      const dist = Math.max(0.01, Math.sqrt(dx * dx + dy * dy));
+      const force = (dist * dist) / k;
+      disp[s]!.x -= (dx / dist) * force;
+      disp[s]!.y -= (dy / dist) * force;
+      disp[t]!.x += (dx / dist) * force;
+      disp[t]!.y += (dy / dist) * force;
+    }
+
+    // Move, limited by temperature
+    for (let i = 0; i < nodes.length; i++) {
+      const d = disp[i]!;
+      const length = Math.max(0.01, Math.sqrt(d.x * d.x + d.y * d.y));
+      pos[i]!.x += (d.x / length) * Math.min(length, temperature);
+      pos[i]!.y += (d.y / length) * Math.min(length, temperature);
+    }
+    temperature = Math.max(temperature - cooling, 1);
+  }
+
+  const positions: LayoutPositions = {};
+  nodes.forEach((n, i) => {
+    positions[n.id] = { x: pos[i]!.x - n.width / 2, y: pos[i]!.y - n.height / 2 };
+  });
+  return positions;
+};
+
+/**
+ * Cluster layout - each group (system) is laid out as a grid, then groups are packed in rows.
+ * Nodes without a group are collected into a trailing cluster.
+ */
+const layoutCluster = (
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  spacingX: number,
+  spacingY: number
+): LayoutPositions => {
+  const groups = new Map<string, LayoutNode[]>();
+  const ungrouped: LayoutNode[] = [];
+  nodes.forEach((n) => {
+    if (n.group) {
+      if (!groups.has(n.group)) groups.set(n.group, []);
+      groups.get(n.group)!.push(n);
+    } else {
+      ungrouped.push(n);
+    }
+  });
+
+  const clusters = [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, members]) => members);
+  if (ungrouped.length > 0) clusters.push(ungrouped);
+
+  const clusterGap = Math.max(spacingX, spacingY) * 2;
+  const laidOut = clusters.map((members) => {
+    const memberIds = new Set(members.map((m) => m.id));
+    const internalEdges = edges.filter((e) => memberIds.has(e.source) && memberIds.has(e.target));
+    // Clusters with internal FKs keep their hierarchy, the rest form a grid
+    const positions =
+      internalEdges.length > 0
+        ? layoutHierarchical(members, internalEdges, spacingX, spacingY)
+        : layoutGrid(members, spacingX, spacingY);
+    const bounds = getBounds(members, positions);
+    return { positions, bounds };
+  });
+
+  // Pack clusters into rows of roughly square overall shape
+  const columns = Math.ceil(Math.sqrt(laidOut.length));
+  const result: LayoutPositions = {};
+  let offsetY = 0;
+  for (let row = 0; row * columns < laidOut.length; row++) {
+    const rowClusters = laidOut.slice(row * columns, (row + 1) * columns);
+    let offsetX = 0;
+    rowClusters.forEach(({ positions, bounds }) => {
+      Object.entries(positions).forEach(([id, p]) => {
+        result[id] = { x: p.x - bounds.x + offsetX, y: p.y - bounds.y + offsetY };
+      });
+      offsetX += bounds.width + clusterGap;
+    });
+    offsetY += Math.max(...rowClusters.map((c) => c.bounds.height)) + clusterGap;
+  }
+  return result;
+};
+
+/**
+ * Star layout - each fact sits in the middle of a ring of its dimensions and bridges
+ * (tables reached through a bridge join the same ring); stars are placed side by side.
+ * Tables not connected to a fact are laid out as a grid below. Without facts this falls
+ * back to the hierarchical layout.
+ */
+const layoutStar = (
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  spacingX: number,
+  spacingY: number
+): LayoutPositions => {
+  const facts = nodes.filter((n) => n.role === 'fact').sort(byLabel);
+  if (facts.length === 0) return layoutHierarchical(nodes, edges, spacingX, spacingY);
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const neighbours = new Map<string, string[]>();
+  nodes.forEach((n) => neighbours.set(n.id, []));
+  edges.forEach((e) => {
+    neighbours.get(e.source)!.push(e.target);
+    neighbours.get(e.target)!.push(e.source);
+  });
+
+  // Each table joins the ring of the first fact it is connected to
+  const assigned = new Map<string, string>(); // node ID → fact ID
+  facts.forEach((fact) => assigned.set(fact.id, fact.id));
+  const rings = new Map<string, LayoutNode[]>(facts.map((f) => [f.id, []]));
+  const assign = (id: string, factId: string) => {
+    if (assigned.has(id)) return;
+    assigned.set(id, factId);
+    rings.get(factId)!.push(byId.get(id)!);
+  };
+  facts.forEach((fact) =>
+    neighbours
+      .get(fact.id)!
+      .sort()
+      .forEach((id) => assign(id, fact.id))
+  );
+  facts.forEach((fact) =>
+    rings
+      .get(fact.id)!
+      .filter((n) => n.role === 'bridge')
+      .forEach((bridge) =>
+        neighbours
+          .get(bridge.id)!
+          .sort()
+          .forEach((id) => assign(id, fact.id))
+      )
+  );
+
+  const positions: LayoutPositions = {};
+  let offsetX = 0;
+  let maxBottom = 0;
+  facts.forEach((fact) => {
+    const ring = rings.get(fact.id)!.sort(byLabel);
+    const size = Math.max(fact.width, fact.height, ...ring.map((n) => Math.max(n.width, n.height)));
+    // Large enough that neighbouring ring members do not overlap
+    const radius =
+      ring.length === 0
+        ? 0
+        : Math.max(size + spacingY, ((size + spacingX) * ring.length) / (2 * Math.PI));
+    const center = { x: offsetX + radius + size / 2, y: radius + size / 2 };
+    positions[fact.id] = { x: center.x - fact.width / 2, y: center.y - fact.height / 2 };
+    ring.forEach((n, i) => {
+      const angle = (2 * Math.PI * i) / ring.length - Math.PI / 2;
+      positions[n.id] = {
+        x: center.x + Math.cos(angle) * radius - n.width / 2,
+        y: center.y + Math.sin(angle) * radius - n.height / 2,
+      };
+    });
+    offsetX += 2 * radius + size + spacingX * 2;
+    maxBottom = Math.max(maxBottom, 2 * radius + size);
+  });
+
+  const rest = nodes.filter((n) => !assigned.has(n.id));
+  const restPositions = layoutGrid(rest, spacingX, spacingY);
+  rest.forEach((n) => {
+    positions[n.id] = {
+      x: restPositions[n.id]!.x,
+      y: restPositions[n.id]!.y + maxBottom + spacingY * 2,
+    };
+  });
+  return positions;
+};
+
+/**
+ * Bounding box of nodes at the given (or their current) positions
+ */
+export const getBounds = (
+  nodes: LayoutNode[],
+  positions?: LayoutPositions
+): { x: number; y: number; width: number; height: number } => {
+  if (nodes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  nodes.forEach((n) => {
+    const p = positions?.[n.id] ?? n.position;
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x + n.width);
+    maxY = Math.max(maxY, p.y + n.height);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Compute new positions for the given nodes.
+ *
+ * The resulting block is translated so its top-left corner sits at `options.origin`
+ * (defaults to the current top-left of the nodes), which keeps "layout selection only"
+ * in place relative to the rest of the diagram.
+ */
+export function computeLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions
+): LayoutPositions {
+  if (nodes.length === 0) return {};
+
+  const spacingX = options.spacingX ?? DEFAULT_SPACING_X;
+  const spacingY = options.spacingY ?? DEFAULT_SPACING_Y;
+  const relevantEdges = filterEdges(nodes, edges);
+
+  let positions: LayoutPositions;
+  switch (options.strategy) {
+    case 'hierarchical':
+      positions = layoutHierarchical(nodes, relevantEdges, spacingX, spacingY);
+      break;
+    case 'force':
+      positions = layoutForce(nodes, relevantEdges, spacingX);
+      break;
+    case 'cluster':
+      positions = layoutCluster(nodes, relevantEdges, spacingX, spacingY);
+      break;
+    case 'star':
+      positions = layoutStar(nodes, relevantEdges, spacingX, spacingY);
+      break;
+    case 'grid':
+    default:
+      positions = layoutGrid(nodes, spacingX, spacingY);
+      break;
+  }
+
+  const origin = options.origin ?? getBounds(nodes);
+  const bounds = getBounds(nodes, positions);
+  const result: LayoutPositions = {};
+  Object.entries(positions).forEach(([id, p]) => {
+    // Round to whole pixels so saved YAML stays readable
+    result[id] = {
+      x: Math.round(p.x - bounds.x + origin.x),
+      y: Math.round(p.y - bounds.y + origin.y),
+    };
+  });
+  return result;
+}
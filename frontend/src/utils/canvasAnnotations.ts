@@ -0,0 +1,101 @@
+/**
+ * Canvas annotation helpers
+ *
+ * Subject-area frames and sticky notes are stored per view in the domain's
+ * `view_annotations`. Frame membership is geometric: a node belongs to a frame when its
+ * header anchor (a point just inside its top-left corner) lies inside the frame, so the
+ * rule works with stored positions alone and needs no measured node sizes.
+ */
+
+import type { StickyNote, SubjectAreaFrame, ViewAnnotations } from '@/types/domain';
+import { generateUUID } from './validation';
+
+export const FRAME_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#64748b'];
+export const NOTE_COLORS = ['#fef08a', '#bbf7d0', '#bfdbfe', '#fecaca', '#e9d5ff'];
+
+export const DEFAULT_FRAME_SIZE = { width: 600, height: 400 };
+export const DEFAULT_NOTE_SIZE = { width: 200, height: 140 };
+
+// Offset of the point used to test whether a node sits inside a frame
+const HEADER_ANCHOR_OFFSET = 20;
+
+export interface PositionedNode {
+  id: string;
+  type?: string;
+  position: { x: number; y: number };
+}
+
+export const ANNOTATION_NODE_TYPES = ['subject-area', 'sticky-note'];
+
+export function createFrame(position: { x: number; y: number }, index = 0): SubjectAreaFrame {
+  return {
+    id: generateUUID(),
+    title: 'Subject area',
+    color: FRAME_COLORS[index % FRAME_COLORS.length]!,
+    x: Math.round(position.x),
+    y: Math.round(position.y),
+    ...DEFAULT_FRAME_SIZE,
+  };
+}
+
+export function createStickyNote(position: { x: number; y: number }): StickyNote {
+  return {
+    id: generateUUID(),
+    text: '',
+    color: NOTE_COLORS[0]!,
+    x: Math.round(position.x),
+    y: Math.round(position.y),
+    ...DEFAULT_NOTE_SIZE,
+  };
+}
+
+/**
+ * Whether a node at `position` belongs to `frame`
+ */
+export function isInsideFrame(frame: SubjectAreaFrame, position: { x: number; y: number }) {
+  const ax = position.x + HEADER_ANCHOR_OFFSET;
+  const ay = position.y + HEADER_ANCHOR_OFFSET;
+  return (
+    ax >= frame.x && ax <= frame.x + frame.width && ay >= frame.y && ay <= frame.y + frame.height
+  );
+}
+
+/**
+ * IDs of the model nodes (not annotations) inside a frame. Nested frames are not members.
+ */
+export function getFrameMembers(frame: SubjectAreaFrame, nodes: PositionedNode[]): string[] {
+  return nodes
+    .filter(
+      (node) =>
+        node.id !== frame.id &&
+        !ANNOTATION_NODE_TYPES.includes(node.type ?? '') &&
+        isInsideFrame(frame, node.position)
+    )
+    .map((node) => node.id);
+}
+
+/**
+ * Immutable update of one view's frames/notes. Empty views are dropped so they are not
+ * written to the workspace file.
+ */
+export function updateViewAnnotations(
+  annotations: ViewAnnotations | undefined,
+  view: string,
+  update: (current: { frames: SubjectAreaFrame[]; notes: StickyNote[] }) => {
+    frames: SubjectAreaFrame[];
+    notes: StickyNote[];
+  }
+): ViewAnnotations {
+  const current = annotations?.[view];
+  const next = update({ frames: current?.frames ?? [], notes: current?.notes ?? [] });
+  const result: ViewAnnotations = { ...annotations };
+  if (next.frames.length === 0 && next.notes.length === 0) {
+    delete result[view];
+  } else {
+    result[view] = {
+      ...(next.frames.length > 0 && { frames: next.frames }),
+      ...(next.notes.length > 0 && { notes: next.notes }),
+    };
+  }
+  return result;
+}
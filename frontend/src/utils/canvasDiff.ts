@@ -0,0 +1,76 @@
+/**
+ * Canvas diff
+ *
+ * Turns the changes between a baseline version of the workspace (e.g. a git ref) and the
+ * current model into marks for the canvas: the change kind of each table, column,
+ * relationship and other node, plus the removed tables and relationships that are drawn
+ * as ghosts.
+ */
+
+import type { Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+import type { DiffableWorkspace, WorkspaceChange, WorkspaceChangeKind } from './workspaceDiff';
+
+/** Colors of added (green), removed (red) and modified (amber) nodes, rows and edges */
+export const CHANGE_COLORS: Record<WorkspaceChangeKind, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  modified: '#d97706',
+};
+
+/** Column row backgrounds, matching CHANGE_COLORS */
+export const CHANGE_ROW_STYLES: Record<WorkspaceChangeKind, string> = {
+  added: 'bg-green-50',
+  removed: 'bg-red-50 line-through',
+  modified: 'bg-amber-50',
+};
+
+export interface TableDiffMark {
+  kind: WorkspaceChangeKind;
+  columns: Record<string, WorkspaceChangeKind>; // Added or modified columns by ID
+  removedColumns: string[]; // Names of columns that no longer exist
+}
+
+export interface CanvasDiff {
+  tables: Map<string, TableDiffMark>;
+  resources: Map<string, WorkspaceChangeKind>; // Relationships, systems, metric views, ...
+  removedTables: Table[];
+  removedRelationships: Relationship[];
+}
+
+/**
+ * Canvas marks for the changes from the baseline to the current model
+ */
+export function buildCanvasDiff(
+  changes: WorkspaceChange[],
+  baseline: DiffableWorkspace
+): CanvasDiff {
+  const tables = new Map<string, TableDiffMark>();
+  const resources = new Map<string, WorkspaceChangeKind>();
+  const mark = (tableId: string) => {
+    let tableMark = tables.get(tableId);
+    if (!tableMark) {
+      tableMark = { kind: 'modified', columns: {}, removedColumns: [] };
+      tables.set(tableId, tableMark);
+    }
+    return tableMark;
+  };
+
+  for (const change of changes) {
+    if (change.resourceType === 'table') {
+      mark(change.id).kind = change.kind;
+    } else if (change.resourceType === 'column' && change.tableId) {
+      const tableMark = mark(change.tableId);
+      if (change.kind === 'removed') tableMark.removedColumns.push(change.name);
+      else tableMark.columns[change.id] = change.kind;
+    } else {
+      resources.set(change.id, change.kind);
+    }
+  }
+
+  const removedTables = baseline.tables.filter((t) => tables.get(t.id)?.kind === 'removed');
+  const removedRelationships = baseline.relationships.filter(
+    (r) => resources.get(r.id) === 'removed'
+  );
+  return { tables, resources, removedTables, removedRelationships };
+}
@@ -0,0 +1,32 @@
+/**
+ * Canvas level of detail
+ *
+ * Table nodes drop detail as the canvas zooms out so workspaces with thousands of tables
+ * stay responsive: below `LOD_TITLE_ZOOM` only the title bar is drawn, below
+ * `LOD_KEYS_ZOOM` only key columns, and from there on everything the view shows.
+ */
+
+export type CanvasLevelOfDetail = 'title' | 'keys' | 'full';
+
+export const LOD_TITLE_ZOOM = 0.35;
+export const LOD_KEYS_ZOOM = 0.6;
+
+export function getLevelOfDetail(zoom: number): CanvasLevelOfDetail {
+  if (zoom < LOD_TITLE_ZOOM) return 'title';
+  if (zoom < LOD_KEYS_ZOOM) return 'keys';
+  return 'full';
+}
+
+/**
+ * The column set a table node shows for its view's model type at a level of detail.
+ * Zooming out never adds detail: a conceptual node stays title-only and a logical node
+ * stays keys-only at full detail.
+ */
+export function getEffectiveModelType(
+  modelType: 'conceptual' | 'logical' | 'physical',
+  levelOfDetail: CanvasLevelOfDetail
+): 'conceptual' | 'logical' | 'physical' {
+  if (levelOfDetail === 'title') return 'conceptual';
+  if (levelOfDetail === 'keys' && modelType === 'physical') return 'logical';
+  return modelType;
+}
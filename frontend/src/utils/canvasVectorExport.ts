@@ -0,0 +1,789 @@
+/**
+ * Vector canvas export
+ *
+ * Captures the rendered ReactFlow canvas (HTML nodes and SVG edges, including the
+ * notation symbols drawn by CardinalityEdge) into a small set of vector primitives.
+ * The same primitives are rendered to SVG here and to PDF in utils/pdfExport, so text
+ * and edges stay editable vectors instead of a rasterised screenshot.
+ */
+
+import { getSDKCardinalityLabel, SDKCardinality, type ERNotation } from '@/types/relationship';
+import { DEFAULT_ER_NOTATION, ER_NOTATIONS } from './erNotation';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ColorRGBA {
+  r: number; // 0-255
+  g: number;
+  b: number;
+  a: number; // 0-1
+}
+
+export type FontFamily = 'sans' | 'mono';
+
+export type ScenePrimitive =
+  | {
+      type: 'rect';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      rx?: number;
+      fill?: ColorRGBA;
+      stroke?: ColorRGBA;
+      strokeWidth?: number;
+    }
+  | {
+      type: 'path';
+      d: string;
+      fill?: ColorRGBA;
+      stroke?: ColorRGBA;
+      strokeWidth?: number;
+      dash?: number[];
+    }
+  | {
+      type: 'circle';
+      cx: number;
+      cy: number;
+      r: number;
+      fill?: ColorRGBA;
+      stroke?: ColorRGBA;
+      strokeWidth?: number;
+    }
+  | {
+      type: 'text';
+      x: number;
+      y: number; // Baseline
+      text: string;
+      fontSize: number;
+      bold?: boolean;
+      fontFamily?: FontFamily;
+      fill: ColorRGBA;
+      anchor?: 'start' | 'middle' | 'end';
+    }
+  | {
+      type: 'group';
+      tx?: number;
+      ty?: number;
+      scale?: number;
+      clip?: Rect; // In the group's parent coordinate space
+      children: ScenePrimitive[];
+    };
+
+export interface TitleBlockInfo {
+  title: string;
+  subtitle?: string;
+  date?: string;
+  page?: string; // e.g., "Page 2 of 6 (row 1, column 2)"
+}
+
+const BLACK: ColorRGBA = { r: 0, g: 0, b: 0, a: 1 };
+const GRAY_TEXT: ColorRGBA = { r: 75, g: 85, b: 99, a: 1 };
+const GRAY_LINE: ColorRGBA = { r: 156, g: 163, b: 175, a: 1 };
+const WHITE: ColorRGBA = { r: 255, g: 255, b: 255, a: 1 };
+
+// ---------------------------------------------------------------------------
+// Colors
+// ---------------------------------------------------------------------------
+
+const clamp255 = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+
+// OKLab -> linear sRGB -> sRGB (Tailwind v4 emits oklch colors)
+const oklabToRgb = (L: number, a: number, b: number, alpha: number): ColorRGBA => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  const toSrgb = (c: number) =>
+    255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+  return {
+    r: clamp255(toSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s)),
+    g: clamp255(toSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s)),
+    b: clamp255(toSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s)),
+    a: alpha,
+  };
+};
+
+const parseComponent = (value: string, scale: number): number =>
+  value.endsWith('%') ? (parseFloat(value) / 100) * scale : parseFloat(value);
+
+/**
+ * Parse a computed CSS color (hex, rgb(a), oklch, oklab). Returns null for
+ * transparent, `none` or unsupported values.
+ */
+export function parseCssColor(value: string | null | undefined): ColorRGBA | null {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+  if (!color || color === 'none' || color === 'transparent') return null;
+
+  if (color.startsWith('#')) {
+    let hex = color.slice(1);
+    if (hex.length === 3 || hex.length === 4) hex = [...hex].map((c) => c + c).join('');
+    if (hex.length !== 6 && hex.length !== 8) return null;
+    const alpha = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1;
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+      a: alpha,
+    };
+  }
+
+  const fn = color.match(/^(rgba?|oklch|oklab)\((.*)\)$/);
+  if (!fn) {
+    if (color === 'white') return { ...WHITE };
+    if (color === 'black') return { ...BLACK };
+    return null;
+  }
+
+  const [, name, body] = fn;
+  const [channels, alphaPart] = body!.split('/').map((part) => part.trim());
+  const parts = channels!.split(/[\s,]+/).filter(Boolean);
+  let alpha = alphaPart !== undefined ? parseComponent(alphaPart, 1) : 1;
+
+  let result: ColorRGBA;
+  if (name === 'rgb' || name === 'rgba') {
+    if (parts.length === 4) alpha = parseComponent(parts[3]!, 1);
+    result = {
+      r: clamp255(parseComponent(parts[0]!, 255)),
+      g: clamp255(parseComponent(parts[1]!, 255)),
+      b: clamp255(parseComponent(parts[2]!, 255)),
+      a: alpha,
+    };
+  } else if (name === 'oklch') {
+    const L = parseComponent(parts[0]!, 1);
+    const C = parseComponent(parts[1]!, 0.4);
+    const h = ((parseFloat(parts[2]!) || 0) * Math.PI) / 180;
+    result = oklabToRgb(L, C * Math.cos(h), C * Math.sin(h), alpha);
+  } else {
+    result = oklabToRgb(
+      parseComponent(parts[0]!, 1),
+      parseComponent(parts[1]!, 0.4),
+      parseComponent(parts[2]!, 0.4),
+      alpha
+    );
+  }
+
+  return result.a <= 0 ? null : result;
+}
+
+const toHex = (c: ColorRGBA) =>
+  '#' + [c.r, c.g, c.b].map((v) => clamp255(v).toString(16).padStart(2, '0')).join('');
+
+// ---------------------------------------------------------------------------
+// DOM capture
+// ---------------------------------------------------------------------------
+
+interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+interface CaptureContext {
+  rootRect: DOMRect;
+  viewport: Viewport;
+}
+
+const toFlowRect = (rect: DOMRect, ctx: CaptureContext): Rect => ({
+  x: (rect.left - ctx.rootRect.left - ctx.viewport.x) / ctx.viewport.zoom,
+  y: (rect.top - ctx.rootRect.top - ctx.viewport.y) / ctx.viewport.zoom,
+  width: rect.width / ctx.viewport.zoom,
+  height: rect.height / ctx.viewport.zoom,
+});
+
+const isHidden = (style: CSSStyleDeclaration) =>
+  style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) === 0;
+
+const isMonospace = (fontFamily: string) => /mono|courier|consolas|menlo/i.test(fontFamily);
+
+const applyTextTransform = (text: string, transform: string) =>
+  transform === 'uppercase'
+    ? text.toUpperCase()
+    : transform === 'lowercase'
+      ? text.toLowerCase()
+      : text;
+
+/**
+ * Capture a text node, splitting it into one primitive per rendered line
+ */
+const captureTextNode = (node: Text, style: CSSStyleDeclaration, ctx: CaptureContext) => {
+  const raw = node.textContent || '';
+  if (!raw.trim()) return [];
+
+  const fill = parseCssColor(style.color) || BLACK;
+  const fontSize = parseFloat(style.fontSize) || 12;
+  const bold = (parseInt(style.fontWeight, 10) || 400) >= 600;
+  const fontFamily: FontFamily = isMonospace(style.fontFamily) ? 'mono' : 'sans';
+  const transform = style.textTransform;
+
+  const makeText = (text: string, rect: DOMRect): ScenePrimitive => {
+    const r = toFlowRect(rect, ctx);
+    return {
+      type: 'text',
+      x: r.x,
+      // Vertically center the glyphs in the line box (0.35em ≈ half the x-height offset)
+      y: r.y + r.height / 2 + fontSize * 0.35,
+      text: applyTextTransform(text, transform),
+      fontSize,
+      bold,
+      fontFamily,
+      fill,
+    };
+  };
+
+  const range = document.createRange();
+  range.selectNodeContents(node);
+  const rects = Array.from(range.getClientRects()).filter((r) => r.width > 0);
+  if (rects.length <= 1) {
+    const rect = rects[0] ?? range.getBoundingClientRect();
+    return rect.width > 0 ? [makeText(raw.replace(/\s+/g, ' ').trim(), rect)] : [];
+  }
+
+  // Wrapped text: group words by the line they were laid out on
+  const lines: { top: number; words: string[]; rect: DOMRect }[] = [];
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(raw))) {
+    range.setStart(node, match.index);
+    range.setEnd(node, match.index + match[0].length);
+    const rect = range.getBoundingClientRect();
+    const line = lines.find((l) => Math.abs(l.top - rect.top) < rect.height / 2);
+    if (line) {
+      line.words.push(match[0]);
+    } else {
+      lines.push({ top: rect.top, words: [match[0]], rect });
+    }
+  }
+  return lines.map((line) => makeText(line.words.join(' '), line.rect));
+};
+
+const svgPaint = (value: string | null | undefined) =>
+  value && value !== 'none' ? parseCssColor(value) || undefined : undefined;
+
+const parseTranslate = (transform: string | null): { x: number; y: number } | null => {
+  const m = transform?.match(/translate\(\s*([-\d.]+)[\s,]*([-\d.]+)?\s*\)/);
+  return m ? { x: parseFloat(m[1]!), y: parseFloat(m[2] ?? '0') } : null;
+};
+
+/**
+ * Capture an SVG element (edge paths, crow's-foot symbols, inline icons) in its own user space
+ */
+const captureSvgElement = (el: SVGElement): ScenePrimitive[] => {
+  const style = window.getComputedStyle(el);
+  if (isHidden(style)) return [];
+
+  const tag = el.tagName.toLowerCase();
+  const attr = (name: string) => parseFloat(el.getAttribute(name) || '0');
+  const stroke = svgPaint(style.stroke || el.getAttribute('stroke'));
+  const fill = svgPaint(style.fill || el.getAttribute('fill'));
+  const strokeWidth = parseFloat(style.strokeWidth || el.getAttribute('stroke-width') || '1');
+  const dashValue = style.strokeDasharray || el.getAttribute('stroke-dasharray') || '';
+  const dash =
+    dashValue && dashValue !== 'none'
+      ? dashValue
+          .split(/[\s,]+/)
+          .map(parseFloat)
+          .filter((n) => !isNaN(n))
+      : undefined;
+
+  switch (tag) {
+    case 'g':
+    case 'svg': {
+      const children = Array.from(el.children).flatMap((child) =>
+        captureSvgElement(child as SVGElement)
+      );
+      const translate = parseTranslate(el.getAttribute('transform'));
+      return translate && children.length
+        ? [{ type: 'group', tx: translate.x, ty: translate.y, children }]
+        : children;
+    }
+    case 'path': {
+      const d = el.getAttribute('d');
+      return d ? [{ type: 'path', d, stroke, fill, strokeWidth, dash }] : [];
+    }
+    case 'line':
+      return [
+        {
+          type: 'path',
+          d: `M ${attr('x1')} ${attr('y1')} L ${attr('x2')} ${attr('y2')}`,
+          stroke,
+          strokeWidth,
+          dash,
+        },
+      ];
+    case 'polyline':
+    case 'polygon': {
+      const points = (el.getAttribute('points') || '').trim().split(/[\s,]+/);
+      if (points.length < 4) return [];
+      let d = `M ${points[0]} ${points[1]}`;
+      for (let i = 2; i + 1 < points.length; i += 2) d += ` L ${points[i]} ${points[i + 1]}`;
+      if (tag === 'polygon') d += ' Z';
+      return [{ type: 'path', d, stroke, fill, strokeWidth, dash }];
+    }
+    case 'circle':
+      return [
+        { type: 'circle', cx: attr('cx'), cy: attr('cy'), r: attr('r'), stroke, fill, strokeWidth },
+      ];
+    case 'rect':
+      return [
+        {
+          type: 'rect',
+          x: attr('x'),
+          y: attr('y'),
+          width: attr('width'),
+          height: attr('height'),
+          rx: attr('rx') || undefined,
+          stroke,
+          fill,
+          strokeWidth,
+        },
+      ];
+    case 'text': {
+      const text = el.textContent?.trim();
+      if (!text) return [];
+      const fontSize = parseFloat(style.fontSize) || 12;
+      const baseline = el.getAttribute('dominant-baseline') || style.dominantBaseline;
+      const anchor = (el.getAttribute('text-anchor') || style.textAnchor || 'start') as
+        'start' | 'middle' | 'end';
+      return [
+        {
+          type: 'text',
+          x: attr('x'),
+          y: attr('y') + (baseline === 'middle' || baseline === 'central' ? fontSize * 0.35 : 0),
+          text,
+          fontSize,
+          bold: (parseInt(style.fontWeight, 10) || 400) >= 600,
+          fill: fill || BLACK,
+          anchor,
+        },
+      ];
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Capture an HTML subtree (node cards, edge labels) as boxes and text
+ */
+const captureHtmlElement = (el: Element, ctx: CaptureContext): ScenePrimitive[] => {
+  const style = window.getComputedStyle(el);
+  if (isHidden(style)) return [];
+
+  if (el instanceof SVGSVGElement) {
+    // Inline icon: map its viewBox onto the rendered box
+    const box = toFlowRect(el.getBoundingClientRect(), ctx);
+    const viewBox = el.viewBox?.baseVal;
+    const scale = viewBox && viewBox.width ? box.width / viewBox.width : 1;
+    const children = Array.from(el.children).flatMap((child) =>
+      captureSvgElement(child as SVGElement)
+    );
+    return children.length ? [{ type: 'group', tx: box.x, ty: box.y, scale, children }] : [];
+  }
+
+  const primitives: ScenePrimitive[] = [];
+  const rect = el.getBoundingClientRect();
+  if (rect.width > 0 && rect.height > 0) {
+    const box = toFlowRect(rect, ctx);
+    const fill = parseCssColor(style.backgroundColor) || undefined;
+    const borderWidth = parseFloat(style.borderTopWidth) || 0;
+    const borderColor = borderWidth > 0 ? parseCssColor(style.borderTopColor) : null;
+    const uniformBorder =
+      borderColor &&
+      ['Right', 'Bottom', 'Left'].every(
+        (side) =>
+          style.getPropertyValue(`border-${side.toLowerCase()}-width`) === style.borderTopWidth
+      );
+
+    if (fill || uniformBorder) {
+      primitives.push({
+        type: 'rect',
+        ...box,
+        rx: parseFloat(style.borderTopLeftRadius) || undefined,
+        fill,
+        stroke: uniformBorder ? borderColor! : undefined,
+        strokeWidth: uniformBorder ? borderWidth : undefined,
+      });
+    }
+
+    // Single-sided borders (e.g., row separators)
+    if (!uniformBorder) {
+      const sides: [string, string][] = [
+        ['top', `M ${box.x} ${box.y} L ${box.x + box.width} ${box.y}`],
+        ['bottom', `M ${box.x} ${box.y + box.height} L ${box.x + box.width} ${box.y + box.height}`],
+        ['left', `M ${box.x} ${box.y} L ${box.x} ${box.y + box.height}`],
+        ['right', `M ${box.x + box.width} ${box.y} L ${box.x + box.width} ${box.y + box.height}`],
+      ];
+      sides.forEach(([side, d]) => {
+        const width = parseFloat(style.getPropertyValue(`border-${side}-width`)) || 0;
+        const color =
+          width > 0 ? parseCssColor(style.getPropertyValue(`border-${side}-color`)) : null;
+        if (color && style.getPropertyValue(`border-${side}-style`) !== 'none') {
+          primitives.push({ type: 'path', d, stroke: color, strokeWidth: width });
+        }
+      });
+    }
+  }
+
+  el.childNodes.forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      primitives.push(...captureTextNode(child as Text, style, ctx));
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      primitives.push(...captureHtmlElement(child as Element, ctx));
+    }
+  });
+  return primitives;
+};
+
+/**
+ * Capture the rendered canvas into vector primitives in flow coordinates.
+ *
+ * @param root - The `.react-flow` container element
+ * @param viewport - Current ReactFlow viewport transform
+ * @param area - Optional area (flow coordinates); nodes outside it are skipped
+ */
+export function captureCanvasScene(
+  root: HTMLElement,
+  viewport: Viewport,
+  area?: Rect
+): ScenePrimitive[] {
+  const ctx: CaptureContext = { rootRect: root.getBoundingClientRect(), viewport };
+  const primitives: ScenePrimitive[] = [];
+
+  // Edges are SVG in flow coordinates already
+  root.querySelectorAll('.react-flow__edges .react-flow__edge').forEach((edge) => {
+    primitives.push(...captureSvgElement(edge as SVGElement));
+  });
+
+  // Nodes on top of edges, each clipped to its card
+  root.querySelectorAll('.react-flow__node').forEach((node) => {
+    const clip = toFlowRect(node.getBoundingClientRect(), ctx);
+    if (area && !rectsIntersect(clip, area)) return;
+    const children = captureHtmlElement(node, ctx);
+    if (children.length) primitives.push({ type: 'group', clip, children });
+  });
+
+  // HTML edge labels rendered through EdgeLabelRenderer
+  root.querySelectorAll('.react-flow__edgelabel-renderer > *').forEach((label) => {
+    if (label.classList.contains('edge-route-handle')) return; // Editing handles of the selected edge
+    primitives.push(...captureHtmlElement(label, ctx));
+  });
+
+  return primitives;
+}
+
+export const rectsIntersect = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// ---------------------------------------------------------------------------
+// Legend and title block
+// ---------------------------------------------------------------------------
+
+type LegendRow = {
+  label: string;
+  symbol: (sx: number, sy: number) => ScenePrimitive[];
+  dashed?: boolean;
+};
+
+/**
+ * Legend for the ER notation the canvas was drawn in. Origin is the top-left corner;
+ * returns the primitives and the height used.
+ */
+export function buildLegend(
+  x: number,
+  y: number,
+  notation: ERNotation = 'crows-foot'
+): { primitives: ScenePrimitive[]; height: number } {
+  const line = (d: string, dash?: number[]): ScenePrimitive => ({
+    type: 'path',
+    d,
+    stroke: BLACK,
+    strokeWidth: 1,
+    ...(dash && { dash }),
+  });
+  const endText = (sx: number, sy: number, text: string): ScenePrimitive => ({
+    type: 'text',
+    x: sx + 30,
+    y: sy - 2,
+    text,
+    fontSize: 7,
+    bold: true,
+    fill: BLACK,
+    anchor: 'middle',
+  });
+  const crowfoot = (sx: number, sy: number) => [
+    line(`M ${sx + 32} ${sy} L ${sx + symbolWidth} ${sy - 5}`),
+    line(`M ${sx + 32} ${sy} L ${sx + symbolWidth} ${sy + 5}`),
+  ];
+  const rowHeight = 14;
+  const symbolWidth = 40;
+  const cardinalities = [
+    { label: 'Exactly one', value: SDKCardinality.ExactlyOne },
+    { label: 'Zero or one', value: SDKCardinality.ZeroOrOne },
+    { label: 'One or many', value: SDKCardinality.OneOrMany },
+    { label: 'Zero or many', value: SDKCardinality.ZeroOrMany },
+  ];
+  const notationRows: Partial<Record<ERNotation, LegendRow[]>> = {
+    uml: cardinalities.map(({ label, value }) => ({
+      label,
+      symbol: (sx, sy) => [endText(sx, sy, getSDKCardinalityLabel(value, 'uml'))],
+    })),
+    chen: cardinalities.map(({ label, value }) => ({
+      label,
+      symbol: (sx, sy) => [endText(sx, sy, getSDKCardinalityLabel(value, 'chen'))],
+    })),
+    idef1x: [
+      { label: 'Identifying', symbol: () => [] },
+      { label: 'Non-identifying', symbol: () => [], dashed: true },
+      {
+        label: 'Child: many (P = 1+, Z = 0/1)',
+        symbol: (sx, sy) => [
+          { type: 'circle', cx: sx + 36, cy: sy, r: 3, stroke: BLACK, fill: BLACK, strokeWidth: 1 },
+        ],
+      },
+      {
+        label: 'Optional parent',
+        symbol: (sx, sy) => [
+          {
+            type: 'path',
+            d: `M ${sx + 26} ${sy} L ${sx + 32} ${sy - 4} L ${sx + 38} ${sy} L ${sx + 32} ${sy + 4} Z`,
+            stroke: BLACK,
+            fill: WHITE,
+            strokeWidth: 1,
+          },
+        ],
+      },
+    ],
+    barker: [
+      { label: 'Mandatory', symbol: () => [] },
+      { label: 'Optional', symbol: () => [], dashed: true },
+      { label: 'Many', symbol: crowfoot },
+      { label: 'One', symbol: () => [] },
+    ],
+  };
+  const rows: LegendRow[] = notationRows[notation] ?? [
+    {
+      label: 'Exactly one',
+      symbol: (sx, sy) => [
+        line(`M ${sx + 30} ${sy - 5} L ${sx + 30} ${sy + 5}`),
+        line(`M ${sx + 34} ${sy - 5} L ${sx + 34} ${sy + 5}`),
+      ],
+    },
+    {
+      label: 'Zero or one',
+      symbol: (sx, sy) => [
+        { type: 'circle', cx: sx + 26, cy: sy, r: 4, stroke: BLACK, fill: WHITE, strokeWidth: 1 },
+        line(`M ${sx + 34} ${sy - 5} L ${sx + 34} ${sy + 5}`),
+      ],
+    },
+    {
+      label: 'One or many',
+      symbol: (sx, sy) => [
+        line(`M ${sx + 28} ${sy - 5} L ${sx + 28} ${sy + 5}`),
+        line(`M ${sx + 32} ${sy} L ${sx + symbolWidth} ${sy - 5}`),
+        line(`M ${sx + 32} ${sy} L ${sx + symbolWidth} ${sy + 5}`),
+      ],
+    },
+    {
+      label: 'Zero or many',
+      symbol: (sx, sy) => [
+        { type: 'circle', cx: sx + 26, cy: sy, r: 4, stroke: BLACK, fill: WHITE, strokeWidth: 1 },
+        ...crowfoot(sx, sy),
+      ],
+    },
+  ];
+
+  const title =
+    notation === DEFAULT_ER_NOTATION
+      ? 'Legend'
+      : `Legend (${ER_NOTATIONS.find((n) => n.value === notation)?.label ?? notation})`;
+  const primitives: ScenePrimitive[] = [
+    { type: 'text', x, y: y + 9, text: title, fontSize: 8, bold: true, fill: GRAY_TEXT },
+  ];
+  rows.forEach((row, i) => {
+    const cy = y + 20 + i * rowHeight;
+    primitives.push(
+      line(`M ${x} ${cy} L ${x + symbolWidth} ${cy}`, row.dashed ? [3, 2] : undefined)
+    );
+    primitives.push(...row.symbol(x, cy));
+    primitives.push({
+      type: 'text',
+      x: x + symbolWidth + 6,
+      y: cy + 3,
+      text: row.label,
+      fontSize: 8,
+      fill: GRAY_TEXT,
+    });
+  });
+  return { primitives, height: 20 + rows.length * rowHeight };
+}
+
+export const TITLE_BLOCK_HEIGHT = 80;
+
+/**
+ * Title block (title, subtitle, date/page) with an optional legend on the right
+ */
+export function buildTitleBlock(
+  x: number,
+  y: number,
+  width: number,
+  info: TitleBlockInfo,
+  includeLegend: boolean,
+  notation: ERNotation = 'crows-foot'
+): ScenePrimitive[] {
+  const primitives: ScenePrimitive[] = [
+    {
+      type: 'rect',
+      x,
+      y,
+      width,
+      height: TITLE_BLOCK_HEIGHT,
+      fill: WHITE,
+      stroke: GRAY_LINE,
+      strokeWidth: 1,
+    },
+    { type: 'text', x: x + 10, y: y + 22, text: info.title, fontSize: 14, bold: true, fill: BLACK },
+  ];
+  if (info.subtitle) {
+    primitives.push({
+      type: 'text',
+      x: x + 10,
+      y: y + 40,
+      text: info.subtitle,
+      fontSize: 9,
+      fill: GRAY_TEXT,
+    });
+  }
+  const footer = [info.date, info.page].filter(Boolean).join('  ·  ');
+  if (footer) {
+    primitives.push({
+      type: 'text',
+      x: x + 10,
+      y: y + TITLE_BLOCK_HEIGHT - 10,
+      text: footer,
+      fontSize: 8,
+      fill: GRAY_TEXT,
+    });
+  }
+  if (includeLegend && width > 260) {
+    const legendX = x + width - 130;
+    primitives.push({
+      type: 'path',
+      d: `M ${legendX - 10} ${y} L ${legendX - 10} ${y + TITLE_BLOCK_HEIGHT}`,
+      stroke: GRAY_LINE,
+      strokeWidth: 1,
+    });
+    primitives.push(...buildLegend(legendX, y + 4, notation).primitives);
+  }
+  return primitives;
+}
+
+// ---------------------------------------------------------------------------
+// SVG output
+// ---------------------------------------------------------------------------
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const num = (v: number) => (Math.round(v * 100) / 100).toString();
+
+const paintAttrs = (prefix: 'fill' | 'stroke', color: ColorRGBA | undefined): string => {
+  if (!color) return ` ${prefix}="none"`;
+  return ` ${prefix}="${toHex(color)}"${color.a < 1 ? ` ${prefix}-opacity="${num(color.a)}"` : ''}`;
+};
+
+let clipCounter = 0;
+
+const primitiveToSvg = (p: ScenePrimitive, defs: string[]): string => {
+  switch (p.type) {
+    case 'rect':
+      return `<rect x="${num(p.x)}" y="${num(p.y)}" width="${num(p.width)}" height="${num(p.height)}"${
+        p.rx ? ` rx="${num(p.rx)}"` : ''
+      }${paintAttrs('fill', p.fill)}${p.stroke ? `${paintAttrs('stroke', p.stroke)} stroke-width="${num(p.strokeWidth ?? 1)}"` : ''}/>`;
+    case 'path':
+      return `<path d="${escapeXml(p.d)}"${paintAttrs('fill', p.fill)}${
+        p.stroke
+          ? `${paintAttrs('stroke', p.stroke)} stroke-width="${num(p.strokeWidth ?? 1)}"`
+          : ''
+      }${p.dash?.length ? ` stroke-dasharray="${p.dash.join(' ')}"` : ''}/>`;
+    case 'circle':
+      return `<circle cx="${num(p.cx)}" cy="${num(p.cy)}" r="${num(p.r)}"${paintAttrs('fill', p.fill)}${
+        p.stroke
+          ? `${paintAttrs('stroke', p.stroke)} stroke-width="${num(p.strokeWidth ?? 1)}"`
+          : ''
+      }/>`;
+    case 'text':
+      return `<text x="${num(p.x)}" y="${num(p.y)}" font-size="${num(p.fontSize)}" font-family="${
+        p.fontFamily === 'mono' ? 'Menlo, Consolas, monospace' : 'Helvetica, Arial, sans-serif'
+      }"${p.bold ? ' font-weight="bold"' : ''}${
+        p.anchor && p.anchor !== 'start' ? ` text-anchor="${p.anchor}"` : ''
+      }${paintAttrs('fill', p.fill)} xml:space="preserve">${escapeXml(p.text)}</text>`;
+    case 'group': {
+      let attrs = '';
+      if (p.clip) {
+        const id = `clip-${++clipCounter}`;
+        defs.push(
+          `<clipPath id="${id}"><rect x="${num(p.clip.x)}" y="${num(p.clip.y)}" width="${num(
+            p.clip.width
+          )}" height="${num(p.clip.height)}"/></clipPath>`
+        );
+        attrs += ` clip-path="url(#${id})"`;
+      }
+      const inner = p.children.map((c) => primitiveToSvg(c, defs)).join('');
+      const transform =
+        p.tx || p.ty || (p.scale && p.scale !== 1)
+          ? `<g transform="translate(${num(p.tx ?? 0)} ${num(p.ty ?? 0)})${
+              p.scale && p.scale !== 1 ? ` scale(${num(p.scale)})` : ''
+            }">${inner}</g>`
+          : inner;
+      return `<g${attrs}>${transform}</g>`;
+    }
+  }
+};
+
+/**
+ * Render primitives to a standalone SVG document covering `area` (flow coordinates).
+ * A title block with legend is appended below the diagram when `titleBlock` is given.
+ */
+export function sceneToSvg(
+  primitives: ScenePrimitive[],
+  area: Rect,
+  options: { titleBlock?: TitleBlockInfo; includeLegend?: boolean; notation?: ERNotation } = {}
+): string {
+  const defs: string[] = [];
+  const body = primitives.map((p) => primitiveToSvg(p, defs)).join('\n');
+  const extra = options.titleBlock ? TITLE_BLOCK_HEIGHT + 20 : 0;
+  const footer = options.titleBlock
+    ? buildTitleBlock(
+        area.x,
+        area.y + area.height + 20,
+        area.width,
+        options.titleBlock,
+        options.includeLegend ?? true,
+        options.notation
+      )
+        .map((p) => primitiveToSvg(p, defs))
+        .join('\n')
+    : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${num(area.x)} ${num(area.y)} ${num(
+      area.width
+    )} ${num(area.height + extra)}" width="${num(area.width)}" height="${num(area.height + extra)}">`,
+    defs.length ? `<defs>${defs.join('')}</defs>` : '',
+    `<rect x="${num(area.x)}" y="${num(area.y)}" width="${num(area.width)}" height="${num(
+      area.height + extra
+    )}" fill="#ffffff"/>`,
+    body,
+    footer,
+    '</svg>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,316 @@
+/**
+ * Classification policy
+ *
+ * Column classifications (`Column.classification`) are ranked by sensitivity, and the
+ * sensitivity of a column flows downstream along
+ * - column lineage (transform sources, derivation traces, transformation links and
+ *   metric views, see utils/columnLineage)
+ * - relationship keys: the key columns on both ends of a relationship hold the same
+ *   values, so each gets at least the classification of the other
+ *
+ * A column classified lower than what flows into it is a finding; so is a column fed by
+ * a critical data element without being one itself. The dashboard counts classified
+ * columns per domain, system and data product.
+ */
+
+import type { Table } from '@/types/table';
+import type { Domain } from '@/types/domain';
+import type { Relationship } from '@/types/relationship';
+import type { System } from '@/types/system';
+import type { MetricView } from '@/types/metricView';
+import type { DataProduct } from '@/types/odps';
+import { buildColumnLineage } from '@/utils/columnLineage';
+
+export interface ClassificationLevel {
+  value: string;
+  label: string;
+  rank: number; // Higher is more sensitive
+}
+
+// ODCS classification values offered in the column details, least sensitive first
+export const CLASSIFICATION_LEVELS: ClassificationLevel[] = [
+  { value: 'public', label: 'Public', rank: 0 },
+  { value: 'internal', label: 'Internal', rank: 1 },
+  { value: 'confidential', label: 'Confidential', rank: 2 },
+  { value: 'sensitive', label: 'Sensitive', rank: 2 },
+  { value: 'pii', label: 'PII', rank: 3 },
+  { value: 'phi', label: 'PHI', rank: 3 },
+  { value: 'pci', label: 'PCI', rank: 3 },
+  { value: 'restricted', label: 'Restricted', rank: 4 },
+];
+
+export const UNCLASSIFIED = 'unclassified';
+
+// Rank at or above which an under-classified column is an error rather than a warning
+const ERROR_RANK = 3;
+
+export type ClassificationFindingKind = 'under-classified' | 'critical-data-element';
+
+export interface ClassificationFinding {
+  kind: ClassificationFindingKind;
+  severity: 'error' | 'warning' | 'info';
+  tableId: string;
+  tableName: string;
+  columnId: string;
+  columnName: string;
+  classification?: string; // The column's own classification
+  requiredClassification?: string; // At least this, inherited from the source
+  sourceTableName: string;
+  sourceColumnName: string;
+  via: 'lineage' | 'relationship';
+}
+
+export interface ClassificationInput {
+  tables: Table[];
+  relationships: Relationship[];
+  domains: Domain[];
+  metricViews?: MetricView[];
+}
+
+export const getClassificationLevel = (
+  classification: string | undefined
+): ClassificationLevel | undefined =>
+  classification
+    ? CLASSIFICATION_LEVELS.find((l) => l.value === classification.trim().toLowerCase())
+    : undefined;
+
+export const getClassificationLabel = (classification: string | undefined): string =>
+  getClassificationLevel(classification)?.label ?? (classification || 'Unclassified');
+
+interface ColumnRef {
+  table: Table;
+  columnId: string;
+  columnName: string;
+  classification?: string;
+  critical: boolean;
+}
+
+interface PropagationEdge {
+  from: string;
+  to: string;
+  via: ClassificationFinding['via'];
+}
+
+// Highest classification (and CDE flag) reaching each node, with the column it came from
+interface Inherited {
+  level?: ClassificationLevel;
+  levelSource?: string;
+  critical?: string; // Column ID of the critical data element
+}
+
+/**
+ * Propagate classifications and list the columns classified below their sources
+ */
+export function checkClassificationPolicy(input: ClassificationInput): ClassificationFinding[] {
+  const columns = new Map<string, ColumnRef>();
+  for (const table of input.tables) {
+    for (const column of table.columns ?? []) {
+      columns.set(column.id, {
+        table,
+        columnId: column.id,
+        columnName: column.name,
+        classification: column.classification,
+        critical: !!column.criticalDataElement,
+      });
+    }
+  }
+
+  const lineage = buildColumnLineage({
+    tables: input.tables,
+    domains: input.domains,
+    metricViews: input.metricViews ?? [],
+    products: [],
+  });
+  const edges: PropagationEdge[] = lineage.edges.map((e) => ({
+    from: e.from,
+    to: e.to,
+    via: 'lineage',
+  }));
+  for (const relationship of input.relationships) {
+    const { source_key: source, target_key: target } = relationship;
+    if (source && target && columns.has(source) && columns.has(target)) {
+      edges.push({ from: source, to: target, via: 'relationship' });
+      edges.push({ from: target, to: source, via: 'relationship' });
+    }
+  }
+  const outgoing = new Map<string, PropagationEdge[]>();
+  for (const edge of edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge]);
+  }
+
+  // Worklist propagation; ranks only increase, so cycles settle
+  const inherited = new Map<string, Inherited>();
+  const effective = (nodeId: string): Inherited => {
+    const own = columns.get(nodeId);
+    const level = getClassificationLevel(own?.classification);
+    const passed = inherited.get(nodeId) ?? {};
+    const useOwn = level && (!passed.level || level.rank >= passed.level.rank);
+    return {
+      level: useOwn ? level : passed.level,
+      levelSource: useOwn ? nodeId : passed.levelSource,
+      critical: own?.critical ? nodeId : passed.critical,
+    };
+  };
+  const queue = [...new Set(edges.map((e) => e.from))];
+  const via = new Map<string, PropagationEdge['via']>();
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    const current = effective(nodeId);
+    for (const edge of outgoing.get(nodeId) ?? []) {
+      const target = inherited.get(edge.to) ?? {};
+      let changed = false;
+      if (current.level && (!target.level || current.level.rank > target.level.rank)) {
+        target.level = current.level;
+        target.levelSource = current.levelSource;
+        via.set(`level:${edge.to}`, edge.via);
+        changed = true;
+      }
+      if (current.critical && !target.critical && current.critical !== edge.to) {
+        target.critical = current.critical;
+        via.set(`critical:${edge.to}`, edge.via);
+        changed = true;
+      }
+      if (changed) {
+        inherited.set(edge.to, target);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  const findings: ClassificationFinding[] = [];
+  for (const [nodeId, passed] of inherited) {
+    const column = columns.get(nodeId);
+    if (!column) continue; // Metric view fields carry no classification of their own
+    const own = getClassificationLevel(column.classification);
+    const base = {
+      tableId: column.table.id,
+      tableName: column.table.name,
+      columnId: column.columnId,
+      columnName: column.columnName,
+      classification: column.classification,
+    };
+
+    const source = passed.levelSource ? columns.get(passed.levelSource) : undefined;
+    // Custom classifications cannot be ranked and are left alone
+    const ranked = !column.classification || own;
+    if (passed.level && source && ranked && (!own || own.rank < passed.level.rank)) {
+      findings.push({
+        ...base,
+        kind: 'under-classified',
+        severity: passed.level.rank >= ERROR_RANK ? 'error' : 'warning',
+        requiredClassification: passed.level.value,
+        sourceTableName: source.table.name,
+        sourceColumnName: source.columnName,
+        via: via.get(`level:${nodeId}`) ?? 'lineage',
+      });
+    }
+
+    const critical = passed.critical ? columns.get(passed.critical) : undefined;
+    if (critical && !column.critical) {
+      findings.push({
+        ...base,
+        kind: 'critical-data-element',
+        severity: 'info',
+        sourceTableName: critical.table.name,
+        sourceColumnName: critical.columnName,
+        via: via.get(`critical:${nodeId}`) ?? 'lineage',
+      });
+    }
+  }
+
+  return findings.sort(
+    (a, b) =>
+      a.tableName.localeCompare(b.tableName) ||
+      a.columnName.localeCompare(b.columnName) ||
+      a.kind.localeCompare(b.kind)
+  );
+}
+
+/**
+ * Validation message of a finding
+ */
+export function describeClassificationFinding(finding: ClassificationFinding): string {
+  const source = `${finding.sourceTableName}.${finding.sourceColumnName}`;
+  const path = finding.via === 'relationship' ? 'is joined to' : 'is fed by';
+  if (finding.kind === 'critical-data-element') {
+    return `Column "${finding.columnName}" ${path} critical data element ${source} but is not marked critical`;
+  }
+  return `Column "${finding.columnName}" is ${getClassificationLabel(finding.classification)} but ${path} ${getClassificationLabel(finding.requiredClassification)} column ${source}`;
+}
+
+export interface SensitivityRow {
+  id: string;
+  name: string;
+  counts: Record<string, number>; // Classification value (or "unclassified") → columns
+  total: number;
+  critical: number;
+  highest?: string; // Most sensitive classification present
+}
+
+export interface SensitivityDashboard {
+  totals: SensitivityRow;
+  byDomain: SensitivityRow[];
+  bySystem: SensitivityRow[];
+  byProduct: SensitivityRow[];
+}
+
+const classificationKey = (classification: string | undefined) =>
+  classification?.trim()
+    ? (getClassificationLevel(classification)?.value ?? classification.trim().toLowerCase())
+    : UNCLASSIFIED;
+
+const countColumns = (id: string, name: string, tables: Table[]): SensitivityRow => {
+  const row: SensitivityRow = { id, name, counts: {}, total: 0, critical: 0 };
+  let highest: ClassificationLevel | undefined;
+  for (const column of tables.flatMap((t) => t.columns ?? [])) {
+    const key = classificationKey(column.classification);
+    row.counts[key] = (row.counts[key] ?? 0) + 1;
+    row.total++;
+    if (column.criticalDataElement) row.critical++;
+    const level = getClassificationLevel(column.classification);
+    if (level && (!highest || level.rank > highest.rank)) highest = level;
+  }
+  row.highest = highest?.value;
+  return row;
+};
+
+/**
+ * Column counts per classification for the workspace, each domain, system and data
+ * product (tables linked to the product or exposed through its ports)
+ */
+export function buildSensitivityDashboard(input: {
+  tables: Table[];
+  domains: Domain[];
+  systems: System[];
+  products: DataProduct[];
+}): SensitivityDashboard {
+  const tablesById = new Map(input.tables.map((t) => [t.id, t]));
+  const tablesOf = (ids: Iterable<string>) =>
+    [...new Set(ids)].map((id) => tablesById.get(id)).filter((t): t is Table => !!t);
+
+  return {
+    totals: countColumns('workspace', 'Workspace', input.tables),
+    byDomain: input.domains.map((domain) =>
+      countColumns(
+        domain.id,
+        domain.name,
+        input.tables.filter((t) => t.primary_domain_id === domain.id)
+      )
+    ),
+    bySystem: input.systems.map((system) =>
+      countColumns(system.id, system.name, tablesOf(system.table_ids ?? []))
+    ),
+    byProduct: input.products.map((product) =>
+      countColumns(
+        product.id,
+        product.name,
+        tablesOf([
+          ...(product.linked_tables ?? []),
+          ...[...(product.input_ports ?? []), ...(product.output_ports ?? [])]
+            .map((p) => p.table_id)
+            .filter((id): id is string => !!id),
+        ])
+      )
+    ),
+  };
+}
@@ -0,0 +1,555 @@
+/**
+ * Column-level lineage
+ *
+ * Builds a directed column graph over the whole workspace, upstream → downstream, from:
+ * - `transformSourceObjects` of a column ("table.column", optionally qualified with
+ *   catalog and schema); the column's `transformLogic`/`transformDescription` describe
+ *   the edge
+ * - derivation traces (`metadata.derived_from`) of derived tables
+ * - domain transformation links between tables, matching columns by name
+ * - metric views: columns of the source and joined tables used in a dimension or measure
+ *   expression, and measures used by other measures through MEASURE()
+ * - data products: every column of a linked or port table feeds the product
+ *
+ * Nodes are columns, metric view fields and data products, grouped into datasets
+ * (tables, metric views, products) that are ordered by stage: operational → bronze →
+ * silver → gold → metric views → data products.
+ */
+
+import type { Column, Table } from '@/types/table';
+import type { Domain } from '@/types/domain';
+import type { MetricView } from '@/types/metricView';
+import type { DataProduct } from '@/types/odps';
+import type { DataLevel } from '@/stores/modelStore';
+import { getEffectiveDataLevel } from '@/utils/dataLevel';
+import { getCatalogSchema } from '@/utils/customProperties';
+import { getDerivationTrace } from '@/utils/modelDerivation';
+
+export type LineageEdgeKind =
+  'transform' | 'derivation' | 'transformation-link' | 'metric' | 'product';
+
+export type LineageDirection = 'upstream' | 'downstream' | 'both';
+
+export type LineageDatasetKind = 'table' | 'metric-view' | 'data-product';
+
+export const LINEAGE_EDGE_KINDS: Array<{ kind: LineageEdgeKind; label: string }> = [
+  { kind: 'transform', label: 'Transform sources' },
+  { kind: 'derivation', label: 'Model derivation' },
+  { kind: 'transformation-link', label: 'Transformation links' },
+  { kind: 'metric', label: 'Metric views' },
+  { kind: 'product', label: 'Data products' },
+];
+
+// Stage of each dataset, left to right in the lineage view
+export const LINEAGE_STAGES = [
+  'operational',
+  'bronze',
+  'silver',
+  'gold',
+  'metric-view',
+  'data-product',
+] as const;
+
+export type LineageStage = (typeof LINEAGE_STAGES)[number];
+
+export interface LineageDataset {
+  id: string; // Table, metric view or data product ID
+  kind: LineageDatasetKind;
+  name: string;
+  qualifiedName: string; // catalog.schema.table when known
+  domainId?: string;
+  stage?: LineageStage; // Unset for tables without a data level
+  nodeIds: string[]; // Column/field nodes in display order
+}
+
+export interface LineageNode {
+  id: string; // Column ID, "<metric view ID>:<field>" or the data product ID
+  datasetId: string;
+  name: string;
+  dataType?: string;
+  transformLogic?: string;
+  transformDescription?: string;
+}
+
+export interface LineageEdge {
+  id: string;
+  from: string;
+  to: string;
+  kind: LineageEdgeKind;
+  logic?: string; // Transformation logic or metric expression
+  description?: string;
+}
+
+export interface UnresolvedLineageSource {
+  nodeId: string;
+  reference: string; // The transformSourceObjects entry that matched no column
+}
+
+export interface ColumnLineageGraph {
+  datasets: LineageDataset[];
+  nodes: Map<string, LineageNode>;
+  edges: LineageEdge[];
+  downstream: Map<string, LineageEdge[]>;
+  upstream: Map<string, LineageEdge[]>;
+  unresolved: UnresolvedLineageSource[];
+}
+
+export interface ColumnLineageInput {
+  tables: Table[];
+  domains: Domain[];
+  metricViews: MetricView[];
+  products: DataProduct[];
+}
+
+export interface LineageTrace {
+  /** Hop distance from the traced node (traced node = 0) */
+  distances: Map<string, number>;
+  edgeIds: Set<string>;
+}
+
+const DATA_LEVEL_STAGES: Record<DataLevel, LineageStage> = {
+  operational: 'operational',
+  bronze: 'bronze',
+  silver: 'silver',
+  gold: 'gold',
+};
+
+const stripQuotes = (name: string) => name.replace(/[`"[\]]/g, '').trim();
+
+const AGGREGATE_PATTERN = /\b(sum|count|avg|min|max|median|stddev|variance|percentile\w*)\s*\(/i;
+
+export const metricFieldNodeId = (metricViewId: string, field: string) =>
+  `${metricViewId}:${field}`;
+
+/**
+ * Build the column lineage graph of a workspace
+ */
+export function buildColumnLineage(input: ColumnLineageInput): ColumnLineageGraph {
+  const datasets: LineageDataset[] = [];
+  const nodes = new Map<string, LineageNode>();
+  const edges: LineageEdge[] = [];
+  const edgeKeys = new Set<string>();
+  const unresolved: UnresolvedLineageSource[] = [];
+
+  const addEdge = (edge: Omit<LineageEdge, 'id'>) => {
+    const key = `${edge.from}->${edge.to}`;
+    // The first (most explicit) source of an edge wins
+    if (edge.from === edge.to || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push({ ...edge, id: `${edge.kind}:${key}` });
+  };
+
+  const tablesById = new Map(input.tables.map((t) => [t.id, t]));
+  const tablesByName = new Map<string, Table[]>();
+  for (const table of input.tables) {
+    const key = table.name.toLowerCase();
+    tablesByName.set(key, [...(tablesByName.get(key) ?? []), table]);
+
+    const level = getEffectiveDataLevel(table);
+    const catalogSchema = getCatalogSchema(table.customProperties);
+    const columns = [...(table.columns ?? [])].sort((a, b) => a.order - b.order);
+    datasets.push({
+      id: table.id,
+      kind: 'table',
+      name: table.name,
+      qualifiedName: catalogSchema ? `${catalogSchema}.${table.name}` : table.name,
+      domainId: table.primary_domain_id,
+      stage: level ? DATA_LEVEL_STAGES[level] : undefined,
+      nodeIds: columns.map((c) => c.id),
+    });
+    for (const column of columns) {
+      nodes.set(column.id, {
+        id: column.id,
+        datasetId: table.id,
+        name: column.name,
+        dataType: column.data_type,
+        transformLogic: column.transformLogic,
+        transformDescription: column.transformDescription,
+      });
+    }
+  }
+
+  // Tables named in a reference; prefer the referencing domain when names collide
+  const findTables = (name: string, domainId?: string): Table[] => {
+    const candidates = tablesByName.get(stripQuotes(name).toLowerCase()) ?? [];
+    const sameDomain = candidates.filter((t) => t.primary_domain_id === domainId);
+    return sameDomain.length > 0 ? sameDomain.slice(0, 1) : candidates.slice(0, 1);
+  };
+  const findColumn = (table: Table, name: string): Column | undefined =>
+    table.columns?.find((c) => c.name.toLowerCase() === stripQuotes(name).toLowerCase());
+
+  // 1. Explicit transform sources
+  for (const table of input.tables) {
+    for (const column of table.columns ?? []) {
+      for (const reference of column.transformSourceObjects ?? []) {
+        const parts = reference.split('.').map(stripQuotes).filter(Boolean);
+        const columnName = parts[parts.length - 1];
+        const tableName = parts[parts.length - 2];
+        let source: Column | undefined;
+        if (columnName && tableName) {
+          const [sourceTable] = findTables(tableName, table.primary_domain_id);
+          source = sourceTable && findColumn(sourceTable, columnName);
+        } else if (columnName) {
+          // A bare name is a table (same-named column) or a column of the same table
+          const [sourceTable] = findTables(columnName, table.primary_domain_id);
+          source = sourceTable
+            ? findColumn(sourceTable, column.name)
+            : findColumn(table, columnName);
+        }
+        if (source) {
+          addEdge({
+            from: source.id,
+            to: column.id,
+            kind: 'transform',
+            logic: column.transformLogic,
+            description: column.transformDescription,
+          });
+        } else {
+          unresolved.push({ nodeId: column.id, reference });
+        }
+      }
+    }
+  }
+
+  // 2. Derivation traces
+  for (const table of input.tables) {
+    const trace = getDerivationTrace(table);
+    if (!trace?.columns) continue;
+    for (const [derivedId, sourceId] of Object.entries(trace.columns)) {
+      if (nodes.has(derivedId) && nodes.has(sourceId)) {
+        addEdge({
+          from: sourceId,
+          to: derivedId,
+          kind: 'derivation',
+          description: `Derived from the ${trace.source_model_type} model`,
+        });
+      }
+    }
+  }
+
+  // 3. Transformation links between tables: same-named columns
+  for (const domain of input.domains) {
+    for (const link of domain.transformation_links ?? []) {
+      const source = tablesById.get(link.source_table_id);
+      const target = tablesById.get(link.target_table_id);
+      if (!source || !target) continue;
+      for (const column of target.columns ?? []) {
+        const sourceColumn = findColumn(source, column.name);
+        if (sourceColumn) {
+          addEdge({
+            from: sourceColumn.id,
+            to: column.id,
+            kind: 'transformation-link',
+            description: link.name || link.description || link.transformation_type,
+          });
+        }
+      }
+    }
+  }
+
+  // 4. Metric views
+  for (const view of input.metricViews) {
+    const fields = [
+      ...view.dimensions.map((d) => ({ ...d, measure: false })),
+      ...view.measures.map((m) => ({ ...m, measure: true })),
+    ];
+    datasets.push({
+      id: view.id,
+      kind: 'metric-view',
+      name: view.name,
+      qualifiedName: view.name,
+      domainId: view.domain_id,
+      stage: 'metric-view',
+      nodeIds: fields.map((f) => metricFieldNodeId(view.id, f.name)),
+    });
+    const sourceTables = [view.source, ...(view.joins ?? []).map((j) => j.table)]
+      .filter(Boolean)
+      .flatMap((name) => findTables(name.split('.').pop()!, view.domain_id));
+    const measureNames = new Set(view.measures.map((m) => m.name.toLowerCase()));
+
+    for (const field of fields) {
+      const nodeId = metricFieldNodeId(view.id, field.name);
+      nodes.set(nodeId, {
+        id: nodeId,
+        datasetId: view.id,
+        name: field.name,
+        dataType: field.measure ? 'measure' : 'dimension',
+        transformLogic: field.expr,
+        transformDescription: field.comment,
+      });
+    }
+    for (const field of fields) {
+      const nodeId = metricFieldNodeId(view.id, field.name);
+      const expr = [field.expr, 'filter' in field ? field.filter : undefined]
+        .filter(Boolean)
+        .join(' ');
+      // MEASURE(name) composes other measures of the same view
+      for (const match of expr.matchAll(/MEASURE\s*\(\s*`?([\w ]+?)`?\s*\)/gi)) {
+        const name = match[1]!.toLowerCase();
+        const measure = view.measures.find((m) => m.name.toLowerCase() === name);
+        if (measure) {
+          addEdge({
+            from: metricFieldNodeId(view.id, measure.name),
+            to: nodeId,
+            kind: 'metric',
+            logic: field.expr,
+          });
+        }
+      }
+      const identifiers = new Set(
+        (expr.replace(/MEASURE\s*\([^)]*\)/gi, '').match(/[A-Za-z_][\w]*/g) ?? []).map((i) =>
+          i.toLowerCase()
+        )
+      );
+      for (const table of sourceTables) {
+        for (const column of table.columns ?? []) {
+          const name = column.name.toLowerCase();
+          if (identifiers.has(name) && !(field.measure && measureNames.has(name))) {
+            addEdge({ from: column.id, to: nodeId, kind: 'metric', logic: field.expr });
+          }
+        }
+      }
+    }
+  }
+
+  // 5. Data products
+  for (const product of input.products) {
+    datasets.push({
+      id: product.id,
+      kind: 'data-product',
+      name: product.name,
+      qualifiedName: product.name,
+      domainId: product.domain_id,
+      stage: 'data-product',
+      nodeIds: [product.id],
+    });
+    nodes.set(product.id, { id: product.id, datasetId: product.id, name: product.name });
+    const tableIds = new Set([
+      ...(product.linked_tables ?? []),
+      ...[...(product.input_ports ?? []), ...(product.output_ports ?? [])]
+        .map((p) => p.table_id)
+        .filter((id): id is string => !!id),
+    ]);
+    for (const tableId of tableIds) {
+      for (const column of tablesById.get(tableId)?.columns ?? []) {
+        addEdge({ from: column.id, to: product.id, kind: 'product' });
+      }
+    }
+  }
+
+  const downstream = new Map<string, LineageEdge[]>();
+  const upstream = new Map<string, LineageEdge[]>();
+  for (const edge of edges) {
+    downstream.set(edge.from, [...(downstream.get(edge.from) ?? []), edge]);
+    upstream.set(edge.to, [...(upstream.get(edge.to) ?? []), edge]);
+  }
+
+  return { datasets, nodes, edges, downstream, upstream, unresolved };
+}
+
+/**
+ * Everything upstream and/or downstream of a node, at any distance. "Both" is the union
+ * of the two walks, so it never zig-zags into siblings.
+ */
+export function traceColumnLineage(
+  graph: ColumnLineageGraph,
+  nodeId: string,
+  direction: LineageDirection
+): LineageTrace {
+  const distances = new Map<string, number>([[nodeId, 0]]);
+  const edgeIds = new Set<string>();
+
+  const walk = (adjacency: Map<string, LineageEdge[]>, next: (edge: LineageEdge) => string) => {
+    const seen = new Set([nodeId]);
+    let frontier = [nodeId];
+    for (let hop = 1; frontier.length > 0; hop++) {
+      const following: string[] = [];
+      for (const id of frontier) {
+        for (const edge of adjacency.get(id) ?? []) {
+          edgeIds.add(edge.id);
+          const neighbor = next(edge);
+          if (seen.has(neighbor)) continue;
+          seen.add(neighbor);
+          following.push(neighbor);
+          distances.set(neighbor, Math.min(distances.get(neighbor) ?? hop, hop));
+        }
+      }
+      frontier = following;
+    }
+  };
+
+  if (direction !== 'downstream') walk(graph.upstream, (e) => e.from);
+  if (direction !== 'upstream') walk(graph.downstream, (e) => e.to);
+  return { distances, edgeIds };
+}
+
+/**
+ * Edges and nodes on any path from one node to another (empty when `to` is not
+ * downstream of `from`)
+ */
+export function findLineagePath(
+  graph: ColumnLineageGraph,
+  from: string,
+  to: string
+): { nodeIds: Set<string>; edgeIds: Set<string> } {
+  const below = traceColumnLineage(graph, from, 'downstream').distances;
+  const above = traceColumnLineage(graph, to, 'upstream').distances;
+  const nodeIds = new Set([...below.keys()].filter((id) => above.has(id)));
+  if (!nodeIds.has(to)) return { nodeIds: new Set(), edgeIds: new Set() };
+  const edgeIds = new Set(
+    graph.edges.filter((e) => nodeIds.has(e.from) && nodeIds.has(e.to)).map((e) => e.id)
+  );
+  return { nodeIds, edgeIds };
+}
+
+/**
+ * Layout column of each dataset: its stage, pushed right of every upstream dataset so
+ * edges flow left to right. Datasets without a stage only follow their upstream.
+ */
+export function getLineageDatasetColumns(graph: ColumnLineageGraph): Map<string, number> {
+  const stageIndex = (dataset: LineageDataset) =>
+    dataset.stage ? LINEAGE_STAGES.indexOf(dataset.stage) : 0;
+  const columns = new Map(graph.datasets.map((d) => [d.id, stageIndex(d)]));
+  const datasetOf = (nodeId: string) => graph.nodes.get(nodeId)?.datasetId;
+
+  // Longest-path relaxation; bounded so cycles cannot loop forever
+  for (let pass = 0; pass < graph.datasets.length; pass++) {
+    let changed = false;
+    for (const edge of graph.edges) {
+      const from = datasetOf(edge.from);
+      const to = datasetOf(edge.to);
+      if (!from || !to || from === to) continue;
+      const next = (columns.get(from) ?? 0) + 1;
+      if (next > (columns.get(to) ?? 0)) {
+        columns.set(to, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return columns;
+}
+
+/**
+ * Plain JSON form of the graph
+ */
+export function exportLineageToJson(graph: ColumnLineageGraph): string {
+  return JSON.stringify(
+    {
+      generated_at: new Date().toISOString(),
+      datasets: graph.datasets.map(({ nodeIds, ...dataset }) => ({
+        ...dataset,
+        fields: nodeIds.map((id) => graph.nodes.get(id)),
+      })),
+      edges: graph.edges.map(({ id: _id, ...edge }) => edge),
+      unresolved: graph.unresolved,
+    },
+    null,
+    2
+  );
+}
+
+const OPENLINEAGE_PRODUCER = 'https://github.com/OffeneDatenmodellierung/data-modelling-frontend';
+const SCHEMA_FACET_URL =
+  'https://openlineage.io/spec/facets/1-1-1/SchemaDatasetFacet.json#/$defs/SchemaDatasetFacet';
+const COLUMN_LINEAGE_FACET_URL =
+  'https://openlineage.io/spec/facets/1-2-0/ColumnLineageDatasetFacet.json#/$defs/ColumnLineageDatasetFacet';
+
+export interface OpenLineageDataset {
+  namespace: string;
+  name: string;
+  facets: {
+    schema: {
+      _producer: string;
+      _schemaURL: string;
+      fields: Array<{ name: string; type?: string; description?: string }>;
+    };
+    columnLineage?: {
+      _producer: string;
+      _schemaURL: string;
+      fields: Record<
+        string,
+        {
+          inputFields: Array<{
+            namespace: string;
+            name: string;
+            field: string;
+            transformations: Array<{ type: 'DIRECT'; subtype: string; description?: string }>;
+          }>;
+        }
+      >;
+    };
+  };
+}
+
+/**
+ * OpenLineage datasets with schema and column lineage facets, one per table and metric
+ * view. Data products are not datasets and are left out.
+ */
+export function exportLineageToOpenLineage(
+  graph: ColumnLineageGraph,
+  namespace: string
+): OpenLineageDataset[] {
+  const datasetsById = new Map(graph.datasets.map((d) => [d.id, d]));
+  const subtype = (edge: LineageEdge) => {
+    if (edge.kind === 'metric') {
+      return edge.logic && AGGREGATE_PATTERN.test(edge.logic) ? 'AGGREGATION' : 'TRANSFORMATION';
+    }
+    return edge.kind === 'transform' && edge.logic ? 'TRANSFORMATION' : 'IDENTITY';
+  };
+
+  return graph.datasets
+    .filter((dataset) => dataset.kind !== 'data-product')
+    .map((dataset) => {
+      const fields = dataset.nodeIds
+        .map((id) => graph.nodes.get(id))
+        .filter((n): n is LineageNode => !!n);
+      const lineage: NonNullable<OpenLineageDataset['facets']['columnLineage']>['fields'] = {};
+      for (const field of fields) {
+        const inputFields = (graph.upstream.get(field.id) ?? []).flatMap((edge) => {
+          const source = graph.nodes.get(edge.from);
+          const sourceDataset = source && datasetsById.get(source.datasetId);
+          if (!source || !sourceDataset) return [];
+          const description = [edge.logic, edge.description].filter(Boolean).join(' — ');
+          return [
+            {
+              namespace,
+              name: sourceDataset.qualifiedName,
+              field: source.name,
+              transformations: [
+                {
+                  type: 'DIRECT' as const,
+                  subtype: subtype(edge),
+                  ...(description && { description }),
+                },
+              ],
+            },
+          ];
+        });
+        if (inputFields.length > 0) lineage[field.name] = { inputFields };
+      }
+
+      return {
+        namespace,
+        name: dataset.qualifiedName,
+        facets: {
+          schema: {
+            _producer: OPENLINEAGE_PRODUCER,
+            _schemaURL: SCHEMA_FACET_URL,
+            fields: fields.map((f) => ({
+              name: f.name,
+              ...(f.dataType && { type: f.dataType }),
+              ...(f.transformDescription && { description: f.transformDescription }),
+            })),
+          },
+          ...(Object.keys(lineage).length > 0 && {
+            columnLineage: {
+              _producer: OPENLINEAGE_PRODUCER,
+              _schemaURL: COLUMN_LINEAGE_FACET_URL,
+              fields: lineage,
+            },
+          }),
+        },
+      };
+    });
+}
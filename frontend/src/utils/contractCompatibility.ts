@@ -0,0 +1,453 @@
+/**
+ * Contract compatibility
+ *
+ * Compares two versions of a table's ODCS contract (e.g. at two git refs, or the working
+ * copy against HEAD) from the point of view of its consumers. Each change is
+ * - breaking: dropped or renamed columns, narrowed or changed types, nullable → required,
+ *   primary key changes, removed enum (valid) values, a dropped or renamed table
+ * - additive: new columns, widened types, required → nullable, new enum values
+ * - cosmetic: descriptions, tags and other documentation
+ * and the most severe change decides the suggested semantic version bump.
+ */
+
+import type { Column, Table } from '@/types/table';
+import { odcsService } from '@/services/sdk/odcsService';
+
+export type ContractChangeImpact = 'breaking' | 'additive' | 'cosmetic';
+
+export type SemverBump = 'major' | 'minor' | 'patch' | 'none';
+
+// Most severe first
+export const CONTRACT_CHANGE_IMPACTS: ContractChangeImpact[] = ['breaking', 'additive', 'cosmetic'];
+
+const BUMPS: Record<ContractChangeImpact, SemverBump> = {
+  breaking: 'major',
+  additive: 'minor',
+  cosmetic: 'patch',
+};
+
+export interface ContractChange {
+  impact: ContractChangeImpact;
+  columnName?: string; // Column the change applies to, if any
+  message: string;
+}
+
+export interface ContractCompatibilityReport {
+  path?: string; // Contract file
+  tableId: string;
+  tableName: string;
+  changes: ContractChange[];
+  impact?: ContractChangeImpact; // Most severe change; undefined when nothing changed
+  bump: SemverBump;
+  previousVersion?: string;
+  version?: string;
+  suggestedVersion?: string; // Previous version with the bump applied, if it is semver
+  versionBumped: boolean; // Whether the new version already carries at least the bump
+  error?: string; // The contract could not be parsed
+}
+
+export interface ContractFileVersions {
+  path: string;
+  before?: string; // Contract YAML; undefined when the file was added
+  after?: string; // Undefined when the file was deleted
+}
+
+export const isContractFile = (path: string) => /\.odcs\.ya?ml$/i.test(path);
+
+// ============================================================================
+// Data types
+// ============================================================================
+
+export type DataTypeChange = 'same' | 'widened' | 'narrowed' | 'changed';
+
+interface ParsedType {
+  family: 'integer' | 'float' | 'decimal' | 'string' | 'other';
+  base: string;
+  width: number; // Rank within integer and float families
+  args: number[];
+}
+
+const TYPE_ALIASES: Record<string, string> = {
+  INTEGER: 'INT',
+  INT4: 'INT',
+  INT8: 'BIGINT',
+  LONG: 'BIGINT',
+  INT2: 'SMALLINT',
+  SHORT: 'SMALLINT',
+  BYTE: 'TINYINT',
+  REAL: 'FLOAT',
+  FLOAT4: 'FLOAT',
+  FLOAT8: 'DOUBLE',
+  'DOUBLE PRECISION': 'DOUBLE',
+  NUMERIC: 'DECIMAL',
+  NUMBER: 'DECIMAL',
+  BOOL: 'BOOLEAN',
+  TEXT: 'STRING',
+  'CHARACTER VARYING': 'VARCHAR',
+  NVARCHAR: 'VARCHAR',
+  CHARACTER: 'CHAR',
+  NCHAR: 'CHAR',
+};
+
+const INTEGER_WIDTHS: Record<string, number> = { TINYINT: 1, SMALLINT: 2, INT: 3, BIGINT: 4 };
+const FLOAT_WIDTHS: Record<string, number> = { FLOAT: 1, DOUBLE: 2 };
+
+function parseDataType(dataType: string): ParsedType {
+  const match = dataType
+    .trim()
+    .toUpperCase()
+    .match(/^([A-Z][A-Z0-9 ]*?)\s*(?:\(([^)]*)\))?$/);
+  const raw = match?.[1] ?? dataType.trim().toUpperCase();
+  const base = TYPE_ALIASES[raw] ?? raw;
+  const args = (match?.[2] ?? '')
+    .split(',')
+    .map((a) => parseInt(a.trim(), 10))
+    .filter((n) => !isNaN(n));
+
+  if (INTEGER_WIDTHS[base]) return { family: 'integer', base, width: INTEGER_WIDTHS[base], args };
+  if (FLOAT_WIDTHS[base]) return { family: 'float', base, width: FLOAT_WIDTHS[base], args };
+  if (base === 'DECIMAL') return { family: 'decimal', base, width: 0, args };
+  if (['STRING', 'VARCHAR', 'CHAR'].includes(base)) {
+    return { family: 'string', base, width: 0, args };
+  }
+  return { family: 'other', base, width: 0, args };
+}
+
+// A missing bound is unbounded
+const compareBounds = (before: number | undefined, after: number | undefined): DataTypeChange => {
+  const b = before ?? Infinity;
+  const a = after ?? Infinity;
+  return a === b ? 'same' : a > b ? 'widened' : 'narrowed';
+};
+
+const combine = (...changes: DataTypeChange[]): DataTypeChange =>
+  changes.includes('narrowed') ? 'narrowed' : changes.includes('widened') ? 'widened' : 'same';
+
+/**
+ * How a column type changed for readers: widened types accept every old value,
+ * narrowed types do not, changed types are incompatible
+ */
+export function compareDataTypes(before: string, after: string): DataTypeChange {
+  const b = parseDataType(before);
+  const a = parseDataType(after);
+
+  if (b.family === 'integer' && a.family === 'integer') {
+    return a.width === b.width ? 'same' : a.width > b.width ? 'widened' : 'narrowed';
+  }
+  if (b.family === 'float' && a.family === 'float') {
+    return a.width === b.width ? 'same' : a.width > b.width ? 'widened' : 'narrowed';
+  }
+  if (b.family === 'integer' && (a.family === 'float' || a.family === 'decimal')) {
+    return 'widened';
+  }
+  if ((b.family === 'float' || b.family === 'decimal') && a.family === 'integer') {
+    return 'narrowed';
+  }
+  if (b.family === 'decimal' && a.family === 'decimal') {
+    // Integer digits and scale must both be kept
+    const [bp, bs = 0] = b.args;
+    const [ap, as = 0] = a.args;
+    if (bp === undefined || ap === undefined) return bp === ap ? 'same' : compareBounds(bp, ap);
+    return combine(compareBounds(bp - bs, ap - as), compareBounds(bs, as));
+  }
+  if (b.family === 'string' && a.family === 'string') {
+    const length = compareBounds(
+      b.base === 'STRING' ? undefined : b.args[0],
+      a.base === 'STRING' ? undefined : a.args[0]
+    );
+    // Fixed-length CHAR pads its values, so CHAR → VARCHAR is widening but not the reverse
+    if (b.base === 'CHAR' && a.base !== 'CHAR') return combine(length, 'widened');
+    if (b.base !== 'CHAR' && a.base === 'CHAR') return 'narrowed';
+    return length;
+  }
+  if (a.base === b.base) {
+    return a.args.join(',') === b.args.join(',') ? 'same' : 'changed';
+  }
+  return 'changed';
+}
+
+// ============================================================================
+// Contracts
+// ============================================================================
+
+const COSMETIC_TABLE_FIELDS: Array<keyof Table> = ['alias', 'description', 'owner', 'tags'];
+
+const COSMETIC_COLUMN_FIELDS: Array<keyof Column> = [
+  'description',
+  'businessName',
+  'classification',
+  'criticalDataElement',
+  'examples',
+  'tags',
+  'authoritativeDefinitions',
+  'transformLogic',
+  'transformDescription',
+];
+
+const FIELD_LABELS: Partial<Record<string, string>> = {
+  businessName: 'business name',
+  criticalDataElement: 'critical data element flag',
+  authoritativeDefinitions: 'authoritative definitions',
+  transformLogic: 'transform logic',
+  transformDescription: 'transform description',
+};
+
+// Missing, null and empty values count as the same "unset" value
+const normalize = (value: unknown): unknown =>
+  value === null || value === '' || (Array.isArray(value) && value.length === 0)
+    ? undefined
+    : value;
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+const validValues = (column: Column): string[] | undefined => {
+  const values = column.constraints?.validValues ?? column.constraints?.valid_values;
+  return Array.isArray(values) ? values.map(String) : undefined;
+};
+
+// Primary key columns in key order: the compound primary key, or flagged columns
+const primaryKey = (table: Table): string[] => {
+  const compound = table.compoundKeys?.find((k) => k.is_primary);
+  const names = new Map(table.columns.map((c) => [c.id, c.name]));
+  if (compound) return compound.column_ids.map((id) => names.get(id) ?? id);
+  return table.columns
+    .filter((c) => c.is_primary_key)
+    .sort((a, b) => (a.primaryKeyPosition ?? 0) - (b.primaryKeyPosition ?? 0))
+    .map((c) => c.name);
+};
+
+const tableVersion = (table: Table | undefined): string | undefined => {
+  const version = table?.metadata?.version;
+  return typeof version === 'string' || typeof version === 'number' ? String(version) : undefined;
+};
+
+const parseSemver = (version: string | undefined) => {
+  const match = version?.trim().match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  return match ? match.slice(1, 4).map(Number) : undefined;
+};
+
+/**
+ * Apply a bump to a semantic version; undefined if the version is not semver
+ */
+export function bumpVersion(version: string | undefined, bump: SemverBump): string | undefined {
+  const parts = parseSemver(version);
+  if (!parts) return undefined;
+  const [major = 0, minor = 0, patch = 0] = parts;
+  switch (bump) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    case 'patch':
+      return `${major}.${minor}.${patch + 1}`;
+    default:
+      return `${major}.${minor}.${patch}`;
+  }
+}
+
+// Whether `version` is at least `required` (both semver)
+const versionAtLeast = (version: string | undefined, required: string | undefined) => {
+  const v = parseSemver(version);
+  const r = parseSemver(required);
+  if (!v || !r) return false;
+  for (let i = 0; i < 3; i++) {
+    if (v[i]! !== r[i]!) return v[i]! > r[i]!;
+  }
+  return true;
+};
+
+function compareColumns(before: Table, after: Table): ContractChange[] {
+  const changes: ContractChange[] = [];
+  const add = (impact: ContractChangeImpact, columnName: string, message: string) =>
+    changes.push({ impact, columnName, message });
+
+  const matched = new Set<Column>();
+  for (const next of after.columns) {
+    const previous =
+      before.columns.find((c) => c.id === next.id) ??
+      before.columns.find((c) => c.name === next.name && !after.columns.some((a) => a.id === c.id));
+    if (!previous) {
+      add(
+        'additive',
+        next.name,
+        `Column added (${next.data_type}${next.nullable ? '' : ', required'})`
+      );
+      continue;
+    }
+    matched.add(previous);
+
+    if (previous.name !== next.name) {
+      add('breaking', next.name, `Column renamed from "${previous.name}"`);
+    }
+
+    const typeChange = compareDataTypes(previous.data_type, next.data_type);
+    if (typeChange === 'narrowed') {
+      add('breaking', next.name, `Type narrowed from ${previous.data_type} to ${next.data_type}`);
+    } else if (typeChange === 'changed') {
+      add('breaking', next.name, `Type changed from ${previous.data_type} to ${next.data_type}`);
+    } else if (typeChange === 'widened') {
+      add('additive', next.name, `Type widened from ${previous.data_type} to ${next.data_type}`);
+    } else if (previous.data_type !== next.data_type) {
+      add('cosmetic', next.name, `Type spelled ${next.data_type} instead of ${previous.data_type}`);
+    }
+
+    if (previous.nullable && !next.nullable) {
+      add('breaking', next.name, 'Changed from nullable to required');
+    } else if (!previous.nullable && next.nullable) {
+      add('additive', next.name, 'Changed from required to nullable');
+    }
+
+    const beforeValues = validValues(previous);
+    const afterValues = validValues(next);
+    if (beforeValues && afterValues) {
+      const removed = beforeValues.filter((v) => !afterValues.includes(v));
+      const added = afterValues.filter((v) => !beforeValues.includes(v));
+      if (removed.length > 0) {
+        add('breaking', next.name, `Valid value(s) removed: ${removed.join(', ')}`);
+      }
+      if (added.length > 0) {
+        add('additive', next.name, `Valid value(s) added: ${added.join(', ')}`);
+      }
+    } else if (!beforeValues && afterValues) {
+      add('breaking', next.name, `Values restricted to ${afterValues.join(', ')}`);
+    } else if (beforeValues && !afterValues) {
+      add('additive', next.name, 'Valid values restriction removed');
+    }
+
+    const cosmetic = COSMETIC_COLUMN_FIELDS.filter((f) => !sameValue(previous[f], next[f]));
+    if (cosmetic.length > 0) {
+      add(
+        'cosmetic',
+        next.name,
+        `Changed ${cosmetic.map((f) => FIELD_LABELS[f] ?? String(f)).join(', ')}`
+      );
+    }
+  }
+  for (const column of before.columns.filter((c) => !matched.has(c))) {
+    add('breaking', column.name, 'Column dropped');
+  }
+
+  const order = (table: Table, names: Set<string>) =>
+    [...table.columns]
+      .sort((a, b) => a.order - b.order)
+      .map((c) => c.name)
+      .filter((n) => names.has(n));
+  const common = new Set(
+    after.columns.filter((c) => before.columns.some((b) => b.name === c.name)).map((c) => c.name)
+  );
+  if (order(before, common).join() !== order(after, common).join()) {
+    changes.push({ impact: 'cosmetic', message: 'Column order changed' });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two versions of a table contract. Either side may be missing when the table
+ * was added or removed.
+ */
+export function compareTableContracts(
+  before: Table | undefined,
+  after: Table | undefined
+): ContractCompatibilityReport {
+  const table = (after ?? before)!;
+  const changes: ContractChange[] = [];
+
+  if (!before) {
+    changes.push({ impact: 'additive', message: 'Table added' });
+  } else if (!after) {
+    changes.push({ impact: 'breaking', message: 'Table removed' });
+  } else {
+    if (before.name !== after.name) {
+      changes.push({ impact: 'breaking', message: `Table renamed from "${before.name}"` });
+    }
+    const beforeKey = primaryKey(before);
+    const afterKey = primaryKey(after);
+    if (beforeKey.join() !== afterKey.join()) {
+      changes.push({
+        impact: 'breaking',
+        message: `Primary key changed from (${beforeKey.join(', ') || 'none'}) to (${afterKey.join(', ') || 'none'})`,
+      });
+    }
+    changes.push(...compareColumns(before, after));
+    const cosmetic = COSMETIC_TABLE_FIELDS.filter((f) => !sameValue(before[f], after[f]));
+    if (cosmetic.length > 0) {
+      changes.push({ impact: 'cosmetic', message: `Changed table ${cosmetic.join(', ')}` });
+    }
+  }
+
+  changes.sort(
+    (a, b) => CONTRACT_CHANGE_IMPACTS.indexOf(a.impact) - CONTRACT_CHANGE_IMPACTS.indexOf(b.impact)
+  );
+  const impact = changes[0]?.impact;
+  const bump = impact ? BUMPS[impact] : 'none';
+  const previousVersion = before ? tableVersion(before) : undefined;
+  const version = tableVersion(after);
+  const suggestedVersion = before ? bumpVersion(previousVersion, bump) : version;
+
+  return {
+    tableId: table.id,
+    tableName: table.name,
+    changes,
+    impact,
+    bump,
+    previousVersion,
+    version,
+    suggestedVersion,
+    versionBumped: bump === 'none' || !before || versionAtLeast(version, suggestedVersion),
+  };
+}
+
+/**
+ * The largest bump of several reports
+ */
+export function combinedBump(reports: ContractCompatibilityReport[]): SemverBump {
+  const order: SemverBump[] = ['major', 'minor', 'patch', 'none'];
+  return reports.reduce<SemverBump>(
+    (largest, r) => (order.indexOf(r.bump) < order.indexOf(largest) ? r.bump : largest),
+    'none'
+  );
+}
+
+const parseContract = async (content: string | undefined): Promise<Table[]> =>
+  content?.trim() ? (await odcsService.parseYAML(content)).tables : [];
+
+/**
+ * Parse both versions of each contract file and compare its tables, matched by ID and
+ * then by name. Files without changes to their contract are left out.
+ */
+export async function analyzeContractFiles(
+  files: ContractFileVersions[]
+): Promise<ContractCompatibilityReport[]> {
+  const reports: ContractCompatibilityReport[] = [];
+  for (const file of files.filter((f) => isContractFile(f.path))) {
+    try {
+      const [before, after] = await Promise.all([
+        parseContract(file.before),
+        parseContract(file.after),
+      ]);
+      const matched = new Set<Table>();
+      for (const table of after) {
+        const previous =
+          before.find((t) => t.id === table.id) ?? before.find((t) => t.name === table.name);
+        if (previous) matched.add(previous);
+        reports.push({ ...compareTableContracts(previous, table), path: file.path });
+      }
+      for (const table of before.filter((t) => !matched.has(t))) {
+        reports.push({ ...compareTableContracts(table, undefined), path: file.path });
+      }
+    } catch (error) {
+      reports.push({
+        path: file.path,
+        tableId: file.path,
+        tableName: file.path.split('/').pop() ?? file.path,
+        changes: [],
+        bump: 'none',
+        versionBumped: true,
+        error: error instanceof Error ? error.message : 'Contract could not be parsed',
+      });
+    }
+  }
+  return reports.filter((r) => r.changes.length > 0 || r.error);
+}
@@ -5,7 +5,7 @@
  * stored in the ODCS-compliant Array<{property, value}> format.
  */
 
-import type { CustomProperty } from '@/types/table';
+import type { Column, CustomProperty, DimensionalRole, SCDType, Table } from '@/types/table';
 
 /** Reserved customProperties key for source topic grouping */
 export const SOURCE_TOPIC_KEY = 'source_topic';
@@ -92,3 +92,87 @@ export function getResourceType(
   if (!VALID_RESOURCE_TYPES.includes(val)) return undefined;
   return val === 'table' ? undefined : val;
 }
+
+/** Reserved customProperties keys for dimensional modeling metadata */
+export const DIMENSIONAL_ROLE_KEY = 'dimensional_role';
+export const GRAIN_COLUMNS_KEY = 'grain_columns';
+export const CONFORMED_DIMENSION_KEY = 'conformed_dimension';
+export const SCD_TYPE_KEY = 'scd_type';
+
+const DIMENSIONAL_KEYS = [DIMENSIONAL_ROLE_KEY, GRAIN_COLUMNS_KEY, CONFORMED_DIMENSION_KEY];
+const VALID_DIMENSIONAL_ROLES: DimensionalRole[] = ['fact', 'dimension', 'bridge'];
+const VALID_SCD_TYPES: SCDType[] = [0, 1, 2, 3, 4, 6];
+
+export type DimensionalProperties = Pick<
+  Table,
+  'dimensionalRole' | 'grainColumns' | 'conformedDimension'
+>;
+
+/**
+ * Extract the dimensional role, grain and conformed flag of a table from its
+ * customProperties. Unset or invalid values are left out.
+ */
+export function getDimensionalProperties(
+  customProps: CustomProperty[] | undefined
+): DimensionalProperties {
+  if (!customProps || !Array.isArray(customProps)) return {};
+  const value = (key: string) => customProps.find((p) => p.property === key)?.value;
+  const role = value(DIMENSIONAL_ROLE_KEY);
+  const grain = value(GRAIN_COLUMNS_KEY);
+  const conformed = value(CONFORMED_DIMENSION_KEY);
+  return {
+    ...(VALID_DIMENSIONAL_ROLES.includes(role as DimensionalRole) && {
+      dimensionalRole: role as DimensionalRole,
+    }),
+    ...(Array.isArray(grain) &&
+      grain.length > 0 && { grainColumns: grain.filter((c) => typeof c === 'string') }),
+    ...(conformed === true && { conformedDimension: true }),
+  };
+}
+
+/**
+ * Return a new customProperties array with the table's dimensional metadata set.
+ * Preserves all other existing properties.
+ */
+export function setDimensionalProperties(
+  customProps: CustomProperty[] | undefined,
+  properties: DimensionalProperties
+): CustomProperty[] {
+  const filtered = (customProps || []).filter((p) => !DIMENSIONAL_KEYS.includes(p.property));
+  if (properties.dimensionalRole) {
+    filtered.push({ property: DIMENSIONAL_ROLE_KEY, value: properties.dimensionalRole });
+  }
+  if (properties.grainColumns && properties.grainColumns.length > 0) {
+    filtered.push({ property: GRAIN_COLUMNS_KEY, value: properties.grainColumns });
+  }
+  if (properties.conformedDimension) {
+    filtered.push({ property: CONFORMED_DIMENSION_KEY, value: true });
+  }
+  return filtered;
+}
+
+/**
+ * Extract the slowly changing dimension type of a column from its customProperties.
+ */
+export function getSCDType(customProps: CustomProperty[] | undefined): SCDType | undefined {
+  if (!customProps || !Array.isArray(customProps)) return undefined;
+  const raw = customProps.find((p) => p.property === SCD_TYPE_KEY)?.value;
+  if (typeof raw !== 'number' && (typeof raw !== 'string' || raw.trim() === '')) return undefined;
+  const value = Number(raw) as SCDType;
+  return VALID_SCD_TYPES.includes(value) ? value : undefined;
+}
+
+/**
+ * Return a new customProperties array with the column's SCD type set or removed.
+ * Preserves all other existing properties.
+ */
+export function setSCDType(
+  customProps: CustomProperty[] | undefined,
+  scdType: Column['scdType']
+): CustomProperty[] {
+  const filtered = (customProps || []).filter((p) => p.property !== SCD_TYPE_KEY);
+  if (scdType !== undefined) {
+    filtered.push({ property: SCD_TYPE_KEY, value: scdType });
+  }
+  return filtered;
+}
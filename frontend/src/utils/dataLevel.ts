@@ -0,0 +1,34 @@
+/**
+ * Data level of a table (operational, bronze, silver, gold)
+ *
+ * Kept out of the model store so validation code that also runs in the CLI does not
+ * pull in the stores.
+ */
+
+import type { DataLevel } from '@/stores/modelStore';
+import type { Table } from '@/types/table';
+
+// Helper function to extract data_level from dm_level tag
+const getDataLevelFromTags = (tags?: string[]): DataLevel | undefined => {
+  if (!tags || !Array.isArray(tags)) return undefined;
+
+  for (const tag of tags) {
+    if (typeof tag === 'string' && tag.toLowerCase().startsWith('dm_level:')) {
+      const levelValue = tag.substring('dm_level:'.length).toLowerCase();
+      if (['operational', 'bronze', 'silver', 'gold'].includes(levelValue)) {
+        return levelValue as DataLevel;
+      }
+    }
+  }
+  return undefined;
+};
+
+// Helper function to get effective data level (from field or tags)
+export const getEffectiveDataLevel = (table: Table): DataLevel | undefined => {
+  // First check the data_level field
+  if (table.data_level) {
+    return table.data_level;
+  }
+  // Fall back to extracting from dm_level tag
+  return getDataLevelFromTags(table.tags);
+};
@@ -0,0 +1,501 @@
+/**
+ * Data Vault 2.0 generator
+ *
+ * Generates a silver-layer Data Vault from logical tables:
+ * - a Hub per table, keyed by a hash of its business key
+ * - a Link per relationship between two of the tables
+ * - Satellites with the descriptive columns, optionally split by rate of change or
+ *   source system
+ *
+ * Every generated table carries the standard columns (hash keys, load_dts, record_source,
+ * hashdiff), `data_vault:*` and `dm_level:Silver` tags and a trace to its sources in
+ * `metadata.data_vault`. Generating again for the same sources updates the tables it
+ * generated before instead of adding new ones.
+ */
+
+import type { Column, Table } from '@/types/table';
+import type { System } from '@/types/system';
+import type { TransformationLinkV2 } from '@/types/workspace';
+import { SDKRelationshipType, type Relationship } from '@/types/relationship';
+import { generateUUID } from './validation';
+import { applyNamingStyle, primaryKeyColumns } from './modelDerivation';
+
+export type DataVaultKind = 'hub' | 'link' | 'satellite';
+
+export type SatelliteSplit = 'none' | 'rate-of-change' | 'source-system';
+
+export const SATELLITE_SPLITS: Array<{ value: SatelliteSplit; label: string }> = [
+  { value: 'none', label: 'One satellite per hub' },
+  { value: 'rate-of-change', label: 'By rate of change (change_rate tag)' },
+  { value: 'source-system', label: 'By source system (source_system tag or table system)' },
+];
+
+export type HashAlgorithm = 'MD5' | 'SHA1' | 'SHA256';
+
+export const HASH_ALGORITHMS: HashAlgorithm[] = ['MD5', 'SHA1', 'SHA256'];
+
+export interface DataVaultOptions {
+  satelliteSplit: SatelliteSplit;
+  hashAlgorithm: HashAlgorithm;
+}
+
+export interface DataVaultTrace {
+  kind: DataVaultKind;
+  source_table_ids: string[];
+  source_relationship_id?: string;
+  satellite_group?: string; // Rate of change or source system of a split satellite
+  options: DataVaultOptions;
+  generated_at: string;
+}
+
+export const DATA_VAULT_TRACE_KEY = 'data_vault';
+
+export interface DataVaultContext {
+  tables: Table[]; // All tables, including previously generated ones
+  relationships: Relationship[];
+  systems: System[];
+  transformationLinks: TransformationLinkV2[]; // Existing links of the domain
+}
+
+export interface DataVaultResult {
+  created: Table[];
+  updated: Table[]; // Previously generated tables whose columns changed
+  stale: Table[]; // Previously generated tables the sources no longer produce
+  relationships: Relationship[];
+  transformationLinks: TransformationLinkV2[];
+  warnings: string[];
+}
+
+export function getDataVaultTrace(table: Table): DataVaultTrace | undefined {
+  const trace = table.metadata?.[DATA_VAULT_TRACE_KEY];
+  return trace && typeof trace === 'object' ? (trace as DataVaultTrace) : undefined;
+}
+
+const LOAD_DTS = 'load_dts';
+const RECORD_SOURCE = 'record_source';
+const HASHDIFF = 'hashdiff';
+
+const entityName = (table: Table) => applyNamingStyle(table.name, 'snake_case');
+
+// Value of a column tag given as `{ key, value }` or as a `key:value` string
+const columnTag = (column: Column, key: string): string | undefined => {
+  for (const tag of column.tags ?? []) {
+    if (tag.key === key) return tag.value;
+    if (!tag.key && tag.value.toLowerCase().startsWith(`${key}:`)) {
+      return tag.value.slice(key.length + 1);
+    }
+  }
+  return undefined;
+};
+
+const hasTag = (column: Column, value: string) =>
+  column.tags?.some((tag) => !tag.key && tag.value.toLowerCase() === value) ?? false;
+
+const systemOf = (table: Table, systems: System[]): System | undefined => {
+  const systemId = table.metadata?.system_id as string | undefined;
+  return systemId
+    ? systems.find((s) => s.id === systemId)
+    : systems.find((s) => s.table_ids?.includes(table.id));
+};
+
+/**
+ * Business key of a table: columns tagged `business_key`, else the primary key unless it
+ * is a surrogate key, else the unique columns
+ */
+export function businessKeyColumns(table: Table): Column[] {
+  const columns = table.columns.filter((c) => !c.parent_column_id);
+  const tagged = columns.filter((c) => hasTag(c, 'business_key'));
+  if (tagged.length > 0) return tagged;
+  const primaryKey = primaryKeyColumns(table);
+  if (primaryKey.length > 0 && !primaryKey.every((c) => c.description === 'Surrogate key')) {
+    return primaryKey;
+  }
+  const unique = columns.filter((c) => (c.is_unique || c.unique) && !c.is_primary_key);
+  return unique.length > 0 ? unique : primaryKey;
+}
+
+const hashExpression = (algorithm: HashAlgorithm, columns: string[]) =>
+  `${algorithm}(${columns.map((c) => `UPPER(TRIM(CAST(${c} AS VARCHAR)))`).join(" || '||' || ")})`;
+
+const standardColumn = (
+  name: string,
+  fields: Partial<Column> = {}
+): Omit<Column, 'id' | 'table_id'> => ({
+  name,
+  data_type: 'string',
+  logicalType: 'string',
+  nullable: false,
+  is_primary_key: false,
+  is_foreign_key: false,
+  order: 0,
+  created_at: '',
+  ...fields,
+});
+
+const loadDtsColumn = (fields: Partial<Column> = {}) =>
+  standardColumn(LOAD_DTS, {
+    data_type: 'timestamp',
+    logicalType: 'date',
+    description: 'Load timestamp',
+    ...fields,
+  });
+
+const recordSourceColumn = (recordSource: string) =>
+  standardColumn(RECORD_SOURCE, {
+    description: 'Source system of the record',
+    transformLogic: `'${recordSource}'`,
+  });
+
+// Columns copied from a source table, with lineage back to the source column
+const copiedColumn = (source: Table, column: Column, fields: Partial<Column> = {}) =>
+  standardColumn(column.name, {
+    data_type: column.data_type,
+    logicalType: column.logicalType,
+    description: column.description,
+    nullable: column.nullable,
+    classification: column.classification,
+    transformSourceObjects: [`${source.name}.${column.name}`],
+    ...fields,
+  });
+
+interface PlannedTable {
+  key: string;
+  name: string;
+  kind: DataVaultKind;
+  sources: Table[];
+  relationship?: Relationship;
+  group?: string;
+  columns: Array<Omit<Column, 'id' | 'table_id'>>;
+  compoundKey?: string[]; // Column names of a compound primary key
+  description: string;
+  position: { x: number; y: number };
+}
+
+const traceKey = (kind: DataVaultKind, sourceIds: string[], group?: string) =>
+  `${kind}:${sourceIds.join('+')}:${group ?? ''}`;
+
+const columnSignature = (columns: Array<Pick<Column, 'name' | 'data_type' | 'is_primary_key'>>) =>
+  columns.map((c) => `${c.name}:${c.data_type}:${c.is_primary_key}`).join('|');
+
+/**
+ * Generate (or regenerate) the Data Vault for `sources`
+ */
+export function generateDataVault(
+  sources: Table[],
+  context: DataVaultContext,
+  options: DataVaultOptions
+): DataVaultResult {
+  const now = new Date().toISOString();
+  const warnings: string[] = [];
+  const planned: PlannedTable[] = [];
+  const hubKeyName = new Map<string, string>(); // source table → hub hash key column
+
+  // Generated tables sit to the right of their sources
+  const maxX = Math.max(...sources.map((t) => t.position_x + (t.width || 200)));
+  const offsetX =
+    sources.length > 0 ? maxX - Math.min(...sources.map((t) => t.position_x)) + 200 : 0;
+
+  for (const source of sources) {
+    const entity = entityName(source);
+    const businessKey = businessKeyColumns(source);
+    if (businessKey.length === 0) {
+      warnings.push(`"${source.name}" has no business key, primary key or unique column`);
+      continue;
+    }
+    const system = systemOf(source, context.systems);
+    const recordSource = system?.name ?? source.name;
+    const hashKey = `hk_${entity}`;
+    hubKeyName.set(source.id, hashKey);
+    const x = source.position_x + offsetX;
+
+    planned.push({
+      key: traceKey('hub', [source.id]),
+      name: `hub_${entity}`,
+      kind: 'hub',
+      sources: [source],
+      description: `Hub for the ${source.name} business key`,
+      position: { x, y: source.position_y },
+      columns: [
+        standardColumn(hashKey, {
+          is_primary_key: true,
+          description: `Hash key of the ${source.name} business key`,
+          transformLogic: hashExpression(
+            options.hashAlgorithm,
+            businessKey.map((c) => c.name)
+          ),
+          transformSourceObjects: businessKey.map((c) => `${source.name}.${c.name}`),
+        }),
+        ...businessKey.map((c) => copiedColumn(source, c, { nullable: false })),
+        loadDtsColumn(),
+        recordSourceColumn(recordSource),
+      ],
+    });
+
+    // Descriptive columns: everything but key and foreign key columns
+    const keyIds = new Set([...businessKey, ...primaryKeyColumns(source)].map((c) => c.id));
+    const descriptive = source.columns.filter(
+      (c) => !c.parent_column_id && !keyIds.has(c.id) && !c.is_foreign_key
+    );
+    const groups = new Map<string, { label?: string; columns: Column[] }>();
+    for (const column of descriptive) {
+      const label =
+        options.satelliteSplit === 'rate-of-change'
+          ? columnTag(column, 'change_rate')
+          : options.satelliteSplit === 'source-system'
+            ? (columnTag(column, 'source_system') ?? system?.name)
+            : undefined;
+      const groupKey = label ? applyNamingStyle(label, 'snake_case') : '';
+      const entry = groups.get(groupKey) ?? { label, columns: [] };
+      entry.columns.push(column);
+      groups.set(groupKey, entry);
+    }
+
+    [...groups].forEach(([group, { label, columns }], i) => {
+      planned.push({
+        key: traceKey('satellite', [source.id], group || undefined),
+        name: group && groups.size > 1 ? `sat_${entity}_${group}` : `sat_${entity}`,
+        kind: 'satellite',
+        sources: [source],
+        group: group || undefined,
+        description: `Descriptive attributes of ${source.name}${group ? ` (${group})` : ''}`,
+        position: { x: x + 350, y: source.position_y + i * 250 },
+        compoundKey: [hashKey, LOAD_DTS],
+        columns: [
+          standardColumn(hashKey, {
+            is_foreign_key: true,
+            description: `Hash key of the parent hub`,
+          }),
+          loadDtsColumn(),
+          standardColumn(HASHDIFF, {
+            description: 'Hash of the descriptive columns, to detect changes',
+            transformLogic: hashExpression(
+              options.hashAlgorithm,
+              columns.map((c) => c.name)
+            ),
+            transformSourceObjects: columns.map((c) => `${source.name}.${c.name}`),
+          }),
+          recordSourceColumn(
+            options.satelliteSplit === 'source-system' && label ? label : recordSource
+          ),
+          ...columns.map((c) => copiedColumn(source, c)),
+        ],
+      });
+    });
+  }
+
+  // Links from relationships between two tables that got a hub
+  for (const rel of context.relationships) {
+    const sourceId = rel.source_id || rel.source_table_id || '';
+    const targetId = rel.target_id || rel.target_table_id || '';
+    const parent = sources.find((t) => t.id === sourceId);
+    const child = sources.find((t) => t.id === targetId);
+    if (!parent || !child || parent === child) continue;
+    const parentKey = hubKeyName.get(parent.id);
+    const childKey = hubKeyName.get(child.id);
+    if (!parentKey || !childKey) continue;
+
+    const name = `${entityName(parent)}_${entityName(child)}`;
+    const recordSource = systemOf(child, context.systems)?.name ?? child.name;
+    planned.push({
+      key: traceKey('link', [parent.id, child.id]),
+      name: `lnk_${name}`,
+      kind: 'link',
+      sources: [parent, child],
+      relationship: rel,
+      description: `Link between ${parent.name} and ${child.name}`,
+      position: {
+        x: (parent.position_x + child.position_x) / 2 + offsetX,
+        y: (parent.position_y + child.position_y) / 2 + 150,
+      },
+      columns: [
+        standardColumn(`hk_${name}`, {
+          is_primary_key: true,
+          description: `Hash key of the ${parent.name}–${child.name} relationship`,
+          transformLogic: hashExpression(options.hashAlgorithm, [parentKey, childKey]),
+        }),
+        standardColumn(parentKey, {
+          is_foreign_key: true,
+          description: `Hash key of ${parent.name}`,
+        }),
+        standardColumn(childKey, {
+          is_foreign_key: true,
+          description: `Hash key of ${child.name}`,
+        }),
+        loadDtsColumn(),
+        recordSourceColumn(recordSource),
+      ],
+    });
+  }
+
+  // Match previously generated tables by kind, sources and satellite group
+  const sourceIds = new Set(sources.map((t) => t.id));
+  const previous = new Map<string, Table>();
+  for (const table of context.tables) {
+    const trace = getDataVaultTrace(table);
+    if (trace && trace.source_table_ids.every((id) => sourceIds.has(id))) {
+      previous.set(traceKey(trace.kind, trace.source_table_ids, trace.satellite_group), table);
+    }
+  }
+
+  const created: Table[] = [];
+  const updated: Table[] = [];
+  const byKey = new Map<string, Table>();
+  const template = sources[0];
+
+  for (const plan of planned) {
+    const existing = previous.get(plan.key);
+    previous.delete(plan.key);
+    const tableId = existing?.id ?? generateUUID();
+    const columns: Column[] = plan.columns.map((c, i) => ({
+      ...c,
+      id: existing?.columns.find((e) => e.name === c.name)?.id ?? generateUUID(),
+      table_id: tableId,
+      order: i,
+      created_at: now,
+    }));
+    const compoundKeys = plan.compoundKey
+      ? [
+          {
+            id: existing?.compoundKeys?.find((ck) => ck.is_primary)?.id ?? generateUUID(),
+            table_id: tableId,
+            column_ids: plan.compoundKey.map((name) => columns.find((c) => c.name === name)!.id),
+            is_primary: true,
+            created_at: now,
+          },
+        ]
+      : undefined;
+    const trace: DataVaultTrace = {
+      kind: plan.kind,
+      source_table_ids: plan.sources.map((t) => t.id),
+      ...(plan.relationship && { source_relationship_id: plan.relationship.id }),
+      ...(plan.group && { satellite_group: plan.group }),
+      options,
+      generated_at: now,
+    };
+    const tags = [
+      ...(existing?.tags ?? []).filter((tag) => !/^(data_vault|dm_level):/i.test(tag)),
+      `data_vault:${plan.kind}`,
+      'dm_level:Silver',
+    ];
+
+    if (existing) {
+      const table: Table = {
+        ...existing,
+        columns,
+        compoundKeys,
+        tags,
+        data_level: 'silver',
+        metadata: {
+          ...existing.metadata,
+          data_modeling_method: 'data_vault',
+          [DATA_VAULT_TRACE_KEY]: trace,
+        },
+        last_modified_at: now,
+      };
+      if (columnSignature(existing.columns) !== columnSignature(columns)) {
+        updated.push(table);
+      }
+      byKey.set(plan.key, table);
+      continue;
+    }
+
+    const table: Table = {
+      id: tableId,
+      workspace_id: template!.workspace_id,
+      primary_domain_id: template!.primary_domain_id,
+      name: plan.name,
+      model_type: 'logical',
+      description: plan.description,
+      columns,
+      compoundKeys,
+      tags,
+      data_level: 'silver',
+      visible_domains: [template!.primary_domain_id],
+      is_owned_by_domain: true,
+      position_x: plan.position.x,
+      position_y: plan.position.y,
+      width: 250,
+      height: 150,
+      metadata: {
+        data_modeling_method: 'data_vault',
+        [DATA_VAULT_TRACE_KEY]: trace,
+      },
+      created_at: now,
+      last_modified_at: now,
+    };
+    created.push(table);
+    byKey.set(plan.key, table);
+  }
+
+  // Hub → satellite and hub → link relationships, unless the pair is already connected
+  const connected = new Set(
+    context.relationships.map(
+      (r) => `${r.source_id || r.source_table_id}>${r.target_id || r.target_table_id}`
+    )
+  );
+  const relationships: Relationship[] = [];
+  const connect = (hub: Table, child: Table, keyName: string) => {
+    const parentKey = hub.columns.find((c) => c.name === keyName);
+    const childKey = child.columns.find((c) => c.name === keyName);
+    if (childKey && parentKey) childKey.foreign_key_reference = parentKey.id;
+    if (connected.has(`${hub.id}>${child.id}`)) return;
+    relationships.push({
+      id: generateUUID(),
+      workspace_id: hub.workspace_id,
+      domain_id: hub.primary_domain_id,
+      source_id: hub.id,
+      target_id: child.id,
+      source_type: 'table',
+      target_type: 'table',
+      source_table_id: hub.id,
+      target_table_id: child.id,
+      type: 'one-to-many',
+      source_cardinality: '1',
+      target_cardinality: 'N',
+      relationship_type: SDKRelationshipType.ForeignKey,
+      source_key: parentKey?.id,
+      target_key: childKey?.id,
+      foreign_key_details: { source_column: keyName, target_column: keyName },
+      model_type: 'logical',
+      is_circular: false,
+      created_at: now,
+      last_modified_at: now,
+    });
+  };
+  for (const plan of planned) {
+    const table = byKey.get(plan.key)!;
+    for (const source of plan.kind === 'hub' ? [] : plan.sources) {
+      const hub = byKey.get(traceKey('hub', [source.id]));
+      if (hub) connect(hub, table, hubKeyName.get(source.id)!);
+    }
+  }
+
+  // Transformation links from each source to the tables generated from it
+  const linked = new Set(
+    context.transformationLinks.map((l) => `${l.source_table_id}>${l.target_table_id}`)
+  );
+  const transformationLinks: TransformationLinkV2[] = [];
+  for (const plan of planned) {
+    const table = byKey.get(plan.key)!;
+    for (const source of plan.sources) {
+      if (linked.has(`${source.id}>${table.id}`)) continue;
+      transformationLinks.push({
+        id: generateUUID(),
+        name: `${source.name} → ${table.name}`,
+        transformation_type: `data_vault_${plan.kind}`,
+        source_table_id: source.id,
+        target_table_id: table.id,
+        description: `Loads ${table.name} from ${source.name}`,
+      });
+    }
+  }
+
+  return {
+    created,
+    updated,
+    stale: [...previous.values()],
+    relationships,
+    transformationLinks,
+    warnings,
+  };
+}
@@ -0,0 +1,676 @@
+/**
+ * DDL migration
+ *
+ * Generates the ALTER script that takes a database from one version of the model's tables
+ * (e.g. at a git ref) to another in one of the SQL dialects, together with the script that
+ * rolls it back. Tables and columns are matched by ID, falling back to their name, so
+ * renames become RENAME statements instead of a drop and an add. Covers columns (type,
+ * nullability, default), primary and unique keys including compound keys, foreign keys
+ * and indexes (`metadata.indexes`). Steps run in dependency order: constraints and indexes
+ * are dropped before the tables and columns they use change, and added after.
+ *
+ * Steps that lose data or fail on existing rows carry a warning. SQLite cannot alter
+ * columns or constraints, so those tables are rebuilt by copying them into a new table.
+ * Databricks has no unique constraints or secondary indexes, so those are left out.
+ */
+
+import type { Column, Table, TableIndex } from '@/types/table';
+import { compareDataTypes } from './contractCompatibility';
+import {
+  LOGICAL_DATA_TYPES,
+  isReservedWord,
+  toPhysicalType,
+  type LogicalDataType,
+  type SQLDialect,
+} from './sqlDialects';
+
+export interface MigrationStep {
+  description: string;
+  statements: string[];
+  warning?: string; // Why the step may lose data or fail on existing data
+}
+
+export interface DdlMigration {
+  dialect: SQLDialect;
+  steps: MigrationStep[];
+  rollback: MigrationStep[]; // Takes the database back to the first version
+}
+
+interface KeyConstraint {
+  name: string;
+  kind: 'primary' | 'unique';
+  columns: string[];
+}
+
+interface ForeignKey {
+  name: string;
+  column: string;
+  refTable: string;
+  refColumn: string;
+}
+
+interface IndexDefinition {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  clustered?: boolean;
+}
+
+interface Pair<T> {
+  before?: T;
+  after?: T;
+}
+
+// ============================================================================
+// Names and types
+// ============================================================================
+
+const SIMPLE_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const QUOTES: Record<SQLDialect, [string, string]> = {
+  postgresql: ['"', '"'],
+  sqlite: ['"', '"'],
+  mysql: ['`', '`'],
+  databricks: ['`', '`'],
+  mssql: ['[', ']'],
+};
+
+/**
+ * Identifier as written in a dialect: quoted only when it is reserved or not a plain name
+ */
+export function quoteIdentifier(name: string, dialect: SQLDialect): string {
+  if (SIMPLE_IDENTIFIER.test(name) && !isReservedWord(name, dialect)) return name;
+  const [open, close] = QUOTES[dialect];
+  return `${open}${name.split(close).join(close + close)}${close}`;
+}
+
+// Logical types (string, integer, ...) map onto the dialect; physical types are kept
+const columnType = (column: Column, dialect: SQLDialect): string => {
+  const type = column.data_type || 'string';
+  return (LOGICAL_DATA_TYPES as string[]).includes(type.toLowerCase())
+    ? toPhysicalType(type.toLowerCase() as LogicalDataType, dialect)
+    : type;
+};
+
+const sqlColumns = (table: Table) =>
+  table.columns.filter((c) => !c.parent_column_id).sort((a, b) => a.order - b.order);
+
+const columnNames = (table: Table, columnIds: string[]) => {
+  const names = new Map(table.columns.map((c) => [c.id, c.name]));
+  return columnIds.map((id) => names.get(id)).filter((name): name is string => !!name);
+};
+
+// Primary key, compound unique keys and unique columns
+function keyConstraints(table: Table, dialect: SQLDialect): KeyConstraint[] {
+  const columns = sqlColumns(table);
+  const compound = table.compoundKeys ?? [];
+  const primary = compound.find((k) => k.is_primary);
+  const primaryColumns = primary
+    ? columnNames(table, primary.column_ids)
+    : columns
+        .filter((c) => c.is_primary_key)
+        .sort((a, b) => (a.primaryKeyPosition ?? 0) - (b.primaryKeyPosition ?? 0))
+        .map((c) => c.name);
+
+  const keys: KeyConstraint[] = [];
+  if (primaryColumns.length > 0) {
+    keys.push({ name: `pk_${table.name}`, kind: 'primary', columns: primaryColumns });
+  }
+  if (dialect === 'databricks') return keys;
+  for (const key of compound.filter((k) => !k.is_primary)) {
+    const keyColumns = columnNames(table, key.column_ids);
+    if (keyColumns.length === 0) continue;
+    keys.push({
+      name: key.name || `uq_${table.name}_${keyColumns.join('_')}`,
+      kind: 'unique',
+      columns: keyColumns,
+    });
+  }
+  for (const column of columns) {
+    if (column.is_unique && !primaryColumns.includes(column.name)) {
+      keys.push({
+        name: `uq_${table.name}_${column.name}`,
+        kind: 'unique',
+        columns: [column.name],
+      });
+    }
+  }
+  return keys;
+}
+
+function foreignKeys(table: Table, columnsById: Map<string, [Table, Column]>): ForeignKey[] {
+  return sqlColumns(table).flatMap((column) => {
+    const ref = column.is_foreign_key && column.foreign_key_reference;
+    const target = ref ? columnsById.get(ref) : undefined;
+    if (!target) return [];
+    return [
+      {
+        name: `fk_${table.name}_${column.name}`,
+        column: column.name,
+        refTable: target[0].name,
+        refColumn: target[1].name,
+      },
+    ];
+  });
+}
+
+function indexes(table: Table, dialect: SQLDialect): IndexDefinition[] {
+  const tableIndexes = table.metadata?.indexes;
+  if (dialect === 'databricks' || !Array.isArray(tableIndexes)) return [];
+  return (tableIndexes as TableIndex[]).map((index) => ({
+    name: index.name,
+    columns: columnNames(table, index.column_ids),
+    unique: index.is_unique,
+    clustered: index.is_clustered,
+  }));
+}
+
+// Matches by ID, then by name among the rest
+function match<T extends { id: string; name: string }>(before: T[], after: T[]): Pair<T>[] {
+  const afterById = new Map(after.map((item) => [item.id, item]));
+  const matched = new Set<T>();
+  const pairs: Pair<T>[] = [];
+  const unmatchedBefore: T[] = [];
+  for (const item of before) {
+    const other = afterById.get(item.id);
+    if (other) {
+      pairs.push({ before: item, after: other });
+      matched.add(other);
+    } else {
+      unmatchedBefore.push(item);
+    }
+  }
+  for (const item of unmatchedBefore) {
+    const other = after.find((a) => !matched.has(a) && a.name === item.name);
+    if (other) matched.add(other);
+    pairs.push({ before: item, after: other });
+  }
+  for (const item of after) {
+    if (!matched.has(item)) pairs.push({ after: item });
+  }
+  return pairs;
+}
+
+// Definitions that changed between the versions, by name
+function changedDefinitions<T extends { name: string }>(before: T[], after: T[]) {
+  const same = (a: T, b: T) => JSON.stringify(a) === JSON.stringify(b);
+  return {
+    removed: before.filter((b) => !after.some((a) => same(a, b))),
+    added: after.filter((a) => !before.some((b) => same(a, b))),
+  };
+}
+
+// ============================================================================
+// Statements
+// ============================================================================
+
+class StatementBuilder {
+  constructor(private readonly dialect: SQLDialect) {}
+
+  q = (name: string) => quoteIdentifier(name, this.dialect);
+
+  columnDefinition(table: Table, column: Column, inline = true): string {
+    const parts = [this.q(column.name), columnType(column, this.dialect)];
+    // Delta tables cannot add a NOT NULL column; it is set afterwards
+    if (!column.nullable && (inline || this.dialect !== 'databricks')) parts.push('NOT NULL');
+    if (column.default_value) {
+      if (this.dialect === 'mssql') {
+        parts.push(`CONSTRAINT ${this.defaultConstraint(table.name, column.name)}`);
+      }
+      parts.push(`DEFAULT ${column.default_value}`);
+    }
+    return parts.join(' ');
+  }
+
+  keyClause(key: KeyConstraint): string {
+    const columns = key.columns.map(this.q).join(', ');
+    return `CONSTRAINT ${this.q(key.name)} ${key.kind === 'primary' ? 'PRIMARY KEY' : 'UNIQUE'} (${columns})`;
+  }
+
+  foreignKeyClause(fk: ForeignKey): string {
+    return `CONSTRAINT ${this.q(fk.name)} FOREIGN KEY (${this.q(fk.column)}) REFERENCES ${this.q(fk.refTable)} (${this.q(fk.refColumn)})`;
+  }
+
+  createTable(table: Table, name: string, keys: KeyConstraint[], fks: ForeignKey[]): string {
+    const lines = [
+      ...sqlColumns(table).map((c) => this.columnDefinition(table, c)),
+      ...keys.map((k) => this.keyClause(k)),
+      ...fks.map((fk) => this.foreignKeyClause(fk)),
+    ];
+    return `CREATE TABLE ${this.q(name)} (\n  ${lines.join(',\n  ')}\n);`;
+  }
+
+  dropTable(name: string): string {
+    return `DROP TABLE ${this.q(name)};`;
+  }
+
+  renameTable(from: string, to: string): string {
+    if (this.dialect === 'mssql') return `EXEC sp_rename '${from}', '${to}';`;
+    if (this.dialect === 'mysql') return `RENAME TABLE ${this.q(from)} TO ${this.q(to)};`;
+    return `ALTER TABLE ${this.q(from)} RENAME TO ${this.q(to)};`;
+  }
+
+  renameColumn(table: string, from: string, to: string): string {
+    if (this.dialect === 'mssql') return `EXEC sp_rename '${table}.${from}', '${to}', 'COLUMN';`;
+    return `ALTER TABLE ${this.q(table)} RENAME COLUMN ${this.q(from)} TO ${this.q(to)};`;
+  }
+
+  addColumn(table: Table, column: Column): string[] {
+    const definition = this.columnDefinition(table, column, false);
+    const statements = [
+      this.dialect === 'mssql'
+        ? `ALTER TABLE ${this.q(table.name)} ADD ${definition};`
+        : `ALTER TABLE ${this.q(table.name)} ADD COLUMN ${definition};`,
+    ];
+    if (this.dialect === 'databricks' && !column.nullable) {
+      statements.push(this.setNotNull(table.name, column.name, true));
+    }
+    return statements;
+  }
+
+  // previousTable is the table before the migration, which names the default constraint
+  dropColumn(table: Table, previousTable: Table, column: Column): string[] {
+    const statements = [];
+    if (this.dialect === 'mssql' && column.default_value) {
+      statements.push(
+        this.dropDefaultConstraint(
+          table.name,
+          this.defaultConstraint(previousTable.name, column.name)
+        )
+      );
+    }
+    statements.push(`ALTER TABLE ${this.q(table.name)} DROP COLUMN ${this.q(column.name)};`);
+    return statements;
+  }
+
+  setNotNull(table: string, column: string, notNull: boolean): string {
+    return `ALTER TABLE ${this.q(table)} ALTER COLUMN ${this.q(column)} ${notNull ? 'SET' : 'DROP'} NOT NULL;`;
+  }
+
+  // SQL Server default constraint of a column. sp_rename leaves constraints alone, so it
+  // keeps the table and column names of the version that set the default.
+  defaultConstraint(table: string, column: string): string {
+    return this.q(`df_${table}_${column}`);
+  }
+
+  dropDefaultConstraint(table: string, constraint: string): string {
+    return `ALTER TABLE ${this.q(table)} DROP CONSTRAINT ${constraint};`;
+  }
+
+  // Type, nullability and default of a column that exists in both versions; previousTable
+  // is the table before the migration
+  alterColumn(table: Table, previousTable: Table, before: Column, after: Column): string[] {
+    const t = this.q(table.name);
+    const c = this.q(after.name);
+    const type = columnType(after, this.dialect);
+    const typeChanged = columnType(before, this.dialect).toUpperCase() !== type.toUpperCase();
+    const nullChanged = before.nullable !== after.nullable;
+    const defaultChanged = (before.default_value ?? '') !== (after.default_value ?? '');
+
+    switch (this.dialect) {
+      case 'mysql':
+        return [`ALTER TABLE ${t} MODIFY COLUMN ${this.columnDefinition(table, after)};`];
+      case 'mssql': {
+        // SQL Server cannot alter a column that has a default constraint, so the constraint
+        // is dropped first and added again afterwards
+        const altered = typeChanged || nullChanged;
+        const statements = [];
+        if (before.default_value && (defaultChanged || altered)) {
+          statements.push(
+            this.dropDefaultConstraint(
+              table.name,
+              this.defaultConstraint(previousTable.name, before.name)
+            )
+          );
+        }
+        if (altered) {
+          statements.push(
+            `ALTER TABLE ${t} ALTER COLUMN ${c} ${type} ${after.nullable ? 'NULL' : 'NOT NULL'};`
+          );
+        }
+        if (after.default_value && (defaultChanged || altered)) {
+          statements.push(
+            `ALTER TABLE ${t} ADD CONSTRAINT ${this.defaultConstraint(table.name, after.name)} DEFAULT ${after.default_value} FOR ${c};`
+          );
+        }
+        return statements;
+      }
+      default: {
+        // PostgreSQL casts the default along with the column, which fails when it does not
+        // convert; the default is dropped before the type change and set again after it
+        const resetDefault = this.dialect === 'postgresql' && typeChanged && !!before.default_value;
+        const statements = [];
+        if (resetDefault) statements.push(`ALTER TABLE ${t} ALTER COLUMN ${c} DROP DEFAULT;`);
+        if (typeChanged) {
+          statements.push(
+            this.dialect === 'postgresql'
+              ? `ALTER TABLE ${t} ALTER COLUMN ${c} TYPE ${type} USING ${c}::${type};`
+              : `ALTER TABLE ${t} ALTER COLUMN ${c} TYPE ${type};`
+          );
+        }
+        if (nullChanged) statements.push(this.setNotNull(table.name, after.name, !after.nullable));
+        if (after.default_value && (defaultChanged || resetDefault)) {
+          statements.push(`ALTER TABLE ${t} ALTER COLUMN ${c} SET DEFAULT ${after.default_value};`);
+        } else if (defaultChanged && !resetDefault) {
+          statements.push(`ALTER TABLE ${t} ALTER COLUMN ${c} DROP DEFAULT;`);
+        }
+        return statements;
+      }
+    }
+  }
+
+  addKey(table: string, key: KeyConstraint): string {
+    return `ALTER TABLE ${this.q(table)} ADD ${this.keyClause(key)};`;
+  }
+
+  dropKey(table: string, key: KeyConstraint): string {
+    if (this.dialect === 'mysql') {
+      return key.kind === 'primary'
+        ? `ALTER TABLE ${this.q(table)} DROP PRIMARY KEY;`
+        : `ALTER TABLE ${this.q(table)} DROP INDEX ${this.q(key.name)};`;
+    }
+    return `ALTER TABLE ${this.q(table)} DROP CONSTRAINT ${this.q(key.name)};`;
+  }
+
+  addForeignKey(table: string, fk: ForeignKey): string {
+    return `ALTER TABLE ${this.q(table)} ADD ${this.foreignKeyClause(fk)};`;
+  }
+
+  dropForeignKey(table: string, fk: ForeignKey): string {
+    return this.dialect === 'mysql'
+      ? `ALTER TABLE ${this.q(table)} DROP FOREIGN KEY ${this.q(fk.name)};`
+      : `ALTER TABLE ${this.q(table)} DROP CONSTRAINT ${this.q(fk.name)};`;
+  }
+
+  createIndex(table: string, index: IndexDefinition): string {
+    const kind = [
+      index.unique ? 'UNIQUE' : '',
+      this.dialect === 'mssql' && index.clustered !== undefined
+        ? index.clustered
+          ? 'CLUSTERED'
+          : 'NONCLUSTERED'
+        : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+    return `CREATE ${kind ? `${kind} ` : ''}INDEX ${this.q(index.name)} ON ${this.q(table)} (${index.columns.map(this.q).join(', ')});`;
+  }
+
+  dropIndex(table: string, index: IndexDefinition): string {
+    return this.dialect === 'mysql' || this.dialect === 'mssql'
+      ? `DROP INDEX ${this.q(index.name)} ON ${this.q(table)};`
+      : `DROP INDEX ${this.q(index.name)};`;
+  }
+}
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+const columnLookup = (tables: Table[]) =>
+  new Map(tables.flatMap((t) => t.columns.map((c) => [c.id, [t, c]] as [string, [Table, Column]])));
+
+function typeChangeWarning(
+  table: Table,
+  before: Column,
+  after: Column,
+  dialect: SQLDialect
+): string | undefined {
+  const from = columnType(before, dialect);
+  const to = columnType(after, dialect);
+  if (from.toUpperCase() === to.toUpperCase()) return undefined;
+  const change = compareDataTypes(from, to);
+  if (change === 'narrowed') {
+    return `Narrows ${table.name}.${after.name} from ${from} to ${to}: values that do not fit fail or are truncated`;
+  }
+  if (change === 'changed') {
+    return `Changes ${table.name}.${after.name} from ${from} to ${to}: existing values must convert`;
+  }
+  return undefined;
+}
+
+function migrationSteps(before: Table[], after: Table[], dialect: SQLDialect): MigrationStep[] {
+  const sql = new StatementBuilder(dialect);
+  const beforeColumns = columnLookup(before);
+  const afterColumns = columnLookup(after);
+  const deltaNote =
+    dialect === 'databricks' ? " (Delta tables need 'delta.columnMapping.mode' = 'name')" : '';
+
+  // Steps by phase, in the order they run
+  const dropIndexes: MigrationStep[] = [];
+  const dropForeignKeys: MigrationStep[] = [];
+  const dropKeys: MigrationStep[] = [];
+  const dropTables: MigrationStep[] = [];
+  const tableChanges: MigrationStep[] = [];
+  const addKeys: MigrationStep[] = [];
+  const addForeignKeys: MigrationStep[] = [];
+  const createIndexes: MigrationStep[] = [];
+
+  for (const { before: oldTable, after: newTable } of match(before, after)) {
+    const oldKeys = oldTable ? keyConstraints(oldTable, dialect) : [];
+    const newKeys = newTable ? keyConstraints(newTable, dialect) : [];
+    const oldFks = oldTable ? foreignKeys(oldTable, beforeColumns) : [];
+    const newFks = newTable ? foreignKeys(newTable, afterColumns) : [];
+    const oldIndexes = oldTable ? indexes(oldTable, dialect) : [];
+    const newIndexes = newTable ? indexes(newTable, dialect) : [];
+    const keyChanges = changedDefinitions(oldKeys, newKeys);
+    const fkChanges = changedDefinitions(oldFks, newFks);
+    const indexChanges = changedDefinitions(oldIndexes, newIndexes);
+
+    if (!newTable && oldTable) {
+      // Its keys, indexes and outgoing foreign keys go with it
+      dropTables.push({
+        description: `Drop table ${oldTable.name}`,
+        statements: [sql.dropTable(oldTable.name)],
+        warning: `Drops table ${oldTable.name} and all of its data`,
+      });
+      continue;
+    }
+    if (!newTable) continue;
+
+    if (!oldTable) {
+      // SQLite cannot add constraints later, so its foreign keys are declared inline
+      const inlineFks = dialect === 'sqlite' ? newFks : [];
+      tableChanges.push({
+        description: `Create table ${newTable.name}`,
+        statements: [sql.createTable(newTable, newTable.name, newKeys, inlineFks)],
+      });
+      if (dialect !== 'sqlite') {
+        newFks.forEach((fk) =>
+          addForeignKeys.push({
+            description: `Add foreign key ${fk.name}`,
+            statements: [sql.addForeignKey(newTable.name, fk)],
+          })
+        );
+      }
+      newIndexes.forEach((index) =>
+        createIndexes.push({
+          description: `Create index ${index.name}`,
+          statements: [sql.createIndex(newTable.name, index)],
+        })
+      );
+      continue;
+    }
+
+    const columnPairs = match(sqlColumns(oldTable), sqlColumns(newTable));
+    const changedColumns = columnPairs.filter(
+      (p): p is Required<Pair<Column>> =>
+        !!p.before &&
+        !!p.after &&
+        (columnType(p.before, dialect).toUpperCase() !==
+          columnType(p.after, dialect).toUpperCase() ||
+          p.before.nullable !== p.after.nullable ||
+          (p.before.default_value ?? '') !== (p.after.default_value ?? ''))
+    );
+    const droppedColumns = columnPairs.flatMap((p) => (p.before && !p.after ? [p.before] : []));
+
+    // SQLite: copy the table into a new one when columns or constraints change
+    if (
+      dialect === 'sqlite' &&
+      (changedColumns.length > 0 ||
+        keyChanges.removed.length + keyChanges.added.length > 0 ||
+        fkChanges.removed.length + fkChanges.added.length > 0)
+    ) {
+      const copied = columnPairs.filter(
+        (p): p is Required<Pair<Column>> => !!p.before && !!p.after
+      );
+      const temporary = `${newTable.name}__new`;
+      const lost = droppedColumns.map((c) => c.name);
+      tableChanges.push({
+        description: `Rebuild table ${newTable.name}`,
+        statements: [
+          sql.createTable(newTable, temporary, newKeys, newFks),
+          `INSERT INTO ${sql.q(temporary)} (${copied.map((p) => sql.q(p.after.name)).join(', ')})\n  SELECT ${copied.map((p) => sql.q(p.before.name)).join(', ')} FROM ${sql.q(oldTable.name)};`,
+          sql.dropTable(oldTable.name),
+          sql.renameTable(temporary, newTable.name),
+        ],
+        warning:
+          `Rebuilds table ${newTable.name} because SQLite cannot alter its columns or constraints; ` +
+          `run with PRAGMA foreign_keys = OFF` +
+          (lost.length > 0 ? `. Drops the data of ${lost.join(', ')}` : ''),
+      });
+      newIndexes.forEach((index) =>
+        createIndexes.push({
+          description: `Create index ${index.name}`,
+          statements: [sql.createIndex(newTable.name, index)],
+        })
+      );
+      continue;
+    }
+
+    indexChanges.removed.forEach((index) =>
+      dropIndexes.push({
+        description: `Drop index ${index.name}`,
+        statements: [sql.dropIndex(oldTable.name, index)],
+      })
+    );
+    fkChanges.removed.forEach((fk) =>
+      dropForeignKeys.push({
+        description: `Drop foreign key ${fk.name}`,
+        statements: [sql.dropForeignKey(oldTable.name, fk)],
+      })
+    );
+    keyChanges.removed.forEach((key) =>
+      dropKeys.push({
+        description: `Drop ${key.kind === 'primary' ? 'primary key' : 'unique key'} ${key.name}`,
+        statements: [sql.dropKey(oldTable.name, key)],
+      })
+    );
+
+    if (oldTable.name !== newTable.name) {
+      tableChanges.push({
+        description: `Rename table ${oldTable.name} to ${newTable.name}`,
+        statements: [sql.renameTable(oldTable.name, newTable.name)],
+      });
+    }
+    for (const { before: oldColumn, after: newColumn } of columnPairs) {
+      if (oldColumn && newColumn && oldColumn.name !== newColumn.name) {
+        tableChanges.push({
+          description: `Rename column ${newTable.name}.${oldColumn.name} to ${newColumn.name}`,
+          statements: [sql.renameColumn(newTable.name, oldColumn.name, newColumn.name)],
+          warning: deltaNote ? `Renames ${oldColumn.name}${deltaNote}` : undefined,
+        });
+      }
+    }
+    for (const { before: oldColumn, after: newColumn } of columnPairs) {
+      if (!oldColumn && newColumn) {
+        tableChanges.push({
+          description: `Add column ${newTable.name}.${newColumn.name}`,
+          statements: sql.addColumn(newTable, newColumn),
+          warning:
+            !newColumn.nullable && !newColumn.default_value && dialect !== 'mysql'
+              ? `Adds required column ${newTable.name}.${newColumn.name} without a default: fails if the table has rows`
+              : undefined,
+        });
+      }
+    }
+    for (const { before: oldColumn, after: newColumn } of changedColumns) {
+      const warnings = [
+        typeChangeWarning(newTable, oldColumn, newColumn, dialect),
+        oldColumn.nullable && !newColumn.nullable
+          ? `Makes ${newTable.name}.${newColumn.name} required: fails if it has NULL values`
+          : undefined,
+      ].filter(Boolean);
+      tableChanges.push({
+        description: `Alter column ${newTable.name}.${newColumn.name}`,
+        statements: sql.alterColumn(newTable, oldTable, oldColumn, newColumn),
+        warning: warnings.length > 0 ? warnings.join('; ') : undefined,
+      });
+    }
+    for (const column of droppedColumns) {
+      tableChanges.push({
+        description: `Drop column ${newTable.name}.${column.name}`,
+        statements: sql.dropColumn(newTable, oldTable, column),
+        warning: `Drops column ${newTable.name}.${column.name} and its data${deltaNote}`,
+      });
+    }
+
+    keyChanges.added.forEach((key) =>
+      addKeys.push({
+        description: `Add ${key.kind === 'primary' ? 'primary key' : 'unique key'} ${key.name}`,
+        statements: [sql.addKey(newTable.name, key)],
+        warning: `Fails if ${newTable.name} has duplicate values in (${key.columns.join(', ')})`,
+      })
+    );
+    fkChanges.added.forEach((fk) =>
+      addForeignKeys.push({
+        description: `Add foreign key ${fk.name}`,
+        statements: [sql.addForeignKey(newTable.name, fk)],
+      })
+    );
+    indexChanges.added.forEach((index) =>
+      createIndexes.push({
+        description: `Create index ${index.name}`,
+        statements: [sql.createIndex(newTable.name, index)],
+      })
+    );
+  }
+
+  return [
+    ...dropIndexes,
+    ...dropForeignKeys,
+    ...dropKeys,
+    ...dropTables,
+    ...tableChanges,
+    ...addKeys,
+    ...addForeignKeys,
+    ...createIndexes,
+  ].filter((step) => step.statements.length > 0);
+}
+
+/**
+ * Migration from one version of the tables to another, and its rollback
+ */
+export function generateMigration(
+  before: Table[],
+  after: Table[],
+  dialect: SQLDialect
+): DdlMigration {
+  return {
+    dialect,
+    steps: migrationSteps(before, after, dialect),
+    rollback: migrationSteps(after, before, dialect),
+  };
+}
+
+/**
+ * SQL script of migration steps, with each step's warning as a comment
+ */
+export function formatMigrationScript(steps: MigrationStep[], title: string): string {
+  const warnings = steps.filter((s) => s.warning).length;
+  const lines = [`-- ${title}`];
+  if (steps.length === 0) {
+    lines.push('-- No schema changes');
+  } else {
+    lines.push(
+      `-- ${steps.length} step${steps.length === 1 ? '' : 's'}` +
+        (warnings > 0 ? `, ${warnings} with warnings` : '')
+    );
+  }
+  steps.forEach((step, i) => {
+    lines.push('', `-- ${i + 1}. ${step.description}`);
+    if (step.warning) lines.push(`-- WARNING: ${step.warning}`);
+    lines.push(...step.statements);
+  });
+  return `${lines.join('\n')}\n`;
+}
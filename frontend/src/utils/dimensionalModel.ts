@@ -0,0 +1,125 @@
+/**
+ * Dimensional modeling
+ *
+ * Labels for fact/dimension/bridge roles and SCD types, grain descriptions, and the
+ * enterprise bus matrix: which facts of a domain use which conformed dimensions.
+ */
+
+import type { DimensionalRole, SCDType, Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+
+export const DIMENSIONAL_ROLE_LABELS: Record<DimensionalRole, string> = {
+  fact: 'Fact',
+  dimension: 'Dimension',
+  bridge: 'Bridge',
+};
+
+export const SCD_TYPE_OPTIONS: Array<{ value: SCDType; label: string }> = [
+  { value: 0, label: 'Type 0 – Retain original' },
+  { value: 1, label: 'Type 1 – Overwrite' },
+  { value: 2, label: 'Type 2 – Add row (history)' },
+  { value: 3, label: 'Type 3 – Add previous-value column' },
+  { value: 4, label: 'Type 4 – History table' },
+  { value: 6, label: 'Type 6 – Hybrid (1 + 2 + 3)' },
+];
+
+/**
+ * Grain statement for a fact, e.g. "One row per order line per day". Uses the table's
+ * dataGranularityDescription, else the grain columns.
+ */
+export function describeGrain(table: Table): string | undefined {
+  if (table.dataGranularityDescription?.trim()) return table.dataGranularityDescription.trim();
+  if (!table.grainColumns || table.grainColumns.length === 0) return undefined;
+  return `One row per ${table.grainColumns.join(' per ')}`;
+}
+
+/**
+ * SCD types used by the columns of a dimension, in ascending order
+ */
+export function scdTypesOf(table: Table): SCDType[] {
+  const types = new Set(
+    table.columns.map((c) => c.scdType).filter((t): t is SCDType => t !== undefined)
+  );
+  return [...types].sort((a, b) => a - b);
+}
+
+export type BusMatrixCell = 'direct' | 'bridge';
+
+export interface BusMatrix {
+  facts: Table[];
+  dimensions: Table[]; // Conformed dimensions
+  cells: Record<string, Record<string, BusMatrixCell>>; // fact ID → dimension ID → link
+}
+
+const endpoints = (r: Relationship): [string, string] => [
+  r.source_id || r.source_table_id || '',
+  r.target_id || r.target_table_id || '',
+];
+
+const byName = (a: Table, b: Table) => a.name.localeCompare(b.name);
+
+/**
+ * Enterprise bus matrix for a domain: its facts against every conformed dimension of the
+ * workspace. A fact uses a dimension when a relationship connects them, directly or
+ * through a bridge table.
+ */
+export function buildBusMatrix(
+  tables: Table[],
+  relationships: Relationship[],
+  domainId: string
+): BusMatrix {
+  const facts = tables
+    .filter((t) => t.dimensionalRole === 'fact' && t.primary_domain_id === domainId)
+    .sort(byName);
+  const dimensions = tables
+    .filter((t) => t.dimensionalRole === 'dimension' && t.conformedDimension)
+    .sort(byName);
+  const bridgeIds = new Set(tables.filter((t) => t.dimensionalRole === 'bridge').map((t) => t.id));
+
+  const neighbours = new Map<string, Set<string>>();
+  for (const rel of relationships) {
+    const [a, b] = endpoints(rel);
+    if (!a || !b) continue;
+    if (!neighbours.has(a)) neighbours.set(a, new Set());
+    if (!neighbours.has(b)) neighbours.set(b, new Set());
+    neighbours.get(a)!.add(b);
+    neighbours.get(b)!.add(a);
+  }
+
+  const cells: BusMatrix['cells'] = {};
+  for (const fact of facts) {
+    const row: Record<string, BusMatrixCell> = {};
+    const direct = neighbours.get(fact.id) ?? new Set<string>();
+    for (const dimension of dimensions) {
+      if (direct.has(dimension.id)) {
+        row[dimension.id] = 'direct';
+      } else if (
+        [...direct].some((id) => bridgeIds.has(id) && neighbours.get(id)?.has(dimension.id))
+      ) {
+        row[dimension.id] = 'bridge';
+      }
+    }
+    cells[fact.id] = row;
+  }
+
+  return { facts, dimensions, cells };
+}
+
+const csvValue = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Bus matrix as CSV: one row per fact with its grain, one column per conformed dimension
+ */
+export function busMatrixToCsv(matrix: BusMatrix): string {
+  const header = ['Fact', 'Grain', ...matrix.dimensions.map((d) => d.name)];
+  const rows = matrix.facts.map((fact) => [
+    fact.name,
+    describeGrain(fact) ?? '',
+    ...matrix.dimensions.map((d) => {
+      const cell = matrix.cells[fact.id]?.[d.id];
+      return cell === 'direct' ? 'X' : cell === 'bridge' ? 'X (bridge)' : '';
+    }),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvValue).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,487 @@
+/**
+ * Orthogonal edge routing
+ *
+ * Routes edges as Manhattan polylines (horizontal and vertical segments only) that leave
+ * and enter nodes perpendicular to the connection side and detour around other nodes.
+ * The search runs Dijkstra over a sparse grid built from the obstacle borders, with a
+ * penalty per bend so routes prefer few corners over the shortest possible length.
+ *
+ * User-placed bend points (`visual_metadata.waypoints`) replace the automatic route; the
+ * polyline is then forced through every waypoint with elbows inserted where needed.
+ */
+
+import type { VisualMetadata } from '@/types/relationship';
+import { ANNOTATION_NODE_TYPES } from './canvasAnnotations';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PortSide = 'top' | 'right' | 'bottom' | 'left';
+
+export interface EdgeRouteInput {
+  source: Point;
+  sourceSide: PortSide;
+  target: Point;
+  targetSide: PortSide;
+  obstacles: Rect[];
+  waypoints?: Point[];
+}
+
+// Straight segment leaving/entering a node; clears the cardinality symbols drawn at the ends
+export const STUB_LENGTH = 30;
+// Clearance kept between a route and the nodes it avoids
+export const ROUTING_PADDING = 16;
+// Extra search space around the source/target bounding box
+const SEARCH_MARGIN = 200;
+// Cost of one corner, in pixels of route length
+const BEND_PENALTY = 40;
+// Node size used when ReactFlow has not measured a node yet
+const DEFAULT_NODE_SIZE = { width: 200, height: 150 };
+
+const DIRECTIONS: Record<PortSide, Point> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+};
+// Direction indices used by the search: 0 = +x, 1 = +y, 2 = -x, 3 = -y
+const STEP: Point[] = [
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+  { x: 0, y: -1 },
+];
+const SIDE_DIRECTION: Record<PortSide, number> = { right: 0, bottom: 1, left: 2, top: 3 };
+
+/**
+ * Normalize a ReactFlow position to a port side, falling back to the dominant axis
+ */
+export function toPortSide(position: string | undefined, from: Point, to: Point): PortSide {
+  if (position === 'top' || position === 'right' || position === 'bottom' || position === 'left') {
+    return position;
+  }
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? 'right' : 'left';
+  }
+  return dy >= 0 ? 'bottom' : 'top';
+}
+
+function stubPoint(point: Point, side: PortSide): Point {
+  const dir = DIRECTIONS[side];
+  return { x: point.x + dir.x * STUB_LENGTH, y: point.y + dir.y * STUB_LENGTH };
+}
+
+function inflate(rect: Rect, by: number): Rect {
+  return {
+    x: rect.x - by,
+    y: rect.y - by,
+    width: rect.width + by * 2,
+    height: rect.height + by * 2,
+  };
+}
+
+function containsStrictly(rect: Rect, point: Point): boolean {
+  return (
+    point.x > rect.x &&
+    point.x < rect.x + rect.width &&
+    point.y > rect.y &&
+    point.y < rect.y + rect.height
+  );
+}
+
+/**
+ * Whether an axis-aligned segment passes through the interior of a rect.
+ * Running along the border does not count.
+ */
+export function segmentCrossesRect(a: Point, b: Point, rect: Rect): boolean {
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+  if (a.y === b.y) {
+    return (
+      a.y > rect.y && a.y < bottom && Math.max(a.x, b.x) > rect.x && Math.min(a.x, b.x) < right
+    );
+  }
+  if (a.x === b.x) {
+    return (
+      a.x > rect.x && a.x < right && Math.max(a.y, b.y) > rect.y && Math.min(a.y, b.y) < bottom
+    );
+  }
+  // Diagonal segments are never produced by the router; test both elbows conservatively
+  const elbow = { x: b.x, y: a.y };
+  return segmentCrossesRect(a, elbow, rect) || segmentCrossesRect(elbow, b, rect);
+}
+
+/**
+ * Remove duplicate points and the middle point of collinear runs
+ */
+export function simplifyPolyline(points: Point[]): Point[] {
+  const deduped: Point[] = [];
+  for (const point of points) {
+    const last = deduped[deduped.length - 1];
+    if (!last || Math.abs(last.x - point.x) > 0.5 || Math.abs(last.y - point.y) > 0.5) {
+      deduped.push(point);
+    }
+  }
+  const result: Point[] = [];
+  for (let i = 0; i < deduped.length; i++) {
+    const prev = result[result.length - 1];
+    const point = deduped[i]!;
+    const next = deduped[i + 1];
+    if (prev && next) {
+      const collinearX = Math.abs(prev.x - point.x) < 0.5 && Math.abs(point.x - next.x) < 0.5;
+      const collinearY = Math.abs(prev.y - point.y) < 0.5 && Math.abs(point.y - next.y) < 0.5;
+      if (collinearX || collinearY) continue;
+    }
+    result.push(point);
+  }
+  return result;
+}
+
+/**
+ * Simple elbow route between two stubs, used when no obstacle-free route exists
+ */
+function elbowRoute(s: Point, sourceSide: PortSide, t: Point): Point[] {
+  const horizontalFirst = sourceSide === 'left' || sourceSide === 'right';
+  return horizontalFirst ? [s, { x: t.x, y: s.y }, t] : [s, { x: s.x, y: t.y }, t];
+}
+
+/**
+ * Minimal binary heap keyed by cost
+ */
+class MinHeap {
+  private items: Array<{ cost: number; state: number }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(cost: number, state: number) {
+    const items = this.items;
+    items.push({ cost, state });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent]!.cost <= items[i]!.cost) break;
+      [items[parent], items[i]] = [items[i]!, items[parent]!];
+      i = parent;
+    }
+  }
+
+  pop(): { cost: number; state: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left]!.cost < items[smallest]!.cost) smallest = left;
+        if (right < items.length && items[right]!.cost < items[smallest]!.cost) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i]!, items[smallest]!];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Orthogonal route from `source` to `target` that avoids `obstacles`.
+ * Returns the full polyline including the source and target points.
+ */
+export function routeOrthogonal(
+  source: Point,
+  sourceSide: PortSide,
+  target: Point,
+  targetSide: PortSide,
+  obstacles: Rect[]
+): Point[] {
+  const s = stubPoint(source, sourceSide);
+  const t = stubPoint(target, targetSide);
+
+  // Search area: bounding box of the stubs plus a margin
+  const area: Rect = {
+    x: Math.min(s.x, t.x) - SEARCH_MARGIN,
+    y: Math.min(s.y, t.y) - SEARCH_MARGIN,
+    width: Math.abs(s.x - t.x) + SEARCH_MARGIN * 2,
+    height: Math.abs(s.y - t.y) + SEARCH_MARGIN * 2,
+  };
+
+  // Obstacles that swallow a stub (touching or overlapping nodes) would make routing impossible
+  const blocked = obstacles
+    .map((rect) => inflate(rect, ROUTING_PADDING))
+    .filter(
+      (rect) =>
+        !containsStrictly(rect, s) &&
+        !containsStrictly(rect, t) &&
+        rect.x < area.x + area.width &&
+        rect.x + rect.width > area.x &&
+        rect.y < area.y + area.height &&
+        rect.y + rect.height > area.y
+    );
+
+  const xsSet = new Set([s.x, t.x, area.x, area.x + area.width]);
+  const ysSet = new Set([s.y, t.y, area.y, area.y + area.height]);
+  for (const rect of blocked) {
+    xsSet.add(rect.x);
+    xsSet.add(rect.x + rect.width);
+    ysSet.add(rect.y);
+    ysSet.add(rect.y + rect.height);
+  }
+  const xs = [...xsSet].sort((a, b) => a - b);
+  const ys = [...ysSet].sort((a, b) => a - b);
+  const cols = xs.length;
+  const rows = ys.length;
+
+  const startIndex = ys.indexOf(s.y) * cols + xs.indexOf(s.x);
+  const goalIndex = ys.indexOf(t.y) * cols + xs.indexOf(t.x);
+  const startDirection = SIDE_DIRECTION[sourceSide];
+  // Arriving at the target stub we travel towards the node, opposite to its outward side
+  const arrivalDirection = (SIDE_DIRECTION[targetSide] + 2) % 4;
+
+  // State = grid index * 4 + direction of travel into that point
+  const stateCount = cols * rows * 4;
+  const cost = new Float64Array(stateCount).fill(Infinity);
+  const previous = new Int32Array(stateCount).fill(-1);
+  const heap = new MinHeap();
+  const startState = startIndex * 4 + startDirection;
+  cost[startState] = 0;
+  heap.push(0, startState);
+
+  let goalState = -1;
+  while (heap.size > 0) {
+    const current = heap.pop()!;
+    if (current.cost > cost[current.state]!) continue;
+    const index = current.state >> 2;
+    const direction = current.state & 3;
+    if (index === goalIndex) {
+      goalState = current.state;
+      break;
+    }
+    const col = index % cols;
+    const row = (index - col) / cols;
+    for (let next = 0; next < 4; next++) {
+      if (next === (direction + 2) % 4) continue; // No U-turns on the spot
+      const nextCol = col + STEP[next]!.x;
+      const nextRow = row + STEP[next]!.y;
+      if (nextCol < 0 || nextCol >= cols || nextRow < 0 || nextRow >= rows) continue;
+      const from = { x: xs[col]!, y: ys[row]! };
+      const to = { x: xs[nextCol]!, y: ys[nextRow]! };
+      if (blocked.some((rect) => segmentCrossesRect(from, to, rect))) continue;
+
+      const nextIndex = nextRow * cols + nextCol;
+      let stepCost = Math.abs(to.x - from.x) + Math.abs(to.y - from.y);
+      if (next !== direction) stepCost += BEND_PENALTY;
+      if (nextIndex === goalIndex && next !== arrivalDirection) stepCost += BEND_PENALTY;
+      const nextState = nextIndex * 4 + next;
+      const nextCost = current.cost + stepCost;
+      if (nextCost < cost[nextState]!) {
+        cost[nextState] = nextCost;
+        previous[nextState] = current.state;
+        heap.push(nextCost, nextState);
+      }
+    }
+  }
+
+  let middle: Point[];
+  if (goalState === -1) {
+    middle = elbowRoute(s, sourceSide, t);
+  } else {
+    middle = [];
+    for (let state = goalState; state !== -1; state = previous[state]!) {
+      const index = state >> 2;
+      const col = index % cols;
+      middle.push({ x: xs[col]!, y: ys[(index - col) / cols]! });
+    }
+    middle.reverse();
+  }
+
+  return simplifyPolyline([source, ...middle, target]);
+}
+
+/**
+ * Orthogonal polyline from `source` to `target` through user-placed waypoints.
+ * Consecutive points that are not aligned get an elbow, alternating the axis so the
+ * route stays perpendicular where it leaves the previous segment.
+ */
+export function routeThroughWaypoints(
+  source: Point,
+  sourceSide: PortSide,
+  target: Point,
+  targetSide: PortSide,
+  waypoints: Point[]
+): Point[] {
+  const s = stubPoint(source, sourceSide);
+  const t = stubPoint(target, targetSide);
+  const stops = [s, ...waypoints, t];
+
+  const result: Point[] = [source, s];
+  let horizontal = !(sourceSide === 'left' || sourceSide === 'right');
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1]!;
+    const to = stops[i]!;
+    if (from.x !== to.x && from.y !== to.y) {
+      result.push(horizontal ? { x: to.x, y: from.y } : { x: from.x, y: to.y });
+    } else {
+      // Continue perpendicular to the aligned segment
+      horizontal = from.x === to.x;
+    }
+    result.push(to);
+  }
+  result.push(target);
+  return simplifyPolyline(result);
+}
+
+/**
+ * Box that always contains the route of an edge: an automatic route never leaves its
+ * search area and a waypoint route never leaves the box around its stops. Lets callers
+ * skip edges that cannot possibly cross without routing them.
+ */
+export function getRouteBounds(
+  input: Pick<EdgeRouteInput, 'source' | 'target' | 'waypoints'>
+): Rect {
+  const points = [input.source, input.target, ...(input.waypoints ?? [])];
+  const margin = SEARCH_MARGIN + STUB_LENGTH;
+  const minX = Math.min(...points.map((p) => p.x)) - margin;
+  const minY = Math.min(...points.map((p) => p.y)) - margin;
+  const maxX = Math.max(...points.map((p) => p.x)) + margin;
+  const maxY = Math.max(...points.map((p) => p.y)) + margin;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+export function rectsIntersect(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+const routeCache = new Map<string, Point[]>();
+const ROUTE_CACHE_LIMIT = 5000;
+
+/**
+ * Route an edge: through its waypoints when the user placed any, otherwise automatically.
+ * Results are cached by input so edges can cheaply look up each other's routes. Only the
+ * obstacles near the edge take part in the cache key, so moving a distant node on a large
+ * canvas does not invalidate every route.
+ */
+export function routeEdge(input: EdgeRouteInput): Point[] {
+  const hasWaypoints = !!input.waypoints && input.waypoints.length > 0;
+  const bounds = getRouteBounds(input);
+  const obstacles = hasWaypoints
+    ? []
+    : input.obstacles.filter((rect) => rectsIntersect(inflate(rect, ROUTING_PADDING), bounds));
+  const key = JSON.stringify({ ...input, obstacles });
+  const cached = routeCache.get(key);
+  if (cached) return cached;
+
+  const points = hasWaypoints
+    ? routeThroughWaypoints(
+        input.source,
+        input.sourceSide,
+        input.target,
+        input.targetSide,
+        input.waypoints!
+      )
+    : routeOrthogonal(input.source, input.sourceSide, input.target, input.targetSide, obstacles);
+
+  if (routeCache.size >= ROUTE_CACHE_LIMIT) {
+    routeCache.clear();
+  }
+  routeCache.set(key, points);
+  return points;
+}
+
+export interface ObstacleNode {
+  id: string;
+  type?: string;
+  hidden?: boolean;
+  position: Point;
+  positionAbsolute?: Point;
+  width?: number | null;
+  height?: number | null;
+}
+
+const obstacleCache = new WeakMap<ObstacleNode[], Rect[]>();
+
+/**
+ * Canvas nodes that edges should route around. Annotations (frames, notes) are
+ * backgrounds, not obstacles. Every edge passes the same node array, so the result is
+ * cached per array.
+ */
+export function nodesToObstacles(nodes: ObstacleNode[]): Rect[] {
+  const cached = obstacleCache.get(nodes);
+  if (cached) return cached;
+  const obstacles = nodes
+    .filter((node) => !node.hidden && !ANNOTATION_NODE_TYPES.includes(node.type ?? ''))
+    .map((node) => {
+      const position = node.positionAbsolute ?? node.position;
+      return {
+        x: Math.round(position.x),
+        y: Math.round(position.y),
+        width: Math.round(node.width || DEFAULT_NODE_SIZE.width),
+        height: Math.round(node.height || DEFAULT_NODE_SIZE.height),
+      };
+    });
+  obstacleCache.set(nodes, obstacles);
+  return obstacles;
+}
+
+/**
+ * SVG path through the polyline
+ */
+export function polylineToPath(points: Point[]): string {
+  return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+}
+
+/**
+ * Point halfway along the polyline, the default label position
+ */
+export function polylineMidpoint(points: Point[]): Point {
+  if (points.length === 0) return { x: 0, y: 0 };
+  const lengths = points
+    .slice(1)
+    .map((p, i) => Math.abs(p.x - points[i]!.x) + Math.abs(p.y - points[i]!.y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    const length = lengths[i]!;
+    if (remaining <= length && length > 0) {
+      const a = points[i]!;
+      const b = points[i + 1]!;
+      const ratio = remaining / length;
+      return { x: a.x + (b.x - a.x) * ratio, y: a.y + (b.y - a.y) * ratio };
+    }
+    remaining -= length;
+  }
+  return points[points.length - 1]!;
+}
+
+/**
+ * Interior corners of a route, which become the waypoints once the user edits the route
+ */
+export function getBendPoints(points: Point[]): Point[] {
+  return points.slice(1, -1);
+}
+
+/**
+ * Drop empty fields so untouched edges do not carry an empty `visual_metadata`
+ */
+export function normalizeVisualMetadata(visual: VisualMetadata): VisualMetadata | undefined {
+  const result: VisualMetadata = {
+    ...(visual.waypoints && visual.waypoints.length > 0 && { waypoints: visual.waypoints }),
+    ...(visual.label_position && { label_position: visual.label_position }),
+  };
+  return Object.keys(result).length > 0 ? result : undefined;
+}
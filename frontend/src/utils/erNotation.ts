@@ -0,0 +1,212 @@
+/**
+ * ER diagram notations
+ *
+ * The canvas can draw the same model in several notations. The notation is chosen per
+ * workspace and optionally overridden per view; it only affects rendering:
+ * - Crow's foot: bars, circles and three-pronged feet at the relationship ends
+ * - IDEF1X: solid identifying and dashed non-identifying lines, a dot at the child end,
+ *   a diamond at an optional parent end, rounded corners on dependent entities
+ * - UML: plain associations with multiplicities at both ends, class boxes with
+ *   compartments
+ * - Chen: a relationship diamond on the line with (min,max) participation labels
+ * - Barker: crow's feet for "many", with each half of the line dashed when that end is
+ *   optional
+ */
+
+import {
+  SDKCardinality,
+  type ERNotation,
+  type Relationship,
+  type RelationshipType,
+} from '@/types/relationship';
+import type { NotationSettings } from '@/types/workspace';
+import type { Table } from '@/types/table';
+import type { Point } from './edgeRouting';
+
+export const DEFAULT_ER_NOTATION: ERNotation = 'crows-foot';
+
+export const ER_NOTATIONS: Array<{ value: ERNotation; label: string; description: string }> = [
+  {
+    value: 'crows-foot',
+    label: "Crow's foot",
+    description: 'Bars, circles and crow’s feet at the line ends',
+  },
+  {
+    value: 'idef1x',
+    label: 'IDEF1X',
+    description: 'Identifying lines, child-end dots and dependent entities',
+  },
+  { value: 'uml', label: 'UML', description: 'Class boxes with multiplicities' },
+  { value: 'chen', label: 'Chen', description: 'Relationship diamonds with (min,max) labels' },
+  { value: 'barker', label: 'Barker', description: 'Crow’s feet with dashed optional halves' },
+];
+
+/**
+ * Notation for a view: the view override, then the workspace default
+ */
+export function resolveERNotation(
+  settings: NotationSettings | undefined,
+  viewMode: string
+): ERNotation {
+  return settings?.views?.[viewMode] ?? settings?.default ?? DEFAULT_ER_NOTATION;
+}
+
+/**
+ * Settings after choosing `notation` for one view or for the whole workspace. Choosing
+ * the workspace notation clears the view overrides; a view override equal to the
+ * workspace notation is dropped.
+ */
+export function applyERNotation(
+  settings: NotationSettings | undefined,
+  notation: ERNotation,
+  scope: { viewMode: string } | 'workspace'
+): NotationSettings {
+  if (scope === 'workspace') {
+    return { default: notation };
+  }
+  const views = { ...settings?.views };
+  if (notation === (settings?.default ?? DEFAULT_ER_NOTATION)) {
+    delete views[scope.viewMode];
+  } else {
+    views[scope.viewMode] = notation;
+  }
+  return {
+    ...(settings?.default && { default: settings.default }),
+    ...(Object.keys(views).length > 0 && { views }),
+  };
+}
+
+const isOptional = (cardinality: string | undefined) =>
+  cardinality === '0' || cardinality === 'zeroOrOne' || cardinality === 'zeroOrMany';
+
+const ENDS_BY_TYPE: Record<RelationshipType, { sourceMany: boolean; targetMany: boolean }> = {
+  'one-to-one': { sourceMany: false, targetMany: false },
+  'one-to-many': { sourceMany: false, targetMany: true },
+  'many-to-many': { sourceMany: true, targetMany: true },
+};
+
+/**
+ * Cardinality of both ends of a relationship, derived the same way the crow's-foot
+ * symbols are: multiplicity from the relationship type, optionality from the end's
+ * cardinality
+ */
+export function getRelationshipEnds(
+  relationship: Pick<Relationship, 'type' | 'source_cardinality' | 'target_cardinality'>
+): { source: SDKCardinality; target: SDKCardinality } | null {
+  const ends = ENDS_BY_TYPE[relationship.type];
+  if (!ends) return null;
+  const toSDK = (many: boolean, optional: boolean) =>
+    many
+      ? optional
+        ? SDKCardinality.ZeroOrMany
+        : SDKCardinality.OneOrMany
+      : optional
+        ? SDKCardinality.ZeroOrOne
+        : SDKCardinality.ExactlyOne;
+  return {
+    source: toSDK(ends.sourceMany, isOptional(relationship.source_cardinality)),
+    target: toSDK(ends.targetMany, isOptional(relationship.target_cardinality)),
+  };
+}
+
+export const isManyCardinality = (cardinality: SDKCardinality) =>
+  cardinality === SDKCardinality.ZeroOrMany || cardinality === SDKCardinality.OneOrMany;
+
+export const isOptionalCardinality = (cardinality: SDKCardinality) =>
+  cardinality === SDKCardinality.ZeroOrOne || cardinality === SDKCardinality.ZeroOrMany;
+
+/**
+ * The end that holds the foreign key: the "many" end of a one-to-many relationship,
+ * otherwise the end whose key column is a foreign key, defaulting to the target
+ */
+export function getChildEnd(
+  relationship: Relationship,
+  tablesById: Map<string, Table>
+): 'source' | 'target' {
+  const ends = getRelationshipEnds(relationship);
+  if (ends && isManyCardinality(ends.source) !== isManyCardinality(ends.target)) {
+    return isManyCardinality(ends.source) ? 'source' : 'target';
+  }
+  const sourceTable = tablesById.get(relationship.source_id || relationship.source_table_id || '');
+  const sourceKey = sourceTable?.columns.find((c) => c.id === relationship.source_key);
+  return sourceKey?.is_foreign_key ? 'source' : 'target';
+}
+
+/**
+ * IDEF1X identifying relationship: the child's foreign key is part of its primary key
+ */
+export function isIdentifyingRelationship(
+  relationship: Relationship,
+  tablesById: Map<string, Table>
+): boolean {
+  const childEnd = getChildEnd(relationship, tablesById);
+  const child = tablesById.get(
+    (childEnd === 'source'
+      ? relationship.source_id || relationship.source_table_id
+      : relationship.target_id || relationship.target_table_id) || ''
+  );
+  if (!child) return false;
+
+  const primaryCompoundKeys = (child.compoundKeys ?? []).filter((ck) => ck.is_primary);
+  const keyId = childEnd === 'source' ? relationship.source_key : relationship.target_key;
+  if (keyId && primaryCompoundKeys.some((ck) => ck.id === keyId)) return true;
+
+  const keyColumnName =
+    childEnd === 'source'
+      ? relationship.foreign_key_details?.source_column
+      : relationship.foreign_key_details?.target_column;
+  const keyColumn = child.columns.find(
+    (c) => (keyId && c.id === keyId) || (keyColumnName && c.name === keyColumnName)
+  );
+  if (!keyColumn) return false;
+  return (
+    keyColumn.is_primary_key ||
+    primaryCompoundKeys.some((ck) => ck.column_ids.includes(keyColumn.id))
+  );
+}
+
+/**
+ * Tables that are the child of an identifying relationship (IDEF1X dependent entities)
+ */
+export function getDependentTableIds(relationships: Relationship[], tables: Table[]): Set<string> {
+  const tablesById = new Map(tables.map((t) => [t.id, t]));
+  const dependent = new Set<string>();
+  for (const relationship of relationships) {
+    if ((relationship.source_type ?? 'table') !== 'table') continue;
+    if ((relationship.target_type ?? 'table') !== 'table') continue;
+    if (!isIdentifyingRelationship(relationship, tablesById)) continue;
+    const childEnd = getChildEnd(relationship, tablesById);
+    const childId =
+      childEnd === 'source'
+        ? relationship.source_id || relationship.source_table_id
+        : relationship.target_id || relationship.target_table_id;
+    if (childId) dependent.add(childId);
+  }
+  return dependent;
+}
+
+/**
+ * Split a polyline at half its length, for notations that style each half of a
+ * relationship line after its own end
+ */
+export function splitPolyline(points: Point[]): [Point[], Point[]] {
+  const lengths = points
+    .slice(1)
+    .map((p, i) => Math.abs(p.x - points[i]!.x) + Math.abs(p.y - points[i]!.y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    const length = lengths[i]!;
+    if (remaining <= length && length > 0) {
+      const a = points[i]!;
+      const b = points[i + 1]!;
+      const ratio = remaining / length;
+      const middle = { x: a.x + (b.x - a.x) * ratio, y: a.y + (b.y - a.y) * ratio };
+      return [
+        [...points.slice(0, i + 1), middle],
+        [middle, ...points.slice(i + 1)],
+      ];
+    }
+    remaining -= length;
+  }
+  return [points, points.slice(-1)];
+}
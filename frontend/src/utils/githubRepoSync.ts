@@ -14,6 +14,8 @@ import type { Decision } from '@/types/decision';
 import type { Domain } from '@/types/domain';
 import type { Sketch } from '@/types/sketch';
 import { toSDKSchema as sketchToSDKSchema } from '@/types/sketch';
+import type { GlossaryTerm } from '@/types/glossary';
+import { glossaryFileName, glossaryTermToYaml } from '@/utils/glossary';
 
 /**
  * Check if we're in GitHub repo mode
@@ -291,3 +293,33 @@ export async function deleteSketchFromGitHub(sketch: Sketch): Promise<void> {
     console.warn(`[GitHubRepoSync] Failed to delete sketch: ${filePath}`, error);
   }
 }
+
+/**
+ * Sync a glossary term to GitHub repo
+ */
+export async function syncGlossaryTermToGitHub(term: GlossaryTerm): Promise<void> {
+  if (!(await isGitHubRepoMode())) return;
+
+  const { useGitHubRepoStore } = await import('@/stores/githubRepoStore');
+  const filePath = `glossary/${glossaryFileName(await getWorkspaceName(), term)}`;
+  await useGitHubRepoStore.getState().writeFile(filePath, glossaryTermToYaml(term));
+
+  console.log(`[GitHubRepoSync] Synced glossary term: ${filePath}`);
+}
+
+/**
+ * Delete a glossary term from GitHub repo
+ */
+export async function deleteGlossaryTermFromGitHub(term: GlossaryTerm): Promise<void> {
+  if (!(await isGitHubRepoMode())) return;
+
+  const { useGitHubRepoStore } = await import('@/stores/githubRepoStore');
+  const filePath = `glossary/${glossaryFileName(await getWorkspaceName(), term)}`;
+
+  try {
+    await useGitHubRepoStore.getState().deleteFile(filePath);
+    console.log(`[GitHubRepoSync] Deleted glossary term: ${filePath}`);
+  } catch (error) {
+    console.warn(`[GitHubRepoSync] Failed to delete glossary term: ${filePath}`, error);
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Business glossary
+ *
+ * Links between tables/columns and glossary terms, the term hierarchy, usage reports and
+ * the .glossary.yaml file format. A link is an authoritative definition of type
+ * "business-glossary" whose URL is `glossary:<term id>`, so links are stored in the ODCS
+ * contracts themselves.
+ */
+
+import * as yaml from 'js-yaml';
+import { FileMigration } from '@/utils/fileMigration';
+import { GlossaryTermStatus, type GlossaryTerm, type GlossaryTermInput } from '@/types/glossary';
+import type { AuthoritativeDefinition, Column, Table } from '@/types/table';
+
+export const GLOSSARY_DEFINITION_TYPE = 'business-glossary';
+
+export const GLOSSARY_FILE_EXTENSION = '.glossary.yaml';
+
+const GLOSSARY_URL_PREFIX = 'glossary:';
+
+export const glossaryTermUrl = (termId: string) => `${GLOSSARY_URL_PREFIX}${termId}`;
+
+export const isGlossaryLink = (definition: AuthoritativeDefinition) =>
+  definition.type === GLOSSARY_DEFINITION_TYPE && !!definition.url?.startsWith(GLOSSARY_URL_PREFIX);
+
+/**
+ * IDs of the glossary terms linked by a table's or column's authoritative definitions
+ */
+export function getLinkedTermIds(definitions: AuthoritativeDefinition[] | undefined): string[] {
+  return (definitions ?? [])
+    .filter(isGlossaryLink)
+    .map((d) => d.url.slice(GLOSSARY_URL_PREFIX.length));
+}
+
+export function linkGlossaryTerm(
+  definitions: AuthoritativeDefinition[] | undefined,
+  termId: string
+): AuthoritativeDefinition[] {
+  const current = definitions ?? [];
+  if (getLinkedTermIds(current).includes(termId)) return current;
+  return [...current, { type: GLOSSARY_DEFINITION_TYPE, url: glossaryTermUrl(termId) }];
+}
+
+export function unlinkGlossaryTerm(
+  definitions: AuthoritativeDefinition[] | undefined,
+  termId: string
+): AuthoritativeDefinition[] {
+  return (definitions ?? []).filter(
+    (d) => !(d.type === GLOSSARY_DEFINITION_TYPE && d.url === glossaryTermUrl(termId))
+  );
+}
+
+/**
+ * Terms in hierarchy order (each term followed by its narrower terms) with their depth.
+ * Terms whose parent is missing, or that are part of a parent cycle, are shown at the top.
+ */
+export function buildGlossaryTree(
+  terms: GlossaryTerm[]
+): Array<{ term: GlossaryTerm; depth: number }> {
+  const ids = new Set(terms.map((t) => t.id));
+  const byName = (a: GlossaryTerm, b: GlossaryTerm) => a.name.localeCompare(b.name);
+  const children = new Map<string, GlossaryTerm[]>();
+  for (const term of terms) {
+    if (term.parent_id && ids.has(term.parent_id)) {
+      children.set(term.parent_id, [...(children.get(term.parent_id) ?? []), term]);
+    }
+  }
+
+  const result: Array<{ term: GlossaryTerm; depth: number }> = [];
+  const visited = new Set<string>();
+  const visit = (term: GlossaryTerm, depth: number) => {
+    if (visited.has(term.id)) return;
+    visited.add(term.id);
+    result.push({ term, depth });
+    (children.get(term.id) ?? []).sort(byName).forEach((child) => visit(child, depth + 1));
+  };
+  terms
+    .filter((t) => !t.parent_id || !ids.has(t.parent_id))
+    .sort(byName)
+    .forEach((t) => visit(t, 0));
+  // Cycles have no root; break them at their first term
+  terms
+    .filter((t) => !visited.has(t.id))
+    .sort(byName)
+    .forEach((t) => visit(t, 0));
+  return result;
+}
+
+/**
+ * IDs of a term and all its narrower terms, e.g. to prevent choosing one as the parent
+ */
+export function getDescendantTermIds(terms: GlossaryTerm[], termId: string): Set<string> {
+  const result = new Set([termId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const term of terms) {
+      if (term.parent_id && result.has(term.parent_id) && !result.has(term.id)) {
+        result.add(term.id);
+        added = true;
+      }
+    }
+  }
+  return result;
+}
+
+export interface GlossaryUsage {
+  tableId: string;
+  tableName: string;
+  columnId?: string; // Unset for links on the table itself
+  columnName?: string;
+}
+
+export interface GlossaryUsageReport {
+  usages: Map<string, GlossaryUsage[]>; // By term ID
+  unusedTerms: GlossaryTerm[];
+  unlinkedColumns: Array<{ table: Table; column: Column }>;
+  brokenLinks: Array<GlossaryUsage & { termId: string }>; // Links to terms that do not exist
+}
+
+/**
+ * Where each term is used, terms without usage, columns without terms and links to
+ * terms that no longer exist
+ */
+export function buildGlossaryUsageReport(
+  terms: GlossaryTerm[],
+  tables: Table[]
+): GlossaryUsageReport {
+  const termIds = new Set(terms.map((t) => t.id));
+  const usages = new Map<string, GlossaryUsage[]>();
+  const unlinkedColumns: GlossaryUsageReport['unlinkedColumns'] = [];
+  const brokenLinks: GlossaryUsageReport['brokenLinks'] = [];
+
+  const record = (termIdList: string[], usage: GlossaryUsage) => {
+    for (const termId of termIdList) {
+      if (termIds.has(termId)) {
+        usages.set(termId, [...(usages.get(termId) ?? []), usage]);
+      } else {
+        brokenLinks.push({ ...usage, termId });
+      }
+    }
+  };
+
+  for (const table of tables) {
+    record(getLinkedTermIds(table.authoritativeDefinitions), {
+      tableId: table.id,
+      tableName: table.name,
+    });
+    for (const column of table.columns ?? []) {
+      const linked = getLinkedTermIds(column.authoritativeDefinitions);
+      if (linked.length === 0) unlinkedColumns.push({ table, column });
+      record(linked, {
+        tableId: table.id,
+        tableName: table.name,
+        columnId: column.id,
+        columnName: column.name,
+      });
+    }
+  }
+
+  return {
+    usages,
+    unusedTerms: terms.filter((t) => !usages.has(t.id)),
+    unlinkedColumns,
+    brokenLinks,
+  };
+}
+
+/**
+ * Merge imported terms into the glossary. Terms are matched by ID, then by name (case
+ * insensitive); matched terms are updated and get a new version. Parent and related terms
+ * are resolved by ID or name across both lists.
+ */
+export function mergeGlossaryTerms(
+  existing: GlossaryTerm[],
+  incoming: GlossaryTermInput[],
+  workspaceId?: string
+): { terms: GlossaryTerm[]; created: number; updated: number } {
+  const now = new Date().toISOString();
+  const terms = [...existing];
+  const findTerm = (idOrName: string) =>
+    terms.find((t) => t.id === idOrName) ??
+    terms.find((t) => t.name.toLowerCase() === idOrName.toLowerCase());
+  let created = 0;
+  let updated = 0;
+
+  // First pass: create or update the terms themselves
+  const merged = incoming.map((input) => {
+    const match = (input.id && terms.find((t) => t.id === input.id)) || findTerm(input.name);
+    const fields = {
+      name: input.name,
+      ...(input.definition !== undefined && { definition: input.definition }),
+      ...(input.synonyms && { synonyms: input.synonyms }),
+      ...(input.stewards && { stewards: input.stewards }),
+      ...(input.status && { status: input.status }),
+    };
+    if (match) {
+      const next = { ...match, ...fields, version: match.version + 1, updated_at: now };
+      terms[terms.indexOf(match)] = next;
+      updated++;
+      return { input, term: next };
+    }
+    const term: GlossaryTerm = {
+      id: input.id || crypto.randomUUID(),
+      definition: '',
+      synonyms: [],
+      stewards: [],
+      status: GlossaryTermStatus.Candidate,
+      version: 1,
+      workspace_id: workspaceId,
+      created_at: now,
+      updated_at: now,
+      ...fields,
+    };
+    terms.push(term);
+    created++;
+    return { input, term };
+  });
+
+  // Second pass: resolve references now that all terms exist
+  merged.forEach(({ input, term }) => {
+    const parent = input.parent ? findTerm(input.parent) : undefined;
+    const related = (input.related ?? [])
+      .map((r) => findTerm(r)?.id)
+      .filter((id): id is string => !!id && id !== term.id);
+    const index = terms.findIndex((t) => t.id === term.id);
+    terms[index] = {
+      ...term,
+      ...(input.parent !== undefined && {
+        parent_id: parent && parent.id !== term.id ? parent.id : undefined,
+      }),
+      ...(input.related && { related_term_ids: related }),
+    };
+  });
+
+  return { terms, created, updated };
+}
+
+/**
+ * File name of a term, e.g. "shop_customer_lifetime_value.glossary.yaml"
+ */
+export function glossaryFileName(workspaceName: string, term: GlossaryTerm): string {
+  const termName = FileMigration.sanitizeFileName(term.name) || `term_${term.id}`;
+  return `${FileMigration.sanitizeFileName(workspaceName)}_${termName}${GLOSSARY_FILE_EXTENSION}`;
+}
+
+export function glossaryTermToYaml(term: GlossaryTerm): string {
+  return yaml.dump(term, { lineWidth: -1, noRefs: true });
+}
+
+/**
+ * Parse a .glossary.yaml file. Throws when the file has no id or name.
+ */
+export function parseGlossaryTerm(content: string): GlossaryTerm {
+  const data = yaml.load(content) as Partial<GlossaryTerm> | null;
+  if (!data || typeof data !== 'object') throw new Error('Glossary term file is empty');
+  if (!data.id || !data.name) throw new Error('Glossary term needs an id and a name');
+  const statuses = Object.values(GlossaryTermStatus) as string[];
+  const now = new Date().toISOString();
+  return {
+    ...data,
+    id: String(data.id),
+    name: String(data.name),
+    definition: data.definition ?? '',
+    synonyms: data.synonyms ?? [],
+    stewards: data.stewards ?? [],
+    status: statuses.includes(data.status as string)
+      ? (data.status as GlossaryTermStatus)
+      : GlossaryTermStatus.Candidate,
+    version: Number(data.version) || 1,
+    created_at: data.created_at ?? now,
+    updated_at: data.updated_at ?? data.created_at ?? now,
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Glossary import/export
+ *
+ * CSV (one term per row, lists separated by "|") for spreadsheets, and SKOS as RDF/XML
+ * for other glossary and thesaurus tools. Imports return GlossaryTermInput entries that
+ * are merged into the glossary with mergeGlossaryTerms.
+ */
+
+import { GlossaryTermStatus, type GlossaryTerm, type GlossaryTermInput } from '@/types/glossary';
+
+const CSV_COLUMNS = [
+  'id',
+  'name',
+  'definition',
+  'synonyms',
+  'stewards',
+  'status',
+  'parent',
+  'related',
+] as const;
+
+const LIST_SEPARATOR = '|';
+
+const csvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Export terms as CSV. Parent and related terms are written by name.
+ */
+export function exportGlossaryToCsv(terms: GlossaryTerm[]): string {
+  const names = new Map(terms.map((t) => [t.id, t.name]));
+  const rows = terms.map((term) =>
+    [
+      term.id,
+      term.name,
+      term.definition,
+      term.synonyms.join(LIST_SEPARATOR),
+      term.stewards.join(LIST_SEPARATOR),
+      term.status,
+      term.parent_id ? (names.get(term.parent_id) ?? term.parent_id) : '',
+      (term.related_term_ids ?? []).map((id) => names.get(id) ?? id).join(LIST_SEPARATOR),
+    ]
+      .map(csvField)
+      .join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Split CSV content into rows of fields (RFC 4180 quoting)
+ */
+export function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+const splitList = (value: string | undefined) =>
+  (value ?? '')
+    .split(LIST_SEPARATOR)
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+const toStatus = (value: string | undefined) =>
+  (Object.values(GlossaryTermStatus) as string[]).includes(value?.trim().toLowerCase() ?? '')
+    ? (value!.trim().toLowerCase() as GlossaryTermStatus)
+    : undefined;
+
+/**
+ * Read terms from CSV. The header row names the columns; only "name" is required.
+ */
+export function parseGlossaryCsv(content: string): GlossaryTermInput[] {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const columns = header.map((h) => h.trim().toLowerCase());
+  if (!columns.includes('name')) throw new Error('The CSV file needs a "name" column');
+
+  return rows
+    .map((fields) => {
+      const get = (column: (typeof CSV_COLUMNS)[number]) => {
+        const index = columns.indexOf(column);
+        return index >= 0 ? fields[index]?.trim() : undefined;
+      };
+      return {
+        id: get('id') || undefined,
+        name: get('name') ?? '',
+        definition: get('definition'),
+        synonyms: columns.includes('synonyms') ? splitList(get('synonyms')) : undefined,
+        stewards: columns.includes('stewards') ? splitList(get('stewards')) : undefined,
+        status: toStatus(get('status')),
+        parent: columns.includes('parent') ? (get('parent') ?? '') : undefined,
+        related: columns.includes('related') ? splitList(get('related')) : undefined,
+      };
+    })
+    .filter((term) => term.name !== '');
+}
+
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const SKOS_NS = 'http://www.w3.org/2004/02/skos/core#';
+const DCT_NS = 'http://purl.org/dc/terms/';
+const OWL_NS = 'http://www.w3.org/2002/07/owl#';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Export terms as a SKOS concept scheme in RDF/XML. SKOS has no stewards or status, so
+ * stewards are written as dct:contributor and the status as an editorial note.
+ */
+export function exportGlossaryToSkos(
+  terms: GlossaryTerm[],
+  options: { baseUri: string; title: string }
+): string {
+  const base = options.baseUri.replace(/[/#]?$/, '/');
+  const uri = (id: string) => escapeXml(`${base}${encodeURIComponent(id)}`);
+  const ids = new Set(terms.map((t) => t.id));
+  const literal = (tag: string, value: string) => `    <${tag}>${escapeXml(value)}</${tag}>`;
+  const resource = (tag: string, id: string) => `    <${tag} rdf:resource="${uri(id)}"/>`;
+
+  const concepts = terms.map((term) => {
+    const parent = term.parent_id && ids.has(term.parent_id) ? term.parent_id : undefined;
+    const lines = [
+      `  <skos:Concept rdf:about="${uri(term.id)}">`,
+      `    <skos:inScheme rdf:resource="${escapeXml(base)}"/>`,
+      literal('skos:prefLabel', term.name),
+      ...term.synonyms.map((s) => literal('skos:altLabel', s)),
+      ...(term.definition ? [literal('skos:definition', term.definition)] : []),
+      ...(term.notes ? [literal('skos:scopeNote', term.notes)] : []),
+      ...(parent ? [resource('skos:broader', parent)] : []),
+      ...(parent ? [] : [`    <skos:topConceptOf rdf:resource="${escapeXml(base)}"/>`]),
+      ...terms.filter((t) => t.parent_id === term.id).map((t) => resource('skos:narrower', t.id)),
+      ...(term.related_term_ids ?? [])
+        .filter((id) => ids.has(id))
+        .map((id) => resource('skos:related', id)),
+      ...term.stewards.map((s) => literal('dct:contributor', s)),
+      literal('skos:editorialNote', `status: ${term.status}`),
+      ...(term.status === GlossaryTermStatus.Deprecated
+        ? [
+            '    <owl:deprecated rdf:datatype="http://www.w3.org/2001/XMLSchema#boolean">true</owl:deprecated>',
+          ]
+        : []),
+      literal('owl:versionInfo', String(term.version)),
+      literal('dct:modified', term.updated_at),
+      '  </skos:Concept>',
+    ];
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rdf:RDF xmlns:rdf="${RDF_NS}" xmlns:skos="${SKOS_NS}" xmlns:dct="${DCT_NS}" xmlns:owl="${OWL_NS}">`,
+    `  <skos:ConceptScheme rdf:about="${escapeXml(base)}">`,
+    `    <dct:title>${escapeXml(options.title)}</dct:title>`,
+    '  </skos:ConceptScheme>',
+    ...concepts,
+    '</rdf:RDF>',
+    '',
+  ].join('\n');
+}
+
+// Concept ID from its URI: the last path segment or fragment
+const conceptId = (about: string) =>
+  decodeURIComponent(about.replace(/[/#]$/, '').split(/[/#]/).pop() || about);
+
+/**
+ * Read terms from a SKOS RDF/XML file. Concepts may be skos:Concept elements or
+ * rdf:Description elements typed as skos:Concept.
+ */
+export function parseGlossarySkos(content: string): GlossaryTermInput[] {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The SKOS file is not valid XML');
+  }
+
+  const isConcept = (el: Element) =>
+    (el.namespaceURI === SKOS_NS && el.localName === 'Concept') ||
+    (el.namespaceURI === RDF_NS &&
+      el.localName === 'Description' &&
+      Array.from(el.getElementsByTagNameNS(RDF_NS, 'type')).some(
+        (t) => t.getAttributeNS(RDF_NS, 'resource') === `${SKOS_NS}Concept`
+      ));
+  const concepts = Array.from(doc.getElementsByTagName('*')).filter(isConcept);
+
+  const terms = concepts.map((el) => {
+    const children = (ns: string, name: string) =>
+      Array.from(el.children).filter((c) => c.namespaceURI === ns && c.localName === name);
+    // Prefer English or untagged labels when a concept has labels in several languages
+    const text = (ns: string, name: string) => {
+      const nodes = children(ns, name);
+      const preferred =
+        nodes.find((n) => !n.getAttribute('xml:lang')) ??
+        nodes.find((n) => n.getAttribute('xml:lang')?.startsWith('en')) ??
+        nodes[0];
+      return preferred?.textContent?.trim();
+    };
+    const refs = (name: string) =>
+      children(SKOS_NS, name)
+        .map((c) => c.getAttributeNS(RDF_NS, 'resource'))
+        .filter((r): r is string => !!r)
+        .map(conceptId);
+    const about = el.getAttributeNS(RDF_NS, 'about');
+    const statusNote = children(SKOS_NS, 'editorialNote')
+      .map((n) => n.textContent?.match(/^status:\s*(\w+)/)?.[1])
+      .find(Boolean);
+    const deprecated = children(OWL_NS, 'deprecated').some((n) => n.textContent?.trim() === 'true');
+
+    return {
+      id: about ? conceptId(about) : undefined,
+      name: text(SKOS_NS, 'prefLabel') ?? (about ? conceptId(about) : ''),
+      definition: text(SKOS_NS, 'definition'),
+      synonyms: children(SKOS_NS, 'altLabel')
+        .map((n) => n.textContent?.trim() ?? '')
+        .filter(Boolean),
+      stewards: children(DCT_NS, 'contributor')
+        .map((n) => n.textContent?.trim() ?? '')
+        .filter(Boolean),
+      status: deprecated ? GlossaryTermStatus.Deprecated : toStatus(statusNote),
+      parent: refs('broader')[0] ?? '',
+      related: refs('related'),
+      narrower: refs('narrower'),
+    };
+  });
+
+  // Files may only state the hierarchy from the broader side
+  for (const term of terms) {
+    for (const childId of term.narrower) {
+      const child = terms.find((t) => t.id === childId);
+      if (child && !child.parent && term.id) child.parent = term.id;
+    }
+  }
+  return terms.map(({ narrower: _narrower, ...term }) => term);
+}
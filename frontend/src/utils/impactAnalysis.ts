@@ -0,0 +1,680 @@
+/**
+ * Impact analysis
+ *
+ * Lists every artifact, in any domain, that depends on a table that is about to be
+ * deleted or on a column that is about to be renamed:
+ * - relationships, system membership and shared resources in other domains
+ * - metric views selecting from or joining the table, and their expressions
+ * - data products linking the table or exposing it through a port
+ * - domain transformation links
+ * - decisions (ADRs) with the table as a linked asset
+ * - column transform sources (`transformSourceObjects`) and derivation traces
+ *
+ * A report is resolved by cascading (dependents are removed or follow the rename) or by
+ * re-pointing the dependents at another table or column. Resolutions are computed here
+ * and written to the stores by the caller.
+ */
+
+import type { Column, Table } from '@/types/table';
+import type { Domain } from '@/types/domain';
+import type { Relationship } from '@/types/relationship';
+import type { System } from '@/types/system';
+import type { MetricView } from '@/types/metricView';
+import type { DataProduct } from '@/types/odps';
+import type { Decision } from '@/types/decision';
+import { getDerivationTrace } from '@/utils/modelDerivation';
+
+export type ImpactSeverity = 'breaking' | 'warning' | 'info';
+
+export const IMPACT_SEVERITIES: Array<{ severity: ImpactSeverity; label: string }> = [
+  { severity: 'breaking', label: 'Breaking' },
+  { severity: 'warning', label: 'Warning' },
+  { severity: 'info', label: 'Info' },
+];
+
+export type ImpactArtifactKind =
+  | 'relationship'
+  | 'metric-view'
+  | 'data-product'
+  | 'transformation-link'
+  | 'shared-resource'
+  | 'system'
+  | 'decision'
+  | 'column'
+  | 'derived-table';
+
+export type ImpactChange =
+  | { kind: 'remove-table'; tableId: string }
+  | { kind: 'rename-column'; tableId: string; columnId: string; newName: string };
+
+export interface ImpactItem {
+  id: string;
+  severity: ImpactSeverity;
+  artifactKind: ImpactArtifactKind;
+  artifactId: string;
+  artifactName: string;
+  domainId?: string;
+  detail: string;
+}
+
+export interface ImpactReport {
+  change: ImpactChange;
+  subject: string; // e.g. `Delete table "orders"`
+  items: ImpactItem[];
+}
+
+export interface ImpactInput {
+  tables: Table[];
+  relationships: Relationship[];
+  domains: Domain[];
+  systems: System[];
+  metricViews: MetricView[];
+  products: DataProduct[];
+  decisions: Decision[];
+}
+
+/**
+ * `cascade` removes dependents of a deleted table and carries a rename over to the
+ * column's references. `repoint` moves them to another table (delete) or another column
+ * of the same table (rename).
+ */
+export type ImpactResolution = { action: 'cascade' } | { action: 'repoint'; targetId: string };
+
+/** Collections after a resolution; artifacts that are not affected keep their identity */
+export type ImpactChanges = Partial<ImpactInput>;
+
+const lastSegment = (name: string) =>
+  (name.split('.').pop() ?? name).replace(/[`"[\]]/g, '').toLowerCase();
+
+const refersToTable = (reference: string, table: Table) =>
+  lastSegment(reference) === table.name.toLowerCase();
+
+// Replace the last segment of a (possibly qualified) name, keeping the qualifier
+const replaceLastSegment = (reference: string, name: string) => {
+  const parts = reference.split('.');
+  parts[parts.length - 1] = name;
+  return parts.join('.');
+};
+
+// "[catalog.schema.]table.column" entry of transformSourceObjects
+const splitSourceObject = (reference: string) => {
+  const parts = reference.split('.');
+  return { table: parts[parts.length - 2], column: parts[parts.length - 1] ?? '' };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const identifierPattern = (name: string) =>
+  new RegExp(`(?<![\\w.])(?:(\\w+)\\.)?${escapeRegExp(name)}(?!\\w)`, 'gi');
+
+// A bare identifier, or one qualified with a name the table has in the view
+const isOwnIdentifier = (qualifier: string | undefined, qualifiers: Set<string>) =>
+  !qualifier || qualifiers.has(qualifier.toLowerCase());
+
+// Replaces a column identifier of the table in an expression, keeping its qualifier
+const replaceIdentifier = (expression: string, from: string, to: string, qualifiers: Set<string>) =>
+  expression.replace(identifierPattern(from), (match, qualifier?: string) =>
+    isOwnIdentifier(qualifier, qualifiers) ? (qualifier ? `${qualifier}.${to}` : to) : match
+  );
+
+const usesIdentifier = (expression: string | undefined, name: string, qualifiers: Set<string>) =>
+  !!expression &&
+  [...expression.matchAll(identifierPattern(name))].some((m) => isOwnIdentifier(m[1], qualifiers));
+
+// Rewrites the transform sources of every column; unchanged tables keep their identity
+const mapTransformSources = (tables: Table[], rewrite: (reference: string) => string[]) =>
+  tables.map((t) => {
+    let changed = false;
+    const columns = t.columns.map((c) => {
+      const current = c.transformSourceObjects ?? [];
+      const sources = [...new Set(current.flatMap(rewrite))];
+      if (sources.length === current.length && sources.every((ref, i) => ref === current[i])) {
+        return c;
+      }
+      changed = true;
+      return { ...c, transformSourceObjects: sources };
+    });
+    return changed ? { ...t, columns } : t;
+  });
+
+const relationshipEnds = (r: Relationship) => [
+  r.source_id || r.source_table_id,
+  r.target_id || r.target_table_id,
+];
+
+// Source or join table of a metric view, optionally followed by an alias ("orders o",
+// "main.silver.orders AS o")
+const parseViewTable = (reference: string) => {
+  const match = /^\s*(\S+)(?:\s+(?:as\s+)?(\w+))?\s*$/i.exec(reference);
+  return { name: match?.[1] ?? reference, alias: match?.[2] };
+};
+
+const replaceViewTable = (reference: string, name: string) => {
+  const { name: current } = parseViewTable(reference);
+  return reference.replace(current, replaceLastSegment(current, name));
+};
+
+/**
+ * How a metric view uses a table: as its source, in joins, and the qualifiers (table
+ * name, alias, "source" for the source table) its expressions refer to it by
+ */
+const metricViewTables = (view: MetricView, table: Table) => {
+  const source = parseViewTable(view.source);
+  const isSource = refersToTable(source.name, table);
+  const joins = (view.joins ?? []).filter((j) =>
+    refersToTable(parseViewTable(j.table).name, table)
+  );
+  const names = [
+    ...(isSource ? [source, { name: 'source', alias: undefined }] : []),
+    ...joins.map((j) => parseViewTable(j.table)),
+  ];
+  const qualifiers = new Set(
+    names.flatMap(({ name, alias }) => [lastSegment(name), ...(alias ? [alias.toLowerCase()] : [])])
+  );
+  return { isSource, joins, qualifiers };
+};
+
+/**
+ * Everything that depends on the table or column touched by a change
+ */
+export function analyzeImpact(change: ImpactChange, input: ImpactInput): ImpactReport {
+  const table = input.tables.find((t) => t.id === change.tableId);
+  if (!table) {
+    return { change, subject: 'Unknown table', items: [] };
+  }
+  if (change.kind === 'remove-table') {
+    return {
+      change,
+      subject: `Delete table "${table.name}"`,
+      items: analyzeTableRemoval(table, input),
+    };
+  }
+  const column = table.columns.find((c) => c.id === change.columnId);
+  return {
+    change,
+    subject: `Rename column "${table.name}.${column?.name ?? '?'}" to "${change.newName}"`,
+    items: column ? analyzeColumnRename(table, column, input) : [],
+  };
+}
+
+function analyzeTableRemoval(table: Table, input: ImpactInput): ImpactItem[] {
+  const items: ImpactItem[] = [];
+  const push = (item: Omit<ImpactItem, 'id'>) =>
+    items.push({ ...item, id: `${item.artifactKind}:${item.artifactId}:${items.length}` });
+  const tableName = (id?: string) => input.tables.find((t) => t.id === id)?.name ?? 'unknown';
+
+  for (const view of input.metricViews) {
+    const { isSource, joins } = metricViewTables(view, table);
+    if (isSource) {
+      push({
+        severity: 'breaking',
+        artifactKind: 'metric-view',
+        artifactId: view.id,
+        artifactName: view.name,
+        domainId: view.domain_id,
+        detail: `Selects from "${table.name}"`,
+      });
+    }
+    for (const join of joins) {
+      push({
+        severity: 'breaking',
+        artifactKind: 'metric-view',
+        artifactId: view.id,
+        artifactName: view.name,
+        domainId: view.domain_id,
+        detail: `Joins "${join.table}" on ${join.on}`,
+      });
+    }
+  }
+
+  for (const product of input.products) {
+    const ports = [...(product.input_ports ?? []), ...(product.output_ports ?? [])].filter(
+      (p) => p.table_id === table.id
+    );
+    if (product.linked_tables?.includes(table.id) || ports.length > 0) {
+      push({
+        severity: 'breaking',
+        artifactKind: 'data-product',
+        artifactId: product.id,
+        artifactName: product.name,
+        domainId: product.domain_id,
+        detail:
+          ports.length > 0
+            ? `Exposes the table through port(s) ${ports.map((p) => `"${p.name}"`).join(', ')}`
+            : 'Links the table',
+      });
+    }
+  }
+
+  for (const domain of input.domains) {
+    for (const link of domain.transformation_links ?? []) {
+      if (link.source_table_id !== table.id && link.target_table_id !== table.id) continue;
+      const other = link.source_table_id === table.id ? link.target_table_id : link.source_table_id;
+      push({
+        severity: 'breaking',
+        artifactKind: 'transformation-link',
+        artifactId: link.id,
+        artifactName:
+          link.name || `${tableName(link.source_table_id)} → ${tableName(link.target_table_id)}`,
+        domainId: domain.id,
+        detail: `Transformation ${link.source_table_id === table.id ? 'to' : 'from'} "${tableName(other)}"`,
+      });
+    }
+    for (const shared of domain.shared_resources ?? []) {
+      if (shared.resource_type !== 'table' || shared.resource_id !== table.id) continue;
+      push({
+        severity: 'breaking',
+        artifactKind: 'shared-resource',
+        artifactId: `${domain.id}:${table.id}`,
+        artifactName: domain.name,
+        domainId: domain.id,
+        detail: `Domain "${domain.name}" shows the table as a shared resource`,
+      });
+    }
+  }
+
+  for (const relationship of input.relationships) {
+    const [source, target] = relationshipEnds(relationship);
+    if (source !== table.id && target !== table.id) continue;
+    push({
+      severity: 'warning',
+      artifactKind: 'relationship',
+      artifactId: relationship.id,
+      artifactName: relationship.label || `${tableName(source)} → ${tableName(target)}`,
+      domainId: relationship.domain_id,
+      detail: `Relationship ${source === table.id ? 'to' : 'from'} "${tableName(source === table.id ? target : source)}"`,
+    });
+  }
+
+  for (const other of input.tables) {
+    if (other.id === table.id) continue;
+    for (const column of other.columns ?? []) {
+      const references = (column.transformSourceObjects ?? []).filter((ref) => {
+        const { table: refTable } = splitSourceObject(ref);
+        return refTable !== undefined && refTable.toLowerCase() === table.name.toLowerCase();
+      });
+      if (references.length === 0) continue;
+      push({
+        severity: 'warning',
+        artifactKind: 'column',
+        artifactId: column.id,
+        artifactName: `${other.name}.${column.name}`,
+        domainId: other.primary_domain_id,
+        detail: `Transform source ${references.join(', ')}`,
+      });
+    }
+    if (getDerivationTrace(other)?.source_table_id === table.id) {
+      push({
+        severity: 'info',
+        artifactKind: 'derived-table',
+        artifactId: other.id,
+        artifactName: other.name,
+        domainId: other.primary_domain_id,
+        detail: 'Derived from the table; re-propagating changes is no longer possible',
+      });
+    }
+  }
+
+  for (const decision of input.decisions) {
+    if (!decision.linked_assets?.some((a) => a.asset_id === table.id)) continue;
+    push({
+      severity: 'warning',
+      artifactKind: 'decision',
+      artifactId: decision.id,
+      artifactName: decision.title,
+      domainId: decision.domain_id,
+      detail: 'Links the table as an asset',
+    });
+  }
+
+  for (const system of input.systems) {
+    if (!system.table_ids?.includes(table.id)) continue;
+    push({
+      severity: 'info',
+      artifactKind: 'system',
+      artifactId: system.id,
+      artifactName: system.name,
+      domainId: system.domain_id,
+      detail: 'Contains the table',
+    });
+  }
+
+  return items;
+}
+
+function analyzeColumnRename(table: Table, column: Column, input: ImpactInput): ImpactItem[] {
+  const items: ImpactItem[] = [];
+  const push = (item: Omit<ImpactItem, 'id'>) =>
+    items.push({ ...item, id: `${item.artifactKind}:${item.artifactId}:${items.length}` });
+
+  for (const view of input.metricViews) {
+    const { isSource, joins, qualifiers } = metricViewTables(view, table);
+    if (!isSource && joins.length === 0) continue;
+    const expressions = [
+      ...view.dimensions.map((d) => ({ name: d.name, expr: d.expr })),
+      ...view.measures.map((m) => ({ name: m.name, expr: [m.expr, m.filter].join(' ') })),
+      { name: 'filter', expr: view.filter },
+      ...(view.joins ?? []).map((j) => ({ name: `join ${j.table}`, expr: j.on })),
+    ].filter((e) => usesIdentifier(e.expr, column.name, qualifiers));
+    if (expressions.length === 0) continue;
+    push({
+      severity: 'breaking',
+      artifactKind: 'metric-view',
+      artifactId: view.id,
+      artifactName: view.name,
+      domainId: view.domain_id,
+      detail: `Uses "${column.name}" in ${expressions.map((e) => e.name).join(', ')}`,
+    });
+  }
+
+  for (const other of input.tables) {
+    if (other.id === table.id) continue;
+    for (const target of other.columns ?? []) {
+      const references = (target.transformSourceObjects ?? []).filter((ref) => {
+        const parts = splitSourceObject(ref);
+        return (
+          parts.table?.toLowerCase() === table.name.toLowerCase() &&
+          parts.column.toLowerCase() === column.name.toLowerCase()
+        );
+      });
+      if (references.length === 0) continue;
+      push({
+        severity: 'warning',
+        artifactKind: 'column',
+        artifactId: target.id,
+        artifactName: `${other.name}.${target.name}`,
+        domainId: other.primary_domain_id,
+        detail: `Transform source ${references.join(', ')}`,
+      });
+    }
+  }
+
+  // Key references are by column ID and survive the rename, but change names in the DDL
+  for (const relationship of input.relationships) {
+    if (relationship.source_key !== column.id && relationship.target_key !== column.id) continue;
+    push({
+      severity: 'info',
+      artifactKind: 'relationship',
+      artifactId: relationship.id,
+      artifactName: relationship.label || relationship.id,
+      domainId: relationship.domain_id,
+      detail: 'Uses the column as its key',
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Report items grouped by severity, most severe first, leaving out empty groups
+ */
+export function groupImpactBySeverity(
+  items: ImpactItem[]
+): Array<{ severity: ImpactSeverity; label: string; items: ImpactItem[] }> {
+  return IMPACT_SEVERITIES.map(({ severity, label }) => ({
+    severity,
+    label,
+    items: items.filter((i) => i.severity === severity),
+  })).filter((group) => group.items.length > 0);
+}
+
+/**
+ * Compute the store changes that resolve a report's dependents. The change itself
+ * (deleting the table, renaming the column) is left to the caller.
+ */
+export function resolveImpact(
+  change: ImpactChange,
+  resolution: ImpactResolution,
+  input: ImpactInput
+): ImpactChanges {
+  const table = input.tables.find((t) => t.id === change.tableId);
+  if (!table) return {};
+  return change.kind === 'remove-table'
+    ? resolveTableRemoval(table, resolution, input)
+    : resolveColumnRename(table, change, resolution, input);
+}
+
+function resolveTableRemoval(
+  table: Table,
+  resolution: ImpactResolution,
+  input: ImpactInput
+): ImpactChanges {
+  const replacement =
+    resolution.action === 'repoint'
+      ? input.tables.find((t) => t.id === resolution.targetId && t.id !== table.id)
+      : undefined;
+  if (resolution.action === 'repoint' && !replacement) return {};
+  const swapId = (id: string | undefined) => (id === table.id ? replacement?.id : id);
+
+  // Transform sources follow the replacement or are dropped
+  const tables = mapTransformSources(
+    input.tables.filter((t) => t.id !== table.id),
+    (ref) => {
+      if (splitSourceObject(ref).table?.toLowerCase() !== table.name.toLowerCase()) return [ref];
+      if (!replacement) return [];
+      const parts = ref.split('.');
+      parts[parts.length - 2] = replacement.name;
+      return [parts.join('.')];
+    }
+  );
+
+  // Keys are matched to the replacement's columns by name
+  const mapKey = (key: string | undefined) => {
+    if (!key || !replacement) return undefined;
+    const column = table.columns.find((c) => c.id === key);
+    const compound = table.compoundKeys?.find((k) => k.id === key);
+    if (column) {
+      return replacement.columns.find((c) => c.name.toLowerCase() === column.name.toLowerCase())
+        ?.id;
+    }
+    return compound ? replacement.compoundKeys?.find((k) => k.name === compound.name)?.id : key;
+  };
+  const relationships = input.relationships.flatMap((r) => {
+    const [source, target] = relationshipEnds(r);
+    if (source !== table.id && target !== table.id) return [r];
+    if (!replacement) return [];
+    const updated: Relationship = {
+      ...r,
+      source_id: swapId(r.source_id) ?? r.source_id,
+      target_id: swapId(r.target_id) ?? r.target_id,
+      source_table_id: swapId(r.source_table_id),
+      target_table_id: swapId(r.target_table_id),
+      source_key: source === table.id ? mapKey(r.source_key) : r.source_key,
+      target_key: target === table.id ? mapKey(r.target_key) : r.target_key,
+    };
+    return updated.source_id === updated.target_id ? [] : [updated];
+  });
+
+  const metricViews = input.metricViews.flatMap((view) => {
+    const { isSource, joins } = metricViewTables(view, table);
+    if (!isSource && joins.length === 0) return [view];
+    if (!replacement) {
+      return isSource ? [] : [{ ...view, joins: view.joins?.filter((j) => !joins.includes(j)) }];
+    }
+    return [
+      {
+        ...view,
+        source: isSource ? replaceViewTable(view.source, replacement.name) : view.source,
+        joins: view.joins?.map((j) =>
+          joins.includes(j) ? { ...j, table: replaceViewTable(j.table, replacement.name) } : j
+        ),
+      },
+    ];
+  });
+
+  const products = input.products.map((product) => {
+    const usesTable = (p: { table_id?: string }) => p.table_id === table.id;
+    if (
+      !product.linked_tables?.includes(table.id) &&
+      !product.input_ports?.some(usesTable) &&
+      !product.output_ports?.some(usesTable)
+    ) {
+      return product;
+    }
+    const ports = <T extends { table_id?: string }>(list?: T[]) =>
+      replacement
+        ? list?.map((p) => (usesTable(p) ? { ...p, table_id: replacement.id } : p))
+        : list?.filter((p) => !usesTable(p));
+    return {
+      ...product,
+      linked_tables: [
+        ...new Set(
+          (product.linked_tables ?? []).flatMap((id) =>
+            id === table.id ? (replacement ? [replacement.id] : []) : [id]
+          )
+        ),
+      ],
+      input_ports: ports(product.input_ports),
+      output_ports: ports(product.output_ports),
+    };
+  });
+
+  const domains = input.domains.map((domain) => {
+    const links = domain.transformation_links ?? [];
+    const shared = domain.shared_resources ?? [];
+    const isSharedTable = (r: (typeof shared)[number]) =>
+      r.resource_type === 'table' && r.resource_id === table.id;
+    if (
+      !links.some((l) => l.source_table_id === table.id || l.target_table_id === table.id) &&
+      !shared.some(isSharedTable)
+    ) {
+      return domain;
+    }
+    return {
+      ...domain,
+      transformation_links: links
+        .map((link) => ({
+          ...link,
+          source_table_id: swapId(link.source_table_id) ?? '',
+          target_table_id: swapId(link.target_table_id) ?? '',
+        }))
+        .filter(
+          (link) =>
+            link.source_table_id &&
+            link.target_table_id &&
+            link.source_table_id !== link.target_table_id
+        ),
+      shared_resources: shared.flatMap((r) => {
+        if (!isSharedTable(r)) return [r];
+        return replacement ? [{ ...r, resource_id: replacement.id }] : [];
+      }),
+    };
+  });
+
+  const systems = input.systems.map((system) =>
+    system.table_ids?.includes(table.id)
+      ? { ...system, table_ids: system.table_ids.filter((id) => id !== table.id) }
+      : system
+  );
+
+  const decisions = input.decisions.map((decision) =>
+    decision.linked_assets?.some((a) => a.asset_id === table.id)
+      ? {
+          ...decision,
+          linked_assets: decision.linked_assets.flatMap((asset) => {
+            if (asset.asset_id !== table.id) return [asset];
+            return replacement
+              ? [{ ...asset, asset_id: replacement.id, asset_name: replacement.name }]
+              : [];
+          }),
+        }
+      : decision
+  );
+
+  return { tables, relationships, metricViews, products, domains, systems, decisions };
+}
+
+function resolveColumnRename(
+  table: Table,
+  change: Extract<ImpactChange, { kind: 'rename-column' }>,
+  resolution: ImpactResolution,
+  input: ImpactInput
+): ImpactChanges {
+  const column = table.columns.find((c) => c.id === change.columnId);
+  const newName =
+    resolution.action === 'repoint'
+      ? table.columns.find((c) => c.id === resolution.targetId && c.id !== change.columnId)?.name
+      : change.newName;
+  if (!column || !newName) return {};
+
+  const metricViews = input.metricViews.map((view) => {
+    const { isSource, joins, qualifiers } = metricViewTables(view, table);
+    if (!isSource && joins.length === 0) return view;
+    const rename = (expression: string | undefined) =>
+      expression === undefined
+        ? undefined
+        : replaceIdentifier(expression, column.name, newName, qualifiers);
+    const expressions = [
+      view.filter,
+      ...view.dimensions.map((d) => d.expr),
+      ...view.measures.flatMap((m) => [m.expr, m.filter]),
+      ...(view.joins ?? []).map((j) => j.on),
+    ];
+    if (!expressions.some((e) => usesIdentifier(e, column.name, qualifiers))) return view;
+    return {
+      ...view,
+      filter: rename(view.filter),
+      dimensions: view.dimensions.map((d) => ({ ...d, expr: rename(d.expr) ?? d.expr })),
+      measures: view.measures.map((m) => ({
+        ...m,
+        expr: rename(m.expr) ?? m.expr,
+        filter: rename(m.filter),
+      })),
+      joins: view.joins?.map((j) => ({ ...j, on: rename(j.on) ?? j.on })),
+    };
+  });
+
+  const tables = mapTransformSources(input.tables, (ref) => {
+    const parts = splitSourceObject(ref);
+    return parts.table?.toLowerCase() === table.name.toLowerCase() &&
+      parts.column.toLowerCase() === column.name.toLowerCase()
+      ? [replaceLastSegment(ref, newName)]
+      : [ref];
+  });
+
+  return { tables, metricViews };
+}
+
+/**
+ * Markdown report for change tickets
+ */
+export function impactReportToMarkdown(
+  report: ImpactReport,
+  options: { domains?: Domain[]; resolution?: string } = {}
+): string {
+  const domainName = (id?: string) =>
+    options.domains?.find((d) => d.id === id)?.name ?? (id ? id : '—');
+  const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const domainCount = new Set(report.items.map((i) => i.domainId).filter(Boolean)).size;
+  const groups = groupImpactBySeverity(report.items);
+
+  const lines = [
+    `# Impact Analysis: ${report.subject}`,
+    '',
+    `Generated: ${new Date().toISOString()}`,
+    '',
+    report.items.length === 0
+      ? 'No dependent artifacts.'
+      : `${report.items.length} dependent artifact(s) in ${domainCount} domain(s): ${groups
+          .map((g) => `${g.items.length} ${g.label.toLowerCase()}`)
+          .join(', ')}.`,
+  ];
+  if (options.resolution) {
+    lines.push('', `**Resolution:** ${options.resolution}`);
+  }
+  for (const group of groups) {
+    lines.push(
+      '',
+      `## ${group.label} (${group.items.length})`,
+      '',
+      '| Artifact | Type | Domain | Impact |',
+      '|----------|------|--------|--------|'
+    );
+    for (const item of group.items) {
+      lines.push(
+        `| ${escape(item.artifactName)} | ${item.artifactKind} | ${escape(domainName(item.domainId))} | ${escape(item.detail)} |`
+      );
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
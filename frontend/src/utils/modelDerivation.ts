@@ -0,0 +1,617 @@
+/**
+ * Model derivation
+ *
+ * Derives the next modelling level from a set of tables: conceptual entities become
+ * logical tables, logical tables become physical tables for a SQL dialect. Derivation
+ * - maps column types (logical types, then the dialect's physical types)
+ * - applies a naming style to table and column names
+ * - adds a surrogate primary key to tables without one (optional)
+ * - adds foreign key columns for one-to-many/one-to-one relationships
+ * - resolves many-to-many relationships into associative tables
+ *
+ * Every derived table keeps a trace to its source in `metadata.derived_from`, so later
+ * changes to the source can be re-propagated as a reviewable list of changes.
+ */
+
+import type { Column, CompoundKey, Table, TableIndex } from '@/types/table';
+import type { ModelType } from '@/types/workspace';
+import { SDKRelationshipType, type Relationship } from '@/types/relationship';
+import { generateUUID } from './validation';
+import { nameTokens } from './relationshipInference';
+import {
+  ODCS_LOGICAL_TYPES,
+  toLogicalType,
+  toPhysicalType,
+  type LogicalDataType,
+  type SQLDialect,
+} from './sqlDialects';
+
+export type NamingStyle = 'as-is' | 'snake_case' | 'camelCase' | 'PascalCase' | 'UPPER_SNAKE';
+
+export const NAMING_STYLES: Array<{ value: NamingStyle; label: string }> = [
+  { value: 'as-is', label: 'Keep names' },
+  { value: 'snake_case', label: 'snake_case' },
+  { value: 'camelCase', label: 'camelCase' },
+  { value: 'PascalCase', label: 'PascalCase' },
+  { value: 'UPPER_SNAKE', label: 'UPPER_SNAKE' },
+];
+
+export interface DerivationOptions {
+  target: 'logical' | 'physical';
+  naming: NamingStyle;
+  surrogateKeys: boolean; // Add a surrogate primary key to tables without a primary key
+  dialect?: SQLDialect; // Physical types are mapped for this dialect (physical target)
+  systemId?: string; // Physical tables are linked to this system
+}
+
+/**
+ * Trace from a derived table to its source, stored in `metadata.derived_from`
+ */
+export interface DerivationTrace {
+  source_table_id?: string;
+  source_relationship_id?: string; // Associative tables trace to a many-to-many relationship
+  source_model_type: ModelType;
+  columns: Record<string, string>; // Derived column ID → source column ID
+  options: DerivationOptions;
+  derived_at: string;
+}
+
+export const DERIVATION_TRACE_KEY = 'derived_from';
+
+export interface DerivationResult {
+  tables: Table[];
+  relationships: Relationship[];
+}
+
+export function getDerivationTrace(table: Table): DerivationTrace | undefined {
+  const trace = table.metadata?.[DERIVATION_TRACE_KEY];
+  return trace && typeof trace === 'object' ? (trace as DerivationTrace) : undefined;
+}
+
+/**
+ * Level a table derives to, or null for physical tables
+ */
+export function nextModelType(modelType: ModelType | undefined): 'logical' | 'physical' | null {
+  if (modelType === 'physical') return null;
+  return modelType === 'logical' ? 'physical' : 'logical';
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+export function applyNamingStyle(name: string, style: NamingStyle): string {
+  if (style === 'as-is') return name;
+  const tokens = nameTokens(name);
+  if (tokens.length === 0) return name;
+  switch (style) {
+    case 'snake_case':
+      return tokens.join('_');
+    case 'UPPER_SNAKE':
+      return tokens.join('_').toUpperCase();
+    case 'camelCase':
+      return tokens[0] + tokens.slice(1).map(capitalize).join('');
+    case 'PascalCase':
+      return tokens.map(capitalize).join('');
+  }
+}
+
+const singularize = (word: string) =>
+  word.endsWith('ies')
+    ? `${word.slice(0, -3)}y`
+    : word.endsWith('s') && !word.endsWith('ss')
+      ? word.slice(0, -1)
+      : word;
+
+// `Customers` → `customer_id` (styled); used for surrogate and foreign key names
+const keyNameFor = (tableName: string, keyName: string, style: NamingStyle) => {
+  const tokens = nameTokens(tableName.split('.').pop() ?? tableName);
+  const last = tokens.pop();
+  const base = [...tokens, ...(last ? [singularize(last)] : []), ...nameTokens(keyName)].join('_');
+  return applyNamingStyle(base, style === 'as-is' ? 'snake_case' : style);
+};
+
+// Foreign key column name: `customer_id` for both customers.id and customers.customer_id
+const foreignKeyName = (parentName: string, keyName: string, style: NamingStyle) => {
+  const tableTokens = nameTokens(keyNameFor(parentName, '', 'snake_case'));
+  const keyTokens = nameTokens(keyName);
+  return tableTokens.every((t, i) => keyTokens[i] === t)
+    ? applyNamingStyle(keyName, style === 'as-is' ? 'snake_case' : style)
+    : keyNameFor(parentName, keyName, style);
+};
+
+const columnType = (
+  logicalType: LogicalDataType,
+  options: DerivationOptions
+): Pick<Column, 'data_type' | 'logicalType' | 'physicalType'> =>
+  options.target === 'physical' && options.dialect
+    ? {
+        data_type: toPhysicalType(logicalType, options.dialect),
+        logicalType: ODCS_LOGICAL_TYPES[logicalType],
+        physicalType: toPhysicalType(logicalType, options.dialect),
+      }
+    : { data_type: logicalType, logicalType: ODCS_LOGICAL_TYPES[logicalType] };
+
+/**
+ * The derived form of a source column, without IDs
+ */
+function deriveColumnFields(source: Column, options: DerivationOptions) {
+  const name = applyNamingStyle(source.name, options.naming);
+  return {
+    name,
+    ...columnType(toLogicalType(source.data_type), options),
+    ...(options.target === 'physical' && { physicalName: name }),
+    nullable: source.nullable,
+    is_primary_key: source.is_primary_key,
+    description: source.description,
+  };
+}
+
+/**
+ * Primary key columns of a table, in compound key order
+ */
+export const primaryKeyColumns = (table: Table): Column[] => {
+  const primaryCompound = table.compoundKeys?.find((ck) => ck.is_primary);
+  if (primaryCompound) {
+    return primaryCompound.column_ids
+      .map((id) => table.columns.find((c) => c.id === id))
+      .filter((c): c is Column => !!c);
+  }
+  return table.columns.filter((c) => c.is_primary_key && !c.parent_column_id);
+};
+
+const newColumn = (tableId: string, fields: Partial<Column> & { name: string }): Column => ({
+  id: generateUUID(),
+  table_id: tableId,
+  data_type: 'string',
+  nullable: false,
+  is_primary_key: false,
+  is_foreign_key: false,
+  order: 0,
+  created_at: new Date().toISOString(),
+  ...fields,
+});
+
+const isOptional = (cardinality: string | undefined) =>
+  cardinality === '0' || cardinality === 'zeroOrOne' || cardinality === 'zeroOrMany';
+
+/**
+ * Derive the next level for `sources`. Relationships between two source tables are
+ * carried over to the derived tables; many-to-many relationships become an associative
+ * table with two one-to-many relationships.
+ */
+export function deriveTables(
+  sources: Table[],
+  relationships: Relationship[],
+  options: DerivationOptions
+): DerivationResult {
+  const now = new Date().toISOString();
+  const derivedBySource = new Map<string, Table>();
+  const columnIdMaps = new Map<string, Map<string, string>>(); // source table → column IDs
+
+  // Derived tables sit to the right of their sources
+  const minX = Math.min(...sources.map((t) => t.position_x));
+  const maxX = Math.max(...sources.map((t) => t.position_x + (t.width || 200)));
+  const offsetX = sources.length > 0 ? maxX - minX + 200 : 0;
+
+  for (const source of sources) {
+    const tableId = generateUUID();
+    const columnIds = new Map(source.columns.map((c) => [c.id, generateUUID()]));
+    const trace: DerivationTrace = {
+      source_table_id: source.id,
+      source_model_type: source.model_type,
+      columns: Object.fromEntries([...columnIds].map(([sourceId, id]) => [id, sourceId])),
+      options,
+      derived_at: now,
+    };
+
+    const columns: Column[] = source.columns.map((c) => ({
+      ...c,
+      ...deriveColumnFields(c, options),
+      id: columnIds.get(c.id)!,
+      table_id: tableId,
+      parent_column_id: c.parent_column_id ? columnIds.get(c.parent_column_id) : undefined,
+      nested_columns: undefined,
+      foreign_key_reference: undefined,
+      compound_key_id: undefined,
+      created_at: now,
+    }));
+    const compoundKeys: CompoundKey[] | undefined = source.compoundKeys?.map((ck) => ({
+      ...ck,
+      id: generateUUID(),
+      table_id: tableId,
+      column_ids: ck.column_ids.map((id) => columnIds.get(id)).filter((id): id is string => !!id),
+      created_at: now,
+    }));
+
+    const name = applyNamingStyle(source.name, options.naming);
+    if (options.surrogateKeys && primaryKeyColumns(source).length === 0) {
+      columns.unshift(
+        newColumn(tableId, {
+          name: keyNameFor(name, 'id', options.naming),
+          ...columnType('long', options),
+          is_primary_key: true,
+          description: 'Surrogate key',
+        })
+      );
+    }
+    columns.forEach((c, i) => (c.order = i));
+
+    const { [DERIVATION_TRACE_KEY]: _previousTrace, ...metadata } = source.metadata ?? {};
+    const indexes = Array.isArray(metadata.indexes)
+      ? (metadata.indexes as TableIndex[]).map((index) => ({
+          ...index,
+          id: generateUUID(),
+          column_ids: index.column_ids
+            .map((id) => columnIds.get(id))
+            .filter((id): id is string => !!id),
+        }))
+      : undefined;
+
+    derivedBySource.set(source.id, {
+      ...source,
+      id: tableId,
+      name,
+      ...(options.target === 'physical' && { physicalName: name }),
+      model_type: options.target,
+      columns,
+      compoundKeys,
+      schemaRelationships: undefined,
+      position_x: source.position_x + offsetX,
+      view_positions: source.view_positions
+        ? Object.fromEntries(
+            Object.entries(source.view_positions).map(([view, p]) => [
+              view,
+              { x: p.x + offsetX, y: p.y },
+            ])
+          )
+        : undefined,
+      metadata: {
+        ...metadata,
+        ...(indexes && { indexes }),
+        ...(options.systemId && { system_id: options.systemId }),
+        [DERIVATION_TRACE_KEY]: trace,
+      },
+      created_at: now,
+      last_modified_at: now,
+    });
+    columnIdMaps.set(source.id, columnIds);
+  }
+
+  const derivedRelationships: Relationship[] = [];
+  const associativeTables: Table[] = [];
+
+  const link = (
+    original: Relationship,
+    parent: Table,
+    child: Table,
+    parentKey: Column | undefined,
+    childKey: Column | undefined,
+    fields: Partial<Relationship> = {}
+  ): Relationship => ({
+    ...original,
+    id: generateUUID(),
+    source_id: parent.id,
+    target_id: child.id,
+    source_table_id: parent.id,
+    target_table_id: child.id,
+    source_key: parentKey?.id,
+    target_key: childKey?.id,
+    source_handle: undefined,
+    target_handle: undefined,
+    visual_metadata: undefined,
+    foreign_key_details:
+      parentKey && childKey
+        ? { source_column: parentKey.name, target_column: childKey.name }
+        : undefined,
+    relationship_type: SDKRelationshipType.ForeignKey,
+    model_type: options.target,
+    created_at: now,
+    last_modified_at: now,
+    ...fields,
+  });
+
+  // Foreign key columns in `child` referencing the primary key of `parent`; a column that
+  // already has the foreign key's name is reused
+  const addForeignKeys = (parent: Table, child: Table, nullable: boolean): Column[] =>
+    primaryKeyColumns(parent).map((key) => {
+      const name = foreignKeyName(parent.name, key.name, options.naming);
+      const existing = child.columns.find((c) => c.name === name);
+      if (existing) {
+        existing.is_foreign_key = true;
+        existing.foreign_key_reference = key.id;
+        return existing;
+      }
+      const column = newColumn(child.id, {
+        name,
+        data_type: key.data_type,
+        logicalType: key.logicalType,
+        physicalType: key.physicalType,
+        nullable,
+        is_foreign_key: true,
+        foreign_key_reference: key.id,
+        order: child.columns.length,
+      });
+      child.columns.push(column);
+      return column;
+    });
+
+  for (const rel of relationships) {
+    if ((rel.source_type ?? 'table') !== 'table' || (rel.target_type ?? 'table') !== 'table') {
+      continue;
+    }
+    const sourceId = rel.source_id || rel.source_table_id || '';
+    const targetId = rel.target_id || rel.target_table_id || '';
+    const parent = derivedBySource.get(sourceId);
+    const child = derivedBySource.get(targetId);
+    if (!parent || !child) continue;
+
+    if (rel.type === 'many-to-many') {
+      const assocId = generateUUID();
+      const assoc: Table = {
+        ...child,
+        id: assocId,
+        name: applyNamingStyle(`${parent.name}_${child.name}`, options.naming),
+        ...(options.target === 'physical' && {
+          physicalName: applyNamingStyle(`${parent.name}_${child.name}`, options.naming),
+        }),
+        alias: undefined,
+        description: `Resolves the many-to-many relationship between ${parent.name} and ${child.name}`,
+        columns: [],
+        compoundKeys: undefined,
+        position_x: (parent.position_x + child.position_x) / 2,
+        position_y: (parent.position_y + child.position_y) / 2 + 150,
+        view_positions: undefined,
+        metadata: {
+          ...(options.systemId && { system_id: options.systemId }),
+          [DERIVATION_TRACE_KEY]: {
+            source_relationship_id: rel.id,
+            source_model_type: rel.model_type,
+            columns: {},
+            options,
+            derived_at: now,
+          } satisfies DerivationTrace,
+        },
+      };
+      const parentKeys = addForeignKeys(parent, assoc, false);
+      const childKeys = addForeignKeys(child, assoc, false);
+      const keyColumns = [...parentKeys, ...childKeys];
+      if (keyColumns.length > 0) {
+        assoc.compoundKeys = [
+          {
+            id: generateUUID(),
+            table_id: assocId,
+            column_ids: keyColumns.map((c) => c.id),
+            is_primary: true,
+            created_at: now,
+          },
+        ];
+      }
+      associativeTables.push(assoc);
+      const oneToMany = {
+        type: 'one-to-many' as const,
+        source_cardinality: '1' as const,
+        target_cardinality: 'N' as const,
+        label: undefined,
+      };
+      derivedRelationships.push(
+        link(rel, parent, assoc, primaryKeyColumns(parent)[0], parentKeys[0], oneToMany),
+        link(rel, child, assoc, primaryKeyColumns(child)[0], childKeys[0], oneToMany)
+      );
+      continue;
+    }
+
+    // Reuse the child's declared key column, otherwise add foreign key columns
+    const mappedChildKey = rel.target_key
+      ? child.columns.find((c) => c.id === columnIdMaps.get(targetId)?.get(rel.target_key!))
+      : undefined;
+    const childKeys = mappedChildKey
+      ? [mappedChildKey]
+      : addForeignKeys(parent, child, isOptional(rel.source_cardinality));
+    if (mappedChildKey) {
+      mappedChildKey.is_foreign_key = true;
+    }
+    const mappedParentKey = rel.source_key
+      ? parent.columns.find((c) => c.id === columnIdMaps.get(sourceId)?.get(rel.source_key!))
+      : undefined;
+    derivedRelationships.push(
+      link(rel, parent, child, mappedParentKey ?? primaryKeyColumns(parent)[0], childKeys[0])
+    );
+  }
+
+  return {
+    tables: [...derivedBySource.values(), ...associativeTables],
+    relationships: derivedRelationships,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Re-propagation
+// ---------------------------------------------------------------------------
+
+export type DerivationChangeKind =
+  'table-renamed' | 'column-added' | 'column-removed' | 'column-changed';
+
+export interface DerivationChange {
+  id: string;
+  kind: DerivationChangeKind;
+  columnId?: string; // Derived column (changed/removed) or source column (added)
+  description: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Changes that re-deriving `source` would make to the previously derived table. Columns
+ * the derivation added (surrogate and foreign keys) and columns added by hand are left
+ * alone. Type changes are only reported when the logical type changes, so physical types
+ * tuned after derivation are kept.
+ */
+export function diffDerivation(derived: Table, source: Table): DerivationChange[] {
+  const trace = getDerivationTrace(derived);
+  if (!trace) return [];
+  const { options } = trace;
+  const changes: DerivationChange[] = [];
+
+  const expectedName = applyNamingStyle(source.name, options.naming);
+  if (expectedName !== derived.name) {
+    changes.push({
+      id: 'table',
+      kind: 'table-renamed',
+      description: `Rename table to "${expectedName}"`,
+      before: derived.name,
+      after: expectedName,
+    });
+  }
+
+  const derivedBySourceColumn = new Map<string, Column>();
+  for (const column of derived.columns) {
+    const sourceColumnId = trace.columns[column.id];
+    if (!sourceColumnId) continue;
+    const sourceColumn = source.columns.find((c) => c.id === sourceColumnId);
+    if (!sourceColumn) {
+      changes.push({
+        id: `remove:${column.id}`,
+        kind: 'column-removed',
+        columnId: column.id,
+        description: `Remove column "${column.name}"`,
+        before: column.name,
+      });
+      continue;
+    }
+    derivedBySourceColumn.set(sourceColumnId, column);
+  }
+
+  for (const sourceColumn of source.columns) {
+    const expected = deriveColumnFields(sourceColumn, options);
+    const column = derivedBySourceColumn.get(sourceColumn.id);
+    if (!column) {
+      changes.push({
+        id: `add:${sourceColumn.id}`,
+        kind: 'column-added',
+        columnId: sourceColumn.id,
+        description: `Add column "${expected.name}"`,
+        after: `${expected.name} ${expected.data_type}`,
+      });
+      continue;
+    }
+    const differences: Array<[string, string, string]> = [];
+    if (expected.name !== column.name) differences.push(['name', column.name, expected.name]);
+    if (toLogicalType(expected.data_type) !== toLogicalType(column.data_type)) {
+      differences.push(['type', column.data_type, expected.data_type]);
+    }
+    if (expected.nullable !== column.nullable) {
+      differences.push([
+        'nullability',
+        column.nullable ? 'nullable' : 'not null',
+        expected.nullable ? 'nullable' : 'not null',
+      ]);
+    }
+    if (expected.is_primary_key !== column.is_primary_key) {
+      differences.push([
+        'primary key',
+        column.is_primary_key ? 'PK' : 'no PK',
+        expected.is_primary_key ? 'PK' : 'no PK',
+      ]);
+    }
+    if ((expected.description ?? '') !== (column.description ?? '')) {
+      differences.push(['description', column.description ?? '', expected.description ?? '']);
+    }
+    if (differences.length > 0) {
+      changes.push({
+        id: `change:${column.id}`,
+        kind: 'column-changed',
+        columnId: column.id,
+        description: `Update ${differences.map(([field]) => field).join(', ')} of "${column.name}"`,
+        before: differences.map(([, before]) => before).join(' · '),
+        after: differences.map(([, , after]) => after).join(' · '),
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The derived table with the selected changes from `diffDerivation` applied
+ */
+export function applyDerivationChanges(
+  derived: Table,
+  source: Table,
+  changes: DerivationChange[]
+): Table {
+  const trace = getDerivationTrace(derived);
+  if (!trace) return derived;
+  const { options } = trace;
+  const now = new Date().toISOString();
+  const traceColumns = { ...trace.columns };
+  let columns = [...derived.columns];
+  let name = derived.name;
+
+  for (const change of changes) {
+    switch (change.kind) {
+      case 'table-renamed':
+        name = change.after ?? name;
+        break;
+      case 'column-removed':
+        columns = columns.filter((c) => c.id !== change.columnId);
+        delete traceColumns[change.columnId!];
+        break;
+      case 'column-changed': {
+        const sourceColumn = source.columns.find((c) => c.id === trace.columns[change.columnId!]);
+        if (!sourceColumn) break;
+        const expected = deriveColumnFields(sourceColumn, options);
+        columns = columns.map((c) => {
+          if (c.id !== change.columnId) return c;
+          const keepType = toLogicalType(expected.data_type) === toLogicalType(c.data_type);
+          return {
+            ...c,
+            ...expected,
+            ...(keepType && {
+              data_type: c.data_type,
+              logicalType: c.logicalType,
+              physicalType: c.physicalType,
+            }),
+          };
+        });
+        break;
+      }
+      case 'column-added': {
+        const sourceColumn = source.columns.find((c) => c.id === change.columnId);
+        if (!sourceColumn) break;
+        const parentId = Object.keys(traceColumns).find(
+          (id) => traceColumns[id] === sourceColumn.parent_column_id
+        );
+        const column: Column = {
+          ...sourceColumn,
+          ...deriveColumnFields(sourceColumn, options),
+          id: generateUUID(),
+          table_id: derived.id,
+          parent_column_id: parentId,
+          nested_columns: undefined,
+          foreign_key_reference: undefined,
+          compound_key_id: undefined,
+          order: columns.length,
+          created_at: now,
+        };
+        columns.push(column);
+        traceColumns[column.id] = sourceColumn.id;
+        break;
+      }
+    }
+  }
+
+  const columnIds = new Set(columns.map((c) => c.id));
+  return {
+    ...derived,
+    name,
+    ...(options.target === 'physical' && name !== derived.name && { physicalName: name }),
+    columns,
+    compoundKeys: derived.compoundKeys
+      ?.map((ck) => ({ ...ck, column_ids: ck.column_ids.filter((id) => columnIds.has(id)) }))
+      .filter((ck) => ck.column_ids.length > 0),
+    metadata: {
+      ...derived.metadata,
+      [DERIVATION_TRACE_KEY]: { ...trace, columns: traceColumns, derived_at: now },
+    },
+    last_modified_at: now,
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Naming policy
+ *
+ * Checks table and column names against the rules of the workspace naming policy
+ * (naming-policy.yaml) and suggests a compliant name for each violation.
+ */
+
+import * as yaml from 'js-yaml';
+import type { Table } from '@/types/table';
+import type { Domain } from '@/types/domain';
+import type { System } from '@/types/system';
+import type {
+  NamingPolicy,
+  NamingRule,
+  NamingRuleSeverity,
+  NamingRuleTarget,
+} from '@/types/namingPolicy';
+import { getEffectiveDataLevel } from '@/utils/dataLevel';
+import { getResourceType } from './customProperties';
+import { applyNamingStyle, NAMING_STYLES, type NamingStyle } from './modelDerivation';
+import { nameTokens } from './relationshipInference';
+import {
+  dialectForSystemType,
+  isReservedWord,
+  maxIdentifierLength,
+  SQL_DIALECTS,
+  type SQLDialect,
+} from './sqlDialects';
+
+export const NAMING_POLICY_FILE = 'naming-policy.yaml';
+
+export interface NamingViolation {
+  target: NamingRuleTarget;
+  tableId: string;
+  tableName: string;
+  columnId?: string;
+  name: string;
+  severity: NamingRuleSeverity;
+  ruleIds: string[];
+  problems: string[];
+  suggestion?: string; // Compliant name, when one can be derived
+}
+
+const SEVERITY_RANK: Record<NamingRuleSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+const asList = (value: string | string[] | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const dialectLabel = (dialect: SQLDialect) =>
+  SQL_DIALECTS.find((d) => d.value === dialect)?.label ?? dialect;
+
+/**
+ * Parse and check a naming policy file. Throws an Error describing the first invalid rule.
+ */
+export function parseNamingPolicy(content: string): NamingPolicy {
+  const parsed = yaml.load(content) as Partial<NamingPolicy> | null;
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.rules)) {
+    throw new Error('Naming policy must contain a "rules" list');
+  }
+  const casings = NAMING_STYLES.map((s) => s.value).filter((s) => s !== 'as-is');
+  parsed.rules.forEach((rule, index) => {
+    const label = rule?.id ? `Naming rule "${rule.id}"` : `Naming rule ${index + 1}`;
+    if (!rule || typeof rule.id !== 'string' || !rule.id) {
+      throw new Error(`${label} has no id`);
+    }
+    if (rule.applies_to !== 'table' && rule.applies_to !== 'column') {
+      throw new Error(`${label} must apply to "table" or "column"`);
+    }
+    if (rule.casing && !casings.includes(rule.casing)) {
+      throw new Error(`${label} has unknown casing "${rule.casing}"`);
+    }
+    if (rule.severity && !(rule.severity in SEVERITY_RANK)) {
+      throw new Error(`${label} has unknown severity "${rule.severity}"`);
+    }
+    if (rule.pattern !== undefined) {
+      try {
+        new RegExp(rule.pattern);
+      } catch {
+        throw new Error(`${label} has an invalid pattern "${rule.pattern}"`);
+      }
+    }
+  });
+  return parsed as NamingPolicy;
+}
+
+// What a rule scope is matched against
+interface TableContext {
+  table: Table;
+  system?: System;
+  domain?: Domain;
+  dialect?: SQLDialect;
+}
+
+const inScope = (rule: NamingRule, { table, system, domain }: TableContext): boolean => {
+  const scope = rule.scope;
+  if (!scope) return true;
+  if (scope.resource_types?.length) {
+    const resourceType = getResourceType(table.customProperties) ?? 'table';
+    if (!scope.resource_types.includes(resourceType)) return false;
+  }
+  if (scope.data_levels?.length) {
+    const level = getEffectiveDataLevel(table);
+    if (!level || !scope.data_levels.includes(level)) return false;
+  }
+  if (scope.system_types?.length) {
+    if (!system?.system_type || !scope.system_types.includes(system.system_type)) return false;
+  }
+  if (scope.domains?.length) {
+    const names = scope.domains.map((d) => d.toLowerCase());
+    if (
+      !domain ||
+      !names.some((n) => n === domain.id.toLowerCase() || n === domain.name.toLowerCase())
+    ) {
+      return false;
+    }
+  }
+  if (scope.dimensional_roles?.length) {
+    if (!table.dimensionalRole || !scope.dimensional_roles.includes(table.dimensionalRole)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const maxLength = (rule: NamingRule, dialect: SQLDialect | undefined): number | undefined => {
+  if (typeof rule.max_length === 'number') return rule.max_length;
+  if (!dialect) return undefined;
+  if (rule.max_length === 'dialect') return maxIdentifierLength(dialect);
+  return rule.max_length?.[dialect];
+};
+
+const bannedWords = (rule: NamingRule): Array<[string, string]> =>
+  Object.entries(rule.banned_words ?? {}).map(([word, replacement]) => [
+    word.toLowerCase(),
+    replacement ?? '',
+  ]);
+
+const reservedIn = (name: string, dialect: SQLDialect | undefined): SQLDialect | undefined =>
+  (dialect ? [dialect] : SQL_DIALECTS.map((d) => d.value)).find((d) => isReservedWord(name, d));
+
+/**
+ * Problems with a name under one rule, as phrases such as "must start with dim_"
+ */
+function ruleProblems(name: string, rule: NamingRule, dialect: SQLDialect | undefined): string[] {
+  const problems: string[] = [];
+  if (rule.casing && applyNamingStyle(name, rule.casing) !== name) {
+    problems.push(`is not ${rule.casing}`);
+  }
+  const prefixes = asList(rule.prefix);
+  if (prefixes.length > 0 && !prefixes.some((p) => name.startsWith(p))) {
+    problems.push(`must start with ${prefixes.join(' or ')}`);
+  }
+  const suffixes = asList(rule.suffix);
+  if (suffixes.length > 0 && !suffixes.some((s) => name.endsWith(s))) {
+    problems.push(`must end with ${suffixes.join(' or ')}`);
+  }
+  if (rule.pattern !== undefined && !new RegExp(`^(?:${rule.pattern})$`).test(name)) {
+    problems.push(`must match ${rule.pattern}`);
+  }
+  if (rule.min_length !== undefined && name.length < rule.min_length) {
+    problems.push(`is shorter than ${rule.min_length} characters`);
+  }
+  const limit = maxLength(rule, dialect);
+  if (limit !== undefined && name.length > limit) {
+    problems.push(`is longer than ${limit} characters`);
+  }
+  if (rule.reserved_words) {
+    const reserved = reservedIn(name, dialect);
+    if (reserved) problems.push(`is a reserved word in ${dialectLabel(reserved)}`);
+  }
+  const banned = new Map(bannedWords(rule));
+  nameTokens(name)
+    .filter((token) => banned.has(token))
+    .forEach((token) =>
+      problems.push(
+        banned.get(token) ? `uses "${token}" instead of "${banned.get(token)}"` : `uses "${token}"`
+      )
+    );
+  return problems;
+}
+
+// Style a name is written in, used to keep it when banned words are replaced
+const detectNamingStyle = (name: string): Exclude<NamingStyle, 'as-is'> => {
+  if (name.includes('_')) return /[a-z]/.test(name) ? 'snake_case' : 'UPPER_SNAKE';
+  if (/^[a-z0-9]+$/.test(name)) return 'snake_case';
+  return /^[A-Z]/.test(name) ? 'PascalCase' : 'camelCase';
+};
+
+/**
+ * A name that satisfies all the rules, or undefined when the rules cannot be satisfied
+ * automatically (patterns and minimum lengths are never fixed)
+ */
+function suggestName(
+  name: string,
+  rules: NamingRule[],
+  target: NamingRuleTarget,
+  dialect: SQLDialect | undefined
+): string | undefined {
+  const casing = rules.find((r) => r.casing)?.casing;
+  const style = casing ?? detectNamingStyle(name);
+  const banned = new Map(rules.flatMap(bannedWords));
+
+  let suggestion = name;
+  const tokens = nameTokens(name);
+  if (tokens.some((t) => banned.has(t))) {
+    const replaced = tokens.flatMap((t) => (banned.has(t) ? nameTokens(banned.get(t)!) : [t]));
+    suggestion = applyNamingStyle(replaced.join('_'), style);
+  }
+  if (casing) suggestion = applyNamingStyle(suggestion, casing);
+  for (const rule of rules) {
+    const prefixes = asList(rule.prefix);
+    if (prefixes.length > 0 && !prefixes.some((p) => suggestion.startsWith(p))) {
+      suggestion = prefixes[0] + suggestion;
+    }
+    const suffixes = asList(rule.suffix);
+    if (suffixes.length > 0 && !suffixes.some((s) => suggestion.endsWith(s))) {
+      suggestion = suggestion + suffixes[0];
+    }
+  }
+  if (rules.some((r) => r.reserved_words) && reservedIn(suggestion, dialect)) {
+    suggestion = applyNamingStyle(`${suggestion}_${target}`, style);
+  }
+  const limits = rules.map((r) => maxLength(r, dialect)).filter((l) => l !== undefined);
+  const limit = limits.length > 0 ? Math.min(...limits) : undefined;
+  if (limit !== undefined && suggestion.length > limit) {
+    // Keep a required suffix when shortening
+    const suffix = rules.flatMap((r) => asList(r.suffix)).find((s) => suggestion.endsWith(s)) ?? '';
+    suggestion = suggestion.slice(0, limit - suffix.length).replace(/_+$/, '') + suffix;
+  }
+
+  const compliant = rules.every((r) => ruleProblems(suggestion, r, dialect).length === 0);
+  return compliant && suggestion !== name ? suggestion : undefined;
+}
+
+function checkName(
+  name: string,
+  rules: NamingRule[],
+  target: NamingRuleTarget,
+  dialect: SQLDialect | undefined
+): Pick<NamingViolation, 'severity' | 'ruleIds' | 'problems' | 'suggestion'> | undefined {
+  const failed = rules
+    .map((rule) => ({ rule, problems: ruleProblems(name, rule, dialect) }))
+    .filter((r) => r.problems.length > 0);
+  if (failed.length === 0) return undefined;
+  return {
+    severity: failed
+      .map((f) => f.rule.severity ?? 'warning')
+      .reduce((a, b) => (SEVERITY_RANK[b] > SEVERITY_RANK[a] ? b : a)),
+    ruleIds: failed.map((f) => f.rule.id),
+    problems: [...new Set(failed.flatMap((f) => f.problems))],
+    suggestion: suggestName(name, rules, target, dialect),
+  };
+}
+
+/**
+ * Check the names of all tables and their columns against a naming policy. Each name gets
+ * at most one violation, combining every rule it breaks.
+ */
+export function checkNamingPolicy(
+  policy: NamingPolicy,
+  tables: Table[],
+  domains: Domain[],
+  systems: System[]
+): NamingViolation[] {
+  const violations: NamingViolation[] = [];
+
+  for (const table of tables) {
+    if (!table.name) continue;
+    const system =
+      systems.find((s) => s.table_ids?.includes(table.id)) ??
+      systems.find((s) => s.id === table.metadata?.system_id);
+    const context: TableContext = {
+      table,
+      system,
+      domain: domains.find((d) => d.id === table.primary_domain_id),
+      dialect: dialectForSystemType(system?.system_type),
+    };
+    const rules = policy.rules.filter((rule) => inScope(rule, context));
+    // A rule's dialect overrides the dialect of the table's system
+    const dialectOf = (target: NamingRuleTarget) =>
+      rules.find((r) => r.applies_to === target && r.dialect)?.dialect ?? context.dialect;
+
+    const tableRules = rules.filter((r) => r.applies_to === 'table');
+    const tableResult = checkName(table.name, tableRules, 'table', dialectOf('table'));
+    if (tableResult) {
+      violations.push({
+        target: 'table',
+        tableId: table.id,
+        tableName: table.name,
+        name: table.name,
+        ...tableResult,
+      });
+    }
+
+    const columnRules = rules.filter((r) => r.applies_to === 'column');
+    if (columnRules.length === 0) continue;
+    for (const column of table.columns) {
+      if (!column.name) continue;
+      const columnResult = checkName(column.name, columnRules, 'column', dialectOf('column'));
+      if (columnResult) {
+        violations.push({
+          target: 'column',
+          tableId: table.id,
+          tableName: table.name,
+          columnId: column.id,
+          name: column.name,
+          ...columnResult,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
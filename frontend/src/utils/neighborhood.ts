@@ -0,0 +1,217 @@
+/**
+ * Neighborhood graph for canvas focus mode
+ *
+ * Builds a directed lineage graph over the whole workspace so a table's neighborhood can
+ * reach tables in other domains that are shared onto (or from) the current domain via
+ * `shared_resources`. Links point upstream → downstream:
+ * - relationships: source → target (reversed for `targetToSource` flow, both ways when
+ *   bidirectional)
+ * - transformation links: source table → target table
+ * - metric views: source and joined tables → metric view
+ * - data products: input port tables → product → output port tables; other linked tables
+ *   feed the product
+ */
+
+import type { Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+import { FlowDirection, SDKRelationshipType } from '@/types/relationship';
+import type { MetricView } from '@/types/metricView';
+import type { DataProduct } from '@/types/odps';
+
+export type NeighborhoodLinkKind =
+  'foreign-key' | 'data-flow' | 'transformation' | 'metric-view' | 'data-product';
+
+export type NeighborhoodDirection = 'upstream' | 'downstream' | 'both';
+
+export const NEIGHBORHOOD_LINK_KINDS: Array<{ kind: NeighborhoodLinkKind; label: string }> = [
+  { kind: 'foreign-key', label: 'Foreign keys' },
+  { kind: 'data-flow', label: 'Data flow' },
+  { kind: 'transformation', label: 'Transformations' },
+  { kind: 'metric-view', label: 'Metric views' },
+  { kind: 'data-product', label: 'Data products' },
+];
+
+export interface NeighborhoodLink {
+  id: string; // Matches the canvas edge ID where the link is drawn as an edge
+  from: string;
+  to: string;
+  kind: NeighborhoodLinkKind;
+  bidirectional?: boolean;
+}
+
+export interface NeighborhoodGraph {
+  links: NeighborhoodLink[];
+  downstream: Map<string, NeighborhoodLink[]>;
+  upstream: Map<string, NeighborhoodLink[]>;
+}
+
+export interface NeighborhoodGraphInput {
+  tables: Table[];
+  relationships: Relationship[];
+  transformationLinks: Array<{ id: string; source_table_id: string; target_table_id: string }>;
+  metricViews: MetricView[];
+  products: DataProduct[];
+}
+
+export interface NeighborhoodOptions {
+  depth: number;
+  direction: NeighborhoodDirection;
+  kinds: NeighborhoodLinkKind[];
+}
+
+export interface Neighborhood {
+  /** Hop distance from the focused node, for every node in the neighborhood (focus = 0) */
+  distances: Map<string, number>;
+  /** IDs of the links followed to reach the neighborhood */
+  linkIds: Set<string>;
+}
+
+const relationshipKind = (relationship: Relationship): NeighborhoodLinkKind => {
+  if (relationship.relationship_type) {
+    return relationship.relationship_type === SDKRelationshipType.ForeignKey
+      ? 'foreign-key'
+      : 'data-flow';
+  }
+  const sourceType = relationship.source_type ?? 'table';
+  const targetType = relationship.target_type ?? 'table';
+  return sourceType === 'table' && targetType === 'table' ? 'foreign-key' : 'data-flow';
+};
+
+// Metric view sources may be qualified (catalog.schema.table); match on the last part
+const unqualified = (name: string) => name.split('.').pop()!.replace(/[`"]/g, '').toLowerCase();
+
+export function buildNeighborhoodGraph(input: NeighborhoodGraphInput): NeighborhoodGraph {
+  const links: NeighborhoodLink[] = [];
+
+  for (const relationship of input.relationships) {
+    const source = relationship.source_id || relationship.source_table_id;
+    const target = relationship.target_id || relationship.target_table_id;
+    if (!source || !target) continue;
+    const reversed = relationship.flow_direction === FlowDirection.TargetToSource;
+    links.push({
+      id: relationship.id,
+      from: reversed ? target : source,
+      to: reversed ? source : target,
+      kind: relationshipKind(relationship),
+      bidirectional: relationship.flow_direction === FlowDirection.Bidirectional,
+    });
+  }
+
+  for (const link of input.transformationLinks) {
+    links.push({
+      id: `transformation-${link.id}`,
+      from: link.source_table_id,
+      to: link.target_table_id,
+      kind: 'transformation',
+    });
+  }
+
+  const tablesByName = new Map<string, Table[]>();
+  for (const table of input.tables) {
+    const key = table.name.toLowerCase();
+    tablesByName.set(key, [...(tablesByName.get(key) ?? []), table]);
+  }
+  for (const view of input.metricViews) {
+    const names = [view.source, ...(view.joins ?? []).map((join) => join.table)].filter(Boolean);
+    const sourceTableIds = new Set<string>();
+    for (const name of names) {
+      const candidates = tablesByName.get(unqualified(name)) ?? [];
+      // Prefer a table from the metric view's own domain when names collide
+      const sameDomain = candidates.filter((t) => t.primary_domain_id === view.domain_id);
+      (sameDomain.length > 0 ? sameDomain : candidates).forEach((t) => sourceTableIds.add(t.id));
+    }
+    for (const tableId of sourceTableIds) {
+      links.push({
+        id: `metric-view-${view.id}-${tableId}`,
+        from: tableId,
+        to: view.id,
+        kind: 'metric-view',
+      });
+    }
+  }
+
+  for (const product of input.products) {
+    const inputTables = new Set(
+      (product.input_ports ?? []).map((p) => p.table_id).filter(Boolean) as string[]
+    );
+    const outputTables = new Set(
+      (product.output_ports ?? []).map((p) => p.table_id).filter(Boolean) as string[]
+    );
+    for (const tableId of product.linked_tables ?? []) {
+      if (!outputTables.has(tableId)) inputTables.add(tableId);
+    }
+    for (const tableId of inputTables) {
+      links.push({
+        id: `data-product-${product.id}-${tableId}`,
+        from: tableId,
+        to: product.id,
+        kind: 'data-product',
+      });
+    }
+    for (const tableId of outputTables) {
+      links.push({
+        id: `data-product-${product.id}-${tableId}`,
+        from: product.id,
+        to: tableId,
+        kind: 'data-product',
+      });
+    }
+  }
+
+  const downstream = new Map<string, NeighborhoodLink[]>();
+  const upstream = new Map<string, NeighborhoodLink[]>();
+  const add = (map: Map<string, NeighborhoodLink[]>, key: string, link: NeighborhoodLink) => {
+    const list = map.get(key);
+    if (list) list.push(link);
+    else map.set(key, [link]);
+  };
+  for (const link of links) {
+    add(downstream, link.from, link);
+    add(upstream, link.to, link);
+    if (link.bidirectional) {
+      add(downstream, link.to, link);
+      add(upstream, link.from, link);
+    }
+  }
+
+  return { links, downstream, upstream };
+}
+
+/**
+ * Breadth-first walk from `focusId` up to `depth` hops. "Both" is the union of the
+ * upstream and downstream walks, so it never zig-zags into siblings of a neighbor.
+ */
+export function getNeighborhood(
+  graph: NeighborhoodGraph,
+  focusId: string,
+  options: NeighborhoodOptions
+): Neighborhood {
+  const distances = new Map<string, number>([[focusId, 0]]);
+  const linkIds = new Set<string>();
+  const kinds = new Set(options.kinds);
+
+  const walk = (adjacency: Map<string, NeighborhoodLink[]>) => {
+    const seen = new Set([focusId]);
+    let frontier = [focusId];
+    for (let hop = 1; hop <= options.depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const nodeId of frontier) {
+        for (const link of adjacency.get(nodeId) ?? []) {
+          if (!kinds.has(link.kind)) continue;
+          const neighbor = link.from === nodeId ? link.to : link.from;
+          linkIds.add(link.id);
+          if (seen.has(neighbor)) continue;
+          seen.add(neighbor);
+          next.push(neighbor);
+          distances.set(neighbor, Math.min(distances.get(neighbor) ?? hop, hop));
+        }
+      }
+      frontier = next;
+    }
+  };
+
+  if (options.direction !== 'downstream') walk(graph.upstream);
+  if (options.direction !== 'upstream') walk(graph.downstream);
+
+  return { distances, linkIds };
+}
@@ -0,0 +1,193 @@
+/**
+ * Orphaned references
+ *
+ * Finds references to resources that no longer exist, as left behind by merges and branch
+ * switches (e.g. a relationship to a table whose ODCS file was deleted on another branch),
+ * and removes them.
+ */
+
+import type { Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+import type { Domain } from '@/types/domain';
+import type { System } from '@/types/system';
+import type { ComputeAsset } from '@/types/cads';
+import type { MetricView } from '@/types/metricView';
+import type { BPMNProcess } from '@/types/bpmn';
+
+export interface OrphanCheckModel {
+  tables: Table[];
+  relationships: Relationship[];
+  domains: Domain[];
+  systems: System[];
+  computeAssets?: ComputeAsset[];
+  metricViews?: MetricView[];
+  bpmnProcesses?: BPMNProcess[];
+}
+
+export interface OrphanedReference {
+  resourceType: 'relationship' | 'system' | 'domain';
+  resourceId: string;
+  resourceName: string;
+  field: string; // Field holding the reference, e.g. source_id or table_ids
+  missingId: string;
+  linkId?: string; // Transformation link of a domain
+  message: string;
+}
+
+export interface OrphanRepair {
+  relationships: Relationship[];
+  systems: System[];
+  domains: Domain[];
+  removedRelationshipIds: string[];
+  updatedSystemIds: string[];
+  updatedDomainIds: string[];
+}
+
+const SYSTEM_REFERENCE_FIELDS = [
+  { field: 'table_ids', label: 'table' },
+  { field: 'asset_ids', label: 'compute asset' },
+  { field: 'metric_view_ids', label: 'metric view' },
+] as const;
+
+/**
+ * All references in the model to tables, systems, compute assets, metric views and BPMN
+ * processes that do not exist
+ */
+export function findOrphanedReferences(model: OrphanCheckModel): OrphanedReference[] {
+  const tableIds = new Set(model.tables.map((t) => t.id));
+  const systemIds = new Set(model.systems.map((s) => s.id));
+  const assetIds = new Set((model.computeAssets ?? []).map((a) => a.id));
+  const ids = {
+    table_ids: tableIds,
+    asset_ids: assetIds,
+    metric_view_ids: new Set((model.metricViews ?? []).map((m) => m.id)),
+  };
+  const processIds = new Set((model.bpmnProcesses ?? []).map((p) => p.id));
+  const orphans: OrphanedReference[] = [];
+
+  for (const rel of model.relationships) {
+    const name = rel.label || `Relationship ${rel.id.substring(0, 8)}`;
+    const ends = [
+      { field: 'source_id', id: rel.source_id || rel.source_table_id, type: rel.source_type },
+      { field: 'target_id', id: rel.target_id || rel.target_table_id, type: rel.target_type },
+    ];
+    for (const end of ends) {
+      if (!end.id) continue;
+      const exists =
+        end.type === 'system'
+          ? systemIds.has(end.id)
+          : end.type === 'compute-asset'
+            ? assetIds.has(end.id)
+            : tableIds.has(end.id);
+      if (!exists) {
+        orphans.push({
+          resourceType: 'relationship',
+          resourceId: rel.id,
+          resourceName: name,
+          field: end.field,
+          missingId: end.id,
+          message: `${end.field === 'source_id' ? 'Source' : 'Target'} ${end.type ?? 'table'} ${end.id} does not exist`,
+        });
+      }
+    }
+  }
+
+  for (const system of model.systems) {
+    for (const { field, label } of SYSTEM_REFERENCE_FIELDS) {
+      for (const id of system[field] ?? []) {
+        if (!ids[field].has(id)) {
+          orphans.push({
+            resourceType: 'system',
+            resourceId: system.id,
+            resourceName: system.name,
+            field,
+            missingId: id,
+            message: `Lists ${label} ${id}, which does not exist`,
+          });
+        }
+      }
+    }
+  }
+
+  for (const domain of model.domains) {
+    for (const link of domain.transformation_links ?? []) {
+      const missing = [
+        {
+          field: 'source_table_id',
+          id: link.source_table_id,
+          ok: tableIds.has(link.source_table_id),
+        },
+        {
+          field: 'target_table_id',
+          id: link.target_table_id,
+          ok: tableIds.has(link.target_table_id),
+        },
+        {
+          field: 'bpmn_process_id',
+          id: link.bpmn_process_id,
+          ok: !link.bpmn_process_id || processIds.has(link.bpmn_process_id),
+        },
+      ].filter((ref) => !ref.ok);
+      for (const ref of missing) {
+        orphans.push({
+          resourceType: 'domain',
+          resourceId: domain.id,
+          resourceName: domain.name,
+          field: `transformation_links.${ref.field}`,
+          missingId: ref.id ?? '',
+          linkId: link.id,
+          message: `Transformation link ${link.name || link.id} references ${ref.field === 'bpmn_process_id' ? 'BPMN process' : 'table'} ${ref.id}, which does not exist`,
+        });
+      }
+    }
+  }
+
+  return orphans;
+}
+
+/**
+ * Remove orphaned references: relationships and transformation links with a missing end
+ * are deleted, missing IDs are dropped from system reference lists
+ */
+export function repairOrphanedReferences(
+  model: OrphanCheckModel,
+  orphans: OrphanedReference[] = findOrphanedReferences(model)
+): OrphanRepair {
+  const removedRelationshipIds = [
+    ...new Set(orphans.filter((o) => o.resourceType === 'relationship').map((o) => o.resourceId)),
+  ];
+  const systemOrphans = orphans.filter((o) => o.resourceType === 'system');
+  const removedLinkIds = new Set(
+    orphans.filter((o) => o.resourceType === 'domain' && o.linkId).map((o) => o.linkId!)
+  );
+
+  const updatedSystemIds = new Set<string>();
+  const systems = model.systems.map((system) => {
+    const missing = systemOrphans.filter((o) => o.resourceId === system.id);
+    if (missing.length === 0) return system;
+    updatedSystemIds.add(system.id);
+    const repaired = { ...system };
+    for (const { field } of SYSTEM_REFERENCE_FIELDS) {
+      const missingIds = new Set(missing.filter((o) => o.field === field).map((o) => o.missingId));
+      if (missingIds.size > 0) repaired[field] = system[field]?.filter((id) => !missingIds.has(id));
+    }
+    return repaired;
+  });
+
+  const updatedDomainIds = new Set<string>();
+  const domains = model.domains.map((domain) => {
+    const links = domain.transformation_links;
+    if (!links?.some((l) => removedLinkIds.has(l.id))) return domain;
+    updatedDomainIds.add(domain.id);
+    return { ...domain, transformation_links: links.filter((l) => !removedLinkIds.has(l.id)) };
+  });
+
+  return {
+    relationships: model.relationships.filter((r) => !removedRelationshipIds.includes(r.id)),
+    systems,
+    domains,
+    removedRelationshipIds,
+    updatedSystemIds: [...updatedSystemIds],
+    updatedDomainIds: [...updatedDomainIds],
+  };
+}
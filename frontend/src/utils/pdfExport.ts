@@ -0,0 +1,513 @@
+/**
+ * Tiled PDF export
+ *
+ * Splits a captured canvas scene (see utils/canvasVectorExport) across printable pages
+ * with configurable page size, orientation, margins and overlap, and writes a vector
+ * PDF. Each page carries a title block with the page position and a notation legend so
+ * printed sheets can be reassembled.
+ *
+ * The writer is intentionally small: standard Type 1 fonts (Helvetica/Courier, WinAnsi),
+ * uncompressed content streams and path operators only.
+ */
+
+import {
+  buildTitleBlock,
+  rectsIntersect,
+  TITLE_BLOCK_HEIGHT,
+  type ColorRGBA,
+  type Rect,
+  type ScenePrimitive,
+} from './canvasVectorExport';
+import type { ERNotation } from '@/types/relationship';
+
+export type PageSizeName = 'A4' | 'A3' | 'A2' | 'A1' | 'A0' | 'Letter' | 'Legal' | 'Tabloid';
+export type PageOrientation = 'portrait' | 'landscape';
+
+/**
+ * Page sizes in PostScript points (portrait)
+ */
+export const PAGE_SIZES: Record<PageSizeName, { width: number; height: number }> = {
+  A4: { width: 595.28, height: 841.89 },
+  A3: { width: 841.89, height: 1190.55 },
+  A2: { width: 1190.55, height: 1683.78 },
+  A1: { width: 1683.78, height: 2383.94 },
+  A0: { width: 2383.94, height: 3370.39 },
+  Letter: { width: 612, height: 792 },
+  Legal: { width: 612, height: 1008 },
+  Tabloid: { width: 792, height: 1224 },
+};
+
+export interface PdfExportOptions {
+  pageSize: PageSizeName;
+  orientation: PageOrientation;
+  overlapMm: number;
+  marginMm?: number;
+  /** Print scale in percent of on-screen size (100 = 1 CSS px → 0.75 pt) */
+  scale?: number;
+  /** Fit the area to this many pages across; overrides `scale` */
+  pagesWide?: number;
+  title: string;
+  subtitle?: string;
+  includeTitleBlock?: boolean;
+  includeLegend?: boolean;
+  /** ER notation of the canvas, for the legend */
+  notation?: ERNotation;
+}
+
+export interface PageTile {
+  index: number;
+  row: number;
+  col: number;
+  area: Rect; // Flow coordinates covered by this page
+}
+
+export interface TileLayout {
+  tiles: PageTile[];
+  rows: number;
+  cols: number;
+  pageWidth: number;
+  pageHeight: number;
+  printable: Rect; // Points, top-left origin
+  pointsPerUnit: number;
+}
+
+const MM_TO_PT = 72 / 25.4;
+const CSS_PX_TO_PT = 0.75;
+const TITLE_BLOCK_GAP = 6;
+
+/**
+ * Compute the page grid needed to print `area` at the requested scale
+ */
+export function computePageTiles(area: Rect, options: PdfExportOptions): TileLayout {
+  const size = PAGE_SIZES[options.pageSize];
+  const landscape = options.orientation === 'landscape';
+  const pageWidth = landscape ? size.height : size.width;
+  const pageHeight = landscape ? size.width : size.height;
+  const margin = (options.marginMm ?? 10) * MM_TO_PT;
+  const footer = options.includeTitleBlock === false ? 0 : TITLE_BLOCK_HEIGHT + TITLE_BLOCK_GAP;
+
+  const printable: Rect = {
+    x: margin,
+    y: margin,
+    width: pageWidth - margin * 2,
+    height: pageHeight - margin * 2 - footer,
+  };
+  // Overlap can never consume a whole page
+  const overlap = Math.min(
+    Math.max(0, options.overlapMm * MM_TO_PT),
+    printable.width * 0.5,
+    printable.height * 0.5
+  );
+
+  const areaWidth = Math.max(area.width, 1);
+  const areaHeight = Math.max(area.height, 1);
+  const pointsPerUnit = options.pagesWide
+    ? (options.pagesWide * printable.width - (options.pagesWide - 1) * overlap) / areaWidth
+    : CSS_PX_TO_PT * ((options.scale ?? 100) / 100);
+
+  const count = (extent: number, pageExtent: number) =>
+    Math.max(1, Math.ceil((extent * pointsPerUnit - overlap) / (pageExtent - overlap) - 1e-9));
+  const cols = count(areaWidth, printable.width);
+  const rows = count(areaHeight, printable.height);
+
+  const tileWidth = printable.width / pointsPerUnit;
+  const tileHeight = printable.height / pointsPerUnit;
+  const stepX = (printable.width - overlap) / pointsPerUnit;
+  const stepY = (printable.height - overlap) / pointsPerUnit;
+
+  const tiles: PageTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      tiles.push({
+        index: tiles.length,
+        row,
+        col,
+        area: {
+          x: area.x + col * stepX,
+          y: area.y + row * stepY,
+          width: tileWidth,
+          height: tileHeight,
+        },
+      });
+    }
+  }
+
+  return { tiles, rows, cols, pageWidth, pageHeight, printable, pointsPerUnit };
+}
+
+// ---------------------------------------------------------------------------
+// Path conversion
+// ---------------------------------------------------------------------------
+
+const fmt = (v: number) => {
+  const rounded = Math.round(v * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : rounded.toString();
+};
+
+/**
+ * Convert SVG path data to PDF path construction operators.
+ * Quadratic segments are raised to cubic; elliptical arcs are approximated by a line
+ * to their end point (ReactFlow edges never emit arcs).
+ */
+export function svgPathToPdf(d: string): string {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) || [];
+  const ops: string[] = [];
+  let i = 0;
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let lastCubic: [number, number] | null = null;
+  let lastQuad: [number, number] | null = null;
+
+  const next = () => parseFloat(tokens[i++]!);
+  const hasNumber = () => i < tokens.length && !/[a-zA-Z]/.test(tokens[i]!);
+
+  const cubic = (x1: number, y1: number, x2: number, y2: number, ex: number, ey: number) => {
+    ops.push(`${fmt(x1)} ${fmt(y1)} ${fmt(x2)} ${fmt(y2)} ${fmt(ex)} ${fmt(ey)} c`);
+    lastCubic = [x2, y2];
+    x = ex;
+    y = ey;
+  };
+  const quad = (qx: number, qy: number, ex: number, ey: number) => {
+    cubic(
+      x + (2 / 3) * (qx - x),
+      y + (2 / 3) * (qy - y),
+      ex + (2 / 3) * (qx - ex),
+      ey + (2 / 3) * (qy - ey),
+      ex,
+      ey
+    );
+    lastCubic = null;
+    lastQuad = [qx, qy];
+  };
+
+  while (i < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[i]!)) {
+      command = tokens[i++]!;
+    } else if (!command) {
+      i++;
+      continue;
+    }
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    const upper = command.toUpperCase();
+    const prevCubic: [number, number] | null = lastCubic;
+    const prevQuad: [number, number] | null = lastQuad;
+    lastCubic = null;
+    lastQuad = null;
+
+    switch (upper) {
+      case 'M': {
+        x = ox + next();
+        y = oy + next();
+        startX = x;
+        startY = y;
+        ops.push(`${fmt(x)} ${fmt(y)} m`);
+        // Subsequent pairs are implicit line-tos
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+        x = ox + next();
+        y = oy + next();
+        ops.push(`${fmt(x)} ${fmt(y)} l`);
+        break;
+      case 'H':
+        x = ox + next();
+        ops.push(`${fmt(x)} ${fmt(y)} l`);
+        break;
+      case 'V':
+        y = oy + next();
+        ops.push(`${fmt(x)} ${fmt(y)} l`);
+        break;
+      case 'C': {
+        const x1 = ox + next();
+        const y1 = oy + next();
+        const x2 = ox + next();
+        const y2 = oy + next();
+        cubic(x1, y1, x2, y2, ox + next(), oy + next());
+        break;
+      }
+      case 'S': {
+        const [rx, ry] = prevCubic ? [2 * x - prevCubic[0], 2 * y - prevCubic[1]] : [x, y];
+        const x2 = ox + next();
+        const y2 = oy + next();
+        cubic(rx, ry, x2, y2, ox + next(), oy + next());
+        break;
+      }
+      case 'Q': {
+        const qx = ox + next();
+        const qy = oy + next();
+        quad(qx, qy, ox + next(), oy + next());
+        break;
+      }
+      case 'T': {
+        const [qx, qy] = prevQuad ? [2 * x - prevQuad[0], 2 * y - prevQuad[1]] : [x, y];
+        quad(qx, qy, ox + next(), oy + next());
+        break;
+      }
+      case 'A': {
+        i += 5; // rx ry rotation large-arc sweep
+        x = ox + next();
+        y = oy + next();
+        ops.push(`${fmt(x)} ${fmt(y)} l`);
+        break;
+      }
+      case 'Z':
+        ops.push('h');
+        x = startX;
+        y = startY;
+        // Z takes no arguments; drop stray numbers instead of looping on them
+        while (hasNumber()) i++;
+        break;
+      default:
+        // Unknown command: skip its numbers
+        while (hasNumber()) i++;
+    }
+  }
+
+  return ops.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Primitive rendering
+// ---------------------------------------------------------------------------
+
+// Printers have no alpha; composite onto white paper
+const rgb = (c: ColorRGBA) =>
+  [c.r, c.g, c.b].map((v) => fmt((c.a * v + (1 - c.a) * 255) / 255)).join(' ');
+
+const KAPPA = 0.5522847498;
+
+const roundedRectPath = (x: number, y: number, w: number, h: number, r: number) => {
+  r = Math.min(r, w / 2, h / 2);
+  const k = r * KAPPA;
+  return [
+    `${fmt(x + r)} ${fmt(y)} m`,
+    `${fmt(x + w - r)} ${fmt(y)} l`,
+    `${fmt(x + w - r + k)} ${fmt(y)} ${fmt(x + w)} ${fmt(y + r - k)} ${fmt(x + w)} ${fmt(y + r)} c`,
+    `${fmt(x + w)} ${fmt(y + h - r)} l`,
+    `${fmt(x + w)} ${fmt(y + h - r + k)} ${fmt(x + w - r + k)} ${fmt(y + h)} ${fmt(x + w - r)} ${fmt(y + h)} c`,
+    `${fmt(x + r)} ${fmt(y + h)} l`,
+    `${fmt(x + r - k)} ${fmt(y + h)} ${fmt(x)} ${fmt(y + h - r + k)} ${fmt(x)} ${fmt(y + h - r)} c`,
+    `${fmt(x)} ${fmt(y + r)} l`,
+    `${fmt(x)} ${fmt(y + r - k)} ${fmt(x + r - k)} ${fmt(y)} ${fmt(x + r)} ${fmt(y)} c`,
+    'h',
+  ].join('\n');
+};
+
+const circlePath = (cx: number, cy: number, r: number) => {
+  const k = r * KAPPA;
+  return [
+    `${fmt(cx + r)} ${fmt(cy)} m`,
+    `${fmt(cx + r)} ${fmt(cy + k)} ${fmt(cx + k)} ${fmt(cy + r)} ${fmt(cx)} ${fmt(cy + r)} c`,
+    `${fmt(cx - k)} ${fmt(cy + r)} ${fmt(cx - r)} ${fmt(cy + k)} ${fmt(cx - r)} ${fmt(cy)} c`,
+    `${fmt(cx - r)} ${fmt(cy - k)} ${fmt(cx - k)} ${fmt(cy - r)} ${fmt(cx)} ${fmt(cy - r)} c`,
+    `${fmt(cx + k)} ${fmt(cy - r)} ${fmt(cx + r)} ${fmt(cy - k)} ${fmt(cx + r)} ${fmt(cy)} c`,
+    'h',
+  ].join('\n');
+};
+
+const paint = (
+  path: string,
+  fill: ColorRGBA | undefined,
+  stroke: ColorRGBA | undefined,
+  strokeWidth = 1,
+  dash?: number[]
+) => {
+  if (!fill && !stroke) return '';
+  const state: string[] = ['q'];
+  if (fill) state.push(`${rgb(fill)} rg`);
+  if (stroke) {
+    state.push(`${rgb(stroke)} RG`, `${fmt(strokeWidth)} w`);
+    if (dash?.length) state.push(`[${dash.map(fmt).join(' ')}] 0 d`);
+  }
+  return [...state, path, fill && stroke ? 'B' : fill ? 'f' : 'S', 'Q'].join('\n');
+};
+
+// WinAnsiEncoding code points for common characters outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '→': 0x3e, // Rendered as ">"
+};
+
+const encodePdfString = (text: string) =>
+  Array.from(text)
+    .map((ch) => {
+      const code = WIN_ANSI[ch] ?? ch.charCodeAt(0);
+      if (code > 0xff || ch.length > 1) return '?';
+      const c = String.fromCharCode(code);
+      return c === '(' || c === ')' || c === '\\' ? `\\${c}` : c;
+    })
+    .join('');
+
+const FONT_RESOURCES = {
+  sans: { regular: 'F1', bold: 'F2', advance: 0.52 },
+  mono: { regular: 'F3', bold: 'F4', advance: 0.6 },
+};
+
+/**
+ * Render primitives to content stream operators in a y-down coordinate system
+ * (the caller establishes the flip with `cm`).
+ */
+export function primitivesToPdfOps(primitives: ScenePrimitive[], cull?: Rect): string {
+  const out: string[] = [];
+  for (const p of primitives) {
+    switch (p.type) {
+      case 'rect': {
+        const path = p.rx
+          ? roundedRectPath(p.x, p.y, p.width, p.height, p.rx)
+          : `${fmt(p.x)} ${fmt(p.y)} ${fmt(p.width)} ${fmt(p.height)} re`;
+        out.push(paint(path, p.fill, p.stroke, p.strokeWidth));
+        break;
+      }
+      case 'path':
+        out.push(paint(svgPathToPdf(p.d), p.fill, p.stroke, p.strokeWidth, p.dash));
+        break;
+      case 'circle':
+        out.push(paint(circlePath(p.cx, p.cy, p.r), p.fill, p.stroke, p.strokeWidth));
+        break;
+      case 'text': {
+        const font = FONT_RESOURCES[p.fontFamily ?? 'sans'];
+        const width = p.text.length * p.fontSize * font.advance;
+        const x = p.anchor === 'middle' ? p.x - width / 2 : p.anchor === 'end' ? p.x - width : p.x;
+        out.push(
+          [
+            'BT',
+            `${rgb(p.fill)} rg`,
+            `/${p.bold ? font.bold : font.regular} ${fmt(p.fontSize)} Tf`,
+            `1 0 0 -1 ${fmt(x)} ${fmt(p.y)} Tm`,
+            `(${encodePdfString(p.text)}) Tj`,
+            'ET',
+          ].join('\n')
+        );
+        break;
+      }
+      case 'group': {
+        if (cull && p.clip && !rectsIntersect(p.clip, cull)) break;
+        const ops: string[] = ['q'];
+        if (p.clip) {
+          ops.push(
+            `${fmt(p.clip.x)} ${fmt(p.clip.y)} ${fmt(p.clip.width)} ${fmt(p.clip.height)} re W n`
+          );
+        }
+        if (p.tx || p.ty) ops.push(`1 0 0 1 ${fmt(p.tx ?? 0)} ${fmt(p.ty ?? 0)} cm`);
+        if (p.scale && p.scale !== 1) ops.push(`${fmt(p.scale)} 0 0 ${fmt(p.scale)} 0 0 cm`);
+        ops.push(primitivesToPdfOps(p.children), 'Q');
+        out.push(ops.join('\n'));
+        break;
+      }
+    }
+  }
+  return out.filter(Boolean).join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Document assembly
+// ---------------------------------------------------------------------------
+
+const pdfDate = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(
+    date.getUTCHours()
+  )}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+/**
+ * Build a multi-page PDF of `area` (flow coordinates) from captured primitives
+ */
+export function buildTiledPdf(
+  primitives: ScenePrimitive[],
+  area: Rect,
+  options: PdfExportOptions,
+  createdAt: Date = new Date()
+): Uint8Array<ArrayBuffer> {
+  const layout = computePageTiles(area, options);
+  const { pageWidth, pageHeight, printable, pointsPerUnit: s } = layout;
+  const includeTitleBlock = options.includeTitleBlock !== false;
+  const dateLabel = createdAt.toISOString().slice(0, 10);
+
+  const pageStreams = layout.tiles.map((tile) => {
+    const ops: string[] = [
+      // Diagram, clipped to the printable area
+      'q',
+      `${fmt(printable.x)} ${fmt(pageHeight - printable.y - printable.height)} ${fmt(
+        printable.width
+      )} ${fmt(printable.height)} re W n`,
+      `${fmt(s)} 0 0 ${fmt(-s)} ${fmt(printable.x - tile.area.x * s)} ${fmt(
+        pageHeight - printable.y + tile.area.y * s
+      )} cm`,
+      primitivesToPdfOps(primitives, tile.area),
+      'Q',
+    ];
+
+    if (includeTitleBlock) {
+      const pageLabel =
+        layout.tiles.length > 1
+          ? `Page ${tile.index + 1} of ${layout.tiles.length} (row ${tile.row + 1}, column ${tile.col + 1})`
+          : undefined;
+      const block = buildTitleBlock(
+        printable.x,
+        printable.y + printable.height + TITLE_BLOCK_GAP,
+        printable.width,
+        { title: options.title, subtitle: options.subtitle, date: dateLabel, page: pageLabel },
+        options.includeLegend ?? true,
+        options.notation
+      );
+      ops.push('q', `1 0 0 -1 0 ${fmt(pageHeight)} cm`, primitivesToPdfOps(block), 'Q');
+    }
+    return ops.join('\n');
+  });
+
+  // Object numbering: 1 catalog, 2 pages, 3-6 fonts, 7 info, then page/content pairs
+  const objects: string[] = [];
+  const pageIds = pageStreams.map((_, i) => 8 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${
+    pageIds.length
+  } >>`;
+  ['Helvetica', 'Helvetica-Bold', 'Courier', 'Courier-Bold'].forEach((font, i) => {
+    objects[3 + i] =
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`;
+  });
+  objects[7] = `<< /Title (${encodePdfString(options.title)}) /Producer (Open Data Modelling) /CreationDate (${pdfDate(
+    createdAt
+  )}) >>`;
+  pageStreams.forEach((stream, i) => {
+    const pageId = pageIds[i]!;
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(pageWidth)} ${fmt(
+      pageHeight
+    )}] /Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R /F4 6 0 R >> >> /Contents ${
+      pageId + 1
+    } 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${offsets[id]!.toString().padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+  return bytes;
+}
@@ -0,0 +1,322 @@
+/**
+ * Foreign-key relationship inference
+ *
+ * Schemas imported from SQL, AVRO or JSON Schema often come without declared foreign
+ * keys. Proposes table-to-table relationships from three signals, each contributing to
+ * a confidence score between 0 and 1:
+ * - naming: `<table>_id`, `<table>Id`, `<table>_<pk>` or a column named like the
+ *   referenced key (singular/plural table names and common prefixes are tolerated)
+ * - type compatibility of the two columns
+ * - key status of the referenced column (primary key or unique)
+ *
+ * Proposals are only suggestions; accepting one turns it into a `Relationship` from the
+ * referenced (parent) table to the referencing (child) table.
+ */
+
+import type { Table, Column } from '@/types/table';
+import type { ModelType } from '@/types/workspace';
+import { SDKRelationshipType, type Relationship } from '@/types/relationship';
+import { generateUUID } from './validation';
+
+export interface RelationshipProposal {
+  id: string; // `<childColumnId>-><parentColumnId>`, stable across runs
+  parentTableId: string;
+  parentColumnId: string;
+  childTableId: string;
+  childColumnId: string;
+  type: 'one-to-one' | 'one-to-many';
+  confidence: number; // 0..1
+  reasons: string[];
+}
+
+export interface InferenceOptions {
+  minConfidence?: number; // default DEFAULT_MIN_CONFIDENCE
+}
+
+export const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+const TABLE_PREFIXES = ['tbl', 't', 'dim', 'fact', 'fct', 'stg', 'raw'];
+const GENERIC_KEY_NAMES = new Set(['id', 'key', 'uuid', 'pk', 'code']);
+
+/**
+ * Lower-case name tokens: splits snake_case, kebab-case, dots and camelCase
+ */
+export function nameTokens(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((t) => t.toLowerCase());
+}
+
+const singular = (word: string): string => {
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(ss|sh|ch|x|z)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && word.length > 2) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Token sequences a column referencing this table may start with: the table name without
+ * schema and common prefixes, in singular and plural form
+ */
+export function tableNameVariants(tableName: string): string[][] {
+  const unqualified = tableName.split('.').pop() ?? tableName;
+  let tokens = nameTokens(unqualified);
+  if (tokens.length > 1 && TABLE_PREFIXES.includes(tokens[0]!)) {
+    tokens = tokens.slice(1);
+  }
+  if (tokens.length === 0) return [];
+  const last = tokens[tokens.length - 1]!;
+  const singularTokens = [...tokens.slice(0, -1), singular(last)];
+  const variants = [tokens, singularTokens];
+  // `order_lines` is also referenced as `orderline_id`
+  variants.push([singularTokens.join('')]);
+  return variants.filter(
+    (v, i) => variants.findIndex((other) => other.join(' ') === v.join(' ')) === i
+  );
+}
+
+type TypeFamily = 'integer' | 'decimal' | 'string' | 'uuid' | 'temporal' | 'boolean' | 'binary';
+
+const TYPE_FAMILIES: Array<[TypeFamily, RegExp]> = [
+  ['uuid', /^(uuid|uniqueidentifier|guid)$/],
+  [
+    'integer',
+    /^(tiny|small|medium|big)?int(eger)?\d*$|^(big|small)?serial\d*$|^(long|short|byte)$/,
+  ],
+  ['decimal', /^(decimal|numeric|number|float\d*|double( precision)?|real|money)$/],
+  ['string', /^(n?var)?char(acter)?( varying)?$|^(n?text|string|varchar2|nvarchar2|clob)$/],
+  ['temporal', /^(date|datetime\d?|time|timestamp(tz)?|timestamp with(out)? time zone)$/],
+  ['boolean', /^(bool|boolean|bit)$/],
+  ['binary', /^(binary|varbinary|bytea|blob|bytes)$/],
+];
+
+/**
+ * Coarse type family of a column data type, ignoring length/precision parameters
+ */
+export function getTypeFamily(dataType: string | undefined): TypeFamily | null {
+  const normalized = (dataType ?? '')
+    .toLowerCase()
+    .replace(/\(.*\)/, '')
+    .trim();
+  if (!normalized) return null;
+  return TYPE_FAMILIES.find(([, pattern]) => pattern.test(normalized))?.[0] ?? null;
+}
+
+/**
+ * Type compatibility of a foreign key and the key it references:
+ * - 'same': same type family
+ * - 'loose': convertible families (integer/decimal, uuid/string) or unknown types
+ * - 'incompatible': anything else
+ */
+export function getTypeCompatibility(
+  childType: string | undefined,
+  parentType: string | undefined
+): 'same' | 'loose' | 'incompatible' {
+  const child = getTypeFamily(childType);
+  const parent = getTypeFamily(parentType);
+  if (!child || !parent) return 'loose';
+  if (child === parent) return 'same';
+  const pair = [child, parent].sort().join('/');
+  return pair === 'decimal/integer' || pair === 'string/uuid' ? 'loose' : 'incompatible';
+}
+
+const sameTokens = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((t, i) => t === b[i]);
+
+const endsWithTokens = (tokens: string[], suffix: string[]) =>
+  tokens.length > suffix.length && sameTokens(tokens.slice(-suffix.length), suffix);
+
+/**
+ * Naming signal for `child` referencing `keyColumn` of `parentTable`, with its reason
+ */
+function scoreName(
+  child: Column,
+  parentTable: Table,
+  keyColumn: Column
+): { score: number; reason: string } | null {
+  const childTokens = nameTokens(child.name);
+  const keyTokens = nameTokens(keyColumn.name);
+  const genericKey = keyTokens.length === 1 && GENERIC_KEY_NAMES.has(keyTokens[0]!);
+  const keySuffix = genericKey ? keyTokens : keyTokens.slice(-1);
+
+  for (const variant of tableNameVariants(parentTable.name)) {
+    // orders.id ← customer_orders.order_id / orderId
+    if (sameTokens(childTokens, [...variant, ...keySuffix])) {
+      return { score: 0.6, reason: `"${child.name}" is named after table "${parentTable.name}"` };
+    }
+    if (!genericKey && sameTokens(childTokens, [...variant, ...keyTokens])) {
+      return { score: 0.6, reason: `"${child.name}" is named after table "${parentTable.name}"` };
+    }
+    // orders.order_no ← order_key / order_id
+    if (
+      sameTokens(childTokens, [...variant, 'id']) ||
+      sameTokens(childTokens, [...variant, 'key'])
+    ) {
+      return {
+        score: 0.5,
+        reason: `"${child.name}" follows the <table>_id convention for "${parentTable.name}"`,
+      };
+    }
+  }
+  if (!genericKey && sameTokens(childTokens, keyTokens)) {
+    return { score: 0.5, reason: `"${child.name}" has the same name as key "${keyColumn.name}"` };
+  }
+  // billing_customer_id ← customers.customer_id (role-prefixed reference)
+  if (!genericKey && endsWithTokens(childTokens, keyTokens)) {
+    return {
+      score: 0.35,
+      reason: `"${child.name}" ends with the name of key "${keyColumn.name}"`,
+    };
+  }
+  return null;
+}
+
+// Single-column keys a foreign key can reference: primary keys and unique columns
+function getReferenceableKeys(table: Table): Column[] {
+  const primaryCompoundColumns = new Set(
+    (table.compoundKeys ?? []).filter((ck) => ck.is_primary).flatMap((ck) => ck.column_ids)
+  );
+  return table.columns.filter(
+    (c) =>
+      !c.parent_column_id &&
+      !primaryCompoundColumns.has(c.id) &&
+      (c.is_primary_key || c.is_unique || c.unique)
+  );
+}
+
+/**
+ * Propose foreign-key relationships between `tables`. Table pairs already connected by a
+ * relationship (in either direction) are skipped. Each column gets at most its best
+ * proposal, and each table pair at most one, as the canvas allows one relationship per
+ * pair. Sorted by confidence, highest first.
+ */
+export function inferRelationships(
+  tables: Table[],
+  existing: Relationship[],
+  options: InferenceOptions = {}
+): RelationshipProposal[] {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const connected = new Set<string>();
+  for (const rel of existing) {
+    const source = rel.source_id || rel.source_table_id;
+    const target = rel.target_id || rel.target_table_id;
+    if (!source || !target) continue;
+    connected.add(`${source}|${target}`);
+    connected.add(`${target}|${source}`);
+  }
+
+  const bestByChildColumn = new Map<string, RelationshipProposal>();
+  for (const parent of tables) {
+    for (const key of getReferenceableKeys(parent)) {
+      for (const child of tables) {
+        if (connected.has(`${parent.id}|${child.id}`)) continue;
+        for (const column of child.columns) {
+          if (column.id === key.id || column.parent_column_id) continue;
+          // A table's own primary key only references itself by name, never by convention
+          if (child.id === parent.id && column.is_primary_key) continue;
+
+          const name = scoreName(column, parent, key);
+          if (!name) continue;
+          const typeCompatibility = getTypeCompatibility(column.data_type, key.data_type);
+          if (typeCompatibility === 'incompatible') continue;
+
+          const reasons = [name.reason];
+          let confidence = name.score;
+          if (typeCompatibility === 'same') {
+            confidence += 0.25;
+            reasons.push(`types match (${column.data_type} → ${key.data_type})`);
+          } else {
+            confidence += 0.1;
+            reasons.push(`types are compatible (${column.data_type} → ${key.data_type})`);
+          }
+          if (key.is_primary_key) {
+            confidence += 0.15;
+            reasons.push(`"${key.name}" is the primary key of "${parent.name}"`);
+          } else {
+            confidence += 0.1;
+            reasons.push(`"${key.name}" is unique in "${parent.name}"`);
+          }
+          if (column.is_foreign_key) {
+            confidence += 0.05;
+            reasons.push(`"${column.name}" is marked as a foreign key`);
+          }
+          confidence = Math.min(1, Math.round(confidence * 100) / 100);
+          if (confidence < minConfidence) continue;
+
+          const proposal: RelationshipProposal = {
+            id: `${column.id}->${key.id}`,
+            parentTableId: parent.id,
+            parentColumnId: key.id,
+            childTableId: child.id,
+            childColumnId: column.id,
+            type:
+              (column.is_primary_key || column.is_unique || column.unique) && child.id !== parent.id
+                ? 'one-to-one'
+                : 'one-to-many',
+            confidence,
+            reasons,
+          };
+          const best = bestByChildColumn.get(column.id);
+          if (!best || proposal.confidence > best.confidence) {
+            bestByChildColumn.set(column.id, proposal);
+          }
+        }
+      }
+    }
+  }
+
+  const proposedPairs = new Set<string>();
+  return [...bestByChildColumn.values()]
+    .sort((a, b) => b.confidence - a.confidence)
+    .filter((p) => {
+      const pair = [p.parentTableId, p.childTableId].sort().join('|');
+      if (proposedPairs.has(pair)) return false;
+      proposedPairs.add(pair);
+      return true;
+    });
+}
+
+/**
+ * Relationship for an accepted proposal: parent (referenced key) → child (foreign key).
+ * A nullable foreign key makes the parent end optional.
+ */
+export function proposalToRelationship(
+  proposal: RelationshipProposal,
+  tables: Table[],
+  context: { workspaceId: string; domainId: string; modelType?: ModelType }
+): Relationship {
+  const parent = tables.find((t) => t.id === proposal.parentTableId);
+  const child = tables.find((t) => t.id === proposal.childTableId);
+  const parentColumn = parent?.columns.find((c) => c.id === proposal.parentColumnId);
+  const childColumn = child?.columns.find((c) => c.id === proposal.childColumnId);
+  const now = new Date().toISOString();
+
+  return {
+    id: generateUUID(),
+    workspace_id: context.workspaceId,
+    domain_id: context.domainId,
+    source_id: proposal.parentTableId,
+    target_id: proposal.childTableId,
+    source_type: 'table',
+    target_type: 'table',
+    source_table_id: proposal.parentTableId,
+    target_table_id: proposal.childTableId,
+    type: proposal.type,
+    source_cardinality: childColumn?.nullable ? '0' : '1',
+    target_cardinality: proposal.type === 'one-to-one' ? '1' : 'N',
+    relationship_type: SDKRelationshipType.ForeignKey,
+    source_key: proposal.parentColumnId,
+    target_key: proposal.childColumnId,
+    foreign_key_details: {
+      source_column: parentColumn?.name,
+      target_column: childColumn?.name,
+    },
+    model_type: context.modelType ?? 'logical',
+    is_circular: false,
+    created_at: now,
+    last_modified_at: now,
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * SQL dialects
+ *
+ * The dialects the app imports and generates SQL for, the system types that map onto
+ * them, and the mapping between logical column types and each dialect's physical types.
+ */
+
+import type { SystemType } from '@/types/system';
+
+export type SQLDialect = 'postgresql' | 'mysql' | 'sqlite' | 'mssql' | 'databricks';
+
+export const SQL_DIALECTS: Array<{ value: SQLDialect; label: string }> = [
+  { value: 'postgresql', label: 'PostgreSQL' },
+  { value: 'mysql', label: 'MySQL' },
+  { value: 'sqlite', label: 'SQLite' },
+  { value: 'mssql', label: 'SQL Server' },
+  { value: 'databricks', label: 'Databricks' },
+];
+
+const DIALECT_BY_SYSTEM_TYPE: Partial<Record<SystemType, SQLDialect>> = {
+  postgresql: 'postgresql',
+  rds_postgresql: 'postgresql',
+  cloud_sql_postgresql: 'postgresql',
+  aurora: 'postgresql',
+  timescaledb: 'postgresql',
+  redshift: 'postgresql',
+  mysql: 'mysql',
+  mariadb: 'mysql',
+  percona: 'mysql',
+  rds_mysql: 'mysql',
+  rds_mariadb: 'mysql',
+  cloud_sql_mysql: 'mysql',
+  mssql: 'mssql',
+  rds_sqlserver: 'mssql',
+  azure_sql_database: 'mssql',
+  cloud_sql_sqlserver: 'mssql',
+  azure_synapse_analytics: 'mssql',
+  sqlite: 'sqlite',
+  duckdb: 'sqlite',
+  motherduck: 'sqlite',
+  databricks: 'databricks',
+  deltalake: 'databricks',
+};
+
+/**
+ * SQL dialect for a system type, or undefined for systems that are not SQL databases
+ */
+export function dialectForSystemType(systemType: SystemType | undefined): SQLDialect | undefined {
+  return systemType ? DIALECT_BY_SYSTEM_TYPE[systemType] : undefined;
+}
+
+/**
+ * Technology-neutral column types used by logical models
+ */
+export type LogicalDataType =
+  | 'string'
+  | 'text'
+  | 'integer'
+  | 'long'
+  | 'decimal'
+  | 'double'
+  | 'boolean'
+  | 'date'
+  | 'timestamp'
+  | 'time'
+  | 'uuid'
+  | 'binary';
+
+export const LOGICAL_DATA_TYPES: LogicalDataType[] = [
+  'string',
+  'text',
+  'integer',
+  'long',
+  'decimal',
+  'double',
+  'boolean',
+  'date',
+  'timestamp',
+  'time',
+  'uuid',
+  'binary',
+];
+
+// ODCS `logicalType` for each logical data type
+export const ODCS_LOGICAL_TYPES: Record<LogicalDataType, string> = {
+  string: 'string',
+  text: 'string',
+  integer: 'integer',
+  long: 'integer',
+  decimal: 'number',
+  double: 'number',
+  boolean: 'boolean',
+  date: 'date',
+  timestamp: 'date',
+  time: 'string',
+  uuid: 'string',
+  binary: 'string',
+};
+
+const PHYSICAL_TYPES: Record<SQLDialect, Record<LogicalDataType, string>> = {
+  postgresql: {
+    string: 'VARCHAR(255)',
+    text: 'TEXT',
+    integer: 'INTEGER',
+    long: 'BIGINT',
+    decimal: 'NUMERIC(18,2)',
+    double: 'DOUBLE PRECISION',
+    boolean: 'BOOLEAN',
+    date: 'DATE',
+    timestamp: 'TIMESTAMP',
+    time: 'TIME',
+    uuid: 'UUID',
+    binary: 'BYTEA',
+  },
+  mysql: {
+    string: 'VARCHAR(255)',
+    text: 'TEXT',
+    integer: 'INT',
+    long: 'BIGINT',
+    decimal: 'DECIMAL(18,2)',
+    double: 'DOUBLE',
+    boolean: 'BOOLEAN',
+    date: 'DATE',
+    timestamp: 'DATETIME',
+    time: 'TIME',
+    uuid: 'CHAR(36)',
+    binary: 'BLOB',
+  },
+  sqlite: {
+    string: 'TEXT',
+    text: 'TEXT',
+    integer: 'INTEGER',
+    long: 'INTEGER',
+    decimal: 'NUMERIC',
+    double: 'REAL',
+    boolean: 'INTEGER',
+    date: 'TEXT',
+    timestamp: 'TEXT',
+    time: 'TEXT',
+    uuid: 'TEXT',
+    binary: 'BLOB',
+  },
+  mssql: {
+    string: 'NVARCHAR(255)',
+    text: 'NVARCHAR(MAX)',
+    integer: 'INT',
+    long: 'BIGINT',
+    decimal: 'DECIMAL(18,2)',
+    double: 'FLOAT',
+    boolean: 'BIT',
+    date: 'DATE',
+    timestamp: 'DATETIME2',
+    time: 'TIME',
+    uuid: 'UNIQUEIDENTIFIER',
+    binary: 'VARBINARY(MAX)',
+  },
+  databricks: {
+    string: 'STRING',
+    text: 'STRING',
+    integer: 'INT',
+    long: 'BIGINT',
+    decimal: 'DECIMAL(18,2)',
+    double: 'DOUBLE',
+    boolean: 'BOOLEAN',
+    date: 'DATE',
+    timestamp: 'TIMESTAMP',
+    time: 'STRING',
+    uuid: 'STRING',
+    binary: 'BINARY',
+  },
+};
+
+/**
+ * Physical type of a logical data type in a dialect
+ */
+export function toPhysicalType(logicalType: LogicalDataType, dialect: SQLDialect): string {
+  return PHYSICAL_TYPES[dialect][logicalType];
+}
+
+const LOGICAL_TYPE_PATTERNS: Array<[LogicalDataType, RegExp]> = [
+  ['uuid', /^(uuid|uniqueidentifier|guid)$/],
+  ['long', /^(bigint|int8|long|bigserial|serial8)$/],
+  ['integer', /^(tiny|small|medium)?int(eger)?\d?$|^(short|byte|serial\d?|smallserial)$/],
+  ['decimal', /^(decimal|numeric|number|money|smallmoney)$/],
+  ['double', /^(float\d*|double( precision)?|real)$/],
+  ['boolean', /^(bool|boolean|bit)$/],
+  ['timestamp', /^(datetime\d?|timestamp(tz)?|timestamp with(out)? time zone|smalldatetime)$/],
+  ['date', /^date$/],
+  ['time', /^time(tz)?$/],
+  ['text', /^(text|ntext|clob|longtext|mediumtext)$/],
+  ['string', /^(n?var)?char(acter)?( varying)?$|^(string|varchar2|nvarchar2)$/],
+  ['binary', /^(binary|varbinary|bytea|blob|bytes|image)$/],
+];
+
+/**
+ * Logical data type of a column type in any dialect (or an already logical type).
+ * Unknown and empty types are treated as strings.
+ */
+export function toLogicalType(dataType: string | undefined): LogicalDataType {
+  const normalized = (dataType ?? '').trim().toLowerCase();
+  if ((LOGICAL_DATA_TYPES as string[]).includes(normalized)) {
+    return normalized as LogicalDataType;
+  }
+  if (/\(\s*max\s*\)$/.test(normalized)) {
+    return /binary/.test(normalized) ? 'binary' : 'text';
+  }
+  const base = normalized.replace(/\(.*\)/, '').trim();
+  return LOGICAL_TYPE_PATTERNS.find(([, pattern]) => pattern.test(base))?.[0] ?? 'string';
+}
+
+// Maximum identifier length of each dialect (SQLite has no limit)
+const MAX_IDENTIFIER_LENGTHS: Record<SQLDialect, number | undefined> = {
+  postgresql: 63,
+  mysql: 64,
+  sqlite: undefined,
+  mssql: 128,
+  databricks: 255,
+};
+
+/**
+ * Maximum identifier length in a dialect, or undefined when it has no limit
+ */
+export function maxIdentifierLength(dialect: SQLDialect): number | undefined {
+  return MAX_IDENTIFIER_LENGTHS[dialect];
+}
+
+// Reserved in every supported dialect (SQL standard keywords)
+const COMMON_RESERVED_WORDS = `all alter and any as asc between by case check column constraint create
+  cross current_date current_time current_timestamp default delete desc distinct drop else end
+  exists foreign from full group having in inner insert intersect into is join left like not null
+  on or order outer primary references right select set table then to union unique update using
+  values when where with`;
+
+const reservedWords = (words: string) =>
+  new Set(`${COMMON_RESERVED_WORDS} ${words}`.split(/\s+/).filter(Boolean));
+
+const RESERVED_WORDS: Record<SQLDialect, Set<string>> = {
+  postgresql: reservedWords(`analyse analyze array asymmetric both cast collate current_role
+    current_user deferrable do except false fetch for grant initially lateral leading limit
+    localtime localtimestamp offset only placing returning session_user some symmetric trailing
+    true user variadic window`),
+  mysql: reservedWords(`change database databases div dual explain fulltext index key keys kill
+    limit lines load lock match mod range rank read regexp rename replace row rows schema show
+    usage xor`),
+  sqlite: reservedWords(`abort autoincrement collate escape except glob index indexed isnull limit
+    notnull offset pragma raise regexp replace vacuum`),
+  mssql: reservedWords(`backup begin browse bulk cascade clustered commit database declare deny
+    exec execute file function goto grant identity index key merge nonclustered open over percent
+    pivot plan print procedure public rule schema top tran transaction trigger user view`),
+  databricks: reservedWords(`anti array cast cube except false fetch for grant interval lateral
+    limit minus natural qualify rollup semi true user`),
+};
+
+/**
+ * Whether a name is a reserved word of a dialect (case-insensitive)
+ */
+export function isReservedWord(name: string, dialect: SQLDialect): boolean {
+  return RESERVED_WORDS[dialect].has(name.toLowerCase());
+}
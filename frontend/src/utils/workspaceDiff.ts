@@ -0,0 +1,575 @@
+/**
+ * Workspace diff
+ *
+ * Compares two versions of a workspace model (e.g. two git refs) and lists the domains,
+ * tables, columns, relationships, systems, data products, metric views, decisions and
+ * knowledge articles that were added, removed or modified. Resources are matched by ID;
+ * columns fall back to their name when the IDs differ between versions. A matched
+ * resource whose name changed is reported as renamed, one whose domain, system or (for
+ * columns) table changed as moved.
+ */
+
+import type { Column, Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+import type { Domain } from '@/types/domain';
+import type { System } from '@/types/system';
+import type { DataProduct } from '@/types/odps';
+import type { MetricView } from '@/types/metricView';
+import type { Decision } from '@/types/decision';
+import type { KnowledgeArticle } from '@/types/knowledge';
+
+export type WorkspaceChangeKind = 'added' | 'removed' | 'modified';
+
+export type WorkspaceChangeResource =
+  | 'domain'
+  | 'table'
+  | 'column'
+  | 'relationship'
+  | 'system'
+  | 'product'
+  | 'metric-view'
+  | 'decision'
+  | 'article';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface WorkspaceChange {
+  kind: WorkspaceChangeKind;
+  resourceType: WorkspaceChangeResource;
+  id: string;
+  name: string;
+  tableId?: string; // Table of a column change
+  tableName?: string;
+  fields?: FieldChange[]; // Changed fields, for modified resources
+  renamedFrom?: string; // Previous name of a renamed resource
+  movedFrom?: string; // Previous domain, system or table of a moved resource
+  movedTo?: string;
+}
+
+export interface DiffableWorkspace {
+  tables: Table[];
+  relationships: Relationship[];
+  domains?: Domain[];
+  systems?: System[];
+  products?: DataProduct[];
+  metricViews?: MetricView[];
+  decisionRecords?: Decision[];
+  knowledgeArticles?: KnowledgeArticle[];
+}
+
+/** Group headings of the change tree, in display order */
+export const WORKSPACE_CHANGE_GROUPS: Array<{
+  resourceType: Exclude<WorkspaceChangeResource, 'column'>;
+  label: string;
+}> = [
+  { resourceType: 'domain', label: 'Domains' },
+  { resourceType: 'table', label: 'Tables' },
+  { resourceType: 'relationship', label: 'Relationships' },
+  { resourceType: 'system', label: 'Systems' },
+  { resourceType: 'product', label: 'Data Products' },
+  { resourceType: 'metric-view', label: 'Metric Views' },
+  { resourceType: 'decision', label: 'Decisions' },
+  { resourceType: 'article', label: 'Knowledge Articles' },
+];
+
+const TABLE_FIELDS: Array<keyof Table> = [
+  'name',
+  'alias',
+  'description',
+  'model_type',
+  'data_level',
+  'primary_domain_id',
+  'owner',
+  'tags',
+  'compoundKeys',
+];
+
+const COLUMN_FIELDS: Array<keyof Column> = [
+  'name',
+  'data_type',
+  'nullable',
+  'is_primary_key',
+  'is_foreign_key',
+  'is_unique',
+  'default_value',
+  'description',
+  'constraints',
+];
+
+const RELATIONSHIP_FIELDS: Array<keyof Relationship> = [
+  'source_id',
+  'target_id',
+  'type',
+  'source_cardinality',
+  'target_cardinality',
+  'source_key',
+  'target_key',
+  'label',
+];
+
+const DOMAIN_FIELDS: Array<keyof Domain> = ['name', 'description', 'owner'];
+
+const SYSTEM_FIELDS: Array<keyof System> = [
+  'name',
+  'description',
+  'system_type',
+  'domain_id',
+  'connection_string',
+  'environments',
+  'table_ids',
+  'asset_ids',
+  'metric_view_ids',
+];
+
+const PRODUCT_FIELDS: Array<keyof DataProduct> = [
+  'name',
+  'description',
+  'status',
+  'owner',
+  'team',
+  'support',
+  'domain_id',
+  'linked_tables',
+  'input_ports',
+  'output_ports',
+  'management_ports',
+];
+
+const METRIC_VIEW_FIELDS: Array<keyof MetricView> = [
+  'name',
+  'description',
+  'view_type',
+  'version',
+  'domain_id',
+  'source',
+  'filter',
+  'dimensions',
+  'measures',
+  'joins',
+  'materialization',
+  'tags',
+];
+
+const DECISION_FIELDS: Array<keyof Decision> = [
+  'title',
+  'status',
+  'category',
+  'domain_id',
+  'context',
+  'decision',
+  'consequences',
+  'options',
+  'superseded_by',
+  'linked_assets',
+  'tags',
+];
+
+const ARTICLE_FIELDS: Array<keyof KnowledgeArticle> = [
+  'title',
+  'type',
+  'status',
+  'domain_id',
+  'summary',
+  'content',
+  'authors',
+  'reviewers',
+  'linked_assets',
+  'tags',
+];
+
+// Missing, null and empty values count as the same "unset" value
+const normalize = (value: unknown): unknown => {
+  if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return undefined;
+  }
+  return value;
+};
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+function fieldChanges<T extends object>(
+  before: T,
+  after: T,
+  fields: Array<keyof T>
+): FieldChange[] {
+  return fields
+    .filter((field) => !sameValue(before[field], after[field]))
+    .map((field) => ({
+      field: String(field),
+      before: normalize(before[field]),
+      after: normalize(after[field]),
+    }));
+}
+
+const relationshipEnds = (r: Relationship) => ({
+  ...r,
+  source_id: r.source_id || r.source_table_id || '',
+  target_id: r.target_id || r.target_table_id || '',
+});
+
+/**
+ * Where a resource lives in each version, for move detection. The fields that place it
+ * there are reported as the move rather than as field changes.
+ */
+interface Location {
+  before?: string;
+  after?: string;
+  fields: string[];
+}
+
+// A modified change for a matched resource, or undefined when nothing changed
+function modification(
+  base: Omit<WorkspaceChange, 'kind' | 'fields'>,
+  previousName: string,
+  fields: FieldChange[],
+  location?: Location
+): WorkspaceChange | undefined {
+  const moved =
+    location?.before !== undefined &&
+    location.after !== undefined &&
+    location.before !== location.after;
+  const remaining = moved ? fields.filter((f) => !location.fields.includes(f.field)) : fields;
+  if (remaining.length === 0 && !moved) return undefined;
+  return {
+    kind: 'modified',
+    ...base,
+    ...(remaining.length > 0 ? { fields: remaining } : {}),
+    ...(previousName !== base.name ? { renamedFrom: previousName } : {}),
+    ...(moved ? { movedFrom: location.before, movedTo: location.after } : {}),
+  };
+}
+
+interface ResourceSpec<T> {
+  resourceType: WorkspaceChangeResource;
+  fields: Array<keyof T>;
+  name: (resource: T) => string;
+  domainId?: (resource: T) => string | undefined;
+}
+
+function diffResources<T extends { id: string }>(
+  spec: ResourceSpec<T>,
+  before: T[] = [],
+  after: T[] = [],
+  domainName: (id: string | undefined, side: 'before' | 'after') => string | undefined
+): WorkspaceChange[] {
+  const changes: WorkspaceChange[] = [];
+  const previousById = new Map(before.map((r) => [r.id, r]));
+  const afterIds = new Set(after.map((r) => r.id));
+  const { resourceType } = spec;
+
+  for (const resource of after) {
+    const previous = previousById.get(resource.id);
+    const name = spec.name(resource);
+    if (!previous) {
+      changes.push({ kind: 'added', resourceType, id: resource.id, name });
+      continue;
+    }
+    const change = modification(
+      { resourceType, id: resource.id, name },
+      spec.name(previous),
+      fieldChanges(previous, resource, spec.fields),
+      spec.domainId && {
+        before: domainName(spec.domainId(previous), 'before'),
+        after: domainName(spec.domainId(resource), 'after'),
+        fields: ['domain_id'],
+      }
+    );
+    if (change) changes.push(change);
+  }
+  for (const resource of before.filter((r) => !afterIds.has(r.id))) {
+    changes.push({ kind: 'removed', resourceType, id: resource.id, name: spec.name(resource) });
+  }
+  return changes;
+}
+
+/**
+ * Changes from one workspace version to the next: domains, then tables (each followed by
+ * its column changes), relationships, systems, data products, metric views, decisions and
+ * knowledge articles
+ */
+export function diffWorkspaces(
+  before: DiffableWorkspace,
+  after: DiffableWorkspace
+): WorkspaceChange[] {
+  const changes: WorkspaceChange[] = [];
+  const beforeTables = new Map(before.tables.map((t) => [t.id, t]));
+  const afterTables = new Map(after.tables.map((t) => [t.id, t]));
+
+  const domainName = (id: string | undefined, side: 'before' | 'after') => {
+    if (!id) return undefined;
+    const domains = (side === 'before' ? before.domains : after.domains) ?? [];
+    return domains.find((d) => d.id === id)?.name ?? id;
+  };
+  const systemOf = (tableId: string, side: 'before' | 'after') =>
+    ((side === 'before' ? before.systems : after.systems) ?? []).find((s) =>
+      s.table_ids?.includes(tableId)
+    )?.name;
+
+  changes.push(
+    ...diffResources(
+      { resourceType: 'domain', fields: DOMAIN_FIELDS, name: (d) => d.name },
+      before.domains,
+      after.domains,
+      domainName
+    )
+  );
+
+  // Columns are matched by ID across all tables so that moved columns are recognised
+  const beforeColumns = new Map(
+    before.tables.flatMap((t) => t.columns.map((c) => [c.id, { table: t, column: c }] as const))
+  );
+  const afterColumnIds = new Set(after.tables.flatMap((t) => t.columns.map((c) => c.id)));
+  const matchedColumns = new Set<Column>();
+
+  const diffColumns = (previous: Table | undefined, table: Table) => {
+    const columnChanges: WorkspaceChange[] = [];
+    const base = (c: Column) => ({
+      resourceType: 'column' as const,
+      id: c.id,
+      name: c.name,
+      tableId: table.id,
+      tableName: table.name,
+    });
+    for (const next of table.columns) {
+      const sameTable = (find: (c: Column) => boolean) => {
+        const column = previous?.columns.find(find);
+        return previous && column ? { table: previous, column } : undefined;
+      };
+      const match =
+        sameTable((c) => c.id === next.id) ??
+        beforeColumns.get(next.id) ??
+        sameTable((c) => c.name === next.name && !afterColumnIds.has(c.id));
+      if (!match) {
+        // Columns of an added table are part of the table
+        if (previous) columnChanges.push({ kind: 'added', ...base(next) });
+        continue;
+      }
+      matchedColumns.add(match.column);
+      const change = modification(
+        base(next),
+        match.column.name,
+        fieldChanges(match.column, next, COLUMN_FIELDS),
+        match.table.id !== table.id
+          ? { before: match.table.name, after: table.name, fields: [] }
+          : undefined
+      );
+      if (change) columnChanges.push(change);
+    }
+    return columnChanges;
+  };
+
+  const columnChanges = new Map(
+    after.tables.map((t) => [t.id, diffColumns(beforeTables.get(t.id), t)])
+  );
+  for (const table of before.tables) {
+    const current = afterTables.get(table.id);
+    if (!current) continue;
+    columnChanges.get(table.id)!.push(
+      ...table.columns
+        .filter((c) => !matchedColumns.has(c))
+        .map((c) => ({
+          kind: 'removed' as const,
+          resourceType: 'column' as const,
+          id: c.id,
+          name: c.name,
+          tableId: current.id,
+          tableName: current.name,
+        }))
+    );
+  }
+
+  for (const table of after.tables) {
+    const previous = beforeTables.get(table.id);
+    if (!previous) {
+      changes.push({ kind: 'added', resourceType: 'table', id: table.id, name: table.name });
+    } else {
+      const domains = {
+        before: domainName(previous.primary_domain_id, 'before'),
+        after: domainName(table.primary_domain_id, 'after'),
+        fields: ['primary_domain_id'],
+      };
+      const change = modification(
+        { resourceType: 'table', id: table.id, name: table.name },
+        previous.name,
+        fieldChanges(previous, table, TABLE_FIELDS),
+        domains.before !== domains.after
+          ? domains
+          : { before: systemOf(table.id, 'before'), after: systemOf(table.id, 'after'), fields: [] }
+      );
+      if (change) changes.push(change);
+    }
+    changes.push(...columnChanges.get(table.id)!);
+  }
+  for (const table of before.tables.filter((t) => !afterTables.has(t.id))) {
+    changes.push({ kind: 'removed', resourceType: 'table', id: table.id, name: table.name });
+  }
+
+  const tableName = (id: string) => afterTables.get(id)?.name ?? beforeTables.get(id)?.name ?? id;
+  const relationshipName = (r: Relationship) => {
+    const { source_id, target_id } = relationshipEnds(r);
+    return r.label || `${tableName(source_id)} → ${tableName(target_id)}`;
+  };
+  const beforeRelationships = new Map(before.relationships.map((r) => [r.id, r]));
+  const afterIds = new Set(after.relationships.map((r) => r.id));
+
+  for (const relationship of after.relationships) {
+    const previous = beforeRelationships.get(relationship.id);
+    const name = relationshipName(relationship);
+    if (!previous) {
+      changes.push({ kind: 'added', resourceType: 'relationship', id: relationship.id, name });
+      continue;
+    }
+    const fields = fieldChanges(
+      relationshipEnds(previous),
+      relationshipEnds(relationship),
+      RELATIONSHIP_FIELDS
+    );
+    if (fields.length > 0) {
+      changes.push({
+        kind: 'modified',
+        resourceType: 'relationship',
+        id: relationship.id,
+        name,
+        fields,
+      });
+    }
+  }
+  for (const relationship of before.relationships.filter((r) => !afterIds.has(r.id))) {
+    changes.push({
+      kind: 'removed',
+      resourceType: 'relationship',
+      id: relationship.id,
+      name: relationshipName(relationship),
+    });
+  }
+
+  changes.push(
+    ...diffResources(
+      {
+        resourceType: 'system',
+        fields: SYSTEM_FIELDS,
+        name: (s) => s.name,
+        domainId: (s) => s.domain_id,
+      },
+      before.systems,
+      after.systems,
+      domainName
+    ),
+    ...diffResources(
+      {
+        resourceType: 'product',
+        fields: PRODUCT_FIELDS,
+        name: (p) => p.name,
+        domainId: (p) => p.domain_id,
+      },
+      before.products,
+      after.products,
+      domainName
+    ),
+    ...diffResources(
+      {
+        resourceType: 'metric-view',
+        fields: METRIC_VIEW_FIELDS,
+        name: (m) => m.name,
+        domainId: (m) => m.domain_id,
+      },
+      before.metricViews,
+      after.metricViews,
+      domainName
+    ),
+    ...diffResources(
+      {
+        resourceType: 'decision',
+        fields: DECISION_FIELDS,
+        name: (d) => d.title,
+        domainId: (d) => d.domain_id,
+      },
+      before.decisionRecords,
+      after.decisionRecords,
+      domainName
+    ),
+    ...diffResources(
+      {
+        resourceType: 'article',
+        fields: ARTICLE_FIELDS,
+        name: (a) => a.title,
+        domainId: (a) => a.domain_id,
+      },
+      before.knowledgeArticles,
+      after.knowledgeArticles,
+      domainName
+    )
+  );
+
+  return changes;
+}
+
+/**
+ * A field value as shown in a change report
+ */
+export const formatChangeValue = (value: unknown) =>
+  value === undefined ? '(unset)' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Short notes on a change besides its fields, e.g. "renamed from orders"
+ */
+export function describeChange(change: WorkspaceChange): string[] {
+  const notes: string[] = [];
+  if (change.renamedFrom !== undefined) notes.push(`renamed from ${change.renamedFrom}`);
+  if (change.movedFrom !== undefined) {
+    notes.push(`moved from ${change.movedFrom} to ${change.movedTo}`);
+  }
+  return notes;
+}
+
+export interface ChangeTreeNode {
+  id: string;
+  name: string;
+  change?: WorkspaceChange; // Missing for unchanged tables whose columns changed
+  children: WorkspaceChange[];
+}
+
+export interface ChangeTreeGroup {
+  resourceType: Exclude<WorkspaceChangeResource, 'column'>;
+  label: string;
+  nodes: ChangeTreeNode[];
+}
+
+/**
+ * Group changes by resource type, with column changes nested under their table
+ */
+export function buildChangeTree(changes: WorkspaceChange[]): ChangeTreeGroup[] {
+  const nodes = new Map<string, ChangeTreeNode[]>();
+  const tableNodes = new Map<string, ChangeTreeNode>();
+
+  for (const change of changes) {
+    if (change.resourceType === 'column') {
+      const tableId = change.tableId ?? '';
+      let node = tableNodes.get(tableId);
+      if (!node) {
+        node = { id: tableId, name: change.tableName ?? tableId, children: [] };
+        tableNodes.set(tableId, node);
+        nodes.set('table', [...(nodes.get('table') ?? []), node]);
+      }
+      node.children.push(change);
+      continue;
+    }
+    const node = tableNodes.get(change.id) ?? { id: change.id, name: change.name, children: [] };
+    node.change = change;
+    if (change.resourceType === 'table') {
+      if (tableNodes.has(change.id)) continue;
+      tableNodes.set(change.id, node);
+    }
+    nodes.set(change.resourceType, [...(nodes.get(change.resourceType) ?? []), node]);
+  }
+
+  return WORKSPACE_CHANGE_GROUPS.filter((g) => nodes.has(g.resourceType)).map((g) => ({
+    ...g,
+    nodes: nodes.get(g.resourceType)!,
+  }));
+}
@@ -0,0 +1,205 @@
+/**
+ * Workspace merge
+ *
+ * Three-way merge of workspace YAML files (ODCS contracts, .workspace.yaml, data products,
+ * ...) on the parsed documents instead of on lines. Lists of resources with an `id`,
+ * `name` or `property` key (tables, columns, relationships, domains, custom properties)
+ * are matched by that key, so changes to different resources, different columns or
+ * different fields of the same column merge on their own. Only a value that both sides
+ * changed differently, or a resource that one side removed and the other changed, is a
+ * conflict; the caller picks a side for each and gets the merge back as valid YAML.
+ */
+
+import yaml from 'js-yaml';
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  id: string; // Path of the value by resource key, stable when merging again
+  label: string; // The same path with resource names, e.g. schema[orders].properties[amount].logicalType
+  base: unknown; // undefined when the value does not exist on that side
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface AutoMergedChange {
+  label: string;
+  side: MergeSide | 'both'; // Both: list entries added or removed on each side
+}
+
+export interface SemanticMergeResult {
+  content: string; // Merged YAML; '' when the merge removes the file
+  conflicts: MergeConflict[];
+  autoMerged: AutoMergedChange[];
+}
+
+interface MergePath {
+  id: string;
+  label: string;
+}
+
+interface MergeContext {
+  resolutions: Record<string, MergeSide>;
+  conflicts: MergeConflict[];
+  autoMerged: AutoMergedChange[];
+}
+
+const ITEM_KEYS = ['id', 'name', 'property'];
+
+export const isMergeableYaml = (path: string) => /\.ya?ml$/i.test(path);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON with sorted keys, so that key order does not count as a change
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, v: unknown) =>
+    isObject(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]])
+        )
+      : v
+  ) ?? 'undefined';
+
+const isEqual = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+const unionKeys = (first: string[], second: string[]) => [
+  ...first,
+  ...second.filter((key) => !first.includes(key)),
+];
+
+const fieldPath = (path: MergePath, key: string): MergePath => ({
+  id: path.id ? `${path.id}.${key}` : key,
+  label: path.label ? `${path.label}.${key}` : key,
+});
+
+const itemPath = (path: MergePath, key: string, name: string): MergePath => ({
+  id: `${path.id}[${key}]`,
+  label: `${path.label}[${name}]`,
+});
+
+const itemKey = (item: unknown): string | undefined => {
+  if (!isObject(item)) return undefined;
+  for (const field of ITEM_KEYS) {
+    const key = item[field];
+    if (typeof key === 'string' || typeof key === 'number') return String(key);
+  }
+  return undefined;
+};
+
+// Items of a list of resources by key; undefined for other lists and values
+const keyedItems = (value: unknown): Map<string, unknown> | undefined => {
+  if (value === undefined) return new Map();
+  if (!Array.isArray(value)) return undefined;
+  const items = new Map<string, unknown>();
+  for (const item of value) {
+    const key = itemKey(item);
+    if (key === undefined || items.has(key)) return undefined;
+    items.set(key, item);
+  }
+  return items;
+};
+
+const isScalarList = (value: unknown): value is Array<string | number | boolean> =>
+  Array.isArray(value) && value.every((v) => ['string', 'number', 'boolean'].includes(typeof v));
+
+function merge3(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: MergePath,
+  context: MergeContext
+): unknown {
+  if (isEqual(ours, theirs)) return ours;
+  const label = path.label || '(whole file)';
+  if (isEqual(base, ours)) {
+    context.autoMerged.push({ label, side: 'theirs' });
+    return theirs;
+  }
+  if (isEqual(base, theirs)) {
+    context.autoMerged.push({ label, side: 'ours' });
+    return ours;
+  }
+
+  // Both sides changed: merge field by field, resource by resource or entry by entry
+  if (isObject(ours) && isObject(theirs) && (base === undefined || isObject(base))) {
+    const result: Record<string, unknown> = {};
+    for (const key of unionKeys(Object.keys(ours), Object.keys(theirs))) {
+      const value = merge3(base?.[key], ours[key], theirs[key], fieldPath(path, key), context);
+      if (value !== undefined) result[key] = value;
+    }
+    return result;
+  }
+
+  const baseItems = keyedItems(base);
+  const oursItems = keyedItems(ours);
+  const theirsItems = keyedItems(theirs);
+  if (Array.isArray(ours) && Array.isArray(theirs) && baseItems && oursItems && theirsItems) {
+    const result: unknown[] = [];
+    for (const key of unionKeys([...oursItems.keys()], [...theirsItems.keys()])) {
+      const item = oursItems.get(key) ?? theirsItems.get(key);
+      const name = isObject(item) && typeof item.name === 'string' ? item.name : key;
+      const value = merge3(
+        baseItems.get(key),
+        oursItems.get(key),
+        theirsItems.get(key),
+        itemPath(path, key, name),
+        context
+      );
+      if (value !== undefined) result.push(value);
+    }
+    return result;
+  }
+
+  if (isScalarList(ours) && isScalarList(theirs) && (base === undefined || isScalarList(base))) {
+    const before = base ?? [];
+    context.autoMerged.push({ label, side: 'both' });
+    return [
+      ...ours.filter((v) => theirs.includes(v) || !before.includes(v)),
+      ...theirs.filter((v) => !ours.includes(v) && !before.includes(v)),
+    ];
+  }
+
+  context.conflicts.push({ id: path.id, label, base, ours, theirs });
+  return context.resolutions[path.id] === 'theirs' ? theirs : ours;
+}
+
+const parse = (content: string): unknown => (content.trim() ? yaml.load(content) : undefined);
+
+/**
+ * Merges the changes of both sides since the common ancestor. Conflicts take the side
+ * chosen in `resolutions` (ours by default). Returns null when a side is not valid YAML,
+ * e.g. because it still contains conflict markers.
+ */
+export function mergeWorkspaceYaml(
+  base: string,
+  ours: string,
+  theirs: string,
+  resolutions: Record<string, MergeSide> = {}
+): SemanticMergeResult | null {
+  let documents: unknown[];
+  try {
+    documents = [base, ours, theirs].map(parse);
+  } catch {
+    return null;
+  }
+
+  const context: MergeContext = { resolutions, conflicts: [], autoMerged: [] };
+  const merged = merge3(documents[0], documents[1], documents[2], { id: '', label: '' }, context);
+  return {
+    content: merged === undefined ? '' : yaml.dump(merged, { lineWidth: -1, noRefs: true }),
+    conflicts: context.conflicts,
+    autoMerged: context.autoMerged,
+  };
+}
+
+/** A merged value for display; objects and lists as YAML */
+export const formatMergeValue = (value: unknown): string => {
+  if (value === undefined) return '(not set)';
+  if (typeof value === 'object' && value !== null) {
+    return yaml.dump(value, { lineWidth: -1, noRefs: true }).trimEnd();
+  }
+  return String(value);
+};
@@ -0,0 +1,379 @@
+/**
+ * Workspace-wide search
+ *
+ * Builds a flat index over every resource in the loaded workspace (all domains) and
+ * ranks matches for the global search dialog (Cmd/Ctrl+K).
+ */
+
+import type { Table } from '@/types/table';
+import type { System } from '@/types/system';
+import type { DataProduct } from '@/types/odps';
+import type { ComputeAsset } from '@/types/cads';
+import type { MetricView } from '@/types/metricView';
+import type { BPMNProcess } from '@/types/bpmn';
+import type { DMNDecision } from '@/types/dmn';
+import type { Decision } from '@/types/decision';
+import type { KnowledgeArticle } from '@/types/knowledge';
+import { parseExcalidrawData, type Sketch } from '@/types/sketch';
+
+export type SearchResultKind =
+  | 'table'
+  | 'column'
+  | 'system'
+  | 'product'
+  | 'compute-asset'
+  | 'metric-view'
+  | 'bpmn'
+  | 'dmn'
+  | 'decision'
+  | 'knowledge'
+  | 'sketch';
+
+export const SEARCH_KIND_LABELS: Record<SearchResultKind, string> = {
+  table: 'Tables',
+  column: 'Columns',
+  system: 'Systems',
+  product: 'Data Products',
+  'compute-asset': 'Compute Assets',
+  'metric-view': 'Metric Views',
+  bpmn: 'BPMN Processes',
+  dmn: 'DMN Decisions',
+  decision: 'Decisions',
+  knowledge: 'Knowledge',
+  sketch: 'Sketches',
+};
+
+interface SearchField {
+  label: string; // Shown as "matched in ..." hint
+  text: string;
+  weight: number;
+}
+
+export interface SearchDocument {
+  kind: SearchResultKind;
+  id: string;
+  title: string;
+  subtitle?: string; // Secondary line (e.g., parent table or data type)
+  domainId?: string;
+  parentId?: string; // Owning table ID for columns
+  fields: SearchField[];
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  matchedField: string;
+}
+
+export interface SearchFacets {
+  kinds: Partial<Record<SearchResultKind, number>>;
+  domains: Record<string, number>;
+}
+
+export interface SearchOptions {
+  kinds?: SearchResultKind[]; // Restrict results to these kinds (facet filter)
+  domainId?: string | null; // Restrict results to one domain (facet filter)
+  limit?: number;
+}
+
+export interface SearchSources {
+  tables: Table[];
+  systems: System[];
+  products: DataProduct[];
+  computeAssets: ComputeAsset[];
+  metricViews: MetricView[];
+  bpmnProcesses: BPMNProcess[];
+  dmnDecisions: DMNDecision[];
+  decisions: Decision[];
+  articles: KnowledgeArticle[];
+  sketches: Sketch[];
+}
+
+const DEFAULT_LIMIT = 50;
+
+// Field weights - names rank above business names, which rank above free text
+const NAME_WEIGHT = 10;
+const ALT_NAME_WEIGHT = 7;
+const TEXT_WEIGHT = 3;
+const BODY_WEIGHT = 1;
+
+const field = (label: string, text: string | undefined | null, weight: number): SearchField[] =>
+  text ? [{ label, text, weight }] : [];
+
+/**
+ * Collect the text elements of an Excalidraw sketch
+ */
+export function extractSketchText(excalidrawData: string | undefined): string {
+  if (!excalidrawData) return '';
+  const parsed = parseExcalidrawData(excalidrawData);
+  if (!parsed) return '';
+  return parsed.elements
+    .map((element) => {
+      const el = element as { type?: string; text?: string; isDeleted?: boolean };
+      return el.type === 'text' && !el.isDeleted ? el.text || '' : '';
+    })
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Build the search index for all resources in the workspace
+ */
+export function buildSearchIndex(sources: SearchSources): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+
+  sources.tables.forEach((table) => {
+    documents.push({
+      kind: 'table',
+      id: table.id,
+      title: table.name,
+      subtitle: table.businessName,
+      domainId: table.primary_domain_id,
+      fields: [
+        ...field('name', table.name, NAME_WEIGHT),
+        ...field('physical name', table.physicalName, ALT_NAME_WEIGHT),
+        ...field('alias', table.alias, ALT_NAME_WEIGHT),
+        ...field('business name', table.businessName, ALT_NAME_WEIGHT),
+        ...field('description', table.description, TEXT_WEIGHT),
+        ...field('tags', table.tags?.join(' '), TEXT_WEIGHT),
+      ],
+    });
+
+    table.columns.forEach((column) => {
+      documents.push({
+        kind: 'column',
+        id: column.id,
+        title: column.name,
+        subtitle: `${table.name} · ${column.data_type}`,
+        domainId: table.primary_domain_id,
+        parentId: table.id,
+        fields: [
+          ...field('name', column.name, NAME_WEIGHT),
+          ...field('physical name', column.physicalName, ALT_NAME_WEIGHT),
+          ...field('business name', column.businessName, ALT_NAME_WEIGHT),
+          ...field('description', column.description, TEXT_WEIGHT),
+        ],
+      });
+    });
+  });
+
+  sources.systems.forEach((system) => {
+    documents.push({
+      kind: 'system',
+      id: system.id,
+      title: system.name,
+      subtitle: system.system_type,
+      domainId: system.domain_id,
+      fields: [
+        ...field('name', system.name, NAME_WEIGHT),
+        ...field('type', system.system_type, TEXT_WEIGHT),
+        ...field('description', system.description, TEXT_WEIGHT),
+      ],
+    });
+  });
+
+  sources.products.forEach((product) => {
+    documents.push({
+      kind: 'product',
+      id: product.id,
+      title: product.name,
+      subtitle: product.team,
+      domainId: product.domain_id,
+      fields: [
+        ...field('name', product.name, NAME_WEIGHT),
+        ...field('description', product.description, TEXT_WEIGHT),
+      ],
+    });
+  });
+
+  sources.computeAssets.forEach((asset) => {
+    documents.push({
+      kind: 'compute-asset',
+      id: asset.id,
+      title: asset.name,
+      subtitle: asset.type,
+      domainId: asset.domain_id,
+      fields: [
+        ...field('name', asset.name, NAME_WEIGHT),
+        ...field('description', asset.description, TEXT_WEIGHT),
+        ...field('team', asset.engineering_team, BODY_WEIGHT),
+      ],
+    });
+  });
+
+  sources.metricViews.forEach((view) => {
+    documents.push({
+      kind: 'metric-view',
+      id: view.id,
+      title: view.name,
+      subtitle: view.source,
+      domainId: view.domain_id,
+      fields: [
+        ...field('name', view.name, NAME_WEIGHT),
+        ...field('description', view.description, TEXT_WEIGHT),
+        ...field('dimensions', view.dimensions.map((d) => d.name).join(' '), TEXT_WEIGHT),
+        ...field('measures', view.measures.map((m) => m.name).join(' '), TEXT_WEIGHT),
+      ],
+    });
+  });
+
+  sources.bpmnProcesses.forEach((process) => {
+    documents.push({
+      kind: 'bpmn',
+      id: process.id,
+      title: process.name,
+      domainId: process.domain_id,
+      fields: field('name', process.name, NAME_WEIGHT),
+    });
+  });
+
+  sources.dmnDecisions.forEach((decision) => {
+    documents.push({
+      kind: 'dmn',
+      id: decision.id,
+      title: decision.name,
+      domainId: decision.domain_id,
+      fields: field('name', decision.name, NAME_WEIGHT),
+    });
+  });
+
+  sources.decisions.forEach((decision) => {
+    documents.push({
+      kind: 'decision',
+      id: decision.id,
+      title: decision.title,
+      subtitle: decision.status,
+      domainId: decision.domain_id,
+      fields: [
+        ...field('title', decision.title, NAME_WEIGHT),
+        ...field('context', decision.context, BODY_WEIGHT),
+        ...field('decision', decision.decision, BODY_WEIGHT),
+        ...field('consequences', decision.consequences, BODY_WEIGHT),
+      ],
+    });
+  });
+
+  sources.articles.forEach((article) => {
+    documents.push({
+      kind: 'knowledge',
+      id: article.id,
+      title: article.title,
+      subtitle: article.type,
+      domainId: article.domain_id,
+      fields: [
+        ...field('title', article.title, NAME_WEIGHT),
+        ...field('summary', article.summary, TEXT_WEIGHT),
+        ...field('content', article.content, BODY_WEIGHT),
+      ],
+    });
+  });
+
+  sources.sketches.forEach((sketch) => {
+    const title = sketch.title || sketch.name || 'Untitled sketch';
+    documents.push({
+      kind: 'sketch',
+      id: sketch.id,
+      title,
+      subtitle: sketch.sketch_type,
+      domainId: sketch.domain_id,
+      fields: [
+        ...field('title', title, NAME_WEIGHT),
+        ...field('description', sketch.description, TEXT_WEIGHT),
+        ...field('sketch text', extractSketchText(sketch.excalidraw_data), TEXT_WEIGHT),
+      ],
+    });
+  });
+
+  return documents;
+}
+
+const WORD_SEPARATOR = /[\s_\-.:/]+/;
+
+/**
+ * Score how well a single term matches a text (0 = no match)
+ */
+const matchQuality = (text: string, term: string): number => {
+  const lower = text.toLowerCase();
+  if (lower === term) return 1;
+  if (lower.startsWith(term)) return 0.8;
+  // Word start, including camelCase boundaries (customerId matches "id")
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(WORD_SEPARATOR);
+  if (words.includes(term)) return 0.7;
+  if (words.some((w) => w.startsWith(term))) return 0.6;
+  if (lower.includes(term)) return 0.4;
+  // Separator-insensitive match (customer_id vs customerId)
+  const compactTerm = term.replace(/[\s_\-.]+/g, '');
+  if (compactTerm && lower.replace(/[\s_\-.]+/g, '').includes(compactTerm)) return 0.3;
+  return 0;
+};
+
+/**
+ * Search the index. Every query term must match at least one field of a document.
+ * Facet counts are computed before the kind/domain filters so they stay visible as the user narrows down.
+ */
+export function searchWorkspace(
+  index: SearchDocument[],
+  query: string,
+  options: SearchOptions = {}
+): { results: SearchResult[]; facets: SearchFacets; total: number } {
+  const facets: SearchFacets = { kinds: {}, domains: {} };
+  const trimmed = query.trim().toLowerCase();
+  if (!trimmed) return { results: [], facets, total: 0 };
+
+  const terms = trimmed.split(/\s+/);
+
+  const matches: SearchResult[] = [];
+  index.forEach((document) => {
+    let score = 0;
+    let bestField = '';
+    let bestFieldScore = 0;
+
+    for (const term of terms) {
+      let termScore = 0;
+      for (const f of document.fields) {
+        const s = matchQuality(f.text, term) * f.weight;
+        if (s > termScore) termScore = s;
+        if (s > bestFieldScore) {
+          bestFieldScore = s;
+          bestField = f.label;
+        }
+      }
+      if (termScore === 0) return;
+      score += termScore;
+    }
+
+    // Exact match on the full multi-word title outranks partial word hits
+    if (terms.length > 1 && document.title.toLowerCase() === trimmed) score += NAME_WEIGHT;
+
+    matches.push({ document, score, matchedField: bestField });
+  });
+
+  matches.forEach(({ document }) => {
+    facets.kinds[document.kind] = (facets.kinds[document.kind] || 0) + 1;
+    if (document.domainId) {
+      facets.domains[document.domainId] = (facets.domains[document.domainId] || 0) + 1;
+    }
+  });
+
+  const filtered = matches.filter(
+    ({ document }) =>
+      (!options.kinds?.length || options.kinds.includes(document.kind)) &&
+      (!options.domainId || document.domainId === options.domainId)
+  );
+
+  filtered.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.document.title.length - b.document.title.length ||
+      a.document.title.localeCompare(b.document.title)
+  );
+
+  return {
+    results: filtered.slice(0, options.limit ?? DEFAULT_LIMIT),
+    facets,
+    total: filtered.length,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Workspace snapshots
+ *
+ * Loads the workspace model from the files of one version (e.g. a git ref) so that two
+ * versions can be compared with diffWorkspaces. A snapshot usually holds only the files
+ * that changed plus the .workspace.yaml of their folder: resources in unchanged files are
+ * the same on both sides and would not show up in the diff anyway.
+ */
+
+import { WorkspaceV2Loader } from '@/services/storage/workspaceV2Loader';
+import { odcsService } from '@/services/sdk/odcsService';
+import { useValidationStore } from '@/stores/validationStore';
+import type { Table } from '@/types/table';
+import { diffWorkspaces, type DiffableWorkspace, type WorkspaceChange } from './workspaceDiff';
+
+export interface SnapshotFile {
+  path: string;
+  content: string;
+}
+
+export interface WorkspaceSnapshots {
+  before: SnapshotFile[];
+  after: SnapshotFile[];
+}
+
+/** Files the workspace loader reads */
+export const WORKSPACE_FILE = /\.(ya?ml|json|bpmn|dmn|xml|md)$/;
+
+const fileName = (path: string) => path.split('/').pop() ?? path;
+
+/**
+ * The model held by the files of one version. Folders without a .workspace.yaml are read
+ * as loose ODCS contracts; files that fail to parse are left out.
+ */
+export async function loadWorkspaceSnapshot(files: SnapshotFile[]): Promise<DiffableWorkspace> {
+  const workspaceFiles = files.filter((f) => WORKSPACE_FILE.test(f.path));
+
+  if (!workspaceFiles.some((f) => f.path.endsWith('.workspace.yaml'))) {
+    const tables: Table[] = [];
+    for (const file of workspaceFiles.filter((f) => f.path.endsWith('.odcs.yaml'))) {
+      try {
+        tables.push(...(await odcsService.parseYAML(file.content)).tables);
+      } catch (error) {
+        console.warn(`[workspaceSnapshot] Failed to parse ${file.path}:`, error);
+      }
+    }
+    return { tables, relationships: [] };
+  }
+
+  // The loader records parse failures as validation issues; those of an old version
+  // must not show up next to the issues of the open workspace
+  const issues = useValidationStore.getState().issues;
+  try {
+    const workspace = (await WorkspaceV2Loader.loadFromStringFiles(
+      workspaceFiles.map((f) => ({ name: fileName(f.path), content: f.content }))
+    )) as Partial<DiffableWorkspace>;
+    return {
+      ...workspace,
+      tables: workspace.tables ?? [],
+      relationships: workspace.relationships ?? [],
+    };
+  } finally {
+    useValidationStore.setState({ issues });
+  }
+}
+
+/**
+ * Model changes between two snapshots
+ */
+export async function diffWorkspaceSnapshots(
+  snapshots: WorkspaceSnapshots
+): Promise<WorkspaceChange[]> {
+  const before = await loadWorkspaceSnapshot(snapshots.before);
+  const after = await loadWorkspaceSnapshot(snapshots.after);
+  return diffWorkspaces(before, after);
+}
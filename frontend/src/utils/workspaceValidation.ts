@@ -9,6 +9,7 @@ import { useValidationStore } from '@/stores/validationStore';
 import { useModelStore } from '@/stores/modelStore';
 import { useKnowledgeStore } from '@/stores/knowledgeStore';
 import { useDecisionStore } from '@/stores/decisionStore';
+import { useWorkspaceStore } from '@/stores/workspaceStore';
 
 export interface ValidationSummary {
   hasErrors: boolean;
@@ -34,9 +35,11 @@ export async function runWorkspaceValidation(): Promise<ValidationSummary> {
 
   try {
     // Get all resources from stores
-    const { tables, relationships, domains } = modelStore;
+    const { tables, relationships, domains, systems, metricViews } = modelStore;
     const { articles } = knowledgeStore;
     const { decisions } = decisionStore;
+    const { workspaces, currentWorkspaceId } = useWorkspaceStore.getState();
+    const namingPolicy = workspaces.find((w) => w.id === currentWorkspaceId)?.naming_policy;
 
     // Run comprehensive validation
     const result = await validationService.validateAll(
@@ -44,7 +47,10 @@ export async function runWorkspaceValidation(): Promise<ValidationSummary> {
       relationships,
       domains,
       articles,
-      decisions
+      decisions,
+      namingPolicy,
+      systems,
+      metricViews
     );
 
     // Clear existing issues and add new ones
@@ -19,6 +19,9 @@ vi.mock('@/services/sdk/sdkMode', () => ({
   sdkModeDetector: {
     isOnline: vi.fn().mockReturnValue(false),
   },
+  useSDKModeStore: {
+    getState: () => ({ mode: 'offline' }),
+  },
 }));
 
 const mockBpmnService = vi.mocked(bpmnService);
@@ -2,7 +2,7 @@ import { expect, afterEach, vi } from 'vitest';
 import { cleanup } from '@testing-library/react';
 import '@testing-library/jest-dom/vitest';
 
-// Mock localStorage for tests
+// Mock localStorage for tests (node environment tests run without a window)
 const localStorageMock = {
   getItem: vi.fn(() => null),
   setItem: vi.fn(),
@@ -11,7 +11,9 @@ const localStorageMock = {
   length: 0,
   key: vi.fn(() => null),
 };
-Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+}
 
 // Mock the apiClient module to prevent fetch issues during test teardown
 vi.mock('@/services/api/apiClient', () => ({
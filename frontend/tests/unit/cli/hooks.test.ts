@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import * as yaml from 'js-yaml';
+import { isWorkspaceResourceFile, repairWorkspaceYaml } from '@/cli/hooks';
+import type { OrphanedReference } from '@/utils/orphanedReferences';
+import type { WorkspaceV2 } from '@/types/workspace';
+
+const orphan = (overrides: Partial<OrphanedReference>): OrphanedReference => ({
+  resourceType: 'relationship',
+  resourceId: '',
+  resourceName: '',
+  field: '',
+  missingId: 'payments',
+  message: '',
+  ...overrides,
+});
+
+describe('isWorkspaceResourceFile', () => {
+  it('matches the file kinds validated by the pre-commit hook', () => {
+    expect(isWorkspaceResourceFile('sales/shop_sales_orders.odcs.yaml')).toBe(true);
+    expect(isWorkspaceResourceFile('shop_sales.odps.yaml')).toBe(true);
+    expect(isWorkspaceResourceFile('decisions/0001-use-odcs.adr.yaml')).toBe(true);
+    expect(isWorkspaceResourceFile('shop.workspace.yaml')).toBe(true);
+    expect(isWorkspaceResourceFile('README.md')).toBe(false);
+    expect(isWorkspaceResourceFile('config.yaml')).toBe(false);
+  });
+});
+
+describe('repairWorkspaceYaml', () => {
+  it('removes orphaned relationships, system IDs and transformation links', () => {
+    const content = yaml.dump({
+      id: 'w1',
+      name: 'shop',
+      relationships: [
+        { id: 'r1', source_id: 'orders', target_id: 'customers' },
+        { id: 'r2', source_id: 'orders', target_id: 'payments' },
+      ],
+      domains: [
+        {
+          id: 'd1',
+          name: 'sales',
+          systems: [{ id: 's1', name: 'Shop DB', table_ids: ['orders', 'payments'] }],
+          transformation_links: [
+            { id: 'l1', source_table_id: 'orders', target_table_id: 'customers' },
+            { id: 'l2', source_table_id: 'payments', target_table_id: 'orders' },
+          ],
+        },
+      ],
+    });
+
+    const repaired = yaml.load(
+      repairWorkspaceYaml(content, [
+        orphan({ resourceId: 'r2', field: 'target_id' }),
+        orphan({ resourceType: 'system', resourceId: 's1', field: 'table_ids' }),
+        orphan({ resourceType: 'domain', resourceId: 'd1', linkId: 'l2' }),
+      ])
+    ) as WorkspaceV2;
+
+    expect(repaired.relationships?.map((r) => r.id)).toEqual(['r1']);
+    expect(repaired.domains?.[0].systems?.[0].table_ids).toEqual(['orders']);
+    expect(repaired.domains?.[0].transformation_links?.map((l) => l.id)).toEqual(['l1']);
+  });
+
+  it('leaves comments, key order and quoting of the rest of the file as written', () => {
+    const content = [
+      '# Shop workspace',
+      'name: "shop"',
+      'id: w1',
+      'relationships:',
+      '  - id: r1 # orders to customers',
+      '    source_id: orders',
+      '    target_id: customers',
+      '  - id: r2',
+      '    source_id: orders',
+      '    target_id: payments',
+      '',
+    ].join('\n');
+
+    expect(repairWorkspaceYaml(content, [orphan({ resourceId: 'r2', field: 'target_id' })])).toBe(
+      [
+        '# Shop workspace',
+        'name: "shop"',
+        'id: w1',
+        'relationships:',
+        '  - id: r1 # orders to customers',
+        '    source_id: orders',
+        '    target_id: customers',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync, execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+
+// The built CLI run by plain Node, outside jsdom: browser globals such as localStorage are
+// missing there. Built inside node_modules so that the SDK still resolves at runtime.
+const root = resolve(__dirname, '../../..');
+const outDir = join(root, 'node_modules/.cache/odm-cli-test');
+
+const odm = (...args: string[]) =>
+  spawnSync(process.execPath, [join(outDir, 'odm.js'), ...args], {
+    encoding: 'utf8',
+    timeout: 60_000,
+  });
+
+describe('odm (built)', () => {
+  let folder: string;
+
+  beforeAll(() => {
+    execFileSync(
+      process.execPath,
+      [
+        join(root, 'node_modules/vite/bin/vite.js'),
+        'build',
+        '--config',
+        'vite.cli.config.ts',
+        '--outDir',
+        outDir,
+        '--emptyOutDir',
+        '--logLevel',
+        'error',
+      ],
+      { cwd: root, stdio: 'pipe', timeout: 300_000 }
+    );
+    folder = mkdtempSync(join(tmpdir(), 'odm-'));
+  }, 300_000);
+
+  afterAll(() => {
+    rmSync(folder, { recursive: true, force: true });
+  });
+
+  it('prints the usage', () => {
+    const result = odm('--help');
+
+    expect(result.stderr).toBe('');
+    expect(result.status).toBe(0);
+    expect(result.stdout).toMatch(/^Usage:\n {2}odm validate/);
+  });
+
+  it('writes only the report to stdout', () => {
+    const result = odm('validate', folder, '--format', 'json');
+
+    expect(result.status).toBe(0);
+    expect(JSON.parse(result.stdout)).toMatchObject({
+      summary: { resources: 0, errors: 0 },
+      issues: [],
+    });
+  }, 60_000);
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { formatDiffReport, formatValidationReport, type ValidationReport } from '@/cli/reporters';
+
+const report: ValidationReport = {
+  workspaceName: 'shop',
+  resources: [
+    {
+      resourceType: 'table',
+      resourceId: 't1',
+      resourceName: 'orders',
+      filePath: 'shop_orders.odcs.yaml',
+    },
+    { resourceType: 'table', resourceId: 't2', resourceName: 'customers' },
+  ],
+  issues: [
+    {
+      resourceType: 'table',
+      resourceId: 't1',
+      resourceName: 'orders',
+      filePath: 'shop_orders.odcs.yaml',
+      severity: 'error',
+      field: 'column.name',
+      message: 'Column name "Order-Id" is not snake_case',
+      details: 'Naming rule(s): snake',
+      suggestion: 'order_id',
+    },
+    {
+      resourceType: 'table',
+      resourceId: 't1',
+      resourceName: 'orders',
+      severity: 'warning',
+      field: 'description',
+      message: 'Table <orders> has no description',
+    },
+  ],
+};
+
+describe('formatValidationReport', () => {
+  it('renders text with a summary line', () => {
+    const text = formatValidationReport(report, 'text');
+    expect(text).toContain(
+      'error   shop_orders.odcs.yaml: orders [column.name]: Column name "Order-Id" is not snake_case'
+    );
+    expect(text).toContain('shop: 1 error, 1 warning, 2 resources checked');
+  });
+
+  it('renders JSON with counts', () => {
+    const json = JSON.parse(formatValidationReport(report, 'json'));
+    expect(json.summary).toEqual({ resources: 2, errors: 1, warnings: 1, infos: 0 });
+    expect(json.issues).toHaveLength(2);
+  });
+
+  it('renders JUnit with a test case per resource and errors as failures', () => {
+    const xml = formatValidationReport(report, 'junit');
+    expect(xml).toContain('<testsuite name="shop" tests="2" failures="1">');
+    expect(xml).toContain('<testcase name="customers" classname="shop.table"/>');
+    expect(xml).toContain(
+      '<failure message="orders [column.name]: Column name &quot;Order-Id&quot; is not snake_case" type="table/column.name">'
+    );
+    expect(xml).toContain('warning: orders [description]: Table &lt;orders&gt; has no description');
+  });
+
+  it('renders SARIF results with rules, levels and locations', () => {
+    const sarif = JSON.parse(formatValidationReport(report, 'sarif', '1.2.3'));
+    const run = sarif.runs[0];
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver).toMatchObject({ name: 'odm', version: '1.2.3' });
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toEqual([
+      'table/column.name',
+      'table/description',
+    ]);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'table/column.name',
+      ruleIndex: 0,
+      level: 'error',
+      properties: { suggestion: 'order_id' },
+    });
+    expect(run.results[0].locations[0].physicalLocation.artifactLocation.uri).toBe(
+      'shop_orders.odcs.yaml'
+    );
+    expect(run.results[1].level).toBe('warning');
+    expect(run.results[1].locations[0].physicalLocation).toBeUndefined();
+  });
+});
+
+describe('formatDiffReport', () => {
+  it('renders changes as text', () => {
+    const text = formatDiffReport(
+      [
+        { kind: 'added', resourceType: 'table', id: 't2', name: 'customers' },
+        {
+          kind: 'modified',
+          resourceType: 'table',
+          id: 't1',
+          name: 'orders',
+          renamedFrom: 'order',
+          movedFrom: 'Sales',
+          movedTo: 'Finance',
+        },
+        {
+          kind: 'modified',
+          resourceType: 'column',
+          id: 'c1',
+          name: 'amount',
+          tableId: 't1',
+          tableName: 'orders',
+          fields: [{ field: 'nullable', before: true, after: false }],
+        },
+      ],
+      'text',
+      { from: 'main', to: 'feature' }
+    );
+    expect(text).toBe(
+      [
+        '+ table customers',
+        '~ table orders (renamed from order, moved from Sales to Finance)',
+        '    ~ column orders.amount',
+        '        nullable: true → false',
+        '',
+        'main..feature: 1 added, 0 removed, 2 modified',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('reports when there are no changes', () => {
+    expect(formatDiffReport([], 'text', { from: 'main', to: 'working tree' })).toBe(
+      'No model changes between main and working tree\n'
+    );
+  });
+});
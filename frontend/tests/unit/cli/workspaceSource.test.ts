@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as yaml from 'js-yaml';
+import { loadWorkspaceFiles, readWorkspaceFolder } from '@/cli/workspaceSource';
+
+// Parse ODCS files as a single table with the file's id and name; "broken" fails to parse
+vi.mock('@/services/sdk/odcsService', () => ({
+  odcsService: {
+    parseYAML: vi.fn().mockImplementation(async (content: string) => {
+      const parsed = yaml.load(content) as { id: string; name: string };
+      if (parsed.name === 'broken') throw new Error('Invalid ODCS contract');
+      return { tables: [{ id: parsed.id, name: parsed.name, columns: [] }] };
+    }),
+  },
+}));
+
+const odcs = (id: string, name: string) =>
+  `apiVersion: v3.1.0\nkind: DataContract\nid: ${id}\nname: ${name}\n`;
+
+describe('readWorkspaceFolder', () => {
+  let folder: string | undefined;
+  afterEach(() => {
+    if (folder) rmSync(folder, { recursive: true, force: true });
+  });
+
+  it('reads workspace files recursively with relative paths', () => {
+    folder = mkdtempSync(join(tmpdir(), 'odm-'));
+    mkdirSync(join(folder, 'odcs'));
+    mkdirSync(join(folder, 'node_modules'));
+    writeFileSync(join(folder, 'shop.workspace.yaml'), 'name: shop\n');
+    writeFileSync(join(folder, 'odcs', 'shop_sales_orders.odcs.yaml'), odcs('t1', 'orders'));
+    writeFileSync(join(folder, 'node_modules', 'ignored.yaml'), '');
+    writeFileSync(join(folder, 'notes.txt'), '');
+
+    const paths = readWorkspaceFolder(folder)
+      .map((f) => f.path)
+      .sort();
+    expect(paths).toEqual(['odcs/shop_sales_orders.odcs.yaml', 'shop.workspace.yaml']);
+  });
+});
+
+describe('loadWorkspaceFiles', () => {
+  it('loads a workspace and maps resources to their files', async () => {
+    const { workspace, filePaths, loadIssues } = await loadWorkspaceFiles([
+      {
+        path: 'shop.workspace.yaml',
+        content: yaml.dump({ id: 'ws-1', name: 'shop', domains: [{ id: 'd-1', name: 'sales' }] }),
+      },
+      { path: 'odcs/shop_sales_orders.odcs.yaml', content: odcs('t1', 'orders') },
+    ]);
+
+    expect(workspace.name).toBe('shop');
+    expect(workspace.tables?.map((t) => t.name)).toEqual(['orders']);
+    expect(filePaths.get('t1')).toBe('odcs/shop_sales_orders.odcs.yaml');
+    expect(filePaths.get('d-1')).toBe('shop.workspace.yaml');
+    expect(loadIssues).toEqual([]);
+  });
+
+  it('loads loose ODCS files and reports the ones that fail to parse', async () => {
+    const { workspace, loadIssues } = await loadWorkspaceFiles(
+      [
+        { path: 'contracts/orders.odcs.yaml', content: odcs('t1', 'orders') },
+        { path: 'contracts/broken.odcs.yaml', content: odcs('t2', 'broken') },
+      ],
+      'contracts'
+    );
+
+    expect(workspace.name).toBe('contracts');
+    expect(workspace.tables?.map((t) => t.name)).toEqual(['orders']);
+    expect(loadIssues).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        filePath: 'contracts/broken.odcs.yaml',
+        message: 'ODCS file could not be parsed',
+      }),
+    ]);
+  });
+});
@@ -20,6 +20,8 @@ vi.mock('reactflow', async () => {
       { id: 'table-1', position: { x: 100, y: 100 }, width: 200, height: 150 },
       { id: 'table-2', position: { x: 300, y: 100 }, width: 200, height: 150 },
     ],
+    EdgeLabelRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+    useReactFlow: () => ({ screenToFlowPosition: (point: { x: number; y: number }) => point }),
     ReactFlowProvider: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
   };
 });
@@ -13,6 +13,8 @@ vi.mock('@/stores/modelStore', () => ({
   useModelStore: vi.fn(),
 }));
 
+const viewport = vi.hoisted(() => ({ zoom: 1 }));
+
 vi.mock('reactflow', () => ({
   Handle: ({ position }: { position: string }) => <div data-testid={`handle-${position}`} />,
   Position: {
@@ -21,6 +23,8 @@ vi.mock('reactflow', () => ({
     Left: 'left',
     Right: 'right',
   },
+  useStore: (selector: (state: { transform: [number, number, number] }) => unknown) =>
+    selector({ transform: [0, 0, viewport.zoom] }),
 }));
 
 describe('CanvasNode', () => {
@@ -65,6 +69,7 @@ describe('CanvasNode', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    viewport.zoom = 1;
     vi.mocked(modelStore.useModelStore).mockReturnValue({
       selectedTableId: null,
       selectedDomainId: 'domain-1',
@@ -286,4 +291,33 @@ describe('CanvasNode', () => {
     expect(screen.getByText('FK')).toBeInTheDocument();
     expect(screen.getByText('parent_tenant_id + parent_user_id')).toBeInTheDocument();
   });
+
+  describe('level of detail', () => {
+    it('should show only key columns when zoomed out', () => {
+      viewport.zoom = 0.5;
+      render(
+        <CanvasNode
+          data={{ table: mockTable, modelType: 'physical' }}
+          id="table-1"
+          selected={false}
+        />
+      );
+      expect(screen.getByText('id')).toBeInTheDocument();
+      expect(screen.queryByText('name')).not.toBeInTheDocument();
+      expect(screen.queryByText('UUID')).not.toBeInTheDocument();
+    });
+
+    it('should show only the title when zoomed far out', () => {
+      viewport.zoom = 0.2;
+      render(
+        <CanvasNode
+          data={{ table: mockTable, modelType: 'physical' }}
+          id="table-1"
+          selected={false}
+        />
+      );
+      expect(screen.getByText('Users')).toBeInTheDocument();
+      expect(screen.queryByText('id')).not.toBeInTheDocument();
+    });
+  });
 });
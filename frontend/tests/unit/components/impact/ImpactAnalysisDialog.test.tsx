@@ -0,0 +1,99 @@
+/**
+ * Unit tests for ImpactAnalysisDialog
+ * Tests that a table deletion and its dependents change the model as one undo step, and
+ * only once the step before it succeeded
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, render, screen, fireEvent } from '@testing-library/react';
+import { ImpactAnalysisDialog } from '@/components/impact/ImpactAnalysisDialog';
+import { useModelStore } from '@/stores/modelStore';
+import { useHistoryStore } from '@/stores/historyStore';
+import { tableService } from '@/services/api/tableService';
+import type { Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+
+const makeTable = (id: string): Table =>
+  ({ id, name: id, primary_domain_id: 'domain-1', columns: [] }) as unknown as Table;
+
+const relationship = {
+  id: 'r1',
+  domain_id: 'domain-1',
+  source_id: 'orders',
+  target_id: 'customers',
+} as Relationship;
+
+const renderDialog = async (onBeforeProceed: () => Promise<boolean>, replacementId?: string) => {
+  const onProceed = vi.fn(() => useModelStore.getState().removeTable('orders'));
+  render(
+    <ImpactAnalysisDialog
+      isOpen
+      change={{ kind: 'remove-table', tableId: 'orders' }}
+      onCancel={vi.fn()}
+      onBeforeProceed={onBeforeProceed}
+      onProceed={onProceed}
+    />
+  );
+  if (replacementId) {
+    fireEvent.click(screen.getByLabelText(/Re-point/));
+    fireEvent.change(screen.getByLabelText('Replacement table'), {
+      target: { value: replacementId },
+    });
+  }
+  await act(async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Delete table' }));
+  });
+  return onProceed;
+};
+
+describe('ImpactAnalysisDialog', () => {
+  beforeEach(() => {
+    useModelStore.getState().setTables([makeTable('orders'), makeTable('customers')]);
+    useModelStore.getState().setRelationships([relationship]);
+    useHistoryStore.getState().clear();
+  });
+
+  it('leaves the model alone when the step before proceeding fails', async () => {
+    const onBeforeProceed = vi.fn().mockResolvedValue(false);
+    const onProceed = await renderDialog(onBeforeProceed);
+
+    expect(onBeforeProceed).toHaveBeenCalled();
+    expect(onProceed).not.toHaveBeenCalled();
+    expect(useModelStore.getState().tables).toHaveLength(2);
+    expect(useModelStore.getState().relationships).toHaveLength(1);
+  });
+
+  it('deletes the table and its dependents as one undo step', async () => {
+    const onProceed = await renderDialog(() => Promise.resolve(true));
+
+    expect(onProceed).toHaveBeenCalled();
+    expect(useModelStore.getState().tables.map((t) => t.id)).toEqual(['customers']);
+    expect(useModelStore.getState().relationships).toEqual([]);
+
+    act(() => useModelStore.getState().undo());
+    expect(useModelStore.getState().tables).toHaveLength(2);
+    expect(useModelStore.getState().relationships).toEqual([relationship]);
+  });
+
+  it('applies the chosen resolution after deleting the table on the server', async () => {
+    useModelStore
+      .getState()
+      .setTables([makeTable('orders'), makeTable('customers'), makeTable('orders_v2')]);
+    const deleteTable = vi.spyOn(tableService, 'deleteTable').mockResolvedValue();
+    const onProceed = await renderDialog(async () => {
+      await tableService.deleteTable('domain-1', 'orders');
+      return true;
+    }, 'orders_v2');
+
+    expect(deleteTable).toHaveBeenCalledWith('domain-1', 'orders');
+    expect(onProceed).toHaveBeenCalled();
+    expect(useModelStore.getState().tables.map((t) => t.id)).toEqual(['customers', 'orders_v2']);
+    expect(useModelStore.getState().relationships).toEqual([
+      expect.objectContaining({ id: 'r1', source_id: 'orders_v2', target_id: 'customers' }),
+    ]);
+
+    act(() => useModelStore.getState().undo());
+    expect(useModelStore.getState().tables).toHaveLength(3);
+    expect(useModelStore.getState().relationships).toEqual([relationship]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for KnowledgePanel Component
+ * Tests switching between the list and articles selected from outside the panel
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen, fireEvent } from '@testing-library/react';
+import { KnowledgePanel } from '@/components/knowledge/KnowledgePanel';
+import { useKnowledgeStore } from '@/stores/knowledgeStore';
+import type { KnowledgeArticle } from '@/types/knowledge';
+
+// Mock child components
+vi.mock('@/components/knowledge/KnowledgeList', () => ({
+  KnowledgeList: () => <div data-testid="knowledge-list" />,
+}));
+
+vi.mock('@/components/knowledge/KnowledgeSearch', () => ({
+  KnowledgeSearch: () => <div data-testid="knowledge-search" />,
+}));
+
+vi.mock('@/components/knowledge/ArticleViewer', () => ({
+  ArticleViewer: ({ article }: { article: KnowledgeArticle }) => (
+    <div data-testid="article-viewer">{article.title}</div>
+  ),
+}));
+
+vi.mock('@/components/knowledge/ArticleEditor', () => ({
+  ArticleEditor: () => <div data-testid="article-editor" />,
+}));
+
+const article = (id: string, title: string) => ({ id, title }) as KnowledgeArticle;
+
+describe('KnowledgePanel', () => {
+  beforeEach(() => {
+    useKnowledgeStore.getState().setSelectedArticle(null);
+  });
+
+  it('shows an article selected from outside the panel', () => {
+    render(<KnowledgePanel workspacePath="/test/workspace" domainId="domain-1" />);
+
+    act(() => useKnowledgeStore.getState().setSelectedArticle(article('a1', 'Getting Started')));
+
+    expect(screen.getByTestId('article-viewer')).toHaveTextContent('Getting Started');
+  });
+
+  it('stays on the list after browsing away from the selected article', () => {
+    useKnowledgeStore.getState().setSelectedArticle(article('a1', 'Getting Started'));
+    render(<KnowledgePanel workspacePath="/test/workspace" domainId="domain-1" />);
+    expect(screen.getByTestId('article-viewer')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Browse' }));
+
+    expect(screen.queryByTestId('article-viewer')).not.toBeInTheDocument();
+    expect(screen.getByTestId('knowledge-list')).toBeInTheDocument();
+
+    act(() => useKnowledgeStore.getState().setSelectedArticle(article('a2', 'Conventions')));
+
+    expect(screen.getByTestId('article-viewer')).toHaveTextContent('Conventions');
+  });
+});
@@ -132,6 +132,7 @@ describe('useCanvas', () => {
       updateTable: vi.fn(),
       updateDomain,
       updateTableRemote,
+      transaction: (_label: string, fn: () => void) => fn(),
     } as any);
 
     const { result } = renderHook(() => useCanvas('workspace-1', 'domain-1'));
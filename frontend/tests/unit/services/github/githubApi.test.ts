@@ -0,0 +1,87 @@
+/**
+ * GitHub API Tests
+ * Tests for reading conflicting file contents
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getConflictFileContents, isNotFoundError } from '@/services/github/githubApi';
+
+vi.mock('@/services/github/githubAuth', () => ({
+  githubAuth: {
+    isAuthenticated: vi.fn(() => true),
+    getToken: vi.fn(() => 'token'),
+  },
+}));
+
+vi.mock('@/services/viewerMode', () => ({
+  isViewerMode: vi.fn(() => false),
+  viewerAutoRecover: vi.fn(),
+}));
+
+const fileResponse = (content: string, sha: string) =>
+  new Response(JSON.stringify({ type: 'file', content: btoa(content), sha }), { status: 200 });
+
+const errorResponse = (status: number, message: string) =>
+  new Response(JSON.stringify({ message }), { status });
+
+// Serve file contents per ref; refs missing from the map answer with the given error
+const stubContents = (contents: Record<string, string>, status: number, message: string) => {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string) => {
+      const ref = new URL(url).searchParams.get('ref') ?? '';
+      return ref in contents
+        ? fileResponse(contents[ref]!, `sha-${ref}`)
+        : errorResponse(status, message);
+    })
+  );
+};
+
+describe('githubApi', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should return the common ancestor content', async () => {
+    stubContents({ main: 'a: 2', feature: 'a: 3', base: 'a: 1' }, 404, 'Not Found');
+
+    const result = await getConflictFileContents('o', 'r', 'f.yaml', 'main', 'feature', 'base');
+
+    expect(result).toMatchObject({
+      oursContent: 'a: 2',
+      theirsContent: 'a: 3',
+      baseContent: 'a: 1',
+    });
+  });
+
+  it('should treat a missing ancestor file as empty', async () => {
+    stubContents({ main: 'a: 2', feature: 'a: 3' }, 404, 'Not Found');
+
+    const result = await getConflictFileContents('o', 'r', 'f.yaml', 'main', 'feature', 'base');
+
+    expect(result.baseContent).toBe('');
+  });
+
+  it('should leave the ancestor undefined when it cannot be read', async () => {
+    stubContents({ main: 'a: 2', feature: 'a: 3' }, 500, 'Server Error');
+
+    const result = await getConflictFileContents('o', 'r', 'f.yaml', 'main', 'feature', 'base');
+
+    expect(result.baseContent).toBeUndefined();
+  });
+
+  it('should only treat HTTP 404 as not found', async () => {
+    stubContents({}, 403, 'Forbidden');
+    const forbidden = await getConflictFileContents('o', 'r', 'f.yaml', 'main', 'feature').catch(
+      (err: unknown) => err
+    );
+    expect(forbidden).toBeInstanceOf(Error);
+    expect(isNotFoundError(forbidden)).toBe(false);
+    expect(isNotFoundError(new Error('Not Found'))).toBe(false);
+  });
+});
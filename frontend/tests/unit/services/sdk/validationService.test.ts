@@ -637,5 +637,60 @@ describe('ValidationService', () => {
       expect(result.warningCount).toBe(0);
       expect(result.issues).toHaveLength(0);
     });
+
+    it('should report naming policy violations with a suggested name', async () => {
+      const tables = [
+        createTable({
+          name: 'CustomerOrders',
+          columns: [
+            {
+              id: 'col-1',
+              table_id: 'table-1',
+              name: 'cust_id',
+              data_type: 'INTEGER',
+              nullable: false,
+              is_primary_key: true,
+              is_foreign_key: false,
+              order: 0,
+              created_at: '2025-01-01T00:00:00Z',
+            },
+          ],
+        }),
+      ];
+      const policy = {
+        rules: [
+          {
+            id: 'snake',
+            applies_to: 'table' as const,
+            severity: 'error' as const,
+            casing: 'snake_case' as const,
+          },
+          {
+            id: 'abbreviations',
+            applies_to: 'column' as const,
+            banned_words: { cust: 'customer' },
+          },
+        ],
+      };
+
+      const result = await validationService.validateAll(tables, [], [], [], [], policy);
+
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({
+          resourceId: 'table-1',
+          severity: 'error',
+          field: 'name',
+          suggestion: 'customer_orders',
+        })
+      );
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({
+          severity: 'warning',
+          field: 'column.name',
+          columnId: 'col-1',
+          suggestion: 'customer_id',
+        })
+      );
+    });
   });
 });
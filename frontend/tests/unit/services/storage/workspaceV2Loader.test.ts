@@ -5,6 +5,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { WorkspaceV2Loader } from '@/services/storage/workspaceV2Loader';
+import { useValidationStore } from '@/stores/validationStore';
 
 // Mock the SDK services
 vi.mock('@/services/sdk/odcsService', () => ({
@@ -214,6 +215,89 @@ domains:
       });
     });
 
+    it('should load view_annotations (frames and sticky notes) into domains', async () => {
+      const files = [
+        {
+          name: 'test.workspace.yaml',
+          content: `
+id: workspace-123
+name: test-workspace
+domains:
+  - id: domain-123
+    name: test-domain
+    view_annotations:
+      process:
+        frames:
+          - id: frame-1
+            title: Orders
+            description: Order capture tables
+            color: '#3b82f6'
+            x: 0
+            y: 0
+            width: 600
+            height: 400
+            collapsed: true
+        notes:
+          - id: note-1
+            text: Needs review
+            color: '#fef08a'
+            x: 700
+            y: 50
+            width: 200
+            height: 140
+`,
+        },
+      ];
+
+      const workspace = await WorkspaceV2Loader.loadFromStringFiles(files);
+
+      const process = workspace.domains[0].view_annotations?.process;
+      expect(process?.frames?.[0]).toMatchObject({
+        id: 'frame-1',
+        title: 'Orders',
+        description: 'Order capture tables',
+        collapsed: true,
+        width: 600,
+      });
+      expect(process?.notes?.[0]).toMatchObject({ id: 'note-1', text: 'Needs review' });
+    });
+
+    it('should load transformation links with their edge routes into domains', async () => {
+      const files = [
+        {
+          name: 'test.workspace.yaml',
+          content: `
+id: workspace-123
+name: test-workspace
+domains:
+  - id: domain-123
+    name: test-domain
+    transformation_links:
+      - id: link-1
+        source_table_id: table-a
+        target_table_id: table-b
+        visual_metadata:
+          waypoints:
+            - x: 120
+              y: 40
+          label_position:
+            x: 200
+            y: 60
+`,
+        },
+      ];
+
+      const workspace = await WorkspaceV2Loader.loadFromStringFiles(files);
+
+      expect(workspace.domains[0].transformation_links?.[0]).toMatchObject({
+        id: 'link-1',
+        visual_metadata: {
+          waypoints: [{ x: 120, y: 40 }],
+          label_position: { x: 200, y: 60 },
+        },
+      });
+    });
+
     it('should load knowledge articles from kb subdirectory', async () => {
       const files = [
         {
@@ -345,5 +429,77 @@ tags:
       expect(goldTable?.data_level).toBe('gold');
       expect(bronzeTable?.data_level).toBe('bronze');
     });
+
+    it('should load the naming policy and record an invalid one as a validation issue', async () => {
+      const workspaceFile = {
+        name: 'test.workspace.yaml',
+        content: `
+id: workspace-123
+name: test-workspace
+domains: []
+`,
+      };
+
+      const workspace = await WorkspaceV2Loader.loadFromStringFiles([
+        workspaceFile,
+        {
+          name: 'naming-policy.yaml',
+          content: `
+rules:
+  - id: snake-tables
+    applies_to: table
+    casing: snake_case
+`,
+        },
+      ]);
+      expect(workspace.naming_policy?.rules[0]).toMatchObject({
+        id: 'snake-tables',
+        casing: 'snake_case',
+      });
+
+      useValidationStore.getState().clearAllIssues();
+      const invalid = await WorkspaceV2Loader.loadFromStringFiles([
+        workspaceFile,
+        { name: 'naming-policy.yaml', content: 'rules: not-a-list' },
+      ]);
+      expect(invalid.naming_policy).toBeUndefined();
+      expect(useValidationStore.getState().issues).toContainEqual(
+        expect.objectContaining({ resourceType: 'workspace', filePath: 'naming-policy.yaml' })
+      );
+    });
+
+    it('should load glossary terms from the glossary subdirectory', async () => {
+      useValidationStore.getState().clearAllIssues();
+      const workspace = await WorkspaceV2Loader.loadFromStringFiles([
+        {
+          name: 'test.workspace.yaml',
+          content: `
+id: workspace-123
+name: test-workspace
+domains: []
+`,
+        },
+        {
+          name: 'glossary/test-workspace_customer.glossary.yaml',
+          content: `
+id: term-1
+name: Customer
+status: approved
+synonyms: [Client]
+`,
+        },
+        { name: 'glossary/test-workspace_broken.glossary.yaml', content: 'name: Broken' },
+      ]);
+
+      expect(workspace.glossaryTerms).toEqual([
+        expect.objectContaining({ id: 'term-1', name: 'Customer', synonyms: ['Client'] }),
+      ]);
+      expect(useValidationStore.getState().issues).toContainEqual(
+        expect.objectContaining({
+          resourceType: 'glossary_term',
+          filePath: 'glossary/test-workspace_broken.glossary.yaml',
+        })
+      );
+    });
   });
 });
@@ -0,0 +1,99 @@
+/**
+ * WorkspaceV2Saver Tests
+ * Tests that workspace fields the SDK export drops are still written to the workspace file
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as yaml from 'js-yaml';
+import { WorkspaceV2Saver } from '@/services/storage/workspaceV2Saver';
+import { sdkLoader } from '@/services/sdk/sdkLoader';
+import type { Workspace, WorkspaceV2 } from '@/types/workspace';
+import type { Domain } from '@/types/domain';
+
+// Like the SDK, exports the workspace without the fields outside its schema
+const exportWithoutLinks = (json: string) => {
+  const workspace = JSON.parse(json) as WorkspaceV2;
+  return yaml.dump({
+    ...workspace,
+    domains: workspace.domains?.map(({ transformation_links: _links, ...domain }) => domain),
+  });
+};
+
+const workspace = {
+  id: 'ws-1',
+  name: 'Sales',
+  owner_id: 'owner',
+  created_at: '2025-01-01T00:00:00Z',
+  last_modified_at: '2025-01-01T00:00:00Z',
+  domains: [],
+} as Workspace;
+
+const domain = {
+  id: 'domain-1',
+  name: 'Vault',
+  transformation_links: [
+    {
+      id: 'link-1',
+      source_table_id: 'stg_orders',
+      target_table_id: 'hub_order',
+      visual_metadata: {
+        waypoints: [
+          { x: 120, y: 40 },
+          { x: 120, y: 200 },
+        ],
+        label_position: { x: 130, y: 120 },
+      },
+    },
+  ],
+} as unknown as Domain;
+
+const savedWorkspace = async () => {
+  const files = await WorkspaceV2Saver.generateFiles(
+    workspace,
+    [domain],
+    [],
+    [],
+    [],
+    [],
+    [],
+    [],
+    [],
+    []
+  );
+  const file = files.find((f) => f.name.endsWith('.workspace.yaml'));
+  return yaml.load(file!.content) as WorkspaceV2;
+};
+
+describe('WorkspaceV2Saver', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps transformation links and their edge routes that the SDK export drops', async () => {
+    vi.spyOn(sdkLoader, 'getModule').mockReturnValue({
+      export_workspace_to_yaml: exportWithoutLinks,
+    } as unknown as ReturnType<typeof sdkLoader.getModule>);
+
+    const saved = await savedWorkspace();
+
+    expect(saved.domains?.[0]?.transformation_links).toEqual(domain.transformation_links);
+  });
+
+  it('keeps edge routes when the SDK export drops only those', async () => {
+    vi.spyOn(sdkLoader, 'getModule').mockReturnValue({
+      export_workspace_to_yaml: (json: string) => {
+        const exported = JSON.parse(json) as WorkspaceV2;
+        exported.domains?.forEach((d) =>
+          d.transformation_links?.forEach((l) => delete l.visual_metadata)
+        );
+        return yaml.dump(exported);
+      },
+    } as unknown as ReturnType<typeof sdkLoader.getModule>);
+
+    const saved = await savedWorkspace();
+
+    expect(saved.domains?.[0]?.transformation_links?.[0]?.visual_metadata).toEqual(
+      domain.transformation_links?.[0]?.visual_metadata
+    );
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for History Store
+ * Tests undo/redo of model mutations, transactions and coalescing
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useModelStore } from '@/stores/modelStore';
+import { useHistoryStore, MAX_HISTORY_ENTRIES } from '@/stores/historyStore';
+import { useSDKModeStore } from '@/services/sdk/sdkMode';
+import type { Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+
+const makeTable = (id: string, name: string): Table => ({
+  id,
+  workspace_id: 'workspace-1',
+  primary_domain_id: 'domain-1',
+  name,
+  model_type: 'logical',
+  columns: [
+    {
+      id: `${id}-col-1`,
+      table_id: id,
+      name: 'id',
+      data_type: 'UUID',
+      nullable: false,
+      is_primary_key: true,
+      is_foreign_key: false,
+      order: 0,
+      created_at: '2025-01-01T00:00:00Z',
+    },
+  ],
+  position_x: 0,
+  position_y: 0,
+  width: 200,
+  height: 150,
+  visible_domains: ['domain-1'],
+  is_owned_by_domain: true,
+  created_at: '2025-01-01T00:00:00Z',
+  last_modified_at: '2025-01-01T00:00:00Z',
+});
+
+const makeRelationship = (id: string, source: string, target: string): Relationship => ({
+  id,
+  workspace_id: 'workspace-1',
+  domain_id: 'domain-1',
+  source_id: source,
+  target_id: target,
+  source_type: 'table',
+  target_type: 'table',
+  type: 'one-to-many',
+  source_cardinality: '1',
+  target_cardinality: 'N',
+  model_type: 'logical',
+  is_circular: false,
+  created_at: '2025-01-01T00:00:00Z',
+  last_modified_at: '2025-01-01T00:00:00Z',
+});
+
+describe('historyStore', () => {
+  beforeEach(() => {
+    useModelStore.getState().setTables([]);
+    useModelStore.getState().setRelationships([]);
+    useModelStore.getState().setSystems([]);
+    useHistoryStore.getState().clear();
+    useSDKModeStore.setState({ mode: 'offline' });
+  });
+
+  it('should not record bulk setters used for loading', () => {
+    useModelStore.getState().setTables([makeTable('t1', 'orders')]);
+    expect(useHistoryStore.getState().past).toHaveLength(0);
+  });
+
+  it('should undo and redo adding a table', () => {
+    useModelStore.getState().addTable(makeTable('t1', 'orders'));
+    expect(useHistoryStore.getState().past[0]?.label).toBe('Add table "orders"');
+
+    useModelStore.getState().undo();
+    expect(useModelStore.getState().tables).toHaveLength(0);
+    expect(useHistoryStore.getState().future).toHaveLength(1);
+
+    useModelStore.getState().redo();
+    expect(useModelStore.getState().tables).toHaveLength(1);
+    expect(useHistoryStore.getState().future).toHaveLength(0);
+  });
+
+  it('should restore cascaded relationships when undoing a table delete', () => {
+    useModelStore.getState().setTables([makeTable('t1', 'orders'), makeTable('t2', 'customers')]);
+    useModelStore.getState().setRelationships([makeRelationship('r1', 't2', 't1')]);
+
+    useModelStore.getState().removeTable('t1');
+    expect(useModelStore.getState().relationships).toHaveLength(0);
+
+    useModelStore.getState().undo();
+    expect(useModelStore.getState().tables.map((t) => t.id)).toEqual(['t1', 't2']);
+    expect(useModelStore.getState().relationships).toHaveLength(1);
+  });
+
+  it('should group mutations inside a transaction into one step', () => {
+    useModelStore.getState().setTables([makeTable('t1', 'orders')]);
+
+    useModelStore.getState().transaction('Rename and retag', () => {
+      useModelStore.getState().updateTable('t1', { name: 'sales_orders' });
+      useModelStore.getState().updateColumn('t1', 't1-col-1', { name: 'order_id' });
+      useModelStore.getState().addTable(makeTable('t2', 'order_lines'));
+    });
+
+    const { past } = useHistoryStore.getState();
+    expect(past).toHaveLength(1);
+    expect(past[0]?.label).toBe('Rename and retag');
+
+    useModelStore.getState().undo();
+    const tables = useModelStore.getState().tables;
+    expect(tables).toHaveLength(1);
+    expect(tables[0]?.name).toBe('orders');
+    expect(tables[0]?.columns[0]?.name).toBe('id');
+  });
+
+  it('should not record an empty transaction', () => {
+    useModelStore.getState().transaction('Nothing', () => undefined);
+    expect(useHistoryStore.getState().past).toHaveLength(0);
+  });
+
+  it('should coalesce rapid updates of the same resource', () => {
+    useModelStore.getState().setTables([makeTable('t1', 'orders')]);
+
+    useModelStore.getState().updateTable('t1', { description: 'O' });
+    useModelStore.getState().updateTable('t1', { description: 'Or' });
+    useModelStore.getState().updateTable('t1', { description: 'Orders' });
+
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+    useModelStore.getState().undo();
+    expect(useModelStore.getState().tables[0]?.description).toBeUndefined();
+  });
+
+  it('should coalesce typing a column rename by the column ID', () => {
+    useModelStore.getState().setTables([makeTable('t1', 'orders')]);
+
+    for (const name of ['i', 'id_', 'id_n', 'id_new']) {
+      useModelStore.getState().updateColumn('t1', 't1-col-1', { name });
+    }
+
+    const { past } = useHistoryStore.getState();
+    expect(past).toHaveLength(1);
+    expect(past[0]?.label).toBe('Update column "id"');
+    useModelStore.getState().undo();
+    expect(useModelStore.getState().tables[0]?.columns[0]?.name).toBe('id');
+  });
+
+  it('should not coalesce updates of different resources', () => {
+    useModelStore.getState().setRelationships([
+      makeRelationship('r1', 't1', 't2'),
+      makeRelationship('r2', 't2', 't3'),
+    ]);
+
+    useModelStore.getState().updateRelationship('r1', { label: 'places' });
+    useModelStore.getState().updateRelationship('r2', { label: 'contains' });
+
+    expect(useHistoryStore.getState().past).toHaveLength(2);
+  });
+
+  it('should clear the redo stack when a new change is recorded', () => {
+    useModelStore.getState().addTable(makeTable('t1', 'orders'));
+    useModelStore.getState().undo();
+    useModelStore.getState().addTable(makeTable('t2', 'customers'));
+
+    expect(useHistoryStore.getState().future).toHaveLength(0);
+    expect(useHistoryStore.getState().canRedo()).toBe(false);
+  });
+
+  it('should cap the number of history entries', () => {
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+      useModelStore.getState().addTable(makeTable(`t${i}`, `table_${i}`));
+    }
+    expect(useHistoryStore.getState().past).toHaveLength(MAX_HISTORY_ENTRIES);
+  });
+
+  it('should keep no history in online mode', () => {
+    useModelStore.getState().addTable(makeTable('t1', 'orders'));
+    useSDKModeStore.setState({ mode: 'online' });
+
+    useModelStore.getState().addTable(makeTable('t2', 'customers'));
+    useModelStore.getState().transaction('Rename', () => {
+      useModelStore.getState().updateTable('t1', { name: 'sales_orders' });
+    });
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+    expect(useHistoryStore.getState().transaction).toBeNull();
+
+    useModelStore.getState().undo();
+    expect(useModelStore.getState().tables.map((t) => t.name)).toEqual([
+      'sales_orders',
+      'customers',
+    ]);
+  });
+});
@@ -200,7 +200,66 @@ describe('ModelStore', () => {
       expect(useModelStore.getState().selectedDomainId).toBe('domain-1');
     });
   });
-});
 
+  describe('Filtered tables', () => {
+    const makeTable = (id: string, domainId: string, extra: Partial<Table> = {}): Table => ({
+      id,
+      workspace_id: 'workspace-1',
+      primary_domain_id: domainId,
+      name: id,
+      model_type: 'physical',
+      columns: [],
+      position_x: 0,
+      position_y: 0,
+      width: 200,
+      height: 150,
+      visible_domains: [domainId],
+      created_at: '2025-01-01T00:00:00Z',
+      last_modified_at: '2025-01-01T00:00:00Z',
+      ...extra,
+    });
+
+    beforeEach(() => {
+      useModelStore.getState().setTables([
+        makeTable('orders', 'domain-1', { data_level: 'operational' }),
+        makeTable('orders_bronze', 'domain-1', { tags: ['dm_level:bronze'] }),
+        makeTable('customers', 'domain-2', {
+          data_level: 'operational',
+          visible_domains: ['domain-2', 'domain-1'],
+        }),
+        makeTable('invoices', 'domain-2', { data_level: 'gold' }),
+      ]);
+      useModelStore.getState().setSelectedDomain('domain-1');
+      useModelStore.getState().setSelectedDataLevel(null);
+    });
 
+    it('should filter by domain visibility and data level', () => {
+      useModelStore.getState().setCurrentView('operational');
+      expect(
+        useModelStore
+          .getState()
+          .getFilteredTables()
+          .map((t) => t.id)
+      ).toEqual(['orders', 'customers']);
 
+      useModelStore.getState().setCurrentView('analytical');
+      expect(
+        useModelStore
+          .getState()
+          .getFilteredTables()
+          .map((t) => t.id)
+      ).toEqual(['orders_bronze']);
+    });
+
+    it('should return the same array until its inputs change', () => {
+      useModelStore.getState().setCurrentView('operational');
+      const first = useModelStore.getState().getFilteredTables();
+      expect(useModelStore.getState().getFilteredTables()).toBe(first);
+
+      useModelStore.getState().setSelectedDomain('domain-2');
+      const second = useModelStore.getState().getFilteredTables();
+      expect(second).not.toBe(first);
+      expect(second.map((t) => t.id)).toEqual(['customers']);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { computeLayout, getBounds, type LayoutNode, type LayoutEdge } from '@/utils/autoLayout';
+
+const node = (id: string, x = 0, y = 0, group?: string): LayoutNode => ({
+  id,
+  position: { x, y },
+  width: 200,
+  height: 100,
+  group,
+  label: id,
+});
+
+const overlaps = (nodes: LayoutNode[], positions: Record<string, { x: number; y: number }>) => {
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = positions[nodes[i]!.id]!;
+      const b = positions[nodes[j]!.id]!;
+      if (
+        a.x < b.x + nodes[j]!.width &&
+        b.x < a.x + nodes[i]!.width &&
+        a.y < b.y + nodes[j]!.height &&
+        b.y < a.y + nodes[i]!.height
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
+
+describe('computeLayout', () => {
+  it('returns an empty result for no nodes', () => {
+    expect(computeLayout([], [], { strategy: 'grid' })).toEqual({});
+  });
+
+  it('places referenced tables above the tables that hold the foreign key', () => {
+    const nodes = [node('orders'), node('customers'), node('order_items'), node('products')];
+    const edges: LayoutEdge[] = [
+      { source: 'customers', target: 'orders' },
+      { source: 'orders', target: 'order_items' },
+      { source: 'products', target: 'order_items' },
+    ];
+
+    const positions = computeLayout(nodes, edges, { strategy: 'hierarchical' });
+
+    expect(positions.customers!.y).toBeLessThan(positions.orders!.y);
+    expect(positions.orders!.y).toBeLessThan(positions.order_items!.y);
+    expect(positions.products!.y).toBeLessThan(positions.order_items!.y);
+    expect(overlaps(nodes, positions)).toBe(false);
+  });
+
+  it('terminates on circular relationships', () => {
+    const nodes = [node('a'), node('b'), node('c')];
+    const edges: LayoutEdge[] = [
+      { source: 'a', target: 'b' },
+      { source: 'b', target: 'c' },
+      { source: 'c', target: 'a' },
+    ];
+
+    const positions = computeLayout(nodes, edges, { strategy: 'hierarchical' });
+
+    expect(Object.keys(positions)).toHaveLength(3);
+    expect(overlaps(nodes, positions)).toBe(false);
+  });
+
+  it('arranges nodes in a square grid without overlaps', () => {
+    const nodes = Array.from({ length: 9 }, (_, i) => node(`t${i}`));
+
+    const positions = computeLayout(nodes, [], { strategy: 'grid' });
+
+    const columns = new Set(Object.values(positions).map((p) => p.x));
+    const rows = new Set(Object.values(positions).map((p) => p.y));
+    expect(columns.size).toBe(3);
+    expect(rows.size).toBe(3);
+    expect(overlaps(nodes, positions)).toBe(false);
+  });
+
+  it('separates stacked nodes with the force-directed layout', () => {
+    const nodes = Array.from({ length: 6 }, (_, i) => node(`t${i}`, 100, 100));
+    const edges: LayoutEdge[] = [
+      { source: 't0', target: 't1' },
+      { source: 't1', target: 't2' },
+    ];
+
+    const first = computeLayout(nodes, edges, { strategy: 'force' });
+    const second = computeLayout(nodes, edges, { strategy: 'force' });
+
+    expect(first).toEqual(second); // Deterministic
+    expect(overlaps(nodes, first)).toBe(false);
+  });
+
+  it('keeps nodes of the same system together', () => {
+    const nodes = [
+      node('a1', 0, 0, 'sys-a'),
+      node('b1', 0, 0, 'sys-b'),
+      node('a2', 0, 0, 'sys-a'),
+      node('b2', 0, 0, 'sys-b'),
+      node('loose'),
+    ];
+
+    const positions = computeLayout(nodes, [], { strategy: 'cluster' });
+
+    const boundsA = getBounds([nodes[0]!, nodes[2]!], positions);
+    const boundsB = getBounds([nodes[1]!, nodes[3]!], positions);
+    const disjoint =
+      boundsA.x + boundsA.width <= boundsB.x ||
+      boundsB.x + boundsB.width <= boundsA.x ||
+      boundsA.y + boundsA.height <= boundsB.y ||
+      boundsB.y + boundsB.height <= boundsA.y;
+    expect(disjoint).toBe(true);
+    expect(overlaps(nodes, positions)).toBe(false);
+  });
+
+  it('keeps the laid-out block at the original top-left corner', () => {
+    const nodes = [node('a', 500, 300), node('b', 900, 700), node('c', 650, 450)];
+
+    const positions = computeLayout(nodes, [{ source: 'a', target: 'b' }], {
+      strategy: 'hierarchical',
+    });
+
+    const bounds = getBounds(nodes, positions);
+    expect(bounds.x).toBe(500);
+    expect(bounds.y).toBe(300);
+  });
+
+  it('ignores edges to nodes outside the layout (selection only)', () => {
+    const nodes = [node('a'), node('b')];
+
+    const positions = computeLayout(
+      nodes,
+      [
+        { source: 'outside', target: 'a' },
+        { source: 'a', target: 'b' },
+      ],
+      { strategy: 'hierarchical' }
+    );
+
+    expect(Object.keys(positions).sort()).toEqual(['a', 'b']);
+    expect(positions.a!.y).toBeLessThan(positions.b!.y);
+  });
+
+  it('surrounds each fact with its dimensions, including those behind a bridge', () => {
+    const nodes: LayoutNode[] = [
+      { ...node('sales'), role: 'fact' },
+      { ...node('customer'), role: 'dimension' },
+      { ...node('date'), role: 'dimension' },
+      { ...node('sales_account'), role: 'bridge' },
+      { ...node('account'), role: 'dimension' },
+      node('unrelated'),
+    ];
+    const edges: LayoutEdge[] = [
+      { source: 'customer', target: 'sales' },
+      { source: 'date', target: 'sales' },
+      { source: 'sales_account', target: 'sales' },
+      { source: 'account', target: 'sales_account' },
+    ];
+
+    const positions = computeLayout(nodes, edges, { strategy: 'star' });
+
+    const center = (id: string) => ({ x: positions[id]!.x + 100, y: positions[id]!.y + 50 });
+    const distance = (a: string, b: string) =>
+      Math.hypot(center(a).x - center(b).x, center(a).y - center(b).y);
+    const ring = ['customer', 'date', 'sales_account', 'account'];
+    ring.forEach((id) => expect(distance('sales', id)).toBeCloseTo(distance('sales', 'customer')));
+    expect(positions.unrelated!.y).toBeGreaterThan(Math.max(...ring.map((id) => positions[id]!.y)));
+    expect(overlaps(nodes, positions)).toBe(false);
+  });
+
+  it('falls back to the hierarchical layout without facts', () => {
+    const nodes = [node('a'), node('b')];
+    const edges: LayoutEdge[] = [{ source: 'a', target: 'b' }];
+
+    expect(computeLayout(nodes, edges, { strategy: 'star' })).toEqual(
+      computeLayout(nodes, edges, { strategy: 'hierarchical' })
+    );
+  });
+});
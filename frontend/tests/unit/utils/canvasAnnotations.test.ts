@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createFrame,
+  getFrameMembers,
+  isInsideFrame,
+  updateViewAnnotations,
+} from '@/utils/canvasAnnotations';
+import type { SubjectAreaFrame, ViewAnnotations } from '@/types/domain';
+
+const frame: SubjectAreaFrame = {
+  id: 'frame-1',
+  title: 'Orders',
+  color: '#3b82f6',
+  x: 0,
+  y: 0,
+  width: 500,
+  height: 300,
+};
+
+describe('canvasAnnotations', () => {
+  it('uses the node header to decide frame membership', () => {
+    expect(isInsideFrame(frame, { x: 100, y: 100 })).toBe(true);
+    // Header outside the frame even though the node may overlap it
+    expect(isInsideFrame(frame, { x: -100, y: 100 })).toBe(false);
+    expect(isInsideFrame(frame, { x: 490, y: 100 })).toBe(false);
+  });
+
+  it('returns model nodes inside a frame, excluding annotations', () => {
+    const members = getFrameMembers(frame, [
+      { id: 'orders', type: 'table', position: { x: 50, y: 60 } },
+      { id: 'customers', type: 'table', position: { x: 800, y: 60 } },
+      { id: 'note-1', type: 'sticky-note', position: { x: 20, y: 20 } },
+      { id: 'frame-2', type: 'subject-area', position: { x: 10, y: 10 } },
+      { id: 'frame-1', type: 'subject-area', position: { x: 0, y: 0 } },
+    ]);
+
+    expect(members).toEqual(['orders']);
+  });
+
+  it('creates frames with rotating colors and rounded positions', () => {
+    const first = createFrame({ x: 10.4, y: 20.6 }, 0);
+    const second = createFrame({ x: 0, y: 0 }, 1);
+
+    expect(first).toMatchObject({ x: 10, y: 21, title: 'Subject area' });
+    expect(first.color).not.toBe(second.color);
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('updates one view immutably and drops empty views', () => {
+    const annotations: ViewAnnotations = {
+      process: { frames: [frame] },
+      analytical: {
+        notes: [{ id: 'n', text: 'hi', color: '#fef08a', x: 0, y: 0, width: 1, height: 1 }],
+      },
+    };
+
+    const updated = updateViewAnnotations(annotations, 'process', (c) => ({
+      ...c,
+      frames: c.frames.map((f) => ({ ...f, collapsed: true })),
+    }));
+    expect(updated.process?.frames?.[0]?.collapsed).toBe(true);
+    expect(annotations.process?.frames?.[0]?.collapsed).toBeUndefined();
+    expect(updated.analytical).toBe(annotations.analytical);
+
+    const removed = updateViewAnnotations(updated, 'process', (c) => ({ ...c, frames: [] }));
+    expect(removed).not.toHaveProperty('process');
+    expect(Object.keys(removed)).toEqual(['analytical']);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildCanvasDiff } from '@/utils/canvasDiff';
+import { diffWorkspaces } from '@/utils/workspaceDiff';
+import type { Column, Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+
+const column = (id: string, name: string, props: Partial<Column> = {}): Column =>
+  ({
+    id,
+    table_id: 't',
+    name,
+    data_type: 'string',
+    nullable: true,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    created_at: '',
+    ...props,
+  }) as Column;
+
+const table = (id: string, name: string, columns: Column[] = []) =>
+  ({ id, name, columns, model_type: 'physical' }) as Table;
+
+const relationship = (id: string, targetId: string) =>
+  ({
+    id,
+    source_id: 'orders',
+    target_id: targetId,
+    source_cardinality: 'N',
+    target_cardinality: '1',
+  }) as Relationship;
+
+describe('buildCanvasDiff', () => {
+  it('marks changed tables and columns and keeps removed ones for ghosts', () => {
+    const baseline = {
+      tables: [
+        table('orders', 'orders', [
+          column('c1', 'id'),
+          column('c2', 'amount'),
+          column('c4', 'old'),
+        ]),
+        table('legacy', 'legacy'),
+      ],
+      relationships: [relationship('r1', 'legacy')],
+    };
+    const current = {
+      tables: [
+        table('orders', 'orders', [
+          column('c1', 'id'),
+          column('c2', 'amount', { data_type: 'decimal' }),
+          column('c3', 'note'),
+        ]),
+        table('customers', 'customers'),
+      ],
+      relationships: [relationship('r2', 'customers')],
+    };
+
+    const diff = buildCanvasDiff(diffWorkspaces(baseline, current), baseline);
+
+    expect(diff.tables.get('orders')).toEqual({
+      kind: 'modified',
+      columns: { c2: 'modified', c3: 'added' },
+      removedColumns: ['old'],
+    });
+    expect(diff.tables.get('customers')?.kind).toBe('added');
+    expect(diff.tables.get('legacy')?.kind).toBe('removed');
+    expect(diff.resources.get('r1')).toBe('removed');
+    expect(diff.resources.get('r2')).toBe('added');
+    expect(diff.removedTables.map((t) => t.id)).toEqual(['legacy']);
+    expect(diff.removedRelationships.map((r) => r.id)).toEqual(['r1']);
+  });
+
+  it('returns no marks when nothing changed', () => {
+    const workspace = {
+      tables: [table('orders', 'orders', [column('c1', 'id')])],
+      relationships: [],
+    };
+
+    const diff = buildCanvasDiff(diffWorkspaces(workspace, workspace), workspace);
+
+    expect(diff.tables.size).toBe(0);
+    expect(diff.resources.size).toBe(0);
+    expect(diff.removedTables).toEqual([]);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getEffectiveModelType,
+  getLevelOfDetail,
+  LOD_KEYS_ZOOM,
+  LOD_TITLE_ZOOM,
+} from '@/utils/canvasLod';
+
+describe('canvasLod', () => {
+  it('lowers detail as the canvas zooms out', () => {
+    expect(getLevelOfDetail(1)).toBe('full');
+    expect(getLevelOfDetail(LOD_KEYS_ZOOM)).toBe('full');
+    expect(getLevelOfDetail(LOD_KEYS_ZOOM - 0.01)).toBe('keys');
+    expect(getLevelOfDetail(LOD_TITLE_ZOOM)).toBe('keys');
+    expect(getLevelOfDetail(LOD_TITLE_ZOOM - 0.01)).toBe('title');
+  });
+
+  it('never shows more than the view model type', () => {
+    expect(getEffectiveModelType('physical', 'full')).toBe('physical');
+    expect(getEffectiveModelType('physical', 'keys')).toBe('logical');
+    expect(getEffectiveModelType('logical', 'keys')).toBe('logical');
+    expect(getEffectiveModelType('logical', 'title')).toBe('conceptual');
+    expect(getEffectiveModelType('conceptual', 'full')).toBe('conceptual');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCssColor,
+  sceneToSvg,
+  captureCanvasScene,
+  type ScenePrimitive,
+} from '@/utils/canvasVectorExport';
+
+describe('canvasVectorExport', () => {
+  describe('parseCssColor', () => {
+    it('parses hex and rgb colors', () => {
+      expect(parseCssColor('#3b82f6')).toEqual({ r: 59, g: 130, b: 246, a: 1 });
+      expect(parseCssColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+      expect(parseCssColor('rgb(10, 20, 30)')).toEqual({ r: 10, g: 20, b: 30, a: 1 });
+      expect(parseCssColor('rgba(10, 20, 30, 0.5)')).toEqual({ r: 10, g: 20, b: 30, a: 0.5 });
+    });
+
+    it('converts oklch colors to sRGB', () => {
+      const white = parseCssColor('oklch(1 0 0)');
+      expect(white).toMatchObject({ r: 255, g: 255, b: 255 });
+      // Tailwind v4 blue-500
+      const blue = parseCssColor('oklch(62.3% 0.214 259.815)')!;
+      expect(blue.b).toBeGreaterThan(200);
+      expect(blue.r).toBeLessThan(80);
+    });
+
+    it('treats transparent and none as no paint', () => {
+      expect(parseCssColor('transparent')).toBeNull();
+      expect(parseCssColor('none')).toBeNull();
+      expect(parseCssColor('rgba(0, 0, 0, 0)')).toBeNull();
+    });
+  });
+
+  describe('sceneToSvg', () => {
+    const primitives: ScenePrimitive[] = [
+      { type: 'path', d: 'M 0 0 L 100 0', stroke: { r: 0, g: 0, b: 0, a: 1 }, strokeWidth: 2 },
+      {
+        type: 'group',
+        clip: { x: 10, y: 10, width: 80, height: 40 },
+        children: [
+          {
+            type: 'text',
+            x: 12,
+            y: 30,
+            text: 'orders <fact>',
+            fontSize: 12,
+            bold: true,
+            fill: { r: 17, g: 24, b: 39, a: 1 },
+          },
+        ],
+      },
+    ];
+
+    it('keeps text and edges as vector elements', () => {
+      const svg = sceneToSvg(primitives, { x: 0, y: 0, width: 200, height: 100 });
+
+      expect(svg).toContain(
+        '<path d="M 0 0 L 100 0" fill="none" stroke="#000000" stroke-width="2"/>'
+      );
+      expect(svg).toContain('font-weight="bold"');
+      expect(svg).toContain('orders &lt;fact&gt;</text>');
+      expect(svg).toMatch(/<clipPath id="clip-\d+"><rect x="10" y="10" width="80" height="40"\/>/);
+      expect(svg).toContain('viewBox="0 0 200 100"');
+    });
+
+    it('appends a title block with the notation legend', () => {
+      const svg = sceneToSvg(
+        primitives,
+        { x: 0, y: 0, width: 400, height: 100 },
+        {
+          titleBlock: { title: 'Sales – conceptual view', date: '2026-01-01' },
+          includeLegend: true,
+        }
+      );
+
+      expect(svg).toContain('Sales – conceptual view');
+      expect(svg).toContain('Zero or many');
+      expect(svg).toContain('viewBox="0 0 400 200"');
+    });
+
+    it('draws the legend in the chosen notation', () => {
+      const svg = sceneToSvg(
+        primitives,
+        { x: 0, y: 0, width: 400, height: 100 },
+        { titleBlock: { title: 'Sales' }, includeLegend: true, notation: 'chen' }
+      );
+
+      expect(svg).toContain('Legend (Chen)');
+      expect(svg).toContain('(0,N)</text>');
+    });
+  });
+
+  describe('captureCanvasScene', () => {
+    it('captures edge paths and cardinality markers as primitives', () => {
+      const root = document.createElement('div');
+      root.className = 'react-flow';
+      root.innerHTML = `
+        <svg class="react-flow__edges">
+          <g class="react-flow__edge">
+            <path d="M 0 0 Q 50 0 100 50" stroke="#64748b" stroke-width="2" fill="none"></path>
+            <g transform="translate(100, 50)">
+              <line x1="0" y1="-6" x2="0" y2="6" stroke="#64748b"></line>
+              <circle cx="-8" cy="0" r="4" stroke="#64748b" fill="white"></circle>
+            </g>
+          </g>
+        </svg>`;
+      document.body.appendChild(root);
+
+      const primitives = captureCanvasScene(root, { x: 0, y: 0, zoom: 1 });
+      document.body.removeChild(root);
+
+      expect(primitives[0]).toMatchObject({ type: 'path', d: 'M 0 0 Q 50 0 100 50' });
+      const marker = primitives[1] as Extract<ScenePrimitive, { type: 'group' }>;
+      expect(marker).toMatchObject({ type: 'group', tx: 100, ty: 50 });
+      expect(marker.children.map((c) => c.type)).toEqual(['path', 'circle']);
+    });
+  });
+});
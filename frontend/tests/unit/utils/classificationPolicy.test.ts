@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSensitivityDashboard,
+  checkClassificationPolicy,
+  describeClassificationFinding,
+} from '@/utils/classificationPolicy';
+import type { Column, Table } from '@/types/table';
+import type { Domain } from '@/types/domain';
+import type { Relationship } from '@/types/relationship';
+import type { System } from '@/types/system';
+import type { DataProduct } from '@/types/odps';
+
+const column = (tableId: string, name: string, extra: Partial<Column> = {}): Column =>
+  ({ id: `${tableId}.${name}`, table_id: tableId, name, data_type: 'VARCHAR', ...extra }) as Column;
+
+const table = (id: string, columns: Column[], domainId = 'crm'): Table =>
+  ({ id, name: id, primary_domain_id: domainId, columns }) as unknown as Table;
+
+const tables = [
+  table('customers', [
+    column('customers', 'id', { classification: 'internal', criticalDataElement: true }),
+    column('customers', 'email', { classification: 'pii' }),
+  ]),
+  table('orders', [
+    column('orders', 'customer_id'),
+    column('orders', 'note', { classification: 'Team-only' }),
+  ]),
+  table(
+    'customer_emails',
+    [
+      column('customer_emails', 'email', {
+        classification: 'public',
+        transformSourceObjects: ['customers.email'],
+      }),
+      column('customer_emails', 'email_hash', {
+        classification: 'restricted',
+        transformSourceObjects: ['customers.email'],
+      }),
+      column('customer_emails', 'note', { transformSourceObjects: ['orders.note'] }),
+    ],
+    'marketing'
+  ),
+];
+
+const relationships = [
+  {
+    id: 'r1',
+    source_table_id: 'orders',
+    target_table_id: 'customers',
+    source_key: 'orders.customer_id',
+    target_key: 'customers.id',
+  } as Relationship,
+];
+
+const domains = [
+  { id: 'crm', name: 'CRM' } as Domain,
+  { id: 'marketing', name: 'Marketing' } as Domain,
+];
+
+describe('checkClassificationPolicy', () => {
+  it('flags columns classified lower than their lineage and relationship sources', () => {
+    const findings = checkClassificationPolicy({ tables, relationships, domains });
+
+    expect(
+      findings.map((f) => [f.kind, f.severity, f.columnId, f.requiredClassification, f.via])
+    ).toEqual([
+      ['under-classified', 'error', 'customer_emails.email', 'pii', 'lineage'],
+      ['critical-data-element', 'info', 'orders.customer_id', undefined, 'relationship'],
+      ['under-classified', 'warning', 'orders.customer_id', 'internal', 'relationship'],
+    ]);
+    // Custom classifications are not ranked, and more sensitive targets are fine
+    expect(findings.some((f) => f.columnId === 'customer_emails.note')).toBe(false);
+    expect(findings.some((f) => f.columnId === 'customer_emails.email_hash')).toBe(false);
+  });
+
+  it('propagates through intermediate columns and names the original source', () => {
+    const chain = [
+      ...tables,
+      table('newsletter', [
+        column('newsletter', 'address', { transformSourceObjects: ['customer_emails.email'] }),
+      ]),
+    ];
+    const finding = checkClassificationPolicy({ tables: chain, relationships: [], domains }).find(
+      (f) => f.columnId === 'newsletter.address'
+    );
+
+    expect(finding).toMatchObject({ sourceTableName: 'customers', sourceColumnName: 'email' });
+    expect(describeClassificationFinding(finding!)).toBe(
+      'Column "address" is Unclassified but is fed by PII column customers.email'
+    );
+  });
+});
+
+describe('buildSensitivityDashboard', () => {
+  it('counts columns per classification for domains, systems and data products', () => {
+    const dashboard = buildSensitivityDashboard({
+      tables,
+      domains,
+      systems: [{ id: 's1', name: 'CRM DB', table_ids: ['customers', 'orders'] } as System],
+      products: [
+        {
+          id: 'dp',
+          name: 'Marketing Data',
+          linked_tables: ['customer_emails'],
+          input_ports: [{ name: 'customers', table_id: 'customers' }],
+        } as unknown as DataProduct,
+      ],
+    });
+
+    expect(dashboard.totals).toMatchObject({
+      total: 7,
+      critical: 1,
+      highest: 'restricted',
+      counts: { internal: 1, pii: 1, public: 1, restricted: 1, 'team-only': 1, unclassified: 2 },
+    });
+    expect(dashboard.byDomain.map((r) => [r.name, r.total, r.highest])).toEqual([
+      ['CRM', 4, 'pii'],
+      ['Marketing', 3, 'restricted'],
+    ]);
+    expect(dashboard.bySystem[0]?.counts).toEqual({
+      internal: 1,
+      pii: 1,
+      unclassified: 1,
+      'team-only': 1,
+    });
+    expect(dashboard.byProduct[0]).toMatchObject({ total: 5, highest: 'restricted' });
+  });
+});
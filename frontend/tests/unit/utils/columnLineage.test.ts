@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildColumnLineage,
+  exportLineageToOpenLineage,
+  findLineagePath,
+  getLineageDatasetColumns,
+  metricFieldNodeId,
+  traceColumnLineage,
+} from '@/utils/columnLineage';
+import type { Column, Table } from '@/types/table';
+import type { Domain } from '@/types/domain';
+import type { MetricView } from '@/types/metricView';
+import type { DataProduct } from '@/types/odps';
+
+const column = (tableId: string, name: string, extra: Partial<Column> = {}): Column =>
+  ({
+    id: `${tableId}.${name}`,
+    table_id: tableId,
+    name,
+    data_type: 'VARCHAR',
+    nullable: true,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    ...extra,
+  }) as Column;
+
+const table = (
+  id: string,
+  level: string,
+  columns: Column[],
+  domainId = 'sales',
+  customProperties?: Table['customProperties']
+): Table =>
+  ({
+    id,
+    name: id,
+    primary_domain_id: domainId,
+    data_level: level,
+    columns: columns.map((c, order) => ({ ...c, order })),
+    customProperties,
+  }) as unknown as Table;
+
+const tables = [
+  table('orders_raw', 'bronze', [column('orders_raw', 'order_id'), column('orders_raw', 'amount')]),
+  table(
+    'orders',
+    'silver',
+    [
+      column('orders', 'order_id', { transformSourceObjects: ['orders_raw.order_id'] }),
+      column('orders', 'amount_eur', {
+        transformSourceObjects: ['main.bronze.orders_raw.amount', 'fx_rates.rate'],
+        transformLogic: 'amount * rate',
+      }),
+    ],
+    'sales',
+    [
+      { property: 'catalog', value: 'main' } as never,
+      { property: 'schema', value: 'silver' } as never,
+    ]
+  ),
+  table('orders_summary', 'gold', [column('orders_summary', 'amount_eur')]),
+];
+
+const domains = [
+  {
+    id: 'sales',
+    name: 'Sales',
+    transformation_links: [
+      { id: 'l1', source_table_id: 'orders', target_table_id: 'orders_summary' },
+    ],
+  } as unknown as Domain,
+];
+
+const metricViews = [
+  {
+    id: 'mv',
+    domain_id: 'sales',
+    name: 'revenue',
+    view_type: 'standard',
+    source: 'orders_summary',
+    dimensions: [],
+    measures: [
+      { name: 'revenue', expr: 'SUM(amount_eur)' },
+      { name: 'revenue_k', expr: 'MEASURE(revenue) / 1000' },
+    ],
+  } as unknown as MetricView,
+];
+
+const products = [
+  { id: 'dp', domain_id: 'sales', name: 'Sales Data', linked_tables: ['orders_summary'] },
+] as unknown as DataProduct[];
+
+const graph = buildColumnLineage({ tables, domains, metricViews, products });
+
+describe('buildColumnLineage', () => {
+  it('links columns from transform sources, transformation links, metric views and products', () => {
+    const edges = graph.edges.map((e) => `${e.kind}:${e.from}->${e.to}`);
+
+    expect(edges).toEqual([
+      'transform:orders_raw.order_id->orders.order_id',
+      'transform:orders_raw.amount->orders.amount_eur',
+      'transformation-link:orders.amount_eur->orders_summary.amount_eur',
+      `metric:orders_summary.amount_eur->${metricFieldNodeId('mv', 'revenue')}`,
+      `metric:${metricFieldNodeId('mv', 'revenue')}->${metricFieldNodeId('mv', 'revenue_k')}`,
+      'product:orders_summary.amount_eur->dp',
+    ]);
+    expect(graph.edges[1]?.logic).toBe('amount * rate');
+    expect(graph.unresolved).toEqual([{ nodeId: 'orders.amount_eur', reference: 'fx_rates.rate' }]);
+  });
+
+  it('orders datasets by stage from operational to data products', () => {
+    const columns = getLineageDatasetColumns(graph);
+
+    expect(
+      ['orders_raw', 'orders', 'orders_summary', 'mv', 'dp'].map((id) => columns.get(id))
+    ).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe('tracing', () => {
+  it('traces upstream and downstream of a column', () => {
+    const upstream = traceColumnLineage(graph, 'orders_summary.amount_eur', 'upstream');
+    const downstream = traceColumnLineage(graph, 'orders_summary.amount_eur', 'downstream');
+
+    expect([...upstream.distances]).toEqual([
+      ['orders_summary.amount_eur', 0],
+      ['orders.amount_eur', 1],
+      ['orders_raw.amount', 2],
+    ]);
+    expect([...downstream.distances.keys()]).toEqual([
+      'orders_summary.amount_eur',
+      'mv:revenue',
+      'dp',
+      'mv:revenue_k',
+    ]);
+  });
+
+  it('highlights only the paths between two columns', () => {
+    const path = findLineagePath(graph, 'orders_raw.amount', 'mv:revenue_k');
+
+    expect([...path.nodeIds]).toEqual([
+      'orders_raw.amount',
+      'orders.amount_eur',
+      'orders_summary.amount_eur',
+      'mv:revenue',
+      'mv:revenue_k',
+    ]);
+    expect(path.edgeIds.size).toBe(4);
+    expect(findLineagePath(graph, 'mv:revenue_k', 'orders_raw.amount').nodeIds.size).toBe(0);
+  });
+});
+
+describe('exportLineageToOpenLineage', () => {
+  it('emits schema and column lineage facets with qualified dataset names', () => {
+    const datasets = exportLineageToOpenLineage(graph, 'urn:odm:workspace:ws');
+    const orders = datasets.find((d) => d.name === 'main.silver.orders');
+    const view = datasets.find((d) => d.name === 'revenue');
+
+    expect(datasets.some((d) => d.name === 'Sales Data')).toBe(false);
+    expect(orders?.facets.schema.fields.map((f) => f.name)).toEqual(['order_id', 'amount_eur']);
+    expect(orders?.facets.columnLineage?.fields.amount_eur?.inputFields).toEqual([
+      {
+        namespace: 'urn:odm:workspace:ws',
+        name: 'orders_raw',
+        field: 'amount',
+        transformations: [
+          { type: 'DIRECT', subtype: 'TRANSFORMATION', description: 'amount * rate' },
+        ],
+      },
+    ]);
+    expect(
+      view?.facets.columnLineage?.fields.revenue?.inputFields[0]?.transformations[0]?.subtype
+    ).toBe('AGGREGATION');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bumpVersion,
+  combinedBump,
+  compareDataTypes,
+  compareTableContracts,
+} from '@/utils/contractCompatibility';
+import type { Column, Table } from '@/types/table';
+
+const column = (name: string, extra: Partial<Column> = {}): Column =>
+  ({
+    id: name,
+    table_id: 'orders',
+    name,
+    data_type: 'VARCHAR(100)',
+    nullable: true,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    ...extra,
+  }) as Column;
+
+const table = (columns: Column[], version = '1.2.3', extra: Partial<Table> = {}): Table =>
+  ({
+    id: 'orders',
+    name: 'orders',
+    columns: columns.map((c, order) => ({ ...c, order })),
+    metadata: { version },
+    ...extra,
+  }) as unknown as Table;
+
+const before = table([
+  column('id', { data_type: 'INT', nullable: false, is_primary_key: true }),
+  column('status', { constraints: { validValues: ['open', 'paid', 'void'] } }),
+  column('note'),
+  column('amount', { data_type: 'DECIMAL(10,2)' }),
+]);
+
+describe('compareDataTypes', () => {
+  it('tells widened from narrowed and incompatible types', () => {
+    expect(compareDataTypes('INT', 'BIGINT')).toBe('widened');
+    expect(compareDataTypes('INTEGER', 'int')).toBe('same');
+    expect(compareDataTypes('BIGINT', 'INT')).toBe('narrowed');
+    expect(compareDataTypes('VARCHAR(100)', 'VARCHAR(50)')).toBe('narrowed');
+    expect(compareDataTypes('VARCHAR(100)', 'STRING')).toBe('widened');
+    expect(compareDataTypes('DECIMAL(10,2)', 'DECIMAL(12,2)')).toBe('widened');
+    expect(compareDataTypes('DECIMAL(10,2)', 'DECIMAL(10,4)')).toBe('narrowed');
+    expect(compareDataTypes('INT', 'DOUBLE')).toBe('widened');
+    expect(compareDataTypes('DATE', 'VARCHAR(10)')).toBe('changed');
+  });
+});
+
+describe('compareTableContracts', () => {
+  it('classifies breaking changes and suggests a major bump', () => {
+    const after = table([
+      column('id', { data_type: 'BIGINT', nullable: false }),
+      column('status', { nullable: false, constraints: { validValues: ['open', 'paid'] } }),
+      column('amount', { data_type: 'DECIMAL(10,2)' }),
+      column('order_id', { data_type: 'INT', nullable: false, is_primary_key: true }),
+    ]);
+    const report = compareTableContracts(before, after);
+
+    expect(report.changes.map((c) => [c.impact, c.columnName, c.message])).toEqual([
+      ['breaking', undefined, 'Primary key changed from (id) to (order_id)'],
+      ['breaking', 'status', 'Changed from nullable to required'],
+      ['breaking', 'status', 'Valid value(s) removed: void'],
+      ['breaking', 'note', 'Column dropped'],
+      ['additive', 'id', 'Type widened from INT to BIGINT'],
+      ['additive', 'order_id', 'Column added (INT, required)'],
+    ]);
+    expect(report).toMatchObject({
+      impact: 'breaking',
+      bump: 'major',
+      suggestedVersion: '2.0.0',
+      versionBumped: false,
+    });
+  });
+
+  it('suggests a minor bump for additive and a patch bump for cosmetic changes', () => {
+    const additive = compareTableContracts(
+      before,
+      table([...before.columns, column('channel', { description: 'Sales channel' })], '1.3.0')
+    );
+    const cosmetic = compareTableContracts(
+      before,
+      table(
+        before.columns.map((c) => (c.name === 'note' ? { ...c, description: 'Free text' } : c)),
+        '1.2.3',
+        { description: 'All orders' }
+      )
+    );
+
+    expect(additive).toMatchObject({
+      bump: 'minor',
+      suggestedVersion: '1.3.0',
+      versionBumped: true,
+    });
+    expect(cosmetic.changes.map((c) => c.message)).toEqual([
+      'Changed description',
+      'Changed table description',
+    ]);
+    expect(cosmetic).toMatchObject({ bump: 'patch', suggestedVersion: '1.2.4' });
+    expect(combinedBump([cosmetic, additive])).toBe('minor');
+  });
+
+  it('treats a removed table as breaking and a renamed column as a drop', () => {
+    expect(compareTableContracts(before, undefined).bump).toBe('major');
+    const renamed = compareTableContracts(
+      before,
+      table(before.columns.map((c) => (c.name === 'note' ? { ...c, name: 'comment' } : c)))
+    );
+    expect(renamed.changes[0]).toMatchObject({
+      impact: 'breaking',
+      message: 'Column renamed from "note"',
+    });
+  });
+});
+
+describe('bumpVersion', () => {
+  it('bumps semantic versions and ignores other version schemes', () => {
+    expect(bumpVersion('v1.9.2', 'minor')).toBe('1.10.0');
+    expect(bumpVersion('2024-01', 'major')).toBeUndefined();
+  });
+});
@@ -10,6 +10,13 @@ import {
   getCatalogSchema,
   RESOURCE_TYPE_KEY,
   getResourceType,
+  DIMENSIONAL_ROLE_KEY,
+  GRAIN_COLUMNS_KEY,
+  SCD_TYPE_KEY,
+  getDimensionalProperties,
+  setDimensionalProperties,
+  getSCDType,
+  setSCDType,
 } from '@/utils/customProperties';
 
 describe('customProperties helpers', () => {
@@ -239,4 +246,58 @@ describe('customProperties helpers', () => {
       expect(getResourceType([{ property: 'resource_type', value: '' }])).toBeUndefined();
     });
   });
+
+  describe('getDimensionalProperties / setDimensionalProperties', () => {
+    it('round-trips role, grain and conformed flag', () => {
+      const props = setDimensionalProperties([{ property: 'status', value: 'active' }], {
+        dimensionalRole: 'dimension',
+        grainColumns: ['customer_id'],
+        conformedDimension: true,
+      });
+      expect(props).toContainEqual({ property: 'status', value: 'active' });
+      expect(getDimensionalProperties(props)).toEqual({
+        dimensionalRole: 'dimension',
+        grainColumns: ['customer_id'],
+        conformedDimension: true,
+      });
+    });
+
+    it('removes cleared values', () => {
+      const props = setDimensionalProperties(
+        [
+          { property: DIMENSIONAL_ROLE_KEY, value: 'fact' },
+          { property: GRAIN_COLUMNS_KEY, value: ['order_id'] },
+        ],
+        {}
+      );
+      expect(props).toEqual([]);
+    });
+
+    it('ignores invalid values', () => {
+      expect(
+        getDimensionalProperties([
+          { property: DIMENSIONAL_ROLE_KEY, value: 'cube' },
+          { property: GRAIN_COLUMNS_KEY, value: 'order_id' },
+        ])
+      ).toEqual({});
+    });
+  });
+
+  describe('getSCDType / setSCDType', () => {
+    it('round-trips the SCD type', () => {
+      expect(getSCDType(setSCDType([], 2))).toBe(2);
+      expect(getSCDType(setSCDType([], 0))).toBe(0);
+    });
+
+    it('removes the SCD type when cleared', () => {
+      expect(setSCDType([{ property: SCD_TYPE_KEY, value: 2 }], undefined)).toEqual([]);
+    });
+
+    it('accepts numeric strings and ignores invalid values', () => {
+      expect(getSCDType([{ property: SCD_TYPE_KEY, value: '6' }])).toBe(6);
+      expect(getSCDType([{ property: SCD_TYPE_KEY, value: 5 }])).toBeUndefined();
+      expect(getSCDType([{ property: SCD_TYPE_KEY, value: null }])).toBeUndefined();
+      expect(getSCDType(undefined)).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import {
+  businessKeyColumns,
+  generateDataVault,
+  getDataVaultTrace,
+  type DataVaultContext,
+  type DataVaultOptions,
+} from '@/utils/dataVault';
+import type { Column, Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+import type { System } from '@/types/system';
+
+const column = (tableId: string, name: string, props: Partial<Column> = {}): Column =>
+  ({
+    id: `${tableId}.${name}`,
+    table_id: tableId,
+    name,
+    data_type: 'string',
+    nullable: false,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    created_at: '',
+    ...props,
+  }) as Column;
+
+const table = (name: string, columns: Column[], props: Partial<Table> = {}): Table =>
+  ({
+    id: name,
+    workspace_id: 'ws',
+    primary_domain_id: 'd',
+    name,
+    model_type: 'logical',
+    columns,
+    visible_domains: ['d'],
+    is_owned_by_domain: true,
+    position_x: 0,
+    position_y: 0,
+    width: 200,
+    height: 100,
+    created_at: '',
+    last_modified_at: '',
+    ...props,
+  }) as Table;
+
+const customer = table(
+  'Customer',
+  [
+    column('Customer', 'customer_number', { is_primary_key: true }),
+    column('Customer', 'name', { tags: [{ key: 'change_rate', value: 'low' }] }),
+    column('Customer', 'status', { tags: [{ value: 'change_rate:high' }] }),
+  ],
+  { metadata: { system_id: 'crm' } }
+);
+const order = table('Order', [
+  column('Order', 'id', { is_primary_key: true, data_type: 'long', description: 'Surrogate key' }),
+  column('Order', 'order_number', { tags: [{ value: 'business_key' }] }),
+  column('Order', 'customer_number', { is_foreign_key: true }),
+  column('Order', 'total', { data_type: 'decimal' }),
+]);
+const placed = {
+  id: 'rel',
+  source_id: 'Customer',
+  target_id: 'Order',
+  type: 'one-to-many',
+} as Relationship;
+
+const context = (overrides: Partial<DataVaultContext> = {}): DataVaultContext => ({
+  tables: [customer, order],
+  relationships: [placed],
+  systems: [{ id: 'crm', name: 'CRM' } as System],
+  transformationLinks: [],
+  ...overrides,
+});
+
+const options: DataVaultOptions = { satelliteSplit: 'none', hashAlgorithm: 'MD5' };
+
+describe('dataVault', () => {
+  it('prefers tagged business keys over surrogate primary keys', () => {
+    expect(businessKeyColumns(customer).map((c) => c.name)).toEqual(['customer_number']);
+    expect(businessKeyColumns(order).map((c) => c.name)).toEqual(['order_number']);
+  });
+
+  it('generates hubs, links and satellites with the standard columns', () => {
+    const result = generateDataVault([customer, order], context(), options);
+
+    expect(result.created.map((t) => t.name)).toEqual([
+      'hub_customer',
+      'sat_customer',
+      'hub_order',
+      'sat_order',
+      'lnk_customer_order',
+    ]);
+    const [hub, sat, , , link] = result.created;
+    expect(hub!.columns.map((c) => c.name)).toEqual([
+      'hk_customer',
+      'customer_number',
+      'load_dts',
+      'record_source',
+    ]);
+    expect(hub!.columns[0]).toMatchObject({
+      is_primary_key: true,
+      transformLogic: 'MD5(UPPER(TRIM(CAST(customer_number AS VARCHAR))))',
+      transformSourceObjects: ['Customer.customer_number'],
+    });
+    expect(hub!.columns[3]!.transformLogic).toBe("'CRM'");
+    expect(hub!.tags).toEqual(['data_vault:hub', 'dm_level:Silver']);
+    expect(hub!.data_level).toBe('silver');
+
+    expect(sat!.columns.map((c) => c.name)).toEqual([
+      'hk_customer',
+      'load_dts',
+      'hashdiff',
+      'record_source',
+      'name',
+      'status',
+    ]);
+    expect(sat!.compoundKeys?.[0]?.column_ids).toEqual([sat!.columns[0]!.id, sat!.columns[1]!.id]);
+    // Foreign key columns belong to links, not satellites
+    expect(result.created[3]!.columns.map((c) => c.name)).not.toContain('customer_number');
+
+    expect(link!.columns.map((c) => c.name)).toEqual([
+      'hk_customer_order',
+      'hk_customer',
+      'hk_order',
+      'load_dts',
+      'record_source',
+    ]);
+    expect(getDataVaultTrace(link!)).toMatchObject({
+      kind: 'link',
+      source_table_ids: ['Customer', 'Order'],
+      source_relationship_id: 'rel',
+    });
+
+    // Hub → satellite and hub → link relationships
+    expect(result.relationships.map((r) => [r.source_id, r.target_id])).toEqual([
+      [hub!.id, sat!.id],
+      [result.created[2]!.id, result.created[3]!.id],
+      [hub!.id, link!.id],
+      [result.created[2]!.id, link!.id],
+    ]);
+    expect(result.transformationLinks).toHaveLength(6);
+    expect(result.transformationLinks[0]).toMatchObject({
+      source_table_id: 'Customer',
+      target_table_id: hub!.id,
+      transformation_type: 'data_vault_hub',
+    });
+  });
+
+  it('splits satellites by rate of change', () => {
+    const result = generateDataVault([customer], context(), {
+      ...options,
+      satelliteSplit: 'rate-of-change',
+    });
+
+    expect(result.created.map((t) => t.name)).toEqual([
+      'hub_customer',
+      'sat_customer_low',
+      'sat_customer_high',
+    ]);
+    expect(getDataVaultTrace(result.created[2]!)?.satellite_group).toBe('high');
+  });
+
+  it('updates previously generated tables when regenerating', () => {
+    const first = generateDataVault([customer], context(), options);
+    const generated = first.created;
+    const changedCustomer = {
+      ...customer,
+      columns: [...customer.columns, column('Customer', 'email')],
+    };
+
+    const second = generateDataVault(
+      [changedCustomer],
+      context({
+        tables: [changedCustomer, ...generated],
+        relationships: first.relationships,
+        transformationLinks: first.transformationLinks,
+      }),
+      options
+    );
+
+    expect(second.created).toEqual([]);
+    expect(second.updated.map((t) => t.id)).toEqual([generated[1]!.id]);
+    expect(second.updated[0]!.columns.map((c) => c.name)).toContain('email');
+    // Column IDs of existing columns are kept
+    expect(second.updated[0]!.columns[0]!.id).toBe(generated[1]!.columns[0]!.id);
+    expect(second.relationships).toEqual([]);
+    expect(second.transformationLinks).toEqual([]);
+    expect(second.stale).toEqual([]);
+  });
+
+  it('warns about tables without a business key', () => {
+    const result = generateDataVault(
+      [table('Log', [column('Log', 'message')])],
+      context(),
+      options
+    );
+
+    expect(result.created).toEqual([]);
+    expect(result.warnings).toEqual(['"Log" has no business key, primary key or unique column']);
+  });
+});
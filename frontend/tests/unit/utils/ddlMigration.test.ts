@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { formatMigrationScript, generateMigration } from '@/utils/ddlMigration';
+import type { Column, Table } from '@/types/table';
+
+const column = (id: string, extra: Partial<Column> = {}): Column =>
+  ({
+    id,
+    table_id: 'orders',
+    name: id,
+    data_type: 'VARCHAR(100)',
+    nullable: true,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    ...extra,
+  }) as Column;
+
+const table = (id: string, columns: Column[], extra: Partial<Table> = {}): Table =>
+  ({
+    id,
+    name: id,
+    columns: columns.map((c, order) => ({ ...c, table_id: id, order })),
+    metadata: {},
+    ...extra,
+  }) as unknown as Table;
+
+const customers = table('customers', [
+  column('customer_id', { data_type: 'INT', nullable: false, is_primary_key: true }),
+]);
+
+const orders = table('orders', [
+  column('id', { data_type: 'INT', nullable: false, is_primary_key: true }),
+  column('amount', { data_type: 'DECIMAL(12,2)' }),
+  column('legacy'),
+  column('cust', { is_foreign_key: true, foreign_key_reference: 'customer_id' }),
+]);
+
+const changedOrders = table(
+  'orders',
+  [
+    column('id', { data_type: 'INT', nullable: false, is_primary_key: true }),
+    column('amount', { data_type: 'DECIMAL(10,2)', nullable: false }),
+    column('cust', {
+      name: 'customer_id',
+      is_foreign_key: true,
+      foreign_key_reference: 'customer_id',
+    }),
+    column('status', { data_type: 'string', default_value: "'open'" }),
+  ],
+  {
+    metadata: {
+      indexes: [{ id: 'i1', name: 'ix_orders_status', column_ids: ['status'], is_unique: false }],
+    },
+  }
+);
+
+const statements = (migration: { statements: string[] }[]) =>
+  migration.flatMap((step) => step.statements);
+
+describe('generateMigration', () => {
+  it('orders PostgreSQL steps so constraints are dropped before and added after column changes', () => {
+    const { steps } = generateMigration(
+      [customers, orders],
+      [customers, changedOrders],
+      'postgresql'
+    );
+
+    expect(statements(steps)).toEqual([
+      'ALTER TABLE orders DROP CONSTRAINT fk_orders_cust;',
+      'ALTER TABLE orders RENAME COLUMN cust TO customer_id;',
+      "ALTER TABLE orders ADD COLUMN status VARCHAR(255) DEFAULT 'open';",
+      'ALTER TABLE orders ALTER COLUMN amount TYPE DECIMAL(10,2) USING amount::DECIMAL(10,2);',
+      'ALTER TABLE orders ALTER COLUMN amount SET NOT NULL;',
+      'ALTER TABLE orders DROP COLUMN legacy;',
+      'ALTER TABLE orders ADD CONSTRAINT fk_orders_customer_id FOREIGN KEY (customer_id) REFERENCES customers (customer_id);',
+      'CREATE INDEX ix_orders_status ON orders (status);',
+    ]);
+    expect(steps.find((s) => s.description === 'Alter column orders.amount')?.warning).toMatch(
+      /Narrows orders\.amount.*fails if it has NULL values/
+    );
+    expect(steps.find((s) => s.description === 'Drop column orders.legacy')?.warning).toBe(
+      'Drops column orders.legacy and its data'
+    );
+  });
+
+  it('generates a rollback that reverts the migration', () => {
+    const { rollback } = generateMigration(
+      [customers, orders],
+      [customers, changedOrders],
+      'postgresql'
+    );
+
+    expect(statements(rollback)).toEqual([
+      'DROP INDEX ix_orders_status;',
+      'ALTER TABLE orders DROP CONSTRAINT fk_orders_customer_id;',
+      'ALTER TABLE orders RENAME COLUMN customer_id TO cust;',
+      'ALTER TABLE orders ADD COLUMN legacy VARCHAR(100);',
+      'ALTER TABLE orders ALTER COLUMN amount TYPE DECIMAL(12,2) USING amount::DECIMAL(12,2);',
+      'ALTER TABLE orders ALTER COLUMN amount DROP NOT NULL;',
+      'ALTER TABLE orders DROP COLUMN status;',
+      'ALTER TABLE orders ADD CONSTRAINT fk_orders_cust FOREIGN KEY (cust) REFERENCES customers (customer_id);',
+    ]);
+  });
+
+  it('creates and drops tables with compound keys in dialect syntax', () => {
+    const lines = table(
+      'order lines',
+      [
+        column('order_id', { data_type: 'INT', nullable: false }),
+        column('line_no', { data_type: 'INT', nullable: false }),
+        column('sku'),
+      ],
+      {
+        compoundKeys: [
+          { id: 'k1', column_ids: ['order_id', 'line_no'], is_primary: true },
+          { id: 'k2', name: 'uq_line_sku', column_ids: ['order_id', 'sku'], is_primary: false },
+        ],
+      }
+    );
+
+    const mssql = generateMigration([orders], [lines], 'mssql');
+    expect(statements(mssql.steps)).toEqual([
+      'DROP TABLE orders;',
+      'CREATE TABLE [order lines] (\n' +
+        '  order_id INT NOT NULL,\n' +
+        '  line_no INT NOT NULL,\n' +
+        '  sku VARCHAR(100),\n' +
+        '  CONSTRAINT [pk_order lines] PRIMARY KEY (order_id, line_no),\n' +
+        '  CONSTRAINT uq_line_sku UNIQUE (order_id, sku)\n' +
+        ');',
+    ]);
+    expect(mssql.steps[0]!.warning).toBe('Drops table orders and all of its data');
+
+    const mysql = generateMigration([lines], [{ ...lines, compoundKeys: [] }], 'mysql');
+    expect(statements(mysql.steps)).toEqual([
+      'ALTER TABLE `order lines` DROP PRIMARY KEY;',
+      'ALTER TABLE `order lines` DROP INDEX uq_line_sku;',
+    ]);
+  });
+
+  it('drops SQL Server default constraints by their names before a rename', () => {
+    const before = table('orders', [
+      column('status', { default_value: "'open'" }),
+      column('note', { default_value: "''" }),
+    ]);
+    const after = table('orders', [column('status', { name: 'state', default_value: "'new'" })], {
+      name: 'sales_orders',
+    });
+
+    expect(statements(generateMigration([before], [after], 'mssql').steps)).toEqual([
+      "EXEC sp_rename 'orders', 'sales_orders';",
+      "EXEC sp_rename 'sales_orders.status', 'state', 'COLUMN';",
+      'ALTER TABLE sales_orders DROP CONSTRAINT df_orders_status;',
+      "ALTER TABLE sales_orders ADD CONSTRAINT df_sales_orders_state DEFAULT 'new' FOR state;",
+      'ALTER TABLE sales_orders DROP CONSTRAINT df_orders_note;',
+      'ALTER TABLE sales_orders DROP COLUMN note;',
+    ]);
+  });
+
+  it('moves SQL Server default constraints out of the way of column changes', () => {
+    const before = table('orders', [
+      column('amount', { data_type: 'INT', default_value: '0' }),
+      column('status', { default_value: "'open'" }),
+    ]);
+    const after = table('orders', [
+      column('amount', { data_type: 'BIGINT', default_value: '0' }),
+      column('status', { default_value: "'open'", nullable: false }),
+    ]);
+
+    expect(statements(generateMigration([before], [after], 'mssql').steps)).toEqual([
+      'ALTER TABLE orders DROP CONSTRAINT df_orders_amount;',
+      'ALTER TABLE orders ALTER COLUMN amount BIGINT NULL;',
+      'ALTER TABLE orders ADD CONSTRAINT df_orders_amount DEFAULT 0 FOR amount;',
+      'ALTER TABLE orders DROP CONSTRAINT df_orders_status;',
+      'ALTER TABLE orders ALTER COLUMN status VARCHAR(100) NOT NULL;',
+      "ALTER TABLE orders ADD CONSTRAINT df_orders_status DEFAULT 'open' FOR status;",
+    ]);
+  });
+
+  it('drops the PostgreSQL default around a type change', () => {
+    const before = table('orders', [column('code', { default_value: "'0'" })]);
+    const kept = table('orders', [column('code', { data_type: 'INT', default_value: "'0'" })]);
+    const changed = table('orders', [column('code', { data_type: 'INT', default_value: '1' })]);
+    const dropped = table('orders', [column('code', { data_type: 'INT' })]);
+    const alter = (after: Table) =>
+      statements(generateMigration([before], [after], 'postgresql').steps);
+
+    expect(alter(kept)).toEqual([
+      'ALTER TABLE orders ALTER COLUMN code DROP DEFAULT;',
+      'ALTER TABLE orders ALTER COLUMN code TYPE INT USING code::INT;',
+      "ALTER TABLE orders ALTER COLUMN code SET DEFAULT '0';",
+    ]);
+    expect(alter(changed).at(-1)).toBe('ALTER TABLE orders ALTER COLUMN code SET DEFAULT 1;');
+    expect(alter(dropped)).toEqual([
+      'ALTER TABLE orders ALTER COLUMN code DROP DEFAULT;',
+      'ALTER TABLE orders ALTER COLUMN code TYPE INT USING code::INT;',
+    ]);
+  });
+
+  it('rebuilds SQLite tables whose columns change', () => {
+    const { steps } = generateMigration([customers, orders], [customers, changedOrders], 'sqlite');
+
+    expect(steps.map((s) => s.description)).toEqual([
+      'Rebuild table orders',
+      'Create index ix_orders_status',
+    ]);
+    expect(steps[0]!.statements[1]).toBe(
+      'INSERT INTO orders__new (id, amount, customer_id)\n  SELECT id, amount, cust FROM orders;'
+    );
+    expect(steps[0]!.warning).toMatch(/Drops the data of legacy$/);
+  });
+
+  it('formats the script with a warning comment per destructive step', () => {
+    const { steps } = generateMigration([customers, orders], [customers], 'databricks');
+
+    expect(formatMigrationScript(steps, 'Migration from main')).toBe(
+      '-- Migration from main\n' +
+        '-- 1 step, 1 with warnings\n' +
+        '\n' +
+        '-- 1. Drop table orders\n' +
+        '-- WARNING: Drops table orders and all of its data\n' +
+        'DROP TABLE orders;\n'
+    );
+    expect(formatMigrationScript([], 'Rollback')).toBe('-- Rollback\n-- No schema changes\n');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildBusMatrix,
+  busMatrixToCsv,
+  describeGrain,
+  scdTypesOf,
+} from '@/utils/dimensionalModel';
+import type { Column, Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+
+const table = (name: string, props: Partial<Table> = {}): Table =>
+  ({
+    id: name,
+    workspace_id: 'ws',
+    primary_domain_id: 'sales',
+    name,
+    model_type: 'physical',
+    columns: [],
+    visible_domains: ['sales'],
+    is_owned_by_domain: true,
+    position_x: 0,
+    position_y: 0,
+    width: 200,
+    height: 100,
+    created_at: '',
+    last_modified_at: '',
+    ...props,
+  }) as Table;
+
+const relationship = (source: string, target: string): Relationship =>
+  ({
+    id: `${source}-${target}`,
+    workspace_id: 'ws',
+    domain_id: 'sales',
+    source_id: source,
+    target_id: target,
+    source_type: 'table',
+    target_type: 'table',
+    created_at: '',
+    last_modified_at: '',
+  }) as Relationship;
+
+const dimension = (name: string, props: Partial<Table> = {}) =>
+  table(name, { dimensionalRole: 'dimension', conformedDimension: true, ...props });
+
+describe('describeGrain', () => {
+  it('prefers the granularity description', () => {
+    expect(
+      describeGrain(
+        table('fct_sales', {
+          grainColumns: ['order_id'],
+          dataGranularityDescription: 'One row per order line',
+        })
+      )
+    ).toBe('One row per order line');
+  });
+
+  it('falls back to the grain columns', () => {
+    expect(describeGrain(table('fct_sales', { grainColumns: ['order_id', 'day'] }))).toBe(
+      'One row per order_id per day'
+    );
+    expect(describeGrain(table('fct_sales'))).toBeUndefined();
+  });
+});
+
+describe('scdTypesOf', () => {
+  it('lists the distinct SCD types of the columns', () => {
+    const columns = [{ scdType: 2 }, { scdType: 1 }, {}, { scdType: 2 }] as Column[];
+    expect(scdTypesOf(table('dim_customer', { columns }))).toEqual([1, 2]);
+  });
+});
+
+describe('buildBusMatrix', () => {
+  const tables = [
+    table('fct_sales', { dimensionalRole: 'fact', grainColumns: ['order_id'] }),
+    table('fct_returns', { dimensionalRole: 'fact' }),
+    table('fct_stock', { dimensionalRole: 'fact', primary_domain_id: 'inventory' }),
+    dimension('dim_date', { primary_domain_id: 'shared' }),
+    dimension('dim_customer'),
+    dimension('dim_account'),
+    table('dim_promotion', { dimensionalRole: 'dimension' }),
+    table('brg_customer_account', { dimensionalRole: 'bridge' }),
+  ];
+  const relationships = [
+    relationship('dim_date', 'fct_sales'),
+    relationship('dim_customer', 'fct_sales'),
+    relationship('dim_promotion', 'fct_sales'),
+    relationship('fct_sales', 'brg_customer_account'),
+    relationship('dim_account', 'brg_customer_account'),
+    relationship('dim_date', 'fct_returns'),
+  ];
+
+  it("crosses the domain's facts with the workspace's conformed dimensions", () => {
+    const matrix = buildBusMatrix(tables, relationships, 'sales');
+
+    expect(matrix.facts.map((t) => t.name)).toEqual(['fct_returns', 'fct_sales']);
+    expect(matrix.dimensions.map((t) => t.name)).toEqual([
+      'dim_account',
+      'dim_customer',
+      'dim_date',
+    ]);
+    expect(matrix.cells.fct_sales).toEqual({
+      dim_account: 'bridge',
+      dim_customer: 'direct',
+      dim_date: 'direct',
+    });
+    expect(matrix.cells.fct_returns).toEqual({ dim_date: 'direct' });
+  });
+
+  it('exports the matrix as CSV', () => {
+    const csv = busMatrixToCsv(buildBusMatrix(tables, relationships, 'sales'));
+
+    expect(csv.trim().split('\n')).toEqual([
+      'Fact,Grain,dim_account,dim_customer,dim_date',
+      'fct_returns,,,,X',
+      'fct_sales,One row per order_id,X (bridge),X,X',
+    ]);
+  });
+});
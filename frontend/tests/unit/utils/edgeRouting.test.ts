@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBendPoints,
+  getRouteBounds,
+  nodesToObstacles,
+  rectsIntersect,
+  routeEdge,
+  normalizeVisualMetadata,
+  polylineMidpoint,
+  routeOrthogonal,
+  routeThroughWaypoints,
+  segmentCrossesRect,
+  simplifyPolyline,
+  STUB_LENGTH,
+  type Point,
+  type Rect,
+} from '@/utils/edgeRouting';
+
+const isOrthogonal = (points: Point[]) =>
+  points.slice(1).every((p, i) => p.x === points[i]!.x || p.y === points[i]!.y);
+
+const crossesAny = (points: Point[], rects: Rect[]) =>
+  points.slice(1).some((p, i) => rects.some((rect) => segmentCrossesRect(points[i]!, p, rect)));
+
+describe('edgeRouting', () => {
+  describe('routeOrthogonal', () => {
+    it('routes a straight line between aligned ports', () => {
+      const points = routeOrthogonal({ x: 0, y: 100 }, 'right', { x: 400, y: 100 }, 'left', []);
+
+      expect(points).toEqual([
+        { x: 0, y: 100 },
+        { x: 400, y: 100 },
+      ]);
+    });
+
+    it('detours around a node between source and target', () => {
+      const blocker: Rect = { x: 150, y: 50, width: 100, height: 100 };
+      const points = routeOrthogonal({ x: 0, y: 100 }, 'right', { x: 400, y: 100 }, 'left', [
+        blocker,
+      ]);
+
+      expect(isOrthogonal(points)).toBe(true);
+      expect(crossesAny(points, [blocker])).toBe(false);
+      expect(points[0]).toEqual({ x: 0, y: 100 });
+      expect(points[points.length - 1]).toEqual({ x: 400, y: 100 });
+    });
+
+    it('leaves and enters perpendicular to the connection side', () => {
+      const points = routeOrthogonal({ x: 100, y: 0 }, 'bottom', { x: 300, y: 300 }, 'top', []);
+
+      expect(points[1]!.x).toBe(100);
+      expect(points[1]!.y).toBeGreaterThanOrEqual(STUB_LENGTH);
+      expect(points[points.length - 2]!.x).toBe(300);
+      expect(isOrthogonal(points)).toBe(true);
+    });
+  });
+
+  describe('routeThroughWaypoints', () => {
+    it('passes through every waypoint with orthogonal segments', () => {
+      const waypoints = [
+        { x: 200, y: 300 },
+        { x: 350, y: 50 },
+      ];
+      const points = routeThroughWaypoints(
+        { x: 0, y: 100 },
+        'right',
+        { x: 500, y: 100 },
+        'left',
+        waypoints
+      );
+
+      expect(isOrthogonal(points)).toBe(true);
+      for (const waypoint of waypoints) {
+        expect(points).toContainEqual(waypoint);
+      }
+    });
+
+    it('reproduces an automatic route from its bend points', () => {
+      const blocker: Rect = { x: 150, y: 50, width: 100, height: 100 };
+      const auto = routeOrthogonal({ x: 0, y: 100 }, 'right', { x: 400, y: 100 }, 'left', [
+        blocker,
+      ]);
+      const fixed = routeThroughWaypoints(
+        { x: 0, y: 100 },
+        'right',
+        { x: 400, y: 100 },
+        'left',
+        getBendPoints(auto)
+      );
+
+      expect(fixed).toEqual(auto);
+    });
+  });
+
+  it('simplifies duplicate and collinear points', () => {
+    expect(
+      simplifyPolyline([
+        { x: 0, y: 0 },
+        { x: 0, y: 0 },
+        { x: 50, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 50 },
+      ])
+    ).toEqual([
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 50 },
+    ]);
+  });
+
+  it('finds the midpoint along the route length', () => {
+    expect(
+      polylineMidpoint([
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 100 },
+      ])
+    ).toEqual({ x: 100, y: 0 });
+  });
+
+  it('ignores hidden and annotation nodes as obstacles', () => {
+    const obstacles = nodesToObstacles([
+      { id: 'table', type: 'table', position: { x: 10, y: 20 }, width: 180, height: 90 },
+      { id: 'frame', type: 'subject-area', position: { x: 0, y: 0 }, width: 600, height: 400 },
+      { id: 'hidden', type: 'table', hidden: true, position: { x: 0, y: 0 } },
+      { id: 'unmeasured', type: 'table', position: { x: 300, y: 0 } },
+    ]);
+
+    expect(obstacles).toEqual([
+      { x: 10, y: 20, width: 180, height: 90 },
+      { x: 300, y: 0, width: 200, height: 150 },
+    ]);
+  });
+
+  it('drops empty visual metadata', () => {
+    expect(normalizeVisualMetadata({ waypoints: [] })).toBeUndefined();
+    expect(normalizeVisualMetadata({ label_position: { x: 1, y: 2 } })).toEqual({
+      label_position: { x: 1, y: 2 },
+    });
+  });
+
+  it('bounds every route so distant edges can be skipped', () => {
+    const source = { x: 0, y: 100 };
+    const target = { x: 400, y: 100 };
+    const obstacles = [{ x: 150, y: 0, width: 100, height: 200 }];
+    const bounds = getRouteBounds({ source, target });
+    const points = routeEdge({
+      source,
+      sourceSide: 'right',
+      target,
+      targetSide: 'left',
+      obstacles,
+    });
+
+    expect(
+      points.every(
+        (p) =>
+          p.x >= bounds.x &&
+          p.x <= bounds.x + bounds.width &&
+          p.y >= bounds.y &&
+          p.y <= bounds.y + bounds.height
+      )
+    ).toBe(true);
+    expect(
+      rectsIntersect(
+        bounds,
+        getRouteBounds({ source: { x: 5000, y: 0 }, target: { x: 5400, y: 0 } })
+      )
+    ).toBe(false);
+  });
+
+  it('routes the same around nearby obstacles regardless of distant ones', () => {
+    const input = {
+      source: { x: 0, y: 100 },
+      sourceSide: 'right' as const,
+      target: { x: 400, y: 100 },
+      targetSide: 'left' as const,
+      obstacles: [{ x: 150, y: 0, width: 100, height: 200 }],
+    };
+    const distant = { x: 10000, y: 10000, width: 200, height: 150 };
+
+    expect(routeEdge({ ...input, obstacles: [...input.obstacles, distant] })).toBe(
+      routeEdge(input)
+    );
+  });
+
+  it('caches obstacles per node array', () => {
+    const nodes = [{ id: 'table', position: { x: 0, y: 0 } }];
+    expect(nodesToObstacles(nodes)).toBe(nodesToObstacles(nodes));
+  });
+});
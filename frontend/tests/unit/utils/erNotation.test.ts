@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyERNotation,
+  getDependentTableIds,
+  getRelationshipEnds,
+  isIdentifyingRelationship,
+  resolveERNotation,
+  splitPolyline,
+} from '@/utils/erNotation';
+import { getSDKCardinalityLabel, SDKCardinality, type Relationship } from '@/types/relationship';
+import type { Column, Table } from '@/types/table';
+
+const column = (id: string, props: Partial<Column> = {}): Column =>
+  ({
+    id,
+    table_id: 't',
+    name: id,
+    data_type: 'INT',
+    nullable: false,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    created_at: '',
+    ...props,
+  }) as Column;
+
+const table = (id: string, columns: Column[]): Table =>
+  ({
+    id,
+    workspace_id: 'ws',
+    primary_domain_id: 'd',
+    name: id,
+    model_type: 'logical',
+    columns,
+    visible_domains: ['d'],
+    position_x: 0,
+    position_y: 0,
+    width: 200,
+    height: 100,
+    created_at: '',
+    last_modified_at: '',
+  }) as Table;
+
+const relationship = (props: Partial<Relationship>): Relationship =>
+  ({
+    id: 'r1',
+    workspace_id: 'ws',
+    domain_id: 'd',
+    source_id: 'orders',
+    target_id: 'order_lines',
+    source_type: 'table',
+    target_type: 'table',
+    type: 'one-to-many',
+    model_type: 'logical',
+    is_circular: false,
+    created_at: '',
+    last_modified_at: '',
+    ...props,
+  }) as Relationship;
+
+describe('erNotation', () => {
+  it('resolves the view override before the workspace default', () => {
+    expect(resolveERNotation(undefined, 'operational')).toBe('crows-foot');
+    expect(resolveERNotation({ default: 'uml' }, 'operational')).toBe('uml');
+    expect(resolveERNotation({ default: 'uml', views: { analytical: 'chen' } }, 'analytical')).toBe(
+      'chen'
+    );
+  });
+
+  it('stores view overrides only where they differ from the workspace notation', () => {
+    const settings = applyERNotation({ default: 'uml' }, 'idef1x', { viewMode: 'operational' });
+    expect(settings).toEqual({ default: 'uml', views: { operational: 'idef1x' } });
+    expect(applyERNotation(settings, 'uml', { viewMode: 'operational' })).toEqual({
+      default: 'uml',
+    });
+    expect(applyERNotation(settings, 'barker', 'workspace')).toEqual({ default: 'barker' });
+  });
+
+  it('derives both end cardinalities from type and optionality', () => {
+    expect(getRelationshipEnds(relationship({ target_cardinality: 'zeroOrMany' }))).toEqual({
+      source: SDKCardinality.ExactlyOne,
+      target: SDKCardinality.ZeroOrMany,
+    });
+    expect(
+      getRelationshipEnds(relationship({ type: 'one-to-one', source_cardinality: '0' }))
+    ).toEqual({ source: SDKCardinality.ZeroOrOne, target: SDKCardinality.ExactlyOne });
+  });
+
+  it('labels cardinalities per notation', () => {
+    expect(getSDKCardinalityLabel(SDKCardinality.OneOrMany)).toBe('1..*');
+    expect(getSDKCardinalityLabel(SDKCardinality.OneOrMany, 'idef1x')).toBe('P');
+    expect(getSDKCardinalityLabel(SDKCardinality.ZeroOrOne, 'chen')).toBe('(0,1)');
+  });
+
+  it('detects identifying relationships and dependent entities', () => {
+    const orders = table('orders', [column('order_id', { is_primary_key: true })]);
+    const lines = table('order_lines', [
+      column('line_order_id', { is_primary_key: true, is_foreign_key: true }),
+    ]);
+    const notes = table('order_notes', [column('note_order_id', { is_foreign_key: true })]);
+    const tablesById = new Map([orders, lines, notes].map((t) => [t.id, t]));
+
+    const identifying = relationship({ target_key: 'line_order_id' });
+    const nonIdentifying = relationship({
+      id: 'r2',
+      target_id: 'order_notes',
+      target_key: 'note_order_id',
+    });
+
+    expect(isIdentifyingRelationship(identifying, tablesById)).toBe(true);
+    expect(isIdentifyingRelationship(nonIdentifying, tablesById)).toBe(false);
+    expect(getDependentTableIds([identifying, nonIdentifying], [orders, lines, notes])).toEqual(
+      new Set(['order_lines'])
+    );
+  });
+
+  it('splits a polyline at half its length', () => {
+    const [first, second] = splitPolyline([
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+    ]);
+    expect(first).toEqual([
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+    ]);
+    expect(second[0]).toEqual({ x: 100, y: 0 });
+    expect(second[second.length - 1]).toEqual({ x: 100, y: 100 });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildGlossaryTree,
+  buildGlossaryUsageReport,
+  getDescendantTermIds,
+  getLinkedTermIds,
+  glossaryTermToYaml,
+  linkGlossaryTerm,
+  mergeGlossaryTerms,
+  parseGlossaryTerm,
+  unlinkGlossaryTerm,
+} from '@/utils/glossary';
+import { GlossaryTermStatus, type GlossaryTerm } from '@/types/glossary';
+import type { Column, Table } from '@/types/table';
+
+const term = (id: string, name: string, parent_id?: string): GlossaryTerm => ({
+  id,
+  name,
+  definition: '',
+  synonyms: [],
+  stewards: [],
+  status: GlossaryTermStatus.Approved,
+  parent_id,
+  version: 1,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+});
+
+const column = (id: string, termIds: string[] = []) =>
+  ({
+    id,
+    name: id,
+    data_type: 'VARCHAR',
+    authoritativeDefinitions: termIds.reduce(
+      (defs, termId) => linkGlossaryTerm(defs, termId),
+      [] as NonNullable<Column['authoritativeDefinitions']>
+    ),
+  }) as Column;
+
+describe('glossary links', () => {
+  it('links and unlinks terms without touching other definitions', () => {
+    const external = { type: 'businessDefinition', url: 'https://wiki/customer' };
+    const linked = linkGlossaryTerm(linkGlossaryTerm([external], 't1'), 't1');
+
+    expect(linked).toHaveLength(2);
+    expect(getLinkedTermIds(linked)).toEqual(['t1']);
+    expect(unlinkGlossaryTerm(linked, 't1')).toEqual([external]);
+  });
+});
+
+describe('buildGlossaryTree', () => {
+  it('orders narrower terms under their broader term and survives parent cycles', () => {
+    const terms = [
+      term('c', 'Customer'),
+      term('v', 'Value', 'c'),
+      term('a', 'Address', 'c'),
+      term('x', 'X', 'y'),
+      term('y', 'Y', 'x'),
+    ];
+
+    expect(buildGlossaryTree(terms).map(({ term: t, depth }) => `${depth}:${t.name}`)).toEqual([
+      '0:Customer',
+      '1:Address',
+      '1:Value',
+      '0:X',
+      '1:Y',
+    ]);
+    expect([...getDescendantTermIds(terms, 'c')].sort()).toEqual(['a', 'c', 'v']);
+  });
+});
+
+describe('buildGlossaryUsageReport', () => {
+  it('reports usages, unused terms, unlinked columns and links to missing terms', () => {
+    const tables = [
+      {
+        id: 'orders',
+        name: 'orders',
+        authoritativeDefinitions: linkGlossaryTerm([], 'order'),
+        columns: [column('order_id', ['order']), column('note'), column('ref', ['gone'])],
+      } as unknown as Table,
+    ];
+    const report = buildGlossaryUsageReport(
+      [term('order', 'Order'), term('customer', 'Customer')],
+      tables
+    );
+
+    expect(report.usages.get('order')?.map((u) => u.columnName ?? u.tableName)).toEqual([
+      'orders',
+      'order_id',
+    ]);
+    expect(report.unusedTerms.map((t) => t.id)).toEqual(['customer']);
+    expect(report.unlinkedColumns.map((c) => c.column.name)).toEqual(['note']);
+    expect(report.brokenLinks).toEqual([
+      expect.objectContaining({ columnName: 'ref', termId: 'gone' }),
+    ]);
+  });
+});
+
+describe('mergeGlossaryTerms', () => {
+  it('updates terms matched by name and resolves parents across the import', () => {
+    const { terms, created, updated } = mergeGlossaryTerms(
+      [term('c', 'Customer')],
+      [
+        { name: 'customer', definition: 'A person who buys' },
+        { name: 'Customer Value', parent: 'Customer', related: ['customer', 'Unknown'] },
+      ]
+    );
+
+    expect({ created, updated }).toEqual({ created: 1, updated: 1 });
+    expect(terms[0]).toMatchObject({ id: 'c', definition: 'A person who buys', version: 2 });
+    expect(terms[1]).toMatchObject({
+      name: 'Customer Value',
+      parent_id: 'c',
+      related_term_ids: ['c'],
+      status: GlossaryTermStatus.Candidate,
+    });
+  });
+});
+
+describe('glossary files', () => {
+  it('round-trips a term and rejects files without an id or name', () => {
+    const original = { ...term('c', 'Customer'), synonyms: ['Client'], stewards: ['ana'] };
+
+    expect(parseGlossaryTerm(glossaryTermToYaml(original))).toEqual(original);
+    expect(parseGlossaryTerm('id: t1\nname: Order\nstatus: bogus')).toMatchObject({
+      status: GlossaryTermStatus.Candidate,
+      synonyms: [],
+      version: 1,
+    });
+    expect(() => parseGlossaryTerm('name: Order')).toThrow('id and a name');
+  });
+});
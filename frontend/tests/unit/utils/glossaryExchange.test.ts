@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportGlossaryToCsv,
+  exportGlossaryToSkos,
+  parseGlossaryCsv,
+  parseGlossarySkos,
+} from '@/utils/glossaryExchange';
+import { GlossaryTermStatus, type GlossaryTerm } from '@/types/glossary';
+
+const terms: GlossaryTerm[] = [
+  {
+    id: 'customer',
+    name: 'Customer',
+    definition: 'A person or company that buys, "directly" or via partners',
+    synonyms: ['Client', 'Buyer'],
+    stewards: ['ana@example.com'],
+    status: GlossaryTermStatus.Approved,
+    version: 3,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-02-01T00:00:00.000Z',
+  },
+  {
+    id: 'clv',
+    name: 'Customer Lifetime Value',
+    definition: 'Expected revenue,\nover the whole relationship',
+    synonyms: [],
+    stewards: [],
+    status: GlossaryTermStatus.Deprecated,
+    parent_id: 'customer',
+    related_term_ids: ['customer'],
+    version: 1,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+  },
+];
+
+describe('glossary CSV', () => {
+  it('round-trips terms with quoted fields, lists and references by name', () => {
+    const csv = exportGlossaryToCsv(terms);
+
+    expect(csv.split('\n')[0]).toBe('id,name,definition,synonyms,stewards,status,parent,related');
+    expect(parseGlossaryCsv(csv)).toEqual([
+      {
+        id: 'customer',
+        name: 'Customer',
+        definition: terms[0].definition,
+        synonyms: ['Client', 'Buyer'],
+        stewards: ['ana@example.com'],
+        status: GlossaryTermStatus.Approved,
+        parent: '',
+        related: [],
+      },
+      {
+        id: 'clv',
+        name: 'Customer Lifetime Value',
+        definition: terms[1].definition,
+        synonyms: [],
+        stewards: [],
+        status: GlossaryTermStatus.Deprecated,
+        parent: 'Customer',
+        related: ['Customer'],
+      },
+    ]);
+  });
+
+  it('reads spreadsheet exports with a BOM and only some columns', () => {
+    expect(parseGlossaryCsv('\uFEFFName,x\r\nOrder,y\r\n')).toEqual([
+      expect.objectContaining({ name: 'Order', synonyms: undefined, parent: undefined }),
+    ]);
+    expect(() => parseGlossaryCsv('term,definition\nOrder,x')).toThrow('"name" column');
+  });
+});
+
+describe('glossary SKOS', () => {
+  it('round-trips labels, hierarchy, stewards and status', () => {
+    const skos = exportGlossaryToSkos(terms, { baseUri: 'urn:odm:glossary:ws', title: 'Shop' });
+
+    expect(skos).toContain('<skos:altLabel>Client</skos:altLabel>');
+    expect(parseGlossarySkos(skos)).toEqual([
+      expect.objectContaining({
+        id: 'customer',
+        name: 'Customer',
+        synonyms: ['Client', 'Buyer'],
+        stewards: ['ana@example.com'],
+        status: GlossaryTermStatus.Approved,
+        parent: '',
+      }),
+      expect.objectContaining({
+        id: 'clv',
+        definition: 'Expected revenue,\nover the whole relationship',
+        status: GlossaryTermStatus.Deprecated,
+        parent: 'customer',
+        related: ['customer'],
+      }),
+    ]);
+  });
+
+  it('derives broader terms from skos:narrower and reads typed rdf:Description', () => {
+    const skos = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+         xmlns:skos="http://www.w3.org/2004/02/skos/core#">
+  <rdf:Description rdf:about="http://example.com/terms#party">
+    <rdf:type rdf:resource="http://www.w3.org/2004/02/skos/core#Concept"/>
+    <skos:prefLabel xml:lang="de">Partei</skos:prefLabel>
+    <skos:prefLabel xml:lang="en">Party</skos:prefLabel>
+    <skos:narrower rdf:resource="http://example.com/terms#person"/>
+  </rdf:Description>
+  <skos:Concept rdf:about="http://example.com/terms#person">
+    <skos:prefLabel>Person</skos:prefLabel>
+  </skos:Concept>
+</rdf:RDF>`;
+
+    expect(parseGlossarySkos(skos).map((t) => [t.id, t.name, t.parent])).toEqual([
+      ['party', 'Party', ''],
+      ['person', 'Person', 'party'],
+    ]);
+    expect(() => parseGlossarySkos('<rdf:RDF')).toThrow('not valid XML');
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeImpact,
+  groupImpactBySeverity,
+  impactReportToMarkdown,
+  resolveImpact,
+  type ImpactInput,
+} from '@/utils/impactAnalysis';
+import type { Column, Table } from '@/types/table';
+import type { Domain } from '@/types/domain';
+import type { Relationship } from '@/types/relationship';
+import type { System } from '@/types/system';
+import type { MetricView } from '@/types/metricView';
+import type { DataProduct } from '@/types/odps';
+import type { Decision } from '@/types/decision';
+
+const column = (tableId: string, name: string, extra: Partial<Column> = {}): Column =>
+  ({ id: `${tableId}.${name}`, table_id: tableId, name, data_type: 'INT', ...extra }) as Column;
+
+const table = (id: string, columns: Column[], domainId = 'sales'): Table =>
+  ({ id, name: id, primary_domain_id: domainId, columns }) as unknown as Table;
+
+const input = (): ImpactInput => ({
+  tables: [
+    table('orders', [column('orders', 'id'), column('orders', 'amount')]),
+    table('orders_v2', [column('orders_v2', 'id'), column('orders_v2', 'amount')]),
+    table(
+      'revenue',
+      [column('revenue', 'total', { transformSourceObjects: ['main.silver.orders.amount'] })],
+      'finance'
+    ),
+  ],
+  relationships: [
+    {
+      id: 'r1',
+      domain_id: 'sales',
+      source_id: 'orders_v2',
+      target_id: 'orders',
+      target_key: 'orders.id',
+    } as Relationship,
+  ],
+  domains: [
+    {
+      id: 'sales',
+      name: 'Sales',
+      transformation_links: [{ id: 'l1', source_table_id: 'orders', target_table_id: 'revenue' }],
+    } as unknown as Domain,
+    {
+      id: 'finance',
+      name: 'Finance',
+      shared_resources: [
+        { source_domain_id: 'sales', resource_type: 'table', resource_id: 'orders' },
+      ],
+    } as unknown as Domain,
+  ],
+  systems: [{ id: 's1', name: 'warehouse', table_ids: ['orders', 'orders_v2'] } as System],
+  metricViews: [
+    {
+      id: 'mv',
+      domain_id: 'finance',
+      name: 'sales_metrics',
+      source: 'main.silver.orders',
+      dimensions: [{ name: 'order', expr: 'o.id' }],
+      measures: [{ name: 'revenue', expr: 'SUM(amount)', filter: 'amount > 0' }],
+    } as unknown as MetricView,
+  ],
+  products: [
+    {
+      id: 'dp',
+      domain_id: 'sales',
+      name: 'Sales Data',
+      linked_tables: ['orders'],
+      output_ports: [{ name: 'orders', table_id: 'orders' }],
+    } as unknown as DataProduct,
+  ],
+  decisions: [
+    {
+      id: 'adr',
+      title: 'Use orders',
+      linked_assets: [{ asset_type: 'odcs', asset_id: 'orders' }],
+    } as unknown as Decision,
+  ],
+});
+
+describe('analyzeImpact', () => {
+  it('lists dependents of a deleted table across domains by severity', () => {
+    const report = analyzeImpact({ kind: 'remove-table', tableId: 'orders' }, input());
+    const groups = groupImpactBySeverity(report.items);
+
+    expect(report.subject).toBe('Delete table "orders"');
+    expect(groups.map((g) => [g.severity, g.items.map((i) => i.artifactKind)])).toEqual([
+      ['breaking', ['metric-view', 'data-product', 'transformation-link', 'shared-resource']],
+      ['warning', ['relationship', 'column', 'decision']],
+      ['info', ['system']],
+    ]);
+  });
+
+  it('lists expressions and transform sources using a renamed column', () => {
+    const report = analyzeImpact(
+      { kind: 'rename-column', tableId: 'orders', columnId: 'orders.amount', newName: 'net' },
+      input()
+    );
+
+    expect(report.items.map((i) => [i.severity, i.artifactName, i.detail])).toEqual([
+      ['breaking', 'sales_metrics', 'Uses "amount" in revenue'],
+      ['warning', 'revenue.total', 'Transform source main.silver.orders.amount'],
+    ]);
+  });
+});
+
+describe('resolveImpact', () => {
+  it('cascades a table deletion to every dependent', () => {
+    const before = input();
+    const after = resolveImpact(
+      { kind: 'remove-table', tableId: 'orders' },
+      { action: 'cascade' },
+      before
+    );
+
+    expect(after.metricViews).toEqual([]);
+    expect(after.relationships).toEqual([]);
+    expect(after.products?.[0]).toMatchObject({ linked_tables: [], output_ports: [] });
+    expect(after.domains?.map((d) => [d.transformation_links, d.shared_resources])).toEqual([
+      [[], []],
+      [[], []],
+    ]);
+    expect(after.systems?.[0]?.table_ids).toEqual(['orders_v2']);
+    expect(after.decisions?.[0]?.linked_assets).toEqual([]);
+    expect(after.tables?.map((t) => t.id)).toEqual(['orders_v2', 'revenue']);
+    expect(after.tables?.[1]?.columns[0]?.transformSourceObjects).toEqual([]);
+    // Unaffected artifacts keep their identity
+    expect(after.tables?.[0]).toBe(before.tables[1]);
+  });
+
+  it('re-points a deleted table to a replacement', () => {
+    const after = resolveImpact(
+      { kind: 'remove-table', tableId: 'orders' },
+      { action: 'repoint', targetId: 'orders_v2' },
+      input()
+    );
+
+    expect(after.metricViews?.[0]?.source).toBe('main.silver.orders_v2');
+    expect(after.products?.[0]).toMatchObject({
+      linked_tables: ['orders_v2'],
+      output_ports: [{ name: 'orders', table_id: 'orders_v2' }],
+    });
+    expect(after.domains?.[0]?.transformation_links?.[0]?.source_table_id).toBe('orders_v2');
+    expect(after.tables?.[1]?.columns[0]?.transformSourceObjects).toEqual([
+      'main.silver.orders_v2.amount',
+    ]);
+    // The relationship would point the replacement at itself
+    expect(after.relationships).toEqual([]);
+  });
+
+  it('carries a column rename over to expressions and transform sources', () => {
+    const after = resolveImpact(
+      { kind: 'rename-column', tableId: 'orders', columnId: 'orders.amount', newName: 'net' },
+      { action: 'cascade' },
+      input()
+    );
+
+    expect(after.metricViews?.[0]?.measures[0]).toMatchObject({
+      expr: 'SUM(net)',
+      filter: 'net > 0',
+    });
+    expect(after.tables?.[2]?.columns[0]?.transformSourceObjects).toEqual([
+      'main.silver.orders.net',
+    ]);
+  });
+});
+
+describe('column renames in joined metric views', () => {
+  const joined = (): ImpactInput => ({
+    ...input(),
+    metricViews: [
+      {
+        id: 'mv',
+        domain_id: 'sales',
+        name: 'order_versions',
+        source: 'main.silver.orders o',
+        joins: [{ table: 'main.silver.orders_v2 AS v', on: 'o.id = v.id' }],
+        dimensions: [
+          { name: 'order', expr: 'o.id' },
+          { name: 'order_v2', expr: 'v.id' },
+          { name: 'order_v2_by_name', expr: 'orders_v2.id' },
+        ],
+        measures: [],
+      } as unknown as MetricView,
+    ],
+  });
+  const change = {
+    kind: 'rename-column' as const,
+    tableId: 'orders',
+    columnId: 'orders.id',
+    newName: 'order_id',
+  };
+
+  it('only reports expressions qualified with the renamed table', () => {
+    const report = analyzeImpact(change, joined());
+
+    expect(report.items.find((i) => i.artifactKind === 'metric-view')?.detail).toBe(
+      'Uses "id" in order, join main.silver.orders_v2 AS v'
+    );
+  });
+
+  it('leaves the same-named column of the other table alone', () => {
+    const view = resolveImpact(change, { action: 'cascade' }, joined()).metricViews?.[0];
+
+    expect(view?.dimensions.map((d) => d.expr)).toEqual(['o.order_id', 'v.id', 'orders_v2.id']);
+    expect(view?.joins?.[0]?.on).toBe('o.order_id = v.id');
+  });
+});
+
+describe('impactReportToMarkdown', () => {
+  it('renders a table per severity with domain names', () => {
+    const data = input();
+    const report = analyzeImpact({ kind: 'remove-table', tableId: 'orders' }, data);
+    const markdown = impactReportToMarkdown(report, {
+      domains: data.domains,
+      resolution: 'Cascade',
+    });
+
+    expect(markdown).toContain('# Impact Analysis: Delete table "orders"');
+    expect(markdown).toContain(
+      '8 dependent artifact(s) in 2 domain(s): 4 breaking, 3 warning, 1 info.'
+    );
+    expect(markdown).toContain('**Resolution:** Cascade');
+    expect(markdown).toContain('| sales_metrics | metric-view | Finance | Selects from "orders"');
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyDerivationChanges,
+  applyNamingStyle,
+  deriveTables,
+  diffDerivation,
+  getDerivationTrace,
+  type DerivationOptions,
+} from '@/utils/modelDerivation';
+import type { Column, Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+
+const column = (tableId: string, name: string, props: Partial<Column> = {}): Column =>
+  ({
+    id: `${tableId}.${name}`,
+    table_id: tableId,
+    name,
+    data_type: '',
+    nullable: false,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    created_at: '',
+    ...props,
+  }) as Column;
+
+const table = (name: string, columns: Column[], props: Partial<Table> = {}): Table =>
+  ({
+    id: name,
+    workspace_id: 'ws',
+    primary_domain_id: 'd',
+    name,
+    model_type: 'conceptual',
+    columns,
+    visible_domains: ['d'],
+    position_x: 0,
+    position_y: 0,
+    width: 200,
+    height: 100,
+    created_at: '',
+    last_modified_at: '',
+    ...props,
+  }) as Table;
+
+const relationship = (source: string, target: string, type: Relationship['type']) =>
+  ({
+    id: `${source}-${target}`,
+    workspace_id: 'ws',
+    domain_id: 'd',
+    source_id: source,
+    target_id: target,
+    source_type: 'table',
+    target_type: 'table',
+    type,
+    source_cardinality: '1',
+    target_cardinality: 'N',
+    model_type: 'conceptual',
+    is_circular: false,
+    created_at: '',
+    last_modified_at: '',
+  }) as Relationship;
+
+const logical: DerivationOptions = { target: 'logical', naming: 'snake_case', surrogateKeys: true };
+
+describe('modelDerivation', () => {
+  it('applies naming styles', () => {
+    expect(applyNamingStyle('OrderLine', 'snake_case')).toBe('order_line');
+    expect(applyNamingStyle('order_line', 'PascalCase')).toBe('OrderLine');
+    expect(applyNamingStyle('order line', 'camelCase')).toBe('orderLine');
+    expect(applyNamingStyle('orderLine', 'UPPER_SNAKE')).toBe('ORDER_LINE');
+    expect(applyNamingStyle('Order Line', 'as-is')).toBe('Order Line');
+  });
+
+  it('derives logical tables with surrogate and foreign keys', () => {
+    const customer = table('Customer', [column('Customer', 'FullName')]);
+    const order = table('Order', [column('Order', 'OrderDate', { data_type: 'DATETIME' })]);
+
+    const result = deriveTables(
+      [customer, order],
+      [relationship('Customer', 'Order', 'one-to-many')],
+      logical
+    );
+
+    const [derivedCustomer, derivedOrder] = result.tables;
+    expect(derivedCustomer!.name).toBe('customer');
+    expect(derivedCustomer!.model_type).toBe('logical');
+    expect(derivedCustomer!.columns.map((c) => [c.name, c.data_type, c.is_primary_key])).toEqual([
+      ['customer_id', 'long', true],
+      ['full_name', 'string', false],
+    ]);
+    expect(derivedOrder!.columns.map((c) => [c.name, c.data_type])).toEqual([
+      ['order_id', 'long'],
+      ['order_date', 'timestamp'],
+      ['customer_id', 'long'],
+    ]);
+    expect(result.relationships[0]).toMatchObject({
+      source_id: derivedCustomer!.id,
+      target_id: derivedOrder!.id,
+      source_key: derivedCustomer!.columns[0]!.id,
+      target_key: derivedOrder!.columns[2]!.id,
+      foreign_key_details: { source_column: 'customer_id', target_column: 'customer_id' },
+      model_type: 'logical',
+    });
+    expect(getDerivationTrace(derivedCustomer!)).toMatchObject({
+      source_table_id: 'Customer',
+      columns: { [derivedCustomer!.columns[1]!.id]: 'Customer.FullName' },
+    });
+  });
+
+  it('resolves many-to-many relationships into associative tables', () => {
+    const student = table('students', [column('students', 'id', { is_primary_key: true })]);
+    const course = table('courses', [column('courses', 'id', { is_primary_key: true })]);
+
+    const result = deriveTables(
+      [student, course],
+      [relationship('students', 'courses', 'many-to-many')],
+      logical
+    );
+
+    const assoc = result.tables[2]!;
+    expect(assoc.name).toBe('students_courses');
+    expect(assoc.columns.map((c) => c.name)).toEqual(['student_id', 'course_id']);
+    expect(assoc.compoundKeys?.[0]?.is_primary).toBe(true);
+    expect(result.relationships).toHaveLength(2);
+    expect(result.relationships.every((r) => r.target_id === assoc.id)).toBe(true);
+    expect(getDerivationTrace(assoc)?.source_relationship_id).toBe('students-courses');
+  });
+
+  it('maps physical types for the dialect', () => {
+    const source = table('customer', [column('customer', 'id', { data_type: 'uuid' })], {
+      model_type: 'logical',
+    });
+    const [derived] = deriveTables([source], [], {
+      target: 'physical',
+      naming: 'UPPER_SNAKE',
+      surrogateKeys: false,
+      dialect: 'mssql',
+    }).tables;
+
+    expect(derived!.name).toBe('CUSTOMER');
+    expect(derived!.physicalName).toBe('CUSTOMER');
+    expect(derived!.columns[0]).toMatchObject({ name: 'ID', data_type: 'UNIQUEIDENTIFIER' });
+  });
+
+  it('re-propagates source changes as a reviewable diff', () => {
+    const source = table('customer', [
+      column('customer', 'id', { data_type: 'integer', is_primary_key: true }),
+      column('customer', 'email', { data_type: 'string' }),
+      column('customer', 'fax', { data_type: 'string' }),
+    ]);
+    const [derived] = deriveTables([source], [], {
+      target: 'physical',
+      naming: 'snake_case',
+      surrogateKeys: false,
+      dialect: 'postgresql',
+    }).tables;
+    // Physical type tuned after derivation
+    derived!.columns[1]!.data_type = 'VARCHAR(120)';
+
+    const changed = table('customer', [
+      column('customer', 'id', { data_type: 'long', is_primary_key: true }),
+      column('customer', 'email', { data_type: 'string', nullable: true }),
+      column('customer', 'phone', { data_type: 'string' }),
+    ]);
+    const changes = diffDerivation(derived!, changed);
+
+    expect(changes.map((c) => [c.kind, c.description])).toEqual([
+      ['column-removed', 'Remove column "fax"'],
+      ['column-changed', 'Update type of "id"'],
+      ['column-changed', 'Update nullability of "email"'],
+      ['column-added', 'Add column "phone"'],
+    ]);
+
+    const updated = applyDerivationChanges(derived!, changed, changes);
+    expect(updated.columns.map((c) => [c.name, c.data_type, c.nullable])).toEqual([
+      ['id', 'BIGINT', false],
+      ['email', 'VARCHAR(120)', true],
+      ['phone', 'VARCHAR(255)', false],
+    ]);
+    expect(diffDerivation(updated, changed)).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import { checkNamingPolicy, parseNamingPolicy } from '@/utils/namingPolicy';
+import type { NamingPolicy, NamingRule } from '@/types/namingPolicy';
+import type { Column, Table } from '@/types/table';
+import type { Domain } from '@/types/domain';
+import type { System } from '@/types/system';
+
+const column = (name: string): Column =>
+  ({
+    id: `col-${name}`,
+    table_id: 't',
+    name,
+    data_type: 'string',
+    nullable: true,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    created_at: '',
+  }) as Column;
+
+const table = (name: string, props: Partial<Table> = {}): Table =>
+  ({
+    id: name,
+    workspace_id: 'ws',
+    primary_domain_id: 'd1',
+    name,
+    model_type: 'physical',
+    columns: [],
+    visible_domains: ['d1'],
+    is_owned_by_domain: true,
+    position_x: 0,
+    position_y: 0,
+    width: 200,
+    height: 100,
+    created_at: '',
+    last_modified_at: '',
+    ...props,
+  }) as Table;
+
+const domains = [
+  { id: 'd1', name: 'Sales' },
+  { id: 'd2', name: 'Finance' },
+] as Domain[];
+
+const check = (rules: NamingRule[], tables: Table[], systems: System[] = []) =>
+  checkNamingPolicy({ rules }, tables, domains, systems);
+
+describe('parseNamingPolicy', () => {
+  it('parses a policy file', () => {
+    const policy = parseNamingPolicy(`
+version: 1
+rules:
+  - id: snake-tables
+    applies_to: table
+    casing: snake_case
+    scope:
+      data_levels: [silver, gold]
+`);
+    expect(policy.rules).toHaveLength(1);
+    expect(policy.rules[0]!.scope?.data_levels).toEqual(['silver', 'gold']);
+  });
+
+  it('rejects invalid policies', () => {
+    expect(() => parseNamingPolicy('version: 1')).toThrow('"rules" list');
+    expect(() => parseNamingPolicy('rules:\n  - applies_to: table')).toThrow('has no id');
+    expect(() => parseNamingPolicy('rules:\n  - id: a\n    applies_to: view')).toThrow(
+      'must apply to'
+    );
+    expect(() =>
+      parseNamingPolicy('rules:\n  - id: a\n    applies_to: table\n    casing: kebab')
+    ).toThrow('unknown casing');
+    expect(() =>
+      parseNamingPolicy('rules:\n  - id: a\n    applies_to: table\n    pattern: "[a-"')
+    ).toThrow('invalid pattern');
+  });
+});
+
+describe('checkNamingPolicy', () => {
+  it('checks casing and prefixes and suggests a compliant name', () => {
+    const violations = check(
+      [
+        {
+          id: 'dim',
+          applies_to: 'table',
+          casing: 'snake_case',
+          prefix: 'dim_',
+          scope: { dimensional_roles: ['dimension'] },
+        },
+      ],
+      [table('CustomerAccount', { dimensionalRole: 'dimension' }), table('OrderFact')]
+    );
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      target: 'table',
+      tableId: 'CustomerAccount',
+      severity: 'warning',
+      ruleIds: ['dim'],
+      problems: ['is not snake_case', 'must start with dim_'],
+      suggestion: 'dim_customer_account',
+    });
+  });
+
+  it('scopes rules by data level, resource type, domain and system type', () => {
+    const rule = (id: string, scope: NamingRule['scope']): NamingRule => ({
+      id,
+      applies_to: 'table',
+      suffix: '_x',
+      scope,
+    });
+    const tables = [
+      table('gold_table', { data_level: 'gold' }),
+      table('tagged_silver', { tags: ['dm_level:Silver'] }),
+      table('a_view', { customProperties: [{ property: 'resource_type', value: 'view' }] }),
+      table('finance_table', { primary_domain_id: 'd2' }),
+      table('pg_table'),
+    ];
+    const systems = [{ id: 's1', name: 'pg', system_type: 'postgresql', table_ids: ['pg_table'] }];
+
+    const violations = check(
+      [
+        rule('levels', { data_levels: ['gold', 'silver'] }),
+        rule('views', { resource_types: ['view'] }),
+        rule('finance', { domains: ['finance'] }),
+        rule('postgres', { system_types: ['postgresql'] }),
+      ],
+      tables,
+      systems as System[]
+    );
+
+    expect(Object.fromEntries(violations.map((v) => [v.tableId, v.ruleIds]))).toEqual({
+      gold_table: ['levels'],
+      tagged_silver: ['levels'],
+      a_view: ['views'],
+      finance_table: ['finance'],
+      pg_table: ['postgres'],
+    });
+  });
+
+  it('checks reserved words and identifier lengths of the dialect', () => {
+    const systems = [
+      { id: 'pg', name: 'pg', system_type: 'postgresql', table_ids: ['events'] },
+    ] as System[];
+    const longName = `event_${'x'.repeat(70)}`;
+    const violations = check(
+      [{ id: 'identifiers', applies_to: 'column', reserved_words: true, max_length: 'dialect' }],
+      [table('events', { columns: [column('order'), column(longName), column('status')] })],
+      systems
+    );
+
+    expect(violations.map((v) => v.name)).toEqual(['order', longName]);
+    expect(violations[0]!.problems).toEqual(['is a reserved word in PostgreSQL']);
+    expect(violations[0]!.suggestion).toBe('order_column');
+    expect(violations[1]!.problems).toEqual(['is longer than 63 characters']);
+    expect(violations[1]!.suggestion).toHaveLength(63);
+  });
+
+  it('uses per-dialect maximum lengths and the rule dialect', () => {
+    const violations = check(
+      [
+        {
+          id: 'length',
+          applies_to: 'table',
+          dialect: 'mssql',
+          max_length: { mssql: 10, postgresql: 5 },
+        },
+      ],
+      [table('customers'), table('customer_orders')]
+    );
+
+    expect(violations.map((v) => v.name)).toEqual(['customer_orders']);
+    expect(violations[0]!.suggestion).toBe('customer_o');
+  });
+
+  it('replaces banned abbreviations keeping the name style', () => {
+    const violations = check(
+      [{ id: 'abbr', applies_to: 'column', banned_words: { cust: 'customer', no: 'number' } }],
+      [table('orders', { columns: [column('custNo'), column('cust_name')] })]
+    );
+
+    expect(violations.map((v) => v.suggestion)).toEqual(['customerNumber', 'customer_name']);
+    expect(violations[0]!.problems).toEqual([
+      'uses "cust" instead of "customer"',
+      'uses "no" instead of "number"',
+    ]);
+  });
+
+  it('combines rules into one violation with the highest severity', () => {
+    const violations = check(
+      [
+        { id: 'case', applies_to: 'table', casing: 'snake_case', severity: 'info' },
+        { id: 'prefix', applies_to: 'table', prefix: ['fct_', 'fact_'], severity: 'error' },
+      ],
+      [table('SalesFact')]
+    );
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]!.severity).toBe('error');
+    expect(violations[0]!.ruleIds).toEqual(['case', 'prefix']);
+    expect(violations[0]!.suggestion).toBe('fct_sales_fact');
+  });
+
+  it('does not suggest names it cannot make compliant', () => {
+    const policy: NamingPolicy = {
+      rules: [{ id: 'pattern', applies_to: 'table', pattern: '[a-z]+_v\\d+' }],
+    };
+    const violations = checkNamingPolicy(policy, [table('orders'), table('orders_v2')], [], []);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]!.problems).toEqual(['must match [a-z]+_v\\d+']);
+    expect(violations[0]!.suggestion).toBeUndefined();
+  });
+});
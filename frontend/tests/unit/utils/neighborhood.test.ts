@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildNeighborhoodGraph,
+  getNeighborhood,
+  NEIGHBORHOOD_LINK_KINDS,
+  type NeighborhoodGraphInput,
+} from '@/utils/neighborhood';
+import { FlowDirection, SDKRelationshipType } from '@/types/relationship';
+import type { Relationship } from '@/types/relationship';
+import type { Table } from '@/types/table';
+import type { MetricView } from '@/types/metricView';
+import type { DataProduct } from '@/types/odps';
+
+const table = (id: string, name: string, domainId = 'domain-1') =>
+  ({ id, name, primary_domain_id: domainId }) as Table;
+
+const relationship = (id: string, source: string, target: string, extra = {}) =>
+  ({
+    id,
+    source_id: source,
+    target_id: target,
+    source_type: 'table',
+    target_type: 'table',
+    ...extra,
+  }) as Relationship;
+
+// customers -> orders -> order_items -> revenue (metric view)
+// orders ==transformation==> orders_clean (other domain, shared)
+// orders_clean -> product "Sales" -> sales_mart
+const input: NeighborhoodGraphInput = {
+  tables: [
+    table('customers', 'customers'),
+    table('orders', 'orders'),
+    table('order-items', 'order_items'),
+    table('orders-clean', 'orders_clean', 'domain-2'),
+    table('sales-mart', 'sales_mart', 'domain-2'),
+  ],
+  relationships: [
+    relationship('rel-1', 'customers', 'orders'),
+    relationship('rel-2', 'orders', 'order-items'),
+  ],
+  transformationLinks: [
+    { id: 'link-1', source_table_id: 'orders', target_table_id: 'orders-clean' },
+  ],
+  metricViews: [
+    {
+      id: 'revenue',
+      domain_id: 'domain-1',
+      name: 'revenue',
+      source: 'main.sales.order_items',
+    } as MetricView,
+  ],
+  products: [
+    {
+      id: 'sales',
+      name: 'Sales',
+      linked_tables: [],
+      input_ports: [{ name: 'in', table_id: 'orders-clean' }],
+      output_ports: [{ name: 'out', table_id: 'sales-mart' }],
+    } as unknown as DataProduct,
+  ],
+};
+
+const allKinds = NEIGHBORHOOD_LINK_KINDS.map((k) => k.kind);
+
+describe('neighborhood', () => {
+  const graph = buildNeighborhoodGraph(input);
+
+  it('finds direct neighbors in both directions at depth 1', () => {
+    const { distances, linkIds } = getNeighborhood(graph, 'orders', {
+      depth: 1,
+      direction: 'both',
+      kinds: allKinds,
+    });
+
+    expect([...distances.keys()].sort()).toEqual(
+      ['customers', 'order-items', 'orders', 'orders-clean'].sort()
+    );
+    expect(linkIds).toEqual(new Set(['rel-1', 'rel-2', 'transformation-link-1']));
+  });
+
+  it('follows only upstream or downstream links', () => {
+    const upstream = getNeighborhood(graph, 'orders', {
+      depth: 3,
+      direction: 'upstream',
+      kinds: allKinds,
+    });
+    expect([...upstream.distances.keys()].sort()).toEqual(['customers', 'orders']);
+
+    const downstream = getNeighborhood(graph, 'orders', {
+      depth: 3,
+      direction: 'downstream',
+      kinds: allKinds,
+    });
+    expect(downstream.distances.get('revenue')).toBe(2);
+    expect(downstream.distances.get('sales')).toBe(2);
+    expect(downstream.distances.get('sales-mart')).toBe(3);
+    expect(downstream.distances.has('customers')).toBe(false);
+  });
+
+  it('does not zig-zag into siblings when walking both directions', () => {
+    const { distances } = getNeighborhood(graph, 'order-items', {
+      depth: 2,
+      direction: 'both',
+      kinds: allKinds,
+    });
+
+    // orders_clean is a downstream sibling of order_items via orders, not a neighbor
+    expect(distances.has('orders-clean')).toBe(false);
+    expect(distances.get('customers')).toBe(2);
+  });
+
+  it('skips link kinds that are switched off', () => {
+    const { distances } = getNeighborhood(graph, 'orders', {
+      depth: 3,
+      direction: 'downstream',
+      kinds: ['foreign-key'],
+    });
+
+    expect([...distances.keys()].sort()).toEqual(['order-items', 'orders']);
+  });
+
+  it('honors relationship flow direction', () => {
+    const reversed = buildNeighborhoodGraph({
+      ...input,
+      relationships: [
+        relationship('rel-1', 'customers', 'orders', {
+          relationship_type: SDKRelationshipType.DataFlow,
+          flow_direction: FlowDirection.TargetToSource,
+        }),
+      ],
+    });
+
+    const { distances } = getNeighborhood(reversed, 'customers', {
+      depth: 1,
+      direction: 'upstream',
+      kinds: ['data-flow'],
+    });
+    expect(distances.has('orders')).toBe(true);
+  });
+});
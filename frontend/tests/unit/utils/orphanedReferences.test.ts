@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findOrphanedReferences,
+  repairOrphanedReferences,
+  type OrphanCheckModel,
+} from '@/utils/orphanedReferences';
+import type { Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+import type { Domain } from '@/types/domain';
+import type { System } from '@/types/system';
+
+const table = (id: string) => ({ id, name: id, columns: [] }) as unknown as Table;
+
+const relationship = (id: string, source_id: string, target_id: string) =>
+  ({ id, source_id, target_id, source_type: 'table', target_type: 'table' }) as Relationship;
+
+const model = (): OrphanCheckModel => ({
+  tables: [table('orders'), table('customers')],
+  relationships: [
+    relationship('r1', 'orders', 'customers'),
+    relationship('r2', 'orders', 'payments'),
+  ],
+  systems: [{ id: 's1', name: 'Shop DB', table_ids: ['orders', 'payments'] } as System],
+  domains: [
+    {
+      id: 'd1',
+      name: 'Sales',
+      transformation_links: [
+        { id: 'l1', source_table_id: 'orders', target_table_id: 'customers' },
+        { id: 'l2', source_table_id: 'payments', target_table_id: 'orders' },
+      ],
+    } as Domain,
+  ],
+});
+
+describe('findOrphanedReferences', () => {
+  it('reports relationships, system lists and transformation links with missing tables', () => {
+    const orphans = findOrphanedReferences(model());
+
+    expect(orphans.map((o) => [o.resourceType, o.resourceId, o.field, o.missingId])).toEqual([
+      ['relationship', 'r2', 'target_id', 'payments'],
+      ['system', 's1', 'table_ids', 'payments'],
+      ['domain', 'd1', 'transformation_links.source_table_id', 'payments'],
+    ]);
+    expect(orphans[2].linkId).toBe('l2');
+  });
+
+  it('resolves relationship ends by their type', () => {
+    const orphans = findOrphanedReferences({
+      ...model(),
+      relationships: [{ ...relationship('r3', 'orders', 's1'), target_type: 'system' }],
+    });
+
+    expect(orphans.filter((o) => o.resourceType === 'relationship')).toEqual([]);
+  });
+});
+
+describe('repairOrphanedReferences', () => {
+  it('removes orphaned relationships and links and drops missing system IDs', () => {
+    const repair = repairOrphanedReferences(model());
+
+    expect(repair.removedRelationshipIds).toEqual(['r2']);
+    expect(repair.relationships.map((r) => r.id)).toEqual(['r1']);
+    expect(repair.systems[0].table_ids).toEqual(['orders']);
+    expect(repair.domains[0].transformation_links?.map((l) => l.id)).toEqual(['l1']);
+    expect(repair.updatedSystemIds).toEqual(['s1']);
+    expect(repair.updatedDomainIds).toEqual(['d1']);
+  });
+
+  it('only repairs the given orphans', () => {
+    const current = model();
+    const orphans = findOrphanedReferences(current).filter((o) => o.resourceType === 'system');
+    const repair = repairOrphanedReferences(current, orphans);
+
+    expect(repair.relationships).toHaveLength(2);
+    expect(repair.updatedDomainIds).toEqual([]);
+    expect(repair.domains[0]).toBe(current.domains[0]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTiledPdf,
+  computePageTiles,
+  svgPathToPdf,
+  type PdfExportOptions,
+} from '@/utils/pdfExport';
+import type { ScenePrimitive } from '@/utils/canvasVectorExport';
+
+const baseOptions: PdfExportOptions = {
+  pageSize: 'A4',
+  orientation: 'landscape',
+  overlapMm: 0,
+  marginMm: 10,
+  title: 'Sales',
+};
+
+const decode = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+
+describe('pdfExport', () => {
+  describe('computePageTiles', () => {
+    it('uses a single page when the area fits', () => {
+      const layout = computePageTiles({ x: 0, y: 0, width: 400, height: 300 }, baseOptions);
+
+      expect(layout.tiles).toHaveLength(1);
+      expect(layout.pageWidth).toBeGreaterThan(layout.pageHeight);
+    });
+
+    it('tiles large areas and honors the overlap', () => {
+      const area = { x: 100, y: 50, width: 3000, height: 1500 };
+      const layout = computePageTiles(area, { ...baseOptions, overlapMm: 10 });
+
+      expect(layout.cols).toBeGreaterThan(1);
+      expect(layout.rows).toBeGreaterThan(1);
+      expect(layout.tiles).toHaveLength(layout.rows * layout.cols);
+
+      const [first, second] = layout.tiles;
+      expect(first!.area.x).toBe(100);
+      // Neighbouring tiles overlap by 10mm in canvas units
+      const overlapUnits = first!.area.x + first!.area.width - second!.area.x;
+      expect(overlapUnits * layout.pointsPerUnit).toBeCloseTo((10 * 72) / 25.4, 5);
+
+      // The last tile reaches the end of the area
+      const last = layout.tiles[layout.tiles.length - 1]!;
+      expect(last.area.x + last.area.width).toBeGreaterThanOrEqual(area.x + area.width);
+      expect(last.area.y + last.area.height).toBeGreaterThanOrEqual(area.y + area.height);
+    });
+
+    it('fits the area to the requested number of pages wide', () => {
+      const layout = computePageTiles(
+        { x: 0, y: 0, width: 5000, height: 1000 },
+        { ...baseOptions, pagesWide: 2, overlapMm: 5 }
+      );
+
+      expect(layout.cols).toBe(2);
+    });
+  });
+
+  describe('svgPathToPdf', () => {
+    it('converts line and cubic segments', () => {
+      expect(svgPathToPdf('M 0 0 L 10 5 C 1 2 3 4 5 6 Z')).toBe(
+        ['0 0 m', '10 5 l', '1 2 3 4 5 6 c', 'h'].join('\n')
+      );
+    });
+
+    it('raises quadratic segments to cubic and resolves relative commands', () => {
+      expect(svgPathToPdf('M0,0 Q 30 0 30 30')).toBe(['0 0 m', '20 0 30 10 30 30 c'].join('\n'));
+      expect(svgPathToPdf('m 10 10 h 5 v 5 l -5 0')).toBe(
+        ['10 10 m', '15 10 l', '15 15 l', '10 15 l'].join('\n')
+      );
+    });
+  });
+
+  describe('buildTiledPdf', () => {
+    const primitives: ScenePrimitive[] = [
+      {
+        type: 'path',
+        d: 'M 0 0 L 2000 0',
+        stroke: { r: 100, g: 116, b: 139, a: 1 },
+        strokeWidth: 2,
+      },
+      {
+        type: 'text',
+        x: 10,
+        y: 20,
+        text: 'orders (fact)',
+        fontSize: 12,
+        fill: { r: 0, g: 0, b: 0, a: 1 },
+      },
+    ];
+
+    it('writes one page per tile with a valid cross-reference table', () => {
+      const area = { x: 0, y: 0, width: 2000, height: 400 };
+      const layout = computePageTiles(area, baseOptions);
+      const pdf = decode(
+        buildTiledPdf(primitives, area, baseOptions, new Date('2026-01-01T00:00:00Z'))
+      );
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(pdf).toContain(`/Count ${layout.tiles.length}`);
+      expect(pdf).toContain('(orders \\(fact\\)) Tj');
+      expect(pdf).toContain(`Page 1 of ${layout.tiles.length} \\(row 1, column 1\\)) Tj`);
+      expect(pdf).toContain('(Zero or many) Tj');
+
+      // startxref points at the xref table and every object offset is correct
+      const xrefOffset = parseInt(pdf.match(/startxref\n(\d+)/)![1]!, 10);
+      expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+      const entries = pdf.slice(xrefOffset).match(/^(\d{10}) 00000 n $/gm)!;
+      entries.forEach((entry, i) => {
+        const offset = parseInt(entry.slice(0, 10), 10);
+        expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    it('omits the title block when disabled', () => {
+      const pdf = decode(
+        buildTiledPdf(
+          primitives,
+          { x: 0, y: 0, width: 200, height: 100 },
+          {
+            ...baseOptions,
+            includeTitleBlock: false,
+          }
+        )
+      );
+
+      expect(pdf).not.toContain('(Sales) Tj');
+      expect(pdf).toContain('/Count 1');
+    });
+  });
+});
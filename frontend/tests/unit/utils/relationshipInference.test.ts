@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTypeCompatibility,
+  inferRelationships,
+  proposalToRelationship,
+  tableNameVariants,
+} from '@/utils/relationshipInference';
+import type { Column, Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+
+const column = (tableId: string, name: string, props: Partial<Column> = {}): Column =>
+  ({
+    id: `${tableId}.${name}`,
+    table_id: tableId,
+    name,
+    data_type: 'INTEGER',
+    nullable: false,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    created_at: '',
+    ...props,
+  }) as Column;
+
+const table = (name: string, columns: Array<[string, Partial<Column>?]>): Table =>
+  ({
+    id: name,
+    workspace_id: 'ws',
+    primary_domain_id: 'd',
+    name,
+    model_type: 'logical',
+    columns: columns.map(([columnName, props]) => column(name, columnName, props)),
+    visible_domains: ['d'],
+    position_x: 0,
+    position_y: 0,
+    width: 200,
+    height: 100,
+    created_at: '',
+    last_modified_at: '',
+  }) as Table;
+
+describe('relationshipInference', () => {
+  const customers = table('customers', [['id', { is_primary_key: true }], ['name']]);
+  const orders = table('orders', [
+    ['order_id', { is_primary_key: true, data_type: 'BIGINT' }],
+    ['customer_id', { nullable: true }],
+  ]);
+  const orderLines = table('tbl_order_lines', [
+    ['id', { is_primary_key: true }],
+    ['orderId', { data_type: 'BIGINT' }],
+    ['note', { data_type: 'VARCHAR(200)' }],
+  ]);
+
+  it('builds table name variants without prefixes and plurals', () => {
+    expect(tableNameVariants('sales.tbl_order_lines')).toEqual([
+      ['order', 'lines'],
+      ['order', 'line'],
+      ['orderline'],
+    ]);
+    expect(tableNameVariants('categories')).toContainEqual(['category']);
+  });
+
+  it('classifies type compatibility', () => {
+    expect(getTypeCompatibility('INT', 'BIGINT')).toBe('same');
+    expect(getTypeCompatibility('varchar(36)', 'UUID')).toBe('loose');
+    expect(getTypeCompatibility('NUMBER(10)', 'INTEGER')).toBe('loose');
+    expect(getTypeCompatibility('DATE', 'INTEGER')).toBe('incompatible');
+  });
+
+  it('proposes foreign keys from naming, types and key status', () => {
+    const proposals = inferRelationships([customers, orders, orderLines], []);
+
+    expect(proposals.map((p) => [p.childColumnId, p.parentColumnId, p.confidence])).toEqual([
+      ['orders.customer_id', 'customers.id', 1],
+      ['tbl_order_lines.orderId', 'orders.order_id', 1],
+    ]);
+    expect(proposals[0]!.type).toBe('one-to-many');
+    expect(proposals[0]!.reasons).toHaveLength(3);
+  });
+
+  it('skips incompatible types and already related tables', () => {
+    const dated = table('shipments', [
+      ['id', { is_primary_key: true }],
+      ['customer_id', { data_type: 'DATE' }],
+    ]);
+    expect(inferRelationships([customers, dated], [])).toEqual([]);
+
+    const existing = { source_id: 'orders', target_id: 'customers' } as Relationship;
+    expect(inferRelationships([customers, orders], [existing])).toEqual([]);
+  });
+
+  it('applies the minimum confidence', () => {
+    const invoices = table('invoices', [
+      ['invoice_id', { is_primary_key: true }],
+      ['billing_order_id', { data_type: 'BIGINT' }],
+    ]);
+    const [proposal] = inferRelationships([orders, invoices], []);
+    expect(proposal).toMatchObject({
+      childColumnId: 'invoices.billing_order_id',
+      confidence: 0.75,
+    });
+    expect(inferRelationships([orders, invoices], [], { minConfidence: 0.8 })).toEqual([]);
+  });
+
+  it('turns an accepted proposal into a parent → child relationship', () => {
+    const [proposal] = inferRelationships([customers, orders], []);
+    const relationship = proposalToRelationship(proposal!, [customers, orders], {
+      workspaceId: 'ws',
+      domainId: 'd',
+    });
+
+    expect(relationship).toMatchObject({
+      source_id: 'customers',
+      target_id: 'orders',
+      type: 'one-to-many',
+      source_cardinality: '0',
+      target_cardinality: 'N',
+      source_key: 'customers.id',
+      target_key: 'orders.customer_id',
+      foreign_key_details: { source_column: 'id', target_column: 'customer_id' },
+      relationship_type: 'foreignKey',
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dialectForSystemType,
+  isReservedWord,
+  maxIdentifierLength,
+  toLogicalType,
+  toPhysicalType,
+} from '@/utils/sqlDialects';
+
+describe('sqlDialects', () => {
+  it('maps system types to SQL dialects', () => {
+    expect(dialectForSystemType('rds_postgresql')).toBe('postgresql');
+    expect(dialectForSystemType('mariadb')).toBe('mysql');
+    expect(dialectForSystemType('azure_sql_database')).toBe('mssql');
+    expect(dialectForSystemType('deltalake')).toBe('databricks');
+    expect(dialectForSystemType('kafka')).toBeUndefined();
+    expect(dialectForSystemType(undefined)).toBeUndefined();
+  });
+
+  it('reads logical types from physical types of any dialect', () => {
+    expect(toLogicalType('VARCHAR(100)')).toBe('string');
+    expect(toLogicalType('NVARCHAR(MAX)')).toBe('text');
+    expect(toLogicalType('bigint')).toBe('long');
+    expect(toLogicalType('NUMERIC(10,2)')).toBe('decimal');
+    expect(toLogicalType('timestamp with time zone')).toBe('timestamp');
+    expect(toLogicalType('UNIQUEIDENTIFIER')).toBe('uuid');
+    expect(toLogicalType('decimal')).toBe('decimal');
+    expect(toLogicalType('')).toBe('string');
+  });
+
+  it('maps logical types to each dialect', () => {
+    expect(toPhysicalType('timestamp', 'mssql')).toBe('DATETIME2');
+    expect(toPhysicalType('string', 'databricks')).toBe('STRING');
+    expect(toPhysicalType('boolean', 'sqlite')).toBe('INTEGER');
+    expect(toPhysicalType('uuid', 'postgresql')).toBe('UUID');
+  });
+
+  it('knows reserved words and identifier limits of each dialect', () => {
+    expect(isReservedWord('ORDER', 'postgresql')).toBe(true);
+    expect(isReservedWord('limit', 'mysql')).toBe(true);
+    expect(isReservedWord('limit', 'mssql')).toBe(false);
+    expect(isReservedWord('customer', 'databricks')).toBe(false);
+    expect(maxIdentifierLength('postgresql')).toBe(63);
+    expect(maxIdentifierLength('sqlite')).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { buildChangeTree, describeChange, diffWorkspaces } from '@/utils/workspaceDiff';
+import type { Column, Table } from '@/types/table';
+import type { Relationship } from '@/types/relationship';
+import type { Domain } from '@/types/domain';
+import type { System } from '@/types/system';
+import type { DataProduct } from '@/types/odps';
+import type { Decision } from '@/types/decision';
+
+const column = (id: string, name: string, props: Partial<Column> = {}): Column =>
+  ({
+    id,
+    table_id: 't',
+    name,
+    data_type: 'string',
+    nullable: true,
+    is_primary_key: false,
+    is_foreign_key: false,
+    order: 0,
+    created_at: '',
+    ...props,
+  }) as Column;
+
+const table = (id: string, name: string, columns: Column[] = [], props: Partial<Table> = {}) =>
+  ({ id, name, columns, model_type: 'physical', ...props }) as Table;
+
+const relationship = (id: string, props: Partial<Relationship> = {}) =>
+  ({
+    id,
+    source_id: 'orders',
+    target_id: 'customers',
+    source_cardinality: 'N',
+    target_cardinality: '1',
+    ...props,
+  }) as Relationship;
+
+describe('diffWorkspaces', () => {
+  it('lists added, removed and modified tables and columns', () => {
+    const before = {
+      tables: [
+        table('orders', 'orders', [column('c1', 'id'), column('c2', 'amount')]),
+        table('legacy', 'legacy'),
+      ],
+      relationships: [],
+    };
+    const after = {
+      tables: [
+        table(
+          'orders',
+          'orders',
+          [
+            column('c1', 'id'),
+            column('c2', 'amount', { data_type: 'decimal' }),
+            column('c3', 'note'),
+          ],
+          { description: 'All orders' }
+        ),
+        table('customers', 'customers'),
+      ],
+      relationships: [],
+    };
+
+    const changes = diffWorkspaces(before, after);
+    expect(changes.map((c) => `${c.kind} ${c.resourceType} ${c.name}`)).toEqual([
+      'modified table orders',
+      'modified column amount',
+      'added column note',
+      'added table customers',
+      'removed table legacy',
+    ]);
+    expect(changes[0]!.fields).toEqual([
+      { field: 'description', before: undefined, after: 'All orders' },
+    ]);
+    expect(changes[1]).toMatchObject({
+      tableName: 'orders',
+      fields: [{ field: 'data_type', before: 'string', after: 'decimal' }],
+    });
+  });
+
+  it('matches columns by name when their IDs changed and ignores empty values', () => {
+    const before = {
+      tables: [table('t', 'orders', [column('old-id', 'id', { description: '' })], { tags: [] })],
+      relationships: [],
+    };
+    const after = { tables: [table('t', 'orders', [column('new-id', 'id')])], relationships: [] };
+
+    expect(diffWorkspaces(before, after)).toEqual([]);
+  });
+
+  it('compares relationships using legacy table IDs', () => {
+    const tables = [table('orders', 'orders'), table('customers', 'customers')];
+    const before = {
+      tables,
+      relationships: [
+        relationship('r1', { source_id: '', source_table_id: 'orders' }),
+        relationship('r2'),
+      ],
+    };
+    const after = {
+      tables,
+      relationships: [relationship('r1', { target_cardinality: '0' }), relationship('r3')],
+    };
+
+    const changes = diffWorkspaces(before, after);
+    expect(changes.map((c) => `${c.kind} ${c.name}`)).toEqual([
+      'modified orders → customers',
+      'added orders → customers',
+      'removed orders → customers',
+    ]);
+    expect(changes[0]!.fields).toEqual([{ field: 'target_cardinality', before: '1', after: '0' }]);
+  });
+
+  it('detects renamed and moved tables and columns', () => {
+    const domains = [
+      { id: 'd1', name: 'Sales' } as Domain,
+      { id: 'd2', name: 'Finance' } as Domain,
+    ];
+    const before = {
+      domains,
+      tables: [
+        table('orders', 'orders', [column('c1', 'id'), column('c2', 'amount')], {
+          primary_domain_id: 'd1',
+        }),
+        table('payments', 'payments', [column('c3', 'id')], { primary_domain_id: 'd1' }),
+      ],
+      relationships: [],
+      systems: [{ id: 's1', name: 'Shop DB', table_ids: ['orders', 'payments'] } as System],
+    };
+    const after = {
+      domains,
+      tables: [
+        table('orders', 'sales_orders', [column('c1', 'id')], { primary_domain_id: 'd2' }),
+        table('payments', 'payments', [column('c3', 'id'), column('c2', 'order_amount')], {
+          primary_domain_id: 'd1',
+        }),
+      ],
+      relationships: [],
+      systems: [
+        { id: 's1', name: 'Shop DB', table_ids: ['orders'] } as System,
+        { id: 's2', name: 'Billing DB', table_ids: ['payments'] } as System,
+      ],
+    };
+
+    const changes = diffWorkspaces(before, after);
+    expect(changes.map((c) => `${c.kind} ${c.resourceType} ${c.name}`)).toEqual([
+      'modified table sales_orders',
+      'modified table payments',
+      'modified column order_amount',
+      'modified system Shop DB',
+      'added system Billing DB',
+    ]);
+    expect(changes[0]).toMatchObject({
+      renamedFrom: 'orders',
+      movedFrom: 'Sales',
+      movedTo: 'Finance',
+      fields: [{ field: 'name', before: 'orders', after: 'sales_orders' }],
+    });
+    expect(describeChange(changes[1]!)).toEqual(['moved from Shop DB to Billing DB']);
+    expect(describeChange(changes[2]!)).toEqual([
+      'renamed from amount',
+      'moved from orders to payments',
+    ]);
+  });
+
+  it('compares products and decisions and groups changes into a tree', () => {
+    const product = (props: Partial<DataProduct> = {}) =>
+      ({
+        id: 'p1',
+        domain_id: 'd1',
+        name: 'Orders',
+        linked_tables: ['orders'],
+        ...props,
+      }) as DataProduct;
+    const decision = { id: 'adr1', title: 'Use UUIDs', status: 'proposed' } as Decision;
+    const before = {
+      tables: [table('orders', 'orders', [column('c1', 'id')])],
+      relationships: [],
+      products: [product()],
+      decisionRecords: [decision],
+    };
+    const after = {
+      tables: [table('orders', 'orders', [column('c1', 'id', { nullable: false })])],
+      relationships: [],
+      products: [product({ status: 'active' })],
+      decisionRecords: [{ ...decision, status: 'accepted' } as Decision],
+    };
+
+    const tree = buildChangeTree(diffWorkspaces(before, after));
+    expect(tree.map((g) => [g.label, g.nodes.map((n) => n.name)])).toEqual([
+      ['Tables', ['orders']],
+      ['Data Products', ['Orders']],
+      ['Decisions', ['Use UUIDs']],
+    ]);
+    // The table itself is unchanged, so its node only holds the column change
+    expect(tree[0]!.nodes[0]!.change).toBeUndefined();
+    expect(tree[0]!.nodes[0]!.children.map((c) => c.name)).toEqual(['id']);
+    expect(tree[2]!.nodes[0]!.change?.fields).toEqual([
+      { field: 'status', before: 'proposed', after: 'accepted' },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import yaml from 'js-yaml';
+import { mergeWorkspaceYaml } from '@/utils/workspaceMerge';
+
+const contract = (
+  properties: Array<Record<string, unknown>>,
+  extra: Record<string, unknown> = {}
+) =>
+  yaml.dump({
+    apiVersion: 'v3.1.0',
+    kind: 'DataContract',
+    id: 'c1',
+    version: '1.0.0',
+    ...extra,
+    schema: [{ id: 't1', name: 'orders', properties }],
+  });
+
+const id = { id: 'p1', name: 'id', logicalType: 'integer', primaryKey: true };
+const amount = { id: 'p2', name: 'amount', logicalType: 'number' };
+
+describe('mergeWorkspaceYaml', () => {
+  it('merges changes to different columns and fields without conflicts', () => {
+    const base = contract([id, amount], { tags: ['sales'] });
+    const ours = contract([id, { ...amount, description: 'Order total' }], {
+      tags: ['sales', 'finance'],
+    });
+    const theirs = contract(
+      [
+        id,
+        { ...amount, logicalType: 'decimal' },
+        { id: 'p3', name: 'note', logicalType: 'string' },
+      ],
+      { tags: ['sales', 'gold'], version: '1.1.0' }
+    );
+
+    const result = mergeWorkspaceYaml(base, ours, theirs);
+
+    expect(result?.conflicts).toEqual([]);
+    const merged = yaml.load(result!.content) as Record<string, any>;
+    expect(merged.version).toBe('1.1.0');
+    expect(merged.tags).toEqual(['sales', 'finance', 'gold']);
+    expect(merged.schema[0].properties).toEqual([
+      id,
+      { ...amount, logicalType: 'decimal', description: 'Order total' },
+      { id: 'p3', name: 'note', logicalType: 'string' },
+    ]);
+  });
+
+  it('reports values changed differently on both sides and applies the picked side', () => {
+    const base = contract([id, amount]);
+    const ours = contract([id, { ...amount, logicalType: 'decimal' }]);
+    const theirs = contract([id, { ...amount, logicalType: 'double' }]);
+
+    const result = mergeWorkspaceYaml(base, ours, theirs);
+
+    expect(result?.conflicts).toEqual([
+      {
+        id: 'schema[t1].properties[p2].logicalType',
+        label: 'schema[orders].properties[amount].logicalType',
+        base: 'number',
+        ours: 'decimal',
+        theirs: 'double',
+      },
+    ]);
+    const resolved = mergeWorkspaceYaml(base, ours, theirs, {
+      'schema[t1].properties[p2].logicalType': 'theirs',
+    });
+    const merged = yaml.load(resolved!.content) as Record<string, any>;
+    expect(merged.schema[0].properties[1].logicalType).toBe('double');
+  });
+
+  it('treats removing a column that the other side changed as a conflict', () => {
+    const base = contract([id, amount]);
+    const ours = contract([id]);
+    const theirs = contract([id, { ...amount, description: 'Order total' }]);
+
+    const result = mergeWorkspaceYaml(base, ours, theirs);
+
+    expect(result?.conflicts).toHaveLength(1);
+    expect(result?.conflicts[0]).toMatchObject({
+      label: 'schema[orders].properties[amount]',
+      ours: undefined,
+    });
+    // Ours by default: the column stays removed
+    const merged = yaml.load(result!.content) as Record<string, any>;
+    expect(merged.schema[0].properties).toEqual([id]);
+  });
+
+  it('returns null when a side is not valid YAML', () => {
+    const base = contract([id]);
+    const conflicted = `${base}<<<<<<< HEAD\nname: a\n=======\nname: b\n>>>>>>> main\n`;
+
+    expect(mergeWorkspaceYaml(base, conflicted, base)).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSearchIndex,
+  searchWorkspace,
+  extractSketchText,
+  type SearchSources,
+} from '@/utils/workspaceSearch';
+import type { Table, Column } from '@/types/table';
+import type { System } from '@/types/system';
+import type { Decision } from '@/types/decision';
+import type { Sketch } from '@/types/sketch';
+
+const column = (tableId: string, name: string, extra: Partial<Column> = {}): Column => ({
+  id: `${tableId}-${name}`,
+  table_id: tableId,
+  name,
+  data_type: 'BIGINT',
+  nullable: false,
+  is_primary_key: false,
+  is_foreign_key: false,
+  order: 0,
+  created_at: '2025-01-01T00:00:00Z',
+  ...extra,
+});
+
+const table = (id: string, domainId: string, columns: string[], extra: Partial<Table> = {}) =>
+  ({
+    id,
+    workspace_id: 'ws-1',
+    primary_domain_id: domainId,
+    name: id,
+    model_type: 'physical',
+    columns: columns.map((c) => column(id, c)),
+    position_x: 0,
+    position_y: 0,
+    width: 200,
+    height: 150,
+    visible_domains: [domainId],
+    is_owned_by_domain: true,
+    created_at: '2025-01-01T00:00:00Z',
+    last_modified_at: '2025-01-01T00:00:00Z',
+    ...extra,
+  }) as Table;
+
+const emptySources = (): SearchSources => ({
+  tables: [],
+  systems: [],
+  products: [],
+  computeAssets: [],
+  metricViews: [],
+  bpmnProcesses: [],
+  dmnDecisions: [],
+  decisions: [],
+  articles: [],
+  sketches: [],
+});
+
+describe('workspaceSearch', () => {
+  const sources: SearchSources = {
+    ...emptySources(),
+    tables: [
+      table('orders', 'sales', ['order_id', 'customer_id', 'total']),
+      table('customers', 'crm', ['customer_id', 'email'], {
+        businessName: 'Customer Master',
+      }),
+      table('invoices', 'finance', ['invoice_id', 'customerId'], {
+        description: 'Billed orders per customer',
+      }),
+    ],
+    systems: [
+      {
+        id: 'sys-1',
+        name: 'crm-postgres',
+        system_type: 'postgresql',
+        domain_id: 'crm',
+        created_at: '2025-01-01T00:00:00Z',
+        last_modified_at: '2025-01-01T00:00:00Z',
+      } as System,
+    ],
+    decisions: [
+      {
+        id: 'adr-1',
+        title: 'Use surrogate keys',
+        context: 'Natural customer keys change over time',
+        decision: 'All tables get a surrogate key',
+        consequences: '',
+        domain_id: 'crm',
+      } as Decision,
+    ],
+  };
+  const index = buildSearchIndex(sources);
+
+  it('finds columns across all domains', () => {
+    const { results } = searchWorkspace(index, 'customer_id', { kinds: ['column'] });
+
+    const tables = results.map((r) => r.document.parentId);
+    expect(tables).toContain('orders');
+    expect(tables).toContain('customers');
+    // Separator-insensitive match on camelCase names
+    expect(tables).toContain('invoices');
+    expect(new Set(results.map((r) => r.document.domainId))).toEqual(
+      new Set(['sales', 'crm', 'finance'])
+    );
+  });
+
+  it('ranks name matches above description matches', () => {
+    const { results } = searchWorkspace(index, 'customer', { kinds: ['table'] });
+
+    expect(results[0]!.document.id).toBe('customers');
+    expect(results.find((r) => r.document.id === 'invoices')?.matchedField).toBe('description');
+  });
+
+  it('matches business names', () => {
+    const { results } = searchWorkspace(index, 'master');
+
+    expect(results[0]!.document.id).toBe('customers');
+    expect(results[0]!.matchedField).toBe('business name');
+  });
+
+  it('requires every term to match', () => {
+    expect(searchWorkspace(index, 'surrogate keys').results[0]!.document.id).toBe('adr-1');
+    expect(searchWorkspace(index, 'surrogate invoices').results).toHaveLength(0);
+  });
+
+  it('reports facet counts independent of the active filters', () => {
+    const { results, facets } = searchWorkspace(index, 'customer', {
+      kinds: ['table'],
+      domainId: 'crm',
+    });
+
+    expect(results.map((r) => r.document.id)).toEqual(['customers']);
+    expect(facets.kinds.table).toBe(2);
+    expect(facets.kinds.column).toBe(3);
+    expect(facets.kinds.decision).toBe(1);
+    expect(facets.domains.finance).toBeGreaterThan(0);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(searchWorkspace(index, '   ').results).toEqual([]);
+  });
+
+  it('indexes sketch text elements', () => {
+    const sketch = {
+      id: 'sk-1',
+      title: 'Whiteboard',
+      sketch_type: 'other',
+      excalidraw_data: JSON.stringify({
+        elements: [
+          { type: 'text', text: 'Loyalty points ledger' },
+          { type: 'rectangle' },
+          { type: 'text', text: 'removed', isDeleted: true },
+        ],
+      }),
+    } as Sketch;
+
+    expect(extractSketchText(sketch.excalidraw_data)).toBe('Loyalty points ledger');
+
+    const sketchIndex = buildSearchIndex({ ...emptySources(), sketches: [sketch] });
+    expect(searchWorkspace(sketchIndex, 'ledger').results[0]!.document.id).toBe('sk-1');
+    expect(searchWorkspace(sketchIndex, 'removed').results).toHaveLength(0);
+  });
+});
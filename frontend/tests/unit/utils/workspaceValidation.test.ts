@@ -96,11 +96,15 @@ describe('workspaceValidation', () => {
       const mockDomains = [{ id: 'domain-1', name: 'Core' }];
       const mockArticles = [{ id: 'article-1', title: 'Guide' }];
       const mockDecisions = [{ id: 'decision-1', title: 'Use Postgres' }];
+      const mockSystems = [{ id: 'system-1', name: 'Shop DB' }];
+      const mockMetricViews = [{ id: 'metric-view-1', name: 'revenue' }];
 
       (useModelStore.getState as Mock).mockReturnValue({
         tables: mockTables,
         relationships: mockRelationships,
         domains: mockDomains,
+        systems: mockSystems,
+        metricViews: mockMetricViews,
       });
       (useKnowledgeStore.getState as Mock).mockReturnValue({
         articles: mockArticles,
@@ -124,7 +128,10 @@ describe('workspaceValidation', () => {
         mockRelationships,
         mockDomains,
         mockArticles,
-        mockDecisions
+        mockDecisions,
+        undefined, // No naming policy in the current workspace
+        mockSystems,
+        mockMetricViews
       );
     });
 
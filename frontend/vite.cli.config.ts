@@ -0,0 +1,30 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+import packageJson from './package.json';
+
+// Vite config for the odm command-line tool (src/cli/odm.ts)
+// Built as a Node ES module; dependencies stay external and are loaded from node_modules
+export default defineConfig({
+  define: {
+    __APP_VERSION__: JSON.stringify(packageJson.version),
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  build: {
+    outDir: 'dist-cli',
+    copyPublicDir: false,
+    ssr: path.resolve(__dirname, 'src/cli/odm.ts'),
+    rollupOptions: {
+      // The SDK is loaded from node_modules at runtime together with its .wasm file
+      external: ['@offenedatenmodellierung/data-modelling-sdk'],
+      output: {
+        entryFileNames: 'odm.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+    target: 'node18',
+  },
+});